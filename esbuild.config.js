@@ -52,6 +52,14 @@ esbuild
       '@lydell/node-pty-linux-x64',
       '@lydell/node-pty-win32-arm64',
       '@lydell/node-pty-win32-x64',
+      // Tokenizer vocabularies are tens of megabytes each and only loaded
+      // for the model families that need them
+      '@lenml/tokenizer-deepseek_v3',
+      '@lenml/tokenizer-gemini',
+      '@lenml/tokenizer-gemma3',
+      '@lenml/tokenizer-llama2',
+      '@lenml/tokenizer-llama3_1',
+      '@lenml/tokenizer-qwen3',
       'node:module',
     ],
     alias: {
@@ -34,6 +34,7 @@ import {
 import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
 import { loadSettings } from '../config/settings.js';
 import { loadExtensions } from '../config/extension.js';
+import { type Tenant, resolveTenantWorkspace } from '../config/tenants.js';
 import { Task } from './task.js';
 import { requestStorage } from '../http/requestStorage.js';
 
@@ -44,10 +45,12 @@ import { requestStorage } from '../http/requestStorage.js';
 class TaskWrapper {
   task: Task;
   agentSettings: AgentSettings;
+  tenantId?: string;
 
-  constructor(task: Task, agentSettings: AgentSettings) {
+  constructor(task: Task, agentSettings: AgentSettings, tenantId?: string) {
     this.task = task;
     this.agentSettings = agentSettings;
+    this.tenantId = tenantId;
   }
 
   get id() {
@@ -58,6 +61,7 @@ class TaskWrapper {
     const persistedState: PersistedStateMetadata = {
       _agentSettings: this.agentSettings,
       _taskState: this.task.taskState,
+      _tenantId: this.tenantId,
     };
 
     const sdkTask: SDKTask = {
@@ -85,19 +89,71 @@ export class CoderAgentExecutor implements AgentExecutor {
   // Track tasks with an active execution loop.
   private executingTasks = new Set<string>();
 
-  constructor(private taskStore?: TaskStore) {}
+  constructor(
+    private taskStore?: TaskStore,
+    private tenants: Tenant[] = [],
+  ) {}
+
+  private getTenant(tenantId: string | undefined): Tenant | undefined {
+    if (tenantId === undefined) {
+      return undefined;
+    }
+    const tenant = this.tenants.find((t) => t.id === tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant ${tenantId} is no longer configured.`);
+    }
+    return tenant;
+  }
 
   private async getConfig(
     agentSettings: AgentSettings,
     taskId: string,
+    tenant?: Tenant,
   ): Promise<Config> {
+    if (tenant?.workspaceRoot) {
+      // Tenants share the process, so their workspaces are not made the
+      // working directory and their .env files are not loaded
+      const workspaceRoot = resolveTenantWorkspace(
+        { ...tenant, workspaceRoot: tenant.workspaceRoot },
+        agentSettings,
+      );
+      const settings = { ...loadSettings(workspaceRoot), ...tenant.settings };
+      const extensions = loadExtensions(workspaceRoot);
+      return await loadConfig(settings, extensions, taskId, workspaceRoot);
+    }
     const workspaceRoot = setTargetDir(agentSettings);
     loadEnvironment(); // Will override any global env with workspace envs
-    const settings = loadSettings(workspaceRoot);
+    const settings = { ...loadSettings(workspaceRoot), ...tenant?.settings };
     const extensions = loadExtensions(workspaceRoot);
     return await loadConfig(settings, extensions, taskId);
   }
 
+  /**
+   * Returns the task settings with the workspace resolved against the
+   * tenant's workspace root, so the persisted task points at it.
+   */
+  private resolveAgentSettings(
+    agentSettings: AgentSettings,
+    tenant?: Tenant,
+  ): AgentSettings {
+    if (!tenant?.workspaceRoot) {
+      return agentSettings;
+    }
+    return {
+      kind: CoderAgentEvent.StateAgentSettingsEvent,
+      workspacePath: resolveTenantWorkspace(
+        { ...tenant, workspaceRoot: tenant.workspaceRoot },
+        agentSettings,
+      ),
+    };
+  }
+
+  private countExecutingTasks(tenantId: string): number {
+    return Array.from(this.executingTasks).filter(
+      (taskId) => this.tasks.get(taskId)?.tenantId === tenantId,
+    ).length;
+  }
+
   /**
    * Reconstructs TaskWrapper from SDKTask.
    */
@@ -115,7 +171,8 @@ export class CoderAgentExecutor implements AgentExecutor {
     }
 
     const agentSettings = persistedState._agentSettings;
-    const config = await this.getConfig(agentSettings, sdkTask.id);
+    const tenant = this.getTenant(persistedState._tenantId);
+    const config = await this.getConfig(agentSettings, sdkTask.id, tenant);
     const contextId =
       (metadata['_contextId'] as string) || (sdkTask.contextId as string);
     const runtimeTask = await Task.create(
@@ -131,7 +188,7 @@ export class CoderAgentExecutor implements AgentExecutor {
       await runtimeTask.geminiClient.initialize(contentGeneratorConfig);
     }
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(runtimeTask, agentSettings, tenant?.id);
     this.tasks.set(sdkTask.id, wrapper);
     logger.info(`Task ${sdkTask.id} reconstructed from store.`);
     return wrapper;
@@ -142,9 +199,13 @@ export class CoderAgentExecutor implements AgentExecutor {
     contextId: string,
     agentSettingsInput?: AgentSettings,
     eventBus?: ExecutionEventBus,
+    tenant?: Tenant,
   ): Promise<TaskWrapper> {
-    const agentSettings = agentSettingsInput || ({} as AgentSettings);
-    const config = await this.getConfig(agentSettings, taskId);
+    const agentSettings = this.resolveAgentSettings(
+      agentSettingsInput || ({} as AgentSettings),
+      tenant,
+    );
+    const config = await this.getConfig(agentSettings, taskId, tenant);
     const runtimeTask = await Task.create(taskId, contextId, config, eventBus);
     const contentGeneratorConfig2 =
       runtimeTask.config.getContentGeneratorConfig();
@@ -152,7 +213,7 @@ export class CoderAgentExecutor implements AgentExecutor {
       await runtimeTask.geminiClient.initialize(contentGeneratorConfig2);
     }
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(runtimeTask, agentSettings, tenant?.id);
     this.tasks.set(taskId, wrapper);
     logger.info(`New task ${taskId} created.`);
     return wrapper;
@@ -341,6 +402,14 @@ export class CoderAgentExecutor implements AgentExecutor {
     }
 
     let wrapper: TaskWrapper | undefined = this.tasks.get(taskId);
+    if (wrapper && wrapper.tenantId !== store?.tenant?.id) {
+      // The request handler already hides other tenants' tasks; this keeps
+      // the in-memory cache from bypassing that
+      logger.error(
+        `[CoderAgentExecutor] Task ${taskId} belongs to another tenant. Ignoring.`,
+      );
+      return;
+    }
 
     if (wrapper) {
       wrapper.task.eventBus = eventBus;
@@ -394,6 +463,7 @@ export class CoderAgentExecutor implements AgentExecutor {
         contextId as string,
         agentSettings,
         eventBus,
+        store?.tenant,
       );
       const newTaskSDK = wrapper.toSDKTask();
       eventBus.publish({
@@ -446,6 +516,26 @@ export class CoderAgentExecutor implements AgentExecutor {
       return;
     }
 
+    const tenant = this.getTenant(wrapper.tenantId);
+    if (
+      tenant?.maxConcurrentTasks !== undefined &&
+      this.countExecutingTasks(tenant.id) >= tenant.maxConcurrentTasks
+    ) {
+      logger.warn(
+        `[CoderAgentExecutor] Tenant ${tenant.id} is at its limit of ${tenant.maxConcurrentTasks} running task(s). Not starting task ${taskId}.`,
+      );
+      currentTask.eventBus = eventBus;
+      currentTask.setTaskStateAndPublishUpdate(
+        'input-required',
+        { kind: CoderAgentEvent.StateChangeEvent },
+        `Tenant ${tenant.id} already has ${tenant.maxConcurrentTasks} task(s) running. Send the message again when one of them finishes.`,
+        undefined,
+        true,
+      );
+      await this.taskStore?.save(wrapper.toSDKTask());
+      return;
+    }
+
     logger.info(
       `[CoderAgentExecutor] Starting main execution for message ${userMessage.messageId} for task ${taskId}.`,
     );
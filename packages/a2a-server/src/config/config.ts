@@ -31,9 +31,9 @@ export async function loadConfig(
   settings: Settings,
   extensions: Extension[],
   taskId: string,
+  workspaceDir: string = process.cwd(),
 ): Promise<Config> {
   const mcpServers = mergeMcpServers(settings, extensions);
-  const workspaceDir = process.cwd();
   const adcFilePath = process.env['GOOGLE_APPLICATION_CREDENTIALS'];
 
   const configParams: ConfigParameters = {
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DEFAULT_TENANT_ID,
+  loadTenants,
+  resolveTenantWorkspace,
+} from './tenants.js';
+import { CoderAgentEvent } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+describe('tenants', () => {
+  let tempDir: string;
+
+  const writeTenantsFile = (tenants: unknown) => {
+    const file = path.join(tempDir, 'tenants.json');
+    fs.writeFileSync(file, JSON.stringify({ tenants }));
+    vi.stubEnv('CODER_AGENT_TENANTS_FILE', file);
+    return file;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-tenants-')),
+    );
+    vi.stubEnv('CODER_AGENT_TENANTS_FILE', '');
+    vi.stubEnv('CODER_AGENT_API_KEY', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadTenants', () => {
+    it('turns authentication off when nothing is configured', () => {
+      expect(loadTenants()).toEqual([]);
+    });
+
+    it('uses CODER_AGENT_API_KEY as a single default tenant', () => {
+      vi.stubEnv('CODER_AGENT_API_KEY', 'secret');
+      expect(loadTenants()).toEqual([
+        { id: DEFAULT_TENANT_ID, apiKeys: ['secret'] },
+      ]);
+    });
+
+    it('reads tenants with keys from the environment and relative roots', () => {
+      vi.stubEnv('TEAM_A_KEY', 'key-a');
+      writeTenantsFile({
+        'team-a': {
+          apiKeys: ['$TEAM_A_KEY'],
+          workspaceRoot: 'workspaces/a',
+          maxConcurrentTasks: 2,
+        },
+        'team-b': { apiKeys: ['key-b'], workspaceRoot: '/srv/b' },
+      });
+
+      expect(loadTenants()).toEqual([
+        {
+          id: 'team-a',
+          apiKeys: ['key-a'],
+          workspaceRoot: path.join(tempDir, 'workspaces', 'a'),
+          maxConcurrentTasks: 2,
+        },
+        { id: 'team-b', apiKeys: ['key-b'], workspaceRoot: '/srv/b' },
+      ]);
+    });
+
+    it('lets a single tenant use the process-wide workspace', () => {
+      writeTenantsFile({ 'team-a': { apiKeys: ['key-a'] } });
+
+      expect(loadTenants()).toEqual([
+        { id: 'team-a', apiKeys: ['key-a'], workspaceRoot: undefined },
+      ]);
+    });
+
+    it('rejects tenants without keys or roots, with shared keys or bad limits', () => {
+      writeTenantsFile({ 'team-a': { apiKeys: [] } });
+      expect(() => loadTenants()).toThrow(/needs at least one non-empty/);
+
+      writeTenantsFile({
+        'team-a': { apiKeys: ['same'], workspaceRoot: 'a' },
+        'team-b': { apiKeys: ['same'], workspaceRoot: 'b' },
+      });
+      expect(() => loadTenants()).toThrow("Tenants 'team-a' and 'team-b' in");
+
+      writeTenantsFile({
+        'team-a': { apiKeys: ['key-a'], workspaceRoot: 'a' },
+        'team-b': { apiKeys: ['key-b'] },
+      });
+      expect(() => loadTenants()).toThrow(
+        /tenant 'team-b' in .* needs a workspaceRoot/,
+      );
+
+      writeTenantsFile({
+        'team-a': { apiKeys: ['key'], maxConcurrentTasks: 0 },
+      });
+      expect(() => loadTenants()).toThrow(/maxConcurrentTasks below 1/);
+    });
+  });
+
+  describe('resolveTenantWorkspace', () => {
+    const tenant = () => ({
+      id: 'team-a',
+      apiKeys: ['key-a'],
+      workspaceRoot: path.join(tempDir, 'root'),
+    });
+    const settings = (workspacePath: string) => ({
+      kind: CoderAgentEvent.StateAgentSettingsEvent as const,
+      workspacePath,
+    });
+
+    it('resolves and creates workspaces inside the root', () => {
+      expect(resolveTenantWorkspace(tenant(), undefined)).toBe(
+        path.join(tempDir, 'root'),
+      );
+      const workspace = resolveTenantWorkspace(tenant(), settings('repo'));
+      expect(workspace).toBe(path.join(tempDir, 'root', 'repo'));
+      expect(fs.existsSync(workspace)).toBe(true);
+    });
+
+    it('rejects workspaces outside the root', () => {
+      expect(() =>
+        resolveTenantWorkspace(tenant(), settings('../other')),
+      ).toThrow(/outside the workspace root of tenant 'team-a'/);
+      expect(() => resolveTenantWorkspace(tenant(), settings(tempDir))).toThrow(
+        /outside the workspace root/,
+      );
+      expect(fs.existsSync(path.join(tempDir, 'other'))).toBe(false);
+    });
+
+    it.skipIf(process.platform === 'win32')(
+      'rejects workspaces that leave the root through a symbolic link',
+      () => {
+        fs.mkdirSync(path.join(tempDir, 'root'));
+        fs.mkdirSync(path.join(tempDir, 'outside'));
+        fs.symlinkSync(
+          path.join(tempDir, 'outside'),
+          path.join(tempDir, 'root', 'link'),
+        );
+
+        expect(() =>
+          resolveTenantWorkspace(tenant(), settings('link/repo')),
+        ).toThrow(/outside the workspace root/);
+        expect(fs.existsSync(path.join(tempDir, 'outside', 'repo'))).toBe(
+          false,
+        );
+      },
+    );
+  });
+});
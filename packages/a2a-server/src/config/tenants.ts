@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import stripJsonComments from 'strip-json-comments';
+
+import { logger } from '../utils/logger.js';
+import { type AgentSettings, CoderAgentEvent } from '../types.js';
+import { resolveEnvVarsInObject, type Settings } from './settings.js';
+
+/** Tenant used when a single key is given in `CODER_AGENT_API_KEY` */
+export const DEFAULT_TENANT_ID = 'default';
+
+/**
+ * A team that shares the server with others. Requests authenticate as a
+ * tenant with one of its API keys, and only see the tasks of that tenant.
+ */
+export interface Tenant {
+  id: string;
+  /** Bearer tokens or `X-API-Key` values that authenticate as the tenant */
+  apiKeys: string[];
+  /**
+   * Directory the tenant's task workspaces must be in. Workspace paths of
+   * new tasks are resolved against it; when unset, the process-wide
+   * workspace handling applies. Required when more than one tenant is
+   * configured, since that handling changes the directory and environment
+   * of the whole process.
+   */
+  workspaceRoot?: string;
+  /** Settings that override the user and workspace settings */
+  settings?: Settings;
+  /** Tasks of the tenant that may run at the same time */
+  maxConcurrentTasks?: number;
+}
+
+interface TenantsFile {
+  tenants?: Record<string, Omit<Tenant, 'id'>>;
+}
+
+function validateTenant(tenant: Tenant, file: string, isShared: boolean): void {
+  const where = `tenant '${tenant.id}' in ${file}`;
+  if (
+    !Array.isArray(tenant.apiKeys) ||
+    tenant.apiKeys.length === 0 ||
+    tenant.apiKeys.some((key) => typeof key !== 'string' || key.trim() === '')
+  ) {
+    throw new Error(`${where} needs at least one non-empty API key.`);
+  }
+  if (
+    tenant.workspaceRoot !== undefined &&
+    typeof tenant.workspaceRoot !== 'string'
+  ) {
+    throw new Error(`${where} has a workspaceRoot that is not a string.`);
+  }
+  if (isShared && tenant.workspaceRoot === undefined) {
+    throw new Error(
+      `${where} needs a workspaceRoot, because the server hosts more than one tenant.`,
+    );
+  }
+  if (
+    tenant.maxConcurrentTasks !== undefined &&
+    (!Number.isInteger(tenant.maxConcurrentTasks) ||
+      tenant.maxConcurrentTasks < 1)
+  ) {
+    throw new Error(`${where} has a maxConcurrentTasks below 1.`);
+  }
+}
+
+/**
+ * Reads the tenants from the file in `CODER_AGENT_TENANTS_FILE`, or a
+ * single tenant from `CODER_AGENT_API_KEY`. Returns no tenants, which turns
+ * authentication off, when neither is set. API keys may reference
+ * environment variables as `$NAME` or `${NAME}`.
+ */
+export function loadTenants(): Tenant[] {
+  const tenantsFile = process.env['CODER_AGENT_TENANTS_FILE'];
+  const apiKey = process.env['CODER_AGENT_API_KEY'];
+
+  if (!tenantsFile) {
+    if (!apiKey) {
+      logger.warn(
+        '[Auth] No CODER_AGENT_TENANTS_FILE or CODER_AGENT_API_KEY set. Requests are not authenticated.',
+      );
+      return [];
+    }
+    return [{ id: DEFAULT_TENANT_ID, apiKeys: [apiKey] }];
+  }
+
+  const file = path.resolve(tenantsFile);
+  const parsed = resolveEnvVarsInObject(
+    JSON.parse(
+      stripJsonComments(fs.readFileSync(file, 'utf-8')),
+    ) as TenantsFile,
+  );
+  const tenants = Object.entries(parsed.tenants ?? {}).map(
+    ([id, tenant]): Tenant => ({
+      ...tenant,
+      id,
+      workspaceRoot:
+        tenant.workspaceRoot === undefined
+          ? undefined
+          : path.resolve(path.dirname(file), tenant.workspaceRoot),
+    }),
+  );
+  if (tenants.length === 0) {
+    throw new Error(`No tenants are defined in ${file}.`);
+  }
+
+  const owners = new Map<string, string>();
+  for (const tenant of tenants) {
+    validateTenant(tenant, file, tenants.length > 1);
+    for (const key of tenant.apiKeys) {
+      const owner = owners.get(key);
+      if (owner !== undefined) {
+        throw new Error(
+          `Tenants '${owner}' and '${tenant.id}' in ${file} share an API key.`,
+        );
+      }
+      owners.set(key, tenant.id);
+    }
+  }
+
+  if (
+    process.env['CODER_AGENT_WORKSPACE_PATH'] &&
+    tenants.some((tenant) => tenant.workspaceRoot === undefined)
+  ) {
+    logger.warn(
+      '[Auth] CODER_AGENT_WORKSPACE_PATH is set and applies to the tenant without a workspaceRoot.',
+    );
+  }
+  logger.info(
+    `[Auth] Loaded ${tenants.length} tenant(s) from ${file}: ${tenants
+      .map((tenant) => tenant.id)
+      .join(', ')}`,
+  );
+  return tenants;
+}
+
+function realpathOfExisting(filePath: string): string {
+  let existing = filePath;
+  while (!fs.existsSync(existing)) {
+    existing = path.dirname(existing);
+  }
+  return path.join(
+    fs.realpathSync(existing),
+    path.relative(existing, filePath),
+  );
+}
+
+/**
+ * Resolves the workspace of a task against the tenant's workspace root,
+ * creating it if needed. Throws when the workspace is outside the root,
+ * including through symbolic links.
+ */
+export function resolveTenantWorkspace(
+  tenant: Tenant & { workspaceRoot: string },
+  agentSettings: AgentSettings | undefined,
+): string {
+  const requested =
+    agentSettings?.kind === CoderAgentEvent.StateAgentSettingsEvent
+      ? agentSettings.workspacePath
+      : undefined;
+  fs.mkdirSync(tenant.workspaceRoot, { recursive: true });
+  const root = fs.realpathSync(tenant.workspaceRoot);
+  const workspace = requested ? path.resolve(root, requested) : root;
+
+  const isInsideRoot = (candidate: string) => {
+    const relative = path.relative(root, candidate);
+    return (
+      relative !== '..' &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative)
+    );
+  };
+  // Resolve symbolic links in the part that exists before creating the
+  // rest, so a link cannot lead the workspace out of the root
+  if (
+    !isInsideRoot(workspace) ||
+    !isInsideRoot(realpathOfExisting(workspace))
+  ) {
+    throw new Error(
+      `Workspace path '${requested}' is outside the workspace root of tenant '${tenant.id}'.`,
+    );
+  }
+  fs.mkdirSync(workspace, { recursive: true });
+  return fs.realpathSync(workspace);
+}
@@ -16,6 +16,9 @@ import type { AgentSettings } from '../types.js';
 import { GCSTaskStore, NoOpTaskStore } from '../persistence/gcs.js';
 import { CoderAgentExecutor } from '../agent/executor.js';
 import { requestStorage } from './requestStorage.js';
+import { AUTH_SECURITY_SCHEMES, createAuthMiddleware } from './auth.js';
+import { loadTenants, type Tenant } from '../config/tenants.js';
+import { TenantTaskStore } from '../persistence/tenantTaskStore.js';
 
 const coderAgentCard: AgentCard = {
   name: 'Gemini SDLC Agent',
@@ -62,6 +65,12 @@ export function updateCoderAgentCardUrl(port: number) {
 export async function createApp() {
   try {
     // loadEnvironment() is called within getConfig now
+    const tenants = loadTenants();
+    coderAgentCard.securitySchemes =
+      tenants.length > 0 ? AUTH_SECURITY_SCHEMES : undefined;
+    coderAgentCard.security =
+      tenants.length > 0 ? [{ bearer: [] }, { apiKey: [] }] : undefined;
+
     const bucketName = process.env['GCS_BUCKET_NAME'];
     let taskStoreForExecutor: TaskStore;
     let taskStoreForHandler: TaskStore;
@@ -78,17 +87,23 @@ export async function createApp() {
       taskStoreForHandler = inMemoryTaskStore;
     }
 
-    const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor);
+    const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor, tenants);
+    // Scopes task lookups to the tenant of the current request
+    const tenantTaskStore = new TenantTaskStore(taskStoreForHandler);
 
     const requestHandler = new DefaultRequestHandler(
       coderAgentCard,
-      taskStoreForHandler,
+      tenantTaskStore,
       agentExecutor,
     );
 
     let expressApp = express();
+    expressApp.use(createAuthMiddleware(tenants));
     expressApp.use((req, res, next) => {
-      requestStorage.run({ req }, next);
+      requestStorage.run(
+        { req, tenant: res.locals['tenant'] as Tenant | undefined },
+        next,
+      );
     });
 
     const appBuilder = new A2AExpressApp(requestHandler);
@@ -106,6 +121,8 @@ export async function createApp() {
           taskId,
           contextId,
           agentSettings,
+          undefined,
+          res.locals['tenant'] as Tenant | undefined,
         );
         await taskStoreForExecutor.save(wrapper.toSDKTask());
         res.status(201).json(wrapper.id);
@@ -128,7 +145,10 @@ export async function createApp() {
         });
       }
       try {
-        const wrappers = agentExecutor.getAllTasks();
+        const tenantId = (res.locals['tenant'] as Tenant | undefined)?.id;
+        const wrappers = agentExecutor
+          .getAllTasks()
+          .filter((wrapper) => wrapper.tenantId === tenantId);
         if (wrappers && wrappers.length > 0) {
           const tasksMetadata = await Promise.all(
             wrappers.map((wrapper) => wrapper.task.getMetadata()),
@@ -149,9 +169,16 @@ export async function createApp() {
 
     expressApp.get('/tasks/:taskId/metadata', async (req, res) => {
       const taskId = req.params.taskId;
+      const tenantId = (res.locals['tenant'] as Tenant | undefined)?.id;
       let wrapper = agentExecutor.getTask(taskId);
+      if (wrapper && wrapper.tenantId !== tenantId) {
+        res.status(404).send({ error: 'Task not found' });
+        return;
+      }
       if (!wrapper) {
-        const sdkTask = await taskStoreForExecutor.load(taskId);
+        const sdkTask = await new TenantTaskStore(taskStoreForExecutor).load(
+          taskId,
+        );
         if (sdkTask) {
           wrapper = await agentExecutor.reconstruct(sdkTask);
         }
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import request from 'supertest';
+import type express from 'express';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createApp } from './app.js';
+import type { TaskMetadata } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const loadConfigMock = vi.hoisted(() => vi.fn());
+vi.mock('../config/config.js', () => ({
+  loadConfig: loadConfigMock.mockImplementation(async () => ({
+    getContentGeneratorConfig: vi
+      .fn()
+      .mockReturnValue({ model: 'gemini-pro', authType: 'USE_GEMINI' }),
+  })),
+  loadEnvironment: vi.fn(),
+  setTargetDir: vi.fn().mockImplementation(() => process.cwd()),
+}));
+
+vi.mock('../agent/task.js', () => {
+  class MockTask {
+    taskState = 'submitted';
+    config = {
+      getContentGeneratorConfig: vi.fn().mockReturnValue(undefined),
+    };
+    constructor(
+      readonly id: string,
+      readonly contextId: string,
+    ) {}
+    static create = vi.fn(
+      async (id: string, contextId: string) => new MockTask(id, contextId),
+    );
+    getMetadata = vi.fn(async () => ({
+      id: this.id,
+      contextId: this.contextId,
+      taskState: this.taskState,
+    }));
+  }
+  return { Task: MockTask };
+});
+
+describe('Agent Server Authentication', () => {
+  let app: express.Express;
+  let tempDir: string;
+
+  const createTask = (apiKey: string, workspacePath?: string) =>
+    request(app)
+      .post('/tasks')
+      .set('Authorization', `Bearer ${apiKey}`)
+      .send({
+        agentSettings: workspacePath
+          ? { kind: 'agent-settings', workspacePath }
+          : undefined,
+      });
+
+  beforeAll(async () => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'a2a-auth-test-')),
+    );
+    const tenantsFile = path.join(tempDir, 'tenants.json');
+    fs.writeFileSync(
+      tenantsFile,
+      JSON.stringify({
+        tenants: {
+          'team-a': { apiKeys: ['key-a'], workspaceRoot: 'a' },
+          'team-b': { apiKeys: ['key-b'], workspaceRoot: 'b' },
+        },
+      }),
+    );
+    vi.stubEnv('CODER_AGENT_TENANTS_FILE', tenantsFile);
+    app = await createApp();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('rejects requests without a valid API key', async () => {
+    const missing = await request(app).get('/tasks/metadata');
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+    const wrong = await request(app)
+      .post('/tasks')
+      .set('X-API-Key', 'not-a-key')
+      .send({});
+    expect(wrong.status).toBe(401);
+
+    const rpc = await request(app)
+      .post('/')
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tasks/get',
+        params: { id: 'x' },
+      });
+    expect(rpc.status).toBe(401);
+  });
+
+  it('keeps the agent card public and advertises the schemes', async () => {
+    const response = await request(app).get('/.well-known/agent-card.json');
+    expect(response.status).toBe(200);
+    expect(Object.keys(response.body.securitySchemes)).toEqual([
+      'bearer',
+      'apiKey',
+    ]);
+  });
+
+  it('hides the tasks of one tenant from the others', async () => {
+    const created = await createTask('key-a');
+    expect(created.status).toBe(201);
+    const taskId = created.body as string;
+
+    const ownList = await request(app)
+      .get('/tasks/metadata')
+      .set('X-API-Key', 'key-a');
+    expect(ownList.body.map((task: TaskMetadata) => task.id)).toContain(taskId);
+    const otherList = await request(app)
+      .get('/tasks/metadata')
+      .set('X-API-Key', 'key-b');
+    expect(otherList.status).toBe(204);
+
+    const own = await request(app)
+      .get(`/tasks/${taskId}/metadata`)
+      .set('X-API-Key', 'key-a');
+    expect(own.status).toBe(200);
+    const other = await request(app)
+      .get(`/tasks/${taskId}/metadata`)
+      .set('X-API-Key', 'key-b');
+    expect(other.status).toBe(404);
+
+    const getTask = (apiKey: string) =>
+      request(app)
+        .post('/')
+        .set('X-API-Key', apiKey)
+        .send({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'tasks/get',
+          params: { id: taskId },
+        });
+    expect((await getTask('key-a')).body.result.id).toBe(taskId);
+    expect((await getTask('key-b')).body.error.code).toBe(-32001);
+  });
+
+  it('runs tasks in the workspace root of their tenant', async () => {
+    const created = await createTask('key-b', 'repo');
+    expect(created.status).toBe(201);
+    expect(loadConfigMock).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.anything(),
+      created.body,
+      path.join(tempDir, 'b', 'repo'),
+    );
+
+    const escaped = await createTask('key-b', '../a');
+    expect(escaped.status).toBe(500);
+    expect(escaped.body.error).toContain(
+      "outside the workspace root of tenant 'team-b'",
+    );
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type express from 'express';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { AgentCard } from '@a2a-js/sdk';
+
+import { logger } from '../utils/logger.js';
+import type { Tenant } from '../config/tenants.js';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+/** How clients authenticate, as advertised in the agent card */
+export const AUTH_SECURITY_SCHEMES: NonNullable<AgentCard['securitySchemes']> =
+  {
+    bearer: {
+      type: 'http',
+      scheme: 'bearer',
+      description: 'A tenant API key sent as a bearer token.',
+    },
+    apiKey: {
+      type: 'apiKey',
+      in: 'header',
+      name: API_KEY_HEADER,
+      description: 'A tenant API key.',
+    },
+  };
+
+const digest = (value: string): Buffer =>
+  createHash('sha256').update(value).digest();
+
+function getRequestKey(req: express.Request): string | undefined {
+  const authorization = req.get('Authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || req.get(API_KEY_HEADER)?.trim() || undefined;
+}
+
+/**
+ * Authenticates requests with a tenant API key, given as a bearer token or
+ * in the `X-API-Key` header, and stores the tenant in `res.locals.tenant`.
+ * The agent card stays public so clients can discover how to authenticate.
+ * Every request passes when there are no tenants.
+ */
+export function createAuthMiddleware(
+  tenants: Tenant[],
+): express.RequestHandler {
+  // Keys are compared as digests so the comparison takes the same time
+  // whatever the key length
+  const keys = tenants.flatMap((tenant) =>
+    tenant.apiKeys.map((key) => ({ digest: digest(key), tenant })),
+  );
+
+  return (req, res, next) => {
+    if (keys.length === 0 || req.path.startsWith('/.well-known/')) {
+      next();
+      return;
+    }
+    const requestKey = getRequestKey(req);
+    const requestDigest = requestKey ? digest(requestKey) : undefined;
+    const match = requestDigest
+      ? keys.find((key) => timingSafeEqual(key.digest, requestDigest))
+      : undefined;
+    if (!match) {
+      logger.warn(
+        `[Auth] Rejected ${req.method} ${req.path}: ${requestKey ? 'unknown' : 'missing'} API key.`,
+      );
+      res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer')
+        .json({ error: 'A valid API key is required.' });
+      return;
+    }
+    res.locals['tenant'] = match.tenant;
+    next();
+  };
+}
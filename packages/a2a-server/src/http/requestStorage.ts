@@ -6,5 +6,10 @@
 
 import type express from 'express';
 import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Tenant } from '../config/tenants.js';
 
-export const requestStorage = new AsyncLocalStorage<{ req: express.Request }>();
+export const requestStorage = new AsyncLocalStorage<{
+  req: express.Request;
+  /** The tenant the request authenticated as, when authentication is on */
+  tenant?: Tenant;
+}>();
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+
+import { logger } from '../utils/logger.js';
+import { getPersistedState, type PersistedTaskMetadata } from '../types.js';
+import { requestStorage } from '../http/requestStorage.js';
+
+/**
+ * Hides the tasks of other tenants from the A2A request handler. A task
+ * loads only for requests of the tenant that created it, so another
+ * tenant's task ids behave as if the task did not exist.
+ */
+export class TenantTaskStore implements TaskStore {
+  constructor(private realStore: TaskStore) {}
+
+  async save(task: SDKTask): Promise<void> {
+    return this.realStore.save(task);
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const task = await this.realStore.load(taskId);
+    if (!task) {
+      return undefined;
+    }
+    const tenantId = requestStorage.getStore()?.tenant?.id;
+    const ownerId = getPersistedState(
+      (task.metadata ?? {}) as PersistedTaskMetadata,
+    )?._tenantId;
+    if (ownerId !== tenantId) {
+      logger.warn(
+        `[TenantTaskStore] Tenant ${tenantId ?? '(none)'} cannot access task ${taskId}.`,
+      );
+      return undefined;
+    }
+    return task;
+  }
+}
@@ -106,6 +106,8 @@ export interface TaskMetadata {
 export interface PersistedStateMetadata {
   _agentSettings: AgentSettings;
   _taskState: TaskState;
+  /** The tenant that created the task, when authentication is on */
+  _tenantId?: string;
 }
 
 export type PersistedTaskMetadata = { [k: string]: unknown };
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SessionStore } from '@vybestack/llxprt-code-core';
+import { handleExport } from './export.js';
+
+vi.mock('fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  return { ...actual, default: actual, writeFile: vi.fn() };
+});
+
+const session = {
+  version: 1,
+  sessionId: 'abc-123',
+  projectRoot: '/project',
+  createdAt: '2025-01-01T10:00:00.000Z',
+  updatedAt: '2025-01-01T11:00:00.000Z',
+  profileName: null,
+  runtime: {
+    version: 1,
+    provider: 'openai',
+    model: 'gpt-4.1',
+    modelParams: {},
+    ephemeralSettings: {},
+  },
+  todos: [],
+  history: [
+    { speaker: 'human', blocks: [{ type: 'text', text: 'fix the build' }] },
+    { speaker: 'ai', blocks: [{ type: 'text', text: 'Done.' }] },
+  ],
+};
+
+describe('export command', () => {
+  const store = { find: vi.fn(), loadMostRecent: vi.fn() };
+
+  beforeEach(() => {
+    store.find.mockReset();
+    store.loadMostRecent.mockReset();
+    vi.spyOn(SessionStore, 'forProject').mockReturnValue(
+      store as unknown as SessionStore,
+    );
+    vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prints the most recent session when no path is given', async () => {
+    store.loadMostRecent.mockResolvedValue(session);
+
+    await handleExport({ format: 'md' });
+
+    expect(process.stdout.write).toHaveBeenCalledWith(
+      expect.stringContaining('## User\n\nfix the build'),
+    );
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('writes the requested session to a file', async () => {
+    store.find.mockResolvedValue(session);
+
+    await handleExport({ format: 'json', path: 'out.json', session: 'abc' });
+
+    expect(store.find).toHaveBeenCalledWith('abc');
+    const [filePath, contents] = vi.mocked(fs.writeFile).mock.calls[0];
+    expect(filePath).toBe(path.resolve(process.cwd(), 'out.json'));
+    expect(JSON.parse(contents as string).metadata).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4.1',
+      sessionId: 'abc-123',
+    });
+  });
+
+  it('refuses to overwrite an existing file unless forced', async () => {
+    store.loadMostRecent.mockResolvedValue(session);
+    vi.mocked(fs.writeFile).mockRejectedValueOnce(
+      Object.assign(new Error('file exists'), { code: 'EEXIST' }),
+    );
+    const filePath = path.resolve(process.cwd(), 'out.md');
+
+    await expect(
+      handleExport({ format: 'md', path: 'out.md' }),
+    ).rejects.toThrow(
+      `${filePath} already exists. Use --force to overwrite it.`,
+    );
+    expect(fs.writeFile).toHaveBeenLastCalledWith(
+      filePath,
+      expect.any(String),
+      { encoding: 'utf-8', flag: 'wx' },
+    );
+
+    await handleExport({ format: 'md', path: 'out.md', force: true });
+    expect(fs.writeFile).toHaveBeenLastCalledWith(
+      filePath,
+      expect.any(String),
+      { encoding: 'utf-8', flag: 'w' },
+    );
+  });
+
+  it('rejects unknown formats and missing sessions', async () => {
+    await expect(handleExport({ format: 'pdf' })).rejects.toThrow(
+      "Unknown format 'pdf'. Use one of: markdown, html, json.",
+    );
+
+    store.find.mockResolvedValue(null);
+    await expect(
+      handleExport({ format: 'html', session: 'nope' }),
+    ).rejects.toThrow("No saved session matching 'nope'");
+  });
+});
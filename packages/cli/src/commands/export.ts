@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'llxprt export' command
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { CommandModule } from 'yargs';
+import {
+  getErrorMessage,
+  isNodeError,
+  parseTranscriptFormat,
+  renderTranscript,
+  SessionStore,
+  Storage,
+  TRANSCRIPT_FORMATS,
+} from '@vybestack/llxprt-code-core';
+
+interface ExportArgs {
+  format: string;
+  path?: string;
+  session?: string;
+  force?: boolean;
+}
+
+/**
+ * Renders an auto-saved session of the current directory as a transcript.
+ * Writes to stdout when no path (or '-') is given, and refuses to replace an
+ * existing file unless `force` is set.
+ */
+export async function handleExport(args: ExportArgs): Promise<void> {
+  const format = parseTranscriptFormat(args.format);
+  if (!format) {
+    throw new Error(
+      `Unknown format '${args.format}'. Use one of: ${TRANSCRIPT_FORMATS.join(', ')}.`,
+    );
+  }
+
+  const workspaceRoot = process.cwd();
+  const store = SessionStore.forProject(new Storage(workspaceRoot));
+  const requestedId = args.session?.trim();
+  const session = requestedId
+    ? await store.find(requestedId)
+    : await store.loadMostRecent();
+  if (!session) {
+    throw new Error(
+      requestedId
+        ? `No saved session matching '${requestedId}' for ${workspaceRoot}.`
+        : `No saved sessions to export for ${workspaceRoot}.`,
+    );
+  }
+
+  const transcript = renderTranscript(session.history, format, {
+    provider: session.runtime.provider,
+    model: session.runtime.model,
+    sessionId: session.sessionId,
+  });
+  if (!args.path || args.path === '-') {
+    process.stdout.write(transcript);
+    return;
+  }
+  const filePath = path.resolve(workspaceRoot, args.path);
+  try {
+    await fs.writeFile(filePath, transcript, {
+      encoding: 'utf-8',
+      flag: args.force ? 'w' : 'wx',
+    });
+  } catch (error) {
+    if (isNodeError(error) && error.code === 'EEXIST') {
+      throw new Error(
+        `${filePath} already exists. Use --force to overwrite it.`,
+      );
+    }
+    throw error;
+  }
+  console.log(`Session ${session.sessionId} exported to ${filePath}.`);
+}
+
+export const exportCommand: CommandModule = {
+  command: 'export <format> [path]',
+  describe:
+    'Export a saved session of this directory as a Markdown, HTML or JSON transcript',
+  builder: (yargs) =>
+    yargs
+      .positional('format', {
+        describe: `Transcript format (${TRANSCRIPT_FORMATS.join(', ')})`,
+        type: 'string',
+      })
+      .positional('path', {
+        describe: 'File to write; prints to stdout when omitted or "-"',
+        type: 'string',
+      })
+      .option('session', {
+        describe: 'Session id or id prefix (defaults to the most recent)',
+        type: 'string',
+      })
+      .option('force', {
+        describe: 'Overwrite the file if it exists',
+        type: 'boolean',
+        default: false,
+      })
+      .version(false),
+  handler: async (argv) => {
+    try {
+      await handleExport({
+        format: argv['format'] as string,
+        path: argv['path'] as string | undefined,
+        session: argv['session'] as string | undefined,
+        force: argv['force'] as boolean,
+      });
+    } catch (error) {
+      console.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
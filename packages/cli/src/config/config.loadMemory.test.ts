@@ -102,6 +102,8 @@ describe('loadCliConfig memory discovery', () => {
       allowedTools: undefined,
       checkpointing: undefined,
       profileLoad: undefined,
+      resume: undefined,
+      continue: undefined,
       loadMemoryFromIncludeDirectories: undefined,
       ideMode: undefined,
       screenReader: undefined,
@@ -11,6 +11,7 @@ import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import process from 'node:process';
 import { mcpCommand } from '../commands/mcp.js';
+import { exportCommand } from '../commands/export.js';
 import { extensionsCommand } from '../commands/extensions.js';
 import {
   Config,
@@ -134,6 +135,8 @@ export interface CliArgs {
   proxy: string | undefined;
   includeDirectories: string[] | undefined;
   profileLoad: string | undefined;
+  resume: string | undefined;
+  continue: boolean | undefined;
   loadMemoryFromIncludeDirectories: boolean | undefined;
   ideMode: string | undefined;
   screenReader: boolean | undefined;
@@ -474,13 +477,23 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
       type: 'string',
       description: 'Load a saved profile configuration on startup',
     })
+    .option('resume', {
+      type: 'string',
+      description:
+        'Resume a saved session by id or id prefix (most recent if no id is given)',
+    })
+    .option('continue', {
+      type: 'boolean',
+      description: 'Resume the most recent session for this directory',
+    })
     .option('load-memory-from-include-directories', {
       type: 'boolean',
       description:
         'If true, when refreshing memory, LLXPRT.md files should be loaded from all directories that are added. If false, LLXPRT.md files should only be loaded from the primary working directory.',
     })
-    // Register MCP subcommands
-    .command(mcpCommand);
+    // Register MCP and export subcommands
+    .command(mcpCommand)
+    .command(exportCommand);
 
   if (settings?.extensionManagement ?? false) {
     yargsInstance.command(extensionsCommand);
@@ -510,8 +523,12 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
   // Map camelCase names to match CliArgs interface
   // Check if an MCP subcommand was handled
   // The _ array contains the commands that were run
-  if (result._ && result._.length > 0 && result._[0] === 'mcp') {
-    // An MCP subcommand was executed (like 'mcp list'), exit cleanly
+  if (
+    result._ &&
+    result._.length > 0 &&
+    (result._[0] === 'mcp' || result._[0] === 'export')
+  ) {
+    // A subcommand was executed (like 'mcp list' or 'export'), exit cleanly
     process.exit(0);
   }
 
@@ -543,6 +560,8 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
     proxy: result.proxy as string | undefined,
     includeDirectories: result.includeDirectories as string[] | undefined,
     profileLoad: result.profileLoad as string | undefined,
+    resume: result.resume as string | undefined,
+    continue: result.continue as boolean | undefined,
     loadMemoryFromIncludeDirectories:
       result.loadMemoryFromIncludeDirectories as boolean | undefined,
     ideMode: result.ideMode as string | undefined,
@@ -1054,6 +1073,9 @@ export async function loadCliConfig(
     summarizeToolOutput: effectiveSettings.summarizeToolOutput,
     ideMode,
     chatCompression: settings.chatCompression,
+    lsp: settings.lsp,
+    toolSandbox: settings.toolSandbox,
+    modelPricing: settings.modelPricing,
     interactive,
     folderTrust,
     trustedFolder,
@@ -1248,12 +1270,24 @@ export async function loadCliConfig(
       'auth-keyfile',
       'context-limit',
       'compression-threshold',
+      'compression-strategy',
+      'compression-provider',
+      'compression-model',
       'base-url',
       'tool-format',
       'api-version',
+      'auth-mode',
+      'azure-deployment',
+      'sigv4-region',
+      'sigv4-service',
       'custom-headers',
       'shell-replacement',
       'authOnly',
+      'provider-failover',
+      'budget-soft-limit',
+      'budget-hard-limit',
+      'loop-intervention',
+      'loop-fallback-model',
     ];
 
     for (const key of ephemeralKeys) {
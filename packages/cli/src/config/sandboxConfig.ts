@@ -22,6 +22,7 @@ const VALID_SANDBOX_COMMANDS: ReadonlyArray<SandboxConfig['command']> = [
   'docker',
   'podman',
   'sandbox-exec',
+  'bwrap',
 ];
 
 function isSandboxCommand(value: string): value is SandboxConfig['command'] {
@@ -67,21 +68,27 @@ function getSandboxCommand(
     );
   }
 
-  // look for seatbelt, docker, or podman, in that order
-  // for container-based sandboxing, require sandbox to be enabled explicitly
+  // look for seatbelt, docker, podman, or bubblewrap, in that order
+  // for container-based and bubblewrap sandboxing, require sandbox to be enabled explicitly
   if (os.platform() === 'darwin' && commandExists.sync('sandbox-exec')) {
     return 'sandbox-exec';
   } else if (commandExists.sync('docker') && sandbox === true) {
     return 'docker';
   } else if (commandExists.sync('podman') && sandbox === true) {
     return 'podman';
+  } else if (
+    os.platform() === 'linux' &&
+    commandExists.sync('bwrap') &&
+    sandbox === true
+  ) {
+    return 'bwrap';
   }
 
   // throw an error if user requested sandbox but no command was found
   if (sandbox === true) {
     throw new FatalSandboxError(
       'LLXPRT_SANDBOX is true but failed to determine command for sandbox; ' +
-        'install docker or podman or specify command in LLXPRT_SANDBOX',
+        'install docker, podman or bubblewrap or specify command in LLXPRT_SANDBOX',
     );
   }
 
@@ -101,5 +108,9 @@ export async function loadSandboxConfig(
     process.env.LLXPRT_SANDBOX_IMAGE ??
     packageJson?.config?.sandboxImageUri;
 
+  // bubblewrap runs the host's own installation and needs no image
+  if (command === 'bwrap') {
+    return { command, image: image ?? '' };
+  }
   return command && image ? { command, image } : undefined;
 }
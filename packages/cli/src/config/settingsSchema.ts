@@ -10,6 +10,9 @@ import {
   TelemetrySettings,
   AuthType,
   ChatCompressionSettings,
+  LspSettings,
+  ToolSandboxSettings,
+  ModelPricingOverrides,
 } from '@vybestack/llxprt-code-core';
 import { CustomTheme } from '../ui/themes/theme.js';
 
@@ -332,6 +335,16 @@ export const SETTINGS_SCHEMA = {
         description: 'Disable fuzzy search when searching for files.',
         showInDialog: true,
       },
+      useFileIndex: {
+        type: 'boolean',
+        label: 'Use Workspace File Index',
+        category: 'File Filtering',
+        requiresRestart: true,
+        default: true,
+        description:
+          'Keep a persistent index of workspace files for @ completion, glob and ls.',
+        showInDialog: true,
+      },
     },
   },
 
@@ -522,6 +535,28 @@ export const SETTINGS_SCHEMA = {
     showInDialog: false,
   },
 
+  lsp: {
+    type: 'object',
+    label: 'Language Servers',
+    category: 'Advanced',
+    requiresRestart: true,
+    default: undefined as LspSettings | undefined,
+    description:
+      'Language servers that report diagnostics after file edits and for the get_diagnostics tool.',
+    showInDialog: false,
+  },
+
+  toolSandbox: {
+    type: 'object',
+    label: 'Tool Sandbox',
+    category: 'Advanced',
+    requiresRestart: true,
+    default: undefined as ToolSandboxSettings | undefined,
+    description:
+      'Run shell commands and discovered tools in a per-command sandbox while the CLI stays on the host.',
+    showInDialog: false,
+  },
+
   dnsResolutionOrder: {
     type: 'string',
     label: 'DNS Resolution Order',
@@ -876,6 +911,16 @@ export const SETTINGS_SCHEMA = {
     description: 'Keyfile paths for different providers.',
     showInDialog: false,
   },
+  modelPricing: {
+    type: 'object',
+    label: 'Model Pricing',
+    category: 'Provider',
+    requiresRestart: true,
+    default: undefined as ModelPricingOverrides | undefined,
+    description:
+      'Per-million-token prices in USD keyed by "provider:model" or "provider", overriding the built-in pricing table.',
+    showInDialog: false,
+  },
 
   extensionManagement: {
     type: 'boolean',
@@ -34,6 +34,7 @@ import {
   uiTelemetryService,
   // IDE connection logging removed - telemetry disabled in llxprt
   SettingsService,
+  type PersistedSession,
 } from '@vybestack/llxprt-code-core';
 import { themeManager } from './ui/themes/theme-manager.js';
 import { getStartupWarnings } from './utils/startupWarnings.js';
@@ -68,6 +69,12 @@ import {
   loadProfileByName,
   applyCliArgumentOverrides,
 } from './runtime/runtimeSettings.js';
+import {
+  findSessionToResume,
+  restoreSession,
+  saveCurrentSession,
+  setResumedSession,
+} from './runtime/sessionPersistence.js';
 import { writeFileSync } from 'node:fs';
 
 export function validateDnsResolutionOrder(
@@ -328,10 +335,18 @@ export async function main() {
     metadata: { source: 'cli-bootstrap', stage: 'pre-config' },
   });
 
+  let sessionToResume: PersistedSession | null = null;
+  try {
+    sessionToResume = await findSessionToResume(workspaceRoot, argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
   const config = await loadCliConfig(
     settings.merged,
     extensions,
-    sessionId,
+    sessionToResume?.sessionId ?? sessionId,
     argv,
     process.cwd(),
     { settingsService: runtimeSettingsService },
@@ -340,6 +355,9 @@ export async function main() {
     metadata: { source: 'cli-bootstrap', stage: 'post-config' },
   });
 
+  registerCleanup(() => saveCurrentSession(config));
+  registerCleanup(() => config.getLspService()?.shutdown());
+
   if (argv.sessionSummary) {
     registerCleanup(() => {
       const metrics = uiTelemetryService.getMetrics();
@@ -663,6 +681,19 @@ export async function main() {
     ...(await getUserStartupWarnings(workspaceRoot)),
   ];
 
+  if (sessionToResume) {
+    try {
+      const warnings = await restoreSession(config, sessionToResume);
+      startupWarnings.push(...warnings);
+      setResumedSession(sessionToResume);
+    } catch (error) {
+      console.error(
+        `Failed to resume session ${sessionToResume.sessionId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+  }
+
   // Check if a provider is already active on startup
   providerManager.getActiveProvider();
 
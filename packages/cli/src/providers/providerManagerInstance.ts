@@ -9,6 +9,7 @@ import {
   ProviderManager,
   OpenAIProvider,
   OpenAIResponsesProvider,
+  OllamaProvider,
   AnthropicProvider,
   GeminiProvider,
   sanitizeForByteString,
@@ -317,6 +318,8 @@ export function createProviderManager(
     );
   }
 
+  manager.registerProvider(getOllamaProvider(allowBrowserEnvironment));
+
   manager.registerProvider(
     getAnthropicProvider(
       authOnlyEnabled,
@@ -563,6 +566,24 @@ function getOpenAIResponsesProvider(
   return openaiResponsesProvider;
 }
 
+/**
+ * OLLAMA_HOST follows the Ollama CLI convention and may omit the scheme
+ * (e.g. `0.0.0.0:11434`).
+ */
+function getOllamaProvider(allowBrowserEnvironment: boolean): OllamaProvider {
+  const ollamaHost = process.env.OLLAMA_HOST?.trim();
+  const ollamaBaseUrl =
+    ollamaHost && !/^https?:\/\//i.test(ollamaHost)
+      ? `http://${ollamaHost}`
+      : ollamaHost;
+  const ollamaApiKey = process.env.OLLAMA_API_KEY
+    ? sanitizeApiKey(process.env.OLLAMA_API_KEY)
+    : undefined;
+  return new OllamaProvider(ollamaApiKey, ollamaBaseUrl || undefined, {
+    allowBrowserEnvironment,
+  });
+}
+
 function getGeminiProvider(
   oauthManager: OAuthManager,
   config?: Config,
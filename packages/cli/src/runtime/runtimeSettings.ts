@@ -20,7 +20,10 @@ import type {
   Profile,
   IModel,
   ModelParams,
+  OllamaPullProgress,
   RuntimeAuthScopeFlushResult,
+  SessionBudgetStatus,
+  SessionCostSummary,
 } from '@vybestack/llxprt-code-core';
 import { OAuthManager } from '../auth/oauth-manager.js';
 import type { HistoryItemWithoutId } from '../ui/types.js';
@@ -780,6 +783,35 @@ export async function listAvailableModels(
   return manager.getAvailableModels(providerName);
 }
 
+/**
+ * Downloads a model through the active provider. Only providers that manage
+ * local model stores (currently Ollama) support pulling.
+ */
+export async function pullActiveProviderModel(
+  modelName: string,
+  onProgress?: (progress: OllamaPullProgress) => void,
+): Promise<string> {
+  let provider = getActiveProviderOrThrow() as unknown as {
+    name: string;
+    wrappedProvider?: unknown;
+    pullModel?: (
+      model: string,
+      onProgress?: (progress: OllamaPullProgress) => void,
+    ) => Promise<void>;
+  };
+  const providerName = provider.name;
+  while (provider.wrappedProvider) {
+    provider = provider.wrappedProvider as typeof provider;
+  }
+  if (typeof provider.pullModel !== 'function') {
+    throw new Error(
+      `Provider '${providerName}' does not support pulling models.`,
+    );
+  }
+  await provider.pullModel(modelName, onProgress);
+  return providerName;
+}
+
 export function getActiveProviderMetrics(): ReturnType<
   ProviderManager['getProviderMetrics']
 > {
@@ -799,6 +831,16 @@ export function getSessionTokenUsage(): {
   return manager.getSessionTokenUsage();
 }
 
+export function getSessionCost(): SessionCostSummary {
+  const manager = getProviderManagerOrThrow();
+  return manager.getSessionCost();
+}
+
+export function getSessionBudgetStatus(): SessionBudgetStatus {
+  const manager = getProviderManagerOrThrow();
+  return manager.getSessionBudgetStatus();
+}
+
 export function getEphemeralSettings(): Record<string, unknown> {
   const { config } = getCliRuntimeServices();
   return config.getEphemeralSettings();
@@ -855,9 +897,16 @@ const PROFILE_EPHEMERAL_KEYS: readonly string[] = [
   'auth-keyfile',
   'context-limit',
   'compression-threshold',
+  'compression-strategy',
+  'compression-provider',
+  'compression-model',
   'base-url',
   'tool-format',
   'api-version',
+  'auth-mode',
+  'azure-deployment',
+  'sigv4-region',
+  'sigv4-service',
   'custom-headers',
   'disabled-tools',
   'tool-output-max-items',
@@ -875,6 +924,11 @@ const PROFILE_EPHEMERAL_KEYS: readonly string[] = [
   'retries',
   'retrywait',
   'maxTurnsPerPrompt',
+  'provider-failover',
+  'budget-soft-limit',
+  'budget-hard-limit',
+  'loop-intervention',
+  'loop-fallback-model',
 ];
 
 export function buildRuntimeProfileSnapshot(): Profile {
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AuthType,
+  Config,
+  DebugLogger,
+  ProfileManager,
+  SESSION_FILE_VERSION,
+  SessionStore,
+  Storage,
+  TodoStore,
+  todoEvents,
+  type PersistedSession,
+  type Profile,
+} from '@vybestack/llxprt-code-core';
+import {
+  applyProfileSnapshot,
+  buildRuntimeProfileSnapshot,
+  getActiveProfileName,
+} from './runtimeSettings.js';
+
+const logger = new DebugLogger('llxprt:cli:session');
+
+/**
+ * Literal API keys stay out of session files. Keyfiles, profiles and
+ * environment variables still authenticate a resumed session.
+ */
+const UNPERSISTED_EPHEMERAL_KEYS = ['auth-key'];
+
+let sessionCreatedAt = new Date().toISOString();
+let resumedSession: PersistedSession | null = null;
+let saveQueue: Promise<void> = Promise.resolve();
+
+export function getSessionStore(config: Config): SessionStore {
+  return SessionStore.forProject(config.storage);
+}
+
+/**
+ * Snapshot of the current conversation and runtime state, or null when there
+ * is no conversation worth saving yet.
+ */
+export async function captureSession(
+  config: Config,
+): Promise<PersistedSession | null> {
+  const historyService = config.getGeminiClient()?.getHistoryService();
+  const history = historyService?.getAll() ?? [];
+  if (!historyService || history.length === 0) {
+    return null;
+  }
+  const historyTree =
+    historyService.listBranches().length > 1
+      ? historyService.exportTree()
+      : undefined;
+
+  const runtime = buildRuntimeProfileSnapshot();
+  const ephemeralSettings = { ...runtime.ephemeralSettings } as Record<
+    string,
+    unknown
+  >;
+  for (const key of UNPERSISTED_EPHEMERAL_KEYS) {
+    delete ephemeralSettings[key];
+  }
+
+  return {
+    version: SESSION_FILE_VERSION,
+    sessionId: config.getSessionId(),
+    projectRoot: config.getProjectRoot(),
+    createdAt: sessionCreatedAt,
+    updatedAt: new Date().toISOString(),
+    profileName: getActiveProfileName(),
+    runtime: {
+      ...runtime,
+      ephemeralSettings: ephemeralSettings as Profile['ephemeralSettings'],
+    },
+    todos: await new TodoStore(config.getSessionId()).readTodos(),
+    history,
+    ...(historyTree ? { historyTree } : {}),
+  };
+}
+
+/**
+ * Auto-saves the current session. Saves are queued so a slow write can never
+ * overwrite a newer snapshot.
+ */
+export function saveCurrentSession(config: Config): Promise<void> {
+  saveQueue = saveQueue
+    .catch(() => undefined)
+    .then(async () => {
+      const session = await captureSession(config);
+      if (session) {
+        await getSessionStore(config).save(session);
+      }
+    });
+  return saveQueue;
+}
+
+/**
+ * Resolves the session selected by --resume [id] or --continue. Called before
+ * Config exists so the resumed session id can be reused.
+ * @throws Error if there is nothing to resume or the id is unknown
+ */
+export async function findSessionToResume(
+  workspaceRoot: string,
+  argv: { resume?: string; continue?: boolean },
+): Promise<PersistedSession | null> {
+  if (argv.resume === undefined && !argv.continue) {
+    return null;
+  }
+  const store = SessionStore.forProject(new Storage(workspaceRoot));
+  const requestedId = argv.resume?.trim();
+  if (requestedId) {
+    const session = await store.find(requestedId);
+    if (!session) {
+      throw new Error(
+        `No saved session matching '${requestedId}' for ${workspaceRoot}.`,
+      );
+    }
+    return session;
+  }
+  const latest = await store.loadMostRecent();
+  if (!latest) {
+    throw new Error(`No saved sessions to resume for ${workspaceRoot}.`);
+  }
+  return latest;
+}
+
+/**
+ * Restores provider, model, params, ephemerals, profile, todos and history
+ * from a saved session.
+ * @returns Warnings raised while re-applying the runtime settings
+ */
+export async function restoreSession(
+  config: Config,
+  session: PersistedSession,
+): Promise<string[]> {
+  const snapshot: Profile = {
+    ...session.runtime,
+    ephemeralSettings: { ...session.runtime.ephemeralSettings },
+  };
+
+  // The API key was not saved; pick it up from the named profile if it had one
+  const ephemerals = snapshot.ephemeralSettings as Record<string, unknown>;
+  if (
+    session.profileName &&
+    ephemerals['auth-key'] === undefined &&
+    ephemerals['auth-keyfile'] === undefined
+  ) {
+    try {
+      const profile = await new ProfileManager().loadProfile(
+        session.profileName,
+      );
+      const profileEphemerals = profile.ephemeralSettings as Record<
+        string,
+        unknown
+      >;
+      for (const key of ['auth-key', 'auth-keyfile']) {
+        if (profileEphemerals[key] !== undefined) {
+          ephemerals[key] = profileEphemerals[key];
+        }
+      }
+    } catch (error) {
+      logger.debug(
+        () =>
+          `Profile '${session.profileName}' unavailable while resuming: ${String(error)}`,
+      );
+    }
+  }
+
+  const result = await applyProfileSnapshot(snapshot, {
+    profileName: session.profileName ?? undefined,
+  });
+
+  const sessionId = config.getSessionId();
+  await new TodoStore(sessionId).writeTodos(session.todos ?? []);
+  todoEvents.emitTodoUpdated({
+    sessionId,
+    todos: session.todos ?? [],
+    timestamp: new Date(),
+  });
+
+  // Re-applying the active provider skips auth, but history needs a live chat
+  if (!config.getContentGeneratorConfig()) {
+    await config.refreshAuth(AuthType.USE_PROVIDER);
+  }
+  await config
+    .getGeminiClient()
+    .restoreHistory(session.history, session.historyTree);
+
+  if (session.sessionId === sessionId) {
+    sessionCreatedAt = session.createdAt;
+  }
+  return result.warnings;
+}
+
+/**
+ * Records a session resumed during startup so the UI can replay it once
+ * it has mounted.
+ */
+export function setResumedSession(session: PersistedSession | null): void {
+  resumedSession = session;
+}
+
+export function takeResumedSession(): PersistedSession | null {
+  const session = resumedSession;
+  resumedSession = null;
+  return session;
+}
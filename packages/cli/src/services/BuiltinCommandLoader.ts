@@ -10,13 +10,16 @@ import { ICommandLoader } from './types.js';
 
 import { aboutCommand } from '../ui/commands/aboutCommand.js';
 import { authCommand } from '../ui/commands/authCommand.js';
+import { branchCommand } from '../ui/commands/branchCommand.js';
 import { bugCommand } from '../ui/commands/bugCommand.js';
 import { chatCommand } from '../ui/commands/chatCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
+import { compareCommand } from '../ui/commands/compareCommand.js';
 import { compressCommand } from '../ui/commands/compressCommand.js';
 import { copyCommand } from '../ui/commands/copyCommand.js';
 import { docsCommand } from '../ui/commands/docsCommand.js';
 import { directoryCommand } from '../ui/commands/directoryCommand.js';
+import { editCommand } from '../ui/commands/editCommand.js';
 import { editorCommand } from '../ui/commands/editorCommand.js';
 import { extensionsCommand } from '../ui/commands/extensionsCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
@@ -24,6 +27,8 @@ import { ideCommand } from '../ui/commands/ideCommand.js';
 import { initCommand } from '../ui/commands/initCommand.js';
 import { mcpCommand } from '../ui/commands/mcpCommand.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
+import { permissionsCommand } from '../ui/commands/permissionsCommand.js';
+import { pinCommand, unpinCommand } from '../ui/commands/pinCommand.js';
 import { privacyCommand } from '../ui/commands/privacyCommand.js';
 import { loggingCommand } from '../ui/commands/loggingCommand.js';
 import { quitCommand } from '../ui/commands/quitCommand.js';
@@ -79,13 +84,16 @@ export class BuiltinCommandLoader implements ICommandLoader {
     const allDefinitions: Array<SlashCommand | null> = [
       aboutCommand,
       authCommand,
+      branchCommand,
       bugCommand,
       chatCommand,
       clearCommand,
+      compareCommand,
       compressCommand,
       copyCommand,
       docsCommand,
       directoryCommand,
+      editCommand,
       editorCommand,
       extensionsCommand,
       helpCommand,
@@ -93,6 +101,9 @@ export class BuiltinCommandLoader implements ICommandLoader {
       initCommand,
       mcpCommand,
       memoryCommand,
+      permissionsCommand,
+      pinCommand,
+      unpinCommand,
       privacyCommand,
       loggingCommand,
       quitCommand,
@@ -168,6 +168,7 @@ vi.mock('@vybestack/llxprt-code-core', async (importOriginal) => {
         getSessionId: vi.fn(() => 'test-session-id'),
         getUserTier: vi.fn().mockResolvedValue(undefined),
         getIdeMode: vi.fn(() => true),
+        setMcpClientRequestHandler: vi.fn(),
         getWorkspaceContext: vi.fn(() => ({
           getDirectories: vi.fn(() => []),
         })),
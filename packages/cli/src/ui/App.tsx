@@ -35,6 +35,7 @@ import { useLoadingIndicator } from './hooks/useLoadingIndicator.js';
 import { useThemeCommand } from './hooks/useThemeCommand.js';
 import { useAuthCommand } from './hooks/useAuthCommand.js';
 import { useFolderTrust } from './hooks/useFolderTrust.js';
+import { useMcpClientRequests } from './hooks/useMcpClientRequests.js';
 import { useIdeTrustListener } from './hooks/useIdeTrustListener.js';
 import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useSlashCommandProcessor } from './hooks/slashCommandProcessor.js';
@@ -53,6 +54,8 @@ import { OAuthCodeDialog } from './components/OAuthCodeDialog.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { FolderTrustDialog } from './components/FolderTrustDialog.js';
 import { ShellConfirmationDialog } from './components/ShellConfirmationDialog.js';
+import { McpSamplingDialog } from './components/McpSamplingDialog.js';
+import { McpElicitationDialog } from './components/McpElicitationDialog.js';
 import { RadioButtonSelect } from './components/shared/RadioButtonSelect.js';
 import { Colors } from './colors.js';
 import { loadHierarchicalLlxprtMemory } from '../config/config.js';
@@ -69,6 +72,9 @@ import {
   useTodoPausePreserver,
   TodoPausePreserver,
 } from './hooks/useTodoPausePreserver.js';
+import { useSessionPersistence } from './hooks/useSessionPersistence.js';
+import { useEditResubmit } from './hooks/useEditResubmit.js';
+import { isSlashCommand } from './utils/commandUtils.js';
 import process from 'node:process';
 import {
   getErrorMessage,
@@ -83,6 +89,9 @@ import {
   getSettingsService,
   DebugLogger,
   uiTelemetryService,
+  formatCost,
+  shouldWarnBudgetLevel,
+  type SessionBudgetState,
 } from '@vybestack/llxprt-code-core';
 import {
   IdeIntegrationNudge,
@@ -390,11 +399,21 @@ const App = (props: AppInternalProps) => {
   const [footerHeight, setFooterHeight] = useState<number>(0);
 
   // Token metrics state for live updates
-  const [tokenMetrics, setTokenMetrics] = useState({
+  const [tokenMetrics, setTokenMetrics] = useState<{
+    tokensPerMinute: number;
+    throttleWaitTimeMs: number;
+    sessionTokenTotal: number;
+    sessionCost: number;
+    budgetState: SessionBudgetState;
+  }>({
     tokensPerMinute: 0,
     throttleWaitTimeMs: 0,
     sessionTokenTotal: 0,
+    sessionCost: 0,
+    budgetState: 'ok',
   });
+  // Budget level the user was last warned about
+  const budgetWarningLevelRef = useRef<SessionBudgetState>('ok');
   const [_corgiMode, setCorgiMode] = useState(false);
   const [_isTrustedFolderState, _setIsTrustedFolder] = useState(
     isWorkspaceTrusted(settings.merged),
@@ -526,6 +545,8 @@ const App = (props: AppInternalProps) => {
   const { isFolderTrustDialogOpen, handleFolderTrustSelect, isRestarting } =
     useFolderTrust(settings, config);
 
+  const mcpClientRequest = useMcpClientRequests(config);
+
   const { needsRestart: ideNeedsRestart } = useIdeTrustListener(config);
   useEffect(() => {
     if (ideNeedsRestart) {
@@ -760,13 +781,33 @@ const App = (props: AppInternalProps) => {
     const updateTokenMetrics = () => {
       const metrics = runtime.getActiveProviderMetrics();
       const usage = runtime.getSessionTokenUsage();
+      const budget = runtime.getSessionBudgetStatus();
 
       setTokenMetrics({
         tokensPerMinute: metrics?.tokensPerMinute ?? 0,
         throttleWaitTimeMs: metrics?.throttleWaitTimeMs ?? 0,
         sessionTokenTotal: usage.total,
+        sessionCost: budget.cost,
+        budgetState: budget.state,
       });
 
+      // Warn when the session crosses its soft or hard budget limit
+      const warnedLevel = budgetWarningLevelRef.current;
+      budgetWarningLevelRef.current = budget.state;
+      if (shouldWarnBudgetLevel(warnedLevel, budget.state)) {
+        addItem(
+          {
+            type:
+              budget.state === 'hard' ? MessageType.ERROR : MessageType.INFO,
+            text:
+              budget.state === 'hard'
+                ? `Session cost ${formatCost(budget.cost)} has reached the hard budget limit of ${formatCost(budget.hardLimit ?? 0)}. Further requests will be refused until budget-hard-limit is raised or cleared.`
+                : `Session cost ${formatCost(budget.cost)} has passed the soft budget limit of ${formatCost(budget.softLimit ?? 0)}.`,
+          },
+          Date.now(),
+        );
+      }
+
       uiTelemetryService.setTokenTrackingMetrics({
         tokensPerMinute: metrics?.tokensPerMinute ?? 0,
         throttleWaitTimeMs: metrics?.throttleWaitTimeMs ?? 0,
@@ -781,7 +822,7 @@ const App = (props: AppInternalProps) => {
     const interval = setInterval(updateTokenMetrics, 1000);
 
     return () => clearInterval(interval);
-  }, [runtime]);
+  }, [runtime, addItem]);
 
   // Terminal and UI setup
   const { rows: terminalHeight, columns: terminalWidth } = useTerminalSize();
@@ -855,6 +896,7 @@ const App = (props: AppInternalProps) => {
 
   const {
     handleSlashCommand,
+    cancelSlashCommand,
     slashCommands,
     pendingHistoryItems: pendingSlashCommandHistoryItems,
     commandContext,
@@ -983,6 +1025,15 @@ const App = (props: AppInternalProps) => {
     }
   }, [buffer, inputHistoryStore.inputHistory, pendingHistoryItems]);
 
+  const { pendingEdit, submitEdited } = useEditResubmit(
+    config,
+    buffer,
+    addItem,
+    clearItems,
+    refreshStatic,
+    submitQuery,
+  );
+
   // Input handling - queue messages for processing
   const handleFinalSubmit = useCallback(
     (submittedValue: string) => {
@@ -990,12 +1041,18 @@ const App = (props: AppInternalProps) => {
       if (trimmedValue.length > 0) {
         // Add to independent input history
         inputHistoryStore.addInput(trimmedValue);
+        if (pendingEdit && !isSlashCommand(trimmedValue)) {
+          void submitEdited(trimmedValue);
+          return;
+        }
         submitQuery(trimmedValue);
       }
     },
-    [submitQuery, inputHistoryStore],
+    [submitQuery, inputHistoryStore, pendingEdit, submitEdited],
   );
 
+  useSessionPersistence(config, streamingState, addItem);
+
   const { handleUserInputSubmit } = useTodoPausePreserver({
     controller: todoPauseController,
     updateTodos,
@@ -1106,6 +1163,10 @@ const App = (props: AppInternalProps) => {
           return;
         }
         handleExit(ctrlDPressedOnce, setCtrlDPressedOnce, ctrlDTimerRef);
+      } else if (keyMatchers[Command.TOGGLE_PIN](key)) {
+        handleSlashCommand('/pin toggle');
+      } else if (keyMatchers[Command.ESCAPE](key) && isProcessing) {
+        cancelSlashCommand();
       } else if (
         keyMatchers[Command.SHOW_MORE_LINES](key) &&
         !enteringConstrainHeightMode
@@ -1132,6 +1193,8 @@ const App = (props: AppInternalProps) => {
       handleSlashCommand,
       isAuthenticating,
       cancelOngoingRequest,
+      cancelSlashCommand,
+      isProcessing,
       settings.merged.debugKeystrokeLogging,
     ],
   );
@@ -1427,6 +1490,18 @@ const App = (props: AppInternalProps) => {
             />
           ) : shellConfirmationRequest ? (
             <ShellConfirmationDialog request={shellConfirmationRequest} />
+          ) : mcpClientRequest?.type === 'sampling' ? (
+            <McpSamplingDialog
+              key={mcpClientRequest.id}
+              request={mcpClientRequest.request}
+              onConfirm={mcpClientRequest.onConfirm}
+            />
+          ) : mcpClientRequest?.type === 'elicitation' ? (
+            <McpElicitationDialog
+              key={mcpClientRequest.id}
+              request={mcpClientRequest.request}
+              onSubmit={mcpClientRequest.onSubmit}
+            />
           ) : confirmationRequest ? (
             <Box flexDirection="column">
               {confirmationRequest.prompt}
@@ -1716,6 +1791,8 @@ const App = (props: AppInternalProps) => {
               tokensPerMinute={tokenMetrics.tokensPerMinute}
               throttleWaitTimeMs={tokenMetrics.throttleWaitTimeMs}
               sessionTokenTotal={tokenMetrics.sessionTokenTotal}
+              sessionCost={tokenMetrics.sessionCost}
+              budgetState={tokenMetrics.budgetState}
               hideCWD={settings.merged.hideCWD}
               hideSandboxStatus={settings.merged.hideSandboxStatus}
               hideModelInfo={settings.merged.hideModelInfo}
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeminiClient, IContent } from '@vybestack/llxprt-code-core';
+import { branchCommand } from './branchCommand.js';
+import { type CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+const prompt = (text: string): IContent => ({
+  speaker: 'human',
+  blocks: [{ type: 'text', text }],
+});
+const answer = (text: string): IContent => ({
+  speaker: 'ai',
+  blocks: [{ type: 'text', text }],
+});
+
+describe('branchCommand', () => {
+  let context: CommandContext;
+  let historyService: {
+    getAll: ReturnType<typeof vi.fn>;
+    getActiveBranchName: ReturnType<typeof vi.fn>;
+    forkBranch: ReturnType<typeof vi.fn>;
+    switchBranch: ReturnType<typeof vi.fn>;
+    deleteBranch: ReturnType<typeof vi.fn>;
+    diffBranches: ReturnType<typeof vi.fn>;
+    listBranches: ReturnType<typeof vi.fn>;
+  };
+
+  const getSubCommand = (name: string): SlashCommand => {
+    const subCommand = branchCommand.subCommands?.find(
+      (cmd) => cmd.name === name,
+    );
+    if (!subCommand) {
+      throw new Error(`/branch ${name} command not found.`);
+    }
+    return subCommand;
+  };
+
+  beforeEach(() => {
+    historyService = {
+      getAll: vi
+        .fn()
+        .mockReturnValue([
+          prompt('one'),
+          answer('first'),
+          prompt('two'),
+          answer('second'),
+        ]),
+      getActiveBranchName: vi.fn().mockReturnValue('main'),
+      forkBranch: vi.fn().mockReturnValue('branch-1'),
+      switchBranch: vi.fn(),
+      deleteBranch: vi.fn(),
+      diffBranches: vi.fn(),
+      listBranches: vi.fn().mockReturnValue([
+        {
+          name: 'main',
+          parent: null,
+          forkIndex: 0,
+          createdAt: '2025-01-01T00:00:00.000Z',
+          messageCount: 4,
+          active: true,
+        },
+        {
+          name: 'alt',
+          parent: 'main',
+          forkIndex: 2,
+          createdAt: '2025-01-01T00:01:00.000Z',
+          messageCount: 3,
+          active: false,
+        },
+      ]),
+    };
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () =>
+            ({
+              getHistoryService: () => historyService,
+            }) as unknown as GeminiClient,
+        },
+      },
+    });
+  });
+
+  it('lists branches and marks the active one', async () => {
+    const result = await branchCommand.action?.(context, '');
+
+    expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+    const content = (result as { content: string }).content;
+    expect(content).toContain('* \u001b[36mmain\u001b[0m');
+    expect(content).toContain('forked from main after 2 messages');
+  });
+
+  it('forks before the requested prompt and redraws the conversation', async () => {
+    const result = await getSubCommand('fork').action?.(context, 'retry 2');
+
+    expect(historyService.forkBranch).toHaveBeenCalledWith({
+      name: 'retry',
+      atIndex: 2,
+    });
+    expect(context.ui.clear).toHaveBeenCalled();
+    expect(context.ui.addItem).toHaveBeenCalledTimes(4);
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: expect.stringContaining(
+        "before prompt 2 into new branch 'branch-1'",
+      ),
+    });
+  });
+
+  it('rejects prompt numbers that do not exist', async () => {
+    const result = await getSubCommand('fork').action?.(context, '7');
+
+    expect(historyService.forkBranch).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'There is no prompt number 7 on this branch.',
+    });
+  });
+
+  it('reports errors raised while switching', async () => {
+    historyService.switchBranch.mockImplementation(() => {
+      throw new Error("Unknown branch 'nope'");
+    });
+
+    const result = await getSubCommand('switch').action?.(context, 'nope');
+
+    expect(context.ui.clear).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: "Unknown branch 'nope'",
+    });
+  });
+
+  it('diffs against the active branch by default', async () => {
+    historyService.diffBranches.mockReturnValue({
+      commonLength: 2,
+      onlyInFirst: [prompt('other')],
+      onlyInSecond: [],
+    });
+
+    const result = await getSubCommand('diff').action?.(context, 'alt');
+
+    expect(historyService.diffBranches).toHaveBeenCalledWith('alt', 'main');
+    const content = (result as { content: string }).content;
+    expect(content).toContain("'alt' and 'main' share the first 2 messages.");
+    expect(content).toContain('human other');
+    expect(content).toContain('no further messages');
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IContent } from '@vybestack/llxprt-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import {
+  type CommandArgumentSchema,
+  type ValueArgument,
+} from './schema/types.js';
+import { sessionHistoryToUiItems } from '../utils/sessionHistoryItems.js';
+import { listConversationPrompts } from '../utils/promptRewind.js';
+
+const getHistoryService = (context: CommandContext) =>
+  context.services.config?.getGeminiClient()?.getHistoryService() ?? null;
+
+type BranchHistoryService = NonNullable<ReturnType<typeof getHistoryService>>;
+
+const noConversation: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'No conversation to branch yet.',
+};
+
+const errorMessage = (error: unknown): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content: error instanceof Error ? error.message : String(error),
+});
+
+/**
+ * Redraws the conversation so the screen shows the active branch
+ */
+const showActiveBranch = (
+  context: CommandContext,
+  historyService: BranchHistoryService,
+): void => {
+  context.ui.clear();
+  const now = Date.now();
+  for (const item of sessionHistoryToUiItems(historyService.getAll())) {
+    context.ui.addItem(item, now);
+  }
+};
+
+const summarize = (content: IContent): string => {
+  const text = content.blocks
+    .map((block) => {
+      if (block.type === 'text') {
+        return block.text;
+      }
+      if (block.type === 'tool_call') {
+        return `[${block.name}]`;
+      }
+      if (block.type === 'tool_response') {
+        return `[${block.toolName} result]`;
+      }
+      return '';
+    })
+    .filter(Boolean)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const branchNameArgument: ValueArgument = {
+  kind: 'value',
+  name: 'branch',
+  description: 'Select branch',
+  completer: async (ctx, partialArg) =>
+    (getHistoryService(ctx)?.listBranches() ?? [])
+      .filter((branch) => branch.name.startsWith(partialArg))
+      .map((branch) => ({
+        value: branch.name,
+        description: `${branch.messageCount} messages${branch.active ? ' (active)' : ''}`,
+      })),
+};
+
+const branchNameSchema: CommandArgumentSchema = [branchNameArgument];
+
+const listBranches = (context: CommandContext): MessageActionReturn => {
+  const historyService = getHistoryService(context);
+  if (!historyService) {
+    return noConversation;
+  }
+  let message = 'Conversation branches:\n\n';
+  for (const branch of historyService.listBranches()) {
+    const marker = branch.active ? '*' : '-';
+    const origin = branch.parent
+      ? `forked from ${branch.parent} after ${branch.forkIndex} messages`
+      : 'root';
+    message += `  ${marker} \u001b[36m${branch.name}\u001b[0m  \u001b[90m${branch.messageCount} messages · ${origin}\u001b[0m\n`;
+  }
+  message += `\n\u001b[90m* marks the active branch\u001b[0m`;
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: message,
+  };
+};
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List conversation branches',
+  kind: CommandKind.BUILT_IN,
+  action: async (context) => listBranches(context),
+};
+
+const forkCommand: SlashCommand = {
+  name: 'fork',
+  altNames: ['new'],
+  description:
+    'Fork the conversation into a new branch and switch to it. Usage: /branch fork [name] [turn]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const historyService = getHistoryService(context);
+    if (!historyService) {
+      return noConversation;
+    }
+
+    let name: string | undefined;
+    let turn: number | undefined;
+    for (const token of args.trim().split(/\s+/).filter(Boolean)) {
+      if (/^\d+$/.test(token) && turn === undefined) {
+        turn = Number(token);
+      } else if (name === undefined) {
+        name = token;
+      } else {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: 'Usage: /branch fork [name] [turn]',
+        };
+      }
+    }
+
+    let atIndex: number | undefined;
+    if (turn !== undefined) {
+      atIndex = listConversationPrompts(historyService.getAll()).find(
+        (prompt) => prompt.turn === turn,
+      )?.historyIndex;
+      if (atIndex === undefined) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `There is no prompt number ${turn} on this branch.`,
+        };
+      }
+    }
+
+    const parent = historyService.getActiveBranchName();
+    let created: string;
+    try {
+      created = historyService.forkBranch({ name, atIndex });
+    } catch (error) {
+      return errorMessage(error);
+    }
+    showActiveBranch(context, historyService);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content:
+        turn === undefined
+          ? `Forked '${parent}' into new branch '${created}'.`
+          : `Forked '${parent}' before prompt ${turn} into new branch '${created}'. Your next prompt replaces it.`,
+    };
+  },
+};
+
+const switchCommand: SlashCommand = {
+  name: 'switch',
+  altNames: ['checkout'],
+  description: 'Switch to another branch. Usage: /branch switch <name>',
+  kind: CommandKind.BUILT_IN,
+  schema: branchNameSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const name = args.trim();
+    if (!name) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing branch name. Usage: /branch switch <name>',
+      };
+    }
+    const historyService = getHistoryService(context);
+    if (!historyService) {
+      return noConversation;
+    }
+    try {
+      historyService.switchBranch(name);
+    } catch (error) {
+      return errorMessage(error);
+    }
+    showActiveBranch(context, historyService);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to branch '${name}'.`,
+    };
+  },
+};
+
+const diffCommand: SlashCommand = {
+  name: 'diff',
+  description:
+    'Show where two branches diverge. Usage: /branch diff <name> [other]',
+  kind: CommandKind.BUILT_IN,
+  schema: [{ ...branchNameArgument, next: branchNameSchema }],
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const historyService = getHistoryService(context);
+    if (!historyService) {
+      return noConversation;
+    }
+    const [first, second = historyService.getActiveBranchName()] = args
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+    if (!first) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing branch name. Usage: /branch diff <name> [other]',
+      };
+    }
+
+    let diff;
+    try {
+      diff = historyService.diffBranches(first, second);
+    } catch (error) {
+      return errorMessage(error);
+    }
+
+    const describeSide = (name: string, contents: IContent[]): string => {
+      if (contents.length === 0) {
+        return `\u001b[36m${name}\u001b[0m: no further messages\n`;
+      }
+      let side = `\u001b[36m${name}\u001b[0m: ${contents.length} more messages\n`;
+      for (const content of contents) {
+        side += `  ${content.speaker.padEnd(5)} ${summarize(content)}\n`;
+      }
+      return side;
+    };
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        `'${first}' and '${second}' share the first ${diff.commonLength} messages.\n`,
+        describeSide(first, diff.onlyInFirst),
+        describeSide(second, diff.onlyInSecond),
+      ]
+        .join('\n')
+        .trimEnd(),
+    };
+  },
+};
+
+const deleteCommand: SlashCommand = {
+  name: 'delete',
+  description: 'Delete an inactive branch. Usage: /branch delete <name>',
+  kind: CommandKind.BUILT_IN,
+  schema: branchNameSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const name = args.trim();
+    if (!name) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing branch name. Usage: /branch delete <name>',
+      };
+    }
+    const historyService = getHistoryService(context);
+    if (!historyService) {
+      return noConversation;
+    }
+    try {
+      historyService.deleteBranch(name);
+    } catch (error) {
+      return errorMessage(error);
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Branch '${name}' has been deleted.`,
+    };
+  },
+};
+
+export const branchCommand: SlashCommand = {
+  name: 'branch',
+  description: 'Fork the conversation and move between branches',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [
+    listCommand,
+    forkCommand,
+    switchCommand,
+    diffCommand,
+    deleteCommand,
+  ],
+  action: async (context) => listBranches(context),
+};
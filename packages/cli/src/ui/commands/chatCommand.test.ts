@@ -21,21 +21,38 @@ import {
 } from './types.js';
 import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
 import { Content } from '@google/genai';
-import { GeminiClient } from '@vybestack/llxprt-code-core';
+import {
+  GeminiClient,
+  IContent,
+  renderTranscript,
+} from '@vybestack/llxprt-code-core';
 
 import * as fsPromises from 'fs/promises';
 import { chatCommand } from './chatCommand.js';
 import { Stats } from 'fs';
 import { HistoryItemWithoutId } from '../types.js';
 import { createCompletionHandler } from './schema/index.js';
+import {
+  getSessionStore,
+  restoreSession,
+} from '../../runtime/sessionPersistence.js';
 
 vi.mock('fs/promises', () => ({
   default: {
     stat: vi.fn(),
     readdir: vi.fn().mockResolvedValue(['file1.txt', 'file2.txt'] as string[]),
+    readFile: vi.fn(),
+    writeFile: vi.fn(),
   },
   stat: vi.fn(),
   readdir: vi.fn().mockResolvedValue(['file1.txt', 'file2.txt'] as string[]),
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+vi.mock('../../runtime/sessionPersistence.js', () => ({
+  getSessionStore: vi.fn(),
+  restoreSession: vi.fn(),
 }));
 
 describe('chatCommand', () => {
@@ -47,9 +64,20 @@ describe('chatCommand', () => {
   let mockLoadCheckpoint: ReturnType<typeof vi.fn>;
   let mockDeleteCheckpoint: ReturnType<typeof vi.fn>;
   let mockGetHistory: ReturnType<typeof vi.fn>;
+  let mockListBranches: ReturnType<typeof vi.fn>;
+
+  let mockGetPinnedIndexes: ReturnType<typeof vi.fn>;
+  let mockExportTree: ReturnType<typeof vi.fn>;
 
   const getSubCommand = (
-    name: 'list' | 'save' | 'resume' | 'delete',
+    name:
+      | 'list'
+      | 'save'
+      | 'resume'
+      | 'delete'
+      | 'sessions'
+      | 'export'
+      | 'import',
   ): SlashCommand => {
     const subCommand = chatCommand.subCommands?.find(
       (cmd) => cmd.name === name,
@@ -62,8 +90,16 @@ describe('chatCommand', () => {
 
   beforeEach(() => {
     mockGetHistory = vi.fn().mockReturnValue([]);
+    mockListBranches = vi.fn().mockReturnValue([{ name: 'main' }]);
+    mockGetPinnedIndexes = vi.fn().mockReturnValue([]);
+    mockExportTree = vi.fn();
     mockGetChat = vi.fn().mockReturnValue({
       getHistory: mockGetHistory,
+      getHistoryService: () => ({
+        listBranches: mockListBranches,
+        getPinnedIndexes: mockGetPinnedIndexes,
+        exportTree: mockExportTree,
+      }),
     });
     mockSaveCheckpoint = vi.fn().mockResolvedValue(undefined);
     mockLoadCheckpoint = vi.fn().mockResolvedValue([]);
@@ -100,7 +136,7 @@ describe('chatCommand', () => {
   it('should have the correct main command definition', () => {
     expect(chatCommand.name).toBe('chat');
     expect(chatCommand.description).toBe('Manage conversation history.');
-    expect(chatCommand.subCommands).toHaveLength(4);
+    expect(chatCommand.subCommands).toHaveLength(7);
   });
 
   describe('list subcommand', () => {
@@ -268,6 +304,42 @@ describe('chatCommand', () => {
         content: `Conversation checkpoint saved with tag: ${tag}.`,
       });
     });
+
+    it('should save every branch when the conversation has been forked', async () => {
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'context for our chat' }] },
+        { role: 'model', parts: [{ text: 'Got it. Thanks for the context!' }] },
+        { role: 'user', parts: [{ text: 'hello' }] },
+      ];
+      const historyTree = { version: 1, activeBranch: 'alt', branches: [] };
+      mockGetHistory.mockReturnValue(history);
+      mockListBranches.mockReturnValue([{ name: 'main' }, { name: 'alt' }]);
+      mockExportTree.mockReturnValue(historyTree);
+
+      await saveCommand?.action?.(mockContext, tag);
+
+      expect(mockSaveCheckpoint).toHaveBeenCalledWith(history, tag, {
+        historyTree,
+      });
+    });
+
+    it('should save the tree when messages are pinned', async () => {
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'the spec' }] },
+        { role: 'model', parts: [{ text: 'Understood.' }] },
+        { role: 'user', parts: [{ text: 'hello' }] },
+      ];
+      const historyTree = { version: 1, activeBranch: 'main', branches: [] };
+      mockGetHistory.mockReturnValue(history);
+      mockGetPinnedIndexes.mockReturnValue([0]);
+      mockExportTree.mockReturnValue(historyTree);
+
+      await saveCommand?.action?.(mockContext, tag);
+
+      expect(mockSaveCheckpoint).toHaveBeenCalledWith(history, tag, {
+        historyTree,
+      });
+    });
   });
 
   describe('resume subcommand', () => {
@@ -320,6 +392,33 @@ describe('chatCommand', () => {
       });
     });
 
+    it('should pass the saved branch tree along with the history', async () => {
+      const conversation: Content[] = [
+        { role: 'user', parts: [{ text: 'hello gemini' }] },
+      ];
+      const historyTree = {
+        version: 1,
+        activeBranch: 'main',
+        branches: [
+          {
+            name: 'main',
+            parent: null,
+            forkIndex: 0,
+            createdAt: '2025-01-01T00:00:00.000Z',
+            history: [],
+          },
+        ],
+      };
+      mockLoadCheckpoint.mockResolvedValue({
+        history: conversation,
+        context: { historyTree },
+      });
+
+      const result = await resumeCommand?.action?.(mockContext, goodTag);
+
+      expect(result).toMatchObject({ type: 'load_history', historyTree });
+    });
+
     describe('schema completion', () => {
       const runCompletion = async (partial: string): Promise<string[]> => {
         const handler = createCompletionHandler(resumeCommand.schema!);
@@ -444,4 +543,244 @@ describe('chatCommand', () => {
       });
     });
   });
+
+  describe('sessions subcommand', () => {
+    let sessionsCommand: SlashCommand;
+    const mockStore = {
+      list: vi.fn(),
+      find: vi.fn(),
+    };
+    const savedSession = {
+      version: 1,
+      sessionId: 'abc-123',
+      projectRoot: '/project/root',
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-02T11:30:00.000Z',
+      profileName: null,
+      runtime: {
+        version: 1,
+        provider: 'openai',
+        model: 'gpt-4.1',
+        modelParams: {},
+        ephemeralSettings: {},
+      },
+      todos: [],
+      history: [
+        { speaker: 'human', blocks: [{ type: 'text', text: 'fix the build' }] },
+        { speaker: 'ai', blocks: [{ type: 'text', text: 'Done.' }] },
+      ],
+    };
+
+    beforeEach(() => {
+      sessionsCommand = getSubCommand('sessions');
+      mockStore.list.mockReset();
+      mockStore.find.mockReset();
+      vi.mocked(getSessionStore).mockReturnValue(
+        mockStore as unknown as ReturnType<typeof getSessionStore>,
+      );
+      vi.mocked(restoreSession).mockResolvedValue([]);
+      Object.assign(mockContext.services.config!, {
+        getSessionId: () => 'current-session',
+      });
+    });
+
+    it('lists saved sessions', async () => {
+      mockStore.list.mockResolvedValue([
+        {
+          sessionId: 'abc-123',
+          updatedAt: '2025-01-02T11:30:00.000Z',
+          provider: 'openai',
+          model: 'gpt-4.1',
+          messageCount: 2,
+          preview: 'fix the build',
+        },
+      ]);
+
+      const result = (await sessionsCommand.action!(
+        mockContext,
+        '',
+      )) as MessageActionReturn;
+
+      expect(result.messageType).toBe('info');
+      expect(result.content).toContain('abc-123');
+      expect(result.content).toContain('2025-01-02 11:30');
+      expect(result.content).toContain('openai:gpt-4.1 · 2 messages');
+      expect(result.content).toContain('fix the build');
+    });
+
+    it('restores the selected session and replays it in the UI', async () => {
+      mockStore.find.mockResolvedValue(savedSession);
+
+      const result = await sessionsCommand.action!(mockContext, 'abc');
+
+      expect(mockStore.find).toHaveBeenCalledWith('abc');
+      expect(restoreSession).toHaveBeenCalledWith(
+        mockContext.services.config,
+        savedSession,
+      );
+      expect(mockContext.ui.clear).toHaveBeenCalled();
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        { type: 'user', text: 'fix the build' },
+        expect.any(Number),
+      );
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'Resumed session abc-123 (openai:gpt-4.1, 2 messages).',
+      });
+    });
+
+    it('reports unknown and ambiguous session ids', async () => {
+      mockStore.find.mockResolvedValueOnce(null);
+      await expect(
+        sessionsCommand.action!(mockContext, 'nope'),
+      ).resolves.toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: "No saved session matching 'nope'.",
+      });
+
+      mockStore.find.mockRejectedValueOnce(
+        new Error("Session id 'a' is ambiguous; it matches 2 sessions."),
+      );
+      await expect(sessionsCommand.action!(mockContext, 'a')).resolves.toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: "Session id 'a' is ambiguous; it matches 2 sessions.",
+      });
+      expect(restoreSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('export and import subcommands', () => {
+    const transcriptHistory: IContent[] = [
+      { speaker: 'human', blocks: [{ type: 'text', text: 'fix the build' }] },
+      { speaker: 'ai', blocks: [{ type: 'text', text: 'Done.' }] },
+    ];
+    let mockRestoreHistory: ReturnType<typeof vi.fn>;
+    let mockGetCurated: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      mockRestoreHistory = vi.fn().mockResolvedValue(undefined);
+      mockGetCurated = vi.fn().mockReturnValue(transcriptHistory);
+      Object.assign(mockContext.services.config!, {
+        getProvider: () => 'openai',
+        getModel: () => 'gpt-4.1',
+        getSessionId: () => 'abc-123',
+        getGeminiClient: () => ({
+          getHistoryService: () => ({ getCurated: mockGetCurated }),
+          restoreHistory: mockRestoreHistory,
+        }),
+      });
+      mockFs.writeFile.mockResolvedValue(undefined);
+    });
+
+    it('writes the transcript relative to the project root', async () => {
+      const result = (await getSubCommand('export').action!(
+        mockContext,
+        'md notes/session.md',
+      )) as MessageActionReturn;
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        '/project/root/notes/session.md',
+        expect.stringContaining('## User\n\nfix the build'),
+        { encoding: 'utf-8', flag: 'wx' },
+      );
+      expect(result.content).toBe(
+        'Conversation exported to /project/root/notes/session.md.',
+      );
+    });
+
+    it('names the file after the format when no path is given', async () => {
+      await getSubCommand('export').action!(mockContext, 'html');
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^\/project\/root\/llxprt-conversation-.*\.html$/,
+        ),
+        expect.stringContaining('<!DOCTYPE html>'),
+        { encoding: 'utf-8', flag: 'wx' },
+      );
+    });
+
+    it('refuses to overwrite an existing file unless --force is given', async () => {
+      mockFs.writeFile.mockRejectedValueOnce(
+        Object.assign(new Error('file exists'), { code: 'EEXIST' }),
+      );
+      const refused = (await getSubCommand('export').action!(
+        mockContext,
+        'md notes.md',
+      )) as MessageActionReturn;
+      expect(refused).toMatchObject({
+        messageType: 'error',
+        content:
+          '/project/root/notes.md already exists. Add --force to overwrite it.',
+      });
+
+      await getSubCommand('export').action!(mockContext, 'md notes.md --force');
+      expect(mockFs.writeFile).toHaveBeenLastCalledWith(
+        '/project/root/notes.md',
+        expect.any(String),
+        { encoding: 'utf-8', flag: 'w' },
+      );
+    });
+
+    it('rejects unknown formats and empty conversations', async () => {
+      const exportCommand = getSubCommand('export');
+      const unknown = (await exportCommand.action!(
+        mockContext,
+        'yaml',
+      )) as MessageActionReturn;
+      expect(unknown.messageType).toBe('error');
+
+      mockGetCurated.mockReturnValue([]);
+      const empty = (await exportCommand.action!(
+        mockContext,
+        'json',
+      )) as MessageActionReturn;
+      expect(empty.content).toBe('No conversation found to export.');
+      expect(mockFs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('restores a JSON transcript and replays it in the UI', async () => {
+      mockFs.readFile.mockResolvedValue(
+        renderTranscript(transcriptHistory, 'json', {
+          provider: 'openai',
+          model: 'gpt-4.1',
+        }),
+      );
+
+      const result = (await getSubCommand('import').action!(
+        mockContext,
+        'session.json',
+      )) as MessageActionReturn;
+
+      expect(mockFs.readFile).toHaveBeenCalledWith(
+        '/project/root/session.json',
+        'utf-8',
+      );
+      expect(mockRestoreHistory).toHaveBeenCalledWith(transcriptHistory);
+      expect(mockContext.ui.clear).toHaveBeenCalled();
+      expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+        { type: 'user', text: 'fix the build' },
+        expect.any(Number),
+      );
+      expect(result.content).toBe(
+        'Imported 2 messages from /project/root/session.json (openai:gpt-4.1).',
+      );
+    });
+
+    it('leaves the conversation alone when the file is not a transcript', async () => {
+      mockFs.readFile.mockResolvedValue('# Conversation');
+
+      const result = (await getSubCommand('import').action!(
+        mockContext,
+        'session.md',
+      )) as MessageActionReturn;
+
+      expect(result.messageType).toBe('error');
+      expect(result.content).toContain('not valid JSON');
+      expect(mockRestoreHistory).not.toHaveBeenCalled();
+    });
+  });
 });
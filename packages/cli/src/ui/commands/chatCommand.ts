@@ -18,12 +18,26 @@ import {
 import {
   decodeTagName,
   EmojiFilter,
+  getErrorMessage,
+  getTranscriptExtension,
+  HISTORY_TREE_VERSION,
+  isNodeError,
+  parseTranscript,
+  parseTranscriptFormat,
+  renderTranscript,
+  TRANSCRIPT_FORMATS,
   type EmojiFilterMode,
+  type HistoryTreeSnapshot,
 } from '@vybestack/llxprt-code-core';
 import path from 'path';
 import { HistoryItemWithoutId, MessageType } from '../types.js';
 import { Part } from '@google/genai';
 import { type CommandArgumentSchema } from './schema/types.js';
+import {
+  getSessionStore,
+  restoreSession,
+} from '../../runtime/sessionPersistence.js';
+import { sessionHistoryToUiItems } from '../utils/sessionHistoryItems.js';
 
 interface ChatDetail {
   name: string;
@@ -184,7 +198,19 @@ const saveCommand: SlashCommand = {
     const chat = client.getChat();
     const history = chat.getHistory();
     if (history.length > 2) {
-      await logger.saveCheckpoint(history, tag);
+      // Keep every branch, not just the one currently being shown, and the
+      // pins, which the plain history cannot hold
+      const historyService = chat.getHistoryService();
+      if (
+        historyService.listBranches().length > 1 ||
+        historyService.getPinnedIndexes().length > 0
+      ) {
+        await logger.saveCheckpoint(history, tag, {
+          historyTree: historyService.exportTree(),
+        });
+      } else {
+        await logger.saveCheckpoint(history, tag);
+      }
       return {
         type: 'message',
         messageType: 'info',
@@ -287,10 +313,271 @@ const resumeCommand: SlashCommand = {
         } as HistoryItemWithoutId);
       }
     }
+    const historyTree = (
+      checkpoint.context as { historyTree?: HistoryTreeSnapshot } | undefined
+    )?.historyTree;
     return {
       type: 'load_history',
       history: uiHistory,
       clientHistory: conversation,
+      ...(historyTree?.version === HISTORY_TREE_VERSION ? { historyTree } : {}),
+    };
+  },
+};
+
+const formatSessionDate = (iso: string): string => {
+  const match = iso.match(/(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/);
+  return match ? `${match[1]} ${match[2]}` : iso;
+};
+
+const sessionSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'session',
+    description: 'Select auto-saved session',
+    completer: async (ctx, partialArg) => {
+      const config = ctx.services.config;
+      if (!config) {
+        return [];
+      }
+      const sessions = await getSessionStore(config).list();
+      return sessions
+        .filter((session) => session.sessionId.startsWith(partialArg))
+        .map((session) => ({
+          value: session.sessionId,
+          description: `${formatSessionDate(session.updatedAt)} ${session.preview}`,
+        }));
+    },
+  },
+];
+
+const sessionsCommand: SlashCommand = {
+  name: 'sessions',
+  description:
+    'List auto-saved sessions or resume one. Usage: /chat sessions [id]',
+  kind: CommandKind.BUILT_IN,
+  schema: sessionSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'No configuration available',
+      };
+    }
+    const store = getSessionStore(config);
+    const query = args.trim();
+
+    if (!query) {
+      const sessions = await store.list();
+      if (sessions.length === 0) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: 'No saved sessions found for this project.',
+        };
+      }
+      let message = 'Saved sessions (newest first):\n\n';
+      for (const session of sessions) {
+        const current =
+          session.sessionId === config.getSessionId() ? ' (current)' : '';
+        message += `  - \u001b[36m${session.sessionId}\u001b[0m${current}  \u001b[90m${formatSessionDate(session.updatedAt)} · ${session.provider}:${session.model} · ${session.messageCount} messages\u001b[0m\n`;
+        if (session.preview) {
+          message += `      ${session.preview}\n`;
+        }
+      }
+      message += `\n\u001b[90mResume with /chat sessions <id> (an id prefix is enough)\u001b[0m`;
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: message,
+      };
+    }
+
+    let session;
+    try {
+      session = await store.find(query);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: error instanceof Error ? error.message : String(error),
+      };
+    }
+    if (!session) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `No saved session matching '${query}'.`,
+      };
+    }
+    if (session.sessionId === config.getSessionId()) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'That is the current session.',
+      };
+    }
+
+    const warnings = await restoreSession(config, session);
+    context.ui.clear();
+    const now = Date.now();
+    for (const item of sessionHistoryToUiItems(session.history)) {
+      context.ui.addItem(item, now);
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        `Resumed session ${session.sessionId} (${session.runtime.provider}:${session.runtime.model}, ${session.history.length} messages).`,
+        ...warnings,
+      ].join('\n'),
+    };
+  },
+};
+
+const exportSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'format',
+    description: 'Select transcript format',
+    options: TRANSCRIPT_FORMATS.map((format) => ({ value: format })),
+    next: [
+      {
+        kind: 'value',
+        name: 'path',
+        description: 'File to write (defaults to the project root)',
+        next: [
+          {
+            kind: 'literal',
+            value: '--force',
+            description: 'Overwrite the file if it exists',
+          },
+        ],
+      },
+    ],
+  },
+];
+
+const exportCommand: SlashCommand = {
+  name: 'export',
+  description:
+    'Export the conversation as a transcript. Usage: /chat export <markdown|html|json> [path] [--force]',
+  kind: CommandKind.BUILT_IN,
+  schema: exportSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const parts = args.trim().split(/\s+/);
+    const force = parts.includes('--force');
+    const [formatArg, ...pathParts] = parts.filter(
+      (part) => part !== '--force',
+    );
+    const format = formatArg ? parseTranscriptFormat(formatArg) : undefined;
+    if (!format) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Missing or unknown format. Usage: /chat export <${TRANSCRIPT_FORMATS.join('|')}> [path] [--force]`,
+      };
+    }
+    const config = context.services.config;
+    const history =
+      config?.getGeminiClient()?.getHistoryService()?.getCurated() ?? [];
+    if (!config || history.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No conversation found to export.',
+      };
+    }
+
+    const target = pathParts.join(' ');
+    const fileName =
+      target ||
+      `llxprt-conversation-${new Date().toISOString().replace(/[:.]/g, '-')}${getTranscriptExtension(format)}`;
+    const filePath = path.resolve(config.getProjectRoot(), fileName);
+    const transcript = renderTranscript(history, format, {
+      provider: config.getProvider(),
+      model: config.getModel(),
+      sessionId: config.getSessionId(),
+    });
+    try {
+      await fsPromises.writeFile(filePath, transcript, {
+        encoding: 'utf-8',
+        flag: force ? 'w' : 'wx',
+      });
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'EEXIST') {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `${filePath} already exists. Add --force to overwrite it.`,
+        };
+      }
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Could not write ${filePath}: ${getErrorMessage(error)}`,
+      };
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Conversation exported to ${filePath}.`,
+    };
+  },
+};
+
+const importCommand: SlashCommand = {
+  name: 'import',
+  description:
+    'Replace the conversation with a JSON transcript. Usage: /chat import <path>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const target = args.trim();
+    if (!target) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing path. Usage: /chat import <path>',
+      };
+    }
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'No configuration available',
+      };
+    }
+
+    const filePath = path.resolve(config.getProjectRoot(), target);
+    let transcript;
+    try {
+      transcript = parseTranscript(
+        await fsPromises.readFile(filePath, 'utf-8'),
+      );
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Could not import ${filePath}: ${getErrorMessage(error)}`,
+      };
+    }
+
+    await config.getGeminiClient().restoreHistory(transcript.history);
+    context.ui.clear();
+    const now = Date.now();
+    for (const item of sessionHistoryToUiItems(transcript.history)) {
+      context.ui.addItem(item, now);
+    }
+    const source = transcript.metadata.model
+      ? ` (${[transcript.metadata.provider, transcript.metadata.model].filter(Boolean).join(':')})`
+      : '';
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Imported ${transcript.history.length} messages from ${filePath}${source}.`,
     };
   },
 };
@@ -334,5 +621,13 @@ export const chatCommand: SlashCommand = {
   name: 'chat',
   description: 'Manage conversation history.',
   kind: CommandKind.BUILT_IN,
-  subCommands: [listCommand, saveCommand, resumeCommand, deleteCommand],
+  subCommands: [
+    listCommand,
+    saveCommand,
+    resumeCommand,
+    deleteCommand,
+    sessionsCommand,
+    exportCommand,
+    importCommand,
+  ],
 };
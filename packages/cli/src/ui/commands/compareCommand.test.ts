@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProviderCompareResult } from '@vybestack/llxprt-code-core';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { CommandContext } from './types.js';
+import { compareCommand, parseCompareArgs } from './compareCommand.js';
+
+const compareProviderResponses = vi.fn();
+
+const mockRuntime = {
+  listProviders: vi.fn(() => ['anthropic', 'openai', 'gemini']),
+  getCliProviderManager: vi.fn(() => ({ compareProviderResponses })),
+};
+
+vi.mock('../contexts/RuntimeContext.js', () => ({
+  getRuntimeApi: () => mockRuntime,
+}));
+
+const doneResult = (provider: string, text: string): ProviderCompareResult => ({
+  provider,
+  model: `${provider}-model`,
+  status: 'done',
+  text,
+  toolCallCount: 0,
+  latencyMs: 10,
+  response: {
+    speaker: 'ai',
+    blocks: [{ type: 'text', text }],
+    metadata: {
+      model: `${provider}-model`,
+      usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+    },
+  },
+});
+
+describe('parseCompareArgs', () => {
+  it('splits leading provider targets from the prompt', () => {
+    expect(
+      parseCompareArgs('openai:gpt-4.1 anthropic explain this: code', [
+        'openai',
+        'anthropic',
+      ]),
+    ).toEqual({
+      targets: [
+        { provider: 'openai', model: 'gpt-4.1' },
+        { provider: 'anthropic' },
+      ],
+      prompt: 'explain this: code',
+    });
+  });
+});
+
+describe('compareCommand', () => {
+  let context: CommandContext;
+  const historyService = {
+    add: vi.fn(),
+    getCuratedForProvider: vi.fn(() => []),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () => ({ getHistoryService: () => historyService }),
+        },
+      },
+    } as unknown as Parameters<typeof createMockCommandContext>[0]);
+  });
+
+  it('shows usage when fewer than two targets are given', async () => {
+    const result = await compareCommand.action!(context, 'openai hello');
+
+    expect(result).toEqual(
+      expect.objectContaining({ type: 'message', messageType: 'error' }),
+    );
+    expect(compareProviderResponses).not.toHaveBeenCalled();
+  });
+
+  it('streams every target and records the comparison', async () => {
+    const results = [doneResult('openai', 'A'), doneResult('anthropic', 'B')];
+    compareProviderResponses.mockImplementation(
+      async (_targets, _contents, { onUpdate }) => {
+        results.forEach((result, index) => onUpdate(index, result));
+        return results;
+      },
+    );
+
+    await compareCommand.action!(context, 'openai anthropic say hi');
+
+    expect(compareProviderResponses).toHaveBeenCalledWith(
+      [{ provider: 'openai' }, { provider: 'anthropic' }],
+      [{ speaker: 'human', blocks: [{ type: 'text', text: 'say hi' }] }],
+      expect.any(Object),
+    );
+    expect(context.ui.setPendingItem).toHaveBeenLastCalledWith(null);
+    expect(context.ui.addItem).toHaveBeenCalledWith(
+      { type: 'compare', prompt: 'say hi', results },
+      expect.any(Number),
+    );
+  });
+
+  it('passes the command abort signal to every column', async () => {
+    const controller = new AbortController();
+    compareProviderResponses.mockResolvedValue([]);
+
+    await compareCommand.action!(
+      { ...context, abortSignal: controller.signal },
+      'openai anthropic say hi',
+    );
+
+    expect(compareProviderResponses).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.any(Array),
+      expect.objectContaining({ signal: controller.signal }),
+    );
+  });
+
+  it('commits the picked answer to history once', async () => {
+    const results = [doneResult('openai', 'A'), doneResult('anthropic', 'B')];
+    compareProviderResponses.mockResolvedValue(results);
+    await compareCommand.action!(context, 'openai anthropic say hi');
+
+    const pick = compareCommand.subCommands!.find(
+      (cmd) => cmd.name === 'pick',
+    )!;
+    const result = await pick.action!(context, '2');
+
+    expect(historyService.add).toHaveBeenCalledTimes(2);
+    expect(historyService.add).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ speaker: 'human' }),
+      'anthropic-model',
+    );
+    expect(historyService.add).toHaveBeenNthCalledWith(
+      2,
+      {
+        speaker: 'ai',
+        blocks: [{ type: 'text', text: 'B' }],
+        metadata: { model: 'anthropic-model' },
+      },
+      'anthropic-model',
+    );
+    expect(result).toEqual(
+      expect.objectContaining({ type: 'message', messageType: 'info' }),
+    );
+
+    const again = await pick.action!(context, '1');
+    expect(again).toEqual(
+      expect.objectContaining({ type: 'message', messageType: 'error' }),
+    );
+    expect(historyService.add).toHaveBeenCalledTimes(2);
+  });
+});
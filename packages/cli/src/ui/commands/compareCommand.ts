@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  formatProviderCompareTarget,
+  parseProviderCompareTarget,
+  type IContent,
+  type ProviderCompareResult,
+  type ProviderCompareTarget,
+} from '@vybestack/llxprt-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import {
+  HistoryItemCompare,
+  HistoryItemGemini,
+  MessageType,
+} from '../types.js';
+import { getRuntimeApi } from '../contexts/RuntimeContext.js';
+import type { CommandArgumentSchema } from './schema/types.js';
+
+interface CompletedComparison {
+  prompt: string;
+  results: ProviderCompareResult[];
+  picked: boolean;
+}
+
+// The most recent comparison, kept until an answer is picked or a new
+// comparison replaces it.
+let lastComparison: CompletedComparison | null = null;
+
+const USAGE =
+  'Usage: /compare <provider[:model]> <provider[:model]> [...] <prompt>\nExample: /compare openai:gpt-4.1 anthropic:claude-sonnet-4 Explain this stack trace';
+
+/**
+ * Splits the arguments into leading provider targets and the prompt that
+ * follows them. A token is a target when its provider part names a
+ * registered provider.
+ */
+export function parseCompareArgs(
+  args: string,
+  knownProviders: string[],
+): { targets: ProviderCompareTarget[]; prompt: string } {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  const targets: ProviderCompareTarget[] = [];
+  let index = 0;
+  for (; index < tokens.length; index++) {
+    const target = parseProviderCompareTarget(tokens[index]);
+    if (!knownProviders.includes(target.provider)) {
+      break;
+    }
+    targets.push(target);
+  }
+  return { targets, prompt: tokens.slice(index).join(' ') };
+}
+
+const pickCommand: SlashCommand = {
+  name: 'pick',
+  description: 'add an answer from the last comparison to the conversation',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    if (!lastComparison) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'No comparison to pick from. Run /compare first.',
+      };
+    }
+    if (lastComparison.picked) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'An answer from the last comparison was already picked.',
+      };
+    }
+
+    const choice = Number.parseInt(args.trim(), 10);
+    const result = lastComparison.results[choice - 1];
+    if (!Number.isInteger(choice) || !result) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Usage: /compare pick <1-${lastComparison.results.length}>`,
+      };
+    }
+    if (result.status !== 'done' || !result.response) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Answer #${choice} (${result.provider}) did not complete and cannot be picked.`,
+      };
+    }
+
+    const historyService = context.services.config
+      ?.getGeminiClient()
+      ?.getHistoryService();
+    if (!historyService) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'No active conversation to add the answer to.',
+      };
+    }
+
+    const userContent: IContent = {
+      speaker: 'human',
+      blocks: [{ type: 'text', text: lastComparison.prompt }],
+      metadata: { timestamp: Date.now() },
+    };
+    // Usage covers the whole request, not just this answer, so it is left
+    // out to keep history token counts accurate.
+    const { usage: _usage, ...responseMetadata } =
+      result.response.metadata ?? {};
+    historyService.add(userContent, result.model);
+    historyService.add(
+      { ...result.response, metadata: responseMetadata },
+      result.model,
+    );
+    lastComparison.picked = true;
+
+    context.ui.addItem(
+      { type: MessageType.USER, text: lastComparison.prompt },
+      Date.now(),
+    );
+    context.ui.addItem(
+      {
+        type: 'gemini',
+        text: result.text,
+        model: result.model,
+      } as HistoryItemGemini,
+      Date.now(),
+    );
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Added answer #${choice} from ${formatProviderCompareTarget(result)} to the conversation.`,
+    };
+  },
+};
+
+const compareSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'target',
+    description: 'provider[:model] to compare',
+    completer: async (_ctx, partial) =>
+      getRuntimeApi()
+        .listProviders()
+        .filter((name) => name.startsWith(partial))
+        .map((name) => ({ value: name, description: `provider: ${name}` })),
+  },
+];
+
+export const compareCommand: SlashCommand = {
+  name: 'compare',
+  description:
+    'send the conversation and a prompt to several providers side by side',
+  kind: CommandKind.BUILT_IN,
+  schema: compareSchema,
+  subCommands: [pickCommand],
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn | void> => {
+    const { ui } = context;
+    if (ui.pendingItem) {
+      ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: 'Another operation is in progress, wait for it to complete',
+        },
+        Date.now(),
+      );
+      return;
+    }
+
+    const runtime = getRuntimeApi();
+    const { targets, prompt } = parseCompareArgs(args, runtime.listProviders());
+    if (targets.length < 2 || !prompt) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: USAGE,
+      };
+    }
+
+    const historyService = context.services.config
+      ?.getGeminiClient()
+      ?.getHistoryService();
+    const contents: IContent[] = [
+      ...(historyService?.getCuratedForProvider() ?? []),
+      { speaker: 'human', blocks: [{ type: 'text', text: prompt }] },
+    ];
+
+    const results: ProviderCompareResult[] = targets.map((target) => ({
+      provider: target.provider,
+      model: target.model ?? '',
+      status: 'pending',
+      text: '',
+      toolCallCount: 0,
+    }));
+    const render = (): HistoryItemCompare => ({
+      type: 'compare',
+      prompt,
+      results: [...results],
+    });
+
+    try {
+      ui.setPendingItem(render());
+      const finalResults = await runtime
+        .getCliProviderManager()
+        .compareProviderResponses(targets, contents, {
+          signal: context.abortSignal,
+          onUpdate: (index, result) => {
+            results[index] = result;
+            ui.setPendingItem(render());
+          },
+        });
+      lastComparison = { prompt, results: finalResults, picked: false };
+      ui.addItem(
+        {
+          type: 'compare',
+          prompt,
+          results: finalResults,
+        } as HistoryItemCompare,
+        Date.now(),
+      );
+    } catch (error) {
+      ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: `Failed to compare providers: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+        Date.now(),
+      );
+    } finally {
+      ui.setPendingItem(null);
+    }
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GeminiClient, IContent } from '@vybestack/llxprt-code-core';
+import { editCommand } from './editCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { appEvents, AppEvent } from '../../utils/events.js';
+
+const history: IContent[] = [
+  { speaker: 'human', blocks: [{ type: 'text', text: 'fix the tpyo' }] },
+  { speaker: 'ai', blocks: [{ type: 'text', text: 'Which one?' }] },
+  { speaker: 'human', blocks: [{ type: 'text', text: 'in README' }] },
+];
+
+describe('editCommand', () => {
+  let context: CommandContext;
+  let onEditPrompt: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    onEditPrompt = vi.fn();
+    appEvents.on(AppEvent.EditPrompt, onEditPrompt);
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () =>
+            ({
+              getHistoryService: () => ({ getAll: () => history }),
+            }) as unknown as GeminiClient,
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    appEvents.off(AppEvent.EditPrompt, onEditPrompt);
+  });
+
+  it('edits the last prompt by default', async () => {
+    const result = await editCommand.action?.(context, '');
+
+    expect(onEditPrompt).toHaveBeenCalledWith({
+      turn: 2,
+      historyIndex: 2,
+      text: 'in README',
+      keepBranch: true,
+    });
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: expect.stringContaining('Editing prompt 2.'),
+    });
+  });
+
+  it('edits a numbered prompt and can discard the replaced turns', async () => {
+    await editCommand.action?.(context, '1 --discard');
+
+    expect(onEditPrompt).toHaveBeenCalledWith({
+      turn: 1,
+      historyIndex: 0,
+      text: 'fix the tpyo',
+      keepBranch: false,
+    });
+  });
+
+  it('rejects prompt numbers that do not exist', async () => {
+    const result = await editCommand.action?.(context, '5');
+
+    expect(onEditPrompt).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'There is no prompt number 5. This conversation has 2 prompts.',
+    });
+  });
+
+  it('cancels a pending edit', async () => {
+    const result = await editCommand.action?.(context, 'cancel');
+
+    expect(onEditPrompt).toHaveBeenCalledWith(null);
+    expect(result).toMatchObject({ content: 'Prompt edit cancelled.' });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { type CommandArgumentSchema } from './schema/types.js';
+import { appEvents, AppEvent } from '../../utils/events.js';
+import {
+  listConversationPrompts,
+  type PromptEditRequest,
+} from '../utils/promptRewind.js';
+
+const usage = 'Usage: /edit [turn] [--discard] | /edit cancel';
+
+const getPrompts = (context: CommandContext) => {
+  const historyService = context.services.config
+    ?.getGeminiClient()
+    ?.getHistoryService();
+  return historyService ? listConversationPrompts(historyService.getAll()) : [];
+};
+
+const preview = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 60 ? `${line.slice(0, 57)}...` : line;
+};
+
+const editSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'turn',
+    description: 'Select prompt to edit',
+    completer: async (ctx, partialArg) =>
+      [
+        ...getPrompts(ctx)
+          .reverse()
+          .map((prompt) => ({
+            value: String(prompt.turn),
+            description: preview(prompt.text),
+          })),
+        { value: 'cancel', description: 'Stop editing and keep the prompt' },
+      ].filter((option) => option.value.startsWith(partialArg)),
+  },
+];
+
+export const editCommand: SlashCommand = {
+  name: 'edit',
+  description:
+    'Edit an earlier prompt and resend it, rewinding the conversation and checkpointed files',
+  kind: CommandKind.BUILT_IN,
+  schema: editSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const tokens = args.trim().split(/\s+/).filter(Boolean);
+
+    if (tokens[0] === 'cancel') {
+      appEvents.emit(AppEvent.EditPrompt, null);
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'Prompt edit cancelled.',
+      };
+    }
+
+    const keepBranch = !tokens.includes('--discard');
+    const turnArgs = tokens.filter((token) => token !== '--discard');
+    if (
+      turnArgs.length > 1 ||
+      (turnArgs.length === 1 && !/^\d+$/.test(turnArgs[0]))
+    ) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: usage,
+      };
+    }
+
+    const prompts = getPrompts(context);
+    if (prompts.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'There are no prompts to edit yet.',
+      };
+    }
+    const prompt =
+      turnArgs.length === 1
+        ? prompts.find((candidate) => candidate.turn === Number(turnArgs[0]))
+        : prompts[prompts.length - 1];
+    if (!prompt) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `There is no prompt number ${turnArgs[0]}. This conversation has ${prompts.length} prompts.`,
+      };
+    }
+
+    const request: PromptEditRequest = { ...prompt, keepBranch };
+    appEvents.emit(AppEvent.EditPrompt, request);
+
+    const fate = keepBranch
+      ? 'kept on the current branch (see /branch)'
+      : 'discarded';
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Editing prompt ${prompt.turn}. Change it and press Enter to resend it. The conversation from that prompt on will be ${fate}, and checkpointed file changes are rolled back. Use /edit cancel to stop.`,
+    };
+  },
+};
@@ -72,6 +72,7 @@ describe('mcpCommand', () => {
     getMcpServers: ReturnType<typeof vi.fn>;
     getBlockedMcpServers: ReturnType<typeof vi.fn>;
     getPromptRegistry: ReturnType<typeof vi.fn>;
+    getResourceRegistry: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -98,6 +99,10 @@ describe('mcpCommand', () => {
         getAllPrompts: vi.fn().mockReturnValue([]),
         getPromptsByServer: vi.fn().mockReturnValue([]),
       }),
+      getResourceRegistry: vi.fn().mockReturnValue({
+        getResourcesByServer: vi.fn().mockReturnValue([]),
+        getResourceTemplatesByServer: vi.fn().mockReturnValue([]),
+      }),
       getGeminiClient: vi.fn().mockReturnValue(null),
     };
 
@@ -395,6 +400,47 @@ describe('mcpCommand', () => {
       }
     });
 
+    it('should list the resources of a server', async () => {
+      mockConfig.getMcpServers = vi
+        .fn()
+        .mockReturnValue({ docs: { command: 'docs-server' } });
+      mockConfig.getResourceRegistry = vi.fn().mockReturnValue({
+        getResourcesByServer: vi.fn().mockReturnValue([
+          {
+            uri: 'docs://api.md',
+            name: 'API',
+            description: 'API reference',
+          },
+        ]),
+        getResourceTemplatesByServer: vi
+          .fn()
+          .mockReturnValue([{ uriTemplate: 'db://schema/{table}', name: 't' }]),
+      });
+
+      const testContext = createMockCommandContext({
+        services: {
+          config: mockConfig,
+        },
+      });
+
+      const result = await mcpCommand.action!(testContext, 'desc');
+
+      expect(isMessageAction(result)).toBe(true);
+      if (isMessageAction(result)) {
+        const message = result.content;
+        expect(message).toContain(
+          '[READY] \u001b[1mdocs\u001b[0m - Ready (2 resources)',
+        );
+        expect(message).toContain(
+          '  - \u001b[36mdocs://api.md\u001b[0m:\n      \u001b[32mAPI reference',
+        );
+        expect(message).toContain(
+          '  - \u001b[36mdb://schema/{table}\u001b[0m\n',
+        );
+        expect(message).toContain('No tools available');
+      }
+    });
+
     it('should indicate when a server has no tools', async () => {
       const mockMcpServers = {
         server1: { command: 'cmd1' },
@@ -440,7 +486,7 @@ describe('mcpCommand', () => {
         expect(message).toContain(
           '[DISCONNECTED] \u001b[1mserver2\u001b[0m - Disconnected (0 tools cached)',
         );
-        expect(message).toContain('No tools or prompts available');
+        expect(message).toContain('No tools, prompts or resources available');
       }
     });
 
@@ -1168,6 +1214,10 @@ describe('mcpCommand', () => {
             getPromptRegistry: vi.fn().mockResolvedValue({
               getPromptsByServer: vi.fn().mockReturnValue([]),
             }),
+            getResourceRegistry: vi.fn().mockReturnValue({
+              getResourcesByServer: vi.fn().mockReturnValue([]),
+              getResourceTemplatesByServer: vi.fn().mockReturnValue([]),
+            }),
           },
         },
       });
@@ -131,9 +131,17 @@ const getMcpStatus = async (
     }) as DiscoveredMCPTool[];
     const promptRegistry = await config.getPromptRegistry();
     const serverPrompts = promptRegistry.getPromptsByServer(serverName) || [];
+    const resourceRegistry = config.getResourceRegistry();
+    const serverResources = [
+      ...resourceRegistry.getResourcesByServer(serverName),
+      ...resourceRegistry.getResourceTemplatesByServer(serverName),
+    ];
 
     const originalStatus = getMCPServerStatus(serverName);
-    const hasCachedItems = serverTools.length > 0 || serverPrompts.length > 0;
+    const hasCachedItems =
+      serverTools.length > 0 ||
+      serverPrompts.length > 0 ||
+      serverResources.length > 0;
 
     // If the server is "disconnected" but has prompts or cached tools, display it as Ready
     // by using CONNECTED as the display status.
@@ -211,6 +219,13 @@ const getMcpStatus = async (
           }`,
         );
       }
+      if (serverResources.length > 0) {
+        parts.push(
+          `${serverResources.length} ${
+            serverResources.length === 1 ? 'resource' : 'resources'
+          }`,
+        );
+      }
       if (parts.length > 0) {
         message += ` (${parts.join(', ')})`;
       } else {
@@ -304,8 +319,31 @@ const getMcpStatus = async (
       });
     }
 
-    if (serverTools.length === 0 && serverPrompts.length === 0) {
-      message += '  No tools or prompts available\n';
+    if (serverResources.length > 0) {
+      if (serverTools.length > 0 || serverPrompts.length > 0) {
+        message += '\n';
+      }
+      message += `  ${COLOR_CYAN}Resources:${RESET_COLOR}\n`;
+      serverResources.forEach((resource) => {
+        const uri = 'uri' in resource ? resource.uri : resource.uriTemplate;
+        message += `  - ${COLOR_CYAN}${uri}${RESET_COLOR}`;
+        if (showDescriptions && resource.description) {
+          message += ':\n';
+          for (const descLine of resource.description.trim().split('\n')) {
+            message += `      ${COLOR_GREEN}${descLine}${RESET_COLOR}\n`;
+          }
+        } else {
+          message += '\n';
+        }
+      });
+    }
+
+    if (
+      serverTools.length === 0 &&
+      serverPrompts.length === 0 &&
+      serverResources.length === 0
+    ) {
+      message += '  No tools, prompts or resources available\n';
     } else if (serverTools.length === 0) {
       message += '  No tools available';
       if (originalStatus === MCPServerStatus.DISCONNECTED && needsAuthHint) {
@@ -338,6 +376,7 @@ const getMcpStatus = async (
     message += `  • Use ${COLOR_CYAN}/mcp schema${RESET_COLOR} to show tool parameter schemas\n`;
     message += `  • Use ${COLOR_CYAN}/mcp nodesc${RESET_COLOR} to hide descriptions\n`;
     message += `  • Use ${COLOR_CYAN}/mcp auth <server-name>${RESET_COLOR} to authenticate with OAuth-enabled servers\n`;
+    message += `  • Type ${COLOR_CYAN}@server:uri${RESET_COLOR} to add an MCP resource to your prompt\n`;
     message += `  • Press ${COLOR_CYAN}Ctrl+T${RESET_COLOR} to toggle tool descriptions on/off\n`;
     message += '\n';
   }
@@ -11,8 +11,57 @@ import {
   MessageActionReturn,
   CommandKind,
 } from './types.js';
+import { MessageType } from '../types.js';
 import { getRuntimeApi } from '../contexts/RuntimeContext.js';
 
+async function pullModel(
+  context: CommandContext,
+  modelName: string,
+): Promise<MessageActionReturn> {
+  if (!modelName) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: 'Usage: /model pull <model>',
+    };
+  }
+
+  const { ui } = context;
+  ui.setPendingItem({
+    type: MessageType.INFO,
+    text: `Pulling ${modelName}...`,
+  });
+  try {
+    const runtime = getRuntimeApi();
+    const providerName = await runtime.pullActiveProviderModel(
+      modelName,
+      (progress) => {
+        const percent =
+          progress.total && progress.completed !== undefined
+            ? ` ${Math.floor((progress.completed / progress.total) * 100)}%`
+            : '';
+        ui.setPendingItem({
+          type: MessageType.INFO,
+          text: `Pulling ${modelName}: ${progress.status}${percent}`,
+        });
+      },
+    );
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Pulled ${modelName} into provider '${providerName}'. Use /model ${modelName} to switch to it.`,
+    };
+  } catch (error) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: `Failed to pull model: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  } finally {
+    ui.setPendingItem(null);
+  }
+}
+
 export const modelCommand: SlashCommand = {
   name: 'model',
   description: 'select or switch model',
@@ -31,6 +80,11 @@ export const modelCommand: SlashCommand = {
       };
     }
 
+    const [subcommand, ...rest] = modelName.split(/\s+/);
+    if (subcommand === 'pull') {
+      return pullModel(context, rest.join(' '));
+    }
+
     // Switch model in provider
     try {
       const runtime = getRuntimeApi();
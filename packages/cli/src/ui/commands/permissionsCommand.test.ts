@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ToolApprovalStore } from '@vybestack/llxprt-code-core';
+import { permissionsCommand } from './permissionsCommand.js';
+import { type CommandContext, type SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+const subCommand = (name: string): SlashCommand =>
+  permissionsCommand.subCommands!.find((command) => command.name === name)!;
+
+describe('permissionsCommand', () => {
+  let tempDir: string;
+  let store: ToolApprovalStore;
+  let trusted: boolean;
+  let context: CommandContext;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permissions-command-'));
+    trusted = true;
+    store = new ToolApprovalStore(
+      path.join(tempDir, 'tool_approvals.json'),
+      '/work/project',
+      () => trusted,
+    );
+    store.save({ type: 'shell', target: 'npm' }, 'project');
+    store.save({ type: 'mcpTool', target: 'github.create_issue' }, 'user');
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getToolApprovals: () => store,
+          isTrustedFolder: () => trusted,
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists saved approvals with their scope', async () => {
+    const result = await permissionsCommand.action?.(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Saved tool approvals:\n' +
+        '  1. Shell command npm (this project)\n' +
+        '  2. MCP tool github.create_issue (all projects)',
+    });
+  });
+
+  it('notes that approvals are unused in an untrusted folder', async () => {
+    trusted = false;
+
+    const result = await subCommand('list').action?.(context, '');
+
+    expect(result).toMatchObject({
+      content: expect.stringContaining('this folder is not trusted'),
+    });
+  });
+
+  it('revokes an approval by number', async () => {
+    const result = await subCommand('revoke').action?.(context, '2');
+
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: 'Revoked MCP tool github.create_issue (all projects).',
+    });
+    expect(store.list().map(({ target }) => target)).toEqual(['npm']);
+  });
+
+  it('revokes every approval', async () => {
+    await subCommand('revoke').action?.(context, 'all');
+
+    expect(store.list()).toEqual([]);
+  });
+
+  it.each(['', 'npm', '3'])('rejects revoke %j', async (args) => {
+    const result = await subCommand('revoke').action?.(context, args);
+
+    expect(result).toMatchObject({ messageType: 'error' });
+    expect(store.list()).toHaveLength(2);
+  });
+});
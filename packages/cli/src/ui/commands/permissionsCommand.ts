@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SavedToolApproval } from '@vybestack/llxprt-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { type CommandArgumentSchema } from './schema/types.js';
+
+const revokeUsage = 'Usage: /permissions revoke <number|all>';
+
+const APPROVAL_TYPE_LABELS: Record<SavedToolApproval['type'], string> = {
+  shell: 'Shell command',
+  mcpServer: 'MCP server',
+  mcpTool: 'MCP tool',
+};
+
+const describeApproval = (approval: SavedToolApproval): string =>
+  `${APPROVAL_TYPE_LABELS[approval.type]} ${approval.target} (${
+    approval.scope === 'project' ? 'this project' : 'all projects'
+  })`;
+
+const error = (content: string): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content,
+});
+
+const info = (content: string): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'info',
+  content,
+});
+
+const getApprovals = (context: CommandContext) =>
+  context.services.config?.getToolApprovals();
+
+const listApprovals = (context: CommandContext): MessageActionReturn => {
+  const approvals = getApprovals(context);
+  if (!approvals) {
+    return error('Tool approvals are not available.');
+  }
+  const saved = approvals.list();
+  if (saved.length === 0) {
+    return info(
+      'No saved tool approvals. Press \'s\' in a confirmation to save an "allow always" answer.',
+    );
+  }
+  const lines = saved.map(
+    (approval, index) => `  ${index + 1}. ${describeApproval(approval)}`,
+  );
+  const untrusted = context.services.config?.isTrustedFolder()
+    ? ''
+    : '\nThey are not used because this folder is not trusted.';
+  return info(`Saved tool approvals:\n${lines.join('\n')}${untrusted}`);
+};
+
+const revokeSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'approval',
+    description: 'Select approval to revoke',
+    completer: async (ctx, partialArg) =>
+      [
+        { value: 'all', description: 'Revoke every saved approval' },
+        ...(getApprovals(ctx)
+          ?.list()
+          .map((approval, index) => ({
+            value: String(index + 1),
+            description: describeApproval(approval),
+          })) ?? []),
+      ].filter((option) => option.value.startsWith(partialArg)),
+  },
+];
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'Show the saved "allow always" approvals',
+  kind: CommandKind.BUILT_IN,
+  action: async (context) => listApprovals(context),
+};
+
+const revokeCommand: SlashCommand = {
+  name: 'revoke',
+  description:
+    'Revoke a saved approval, or all of them with /permissions revoke all',
+  kind: CommandKind.BUILT_IN,
+  schema: revokeSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const approvals = getApprovals(context);
+    if (!approvals) {
+      return error('Tool approvals are not available.');
+    }
+    const arg = args.trim();
+    const saved = approvals.list();
+    if (arg === 'all') {
+      for (const approval of saved) {
+        approvals.revoke(approval, approval.scope);
+      }
+      return info(`Revoked ${saved.length} approvals.`);
+    }
+    if (!/^\d+$/.test(arg)) {
+      return error(revokeUsage);
+    }
+    const approval = saved[Number(arg) - 1];
+    if (!approval) {
+      return error(
+        `There is no approval number ${arg}. There are ${saved.length} saved approvals.`,
+      );
+    }
+    approvals.revoke(approval, approval.scope);
+    return info(`Revoked ${describeApproval(approval)}.`);
+  },
+};
+
+export const permissionsCommand: SlashCommand = {
+  name: 'permissions',
+  description: 'Review and revoke saved tool approvals',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [listCommand, revokeCommand],
+  action: async (context) => listApprovals(context),
+};
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GeminiClient, IContent } from '@vybestack/llxprt-code-core';
+import { pinCommand, unpinCommand } from './pinCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+const message = (speaker: IContent['speaker'], text: string): IContent => ({
+  speaker,
+  blocks: [{ type: 'text', text }],
+});
+
+/** Keeps pins in metadata like HistoryService does */
+const createHistoryService = (history: IContent[]) => ({
+  getAll: () => history,
+  getPinnedIndexes: () =>
+    history.flatMap((content, index) =>
+      content.metadata?.pinned ? [index] : [],
+    ),
+  setPinned: (index: number, pinned: boolean) => {
+    history[index] = {
+      ...history[index],
+      metadata: pinned ? { pinned: true } : {},
+    };
+  },
+});
+
+describe('pinCommand', () => {
+  let historyService: ReturnType<typeof createHistoryService>;
+  let context: CommandContext;
+
+  beforeEach(() => {
+    historyService = createHistoryService([
+      message('human', 'Build the parser exactly as specified'),
+      message('ai', 'Agreed design: recursive descent'),
+      message('human', 'go'),
+    ]);
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () =>
+            ({
+              getHistoryService: () => historyService,
+            }) as unknown as GeminiClient,
+        },
+      },
+    });
+  });
+
+  it('pins the latest response by default', async () => {
+    const result = await pinCommand.action?.(context, '');
+
+    expect(historyService.getPinnedIndexes()).toEqual([1]);
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: 'Pinned message 2 (Model: Agreed design: recursive descent).',
+    });
+  });
+
+  it('pins numbered messages and lists them', async () => {
+    await pinCommand.action?.(context, '1');
+    const result = await pinCommand.action?.(context, 'list');
+
+    expect(result).toMatchObject({
+      content:
+        'Pinned messages (kept verbatim by compression):\n  1. You: Build the parser exactly as specified',
+    });
+  });
+
+  it('toggles the latest response', async () => {
+    await pinCommand.action?.(context, 'toggle');
+    expect(historyService.getPinnedIndexes()).toEqual([1]);
+
+    const result = await pinCommand.action?.(context, 'toggle');
+    expect(historyService.getPinnedIndexes()).toEqual([]);
+    expect(result).toMatchObject({
+      content: expect.stringMatching(/^Unpinned/),
+    });
+  });
+
+  it('rejects unknown arguments and missing messages', async () => {
+    expect(await pinCommand.action?.(context, 'first')).toMatchObject({
+      messageType: 'error',
+      content: 'Usage: /pin [message|last|list|toggle]',
+    });
+    expect(await pinCommand.action?.(context, '9')).toMatchObject({
+      messageType: 'error',
+      content:
+        'There is no message number 9. This conversation has 3 messages.',
+    });
+  });
+
+  it('unpins one or all messages', async () => {
+    historyService.setPinned(0, true);
+    historyService.setPinned(1, true);
+
+    await unpinCommand.action?.(context, '1');
+    expect(historyService.getPinnedIndexes()).toEqual([1]);
+    expect(await unpinCommand.action?.(context, '3')).toMatchObject({
+      content: 'Message 3 is not pinned.',
+    });
+
+    const result = await unpinCommand.action?.(context, 'all');
+    expect(historyService.getPinnedIndexes()).toEqual([]);
+    expect(result).toMatchObject({ content: 'Unpinned 1 messages.' });
+  });
+});
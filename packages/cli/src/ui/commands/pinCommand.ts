@@ -0,0 +1,230 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IContent } from '@vybestack/llxprt-code-core';
+import {
+  CommandContext,
+  CommandKind,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { type CommandArgumentSchema } from './schema/types.js';
+
+const pinUsage = 'Usage: /pin [message|last|list|toggle]';
+const unpinUsage = 'Usage: /unpin [message|last|all]';
+
+const getHistoryService = (context: CommandContext) =>
+  context.services.config?.getGeminiClient()?.getHistoryService();
+
+const describeContent = (content: IContent): string => {
+  const text = content.blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'tool_call':
+          return `${block.name}(${JSON.stringify(block.parameters)})`;
+        case 'tool_response':
+          return typeof block.result === 'string'
+            ? block.result
+            : JSON.stringify(block.result);
+        default:
+          return '';
+      }
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const speaker =
+    content.speaker === 'human'
+      ? 'You'
+      : content.speaker === 'ai'
+        ? 'Model'
+        : 'Tool';
+  const preview = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  return `${speaker}: ${preview}`;
+};
+
+/** Position of the latest model response on the active branch, or -1 */
+const findLatestResponse = (history: IContent[]): number => {
+  for (let index = history.length - 1; index >= 0; index--) {
+    const content = history[index];
+    if (
+      content.speaker === 'ai' &&
+      content.blocks.some((block) => block.type === 'text' && block.text)
+    ) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+const isMessageArg = (arg: string): boolean =>
+  arg === '' || arg === 'last' || /^\d+$/.test(arg);
+
+const messageOptions = (
+  context: CommandContext,
+  partialArg: string,
+  pinned: boolean,
+) =>
+  (getHistoryService(context)?.getAll() ?? [])
+    .map((content, index) => ({ content, index }))
+    .filter(({ content }) => (content.metadata?.pinned === true) === pinned)
+    .reverse()
+    .map(({ content, index }) => ({
+      value: String(index + 1),
+      description: describeContent(content),
+    }))
+    .filter((option) => option.value.startsWith(partialArg));
+
+const pinSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'message',
+    description: 'Select message to pin',
+    completer: async (ctx, partialArg) => [
+      ...[
+        { value: 'last', description: 'Pin the latest response' },
+        { value: 'list', description: 'Show the pinned messages' },
+        { value: 'toggle', description: 'Pin or unpin the latest response' },
+      ].filter((option) => option.value.startsWith(partialArg)),
+      ...messageOptions(ctx, partialArg, false),
+    ],
+  },
+];
+
+const unpinSchema: CommandArgumentSchema = [
+  {
+    kind: 'value',
+    name: 'message',
+    description: 'Select message to unpin',
+    completer: async (ctx, partialArg) => [
+      ...[
+        { value: 'last', description: 'Unpin the latest response' },
+        { value: 'all', description: 'Unpin every message' },
+      ].filter((option) => option.value.startsWith(partialArg)),
+      ...messageOptions(ctx, partialArg, true),
+    ],
+  },
+];
+
+const error = (content: string): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'error',
+  content,
+});
+
+const info = (content: string): MessageActionReturn => ({
+  type: 'message',
+  messageType: 'info',
+  content,
+});
+
+/**
+ * Resolves a message number, '' or 'last' to its position on the active
+ * branch. Returns an error message when there is no such message.
+ */
+const resolveMessage = (
+  history: IContent[],
+  arg: string,
+): number | MessageActionReturn => {
+  if (arg === '' || arg === 'last') {
+    const index = findLatestResponse(history);
+    return index === -1 ? error('There is no response yet.') : index;
+  }
+  const index = Number(arg) - 1;
+  if (index < 0 || index >= history.length) {
+    return error(
+      `There is no message number ${arg}. This conversation has ${history.length} messages.`,
+    );
+  }
+  return index;
+};
+
+const listPinned = (history: IContent[]): MessageActionReturn => {
+  const pinned = history
+    .map((content, index) => ({ content, index }))
+    .filter(({ content }) => content.metadata?.pinned);
+  if (pinned.length === 0) {
+    return info(
+      'No pinned messages. Use /pin <message> to keep a message through compression.',
+    );
+  }
+  const lines = pinned.map(
+    ({ content, index }) => `  ${index + 1}. ${describeContent(content)}`,
+  );
+  return info(
+    `Pinned messages (kept verbatim by compression):\n${lines.join('\n')}`,
+  );
+};
+
+export const pinCommand: SlashCommand = {
+  name: 'pin',
+  description:
+    'Pin a message so compression keeps it verbatim. Defaults to the latest response',
+  kind: CommandKind.BUILT_IN,
+  schema: pinSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const historyService = getHistoryService(context);
+    if (!historyService) {
+      return error('No conversation to pin messages in.');
+    }
+    const arg = args.trim();
+    const history = historyService.getAll();
+    if (arg === 'list') {
+      return listPinned(history);
+    }
+
+    const toggle = arg === 'toggle';
+    if (!toggle && !isMessageArg(arg)) {
+      return error(pinUsage);
+    }
+    const index = resolveMessage(history, toggle ? 'last' : arg);
+    if (typeof index !== 'number') {
+      return index;
+    }
+    const pin = !(toggle && history[index].metadata?.pinned);
+    historyService.setPinned(index, pin);
+    return info(
+      `${pin ? 'Pinned' : 'Unpinned'} message ${index + 1} (${describeContent(history[index])}).`,
+    );
+  },
+};
+
+export const unpinCommand: SlashCommand = {
+  name: 'unpin',
+  description: 'Unpin a pinned message, or all of them with /unpin all',
+  kind: CommandKind.BUILT_IN,
+  schema: unpinSchema,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const historyService = getHistoryService(context);
+    if (!historyService) {
+      return error('No conversation to unpin messages in.');
+    }
+    const arg = args.trim();
+    if (arg === 'all') {
+      const pinned = historyService.getPinnedIndexes();
+      for (const index of pinned) {
+        historyService.setPinned(index, false);
+      }
+      return info(`Unpinned ${pinned.length} messages.`);
+    }
+
+    if (!isMessageArg(arg)) {
+      return error(unpinUsage);
+    }
+    const history = historyService.getAll();
+    const index = resolveMessage(history, arg);
+    if (typeof index !== 'number') {
+      return index;
+    }
+    if (!history[index].metadata?.pinned) {
+      return info(`Message ${index + 1} is not pinned.`);
+    }
+    historyService.setPinned(index, false);
+    return info(`Unpinned message ${index + 1}.`);
+  },
+};
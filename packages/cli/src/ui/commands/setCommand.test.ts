@@ -15,6 +15,7 @@ const mockRuntime = {
   setEphemeralSetting: vi.fn(),
   setActiveModelParam: vi.fn(),
   clearActiveModelParam: vi.fn(),
+  listProviders: vi.fn(() => ['anthropic', 'openai', 'llama-cpp']),
 };
 
 vi.mock('../contexts/RuntimeContext.js', () => ({
@@ -82,7 +83,76 @@ describe('setCommand runtime integration', () => {
       type: 'message',
       messageType: 'error',
       content:
-        'Invalid setting key: invalid-key. Valid keys are: context-limit, compression-threshold, base-url, tool-format, api-version, custom-headers, stream-options, streaming, shell-replacement, socket-timeout, socket-keepalive, socket-nodelay, tool-output-max-items, tool-output-max-tokens, tool-output-truncate-mode, tool-output-item-size-limit, max-prompt-tokens, emojifilter, retries, retrywait, maxTurnsPerPrompt',
+        'Invalid setting key: invalid-key. Valid keys are: context-limit, compression-threshold, compression-strategy, compression-provider, compression-model, base-url, tool-format, api-version, custom-headers, stream-options, streaming, shell-replacement, socket-timeout, socket-keepalive, socket-nodelay, tool-output-max-items, tool-output-max-tokens, tool-output-truncate-mode, tool-output-item-size-limit, max-prompt-tokens, emojifilter, retries, retrywait, maxTurnsPerPrompt, provider-failover, budget-soft-limit, budget-hard-limit, auth-mode, azure-deployment, sigv4-region, sigv4-service, loop-intervention, loop-fallback-model',
+    });
+  });
+
+  it('normalizes provider failover chains to provider entries', async () => {
+    const result = await setCommand.action!(
+      context,
+      'provider-failover openai:gpt-4.1,llama-cpp',
+    );
+
+    expect(mockRuntime.setEphemeralSetting).toHaveBeenCalledWith(
+      'provider-failover',
+      ['openai:gpt-4.1', 'llama-cpp'],
+    );
+    expect(result).toEqual(
+      expect.objectContaining({ type: 'message', messageType: 'info' }),
+    );
+  });
+
+  it('rejects provider failover chains with unknown providers', async () => {
+    const result = await setCommand.action!(
+      context,
+      'provider-failover openai,nope',
+    );
+
+    expect(mockRuntime.setEphemeralSetting).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Unknown provider(s) in provider-failover: nope. Available providers: anthropic, openai, llama-cpp',
+    });
+  });
+
+  it('normalizes auth modes and rejects unknown ones', async () => {
+    await setCommand.action!(context, 'auth-mode Azure');
+    expect(mockRuntime.setEphemeralSetting).toHaveBeenCalledWith(
+      'auth-mode',
+      'azure',
+    );
+
+    mockRuntime.setEphemeralSetting.mockClear();
+    const result = await setCommand.action!(context, 'auth-mode kerberos');
+    expect(mockRuntime.setEphemeralSetting).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        "Invalid auth mode 'kerberos'. Valid modes are: bearer, azure, sigv4",
+    });
+  });
+
+  it('normalizes compression strategies and rejects unknown ones', async () => {
+    await setCommand.action!(context, 'compression-strategy Stub-Tool-Outputs');
+    expect(mockRuntime.setEphemeralSetting).toHaveBeenCalledWith(
+      'compression-strategy',
+      'stub-tool-outputs',
+    );
+
+    mockRuntime.setEphemeralSetting.mockClear();
+    const result = await setCommand.action!(
+      context,
+      'compression-strategy forget-everything',
+    );
+    expect(mockRuntime.setEphemeralSetting).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        "Invalid compression strategy 'forget-everything'. Valid strategies are: summarize, stub-tool-outputs, todo-hierarchical",
     });
   });
 
@@ -10,7 +10,14 @@ import {
   MessageActionReturn,
   CommandKind,
 } from './types.js';
-import { EmojiFilterMode } from '@vybestack/llxprt-code-core';
+import {
+  EmojiFilterMode,
+  listAuthStrategies,
+  listCompressionStrategies,
+  LOOP_INTERVENTION_MODES,
+  LoopInterventionMode,
+  parseProviderFailoverChain,
+} from '@vybestack/llxprt-code-core';
 import type {
   CommandArgumentSchema,
   LiteralArgument,
@@ -32,9 +39,15 @@ const ephemeralSettingHelp: Record<string, string> = {
     'Maximum number of tokens for the context window (e.g., 100000)',
   'compression-threshold':
     'Fraction of context limit that triggers compression (0.0-1.0, e.g., 0.7 for 70%)',
+  'compression-strategy':
+    'How history is compressed: summarize (default), stub-tool-outputs, or todo-hierarchical',
+  'compression-provider':
+    'Provider used only for compression summaries (default: the active provider)',
+  'compression-model':
+    'Model used only for compression summaries (default: the active model)',
   'base-url': 'Base URL for API requests',
   'tool-format': 'Tool format override for the provider',
-  'api-version': 'API version to use',
+  'api-version': 'API version to use (Azure OpenAI: default 2024-10-21)',
   'custom-headers': 'Custom HTTP headers as JSON object',
   'stream-options':
     'Stream options for OpenAI API (default: { include_usage: true })',
@@ -70,6 +83,25 @@ const ephemeralSettingHelp: Record<string, string> = {
   // Loop prevention settings
   maxTurnsPerPrompt:
     'Maximum number of turns allowed per prompt before stopping (default: 100, -1 for unlimited)',
+  // Provider failover
+  'provider-failover':
+    'Ordered providers to retry on after quota, auth or network errors (e.g., openai,llama-cpp or anthropic:claude-sonnet-4)',
+  // Budget limits
+  'budget-soft-limit':
+    'Session cost in USD at which to warn (e.g., 5 for $5.00)',
+  'budget-hard-limit':
+    'Session cost in USD at which further requests are refused (e.g., 20)',
+  // Request auth strategies
+  'auth-mode':
+    'How credentials are attached to requests: bearer (default), azure, or sigv4',
+  'azure-deployment': 'Azure OpenAI deployment name (default: the model name)',
+  'sigv4-region': 'AWS region for SigV4 signing (default: AWS_REGION)',
+  'sigv4-service': 'AWS service name for SigV4 signing (default: bedrock)',
+  // Loop detection
+  'loop-intervention':
+    'What to do when tool calls go in circles: reflect (default), pause, switch-model, or off',
+  'loop-fallback-model':
+    'Model to switch to when loop-intervention is switch-model (e.g., gpt-4.1)',
 };
 
 /**
@@ -130,6 +162,13 @@ const truncateModeOptions = [
   { value: 'sample', description: 'sample' },
 ];
 
+const loopInterventionOptions = [
+  { value: 'reflect', description: 'Ask the model to step back and rethink' },
+  { value: 'pause', description: 'Stop and wait for the user' },
+  { value: 'switch-model', description: 'Switch to loop-fallback-model' },
+  { value: 'off', description: 'Do not check tool outcomes for loops' },
+];
+
 const directSettingSpecs: SettingLiteralSpec[] = [
   {
     value: 'emojifilter',
@@ -398,6 +437,12 @@ const setSchema: CommandArgumentSchema = [
               return 'positive integer (e.g., 100000)';
             case 'compression-threshold':
               return 'decimal between 0 and 1 (e.g., 0.7)';
+            case 'compression-strategy':
+              return 'summarize, stub-tool-outputs, or todo-hierarchical';
+            case 'compression-provider':
+              return 'provider name (e.g., openai)';
+            case 'compression-model':
+              return 'model name (e.g., gpt-4.1-mini)';
             case 'emojifilter':
               return 'allowed, auto, warn, or error';
             case 'streaming':
@@ -412,6 +457,19 @@ const setSchema: CommandArgumentSchema = [
               return 'warn, truncate, or sample';
             case 'maxTurnsPerPrompt':
               return 'positive integer or -1 (unlimited)';
+            case 'provider-failover':
+              return 'comma-separated providers (e.g., openai,llama-cpp)';
+            case 'budget-soft-limit':
+            case 'budget-hard-limit':
+              return 'positive amount in USD (e.g., 10)';
+            case 'auth-mode':
+              return 'bearer, azure, or sigv4';
+            case 'sigv4-region':
+              return 'AWS region (e.g., us-east-1)';
+            case 'loop-intervention':
+              return 'reflect, pause, switch-model, or off';
+            case 'loop-fallback-model':
+              return 'model name (e.g., gpt-4.1)';
             default:
               return 'value to set';
           }
@@ -446,6 +504,22 @@ const setSchema: CommandArgumentSchema = [
                 description: option.description,
               }));
           }
+          if (setting === 'compression-strategy') {
+            return listCompressionStrategies()
+              .filter((strategy) => strategy.name.startsWith(partial))
+              .map((strategy) => ({
+                value: strategy.name,
+                description: strategy.description,
+              }));
+          }
+          if (setting === 'loop-intervention') {
+            return loopInterventionOptions
+              .filter((option) => option.value.startsWith(partial))
+              .map((option) => ({
+                value: option.value,
+                description: option.description,
+              }));
+          }
           if (setting === 'tool-output-truncate-mode') {
             return truncateModeOptions
               .filter((option) => option.value.startsWith(partial))
@@ -808,6 +882,89 @@ export const setCommand: SlashCommand = {
       parsedValue = normalizedValue;
     }
 
+    // Validate provider failover chain
+    if (key === 'provider-failover') {
+      const chain = parseProviderFailoverChain(parsedValue);
+      if (chain.length === 0) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `${key} must list at least one provider (e.g., openai,llama-cpp)`,
+        };
+      }
+      const knownProviders = runtime.listProviders();
+      const unknown = chain
+        .map((entry) => entry.provider)
+        .filter((name) => !knownProviders.includes(name));
+      if (unknown.length > 0) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `Unknown provider(s) in ${key}: ${unknown.join(', ')}. Available providers: ${knownProviders.join(', ')}`,
+        };
+      }
+      parsedValue = chain.map((entry) =>
+        entry.model ? `${entry.provider}:${entry.model}` : entry.provider,
+      );
+    }
+
+    if (
+      key === 'loop-intervention' &&
+      !LOOP_INTERVENTION_MODES.includes(parsedValue as LoopInterventionMode)
+    ) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `${key} must be one of: ${LOOP_INTERVENTION_MODES.join(', ')}`,
+      };
+    }
+
+    // Validate budget limits
+    if (key === 'budget-soft-limit' || key === 'budget-hard-limit') {
+      const numValue = parsedValue as number;
+      if (
+        typeof numValue !== 'number' ||
+        !Number.isFinite(numValue) ||
+        numValue <= 0
+      ) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `${key} must be a positive amount in USD (e.g., 10)`,
+        };
+      }
+    }
+
+    // Validate compression strategy against the registered strategies
+    if (key === 'compression-strategy') {
+      const validStrategies = listCompressionStrategies().map(
+        (strategy) => strategy.name,
+      );
+      const normalizedValue = String(parsedValue).toLowerCase();
+      if (!validStrategies.includes(normalizedValue)) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `Invalid compression strategy '${parsedValue}'. Valid strategies are: ${validStrategies.join(', ')}`,
+        };
+      }
+      parsedValue = normalizedValue;
+    }
+
+    // Validate auth mode against the registered strategies
+    if (key === 'auth-mode') {
+      const validModes = listAuthStrategies().map((strategy) => strategy.mode);
+      const normalizedValue = String(parsedValue).toLowerCase();
+      if (!validModes.includes(normalizedValue)) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `Invalid auth mode '${parsedValue}'. Valid modes are: ${validModes.join(', ')}`,
+        };
+      }
+      parsedValue = normalizedValue;
+    }
+
     // Get the config to apply settings
     const config = context.services.config;
     if (!config) {
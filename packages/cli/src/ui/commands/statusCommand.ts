@@ -11,16 +11,51 @@ import {
   CommandKind,
 } from './types.js';
 import { getRuntimeApi } from '../contexts/RuntimeContext.js';
+import {
+  formatProviderFailoverChain,
+  parseProviderFailoverChain,
+  PROVIDER_FAILOVER_SETTING,
+} from '@vybestack/llxprt-code-core';
+
+/**
+ * Describe the configured provider failover chain and the most recent
+ * failover, or return null when no chain is configured.
+ */
+function formatFailoverStatus(): string | null {
+  const runtime = getRuntimeApi();
+  const chain = parseProviderFailoverChain(
+    runtime.getEphemeralSetting(PROVIDER_FAILOVER_SETTING),
+  );
+  if (chain.length === 0) {
+    return null;
+  }
+
+  let section = 'Provider Failover:\n';
+  section += '─'.repeat(50) + '\n';
+  section += `Active: ${runtime.getActiveProviderName() || 'none'}\n`;
+  section += `Chain: ${formatProviderFailoverChain(chain)}\n`;
+
+  const lastFailover = runtime
+    .getCliRuntimeServices()
+    .providerManager.getLastProviderFailover();
+  if (lastFailover) {
+    const when = new Date(lastFailover.timestamp).toLocaleTimeString();
+    section += `Last failover: ${lastFailover.fromProvider} → ${lastFailover.toProvider} (${lastFailover.reason}) at ${when}\n`;
+  }
+
+  return section;
+}
 
 export const statusCommand: SlashCommand = {
   name: 'status',
-  description: 'show authentication status for all providers',
+  description: 'show authentication and failover status for all providers',
   kind: CommandKind.BUILT_IN,
   action: async (
     _context: CommandContext,
     _args: string,
   ): Promise<MessageActionReturn> => {
     try {
+      const failoverStatus = formatFailoverStatus();
       const oauthManager = getRuntimeApi().getCliOAuthManager();
       if (!oauthManager) {
         return {
@@ -37,7 +72,9 @@ export const statusCommand: SlashCommand = {
         return {
           type: 'message',
           messageType: 'info',
-          content: 'No OAuth providers are registered.',
+          content: failoverStatus
+            ? `No OAuth providers are registered.\n\n${failoverStatus}`
+            : 'No OAuth providers are registered.',
         };
       }
 
@@ -70,6 +107,11 @@ export const statusCommand: SlashCommand = {
       statusMessage += '\nUse /auth <provider> to configure OAuth settings';
       statusMessage += '\nUse /logout <provider> to sign out';
 
+      if (failoverStatus) {
+        statusMessage += `\n\n${failoverStatus}`;
+        statusMessage += '\nUse /set provider-failover <providers> to change';
+      }
+
       return {
         type: 'message',
         messageType: 'info',
@@ -13,6 +13,7 @@ import {
   Logger,
   ProfileManager,
   SubagentManager,
+  type HistoryTreeSnapshot,
 } from '@vybestack/llxprt-code-core';
 import { LoadedSettings } from '../../config/settings.js';
 import { UseHistoryManagerReturn } from '../hooks/useHistoryManager.js';
@@ -86,6 +87,8 @@ export interface CommandContext {
   };
   // Flag to indicate if an overwrite has been confirmed
   overwriteConfirmed?: boolean;
+  /** Aborted when the user presses Esc while the command is running. */
+  abortSignal?: AbortSignal;
 }
 
 /**
@@ -141,6 +144,7 @@ export interface LoadHistoryActionReturn {
   type: 'load_history';
   history: HistoryItemWithoutId[];
   clientHistory: Content[]; // The history for the generative client
+  historyTree?: HistoryTreeSnapshot; // Every branch, when the checkpoint has them
 }
 
 /**
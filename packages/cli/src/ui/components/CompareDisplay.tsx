@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import {
+  formatCost,
+  type ProviderCompareResult,
+} from '@vybestack/llxprt-code-core';
+import { Colors } from '../colors.js';
+import { formatDuration } from '../utils/formatters.js';
+import { MarkdownDisplay } from '../utils/MarkdownDisplay.js';
+
+const METRIC_LABEL_WIDTH = 12;
+
+interface CompareDisplayProps {
+  prompt: string;
+  results: ProviderCompareResult[];
+  isPending: boolean;
+  terminalWidth: number;
+}
+
+const statusLabel = (result: ProviderCompareResult): string => {
+  switch (result.status) {
+    case 'pending':
+      return 'waiting';
+    case 'streaming':
+      return 'streaming…';
+    case 'done':
+      return 'done';
+    case 'error':
+      return 'failed';
+    default:
+      return result.status;
+  }
+};
+
+const statusColor = (result: ProviderCompareResult): string => {
+  switch (result.status) {
+    case 'done':
+      return Colors.AccentGreen;
+    case 'error':
+      return Colors.AccentRed;
+    default:
+      return Colors.AccentYellow;
+  }
+};
+
+const MetricRow: React.FC<{ label: string; value: string }> = ({
+  label,
+  value,
+}) => (
+  <Box>
+    <Box width={METRIC_LABEL_WIDTH}>
+      <Text color={Colors.LightBlue}>{label}</Text>
+    </Box>
+    <Text>{value}</Text>
+  </Box>
+);
+
+const CompareColumn: React.FC<{
+  index: number;
+  result: ProviderCompareResult;
+  width: number;
+  isPending: boolean;
+}> = ({ index, result, width, isPending }) => (
+  <Box
+    flexDirection="column"
+    width={width}
+    borderStyle="round"
+    borderColor={Colors.Gray}
+    paddingX={1}
+  >
+    <Box justifyContent="space-between">
+      <Text bold color={Colors.AccentPurple}>
+        #{index + 1} {result.provider}
+      </Text>
+      <Text color={statusColor(result)}>{statusLabel(result)}</Text>
+    </Box>
+    <Text color={Colors.Gray} wrap="truncate-end">
+      {result.model}
+    </Text>
+    <Box marginY={1} flexDirection="column">
+      {result.status === 'error' ? (
+        <Text color={Colors.AccentRed}>{result.error}</Text>
+      ) : (
+        <MarkdownDisplay
+          text={result.text || '…'}
+          isPending={isPending}
+          terminalWidth={width - 4}
+        />
+      )}
+      {result.toolCallCount > 0 && (
+        <Text color={Colors.Gray}>
+          ({result.toolCallCount} tool call(s) requested, not executed)
+        </Text>
+      )}
+    </Box>
+    <MetricRow
+      label="Latency"
+      value={
+        result.latencyMs !== undefined ? formatDuration(result.latencyMs) : '-'
+      }
+    />
+    <MetricRow
+      label="First token"
+      value={
+        result.timeToFirstTokenMs !== undefined
+          ? formatDuration(result.timeToFirstTokenMs)
+          : '-'
+      }
+    />
+    <MetricRow
+      label="Tokens"
+      value={
+        result.usage
+          ? `${result.usage.promptTokens.toLocaleString()} in / ${result.usage.completionTokens.toLocaleString()} out`
+          : '-'
+      }
+    />
+    <MetricRow
+      label="Cost"
+      value={result.cost !== undefined ? formatCost(result.cost) : '-'}
+    />
+  </Box>
+);
+
+export const CompareDisplay: React.FC<CompareDisplayProps> = ({
+  prompt,
+  results,
+  isPending,
+  terminalWidth,
+}) => {
+  const columnWidth = Math.max(
+    24,
+    Math.floor((terminalWidth - 2) / Math.max(results.length, 1)),
+  );
+  const allSettled = results.every(
+    (result) => result.status === 'done' || result.status === 'error',
+  );
+
+  return (
+    <Box flexDirection="column">
+      <Text>
+        <Text bold color={Colors.AccentPurple}>
+          Compare:{' '}
+        </Text>
+        <Text>{prompt}</Text>
+      </Text>
+      <Box flexDirection="row" flexWrap="wrap">
+        {results.map((result, index) => (
+          <CompareColumn
+            key={`${result.provider}:${result.model}:${index}`}
+            index={index}
+            result={result}
+            width={columnWidth}
+            isPending={isPending}
+          />
+        ))}
+      </Box>
+      {allSettled && !isPending && (
+        <Text color={Colors.Gray}>
+          {'Use /compare pick <n> to add an answer to the conversation.'}
+        </Text>
+      )}
+    </Box>
+  );
+};
@@ -367,4 +367,30 @@ describe('Footer', () => {
       expect(container.textContent).not.toContain(defaultProps.model);
     });
   });
+
+  describe('session cost display', () => {
+    beforeEach(() => {
+      mockUseResponsive.mockReturnValue({
+        width: 120,
+        breakpoint: 'STANDARD',
+        isNarrow: false,
+        isStandard: true,
+        isWide: false,
+      });
+    });
+
+    it('should show the estimated session cost once there is spend', () => {
+      const { container } = render(
+        <Footer {...defaultProps} sessionCost={1.234} budgetState="soft" />,
+      );
+      expect(container.textContent).toContain('Cost: $1.23');
+    });
+
+    it('should not show cost before anything has been spent', () => {
+      const { container } = render(
+        <Footer {...defaultProps} sessionCost={0} />,
+      );
+      expect(container.textContent).not.toContain('Cost:');
+    });
+  });
 });
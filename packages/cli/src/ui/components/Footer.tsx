@@ -12,9 +12,11 @@ import React, { useEffect, useState } from 'react';
 import { Box, Text } from 'ink';
 import { Colors, SemanticColors } from '../colors.js';
 import {
+  formatCost,
   shortenPath,
   tildeifyPath,
   tokenLimit,
+  type SessionBudgetState,
 } from '@vybestack/llxprt-code-core';
 import { ConsoleSummaryDisplay } from './ConsoleSummaryDisplay.js';
 import process from 'node:process';
@@ -43,6 +45,8 @@ interface FooterProps {
   tokensPerMinute?: number;
   throttleWaitTimeMs?: number;
   sessionTokenTotal?: number;
+  sessionCost?: number;
+  budgetState?: SessionBudgetState;
   // Footer visibility settings
   hideCWD?: boolean;
   hideSandboxStatus?: boolean;
@@ -244,6 +248,8 @@ export const Footer = React.memo<FooterProps>(
     tokensPerMinute,
     throttleWaitTimeMs,
     sessionTokenTotal,
+    sessionCost,
+    budgetState = 'ok',
     hideCWD = false,
     hideSandboxStatus = false,
     hideModelInfo = false,
@@ -451,6 +457,24 @@ export const Footer = React.memo<FooterProps>(
                 </>
               )}
 
+              {/* Show estimated session cost, colored by budget state */}
+              {sessionCost !== undefined && sessionCost > 0 && (
+                <>
+                  <Text color={SemanticColors.text.secondary}> | </Text>
+                  <Text
+                    color={
+                      budgetState === 'hard'
+                        ? SemanticColors.status.error
+                        : budgetState === 'soft'
+                          ? SemanticColors.status.warning
+                          : SemanticColors.text.accent
+                    }
+                  >
+                    Cost: {formatCost(sessionCost)}
+                  </Text>
+                </>
+              )}
+
               {/* Show error count */}
               {!showErrorDetails && errorCount > 0 && (
                 <>
@@ -22,6 +22,7 @@ import { ModelStatsDisplay } from './ModelStatsDisplay.js';
 import { ToolStatsDisplay } from './ToolStatsDisplay.js';
 import { SessionSummaryDisplay } from './SessionSummaryDisplay.js';
 import { Help } from './Help.js';
+import { CompareDisplay } from './CompareDisplay.js';
 import { Config } from '@vybestack/llxprt-code-core';
 import { SlashCommand } from '../commands/types.js';
 
@@ -107,5 +108,13 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
     {item.type === 'compression' && (
       <CompressionMessage compression={item.compression} />
     )}
+    {item.type === 'compare' && (
+      <CompareDisplay
+        prompt={item.prompt}
+        results={item.results}
+        isPending={isPending}
+        terminalWidth={terminalWidth}
+      />
+    )}
   </Box>
 );
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { renderWithProviders } from '../../test-utils/render.js';
+import { waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { McpElicitationDialog } from './McpElicitationDialog.js';
+
+const requestedSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string' as const, title: 'Name' },
+    age: { type: 'integer' as const, minimum: 0 },
+    plan: { type: 'string' as const, enum: ['free', 'pro'] },
+    subscribe: { type: 'boolean' as const, default: true },
+  },
+  required: ['name'],
+};
+
+const request = {
+  serverName: 'signup',
+  message: 'Create your account',
+  requestedSchema,
+};
+
+describe('McpElicitationDialog', () => {
+  it('renders the message and the fields', () => {
+    const { lastFrame } = renderWithProviders(
+      <McpElicitationDialog request={request} onSubmit={vi.fn()} />,
+    );
+
+    expect(lastFrame()).toContain("MCP server 'signup' asks:");
+    expect(lastFrame()).toContain('Create your account');
+    expect(lastFrame()).toContain('Name *:');
+    expect(lastFrame()).toContain('plan: (choose with ←/→)');
+    expect(lastFrame()).toContain('subscribe: [x]');
+  });
+
+  it('submits the values the user entered', async () => {
+    const onSubmit = vi.fn();
+    const { stdin, lastFrame } = renderWithProviders(
+      <McpElicitationDialog request={request} onSubmit={onSubmit} />,
+    );
+
+    stdin.write('Ada');
+    await waitFor(() => expect(lastFrame()).toContain('Name *: Ada'));
+    stdin.write('\r');
+    await waitFor(() => expect(lastFrame()).toContain('● age:'));
+    stdin.write('36');
+    await waitFor(() => expect(lastFrame()).toContain('age: 36'));
+    stdin.write('\r');
+    await waitFor(() => expect(lastFrame()).toContain('● plan:'));
+    stdin.write('\x1b[C'); // right arrow
+    await waitFor(() => expect(lastFrame()).toContain('‹ free ›'));
+    stdin.write('\r');
+    await waitFor(() => expect(lastFrame()).toContain('● subscribe:'));
+    stdin.write('\r');
+    await waitFor(() => expect(lastFrame()).toContain('● Submit'));
+    stdin.write('\r');
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({
+        action: 'accept',
+        content: { name: 'Ada', age: 36, plan: 'free', subscribe: true },
+      });
+    });
+  });
+
+  it('cancels when escape is pressed', async () => {
+    const onSubmit = vi.fn();
+    const { stdin } = renderWithProviders(
+      <McpElicitationDialog request={request} onSubmit={onSubmit} />,
+    );
+
+    stdin.write('\x1b');
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ action: 'cancel' });
+    });
+  });
+});
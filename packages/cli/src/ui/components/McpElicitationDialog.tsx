@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { McpElicitationRequest } from '@vybestack/llxprt-code-core';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { Box, Text } from 'ink';
+import React, { useCallback, useRef, useState } from 'react';
+import { Colors } from '../colors.js';
+import { useKeypress, Key } from '../hooks/useKeypress.js';
+import {
+  applyElicitationKey,
+  createElicitationFormState,
+  displayElicitationValue,
+} from '../utils/mcpElicitation.js';
+
+export interface McpElicitationDialogProps {
+  request: McpElicitationRequest;
+  onSubmit: (result: ElicitResult) => void;
+}
+
+export const McpElicitationDialog: React.FC<McpElicitationDialogProps> = ({
+  request,
+  onSubmit,
+}) => {
+  const { serverName, message, requestedSchema } = request;
+  const fields = Object.entries(requestedSchema.properties);
+  const submitIndex = fields.length;
+  const declineIndex = fields.length + 1;
+  const [form, setForm] = useState(() =>
+    createElicitationFormState(requestedSchema),
+  );
+  // Keys can arrive faster than renders, so each builds on the latest form
+  const formRef = useRef(form);
+  const { values, focusIndex, error } = form;
+  const [focused] = fields[focusIndex] ?? [];
+
+  const handleKey = useCallback(
+    (key: Key) => {
+      const outcome = applyElicitationKey(
+        requestedSchema,
+        formRef.current,
+        key,
+      );
+      if ('result' in outcome) {
+        onSubmit(outcome.result);
+        return;
+      }
+      formRef.current = outcome.state;
+      setForm(outcome.state);
+    },
+    [onSubmit, requestedSchema],
+  );
+
+  useKeypress(handleKey, { isActive: true });
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentCyan}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Text bold>MCP Server Request</Text>
+      <Text>MCP server &apos;{serverName}&apos; asks:</Text>
+      <Box marginY={1}>
+        <Text color={Colors.AccentCyan}>{message}</Text>
+      </Box>
+
+      {fields.map(([name, property]) => {
+        const isFocused = focused === name;
+        return (
+          <Box key={name} flexDirection="column">
+            <Text color={isFocused ? Colors.AccentGreen : Colors.Foreground}>
+              {isFocused ? '● ' : '  '}
+              {property.title ?? name}
+              {requestedSchema.required?.includes(name) ? ' *' : ''}:{' '}
+              {displayElicitationValue(property, values[name], isFocused)}
+            </Text>
+            {isFocused && property.description && (
+              <Text color={Colors.Gray}>
+                {'    '}
+                {property.description}
+              </Text>
+            )}
+          </Box>
+        );
+      })}
+
+      <Box marginTop={1} flexDirection="column">
+        {[
+          { label: 'Submit', index: submitIndex },
+          { label: 'Decline', index: declineIndex },
+        ].map(({ label, index }) => (
+          <Text
+            key={label}
+            color={
+              focusIndex === index ? Colors.AccentGreen : Colors.Foreground
+            }
+          >
+            {focusIndex === index ? '● ' : '  '}
+            {label}
+          </Text>
+        ))}
+      </Box>
+
+      {error && (
+        <Box marginTop={1}>
+          <Text color={Colors.AccentRed}>{error}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          ↑/↓ to move • ←/→ or Space to choose • Enter to continue • Esc to
+          cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { McpSamplingRequest } from '@vybestack/llxprt-code-core';
+import type { SamplingMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Box, Text } from 'ink';
+import React from 'react';
+import { Colors } from '../colors.js';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { useTerminalSize } from '../hooks/useTerminalSize.js';
+import { truncateEnd } from '../utils/responsive.js';
+
+export interface McpSamplingDialogProps {
+  request: McpSamplingRequest;
+  onConfirm: (approved: boolean) => void;
+}
+
+function describeMessage({ role, content }: SamplingMessage): string {
+  const text =
+    content.type === 'text'
+      ? content.text.replace(/\s+/g, ' ')
+      : `[${content.type} ${content.mimeType}]`;
+  return `${role}: ${text}`;
+}
+
+export const McpSamplingDialog: React.FC<McpSamplingDialogProps> = ({
+  request,
+  onConfirm,
+}) => {
+  const { serverName, providerName, messages, systemPrompt, maxTokens } =
+    request;
+  const { rows, columns } = useTerminalSize();
+  const maxMessagesToShow = Math.max(1, rows - 14);
+  const maxLineLength = Math.max(20, columns - 10);
+  const hiddenMessages = Math.max(0, messages.length - maxMessagesToShow);
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onConfirm(false);
+      }
+    },
+    { isActive: true },
+  );
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentYellow}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>MCP Sampling Request</Text>
+        <Text>
+          MCP server &apos;{serverName}&apos; wants {providerName} to answer
+          these messages (up to {maxTokens} tokens):
+        </Text>
+        <Box
+          flexDirection="column"
+          borderStyle="round"
+          borderColor={Colors.Gray}
+          paddingX={1}
+          marginTop={1}
+        >
+          {systemPrompt && (
+            <Text color={Colors.Gray}>
+              {truncateEnd(
+                `instructions: ${systemPrompt.replace(/\s+/g, ' ')}`,
+                maxLineLength,
+              )}
+            </Text>
+          )}
+          {hiddenMessages > 0 && (
+            <Text color={Colors.Gray}>
+              ...{hiddenMessages} earlier messages...
+            </Text>
+          )}
+          {messages.slice(hiddenMessages).map((message, index) => (
+            <Text key={index} color={Colors.AccentCyan}>
+              {truncateEnd(describeMessage(message), maxLineLength)}
+            </Text>
+          ))}
+        </Box>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text>Do you want to allow this?</Text>
+      </Box>
+
+      <RadioButtonSelect
+        items={[
+          { label: 'Yes, send the messages', value: true },
+          { label: 'No (esc)', value: false },
+        ]}
+        onSelect={onConfirm}
+        isFocused
+      />
+    </Box>
+  );
+};
@@ -26,6 +26,7 @@ import {
 } from '../utils/displayUtils.js';
 import { computeSessionStats } from '../utils/computeStats.js';
 import { useRuntimeApi } from '../contexts/RuntimeContext.js';
+import { formatCost } from '@vybestack/llxprt-code-core';
 
 // A more flexible and powerful StatRow component
 interface StatRowProps {
@@ -176,6 +177,8 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
     totalRequests: 0,
   };
   const sessionUsage = runtime.getSessionTokenUsage();
+  const sessionCost = runtime.getSessionCost();
+  const budget = runtime.getSessionBudgetStatus();
 
   const successThresholds = {
     green: TOOL_SUCCESS_RATE_HIGH,
@@ -319,6 +322,54 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
         </SubStatRow>
       </Section>
 
+      {sessionCost.entries.length > 0 && (
+        <Section title="Estimated Cost">
+          <StatRow title="Session Cost:">
+            <Text
+              color={
+                budget.state === 'hard'
+                  ? theme.status.error
+                  : budget.state === 'soft'
+                    ? theme.status.warning
+                    : theme.text.primary
+              }
+            >
+              {formatCost(sessionCost.total)}
+              {budget.softLimit !== undefined && (
+                <Text color={theme.text.secondary}>
+                  {` (soft limit ${formatCost(budget.softLimit)})`}
+                </Text>
+              )}
+              {budget.hardLimit !== undefined && (
+                <Text color={theme.text.secondary}>
+                  {` (hard limit ${formatCost(budget.hardLimit)})`}
+                </Text>
+              )}
+            </Text>
+          </StatRow>
+          {sessionCost.entries.map((entry) => (
+            <SubStatRow
+              key={`${entry.provider}:${entry.model}`}
+              title={`${entry.provider}:${entry.model}`}
+            >
+              <Text color={theme.text.primary}>
+                {entry.priced ? formatCost(entry.cost) : 'no pricing'}{' '}
+                <Text color={theme.text.secondary}>
+                  ({entry.input.toLocaleString()} in /{' '}
+                  {entry.output.toLocaleString()} out)
+                </Text>
+              </Text>
+            </SubStatRow>
+          ))}
+          {sessionCost.unpriced.length > 0 && (
+            <Text color={theme.text.secondary}>
+              Add prices for unpriced models under modelPricing in
+              settings.json.
+            </Text>
+          )}
+        </Section>
+      )}
+
       {Object.keys(models).length > 0 && (
         <ModelUsageTable
           models={models}
@@ -10,6 +10,7 @@ import { DiffRenderer } from './DiffRenderer.js';
 import { Colors, SemanticColors } from '../../colors.js';
 import { RenderInline } from '../../utils/InlineMarkdownRenderer.js';
 import {
+  ApprovalScope,
   ToolCallConfirmationDetails,
   ToolConfirmationOutcome,
   ToolExecuteConfirmationDetails,
@@ -25,6 +26,25 @@ import { useResponsive } from '../../hooks/useResponsive.js';
 import { truncateEnd } from '../../utils/responsive.js';
 import { useKeypress } from '../../hooks/useKeypress.js';
 
+/** Where "allow always" answers are remembered; undefined for the session */
+const APPROVAL_SCOPES: Array<ApprovalScope | undefined> = [
+  undefined,
+  'project',
+  'user',
+];
+
+const APPROVAL_SCOPE_LABELS: Record<ApprovalScope | 'session', string> = {
+  session: 'this session',
+  project: 'this project',
+  user: 'all projects',
+};
+
+const ALWAYS_OUTCOMES = [
+  ToolConfirmationOutcome.ProceedAlways,
+  ToolConfirmationOutcome.ProceedAlwaysServer,
+  ToolConfirmationOutcome.ProceedAlwaysTool,
+];
+
 export interface ToolConfirmationMessageProps {
   confirmationDetails: ToolCallConfirmationDetails;
   config: Config;
@@ -48,11 +68,18 @@ export const ToolConfirmationMessage: React.FC<
 
   // State to track whether details are shown
   const [showDetails, setShowDetails] = useState(false);
+  const [approvalScope, setApprovalScope] = useState<ApprovalScope | undefined>(
+    undefined,
+  );
 
   const handleConfirm = useCallback(
     (outcome: ToolConfirmationOutcome) => {
       // Call onConfirm synchronously first
-      onConfirm(outcome);
+      if (approvalScope && ALWAYS_OUTCOMES.includes(outcome)) {
+        onConfirm(outcome, { approvalScope });
+      } else {
+        onConfirm(outcome);
+      }
 
       // Handle IDE operations asynchronously without blocking
       if (confirmationDetails.type === 'edit') {
@@ -73,10 +100,14 @@ export const ToolConfirmationMessage: React.FC<
         }
       }
     },
-    [confirmationDetails, config, onConfirm],
+    [confirmationDetails, config, onConfirm, approvalScope],
   );
 
   const isTrustedFolder = config.isTrustedFolder();
+  // Shell and MCP approvals can be saved beyond the session
+  const canSaveApproval =
+    isTrustedFolder &&
+    (confirmationDetails.type === 'exec' || confirmationDetails.type === 'mcp');
 
   useKeypress(
     (key) => {
@@ -88,6 +119,15 @@ export const ToolConfirmationMessage: React.FC<
       if (key.name === 'd') {
         setShowDetails(!showDetails);
       }
+      // Handle 's' key to choose where "allow always" is remembered
+      if (key.name === 's' && canSaveApproval) {
+        setApprovalScope(
+          APPROVAL_SCOPES[
+            (APPROVAL_SCOPES.indexOf(approvalScope) + 1) %
+              APPROVAL_SCOPES.length
+          ],
+        );
+      }
     },
     { isActive: isFocused },
   );
@@ -459,6 +499,16 @@ export const ToolConfirmationMessage: React.FC<
           isFocused={isFocused}
         />
       </Box>
+
+      {canSaveApproval && (
+        <Box marginTop={1} flexShrink={0}>
+          <Text color={SemanticColors.text.secondary} dimColor>
+            Remember &quot;always&quot; answers for{' '}
+            {APPROVAL_SCOPE_LABELS[approvalScope ?? 'session']} (press
+            &apos;s&apos; to change)
+          </Text>
+        </Box>
+      )}
     </Box>
   );
 };
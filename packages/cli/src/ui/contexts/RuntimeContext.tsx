@@ -28,6 +28,7 @@ import {
   getEphemeralSettings,
   getRuntimeDiagnosticsSnapshot,
   listAvailableModels,
+  pullActiveProviderModel,
   listProviders,
   listSavedProfiles,
   loadProfileByName,
@@ -42,6 +43,8 @@ import {
   updateActiveProviderApiKey,
   updateActiveProviderBaseUrl,
   getSessionTokenUsage,
+  getSessionCost,
+  getSessionBudgetStatus,
 } from '../../runtime/runtimeSettings.js';
 import {
   enterRuntimeScope,
@@ -61,6 +64,7 @@ const runtimeFunctions = {
   getActiveProviderName,
   setActiveModel,
   listAvailableModels,
+  pullActiveProviderModel,
   getActiveModelName,
   getActiveProviderStatus,
   getActiveModelParams,
@@ -83,6 +87,8 @@ const runtimeFunctions = {
   setActiveToolFormatOverride,
   getActiveProviderMetrics,
   getSessionTokenUsage,
+  getSessionCost,
+  getSessionBudgetStatus,
   getCliRuntimeServices,
   getEphemeralSetting,
 } as const;
@@ -11,6 +11,7 @@ import {
   FileDiscoveryService,
   GlobTool,
   ReadManyFilesTool,
+  ResourceRegistry,
   StandardFileSystemService,
   ToolRegistry,
   COMMON_IGNORE_PATTERNS,
@@ -28,6 +29,7 @@ import * as path from 'path';
 describe('handleAtCommand', () => {
   let testRootDir: string;
   let mockConfig: Config;
+  let resourceRegistry: ResourceRegistry;
 
   const mockAddItem = vi.fn() as Mock<UseHistoryManagerReturn['addItem']>;
   const mockOnDebugMessage = vi.fn() as Mock<(message: string) => void>;
@@ -50,6 +52,7 @@ describe('handleAtCommand', () => {
     abortController = new AbortController();
 
     const getToolRegistry = vi.fn();
+    resourceRegistry = new ResourceRegistry();
 
     mockConfig = {
       getToolRegistry,
@@ -74,6 +77,7 @@ describe('handleAtCommand', () => {
       getPromptRegistry: () => ({
         getPromptsByServer: () => [],
       }),
+      getResourceRegistry: () => resourceRegistry,
       getDebugMode: () => false,
       getFileExclusions: () => ({
         getCoreIgnorePatterns: () => COMMON_IGNORE_PATTERNS,
@@ -1110,6 +1114,54 @@ describe('handleAtCommand', () => {
     });
   });
 
+  it('should read MCP resources mentioned as @server:uri', async () => {
+    resourceRegistry.setServerResources(
+      'docs',
+      [
+        {
+          uri: 'docs://api.md',
+          name: 'API',
+          serverName: 'docs',
+          read: async () => ({
+            contents: [{ uri: 'docs://api.md', text: '# API' }],
+          }),
+        },
+      ],
+      [],
+    );
+
+    const result = await handleAtCommand({
+      query: 'Summarise @docs:docs://api.md please',
+      config: mockConfig,
+      addItem: mockAddItem,
+      onDebugMessage: mockOnDebugMessage,
+      messageId: 130,
+      signal: abortController.signal,
+    });
+
+    expect(result).toEqual({
+      processedQuery: [
+        { text: 'Summarise @docs:docs://api.md please' },
+        { text: '\n--- Content from referenced MCP resources ---' },
+        { text: '\nContent from @docs:docs://api.md:\n' },
+        { text: 'Content of docs://api.md:\n# API' },
+      ],
+      shouldProceed: true,
+    });
+    expect(mockAddItem).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'tool_group',
+        tools: [
+          expect.objectContaining({
+            name: 'ReadMcpResource',
+            status: ToolCallStatus.Success,
+          }),
+        ],
+      }),
+      130,
+    );
+  });
+
   it("should not add the user's turn to history, as that is the caller's responsibility", async () => {
     // Arrange
     const fileContent = 'This is the file content.';
@@ -21,6 +21,11 @@ import {
   ToolCallStatus,
 } from '../types.js';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import {
+  parseResourceMention,
+  readResourceMentions,
+  type ResourceMention,
+} from '../utils/resourceMentions.js';
 
 // Detect if running in PowerShell to handle @ symbol conflicts
 // PowerShell's IntelliSense treats @ as hashtable start and causes severe lag
@@ -140,6 +145,7 @@ function parseAllAtCommands(query: string): AtCommandPart[] {
  * If found, it attempts to read the specified files/directories using the
  * 'read_many_files' tool. The user query is modified to include resolved paths,
  * and the content of the files is appended in a structured block.
+ * '@server:uri' commands read the resource with that URI from an MCP server.
  *
  * @returns An object indicating whether the main hook should proceed with an
  *          LLM call and the processed query parts (including file content).
@@ -175,6 +181,7 @@ export async function handleAtCommand({
   const respectFileIgnore = config.getFileFilteringOptions();
 
   const pathSpecsToRead: string[] = [];
+  const resourcesToRead: ResourceMention[] = [];
   const atPathToResolvedSpecMap = new Map<string, string>();
   const contentLabelsForDisplay: string[] = [];
   const ignoredByReason: Record<string, string[]> = {
@@ -221,6 +228,13 @@ export async function handleAtCommand({
       return { processedQuery: null, shouldProceed: false };
     }
 
+    const resourceMention = parseResourceMention(pathName, config);
+    if (resourceMention) {
+      resourcesToRead.push(resourceMention);
+      atPathToResolvedSpecMap.set(originalAtPath, pathName);
+      continue;
+    }
+
     // Check if path should be ignored based on filtering options
 
     const workspaceContext = config.getWorkspaceContext();
@@ -410,7 +424,7 @@ export async function handleAtCommand({
   }
 
   // Fallback for lone "@" or completely invalid @-commands resulting in empty initialQueryText
-  if (pathSpecsToRead.length === 0) {
+  if (pathSpecsToRead.length === 0 && resourcesToRead.length === 0) {
     onDebugMessage('No valid file paths found in @ commands to read.');
     if (initialQueryText === '@' && query.trim() === '@') {
       // If the only thing was a lone @, pass original query (which might have spaces)
@@ -428,6 +442,23 @@ export async function handleAtCommand({
 
   const processedQueryParts: PartUnion[] = [{ text: initialQueryText }];
 
+  if (resourcesToRead.length > 0) {
+    const resourceParts = await readResourceMentions(
+      resourcesToRead,
+      config,
+      addItem,
+      userMessageTimestamp,
+    );
+    if (!resourceParts) {
+      return { processedQuery: null, shouldProceed: false };
+    }
+    processedQueryParts.push(...resourceParts);
+  }
+
+  if (pathSpecsToRead.length === 0) {
+    return { processedQuery: processedQueryParts, shouldProceed: true };
+  }
+
   const toolArgs = {
     paths: pathSpecsToRead,
     file_filtering_options: {
@@ -114,6 +114,8 @@ const coreMocks = vi.hoisted(() => {
     uiTelemetryService,
     SessionMetrics: class {},
     ModelMetrics: class {},
+    addMCPListChangeListener: vi.fn(),
+    removeMCPListChangeListener: vi.fn(),
   };
 });
 
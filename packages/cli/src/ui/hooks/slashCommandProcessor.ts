@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useCallback, useMemo, useEffect, useState } from 'react';
+import { useCallback, useMemo, useEffect, useRef, useState } from 'react';
 import { type PartListUnion } from '@google/genai';
 import process from 'node:process';
 import * as path from 'node:path';
@@ -20,6 +20,8 @@ import {
   Storage,
   ProfileManager,
   SubagentManager,
+  addMCPListChangeListener,
+  removeMCPListChangeListener,
 } from '@vybestack/llxprt-code-core';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import {
@@ -270,6 +272,19 @@ export const useSlashCommandProcessor = (
     };
   }, [config, reloadCommands]);
 
+  // MCP prompts are slash commands, so reload them when a server's list changes
+  useEffect(() => {
+    const listener = () => {
+      reloadCommands();
+    };
+
+    addMCPListChangeListener(listener);
+
+    return () => {
+      removeMCPListChangeListener(listener);
+    };
+  }, [reloadCommands]);
+
   useEffect(() => {
     const controller = new AbortController();
     const load = async () => {
@@ -295,6 +310,13 @@ export const useSlashCommandProcessor = (
     };
   }, [config, reloadTrigger]);
 
+  const commandAbortControllerRef = useRef<AbortController | null>(null);
+
+  /** Aborts the signal of the slash command that is running, if any. */
+  const cancelSlashCommand = useCallback(() => {
+    commandAbortControllerRef.current?.abort();
+  }, []);
+
   const handleSlashCommand = useCallback(
     async (
       rawQuery: PartListUnion,
@@ -378,6 +400,8 @@ export const useSlashCommandProcessor = (
               logSlashCommand(config, event);
             }
 
+            const abortController = new AbortController();
+            commandAbortControllerRef.current = abortController;
             const fullCommandContext: CommandContext = {
               ...commandContext,
               invocation: {
@@ -386,6 +410,7 @@ export const useSlashCommandProcessor = (
                 args,
               },
               overwriteConfirmed,
+              abortSignal: abortController.signal,
             };
 
             // If a one-time list is provided for a "Proceed" action, temporarily
@@ -498,10 +523,13 @@ export const useSlashCommandProcessor = (
 
                   // Set the client history - it will be stored for later use if not initialized
                   const client = config?.getGeminiClient();
-                  if (client) {
+                  if (client && result.historyTree) {
+                    await client.restoreHistory([], result.historyTree);
+                  } else if (client) {
                     await client.setHistory(result.clientHistory, {
                       stripThoughts: true,
                     });
+                    client.getHistoryService()?.discardBranches();
                   }
 
                   return { type: 'handled' };
@@ -628,6 +656,7 @@ export const useSlashCommandProcessor = (
         );
         return { type: 'handled' };
       } finally {
+        commandAbortControllerRef.current = null;
         setIsProcessing(false);
       }
     },
@@ -656,6 +685,7 @@ export const useSlashCommandProcessor = (
 
   return {
     handleSlashCommand,
+    cancelSlashCommand,
     slashCommands: commands,
     pendingHistoryItems,
     commandContext,
@@ -94,6 +94,29 @@ function atCompletionReducer(
   }
 }
 
+/**
+ * Suggests MCP resources as '@server:uri' for patterns that appear in the
+ * mention or the resource name.
+ */
+function getResourceSuggestions(
+  config: Config | undefined,
+  pattern: string,
+): Suggestion[] {
+  const needle = pattern.toLowerCase();
+  return (config?.getResourceRegistry?.().getAllResources() ?? [])
+    .filter(
+      (resource) =>
+        `${resource.serverName}:${resource.uri}`
+          .toLowerCase()
+          .includes(needle) || resource.name.toLowerCase().includes(needle),
+    )
+    .map((resource) => ({
+      label: `${resource.serverName}:${resource.uri}`,
+      value: escapePath(`${resource.serverName}:${resource.uri}`),
+      description: resource.name,
+    }));
+}
+
 export interface UseAtCompletionProps {
   enabled: boolean;
   pattern: string;
@@ -174,6 +197,7 @@ export function useAtCompletion(props: UseAtCompletionProps): void {
             config?.getEnableRecursiveFileSearch() ?? true,
           disableFuzzySearch:
             config?.getFileFilteringDisableFuzzySearch() ?? false,
+          fileIndex: config?.getFileIndex?.(),
         });
         await searcher.initialize();
         fileSearch.current = searcher;
@@ -216,10 +240,13 @@ export function useAtCompletion(props: UseAtCompletionProps): void {
           return;
         }
 
-        const suggestions = results.map((p) => ({
-          label: p,
-          value: escapePath(p),
-        }));
+        const suggestions = [
+          ...results.map((p) => ({
+            label: p,
+            value: escapePath(p),
+          })),
+          ...getResourceSuggestions(config, state.pattern),
+        ];
         dispatch({ type: 'SEARCH_SUCCESS', payload: suggestions });
       } catch (error) {
         if (!(error instanceof Error && error.name === 'AbortError')) {
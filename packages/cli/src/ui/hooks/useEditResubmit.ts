@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Config,
+  GitService,
+  getErrorMessage,
+} from '@vybestack/llxprt-code-core';
+import { appEvents, AppEvent } from '../../utils/events.js';
+import { MessageType } from '../types.js';
+import { TextBuffer } from '../components/shared/text-buffer.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import { sessionHistoryToUiItems } from '../utils/sessionHistoryItems.js';
+import {
+  rewindToPrompt,
+  type PromptEditRequest,
+} from '../utils/promptRewind.js';
+
+export interface UseEditResubmitReturn {
+  /** Prompt picked with /edit that the next submission replaces */
+  pendingEdit: PromptEditRequest | null;
+  /** Rewinds to the edited prompt, then sends the new text in its place */
+  submitEdited: (text: string) => Promise<void>;
+}
+
+/**
+ * Loads a prompt picked with /edit into the input and, when the edited text
+ * is submitted, rewinds the conversation and checkpointed files before
+ * sending it.
+ */
+export const useEditResubmit = (
+  config: Config,
+  buffer: TextBuffer,
+  addItem: UseHistoryManagerReturn['addItem'],
+  clearItems: UseHistoryManagerReturn['clearItems'],
+  refreshStatic: () => void,
+  submitQuery: (query: string) => void,
+): UseEditResubmitReturn => {
+  const [pendingEdit, setPendingEdit] = useState<PromptEditRequest | null>(
+    null,
+  );
+
+  const gitService = useMemo(() => {
+    if (!config.getProjectRoot()) {
+      return undefined;
+    }
+    return new GitService(config.getProjectRoot(), config.storage);
+  }, [config]);
+
+  useEffect(() => {
+    const onEditPrompt = (request: PromptEditRequest | null) => {
+      setPendingEdit(request);
+      buffer.setText(request?.text ?? '');
+    };
+    appEvents.on(AppEvent.EditPrompt, onEditPrompt);
+    return () => {
+      appEvents.off(AppEvent.EditPrompt, onEditPrompt);
+    };
+  }, [buffer]);
+
+  const submitEdited = useCallback(
+    async (text: string) => {
+      if (!pendingEdit) {
+        submitQuery(text);
+        return;
+      }
+      setPendingEdit(null);
+
+      let result;
+      try {
+        result = await rewindToPrompt(config, gitService, pendingEdit);
+      } catch (error) {
+        addItem(
+          {
+            type: MessageType.ERROR,
+            text: `Could not edit prompt ${pendingEdit.turn}: ${getErrorMessage(error)}`,
+          },
+          Date.now(),
+        );
+        return;
+      }
+
+      // Redraw so the screen shows the rewound conversation
+      clearItems();
+      console.clear();
+      refreshStatic();
+      const now = Date.now();
+      const history =
+        config.getGeminiClient()?.getHistoryService()?.getAll() ?? [];
+      for (const item of sessionHistoryToUiItems(history)) {
+        addItem(item, now);
+      }
+      const notes = [
+        result.keptBranch
+          ? `The original conversation is on branch '${result.keptBranch}'.`
+          : 'The original conversation after this prompt was discarded.',
+      ];
+      if (result.filesRestored) {
+        notes.push('Project files were restored to the matching checkpoint.');
+      }
+      addItem(
+        {
+          type: MessageType.INFO,
+          text: `Resending edited prompt ${pendingEdit.turn}. ${notes.join(' ')}`,
+        },
+        now,
+      );
+
+      submitQuery(text);
+    },
+    [
+      pendingEdit,
+      config,
+      gitService,
+      addItem,
+      clearItems,
+      refreshStatic,
+      submitQuery,
+    ],
+  );
+
+  return { pendingEdit, submitEdited };
+};
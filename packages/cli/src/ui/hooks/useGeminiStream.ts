@@ -29,6 +29,7 @@ import {
   getCodeAssistServer,
   UserTierId,
   ServerGeminiCitationEvent,
+  LoopInterventionInfo,
   EmojiFilter,
   type EmojiFilterMode,
   DEFAULT_AGENT_ID,
@@ -309,7 +310,8 @@ export const useGeminiStream = (
     [toolCalls],
   );
 
-  const loopDetectedRef = useRef(false);
+  // Set when a loop halts the stream; holds the loop description, if any.
+  const loopDetectedRef = useRef<{ description?: string } | null>(null);
 
   const onExec = useCallback(async (done: Promise<void>) => {
     setIsResponding(true);
@@ -793,15 +795,36 @@ export const useGeminiStream = (
     [addItem, config],
   );
 
-  const handleLoopDetectedEvent = useCallback(() => {
-    addItem(
-      {
-        type: 'info',
-        text: `A potential loop was detected. This can happen due to repetitive tool calls or other model behavior. The request has been halted.`,
-      },
-      Date.now(),
-    );
-  }, [addItem]);
+  const handleLoopDetectedEvent = useCallback(
+    (description?: string) => {
+      addItem(
+        {
+          type: 'info',
+          text: description
+            ? `A loop was detected: ${description}. The request has been paused; tell the model how to proceed.`
+            : `A potential loop was detected. This can happen due to repetitive tool calls or other model behavior. The request has been halted.`,
+        },
+        Date.now(),
+      );
+    },
+    [addItem],
+  );
+
+  const handleLoopInterventionEvent = useCallback(
+    (intervention: LoopInterventionInfo) => {
+      addItem(
+        {
+          type: 'info',
+          text:
+            intervention.action === 'switch-model'
+              ? `A loop was detected: ${intervention.description}. Switched to ${intervention.model} and asked it to try a different approach.`
+              : `A loop was detected: ${intervention.description}. Asked the model to step back and try a different approach.`,
+        },
+        Date.now(),
+      );
+    },
+    [addItem],
+  );
 
   const processGeminiStreamEvents = useCallback(
     async (
@@ -859,7 +882,10 @@ export const useGeminiStream = (
           case ServerGeminiEventType.LoopDetected:
             // handle later because we want to move pending history to history
             // before we add loop detected message to history
-            loopDetectedRef.current = true;
+            loopDetectedRef.current = { description: event.value };
+            break;
+          case ServerGeminiEventType.LoopIntervention:
+            handleLoopInterventionEvent(event.value);
             break;
           case ServerGeminiEventType.UsageMetadata:
             // Handle usage metadata - for now just ignore
@@ -890,6 +916,7 @@ export const useGeminiStream = (
       handleChatCompressionEvent,
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
+      handleLoopInterventionEvent,
       handleCitationEvent,
     ],
   );
@@ -964,8 +991,9 @@ export const useGeminiStream = (
           setPendingHistoryItem(null);
         }
         if (loopDetectedRef.current) {
-          loopDetectedRef.current = false;
-          handleLoopDetectedEvent();
+          const { description } = loopDetectedRef.current;
+          loopDetectedRef.current = null;
+          handleLoopDetectedEvent(description);
         }
       } catch (error: unknown) {
         if (error instanceof UnauthorizedError) {
@@ -1257,6 +1285,8 @@ export const useGeminiStream = (
             const fileName = path.basename(filePath);
             const toolCallWithSnapshotFileName = `${timestamp}-${fileName}-${toolName}.json`;
             const clientHistory = await geminiClient?.getHistory();
+            // Lets /edit find the snapshot taken before a rewound turn
+            const historyService = geminiClient?.getHistoryService();
             const toolCallWithSnapshotFilePath = path.join(
               checkpointDir,
               toolCallWithSnapshotFileName,
@@ -1274,6 +1304,9 @@ export const useGeminiStream = (
                   },
                   commitHash,
                   filePath,
+                  sessionId: config.getSessionId(),
+                  branch: historyService?.getActiveBranchName(),
+                  historyLength: historyService?.length(),
                 },
                 null,
                 2,
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import type {
+  Config,
+  McpElicitationRequest,
+  McpSamplingRequest,
+} from '@vybestack/llxprt-code-core';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+export type McpClientRequest =
+  | {
+      id: number;
+      type: 'sampling';
+      request: McpSamplingRequest;
+      onConfirm: (approved: boolean) => void;
+    }
+  | {
+      id: number;
+      type: 'elicitation';
+      request: McpElicitationRequest;
+      onSubmit: (result: ElicitResult) => void;
+    };
+
+/**
+ * Lets the user answer sampling and elicitation requests from MCP servers.
+ * Requests are shown one at a time, oldest first; a request the server
+ * cancels is dropped from the queue.
+ */
+export function useMcpClientRequests(
+  config: Config,
+): McpClientRequest | undefined {
+  const [requests, setRequests] = useState<McpClientRequest[]>([]);
+
+  useEffect(() => {
+    let nextId = 0;
+
+    function enqueue<T>(
+      signal: AbortSignal,
+      abortedValue: T,
+      create: (id: number, settle: (value: T) => void) => McpClientRequest,
+    ): Promise<T> {
+      if (signal.aborted) {
+        return Promise.resolve(abortedValue);
+      }
+      return new Promise<T>((resolve) => {
+        const settle = (value: T) => {
+          signal.removeEventListener('abort', onAbort);
+          setRequests((current) => current.filter((item) => item !== entry));
+          resolve(value);
+        };
+        const onAbort = () => settle(abortedValue);
+        const entry = create(nextId++, settle);
+        signal.addEventListener('abort', onAbort, { once: true });
+        setRequests((current) => [...current, entry]);
+      });
+    }
+
+    config.setMcpClientRequestHandler({
+      confirmSampling: (request, signal) =>
+        enqueue<boolean>(signal, false, (id, onConfirm) => ({
+          id,
+          type: 'sampling',
+          request,
+          onConfirm,
+        })),
+      elicit: (request, signal) =>
+        enqueue<ElicitResult>(signal, { action: 'cancel' }, (id, onSubmit) => ({
+          id,
+          type: 'elicitation',
+          request,
+          onSubmit,
+        })),
+    });
+    return () => config.setMcpClientRequestHandler(undefined);
+  }, [config]);
+
+  return requests[0];
+}
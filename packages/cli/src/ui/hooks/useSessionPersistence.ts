@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef } from 'react';
+import { Config, DebugLogger } from '@vybestack/llxprt-code-core';
+import {
+  saveCurrentSession,
+  takeResumedSession,
+} from '../../runtime/sessionPersistence.js';
+import { MessageType, StreamingState } from '../types.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import { sessionHistoryToUiItems } from '../utils/sessionHistoryItems.js';
+
+const logger = new DebugLogger('llxprt:ui:session');
+
+/**
+ * Replays a session resumed at startup and auto-saves the session every time
+ * a turn finishes.
+ */
+export const useSessionPersistence = (
+  config: Config,
+  streamingState: StreamingState,
+  addItem: UseHistoryManagerReturn['addItem'],
+) => {
+  useEffect(() => {
+    const session = takeResumedSession();
+    if (!session) {
+      return;
+    }
+    const now = Date.now();
+    for (const item of sessionHistoryToUiItems(session.history)) {
+      addItem(item, now);
+    }
+    addItem(
+      {
+        type: MessageType.INFO,
+        text: `Resumed session ${session.sessionId} (${session.runtime.provider}:${session.runtime.model}, last active ${new Date(session.updatedAt).toLocaleString()}).`,
+      },
+      now,
+    );
+  }, [addItem]);
+
+  const previousState = useRef(streamingState);
+  useEffect(() => {
+    const turnFinished =
+      previousState.current !== StreamingState.Idle &&
+      streamingState === StreamingState.Idle;
+    previousState.current = streamingState;
+    if (turnFinished) {
+      saveCurrentSession(config).catch((error) => {
+        logger.warn(() => `Failed to auto-save session: ${String(error)}`);
+      });
+    }
+  }, [config, streamingState]);
+};
@@ -59,6 +59,7 @@ describe('keyMatchers', () => {
     [Command.QUIT]: (key: Key) => key.ctrl && key.name === 'c',
     [Command.EXIT]: (key: Key) => key.ctrl && key.name === 'd',
     [Command.SHOW_MORE_LINES]: (key: Key) => key.ctrl && key.name === 's',
+    [Command.TOGGLE_PIN]: (key: Key) => key.meta && key.name === 'p',
     [Command.REVERSE_SEARCH]: (key: Key) => key.ctrl && key.name === 'r',
     [Command.SUBMIT_REVERSE_SEARCH]: (key: Key) =>
       key.name === 'return' && !key.ctrl,
@@ -237,6 +238,11 @@ describe('keyMatchers', () => {
       positive: [createKey('s', { ctrl: true })],
       negative: [createKey('s'), createKey('l', { ctrl: true })],
     },
+    {
+      command: Command.TOGGLE_PIN,
+      positive: [createKey('p', { meta: true })],
+      negative: [createKey('p'), createKey('p', { ctrl: true })],
+    },
 
     // Shell commands
     {
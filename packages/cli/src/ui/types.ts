@@ -6,6 +6,7 @@
 
 import {
   CompressionStatus,
+  ProviderCompareResult,
   ToolCallConfirmationDetails,
   ToolResultDisplay,
 } from '@vybestack/llxprt-code-core';
@@ -157,6 +158,12 @@ export type HistoryItemCompression = HistoryItemBase & {
   compression: CompressionProps;
 };
 
+export type HistoryItemCompare = HistoryItemBase & {
+  type: 'compare';
+  prompt: string;
+  results: ProviderCompareResult[];
+};
+
 // Using Omit<HistoryItem, 'id'> seems to have some issues with typescript's
 // type inference e.g. historyItem.type === 'tool_group' isn't auto-inferring that
 // 'tools' in historyItem.
@@ -176,6 +183,7 @@ export type HistoryItemWithoutId =
   | HistoryItemToolStats
   | HistoryItemQuit
   | HistoryItemCompression
+  | HistoryItemCompare
   | HistoryItemOAuthURL;
 
 export type HistoryItem = HistoryItemWithoutId & { id: number };
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Key } from '../hooks/useKeypress.js';
+import {
+  applyElicitationKey,
+  buildElicitationContent,
+  createElicitationFormState,
+  displayElicitationValue,
+  type ElicitationFormState,
+} from './mcpElicitation.js';
+
+const requestedSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string' as const, title: 'Name' },
+    age: { type: 'integer' as const, minimum: 0 },
+    plan: { type: 'string' as const, enum: ['free', 'pro'] },
+    subscribe: { type: 'boolean' as const, default: true },
+  },
+  required: ['name'],
+};
+
+function key(name: string, overrides: Partial<Key> = {}): Key {
+  return {
+    name,
+    ctrl: false,
+    meta: false,
+    shift: false,
+    paste: false,
+    sequence: name.length === 1 ? name : '',
+    ...overrides,
+  };
+}
+
+/** Applies keys until the form produces a result, returning the last step. */
+function press(state: ElicitationFormState, ...keys: Key[]) {
+  let outcome: ReturnType<typeof applyElicitationKey> = { state };
+  for (const pressed of keys) {
+    if ('result' in outcome) {
+      break;
+    }
+    outcome = applyElicitationKey(requestedSchema, outcome.state, pressed);
+  }
+  return outcome;
+}
+
+describe('createElicitationFormState', () => {
+  it('starts with the schema defaults and the first field focused', () => {
+    expect(createElicitationFormState(requestedSchema)).toEqual({
+      values: { name: '', age: '', plan: undefined, subscribe: true },
+      focusIndex: 0,
+    });
+  });
+});
+
+describe('applyElicitationKey', () => {
+  const initial = createElicitationFormState(requestedSchema);
+
+  it('submits the values the user entered', () => {
+    const outcome = press(
+      initial,
+      key('A', { sequence: 'A' }),
+      key('d'),
+      key('a'),
+      key('return'),
+      key('3'),
+      key('6'),
+      key('return'),
+      key('right'),
+      key('return'),
+      key('space'),
+      key('return'),
+      key('return'),
+    );
+
+    expect(outcome).toEqual({
+      result: {
+        action: 'accept',
+        content: { name: 'Ada', age: 36, plan: 'free', subscribe: false },
+      },
+    });
+  });
+
+  it('edits text with backspace and pasted text without line breaks', () => {
+    const outcome = press(
+      initial,
+      key('x'),
+      key('backspace'),
+      key('', { paste: true, sequence: 'Ada\nLovelace' }),
+      key('c', { ctrl: true, sequence: 'c' }),
+    );
+
+    expect(outcome).toEqual({
+      state: {
+        ...initial,
+        values: { ...initial.values, name: 'Ada Lovelace' },
+      },
+    });
+  });
+
+  it('cycles enum options in both directions', () => {
+    const onPlan = { ...initial, focusIndex: 2 };
+
+    expect(press(onPlan, key('left'))).toMatchObject({
+      state: { values: { plan: 'pro' } },
+    });
+    expect(
+      press(onPlan, key('right'), key('right'), key('right')),
+    ).toMatchObject({ state: { values: { plan: 'free' } } });
+  });
+
+  it('wraps focus around the fields, Submit and Decline', () => {
+    expect(press(initial, key('up'))).toMatchObject({
+      state: { focusIndex: 5 },
+    });
+    expect(press(initial, key('tab', { shift: true }))).toMatchObject({
+      state: { focusIndex: 5 },
+    });
+    expect(press({ ...initial, focusIndex: 5 }, key('tab'))).toMatchObject({
+      state: { focusIndex: 0 },
+    });
+  });
+
+  it('shows the first problem on submit and clears it on the next edit', () => {
+    const onSubmit = { ...initial, focusIndex: 4 };
+    const failed = press(onSubmit, key('return'));
+    expect(failed).toEqual({
+      state: { ...onSubmit, error: 'Name is required.' },
+    });
+
+    const edited = press(
+      { ...(failed as { state: ElicitationFormState }).state, focusIndex: 0 },
+      key('A', { sequence: 'A' }),
+    );
+    expect(edited).toMatchObject({ state: { error: undefined } });
+  });
+
+  it('declines from the Decline row and cancels on escape', () => {
+    expect(press({ ...initial, focusIndex: 5 }, key('return'))).toEqual({
+      result: { action: 'decline' },
+    });
+    expect(press(initial, key('escape'))).toEqual({
+      result: { action: 'cancel' },
+    });
+  });
+});
+
+describe('buildElicitationContent', () => {
+  it('reports missing and invalid values', () => {
+    expect(
+      buildElicitationContent(requestedSchema, { name: '', age: '' }),
+    ).toEqual({ error: 'Name is required.' });
+    expect(
+      buildElicitationContent(requestedSchema, { name: 'Ada', age: '3.5' }),
+    ).toEqual({ error: 'age must be a whole number.' });
+    expect(
+      buildElicitationContent(requestedSchema, { name: 'Ada', age: '-1' }),
+    ).toEqual({ error: 'age must be at least 0.' });
+    expect(
+      buildElicitationContent(requestedSchema, { name: 'Ada', age: 'old' }),
+    ).toEqual({ error: 'age must be a number.' });
+  });
+
+  it('leaves out optional fields the user left empty', () => {
+    expect(
+      buildElicitationContent(requestedSchema, {
+        name: 'Ada',
+        age: '',
+        plan: undefined,
+        subscribe: false,
+      }),
+    ).toEqual({ content: { name: 'Ada', subscribe: false } });
+  });
+});
+
+describe('displayElicitationValue', () => {
+  it('shows checkboxes, enum choices and a cursor on focused text', () => {
+    const { properties } = requestedSchema;
+    expect(displayElicitationValue(properties.subscribe, true, false)).toBe(
+      '[x]',
+    );
+    expect(displayElicitationValue(properties.plan, undefined, true)).toBe(
+      '(choose with ←/→)',
+    );
+    expect(displayElicitationValue(properties.plan, 'pro', true)).toBe(
+      '‹ pro ›',
+    );
+    expect(displayElicitationValue(properties.name, 'Ada', true)).toBe('Ada█');
+    expect(displayElicitationValue(properties.name, 'Ada', false)).toBe('Ada');
+  });
+});
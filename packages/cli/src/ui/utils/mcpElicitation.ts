@@ -0,0 +1,253 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { McpElicitationRequest } from '@vybestack/llxprt-code-core';
+import type {
+  ElicitResult,
+  PrimitiveSchemaDefinition,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Key } from '../hooks/useKeypress.js';
+
+export type ElicitationSchema = McpElicitationRequest['requestedSchema'];
+export type ElicitationFieldValue = string | boolean | undefined;
+
+/** State of the form an MCP server asked the user to fill in */
+export interface ElicitationFormState {
+  values: Record<string, ElicitationFieldValue>;
+  /** Focused row: every field, then Submit and Decline */
+  focusIndex: number;
+  error?: string;
+}
+
+export function isEnumProperty(
+  property: PrimitiveSchemaDefinition,
+): property is Extract<PrimitiveSchemaDefinition, { enum: string[] }> {
+  return 'enum' in property && Array.isArray(property.enum);
+}
+
+function initialValue(
+  property: PrimitiveSchemaDefinition,
+): ElicitationFieldValue {
+  const defaultValue = property['default'];
+  if (property.type === 'boolean') {
+    return typeof defaultValue === 'boolean' ? defaultValue : false;
+  }
+  if (isEnumProperty(property)) {
+    return property.enum.includes(defaultValue as string)
+      ? (defaultValue as string)
+      : undefined;
+  }
+  return defaultValue === undefined ? '' : String(defaultValue);
+}
+
+/** Returns the form with the schema's defaults and the first field focused */
+export function createElicitationFormState(
+  schema: ElicitationSchema,
+): ElicitationFormState {
+  return {
+    values: Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [
+        name,
+        initialValue(property),
+      ]),
+    ),
+    focusIndex: 0,
+  };
+}
+
+function checkNumber(
+  label: string,
+  property: PrimitiveSchemaDefinition,
+  value: number,
+): string | undefined {
+  if (Number.isNaN(value)) {
+    return `${label} must be a number.`;
+  }
+  if (property.type === 'integer' && !Number.isInteger(value)) {
+    return `${label} must be a whole number.`;
+  }
+  if ('minimum' in property && typeof property.minimum === 'number') {
+    if (value < property.minimum) {
+      return `${label} must be at least ${property.minimum}.`;
+    }
+  }
+  if ('maximum' in property && typeof property.maximum === 'number') {
+    if (value > property.maximum) {
+      return `${label} must be at most ${property.maximum}.`;
+    }
+  }
+  return undefined;
+}
+
+function checkString(
+  label: string,
+  property: PrimitiveSchemaDefinition,
+  value: string,
+): string | undefined {
+  if ('minLength' in property && typeof property.minLength === 'number') {
+    if (value.length < property.minLength) {
+      return `${label} must be at least ${property.minLength} characters.`;
+    }
+  }
+  if ('maxLength' in property && typeof property.maxLength === 'number') {
+    if (value.length > property.maxLength) {
+      return `${label} must be at most ${property.maxLength} characters.`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turns the form values into the content of an accepted elicitation, or
+ * returns the first problem to show the user.
+ */
+export function buildElicitationContent(
+  schema: ElicitationSchema,
+  values: Record<string, ElicitationFieldValue>,
+): { content: Record<string, string | number | boolean> } | { error: string } {
+  const content: Record<string, string | number | boolean> = {};
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const label = property.title ?? name;
+    const value = values[name];
+    if (typeof value === 'boolean') {
+      content[name] = value;
+      continue;
+    }
+    if (value === undefined || value === '') {
+      if (schema.required?.includes(name)) {
+        return { error: `${label} is required.` };
+      }
+      continue;
+    }
+    if (property.type === 'number' || property.type === 'integer') {
+      const number = Number(value.trim());
+      const error = checkNumber(label, property, number);
+      if (error) {
+        return { error };
+      }
+      content[name] = number;
+      continue;
+    }
+    const error = checkString(label, property, value);
+    if (error) {
+      return { error };
+    }
+    content[name] = value;
+  }
+  return { content };
+}
+
+export function displayElicitationValue(
+  property: PrimitiveSchemaDefinition,
+  value: ElicitationFieldValue,
+  focused: boolean,
+): string {
+  if (typeof value === 'boolean') {
+    return value ? '[x]' : '[ ]';
+  }
+  if (isEnumProperty(property)) {
+    if (value === undefined) {
+      return '(choose with ←/→)';
+    }
+    const index = property.enum.indexOf(value);
+    return `‹ ${property.enumNames?.[index] ?? value} ›`;
+  }
+  return focused ? `${value ?? ''}█` : (value ?? '');
+}
+
+function editField(
+  property: PrimitiveSchemaDefinition,
+  value: ElicitationFieldValue,
+  key: Key,
+): ElicitationFieldValue {
+  if (property.type === 'boolean') {
+    return ['space', 'left', 'right'].includes(key.name) ? !value : value;
+  }
+  if (isEnumProperty(property)) {
+    const options = property.enum;
+    const step = key.name === 'left' ? -1 : key.name === 'right' ? 1 : 0;
+    if (step === 0 || options.length === 0) {
+      return value;
+    }
+    const index = options.indexOf(value as string);
+    return index === -1 && step < 0
+      ? options[options.length - 1]
+      : options[(index + step + options.length) % options.length];
+  }
+
+  const text = typeof value === 'string' ? value : '';
+  if (key.name === 'backspace' || key.name === 'delete') {
+    return text.slice(0, -1);
+  }
+  if (key.paste && key.sequence) {
+    return text + key.sequence.replace(/[\r\n]+/g, ' ');
+  }
+  if (
+    !key.ctrl &&
+    !key.meta &&
+    key.sequence.length === 1 &&
+    key.sequence >= ' '
+  ) {
+    return text + key.sequence;
+  }
+  return value;
+}
+
+/**
+ * Applies a key press to the form. Returns the next state, or the result to
+ * send to the server once the user submits, declines or cancels.
+ */
+export function applyElicitationKey(
+  schema: ElicitationSchema,
+  state: ElicitationFormState,
+  key: Key,
+): { state: ElicitationFormState } | { result: ElicitResult } {
+  const fields = Object.entries(schema.properties);
+  const itemCount = fields.length + 2;
+  const submitIndex = fields.length;
+  const declineIndex = fields.length + 1;
+  const { focusIndex } = state;
+
+  if (key.name === 'escape') {
+    return { result: { action: 'cancel' } };
+  }
+  if (key.name === 'up' || (key.name === 'tab' && key.shift)) {
+    return {
+      state: { ...state, focusIndex: (focusIndex - 1 + itemCount) % itemCount },
+    };
+  }
+  if (key.name === 'down' || key.name === 'tab') {
+    return { state: { ...state, focusIndex: (focusIndex + 1) % itemCount } };
+  }
+  if (key.name === 'return') {
+    if (focusIndex === declineIndex) {
+      return { result: { action: 'decline' } };
+    }
+    if (focusIndex === submitIndex) {
+      const built = buildElicitationContent(schema, state.values);
+      return 'error' in built
+        ? { state: { ...state, error: built.error } }
+        : { result: { action: 'accept', content: built.content } };
+    }
+    return { state: { ...state, focusIndex: focusIndex + 1 } };
+  }
+
+  const field = fields[focusIndex];
+  if (!field) {
+    return { state };
+  }
+  const [name, property] = field;
+  return {
+    state: {
+      ...state,
+      values: {
+        ...state.values,
+        [name]: editField(property, state.values[name], key),
+      },
+      error: undefined,
+    },
+  };
+}
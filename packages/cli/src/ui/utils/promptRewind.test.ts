@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config, GitService, IContent } from '@vybestack/llxprt-code-core';
+import {
+  findRewindCheckpoint,
+  listConversationPrompts,
+  rewindToPrompt,
+} from './promptRewind.js';
+
+const history: IContent[] = [
+  { speaker: 'human', blocks: [{ type: 'text', text: 'first' }] },
+  {
+    speaker: 'ai',
+    blocks: [{ type: 'tool_call', id: 't1', name: 'ls', parameters: {} }],
+  },
+  {
+    speaker: 'tool',
+    blocks: [
+      { type: 'tool_response', callId: 't1', toolName: 'ls', result: 'a' },
+    ],
+  },
+  { speaker: 'ai', blocks: [{ type: 'text', text: 'done' }] },
+  { speaker: 'human', blocks: [{ type: 'text', text: 'second' }] },
+];
+
+describe('promptRewind', () => {
+  let checkpointDir: string;
+
+  const writeCheckpoint = async (file: string, data: object) =>
+    fs.promises.writeFile(path.join(checkpointDir, file), JSON.stringify(data));
+
+  beforeEach(async () => {
+    checkpointDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'llxprt-rewind-'),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(checkpointDir, { recursive: true, force: true });
+  });
+
+  it('numbers only the prompts typed by the user', () => {
+    expect(listConversationPrompts(history)).toEqual([
+      { turn: 1, historyIndex: 0, text: 'first' },
+      { turn: 2, historyIndex: 4, text: 'second' },
+    ]);
+  });
+
+  it('picks the earliest checkpoint after the prompt on the same session and branch', async () => {
+    const base = { sessionId: 's1', branch: 'main' };
+    await writeCheckpoint('2025-01-01T10-a.json', {
+      ...base,
+      historyLength: 2,
+      commitHash: 'before-prompt',
+    });
+    await writeCheckpoint('2025-01-01T11-b.json', {
+      ...base,
+      historyLength: 6,
+      commitHash: 'later',
+    });
+    await writeCheckpoint('2025-01-01T12-c.json', {
+      ...base,
+      historyLength: 5,
+      commitHash: 'wanted',
+    });
+    await writeCheckpoint('2025-01-01T13-d.json', {
+      ...base,
+      sessionId: 'other',
+      historyLength: 5,
+      commitHash: 'other-session',
+    });
+    await writeCheckpoint('2025-01-01T14-e.json', {
+      ...base,
+      branch: 'alt',
+      historyLength: 5,
+      commitHash: 'other-branch',
+    });
+    await writeCheckpoint('legacy.json', { commitHash: 'no-metadata' });
+
+    await expect(
+      findRewindCheckpoint(checkpointDir, {
+        sessionId: 's1',
+        branch: 'main',
+        historyIndex: 4,
+      }),
+    ).resolves.toBe('wanted');
+    await expect(
+      findRewindCheckpoint(path.join(checkpointDir, 'missing'), {
+        sessionId: 's1',
+        branch: 'main',
+        historyIndex: 4,
+      }),
+    ).resolves.toBeNull();
+  });
+
+  describe('rewindToPrompt', () => {
+    let historyService: {
+      getAll: ReturnType<typeof vi.fn>;
+      getActiveBranchName: ReturnType<typeof vi.fn>;
+      forkBranch: ReturnType<typeof vi.fn>;
+      truncate: ReturnType<typeof vi.fn>;
+    };
+    let gitService: { restoreProjectFromSnapshot: ReturnType<typeof vi.fn> };
+    let config: Config;
+
+    beforeEach(async () => {
+      historyService = {
+        getAll: vi.fn().mockReturnValue(history),
+        getActiveBranchName: vi.fn().mockReturnValue('main'),
+        forkBranch: vi.fn().mockReturnValue('branch-1'),
+        truncate: vi.fn(),
+      };
+      gitService = { restoreProjectFromSnapshot: vi.fn() };
+      config = {
+        getGeminiClient: () => ({
+          getHistoryService: () => historyService,
+        }),
+        getCheckpointingEnabled: () => true,
+        getSessionId: () => 's1',
+        storage: { getProjectTempCheckpointsDir: () => checkpointDir },
+      } as unknown as Config;
+      await writeCheckpoint('2025-01-01T10-a.json', {
+        sessionId: 's1',
+        branch: 'main',
+        historyLength: 5,
+        commitHash: 'abc123',
+      });
+    });
+
+    it('keeps the replaced turns on the old branch and restores files', async () => {
+      const result = await rewindToPrompt(
+        config,
+        gitService as unknown as GitService,
+        { turn: 2, historyIndex: 4, text: 'second', keepBranch: true },
+      );
+
+      expect(gitService.restoreProjectFromSnapshot).toHaveBeenCalledWith(
+        'abc123',
+      );
+      expect(historyService.forkBranch).toHaveBeenCalledWith({ atIndex: 4 });
+      expect(historyService.truncate).not.toHaveBeenCalled();
+      expect(result).toEqual({ keptBranch: 'main', filesRestored: true });
+    });
+
+    it('discards the replaced turns when asked to', async () => {
+      const result = await rewindToPrompt(config, undefined, {
+        turn: 1,
+        historyIndex: 0,
+        text: 'first',
+        keepBranch: false,
+      });
+
+      expect(historyService.truncate).toHaveBeenCalledWith(0);
+      expect(result).toEqual({ keptBranch: null, filesRestored: false });
+    });
+
+    it('refuses prompts that are no longer in the conversation', async () => {
+      await expect(
+        rewindToPrompt(config, undefined, {
+          turn: 3,
+          historyIndex: 1,
+          text: 'gone',
+          keepBranch: true,
+        }),
+      ).rejects.toThrow('Prompt 3 is no longer part of the conversation.');
+      expect(historyService.forkBranch).not.toHaveBeenCalled();
+    });
+  });
+});
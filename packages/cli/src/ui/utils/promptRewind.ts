@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Config, GitService, IContent } from '@vybestack/llxprt-code-core';
+
+export interface ConversationPrompt {
+  /** 1-based prompt number on the active branch */
+  turn: number;
+  /** Position of the prompt in the HistoryService contents */
+  historyIndex: number;
+  text: string;
+}
+
+/**
+ * A prompt picked with /edit that replaces the original on the next submit
+ */
+export interface PromptEditRequest extends ConversationPrompt {
+  /** Keep the replaced turns as a branch instead of discarding them */
+  keepBranch: boolean;
+}
+
+export interface PromptRewindResult {
+  /** Branch holding the replaced turns, or null if they were discarded */
+  keptBranch: string | null;
+  /** Whether project files were restored from a checkpoint */
+  filesRestored: boolean;
+}
+
+/**
+ * Lists the prompts typed by the user. Tool results are stored with the
+ * 'tool' speaker and are not counted.
+ */
+export function listConversationPrompts(
+  history: IContent[],
+): ConversationPrompt[] {
+  const prompts: ConversationPrompt[] = [];
+  history.forEach((content, historyIndex) => {
+    if (content.speaker !== 'human') {
+      return;
+    }
+    prompts.push({
+      turn: prompts.length + 1,
+      historyIndex,
+      text: content.blocks
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join(''),
+    });
+  });
+  return prompts;
+}
+
+/**
+ * Finds the earliest tool call checkpoint written after the given history
+ * position on the same session and branch. Its snapshot holds the project
+ * files as they were before the replaced turns changed anything.
+ */
+export async function findRewindCheckpoint(
+  checkpointDir: string,
+  target: { sessionId: string; branch: string; historyIndex: number },
+): Promise<string | null> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(checkpointDir)).filter((file) =>
+      file.endsWith('.json'),
+    );
+  } catch {
+    return null;
+  }
+
+  let best: { historyLength: number; file: string; commitHash: string } | null =
+    null;
+  for (const file of files) {
+    let checkpoint: {
+      sessionId?: string;
+      branch?: string;
+      historyLength?: number;
+      commitHash?: string;
+    };
+    try {
+      checkpoint = JSON.parse(
+        await fs.readFile(path.join(checkpointDir, file), 'utf-8'),
+      );
+    } catch {
+      continue;
+    }
+    if (
+      checkpoint.sessionId !== target.sessionId ||
+      checkpoint.branch !== target.branch ||
+      typeof checkpoint.historyLength !== 'number' ||
+      checkpoint.historyLength <= target.historyIndex ||
+      !checkpoint.commitHash
+    ) {
+      continue;
+    }
+    // File names start with a timestamp, so they break ties in time order
+    if (
+      !best ||
+      checkpoint.historyLength < best.historyLength ||
+      (checkpoint.historyLength === best.historyLength && file < best.file)
+    ) {
+      best = {
+        historyLength: checkpoint.historyLength,
+        file,
+        commitHash: checkpoint.commitHash,
+      };
+    }
+  }
+  return best?.commitHash ?? null;
+}
+
+/**
+ * Rewinds the conversation to just before a prompt so an edited version can
+ * be sent in its place. Project files are rolled back when checkpointing
+ * recorded a snapshot for the replaced turns.
+ * @throws Error if there is no conversation or restoring the files fails
+ */
+export async function rewindToPrompt(
+  config: Config,
+  gitService: GitService | undefined,
+  edit: PromptEditRequest,
+): Promise<PromptRewindResult> {
+  const historyService = config.getGeminiClient()?.getHistoryService();
+  if (!historyService) {
+    throw new Error('No conversation to edit.');
+  }
+  const prompt = historyService.getAll()[edit.historyIndex];
+  if (prompt?.speaker !== 'human') {
+    throw new Error(
+      `Prompt ${edit.turn} is no longer part of the conversation.`,
+    );
+  }
+
+  // Restore files first so a failed restore leaves the conversation intact
+  let filesRestored = false;
+  if (config.getCheckpointingEnabled() && gitService) {
+    const commitHash = await findRewindCheckpoint(
+      config.storage.getProjectTempCheckpointsDir(),
+      {
+        sessionId: config.getSessionId(),
+        branch: historyService.getActiveBranchName(),
+        historyIndex: edit.historyIndex,
+      },
+    );
+    if (commitHash) {
+      await gitService.restoreProjectFromSnapshot(commitHash);
+      filesRestored = true;
+    }
+  }
+
+  if (!edit.keepBranch) {
+    historyService.truncate(edit.historyIndex);
+    return { keptBranch: null, filesRestored };
+  }
+  // The new branch takes over; the original turns stay on the old one
+  const keptBranch = historyService.getActiveBranchName();
+  historyService.forkBranch({ atIndex: edit.historyIndex });
+  return { keptBranch, filesRestored };
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Config, ResourceRegistry } from '@vybestack/llxprt-code-core';
+import { ToolCallStatus } from '../types.js';
+import {
+  parseResourceMention,
+  readResourceMentions,
+} from './resourceMentions.js';
+
+describe('resource mentions', () => {
+  let resourceRegistry: ResourceRegistry;
+  let config: Config;
+  const addItem = vi.fn();
+
+  beforeEach(() => {
+    addItem.mockClear();
+    resourceRegistry = new ResourceRegistry();
+    resourceRegistry.setServerResources(
+      'docs',
+      [
+        {
+          uri: 'docs://api.md',
+          name: 'API',
+          serverName: 'docs',
+          read: async () => ({
+            contents: [{ uri: 'docs://api.md', text: '# API' }],
+          }),
+        },
+      ],
+      [
+        {
+          uriTemplate: 'docs://guides/{name}',
+          name: 'Guide',
+          serverName: 'docs',
+          read: async (uri: string) => ({
+            contents: [{ uri, text: 'guide' }],
+          }),
+        },
+      ],
+    );
+    config = {
+      getResourceRegistry: () => resourceRegistry,
+    } as unknown as Config;
+  });
+
+  describe('parseResourceMention', () => {
+    it('splits the server name from the URI at the first colon', () => {
+      expect(parseResourceMention('docs:docs://api.md', config)).toEqual({
+        serverName: 'docs',
+        uri: 'docs://api.md',
+      });
+    });
+
+    it('ignores paths that do not name a server with resources', () => {
+      expect(parseResourceMention('src/index.ts', config)).toBeUndefined();
+      expect(parseResourceMention('C:/repo/file.ts', config)).toBeUndefined();
+      expect(parseResourceMention(':docs://api.md', config)).toBeUndefined();
+      expect(parseResourceMention('docs:', config)).toBeUndefined();
+    });
+  });
+
+  describe('readResourceMentions', () => {
+    it('returns the contents and reports the read', async () => {
+      const parts = await readResourceMentions(
+        [
+          { serverName: 'docs', uri: 'docs://api.md' },
+          { serverName: 'docs', uri: 'docs://guides/setup' },
+        ],
+        config,
+        addItem,
+        130,
+      );
+
+      expect(parts).toEqual([
+        { text: '\n--- Content from referenced MCP resources ---' },
+        { text: '\nContent from @docs:docs://api.md:\n' },
+        { text: 'Content of docs://api.md:\n# API' },
+        { text: '\nContent from @docs:docs://guides/setup:\n' },
+        { text: 'Content of docs://guides/setup:\nguide' },
+      ]);
+      expect(addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              name: 'ReadMcpResource',
+              status: ToolCallStatus.Success,
+              resultDisplay:
+                'Successfully read: docs:docs://api.md, docs:docs://guides/setup',
+            }),
+          ],
+        }),
+        130,
+      );
+    });
+
+    it('returns null and reports the error when a resource cannot be read', async () => {
+      const parts = await readResourceMentions(
+        [{ serverName: 'docs', uri: 'other://x' }],
+        config,
+        addItem,
+        131,
+      );
+
+      expect(parts).toBeNull();
+      expect(addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [
+            expect.objectContaining({
+              status: ToolCallStatus.Error,
+              resultDisplay: expect.stringContaining(
+                "MCP server 'docs' has no resource 'other://x'",
+              ),
+            }),
+          ],
+        }),
+        131,
+      );
+    });
+  });
+});
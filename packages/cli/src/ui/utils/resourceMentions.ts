@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PartUnion } from '@google/genai';
+import {
+  Config,
+  getErrorMessage,
+  DEFAULT_AGENT_ID,
+  resourceContentsToParts,
+} from '@vybestack/llxprt-code-core';
+import {
+  HistoryItem,
+  IndividualToolCallDisplay,
+  ToolCallStatus,
+} from '../types.js';
+import type { UseHistoryManagerReturn } from '../hooks/useHistoryManager.js';
+
+export interface ResourceMention {
+  serverName: string;
+  uri: string;
+}
+
+/**
+ * Returns the MCP resource that an '@server:uri' path refers to, when the
+ * part before the first ':' names an MCP server with resources.
+ */
+export function parseResourceMention(
+  pathName: string,
+  config: Config,
+): ResourceMention | undefined {
+  const separator = pathName.indexOf(':');
+  const serverName = pathName.slice(0, separator);
+  const uri = pathName.slice(separator + 1);
+  if (
+    separator <= 0 ||
+    !uri ||
+    !config.getResourceRegistry().getServerNames().includes(serverName)
+  ) {
+    return undefined;
+  }
+  return { serverName, uri };
+}
+
+/**
+ * Reads the MCP resources mentioned in a query and reports the reads in the
+ * history. Returns null if any resource could not be read.
+ */
+export async function readResourceMentions(
+  mentions: ResourceMention[],
+  config: Config,
+  addItem: UseHistoryManagerReturn['addItem'],
+  userMessageTimestamp: number,
+): Promise<PartUnion[] | null> {
+  const labels = mentions
+    .map(({ serverName, uri }) => `${serverName}:${uri}`)
+    .join(', ');
+  const toolCallDisplay: IndividualToolCallDisplay = {
+    callId: `client-read-resources-${userMessageTimestamp}`,
+    name: 'ReadMcpResource',
+    description: labels,
+    status: ToolCallStatus.Success,
+    resultDisplay: `Successfully read: ${labels}`,
+    confirmationDetails: undefined,
+  };
+  const parts: PartUnion[] = [
+    { text: '\n--- Content from referenced MCP resources ---' },
+  ];
+  try {
+    for (const { serverName, uri } of mentions) {
+      const result = await config
+        .getResourceRegistry()
+        .readResource(serverName, uri);
+      parts.push({ text: `\nContent from @${serverName}:${uri}:\n` });
+      parts.push(...resourceContentsToParts(result));
+    }
+  } catch (error: unknown) {
+    toolCallDisplay.status = ToolCallStatus.Error;
+    toolCallDisplay.resultDisplay = `Error reading MCP resources (${labels}): ${getErrorMessage(error)}`;
+  }
+  addItem(
+    {
+      type: 'tool_group',
+      agentId: DEFAULT_AGENT_ID,
+      tools: [toolCallDisplay],
+    } as Omit<HistoryItem, 'id'>,
+    userMessageTimestamp,
+  );
+  return toolCallDisplay.status === ToolCallStatus.Success ? parts : null;
+}
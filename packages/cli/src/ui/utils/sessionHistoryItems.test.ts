@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { sessionHistoryToUiItems } from './sessionHistoryItems.js';
+import { ToolCallStatus } from '../types.js';
+
+describe('sessionHistoryToUiItems', () => {
+  it('replays prompts, answers and tool calls with their results', () => {
+    const items = sessionHistoryToUiItems([
+      { speaker: 'human', blocks: [{ type: 'text', text: 'list files' }] },
+      {
+        speaker: 'ai',
+        blocks: [
+          { type: 'thinking', thought: 'use ls' },
+          { type: 'text', text: 'Checking.' },
+          {
+            type: 'tool_call',
+            id: 'call-1',
+            name: 'list_directory',
+            parameters: { path: '/tmp' },
+          },
+          {
+            type: 'tool_call',
+            id: 'call-2',
+            name: 'read_file',
+            parameters: { absolute_path: '/tmp/missing' },
+          },
+        ],
+        metadata: { model: 'gpt-4.1' },
+      },
+      {
+        speaker: 'tool',
+        blocks: [
+          {
+            type: 'tool_response',
+            callId: 'call-1',
+            toolName: 'list_directory',
+            result: { output: 'a.txt' },
+          },
+          {
+            type: 'tool_response',
+            callId: 'call-2',
+            toolName: 'read_file',
+            result: undefined,
+            error: 'File not found',
+          },
+        ],
+      },
+    ]);
+
+    expect(items).toEqual([
+      { type: 'user', text: 'list files' },
+      { type: 'gemini', text: 'Checking.', model: 'gpt-4.1' },
+      {
+        type: 'tool_group',
+        tools: [
+          {
+            callId: 'call-1',
+            name: 'list_directory',
+            description: '/tmp',
+            resultDisplay: 'a.txt',
+            status: ToolCallStatus.Success,
+            confirmationDetails: undefined,
+          },
+          {
+            callId: 'call-2',
+            name: 'read_file',
+            description: '/tmp/missing',
+            resultDisplay: 'File not found',
+            status: ToolCallStatus.Error,
+            confirmationDetails: undefined,
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IContent, ToolResponseBlock } from '@vybestack/llxprt-code-core';
+import {
+  ToolCallStatus,
+  type HistoryItemWithoutId,
+  type IndividualToolCallDisplay,
+} from '../types.js';
+
+function formatToolResult(response: ToolResponseBlock | undefined): string {
+  if (!response) {
+    return '';
+  }
+  if (response.error) {
+    return response.error;
+  }
+  const { result } = response;
+  if (typeof result === 'string') {
+    return result;
+  }
+  if (
+    result &&
+    typeof result === 'object' &&
+    'output' in result &&
+    typeof result.output === 'string'
+  ) {
+    return result.output;
+  }
+  return result === undefined ? '' : JSON.stringify(result);
+}
+
+function describeToolCall(parameters: unknown): string {
+  if (!parameters || typeof parameters !== 'object') {
+    return '';
+  }
+  return Object.values(parameters)
+    .filter((value) => typeof value === 'string' || typeof value === 'number')
+    .join(' ');
+}
+
+/**
+ * Rebuilds display items from saved IContent history so a resumed session
+ * looks the way it did when it was saved. Thinking blocks are not replayed.
+ */
+export function sessionHistoryToUiItems(
+  history: IContent[],
+): HistoryItemWithoutId[] {
+  const responses = new Map<string, ToolResponseBlock>();
+  for (const content of history) {
+    for (const block of content.blocks) {
+      if (block.type === 'tool_response') {
+        responses.set(block.callId, block);
+      }
+    }
+  }
+
+  const items: HistoryItemWithoutId[] = [];
+  for (const content of history) {
+    if (content.speaker === 'tool') {
+      continue;
+    }
+
+    const text = content.blocks
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+    if (text.trim()) {
+      items.push(
+        content.speaker === 'human'
+          ? { type: 'user', text }
+          : { type: 'gemini', text, model: content.metadata?.model },
+      );
+    }
+
+    const tools: IndividualToolCallDisplay[] = [];
+    for (const block of content.blocks) {
+      if (block.type !== 'tool_call') {
+        continue;
+      }
+      const response = responses.get(block.id);
+      tools.push({
+        callId: block.id,
+        name: block.name,
+        description: block.description ?? describeToolCall(block.parameters),
+        resultDisplay: formatToolResult(response),
+        status: response?.error ? ToolCallStatus.Error : ToolCallStatus.Success,
+        confirmationDetails: undefined,
+      });
+    }
+    if (tools.length > 0) {
+      items.push({ type: 'tool_group', tools });
+    }
+  }
+  return items;
+}
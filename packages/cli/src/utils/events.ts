@@ -9,6 +9,7 @@ import { EventEmitter } from 'events';
 export enum AppEvent {
   OpenDebugConsole = 'open-debug-console',
   LogError = 'log-error',
+  EditPrompt = 'edit-prompt',
 }
 
 export const appEvents = new EventEmitter();
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildBwrapArgs, BwrapSandboxOptions } from './sandbox.js';
+
+describe('buildBwrapArgs', () => {
+  const options: BwrapSandboxOptions = {
+    profile: 'permissive-open',
+    targetDir: '/work/project',
+    includeDirs: ['/work/shared'],
+    homeDir: '/home/dev',
+    tmpDir: '/tmp',
+    landlock: false,
+    env: { SANDBOX: 'bwrap' },
+  };
+  const command = ['/usr/bin/node', '/opt/llxprt/index.js', '--debug'];
+
+  /** Returns the values that follow each occurrence of a flag. */
+  function flagValues(args: string[], flag: string, count = 1): string[][] {
+    const separator = args.indexOf('--');
+    return args
+      .slice(0, separator)
+      .flatMap((arg, index) =>
+        arg === flag ? [args.slice(index + 1, index + 1 + count)] : [],
+      );
+  }
+
+  it('mounts the host read-only and the workspace read-write', () => {
+    const args = buildBwrapArgs(options, command);
+
+    expect(args.slice(0, 6)).toEqual([
+      '--die-with-parent',
+      '--ro-bind',
+      '/',
+      '/',
+      '--proc',
+      '/proc',
+    ]);
+    expect(flagValues(args, '--bind', 2)).toEqual([
+      ['/work/project', '/work/project'],
+      ['/work/shared', '/work/shared'],
+      ['/tmp', '/tmp'],
+    ]);
+    expect(flagValues(args, '--bind-try', 2).map(([from]) => from)).toEqual([
+      '/home/dev/.llxprt',
+      '/home/dev/.npm',
+      '/home/dev/.cache',
+      '/home/dev/.gitconfig',
+    ]);
+    expect(flagValues(args, '--setenv', 2)).toEqual([['SANDBOX', 'bwrap']]);
+    expect(flagValues(args, '--chdir')).toEqual([['/work/project']]);
+    expect(args.slice(args.indexOf('--') + 1)).toEqual(command);
+  });
+
+  it('shares host devices and network in permissive-open', () => {
+    const args = buildBwrapArgs(options, command);
+
+    expect(flagValues(args, '--dev-bind', 2)).toEqual([['/dev', '/dev']]);
+    expect(args).not.toContain('--unshare-net');
+    expect(args).not.toContain('--unshare-pid');
+  });
+
+  it('isolates processes, devices and network in restrictive-closed', () => {
+    const args = buildBwrapArgs(
+      { ...options, profile: 'restrictive-closed' },
+      command,
+    );
+
+    expect(flagValues(args, '--dev')).toEqual([['/dev']]);
+    expect(args).toEqual(
+      expect.arrayContaining([
+        '--unshare-pid',
+        '--unshare-ipc',
+        '--unshare-uts',
+        '--unshare-net',
+      ]),
+    );
+    expect(args).not.toContain('--dev-bind');
+  });
+
+  it('applies landlock write rules in restrictive profiles', () => {
+    const args = buildBwrapArgs(
+      { ...options, profile: 'restrictive-open', landlock: true },
+      command,
+    );
+    const inner = args.slice(args.indexOf('--') + 1);
+
+    expect(inner[0]).toBe('setpriv');
+    expect(inner[1]).toBe('--landlock-access');
+    expect(inner[2]).toMatch(/^fs:write-file,/);
+    expect(
+      flagValues(inner, '--landlock-rule').map(([rule]) =>
+        rule.split(':').at(-1),
+      ),
+    ).toEqual(['/work/project', '/work/shared', '/tmp', '/dev']);
+    expect(inner.slice(inner.indexOf('--') + 1)).toEqual(command);
+  });
+
+  it('ignores landlock in permissive profiles', () => {
+    const args = buildBwrapArgs({ ...options, landlock: true }, command);
+
+    expect(args).not.toContain('setpriv');
+  });
+
+  it('runs the command behind the proxy relay in proxied profiles', () => {
+    const args = buildBwrapArgs(
+      { ...options, profile: 'permissive-proxied' },
+      command,
+    );
+    const inner = args.slice(args.indexOf('--') + 1);
+
+    expect(args).toContain('--unshare-net');
+    expect(inner[0]).toBe(process.execPath);
+    expect(inner[1]).toBe('-e');
+    expect(inner[2]).toContain("server.listen(8877, '127.0.0.1'");
+    expect(inner.slice(3)).toEqual(command);
+  });
+});
@@ -16,6 +16,7 @@ import path from 'node:path';
 import fs from 'node:fs';
 import { readFile } from 'node:fs/promises';
 import { fileURLToPath } from 'node:url';
+import net from 'node:net';
 import { quote, parse } from 'shell-quote';
 import {
   USER_SETTINGS_DIR,
@@ -44,6 +45,7 @@ function getContainerPath(hostPath: string): string {
 const LOCAL_DEV_SANDBOX_IMAGE_NAME = 'llxprt-code-sandbox';
 const SANDBOX_NETWORK_NAME = 'llxprt-code-sandbox';
 const SANDBOX_PROXY_NAME = 'llxprt-code-sandbox-proxy';
+const SANDBOX_PROXY_PORT = 8877;
 const BUILTIN_SEATBELT_PROFILES = [
   'permissive-open',
   'permissive-closed',
@@ -352,6 +354,11 @@ export async function start_sandbox(
       return;
     }
 
+    if (config.command === 'bwrap') {
+      await startBwrapSandbox(nodeArgs, cliConfig, cliArgs);
+      return;
+    }
+
     console.error(`hopping into sandbox (command: ${config.command}) ...`);
 
     // determine full path for gemini-cli to distinguish linked vs installed setting
@@ -823,6 +830,294 @@ export async function start_sandbox(
   }
 }
 
+// Helper functions for the bubblewrap sandbox
+
+/**
+ * Paths the sandbox may write to besides the workspace, matching the
+ * writable paths of the macOS seatbelt profiles.
+ */
+function writableHomePaths(homeDir: string): string[] {
+  return ['.llxprt', '.npm', '.cache', '.gitconfig'].map((name) =>
+    path.join(homeDir, name),
+  );
+}
+
+/** Landlock filesystem accesses that modify the file system. */
+const LANDLOCK_WRITE_ACCESSES = [
+  'write-file',
+  'remove-dir',
+  'remove-file',
+  'make-char',
+  'make-dir',
+  'make-reg',
+  'make-sock',
+  'make-fifo',
+  'make-block',
+  'make-sym',
+].join(',');
+
+/**
+ * Runs inside a proxied sandbox: listens on the proxy port of the sandbox's
+ * private network, forwards connections to the host-side relay socket, then
+ * runs the command given as its arguments.
+ */
+const PROXY_RELAY_SCRIPT = `
+const net = require('node:net');
+const { spawn } = require('node:child_process');
+const socketPath = process.env.LLXPRT_SANDBOX_PROXY_SOCKET;
+const server = net.createServer((client) => {
+  const upstream = net.connect(socketPath);
+  client.pipe(upstream).pipe(client);
+  client.on('error', () => upstream.destroy());
+  upstream.on('error', () => client.destroy());
+});
+server.listen(${SANDBOX_PROXY_PORT}, '127.0.0.1', () => {
+  const [command, ...args] = process.argv.slice(1);
+  const child = spawn(command, args, { stdio: 'inherit' });
+  child.on('exit', (code, signal) => {
+    if (signal) process.kill(process.pid, signal);
+    process.exit(code ?? 1);
+  });
+});
+`;
+
+export interface BwrapSandboxOptions {
+  /** One of the built-in profiles, e.g. `permissive-open`. */
+  profile: string;
+  targetDir: string;
+  /** Additional workspace directories, mounted read-write. */
+  includeDirs: string[];
+  homeDir: string;
+  tmpDir: string;
+  /** Whether to apply landlock write rules in restrictive profiles. */
+  landlock: boolean;
+  env: Record<string, string>;
+}
+
+/**
+ * Builds the bubblewrap arguments that run `command` under a profile. The
+ * profiles mirror the macOS seatbelt profiles: the host file system is
+ * visible read-only except for the workspace and a few caches, and
+ * `restrictive` profiles also get private process, IPC and device
+ * namespaces. `closed` and `proxied` profiles get a private network with
+ * only loopback; `proxied` reaches the host proxy through a relay.
+ */
+export function buildBwrapArgs(
+  options: BwrapSandboxOptions,
+  command: string[],
+): string[] {
+  const [strictness, network] = options.profile.split('-');
+  const restrictive = strictness === 'restrictive';
+  const args = ['--die-with-parent', '--ro-bind', '/', '/', '--proc', '/proc'];
+
+  if (restrictive) {
+    args.push(
+      '--dev',
+      '/dev',
+      '--unshare-pid',
+      '--unshare-ipc',
+      '--unshare-uts',
+      '--unshare-cgroup-try',
+    );
+  } else {
+    args.push('--dev-bind', '/dev', '/dev');
+  }
+  if (network !== 'open') {
+    args.push('--unshare-net');
+  }
+
+  const writablePaths = [
+    options.targetDir,
+    ...options.includeDirs,
+    options.tmpDir,
+  ];
+  for (const writablePath of writablePaths) {
+    args.push('--bind', writablePath, writablePath);
+  }
+  for (const homePath of writableHomePaths(options.homeDir)) {
+    args.push('--bind-try', homePath, homePath);
+  }
+
+  for (const [name, value] of Object.entries(options.env)) {
+    args.push('--setenv', name, value);
+  }
+  args.push('--chdir', options.targetDir, '--');
+
+  if (restrictive && options.landlock) {
+    args.push('setpriv', '--landlock-access', `fs:${LANDLOCK_WRITE_ACCESSES}`);
+    for (const writablePath of [
+      ...writablePaths,
+      ...writableHomePaths(options.homeDir).filter((p) => fs.existsSync(p)),
+      '/dev',
+    ]) {
+      args.push(
+        '--landlock-rule',
+        `path-beneath:${LANDLOCK_WRITE_ACCESSES}:${writablePath}`,
+      );
+    }
+    args.push('--');
+  }
+  if (network === 'proxied') {
+    args.push(process.execPath, '-e', PROXY_RELAY_SCRIPT);
+  }
+  args.push(...command);
+  return args;
+}
+
+/**
+ * Returns whether the kernel enforces landlock and `setpriv` can apply
+ * landlock rules (util-linux 2.40 and later).
+ */
+function isLandlockAvailable(): boolean {
+  try {
+    const lsms = fs.readFileSync('/sys/kernel/security/lsm', 'utf8');
+    if (!lsms.split(',').includes('landlock')) {
+      return false;
+    }
+    return execFileSync('setpriv', ['--help'], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).includes('--landlock-access');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Forwards connections on a Unix socket to the proxy on the host, so that a
+ * sandbox without network access can reach it. Resolves once listening.
+ */
+async function startProxyRelay(socketPath: string): Promise<net.Server> {
+  fs.rmSync(socketPath, { force: true });
+  const server = net.createServer((client) => {
+    const upstream = net.connect(SANDBOX_PROXY_PORT, 'localhost');
+    client.pipe(upstream).pipe(client);
+    client.on('error', () => upstream.destroy());
+    upstream.on('error', () => client.destroy());
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => resolve());
+  });
+  return server;
+}
+
+async function startBwrapSandbox(
+  nodeArgs: string[],
+  cliConfig: Config | undefined,
+  cliArgs: string[],
+): Promise<void> {
+  const profile = (process.env.BWRAP_PROFILE ??= 'permissive-open');
+  if (!BUILTIN_SEATBELT_PROFILES.includes(profile)) {
+    throw new FatalSandboxError(
+      `Unknown bubblewrap profile '${profile}'. Must be one of ${BUILTIN_SEATBELT_PROFILES.join(', ')}`,
+    );
+  }
+  const proxied = profile.endsWith('-proxied');
+
+  const targetDir = fs.realpathSync(cliConfig?.getTargetDir() || process.cwd());
+  const includeDirs = (cliConfig?.getWorkspaceContext().getDirectories() ?? [])
+    .map((dir) => fs.realpathSync(dir))
+    .filter((dir) => dir !== targetDir);
+  const tmpDir = fs.realpathSync(os.tmpdir());
+
+  const nodeOptions = [
+    ...(process.env.NODE_OPTIONS ? [process.env.NODE_OPTIONS] : []),
+    ...(process.env.DEBUG ? ['--inspect-brk'] : []),
+    ...nodeArgs,
+  ].join(' ');
+  const env: Record<string, string> = { SANDBOX: 'bwrap' };
+  if (nodeOptions) {
+    env['NODE_OPTIONS'] = nodeOptions;
+  }
+
+  // start the proxy if LLXPRT_SANDBOX_PROXY_COMMAND is set, then relay
+  // connections to it from the sandbox's private network
+  const proxyCommand = process.env.LLXPRT_SANDBOX_PROXY_COMMAND;
+  let proxyProcess: ChildProcess | undefined = undefined;
+  let proxyRelay: net.Server | undefined = undefined;
+  let proxySocket: string | undefined = undefined;
+  if (proxied) {
+    if (proxyCommand) {
+      proxyProcess = spawn(proxyCommand, {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        shell: true,
+        detached: true,
+      });
+      const stopProxy = () => {
+        if (proxyProcess?.pid) {
+          process.kill(-proxyProcess.pid, 'SIGTERM');
+        }
+      };
+      process.on('exit', stopProxy);
+      process.on('SIGINT', stopProxy);
+      process.on('SIGTERM', stopProxy);
+      proxyProcess.stderr?.on('data', (data) => {
+        console.error(data.toString().trim());
+      });
+      console.log('waiting for proxy to start ...');
+      await execAsync(
+        `until timeout 0.25 curl -s http://localhost:${SANDBOX_PROXY_PORT}; do sleep 0.25; done`,
+      );
+    }
+    proxySocket = path.join(tmpDir, `llxprt-sandbox-proxy-${process.pid}.sock`);
+    proxyRelay = await startProxyRelay(proxySocket);
+    const proxy = `http://localhost:${SANDBOX_PROXY_PORT}`;
+    Object.assign(env, {
+      LLXPRT_SANDBOX_PROXY_SOCKET: proxySocket,
+      HTTPS_PROXY: proxy,
+      https_proxy: proxy,
+      HTTP_PROXY: proxy,
+      http_proxy: proxy,
+    });
+  }
+
+  const landlock = profile.startsWith('restrictive-') && isLandlockAvailable();
+  const args = buildBwrapArgs(
+    {
+      profile,
+      targetDir,
+      includeDirs,
+      homeDir: os.homedir(),
+      tmpDir,
+      landlock,
+      env,
+    },
+    cliArgs,
+  );
+
+  // Log on STDERR so it doesn't clutter the output on STDOUT
+  console.error(
+    `using bubblewrap (profile: ${profile}${landlock ? ', landlock' : ''}) ...`,
+  );
+  try {
+    const sandboxProcess = spawn('bwrap', args, { stdio: 'inherit' });
+    proxyProcess?.on('close', (code, signal) => {
+      sandboxProcess.kill('SIGTERM');
+      console.error(
+        `Proxy command '${proxyCommand}' exited with code ${code}, signal ${signal}`,
+      );
+    });
+    await new Promise<void>((resolve, reject) => {
+      sandboxProcess.on('error', (err) =>
+        reject(
+          new FatalSandboxError(`Failed to start bubblewrap: ${err.message}`),
+        ),
+      );
+      sandboxProcess.on('close', (code, signal) => {
+        if (code !== 0) {
+          console.log(
+            `Sandbox process exited with code: ${code}, signal: ${signal}`,
+          );
+        }
+        resolve();
+      });
+    });
+  } finally {
+    proxyRelay?.close();
+  }
+}
+
 // Helper functions to ensure sandbox image is present
 async function imageExists(sandbox: string, image: string): Promise<boolean> {
   return new Promise((resolve) => {
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  azureAuthStrategy,
+  getAuthStrategy,
+  sigv4AuthStrategy,
+  type AuthStrategyRequest,
+} from './authStrategies.js';
+import { signRequestSigV4 } from './sigv4.js';
+
+function createRequest(
+  overrides: Partial<AuthStrategyRequest> = {},
+  settings: Record<string, unknown> = {},
+): AuthStrategyRequest {
+  return {
+    credential: '',
+    model: 'gpt-4o',
+    getSetting: (key) => settings[key],
+    ...overrides,
+  };
+}
+
+function stubFetch() {
+  const fetchMock = vi.fn(
+    async (_input: RequestInfo | URL, _init?: RequestInit) =>
+      new Response('{}'),
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('signRequestSigV4', () => {
+  it('matches the AWS get-vanilla test vector', () => {
+    const headers = signRequestSigV4({
+      method: 'GET',
+      url: 'https://example.amazonaws.com/',
+      headers: {},
+      region: 'us-east-1',
+      service: 'service',
+      credentials: {
+        accessKeyId: 'AKIDEXAMPLE',
+        secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+      },
+      date: new Date('2015-08-30T12:36:00Z'),
+    });
+
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers['authorization']).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, ' +
+        'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    );
+  });
+});
+
+describe('auth strategies', () => {
+  it('defaults to bearer and rejects unknown modes', () => {
+    expect(getAuthStrategy(undefined).mode).toBe('bearer');
+    expect(getAuthStrategy('AZURE').mode).toBe('azure');
+    expect(() => getAuthStrategy('kerberos')).toThrow(
+      "Unknown auth-mode 'kerberos'. Valid modes are: bearer, azure, sigv4",
+    );
+  });
+
+  it('builds Azure deployment URLs and moves the key to api-key', async () => {
+    const fetchMock = stubFetch();
+    const options = azureAuthStrategy.createClientOptions(
+      createRequest(
+        { credential: 'azure-key', baseURL: 'https://res.openai.azure.com/' },
+        { 'azure-deployment': 'prod-4o' },
+      ),
+    );
+
+    expect(options.baseURL).toBe(
+      'https://res.openai.azure.com/openai/deployments/prod-4o',
+    );
+    expect(options.defaultQuery).toEqual({ 'api-version': '2024-10-21' });
+
+    await options.fetch!(`${options.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer azure-key', 'x-trace': '1' },
+    });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init?.headers).toEqual({ 'api-key': 'azure-key', 'x-trace': '1' });
+  });
+
+  it('keeps Azure base URLs that already point at an /openai/ path', () => {
+    const options = azureAuthStrategy.createClientOptions(
+      createRequest(
+        {
+          credential: 'azure-key',
+          baseURL: 'https://res.openai.azure.com/openai/v1',
+        },
+        { 'api-version': 'preview' },
+      ),
+    );
+
+    expect(options.baseURL).toBe('https://res.openai.azure.com/openai/v1');
+    expect(options.defaultQuery).toEqual({ 'api-version': 'preview' });
+  });
+
+  it('signs requests with SigV4 credentials from the environment', async () => {
+    vi.stubEnv('AWS_ACCESS_KEY_ID', 'AKIDEXAMPLE');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'secret');
+    vi.stubEnv('AWS_SESSION_TOKEN', 'session');
+    vi.stubEnv('AWS_REGION', 'us-west-2');
+    const fetchMock = stubFetch();
+
+    const options = sigv4AuthStrategy.createClientOptions(
+      createRequest({ baseURL: 'https://gateway.example.com/v1' }),
+    );
+    await options.fetch!('https://gateway.example.com/v1/messages', {
+      method: 'POST',
+      headers: { 'x-api-key': options.apiKey },
+      body: '{"model":"claude"}',
+    });
+
+    const headers = fetchMock.mock.calls[0][1]?.headers as Record<
+      string,
+      string
+    >;
+    expect(headers).not.toHaveProperty('x-api-key');
+    expect(headers).not.toHaveProperty('host');
+    expect(headers['x-amz-security-token']).toBe('session');
+    expect(headers['authorization']).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-west-2\/bedrock\/aws4_request, SignedHeaders=host;x-amz-date;x-amz-security-token, Signature=[0-9a-f]{64}$/,
+    );
+  });
+
+  it('requires a region for SigV4 signing', () => {
+    vi.stubEnv('AWS_REGION', '');
+    vi.stubEnv('AWS_DEFAULT_REGION', '');
+
+    expect(() =>
+      sigv4AuthStrategy.createClientOptions(
+        createRequest({ credential: 'AKID:secret' }),
+      ),
+    ).toThrow('auth-mode sigv4 needs a region');
+  });
+});
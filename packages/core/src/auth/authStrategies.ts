@@ -0,0 +1,264 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Request auth strategies.
+ *
+ * The precedence chain in precedence.ts decides *which* credential to use;
+ * a strategy decides *how* that credential is attached to provider requests.
+ * The strategy is selected with the `auth-mode` ephemeral setting, so it is
+ * saved and restored with profiles.
+ */
+
+import {
+  getSigV4CredentialsFromEnv,
+  parseSigV4Credentials,
+  signRequestSigV4,
+} from './sigv4.js';
+
+export const AUTH_MODE_SETTING = 'auth-mode';
+export const AZURE_DEPLOYMENT_SETTING = 'azure-deployment';
+export const API_VERSION_SETTING = 'api-version';
+export const SIGV4_REGION_SETTING = 'sigv4-region';
+export const SIGV4_SERVICE_SETTING = 'sigv4-service';
+
+export const DEFAULT_AUTH_MODE = 'bearer';
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+export const DEFAULT_SIGV4_SERVICE = 'bedrock';
+
+/**
+ * Placeholder handed to SDKs that refuse to build a client without a key.
+ * The strategy's fetch strips the SDK auth header before it is sent.
+ */
+const SDK_PLACEHOLDER_KEY = 'llxprt-request-auth';
+
+/** Auth headers added by the OpenAI and Anthropic SDKs */
+const SDK_AUTH_HEADERS = ['authorization', 'x-api-key'];
+
+export interface AuthStrategyRequest {
+  /** Credential resolved by the precedence chain; may be empty */
+  credential: string;
+  baseURL?: string;
+  model: string;
+  getSetting(key: string): unknown;
+}
+
+/**
+ * Options merged into the provider SDK client constructor.
+ */
+export interface AuthStrategyClientOptions {
+  apiKey: string;
+  baseURL?: string;
+  defaultHeaders?: Record<string, string>;
+  defaultQuery?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export interface ProviderAuthStrategy {
+  readonly mode: string;
+  readonly description: string;
+  /**
+   * True when requests cannot be sent without a credential from the
+   * precedence chain. Bearer auth leaves that check to the provider, since
+   * local servers accept unauthenticated requests, and SigV4 can fall back
+   * to AWS keys from the environment.
+   */
+  readonly requiresCredential: boolean;
+  createClientOptions(request: AuthStrategyRequest): AuthStrategyClientOptions;
+}
+
+function readStringSetting(
+  request: AuthStrategyRequest,
+  key: string,
+): string | undefined {
+  const value = request.getSetting(key);
+  return typeof value === 'string' && value.trim() !== ''
+    ? value.trim()
+    : undefined;
+}
+
+function headersToRecord(headers: HeadersInit | undefined) {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+/**
+ * Wraps fetch so headers can be rewritten after the SDK has built the
+ * request.
+ */
+function createRewritingFetch(
+  rewrite: (
+    url: string,
+    init: RequestInit,
+    headers: Record<string, string>,
+  ) => Record<string, string>,
+  baseFetch: typeof fetch = fetch,
+): typeof fetch {
+  return async (input, init = {}) => {
+    const url =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.toString()
+          : input.url;
+    const headers = headersToRecord(init.headers);
+    for (const name of SDK_AUTH_HEADERS) {
+      delete headers[name];
+    }
+    return baseFetch(url, { ...init, headers: rewrite(url, init, headers) });
+  };
+}
+
+export const bearerAuthStrategy: ProviderAuthStrategy = {
+  mode: 'bearer',
+  description: 'Provider API key or OAuth token (default)',
+  requiresCredential: false,
+  createClientOptions: (request) => ({
+    apiKey: request.credential,
+    baseURL: request.baseURL,
+  }),
+};
+
+/**
+ * Azure OpenAI: deployment-scoped URLs, an `api-version` query parameter and
+ * the key in an `api-key` header. A base URL that already contains an
+ * `/openai/` path (a full deployment URL or the `/openai/v1` API) is used as
+ * is; otherwise the deployment defaults to the model name.
+ */
+export const azureAuthStrategy: ProviderAuthStrategy = {
+  mode: 'azure',
+  description: 'Azure OpenAI deployment URL with an api-key header',
+  requiresCredential: true,
+  createClientOptions: (request) => {
+    const endpoint = request.baseURL?.replace(/\/+$/u, '');
+    if (!endpoint) {
+      throw new Error(
+        'auth-mode azure requires a base URL such as https://<resource>.openai.azure.com (set it with /baseurl).',
+      );
+    }
+    const deployment =
+      readStringSetting(request, AZURE_DEPLOYMENT_SETTING) ?? request.model;
+    const baseURL = /\/openai(\/|$)/u.test(new URL(endpoint).pathname)
+      ? endpoint
+      : `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}`;
+    const apiVersion =
+      readStringSetting(request, API_VERSION_SETTING) ??
+      DEFAULT_AZURE_API_VERSION;
+
+    return {
+      apiKey: request.credential || SDK_PLACEHOLDER_KEY,
+      baseURL,
+      defaultQuery: { 'api-version': apiVersion },
+      fetch: createRewritingFetch((_url, _init, headers) => ({
+        ...headers,
+        'api-key': request.credential,
+      })),
+    };
+  },
+};
+
+/**
+ * AWS Signature Version 4. Credentials come from the precedence chain as
+ * `accessKeyId:secretAccessKey[:sessionToken]` (so /key and /keyfile work)
+ * or from the standard AWS_* environment variables.
+ */
+export const sigv4AuthStrategy: ProviderAuthStrategy = {
+  mode: 'sigv4',
+  description: 'AWS SigV4-signed requests (Bedrock-style gateways)',
+  requiresCredential: false,
+  createClientOptions: (request) => {
+    const credentials =
+      parseSigV4Credentials(request.credential) ?? getSigV4CredentialsFromEnv();
+    if (!credentials) {
+      throw new Error(
+        'auth-mode sigv4 needs AWS credentials: set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY, or use /key <accessKeyId>:<secretAccessKey>[:<sessionToken>].',
+      );
+    }
+    const region =
+      readStringSetting(request, SIGV4_REGION_SETTING) ??
+      process.env.AWS_REGION ??
+      process.env.AWS_DEFAULT_REGION;
+    if (!region) {
+      throw new Error(
+        'auth-mode sigv4 needs a region: /set sigv4-region <region> or set AWS_REGION.',
+      );
+    }
+    const service =
+      readStringSetting(request, SIGV4_SERVICE_SETTING) ??
+      DEFAULT_SIGV4_SERVICE;
+
+    return {
+      apiKey: SDK_PLACEHOLDER_KEY,
+      baseURL: request.baseURL,
+      fetch: createRewritingFetch((url, init, headers) => {
+        if (init.body !== undefined && init.body !== null) {
+          if (
+            typeof init.body !== 'string' &&
+            !(init.body instanceof Uint8Array)
+          ) {
+            throw new Error(
+              'auth-mode sigv4 can only sign string or byte request bodies.',
+            );
+          }
+        }
+        const signed = signRequestSigV4({
+          method: init.method ?? 'GET',
+          url,
+          headers,
+          body: (init.body ?? undefined) as string | Uint8Array | undefined,
+          region,
+          service,
+          credentials,
+        });
+        // fetch derives Host from the URL itself
+        delete signed['host'];
+        return signed;
+      }),
+    };
+  },
+};
+
+const authStrategies = new Map<string, ProviderAuthStrategy>();
+
+/**
+ * Registers a request auth strategy under its mode name, replacing any
+ * existing strategy with the same name.
+ */
+export function registerAuthStrategy(strategy: ProviderAuthStrategy): void {
+  authStrategies.set(strategy.mode, strategy);
+}
+
+registerAuthStrategy(bearerAuthStrategy);
+registerAuthStrategy(azureAuthStrategy);
+registerAuthStrategy(sigv4AuthStrategy);
+
+export function listAuthStrategies(): ProviderAuthStrategy[] {
+  return [...authStrategies.values()];
+}
+
+/**
+ * Resolves the strategy for an `auth-mode` value. Unset selects bearer auth;
+ * an unknown mode is an error rather than a silent fallback so requests never
+ * go out with the wrong credentials attached.
+ */
+export function getAuthStrategy(mode: unknown): ProviderAuthStrategy {
+  if (mode === undefined || mode === null || mode === '') {
+    return bearerAuthStrategy;
+  }
+  const strategy =
+    typeof mode === 'string'
+      ? authStrategies.get(mode.trim().toLowerCase())
+      : undefined;
+  if (!strategy) {
+    throw new Error(
+      `Unknown auth-mode '${String(mode)}'. Valid modes are: ${[...authStrategies.keys()].join(', ')}`,
+    );
+  }
+  return strategy;
+}
@@ -40,6 +40,11 @@ export interface AuthPrecedenceConfig {
 }
 
 import { OAuthToken } from './types.js';
+import {
+  AUTH_MODE_SETTING,
+  getAuthStrategy,
+  type ProviderAuthStrategy,
+} from './authStrategies.js';
 
 export interface OAuthTokenRequestMetadata {
   runtimeAuthScopeId?: string;
@@ -890,6 +895,19 @@ export class AuthPrecedenceResolver {
     return null;
   }
 
+  /**
+   * Returns the request auth strategy selected by the `auth-mode` setting.
+   * The credential from resolveAuthentication() is handed to this strategy,
+   * which decides how it is attached to requests (bearer, Azure api-key,
+   * SigV4 signature).
+   */
+  resolveAuthStrategy(options?: ResolveAuthOptions): ProviderAuthStrategy {
+    const settingsService = this.resolveSettingsService(
+      options?.settingsService ?? undefined,
+    );
+    return getAuthStrategy(settingsService.get(AUTH_MODE_SETTING));
+  }
+
   /**
    * Reads API key from a file path, handling tilde expansion, absolute and relative paths
    */
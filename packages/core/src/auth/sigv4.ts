@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Minimal AWS Signature Version 4 request signer for gateways that front
+ * model APIs (Bedrock-style endpoints, API Gateway with IAM auth).
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SigV4SignInput {
+  method: string;
+  url: string | URL;
+  headers: Record<string, string>;
+  body?: string | Uint8Array;
+  region: string;
+  service: string;
+  credentials: SigV4Credentials;
+  date?: Date;
+}
+
+/**
+ * Parses `accessKeyId:secretAccessKey[:sessionToken]`, the form used when
+ * SigV4 credentials come through /key or /keyfile.
+ */
+export function parseSigV4Credentials(
+  value: string | undefined | null,
+): SigV4Credentials | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const [accessKeyId, secretAccessKey, ...sessionParts] = value
+    .trim()
+    .split(':');
+  if (!accessKeyId || !secretAccessKey) {
+    return undefined;
+  }
+  const sessionToken = sessionParts.join(':');
+  return sessionToken
+    ? { accessKeyId, secretAccessKey, sessionToken }
+    : { accessKeyId, secretAccessKey };
+}
+
+export function getSigV4CredentialsFromEnv(): SigV4Credentials | undefined {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    return undefined;
+  }
+  const sessionToken = process.env.AWS_SESSION_TOKEN;
+  return sessionToken
+    ? { accessKeyId, secretAccessKey, sessionToken }
+    : { accessKeyId, secretAccessKey };
+}
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * Non-S3 services expect every path segment to be URI-encoded twice; the
+ * WHATWG URL pathname is already encoded once.
+ */
+function canonicalPath(pathname: string): string {
+  return (
+    pathname
+      .split('/')
+      .map((segment) => encodeRfc3986(segment))
+      .join('/') || '/'
+  );
+}
+
+function canonicalQuery(searchParams: URLSearchParams): string {
+  return [...searchParams.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, aValue], [b, bValue]) =>
+      a === b ? aValue.localeCompare(bValue) : a < b ? -1 : 1,
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Returns the request headers with `host`, `x-amz-date`, the optional
+ * `x-amz-security-token` and the `authorization` signature added. All
+ * header names in the result are lower-case.
+ */
+export function signRequestSigV4(
+  input: SigV4SignInput,
+): Record<string, string> {
+  const url = new URL(input.url);
+  const amzDate = (input.date ?? new Date())
+    .toISOString()
+    .replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(input.body ?? '');
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input.headers)) {
+    headers[name.toLowerCase()] = value;
+  }
+  headers['host'] = url.host;
+  headers['x-amz-date'] = amzDate;
+  if (input.credentials.sessionToken) {
+    headers['x-amz-security-token'] = input.credentials.sessionToken;
+  }
+  delete headers['authorization'];
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames
+    .map((name) => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const signedHeaders = signedHeaderNames.join(';');
+
+  const canonicalRequest = [
+    input.method.toUpperCase(),
+    canonicalPath(url.pathname),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${input.region}/${input.service}/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(
+      hmac(
+        hmac(`AWS4${input.credentials.secretAccessKey}`, dateStamp),
+        input.region,
+      ),
+      input.service,
+    ),
+    'aws4_request',
+  );
+  const signature = createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex');
+
+  headers['authorization'] =
+    `AWS4-HMAC-SHA256 Credential=${input.credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
@@ -13,6 +13,8 @@ import {
   createContentGeneratorConfig,
 } from '../core/contentGenerator.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
+import type { McpClientRequestHandler } from '../mcp/client-requests.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
 import { LSTool } from '../tools/ls.js';
 import { ReadFileTool } from '../tools/read-file.js';
@@ -27,6 +29,10 @@ import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
 import { ReadLineRangeTool } from '../tools/read_line_range.js';
+import { FindSymbolTool } from '../tools/find-symbol.js';
+import { FindReferencesTool } from '../tools/find-references.js';
+import { FileOutlineTool } from '../tools/file-outline.js';
+import { GetDiagnosticsTool } from '../tools/get-diagnostics.js';
 import { DeleteLineRangeTool } from '../tools/delete_line_range.js';
 import { InsertAtLineTool } from '../tools/insert_at_line.js';
 import {
@@ -41,6 +47,8 @@ import { TodoPause } from '../tools/todo-pause.js';
 import { TaskTool } from '../tools/task.js';
 import type { SubagentSchedulerFactory } from '../core/subagentScheduler.js';
 import { ListSubagentsTool } from '../tools/list-subagents.js';
+import { ListMcpResourcesTool } from '../tools/list-mcp-resources.js';
+import { ReadMcpResourceTool } from '../tools/read-mcp-resource.js';
 import { GeminiClient } from '../core/client.js';
 import { createAgentRuntimeStateFromConfig } from '../runtime/runtimeStateFactory.js';
 import type { AgentRuntimeState } from '../runtime/AgentRuntimeState.js';
@@ -87,8 +95,15 @@ export type { MCPOAuthConfig, AnyToolInvocation };
 import type { AnyToolInvocation } from '../tools/tools.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import { Storage } from './storage.js';
+import { WorkspaceFileIndex } from '../utils/filesearch/fileIndex.js';
+import { SymbolIndexService } from '../services/symbolIndexService.js';
+import { LspService } from '../lsp/lspService.js';
+import { CommandSandbox } from '../sandbox/commandSandbox.js';
+import { loadToolPolicy, type ToolPolicy } from '../policy/toolPolicy.js';
+import { ToolApprovalStore } from '../policy/toolApprovals.js';
 import { FileExclusions } from '../utils/ignorePatterns.js';
 import type { EventEmitter } from 'node:events';
+import type { ModelPricingOverrides } from '../providers/pricing.js';
 
 // Import privacy-related types
 export interface RedactionConfig {
@@ -125,6 +140,45 @@ export interface ChatCompressionSettings {
   contextPercentageThreshold?: number;
 }
 
+export interface LspServerSettings {
+  /** Executable that starts the server over stdio. */
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** LSP language ids the server handles, e.g. `typescript` or `python`. */
+  languages: string[];
+  initializationOptions?: unknown;
+}
+
+export interface LspSettings {
+  enabled?: boolean;
+  servers?: Record<string, LspServerSettings>;
+  /** Milliseconds to wait for a file's diagnostics. */
+  diagnosticsTimeout?: number;
+  /** Whether edit tools append diagnostics to their results. */
+  diagnosticsAfterEdit?: boolean;
+}
+
+export interface ToolSandboxSettings {
+  /** Whether shell commands and discovered tools may run in a sandbox. */
+  enabled?: boolean;
+  /** Sandbox to use; the first one available is used when omitted. */
+  command?: 'bwrap' | 'sandbox-exec' | 'docker' | 'podman';
+  /** Container image for docker and podman. */
+  image?: string;
+  /**
+   * Commands that run in the sandbox, matched like policy `command`
+   * patterns. Every command does when omitted; `!` patterns run on the host.
+   */
+  commands?: string[];
+  /** Whether discovered tools run in the sandbox. Defaults to true. */
+  discoveredTools?: boolean;
+  /** Whether sandboxed commands can reach the network. Defaults to false. */
+  network?: boolean;
+  /** Paths outside the workspace that sandboxed commands may write. */
+  writablePaths?: string[];
+}
+
 export interface SummarizeToolOutputSettings {
   tokenBudget?: number;
 }
@@ -220,7 +274,7 @@ export enum AuthProviderType {
 }
 
 export interface SandboxConfig {
-  command: 'docker' | 'podman' | 'sandbox-exec';
+  command: 'docker' | 'podman' | 'sandbox-exec' | 'bwrap';
   image: string;
 }
 
@@ -259,6 +313,7 @@ export interface ConfigParameters {
     respectLlxprtIgnore?: boolean;
     enableRecursiveFileSearch?: boolean;
     disableFuzzySearch?: boolean;
+    useFileIndex?: boolean;
   };
   checkpointing?: boolean;
   dumpOnError?: boolean;
@@ -286,6 +341,9 @@ export interface ConfigParameters {
   complexityAnalyzer?: ComplexityAnalyzerSettings;
   loadMemoryFromIncludeDirectories?: boolean;
   chatCompression?: ChatCompressionSettings;
+  lsp?: LspSettings;
+  toolSandbox?: ToolSandboxSettings;
+  modelPricing?: ModelPricingOverrides;
   interactive?: boolean;
   shellReplacement?: boolean;
   trustedFolder?: boolean;
@@ -302,6 +360,7 @@ export interface ConfigParameters {
 export class Config {
   private toolRegistry!: ToolRegistry;
   private promptRegistry!: PromptRegistry;
+  private readonly resourceRegistry = new ResourceRegistry();
   private readonly sessionId: string;
   private readonly settingsService: SettingsService;
   private fileSystemService: FileSystemService;
@@ -334,10 +393,19 @@ export class Config {
     respectLlxprtIgnore: boolean;
     enableRecursiveFileSearch: boolean;
     disableFuzzySearch: boolean;
+    useFileIndex: boolean;
   };
   private alwaysAllowedCommands: Set<string> = new Set();
   private fileDiscoveryService: FileDiscoveryService | null = null;
+  private fileIndex: WorkspaceFileIndex | undefined = undefined;
+  private symbolIndex: SymbolIndexService | undefined = undefined;
+  private readonly lsp: LspSettings | undefined;
+  private lspService: LspService | undefined = undefined;
+  private readonly toolSandbox: ToolSandboxSettings | undefined;
+  private commandSandbox: CommandSandbox | undefined = undefined;
   private gitService: GitService | undefined = undefined;
+  private toolPolicy: ToolPolicy | undefined = undefined;
+  private toolApprovals: ToolApprovalStore | undefined = undefined;
   private readonly checkpointing: boolean;
   private readonly dumpOnError: boolean;
   private readonly proxy: string | undefined;
@@ -362,6 +430,7 @@ export class Config {
     extensionName: string;
   }>;
   private providerManager?: ProviderManager;
+  private mcpClientRequestHandler?: McpClientRequestHandler;
   private profileManager?: ProfileManager;
   private subagentManager?: SubagentManager;
   private subagentSchedulerFactory?: SubagentSchedulerFactory;
@@ -373,6 +442,18 @@ export class Config {
   getProviderManager(): ProviderManager | undefined {
     return this.providerManager;
   }
+
+  /**
+   * Registered by interactive sessions to let the user answer sampling and
+   * elicitation requests from MCP servers
+   */
+  setMcpClientRequestHandler(handler: McpClientRequestHandler | undefined) {
+    this.mcpClientRequestHandler = handler;
+  }
+
+  getMcpClientRequestHandler(): McpClientRequestHandler | undefined {
+    return this.mcpClientRequestHandler;
+  }
   setProfileManager(manager: ProfileManager | undefined): void {
     this.profileManager = manager;
   }
@@ -408,6 +489,7 @@ export class Config {
   private readonly complexityAnalyzerSettings: ComplexityAnalyzerSettings;
   private readonly loadMemoryFromIncludeDirectories: boolean = false;
   private readonly chatCompression: ChatCompressionSettings | undefined;
+  private readonly modelPricing: ModelPricingOverrides | undefined;
   private readonly interactive: boolean;
   private readonly trustedFolder: boolean | undefined;
   private readonly useRipgrep: boolean;
@@ -506,6 +588,7 @@ export class Config {
       enableRecursiveFileSearch:
         params.fileFiltering?.enableRecursiveFileSearch ?? true,
       disableFuzzySearch: params.fileFiltering?.disableFuzzySearch ?? false,
+      useFileIndex: params.fileFiltering?.useFileIndex ?? true,
     };
     this.checkpointing = params.checkpointing ?? false;
     this.dumpOnError = params.dumpOnError ?? false;
@@ -538,6 +621,9 @@ export class Config {
     this.loadMemoryFromIncludeDirectories =
       params.loadMemoryFromIncludeDirectories ?? false;
     this.chatCompression = params.chatCompression;
+    this.lsp = params.lsp;
+    this.toolSandbox = params.toolSandbox;
+    this.modelPricing = params.modelPricing;
     this.interactive = params.interactive ?? false;
     this.shellReplacement = params.shellReplacement ?? false;
     this.trustedFolder = params.trustedFolder;
@@ -826,6 +912,10 @@ export class Config {
     return this.promptRegistry;
   }
 
+  getResourceRegistry(): ResourceRegistry {
+    return this.resourceRegistry;
+  }
+
   getDebugMode(): boolean {
     return this.debugMode;
   }
@@ -1054,6 +1144,29 @@ export class Config {
     return this.fileFiltering.respectLlxprtIgnore;
   }
 
+  getFileFilteringUseFileIndex(): boolean {
+    return this.fileFiltering.useFileIndex;
+  }
+
+  /**
+   * Returns the persistent file index of the target directory, or undefined
+   * when the index is disabled. The index follows the git ignore setting.
+   */
+  getFileIndex(): WorkspaceFileIndex | undefined {
+    if (!this.fileFiltering.useFileIndex) {
+      return undefined;
+    }
+    if (!this.fileIndex) {
+      this.fileIndex = new WorkspaceFileIndex({
+        projectRoot: this.targetDir,
+        indexFile: this.storage.getFileIndexPath(),
+        useGitignore: this.fileFiltering.respectGitIgnore,
+        useGeminiignore: this.fileFiltering.respectLlxprtIgnore,
+      });
+    }
+    return this.fileIndex;
+  }
+
   getFileFilteringOptions(): FileFilteringOptions {
     return {
       respectGitIgnore: this.fileFiltering.respectGitIgnore,
@@ -1103,6 +1216,45 @@ export class Config {
     return this.fileDiscoveryService;
   }
 
+  getSymbolIndex(): SymbolIndexService {
+    if (!this.symbolIndex) {
+      this.symbolIndex = new SymbolIndexService(this);
+    }
+    return this.symbolIndex;
+  }
+
+  /**
+   * Returns the language server service, or undefined when no language
+   * servers are configured or LSP support is disabled.
+   */
+  getLspService(): LspService | undefined {
+    if (
+      !this.lsp ||
+      this.lsp.enabled === false ||
+      Object.keys(this.lsp.servers ?? {}).length === 0
+    ) {
+      return undefined;
+    }
+    if (!this.lspService) {
+      this.lspService = new LspService(this, this.lsp);
+    }
+    return this.lspService;
+  }
+
+  /**
+   * Returns the sandbox that shell commands and discovered tools run in, or
+   * undefined when per-command sandboxing is disabled.
+   */
+  getCommandSandbox(): CommandSandbox | undefined {
+    if (!this.toolSandbox?.enabled) {
+      return undefined;
+    }
+    if (!this.commandSandbox) {
+      this.commandSandbox = new CommandSandbox(this, this.toolSandbox);
+    }
+    return this.commandSandbox;
+  }
+
   getUsageStatisticsEnabled(): boolean {
     return this.usageStatisticsEnabled;
   }
@@ -1357,6 +1509,10 @@ export class Config {
     return this.chatCompression;
   }
 
+  getModelPricing(): ModelPricingOverrides | undefined {
+    return this.modelPricing;
+  }
+
   addAlwaysAllowedCommand(rootCommand: string): void {
     this.alwaysAllowedCommands.add(rootCommand);
   }
@@ -1410,6 +1566,34 @@ export class Config {
     return this.gitService;
   }
 
+  /**
+   * Tool permission rules from the user and project policy files, read on
+   * first use. Throws a ToolPolicyError while a policy file is invalid so
+   * tool calls fail instead of running unchecked.
+   */
+  getToolPolicy(): ToolPolicy {
+    this.toolPolicy ??= loadToolPolicy({
+      userFile: Storage.getGlobalToolPolicyPath(),
+      projectFile: this.storage.getWorkspaceToolPolicyPath(),
+      projectRoot: this.targetDir,
+      trustProject: this.isTrustedFolder(),
+    });
+    return this.toolPolicy;
+  }
+
+  /**
+   * "Proceed Always" approvals saved for this workspace or for every
+   * workspace
+   */
+  getToolApprovals(): ToolApprovalStore {
+    this.toolApprovals ??= new ToolApprovalStore(
+      Storage.getToolApprovalsPath(),
+      this.targetDir,
+      () => this.isTrustedFolder(),
+    );
+    return this.toolApprovals;
+  }
+
   /**
    * Get the SettingsService instance
    */
@@ -1520,6 +1704,12 @@ export class Config {
     registerCoreTool(WebFetchTool, this);
     registerCoreTool(ReadManyFilesTool, this);
     registerCoreTool(ReadLineRangeTool, this);
+    registerCoreTool(FindSymbolTool, this);
+    registerCoreTool(FindReferencesTool, this);
+    registerCoreTool(FileOutlineTool, this);
+    if (this.getLspService()) {
+      registerCoreTool(GetDiagnosticsTool, this);
+    }
     registerCoreTool(DeleteLineRangeTool, this);
     registerCoreTool(InsertAtLineTool, this);
     registerCoreTool(ShellTool, this);
@@ -1529,6 +1719,15 @@ export class Config {
     registerCoreTool(TodoRead);
     registerCoreTool(TodoPause);
 
+    // Resources only come from MCP servers
+    if (
+      Object.keys(this.getMcpServers() ?? {}).length > 0 ||
+      this.getMcpServerCommand()
+    ) {
+      registerCoreTool(ListMcpResourcesTool, this);
+      registerCoreTool(ReadMcpResourceTool, this);
+    }
+
     let profileManager = this.getProfileManager();
     if (!profileManager) {
       const profilesDir = path.join(os.homedir(), '.llxprt', 'profiles');
@@ -36,6 +36,14 @@ export class Storage {
     return path.join(Storage.getGlobalLlxprtDir(), 'settings.json');
   }
 
+  static getGlobalToolPolicyPath(): string {
+    return path.join(Storage.getGlobalLlxprtDir(), 'policy.json');
+  }
+
+  static getToolApprovalsPath(): string {
+    return path.join(Storage.getGlobalLlxprtDir(), 'tool_approvals.json');
+  }
+
   static getInstallationIdPath(): string {
     return path.join(Storage.getGlobalLlxprtDir(), 'installation_id');
   }
@@ -92,10 +100,19 @@ export class Storage {
     return path.join(historyDir, hash);
   }
 
+  getProjectSessionsDir(): string {
+    const hash = this.getFilePathHash(this.getProjectRoot());
+    return path.join(Storage.getGlobalLlxprtDir(), 'sessions', hash);
+  }
+
   getWorkspaceSettingsPath(): string {
     return path.join(this.getLlxprtDir(), 'settings.json');
   }
 
+  getWorkspaceToolPolicyPath(): string {
+    return path.join(this.getLlxprtDir(), 'policy.json');
+  }
+
   getProjectCommandsDir(): string {
     return path.join(this.getLlxprtDir(), 'commands');
   }
@@ -115,4 +132,8 @@ export class Storage {
   getHistoryFilePath(): string {
     return path.join(this.getProjectTempDir(), 'shell_history');
   }
+
+  getFileIndexPath(): string {
+    return path.join(this.getProjectTempDir(), 'file-index.json');
+  }
 }
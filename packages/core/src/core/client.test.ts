@@ -62,6 +62,7 @@ import {
 } from '../services/complexity-analyzer.js';
 import { TodoReminderService } from '../services/todo-reminder-service.js';
 import { tokenLimit } from './tokenLimits.js';
+import { ContentConverters } from '../services/history/ContentConverters.js';
 
 // --- Mocks ---
 const mockChatCreateFn = vi.fn();
@@ -732,8 +733,11 @@ describe('Gemini Client (client.ts)', () => {
   describe('tryCompressChat', () => {
     const mockCountTokens = vi.fn();
     const mockSendMessage = vi.fn();
+    const mockSummarize = vi.fn();
     const mockGetHistory = vi.fn();
     const mockGetTotalTokens = vi.fn();
+    const mockGetCurated = vi.fn();
+    const mockSetPinned = vi.fn();
 
     beforeEach(() => {
       vi.mock('./tokenLimits', () => ({
@@ -749,20 +753,28 @@ describe('Gemini Client (client.ts)', () => {
         addHistory: vi.fn(),
         setHistory: vi.fn(),
         sendMessage: mockSendMessage,
+        summarizeForCompression: mockSummarize,
         getHistoryService: vi.fn().mockReturnValue({
           getTotalTokens: mockGetTotalTokens,
+          getCurated: mockGetCurated,
+          estimateTokensForContents: vi.fn().mockResolvedValue(0),
           emit: vi.fn(),
         }),
       } as unknown as GeminiChat;
+      mockGetCurated.mockImplementation(() =>
+        ContentConverters.toIContents(mockGetHistory()),
+      );
 
       // Mock startChat to return a chat with getHistoryService that returns newTokenCount
-      client['startChat'] = vi.fn().mockImplementation(() =>
+      client['startChat'] = vi.fn().mockImplementation((history = []) =>
         Promise.resolve({
           getHistory: vi.fn().mockReturnValue([]),
           setHistory: vi.fn(),
           sendMessage: vi.fn(),
           getHistoryService: vi.fn().mockReturnValue({
             getTotalTokens: vi.fn().mockReturnValue(100), // New compressed token count
+            length: vi.fn().mockReturnValue(history.length),
+            setPinned: mockSetPinned,
             emit: vi.fn(),
           }),
         }),
@@ -779,34 +791,85 @@ describe('Gemini Client (client.ts)', () => {
       it('uses the truncated history for compression');
     });
 
-    it('attempts to compress with a maxOutputTokens set to the original token count', async () => {
+    it('summarises the older turns with the configured strategy and model', async () => {
       vi.mocked(tokenLimit).mockReturnValue(1000);
-      mockCountTokens.mockResolvedValue({
-        totalTokens: 999,
-      });
-
-      // Set the mock to return 999 tokens
       mockGetTotalTokens.mockReturnValue(999);
-
+      vi.spyOn(client['config'], 'getEphemeralSetting').mockImplementation(
+        (key: string) =>
+          ({
+            'compression-strategy': 'summarize',
+            'compression-provider': 'openai',
+            'compression-model': 'gpt-4.1-mini',
+          })[key],
+      );
       mockGetHistory.mockReturnValue([
-        { role: 'user', parts: [{ text: '...history...' }] },
+        { role: 'user', parts: [{ text: 'first request' }] },
+        { role: 'model', parts: [{ text: 'first answer' }] },
+        { role: 'user', parts: [{ text: 'second request' }] },
       ]);
-
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        text: 'This is a summary.',
-      });
+      mockSummarize.mockResolvedValue('This is a summary.');
 
       await client.tryCompressChat('prompt-id-2', true);
 
-      expect(mockSendMessage).toHaveBeenCalledWith(
-        expect.objectContaining({
-          config: expect.objectContaining({
-            maxOutputTokens: 999,
-          }),
-        }),
+      expect(mockSummarize).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ speaker: 'human' }),
+          expect.objectContaining({ speaker: 'ai' }),
+        ],
         'prompt-id-2',
+        {
+          instructions: undefined,
+          provider: 'openai',
+          model: 'gpt-4.1-mini',
+        },
       );
+      expect(client['startChat']).toHaveBeenCalledWith([
+        { role: 'user', parts: [{ text: 'This is a summary.' }] },
+        {
+          role: 'model',
+          parts: [{ text: 'Got it. Thanks for the additional context!' }],
+        },
+        { role: 'user', parts: [{ text: 'second request' }] },
+      ]);
+    });
+
+    it('keeps pinned turns verbatim and pins them again after compressing', async () => {
+      vi.mocked(tokenLimit).mockReturnValue(1000);
+      mockGetTotalTokens.mockReturnValue(999);
+      mockSetPinned.mockReset();
+      const history = [
+        { role: 'user', parts: [{ text: 'the task spec' }] },
+        { role: 'model', parts: [{ text: 'first answer' }] },
+        { role: 'user', parts: [{ text: 'second request' }] },
+      ];
+      mockGetHistory.mockReturnValue(history);
+      mockGetCurated.mockReturnValue([
+        {
+          ...ContentConverters.toIContent(history[0]),
+          metadata: { pinned: true },
+        },
+        ...ContentConverters.toIContents(history.slice(1)),
+      ]);
+      mockSummarize.mockResolvedValue('This is a summary.');
+
+      await client.tryCompressChat('prompt-id-pin', true);
+
+      expect(mockSummarize).toHaveBeenCalledWith(
+        [expect.objectContaining({ speaker: 'ai' })],
+        'prompt-id-pin',
+        expect.any(Object),
+      );
+      expect(client['startChat']).toHaveBeenCalledWith([
+        { role: 'user', parts: [{ text: 'This is a summary.' }] },
+        {
+          role: 'model',
+          parts: [{ text: 'Got it. Thanks for the additional context!' }],
+        },
+        { role: 'user', parts: [{ text: 'the task spec' }] },
+        { role: 'user', parts: [{ text: 'second request' }] },
+      ]);
+      expect(mockSetPinned).toHaveBeenCalledTimes(1);
+      expect(mockSetPinned).toHaveBeenCalledWith(2, true);
     });
 
     it('should not trigger summarization if token count is below threshold', async () => {
@@ -864,9 +927,7 @@ describe('Gemini Client (client.ts)', () => {
       mockGetTotalTokens.mockReturnValue(originalTokenCount);
 
       // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        text: 'This is a summary.',
-      });
+      mockSummarize.mockResolvedValue('This is a summary.');
 
       const initialChat = client.getChat();
       const result = await client.tryCompressChat('prompt-id-3');
@@ -14,6 +14,7 @@ import {
   FunctionDeclaration,
   GenerateContentResponse,
   SendMessageParameters,
+  createUserContent,
 } from '@google/genai';
 import {
   getDirectoryContextString,
@@ -29,12 +30,14 @@ import type { ChatCompressionInfo, ToolCallResponseInfo } from './turn.js';
 import { CompressionStatus } from './turn.js';
 import { Config } from '../config/config.js';
 import { UserTierId } from '../code_assist/types.js';
-import { getCoreSystemPromptAsync, getCompressionPrompt } from './prompts.js';
+import { getCoreSystemPromptAsync } from './prompts.js';
 import { getResponseText } from '../utils/generateContentResponseUtilities.js';
 import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat } from './geminiChat.js';
 import { DebugLogger } from '../debug/index.js';
 import { HistoryService } from '../services/history/HistoryService.js';
+import type { IContent } from '../services/history/IContent.js';
+import type { HistoryTreeSnapshot } from '../services/history/HistoryBranches.js';
 import { ContentConverters } from '../services/history/ContentConverters.js';
 import type {
   ReadonlySettingsSnapshot,
@@ -57,7 +60,15 @@ import {
   COMPRESSION_TOKEN_THRESHOLD,
   COMPRESSION_PRESERVE_THRESHOLD,
 } from './compression-config.js';
+import {
+  COMPRESSION_MODEL_SETTING,
+  COMPRESSION_PROVIDER_SETTING,
+  COMPRESSION_STRATEGY_SETTING,
+  compressWithStrategy,
+  getCompressionStrategy,
+} from './compressionStrategies.js';
 import { LoopDetectionService } from '../services/loopDetectionService.js';
+import type { ToolOutcomeLoop } from '../services/toolOutcomeLoopDetector.js';
 import { ideContext, IdeContext, File } from '../ide/ideContext.js';
 import {
   ComplexityAnalyzer,
@@ -492,6 +503,10 @@ export class GeminiClient {
     return [{ text: reminderText } as Part];
   }
 
+  private buildLoopReflectionReminder(loop: ToolOutcomeLoop): string {
+    return `---\nSystem Note: You appear to be stuck in a loop: ${loop.description}. Stop and reflect before your next tool call. Summarize what you have tried, why it did not work, and choose a different approach. If you cannot make progress, explain the problem to the user and ask how to proceed.\n---`;
+  }
+
   private shouldDeferStreamEvent(event: ServerGeminiStreamEvent): boolean {
     return (
       event.type === GeminiEventType.Content ||
@@ -637,6 +652,31 @@ export class GeminiClient {
     this._storedHistoryService = historyService;
   }
 
+  /**
+   * Replace the conversation with previously saved IContent history.
+   * Unlike setHistory this skips the Content round trip, so tool call ids
+   * and metadata come back exactly as they were saved. A branch tree, when
+   * given, replaces `history` and restores every branch.
+   */
+  async restoreHistory(
+    history: IContent[],
+    historyTree?: HistoryTreeSnapshot,
+  ): Promise<void> {
+    if (!this.hasChatInitialized()) {
+      await this.resetChat();
+    }
+    const historyService = this.getChat().getHistoryService();
+    if (historyTree) {
+      historyService.importTree(historyTree);
+    } else {
+      historyService.clear();
+      historyService.discardBranches();
+      historyService.addAll(history, this.runtimeState.model);
+    }
+    this._previousHistory = [];
+    this.forceFullIdeContext = true;
+  }
+
   async setTools(): Promise<void> {
     const toolRegistry = this.config.getToolRegistry();
     if (!toolRegistry) {
@@ -682,6 +722,7 @@ export class GeminiClient {
       if (historyService) {
         // Clear the history service directly
         historyService.clear();
+        historyService.discardBranches();
       } else {
         // Fallback to chat's clearHistory if no history service
         this.chat.clearHistory();
@@ -844,6 +885,13 @@ export class GeminiClient {
         compressionThreshold: compressionThreshold ?? 0.8,
         contextLimit,
         preserveThreshold: preserveThreshold ?? 0.2,
+        compressionStrategy: this.readStringEphemeral(
+          COMPRESSION_STRATEGY_SETTING,
+        ),
+        compressionProvider: this.readStringEphemeral(
+          COMPRESSION_PROVIDER_SETTING,
+        ),
+        compressionModel: this.readStringEphemeral(COMPRESSION_MODEL_SETTING),
         telemetry: {
           enabled: true,
           target: null,
@@ -1184,6 +1232,47 @@ export class GeminiClient {
     let baseRequest: PartListUnion = Array.isArray(initialRequest)
       ? [...(initialRequest as Part[])]
       : initialRequest;
+
+    let loopReflection: string | undefined;
+    const toolOutcomeLoop = this.loopDetector.checkToolOutcomes(initialRequest);
+    if (toolOutcomeLoop) {
+      const intervention = this.loopDetector.nextLoopIntervention();
+      if (intervention.action === 'pause') {
+        // Keep the tool responses so the history stays valid when the user
+        // continues the conversation.
+        this.getChat().addHistory(createUserContent(baseRequest));
+        yield {
+          type: GeminiEventType.LoopDetected,
+          value: toolOutcomeLoop.description,
+        };
+        const contentGenConfig = this.config.getContentGeneratorConfig();
+        const providerManager = contentGenConfig?.providerManager;
+        const providerName =
+          providerManager?.getActiveProviderName() || 'backend';
+        return new Turn(
+          this.getChat(),
+          prompt_id,
+          DEFAULT_AGENT_ID,
+          providerName,
+        );
+      }
+      if (intervention.action === 'switch-model') {
+        this.config.setModel(intervention.model);
+      }
+      loopReflection = this.buildLoopReflectionReminder(toolOutcomeLoop);
+      yield {
+        type: GeminiEventType.LoopIntervention,
+        value: {
+          description: toolOutcomeLoop.description,
+          action: intervention.action,
+          model:
+            intervention.action === 'switch-model'
+              ? intervention.model
+              : undefined,
+        },
+      };
+    }
+
     let retryCount = 0;
     const MAX_RETRIES = 2;
     let lastTurn: Turn | undefined;
@@ -1229,6 +1318,10 @@ export class GeminiClient {
         this.consecutiveComplexTurns = 0;
       }
 
+      if (loopReflection) {
+        request = this.appendSystemReminderToRequest(request, loopReflection);
+      }
+
       // Apply todo reminder if one is pending from previous iteration
       if (this.todoToolsAvailable && this.toolCallReminderLevel !== 'none') {
         const reminderResult = await this.getTodoReminderForCurrentState({
@@ -1716,14 +1809,13 @@ export class GeminiClient {
 
     const contextPercentageThreshold =
       this.config.getChatCompression()?.contextPercentageThreshold;
+    const threshold = contextPercentageThreshold ?? COMPRESSION_TOKEN_THRESHOLD;
+    const userContextLimit = this.config.getEphemeralSetting(
+      'context-limit',
+    ) as number | undefined;
 
     // Don't compress if not forced and we are under the limit.
     if (!force) {
-      const threshold =
-        contextPercentageThreshold ?? COMPRESSION_TOKEN_THRESHOLD;
-      const userContextLimit = this.config.getEphemeralSetting(
-        'context-limit',
-      ) as number | undefined;
       if (
         originalTokenCount <
         threshold * tokenLimit(model, userContextLimit)
@@ -1736,9 +1828,18 @@ export class GeminiClient {
       }
     }
 
+    const rawPreserveThreshold = this.config.getEphemeralSetting(
+      'compression-preserve-threshold',
+    );
+    const preserveThreshold =
+      typeof rawPreserveThreshold === 'number' &&
+      rawPreserveThreshold > 0 &&
+      rawPreserveThreshold < 1
+        ? rawPreserveThreshold
+        : COMPRESSION_PRESERVE_THRESHOLD;
     let compressBeforeIndex = findIndexAfterFraction(
       curatedHistory,
-      1 - COMPRESSION_PRESERVE_THRESHOLD,
+      1 - preserveThreshold,
     );
     // Find the first user message after the index. This is the start of the next turn.
     while (
@@ -1749,42 +1850,51 @@ export class GeminiClient {
       compressBeforeIndex++;
     }
 
-    const historyToCompress = curatedHistory.slice(0, compressBeforeIndex);
-    const historyToKeep = curatedHistory.slice(compressBeforeIndex);
-
-    this.getChat().setHistory(historyToCompress);
+    // Split the IContent form as well: it carries the pinned flags
+    const curatedContents = historyService.getCurated();
+    const historyToCompress = curatedContents.slice(0, compressBeforeIndex);
+    const historyToKeep = curatedContents.slice(compressBeforeIndex);
 
-    const { text: summary } = await this.getChat().sendMessage(
-      {
-        message: {
-          text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
-        },
-        config: {
-          systemInstruction: { text: getCompressionPrompt() },
-          maxOutputTokens: originalTokenCount,
-        },
-      },
-      prompt_id,
+    const strategy = getCompressionStrategy(
+      this.config.getEphemeralSetting(COMPRESSION_STRATEGY_SETTING),
     );
+    const compressedHistory = await compressWithStrategy(strategy, {
+      toCompress: historyToCompress,
+      toKeep: historyToKeep,
+      // Leave room so the next turns do not trigger compression again
+      targetTokens: Math.floor(
+        (threshold * tokenLimit(model, userContextLimit)) / 2,
+      ),
+      estimateTokens: (contents) =>
+        historyService.estimateTokensForContents(contents, model),
+      summarize: (contents, instructions) =>
+        this.getChat().summarizeForCompression(contents, prompt_id, {
+          instructions,
+          provider: this.readStringEphemeral(COMPRESSION_PROVIDER_SETTING),
+          model: this.readStringEphemeral(COMPRESSION_MODEL_SETTING),
+        }),
+    });
 
     // For compression, we don't want to preserve the HistoryService
     // because we're creating a new compressed conversation state
     // The UI should reflect that compression happened
-    const compressedChat = await this.startChat([
-      {
-        role: 'user',
-        parts: [{ text: summary }],
-      },
-      {
-        role: 'model',
-        parts: [{ text: 'Got it. Thanks for the additional context!' }],
-      },
-      ...historyToKeep,
-    ]);
+    const compressedChat = await this.startChat(
+      ContentConverters.toGeminiContents(compressedHistory),
+    );
     this.forceFullIdeContext = true;
 
     // Use HistoryService's token count for consistency with the UI display
     const compressedHistoryService = compressedChat.getHistoryService();
+    // Gemini contents carry no metadata, so pin the kept entries again
+    if (compressedHistoryService) {
+      const offset =
+        compressedHistoryService.length() - compressedHistory.length;
+      compressedHistory.forEach((content, index) => {
+        if (content.metadata?.pinned) {
+          compressedHistoryService.setPinned(offset + index, true);
+        }
+      });
+    }
     const newTokenCount = compressedHistoryService
       ? compressedHistoryService.getTotalTokens()
       : 0;
@@ -1805,7 +1915,6 @@ export class GeminiClient {
     );
 
     if (newTokenCount > originalTokenCount) {
-      this.getChat().setHistory(curatedHistory);
       this.hasFailedCompressionAttempt = !force && true;
       return {
         originalTokenCount,
@@ -1815,6 +1924,13 @@ export class GeminiClient {
       };
     } else {
       this.chat = compressedChat; // Chat compression successful, set new state.
+      // Carry the other conversation branches over to the compressed history
+      if (
+        historyService &&
+        typeof compressedHistoryService?.inheritBranches === 'function'
+      ) {
+        compressedHistoryService.inheritBranches(historyService);
+      }
 
       // Emit token update event for the new compressed chat
       // This ensures the UI updates with the new token count
@@ -1843,6 +1959,13 @@ export class GeminiClient {
     };
   }
 
+  private readStringEphemeral(key: string): string | undefined {
+    const value = this.config.getEphemeralSetting(key);
+    return typeof value === 'string' && value.trim() !== ''
+      ? value.trim()
+      : undefined;
+  }
+
   private getToolGovernanceEphemerals():
     | {
         allowed?: string[];
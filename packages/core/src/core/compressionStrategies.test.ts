@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { IContent } from '../services/history/IContent.js';
+import {
+  compressWithStrategy,
+  getCompressionStrategy,
+  listCompressionStrategies,
+  separatePinnedContent,
+  splitIntoTodoPhases,
+  stubToolOutputs,
+  type CompressionRequest,
+} from './compressionStrategies.js';
+
+const text = (speaker: IContent['speaker'], value: string): IContent => ({
+  speaker,
+  blocks: [{ type: 'text', text: value }],
+});
+
+const todoUpdate = (id: string, task: string): IContent => ({
+  speaker: 'ai',
+  blocks: [
+    {
+      type: 'tool_call',
+      id,
+      name: 'todo_write',
+      parameters: {
+        todos: [
+          { id: '1', content: task, status: 'in_progress', priority: 'high' },
+        ],
+      },
+    },
+  ],
+});
+
+const toolResult = (callId: string, result: string): IContent => ({
+  speaker: 'tool',
+  blocks: [{ type: 'tool_response', callId, toolName: 'read_file', result }],
+});
+
+function createRequest(
+  overrides: Partial<CompressionRequest> = {},
+): CompressionRequest {
+  return {
+    toCompress: [text('human', 'old request'), text('ai', 'old answer')],
+    toKeep: [text('human', 'latest request')],
+    targetTokens: 1000,
+    estimateTokens: vi.fn().mockResolvedValue(10),
+    summarize: vi.fn().mockResolvedValue('summary'),
+    ...overrides,
+  };
+}
+
+describe('compressionStrategies', () => {
+  it('resolves strategies by name and falls back to summarize', () => {
+    expect(
+      listCompressionStrategies().map((strategy) => strategy.name),
+    ).toEqual(['summarize', 'stub-tool-outputs', 'todo-hierarchical']);
+    expect(getCompressionStrategy(' Stub-Tool-Outputs ').name).toBe(
+      'stub-tool-outputs',
+    );
+    expect(getCompressionStrategy(undefined).name).toBe('summarize');
+    expect(getCompressionStrategy('missing').name).toBe('summarize');
+  });
+
+  it('summarize replaces the older turns with one summary', async () => {
+    const request = createRequest();
+
+    const history = await getCompressionStrategy('summarize').compress(request);
+
+    expect(request.summarize).toHaveBeenCalledWith(request.toCompress);
+    expect(history).toEqual([
+      text('human', 'summary'),
+      text('ai', 'Got it. Thanks for the additional context!'),
+      text('human', 'latest request'),
+    ]);
+  });
+
+  it('stubs large tool outputs and keeps call ids', () => {
+    const [stubbed, small] = stubToolOutputs([
+      toolResult('call-1', 'x'.repeat(500)),
+      toolResult('call-2', 'short'),
+    ]);
+
+    expect(stubbed.blocks[0]).toEqual({
+      type: 'tool_response',
+      callId: 'call-1',
+      toolName: 'read_file',
+      result:
+        '[read_file output removed to save context; it was 500 characters]',
+    });
+    expect(small.blocks[0]).toMatchObject({ result: 'short' });
+  });
+
+  it('stub-tool-outputs only summarises when stubbing is not enough', async () => {
+    const strategy = getCompressionStrategy('stub-tool-outputs');
+    const toCompress = [
+      text('human', 'read it'),
+      toolResult('call-1', 'x'.repeat(500)),
+    ];
+
+    const fits = createRequest({ toCompress });
+    const stubbedHistory = await strategy.compress(fits);
+    expect(fits.summarize).not.toHaveBeenCalled();
+    expect(stubbedHistory).toHaveLength(3);
+    expect(JSON.stringify(stubbedHistory)).not.toContain('xxxx');
+
+    const tooLarge = createRequest({
+      toCompress,
+      estimateTokens: vi.fn().mockResolvedValue(5000),
+    });
+    const summarized = await strategy.compress(tooLarge);
+    expect(tooLarge.summarize).toHaveBeenCalledWith([
+      toCompress[0],
+      stubbedHistory[1],
+    ]);
+    expect(summarized[0]).toEqual(text('human', 'summary'));
+  });
+
+  it('splits turns into phases at todo updates', () => {
+    const phases = splitIntoTodoPhases([
+      text('human', 'plan the refactor'),
+      todoUpdate('t1', 'Extract the parser'),
+      text('ai', 'parser extracted'),
+      todoUpdate('t2', 'Update the callers'),
+    ]);
+
+    expect(phases.map((phase) => phase.label)).toEqual([
+      'Before the todo list',
+      'Extract the parser',
+      'Update the callers',
+    ]);
+    expect(phases.map((phase) => phase.contents.length)).toEqual([1, 2, 1]);
+  });
+
+  it('todo-hierarchical summarises each phase and merges only when too large', async () => {
+    const strategy = getCompressionStrategy('todo-hierarchical');
+    const toCompress = [
+      todoUpdate('t1', 'Extract the parser'),
+      text('ai', 'parser extracted'),
+      todoUpdate('t2', 'Update the callers'),
+    ];
+    const summarize = vi
+      .fn()
+      .mockResolvedValueOnce('parser summary')
+      .mockResolvedValueOnce('callers summary')
+      .mockResolvedValueOnce('merged summary');
+
+    const fits = createRequest({ toCompress, summarize });
+    const history = await strategy.compress(fits);
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize.mock.calls[0][1]).toContain('"Extract the parser"');
+    const combined = (history[0].blocks[0] as { text: string }).text;
+    expect(combined).toContain(
+      '## Phase 1: Extract the parser\n\nparser summary',
+    );
+    expect(combined).toContain(
+      '## Phase 2: Update the callers\n\ncallers summary',
+    );
+
+    summarize.mockReset();
+    summarize
+      .mockResolvedValueOnce('parser summary')
+      .mockResolvedValueOnce('callers summary')
+      .mockResolvedValueOnce('merged summary');
+    const tooLarge = createRequest({
+      toCompress,
+      summarize,
+      estimateTokens: vi.fn().mockResolvedValue(5000),
+    });
+    const merged = await strategy.compress(tooLarge);
+    expect(summarize).toHaveBeenCalledTimes(3);
+    expect(merged[0]).toEqual(text('human', 'merged summary'));
+  });
+
+  it('keeps pinned turns and both halves of a pinned tool exchange', () => {
+    const call: IContent = {
+      speaker: 'ai',
+      blocks: [
+        { type: 'tool_call', id: 'call-1', name: 'read_file', parameters: {} },
+      ],
+    };
+    const spec = { ...text('human', 'the spec'), metadata: { pinned: true } };
+    const result = {
+      ...toolResult('call-1', 'error log'),
+      metadata: { pinned: true },
+    };
+    const chatter = text('ai', 'thinking out loud');
+
+    const { pinned, unpinned } = separatePinnedContent([
+      spec,
+      chatter,
+      call,
+      result,
+    ]);
+
+    expect(pinned).toEqual([spec, call, result]);
+    expect(unpinned).toEqual([chatter]);
+  });
+
+  it('compresses around pinned turns', async () => {
+    const spec = { ...text('human', 'the spec'), metadata: { pinned: true } };
+    const request = createRequest({
+      toCompress: [spec, text('ai', 'old answer')],
+    });
+
+    const history = await compressWithStrategy(
+      getCompressionStrategy('summarize'),
+      request,
+    );
+
+    expect(request.summarize).toHaveBeenCalledWith([text('ai', 'old answer')]);
+    expect(history).toEqual([
+      text('human', 'summary'),
+      text('ai', 'Got it. Thanks for the additional context!'),
+      spec,
+      text('human', 'latest request'),
+    ]);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Context compression strategies.
+ *
+ * The caller decides when to compress and which older turns may be rewritten;
+ * a strategy decides how those turns are shrunk. The strategy is selected
+ * with the `compression-strategy` ephemeral setting, so it is saved and
+ * restored with profiles.
+ */
+
+import type {
+  IContent,
+  ToolResponseBlock,
+} from '../services/history/IContent.js';
+
+export const COMPRESSION_STRATEGY_SETTING = 'compression-strategy';
+export const COMPRESSION_PROVIDER_SETTING = 'compression-provider';
+export const COMPRESSION_MODEL_SETTING = 'compression-model';
+
+export const DEFAULT_COMPRESSION_STRATEGY = 'summarize';
+
+/** Tool outputs shorter than this are cheaper to keep than to stub */
+const MIN_STUBBED_OUTPUT_CHARS = 200;
+
+const TODO_WRITE_TOOL = 'todo_write';
+
+export interface CompressionRequest {
+  /** Older turns the strategy may rewrite */
+  toCompress: IContent[];
+  /** Recent turns that follow the compressed part unchanged */
+  toKeep: IContent[];
+  /** Token count the compressed history should stay under */
+  targetTokens: number;
+  estimateTokens(contents: IContent[]): Promise<number>;
+  /**
+   * Summarises contents with the compression prompt. `instructions`
+   * replaces the default request for a <state_snapshot>.
+   */
+  summarize(contents: IContent[], instructions?: string): Promise<string>;
+}
+
+export interface CompressionStrategy {
+  readonly name: string;
+  readonly description: string;
+  /** Returns the complete history that replaces the current one */
+  compress(request: CompressionRequest): Promise<IContent[]>;
+}
+
+/**
+ * Builds the history that follows a summary: the summary as a user turn,
+ * a short acknowledgement, then the kept turns.
+ */
+export function buildSummarizedHistory(
+  summary: string,
+  toKeep: IContent[],
+): IContent[] {
+  return [
+    { speaker: 'human', blocks: [{ type: 'text', text: summary }] },
+    {
+      speaker: 'ai',
+      blocks: [
+        { type: 'text', text: 'Got it. Thanks for the additional context!' },
+      ],
+    },
+    ...toKeep,
+  ];
+}
+
+export const summarizeCompressionStrategy: CompressionStrategy = {
+  name: 'summarize',
+  description: 'Summarise all older turns into one state snapshot (default)',
+  async compress(request) {
+    const summary = await request.summarize(request.toCompress);
+    return buildSummarizedHistory(summary, request.toKeep);
+  },
+};
+
+function stubToolResponse(block: ToolResponseBlock): ToolResponseBlock {
+  const output =
+    typeof block.result === 'string'
+      ? block.result
+      : (JSON.stringify(block.result) ?? '');
+  if (output.length < MIN_STUBBED_OUTPUT_CHARS) {
+    return block;
+  }
+  return {
+    ...block,
+    result: `[${block.toolName} output removed to save context; it was ${output.length} characters]`,
+  };
+}
+
+/**
+ * Replaces large tool outputs in the given turns with short stubs. Call ids
+ * are left alone so every tool call still has its response.
+ */
+export function stubToolOutputs(contents: IContent[]): IContent[] {
+  return contents.map((content) => {
+    if (content.speaker !== 'tool') {
+      return content;
+    }
+    return {
+      ...content,
+      blocks: content.blocks.map((block) =>
+        block.type === 'tool_response' ? stubToolResponse(block) : block,
+      ),
+    };
+  });
+}
+
+export const stubToolOutputsCompressionStrategy: CompressionStrategy = {
+  name: 'stub-tool-outputs',
+  description:
+    'Replace old tool outputs with short stubs; summarise only if that is not enough',
+  async compress(request) {
+    const stubbed = stubToolOutputs(request.toCompress);
+    const history = [...stubbed, ...request.toKeep];
+    if ((await request.estimateTokens(history)) <= request.targetTokens) {
+      return history;
+    }
+    return summarizeCompressionStrategy.compress({
+      ...request,
+      toCompress: stubbed,
+    });
+  },
+};
+
+interface TodoPhase {
+  label: string;
+  contents: IContent[];
+}
+
+function describeTodoUpdate(parameters: unknown): string | undefined {
+  const todos = (parameters as { todos?: unknown } | undefined)?.todos;
+  if (!Array.isArray(todos)) {
+    return undefined;
+  }
+  const active = todos
+    .filter(
+      (todo): todo is { content: string; status?: string } =>
+        typeof todo?.content === 'string',
+    )
+    .filter((todo) => todo.status === 'in_progress')
+    .map((todo) => todo.content);
+  return active.length > 0 ? active.join('; ') : undefined;
+}
+
+/**
+ * Splits turns into phases that each start with a todo list update.
+ */
+export function splitIntoTodoPhases(contents: IContent[]): TodoPhase[] {
+  const phases: TodoPhase[] = [];
+  let current: TodoPhase = { label: 'Before the todo list', contents: [] };
+  for (const content of contents) {
+    const todoCall =
+      content.speaker === 'ai'
+        ? content.blocks.find(
+            (block) =>
+              block.type === 'tool_call' && block.name === TODO_WRITE_TOOL,
+          )
+        : undefined;
+    if (todoCall && current.contents.length > 0) {
+      phases.push(current);
+      current = { label: '', contents: [] };
+    }
+    if (todoCall?.type === 'tool_call') {
+      current.label =
+        describeTodoUpdate(todoCall.parameters) ??
+        `Todo update ${phases.length + 1}`;
+    }
+    current.contents.push(content);
+  }
+  if (current.contents.length > 0) {
+    phases.push(current);
+  }
+  return phases;
+}
+
+export const todoHierarchicalCompressionStrategy: CompressionStrategy = {
+  name: 'todo-hierarchical',
+  description:
+    'Summarise each todo phase separately; merge the summaries only if they are still too large',
+  async compress(request) {
+    const phases = splitIntoTodoPhases(request.toCompress);
+    if (phases.length < 2) {
+      return summarizeCompressionStrategy.compress(request);
+    }
+
+    const sections: string[] = [];
+    for (const [index, phase] of phases.entries()) {
+      const summary = await request.summarize(
+        phase.contents,
+        `Summarise only this phase of the work ("${phase.label}"). Keep exact file paths, identifiers, commands, errors and decisions. Then generate the <state_snapshot>.`,
+      );
+      sections.push(`## Phase ${index + 1}: ${phase.label}\n\n${summary}`);
+    }
+    const combined = `Summaries of the earlier work, one per todo phase, oldest first:\n\n${sections.join('\n\n')}`;
+    const history = buildSummarizedHistory(combined, request.toKeep);
+    if ((await request.estimateTokens(history)) <= request.targetTokens) {
+      return history;
+    }
+
+    const merged = await request.summarize(
+      [{ speaker: 'human', blocks: [{ type: 'text', text: combined }] }],
+      'Merge these phase summaries into one <state_snapshot>. Keep the details of the most recent phase.',
+    );
+    return buildSummarizedHistory(merged, request.toKeep);
+  },
+};
+
+function toolCallIds(content: IContent): string[] {
+  return content.blocks.flatMap((block) =>
+    block.type === 'tool_call' ? [block.id] : [],
+  );
+}
+
+function toolResponseIds(content: IContent): string[] {
+  return content.blocks.flatMap((block) =>
+    block.type === 'tool_response' ? [block.callId] : [],
+  );
+}
+
+/**
+ * Splits turns into the pinned ones, which compression keeps verbatim, and
+ * the rest. A pinned tool call keeps its responses and a pinned response
+ * keeps its call, so the kept turns never hold half a tool exchange.
+ */
+export function separatePinnedContent(contents: IContent[]): {
+  pinned: IContent[];
+  unpinned: IContent[];
+} {
+  const keep = new Set(
+    contents.filter((content) => content.metadata?.pinned === true),
+  );
+  let changed = keep.size > 0;
+  while (changed) {
+    changed = false;
+    const ids = new Set(
+      [...keep].flatMap((content) => [
+        ...toolCallIds(content),
+        ...toolResponseIds(content),
+      ]),
+    );
+    for (const content of contents) {
+      if (
+        !keep.has(content) &&
+        [...toolCallIds(content), ...toolResponseIds(content)].some((id) =>
+          ids.has(id),
+        )
+      ) {
+        keep.add(content);
+        changed = true;
+      }
+    }
+  }
+  return {
+    pinned: contents.filter((content) => keep.has(content)),
+    unpinned: contents.filter((content) => !keep.has(content)),
+  };
+}
+
+/**
+ * Runs a strategy over the unpinned turns only. Pinned turns move ahead of
+ * the kept turns unchanged, so no strategy can summarise them away.
+ */
+export async function compressWithStrategy(
+  strategy: CompressionStrategy,
+  request: CompressionRequest,
+): Promise<IContent[]> {
+  const { pinned, unpinned } = separatePinnedContent(request.toCompress);
+  if (pinned.length === 0) {
+    return strategy.compress(request);
+  }
+  if (unpinned.length === 0) {
+    return [...request.toCompress, ...request.toKeep];
+  }
+  return strategy.compress({
+    ...request,
+    toCompress: unpinned,
+    toKeep: [...pinned, ...request.toKeep],
+  });
+}
+
+const compressionStrategies = new Map<string, CompressionStrategy>();
+
+/**
+ * Registers a compression strategy under its name, replacing any existing
+ * strategy with the same name.
+ */
+export function registerCompressionStrategy(
+  strategy: CompressionStrategy,
+): void {
+  compressionStrategies.set(strategy.name, strategy);
+}
+
+registerCompressionStrategy(summarizeCompressionStrategy);
+registerCompressionStrategy(stubToolOutputsCompressionStrategy);
+registerCompressionStrategy(todoHierarchicalCompressionStrategy);
+
+export function listCompressionStrategies(): CompressionStrategy[] {
+  return [...compressionStrategies.values()];
+}
+
+/**
+ * Resolves the strategy for a `compression-strategy` value. Unset and
+ * unknown names select the default, so a profile naming a strategy that is
+ * not registered still compresses instead of overflowing the context.
+ */
+export function getCompressionStrategy(name: unknown): CompressionStrategy {
+  const strategy =
+    typeof name === 'string'
+      ? compressionStrategies.get(name.trim().toLowerCase())
+      : undefined;
+  return strategy ?? summarizeCompressionStrategy;
+}
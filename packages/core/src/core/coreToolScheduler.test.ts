@@ -29,7 +29,9 @@ import {
   Kind,
   ApprovalMode,
   ToolRegistry,
+  ToolErrorType,
 } from '../index.js';
+import { ToolPolicy, type PolicyRule } from '../policy/toolPolicy.js';
 import { Part, PartListUnion } from '@google/genai';
 import { MockModifiableTool, MockTool } from '../test-utils/tools.js';
 import type { ToolContext } from '../tools/tool-context.js';
@@ -1140,6 +1142,96 @@ describe('CoreToolScheduler YOLO mode', () => {
   });
 });
 
+describe('CoreToolScheduler tool policy', () => {
+  const createScheduler = (rule: PolicyRule) => {
+    const mockTool = new MockTool();
+    mockTool.executeFn.mockReturnValue({
+      llmContent: 'Tool executed',
+      returnDisplay: 'Tool executed',
+    });
+    const mockToolRegistry = {
+      getTool: () => mockTool,
+      getAllTools: () => [],
+    } as unknown as ToolRegistry;
+    const policy = new ToolPolicy(
+      [{ rule, scope: 'user', file: 'policy.json', index: 0 }],
+      '/project',
+    );
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      getDebugMode: () => false,
+      getApprovalMode: () => ApprovalMode.YOLO,
+      getEphemeralSettings: () => ({}),
+      getAllowedTools: () => [],
+      getToolPolicy: () => policy,
+      getContentGeneratorConfig: () => ({
+        model: 'test-model',
+        authType: 'oauth-personal',
+      }),
+      getToolRegistry: () => mockToolRegistry,
+    } as unknown as Config;
+    const onToolCallsUpdate = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: mockConfig,
+      onAllToolCallsComplete: vi.fn(),
+      onToolCallsUpdate,
+      getPreferredEditor: () => 'vscode',
+      onEditorClose: vi.fn(),
+    });
+    return { mockTool, scheduler, onToolCallsUpdate };
+  };
+
+  const request = {
+    callId: '1',
+    name: 'mock-tool',
+    args: {},
+    isClientInitiated: false,
+    prompt_id: 'prompt-id-policy',
+  };
+
+  it('refuses calls a deny rule matches', async () => {
+    const { mockTool, scheduler, onToolCallsUpdate } = createScheduler({
+      decision: 'deny',
+      tool: 'mock-tool',
+      reason: 'not here',
+    });
+
+    await scheduler.schedule([request], new AbortController().signal);
+    const call = (await waitForStatus(
+      onToolCallsUpdate,
+      'error',
+    )) as CompletedToolCall;
+
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+    expect(call.response.errorType).toBe(ToolErrorType.POLICY_DENIED);
+    expect(call.response.error?.message).toBe(
+      'Tool "mock-tool" was denied by the deny rule 1 in policy.json (not here).',
+    );
+  });
+
+  it('asks for confirmation even in YOLO mode', async () => {
+    const { mockTool, scheduler, onToolCallsUpdate } = createScheduler({
+      decision: 'ask',
+      kind: Kind.Other,
+    });
+
+    await scheduler.schedule([request], new AbortController().signal);
+    const call = (await waitForStatus(
+      onToolCallsUpdate,
+      'awaiting_approval',
+    )) as WaitingToolCall;
+
+    expect(mockTool.executeFn).not.toHaveBeenCalled();
+    expect(call.confirmationDetails).toMatchObject({
+      type: 'info',
+      prompt: expect.stringContaining(
+        'Confirmation is required by the ask rule 1 in policy.json.',
+      ),
+    });
+  });
+});
+
 describe.skip('CoreToolScheduler request queueing', () => {
   // Skipped: These tests expect parallel execution but llxprt uses batch processing
   it('should queue a request if another is running', async () => {
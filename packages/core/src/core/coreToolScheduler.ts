@@ -34,6 +34,10 @@ import {
 import * as Diff from 'diff';
 import levenshtein from 'fast-levenshtein';
 import { doesToolInvocationMatch } from '../utils/tool-utils.js';
+import {
+  describePolicyRule,
+  type PolicyRuleEntry,
+} from '../policy/toolPolicy.js';
 
 export type ValidatingToolCall = {
   status: 'validating';
@@ -277,6 +281,20 @@ const createErrorResponse = (
   agentId: request.agentId ?? DEFAULT_AGENT_ID,
 });
 
+/**
+ * Confirmation for a call an ask rule matched but the tool itself would run
+ * without asking
+ */
+const createPolicyConfirmationDetails = (
+  invocation: AnyToolInvocation,
+  entry: PolicyRuleEntry,
+): ToolCallConfirmationDetails => ({
+  type: 'info',
+  title: 'Confirm tool call',
+  prompt: `${invocation.getDescription()}\n\nConfirmation is required by the ${describePolicyRule(entry)}.`,
+  onConfirm: async () => {},
+});
+
 interface CoreToolSchedulerOptions {
   config: Config;
   outputUpdateHandler?: OutputUpdateHandler;
@@ -745,8 +763,42 @@ export class CoreToolScheduler {
             continue;
           }
 
+          const policyMatch = this.config
+            .getToolPolicy?.()
+            .evaluate(toolCall.tool, invocation);
+
+          if (policyMatch?.decision === 'deny') {
+            this.setStatusInternal(
+              reqInfo.callId,
+              'error',
+              createErrorResponse(
+                reqInfo,
+                new Error(
+                  `Tool "${reqInfo.name}" was denied by the ${describePolicyRule(policyMatch.entry)}.`,
+                ),
+                ToolErrorType.POLICY_DENIED,
+              ),
+            );
+            continue;
+          }
+
+          if (policyMatch?.decision === 'allow') {
+            this.setToolCallOutcome(
+              reqInfo.callId,
+              ToolConfirmationOutcome.ProceedAlways,
+            );
+            this.setStatusInternal(reqInfo.callId, 'scheduled');
+            continue;
+          }
+
+          // An ask rule confirms even calls the tool or approval mode would
+          // let through
+          const mustAsk = policyMatch?.decision === 'ask';
           const confirmationDetails =
-            await invocation.shouldConfirmExecute(signal);
+            (await invocation.shouldConfirmExecute(signal)) ||
+            (mustAsk
+              ? createPolicyConfirmationDetails(invocation, policyMatch.entry)
+              : false);
 
           if (!confirmationDetails) {
             this.setToolCallOutcome(
@@ -759,8 +811,9 @@ export class CoreToolScheduler {
 
           const allowedTools = this.config.getAllowedTools() || [];
           if (
-            this.config.getApprovalMode() === ApprovalMode.YOLO ||
-            doesToolInvocationMatch(toolCall.tool, invocation, allowedTools)
+            !mustAsk &&
+            (this.config.getApprovalMode() === ApprovalMode.YOLO ||
+              doesToolInvocationMatch(toolCall.tool, invocation, allowedTools))
           ) {
             this.setToolCallOutcome(
               reqInfo.callId,
@@ -834,7 +887,10 @@ export class CoreToolScheduler {
 
   async handleConfirmationResponse(
     callId: string,
-    originalOnConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>,
+    originalOnConfirm: (
+      outcome: ToolConfirmationOutcome,
+      payload?: ToolConfirmationPayload,
+    ) => Promise<void>,
     outcome: ToolConfirmationOutcome,
     signal: AbortSignal,
     payload?: ToolConfirmationPayload,
@@ -844,7 +900,7 @@ export class CoreToolScheduler {
     );
 
     if (toolCall && toolCall.status === 'awaiting_approval') {
-      await originalOnConfirm(outcome);
+      await originalOnConfirm(outcome, payload);
     }
 
     if (outcome === ToolConfirmationOutcome.ProceedAlways) {
@@ -894,7 +950,7 @@ export class CoreToolScheduler {
       if (payload?.newContent && toolCall) {
         await this._applyInlineModify(
           toolCall as WaitingToolCall,
-          payload,
+          payload.newContent,
           signal,
         );
       }
@@ -911,7 +967,7 @@ export class CoreToolScheduler {
    */
   private async _applyInlineModify(
     toolCall: WaitingToolCall,
-    payload: ToolConfirmationPayload,
+    newContent: string,
     signal: AbortSignal,
   ): Promise<void> {
     if (
@@ -928,13 +984,13 @@ export class CoreToolScheduler {
 
     const updatedParams = modifyContext.createUpdatedParams(
       currentContent,
-      payload.newContent,
+      newContent,
       toolCall.request.args,
     );
     const updatedDiff = Diff.createPatch(
       modifyContext.getFilePath(toolCall.request.args),
       currentContent,
-      payload.newContent,
+      newContent,
       'Current',
       'Proposed',
     );
@@ -1126,6 +1182,13 @@ export class CoreToolScheduler {
 
     for (const pendingTool of pendingTools) {
       try {
+        const policyMatch = this.config
+          .getToolPolicy?.()
+          .evaluate(pendingTool.tool, pendingTool.invocation);
+        if (policyMatch?.decision === 'ask') {
+          continue;
+        }
+
         const stillNeedsConfirmation =
           await pendingTool.invocation.shouldConfirmExecute(signal);
 
@@ -179,6 +179,34 @@ describe('GeminiChat', () => {
     vi.resetAllMocks();
   });
 
+  describe('summarizeForCompression', () => {
+    const contents = [
+      {
+        speaker: 'human' as const,
+        blocks: [{ type: 'text' as const, text: 'hi' }],
+      },
+    ];
+
+    it('runs the summary on the compression model', async () => {
+      const summary = await chat.summarizeForCompression(contents, 'p', {
+        model: 'gemini-flash',
+      });
+
+      expect(summary).toBe('Test response');
+      expect(mockProvider.generateChatCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({ modelOverride: 'gemini-flash' }),
+      );
+    });
+
+    it('uses the chat model without a compression model', async () => {
+      await chat.summarizeForCompression(contents, 'p');
+
+      const [[callArg]] = vi.mocked(mockProvider.generateChatCompletion).mock
+        .calls;
+      expect(callArg.modelOverride).toBeUndefined();
+    });
+  });
+
   describe('sendMessage', () => {
     it('should call generateContent with the correct parameters', async () => {
       // Response structure is unused but kept for test clarity
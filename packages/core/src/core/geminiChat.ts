@@ -35,11 +35,17 @@ import type {
   IProvider,
   ProviderToolset,
 } from '../providers/IProvider.js';
+import { generateChatCompletionWithFailover } from '../providers/failover.js';
+import { SessionBudgetExceededError } from '../providers/errors.js';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { hasCycleInSchema } from '../tools/tools.js';
 import { isStructuredError } from '../utils/quotaErrorDetection.js';
 import { DebugLogger } from '../debug/index.js';
 import { getCompressionPrompt } from './prompts.js';
+import {
+  compressWithStrategy,
+  getCompressionStrategy,
+} from './compressionStrategies.js';
 import { estimateTokens as estimateTextTokens } from '../utils/toolOutputLimiter.js';
 import { tokenLimit } from './tokenLimits.js';
 import type { AgentRuntimeState } from '../runtime/AgentRuntimeState.js';
@@ -806,6 +812,7 @@ export class GeminiChat {
           // Check for known error messages and codes.
           if (error instanceof Error && error.message) {
             if (isSchemaDepthError(error.message)) return false;
+            if (error instanceof SessionBudgetExceededError) return false;
             if (error.message.includes('429')) return true;
             if (error.message.match(/5\d{2}/)) return true;
           }
@@ -1211,6 +1218,7 @@ export class GeminiChat {
           shouldRetry: (error: unknown) => {
             if (error instanceof Error && error.message) {
               if (isSchemaDepthError(error.message)) return false;
+              if (error instanceof SessionBudgetExceededError) return false;
               if (error.message.includes('429')) return true;
               if (error.message.match(/5\d{2}/)) return true;
             }
@@ -1359,7 +1367,7 @@ export class GeminiChat {
           }
         : baseRuntimeContext;
 
-      const streamResponse = provider.generateChatCompletion!({
+      const chatOptions = {
         contents: requestContents,
         tools: tools as ProviderToolset | undefined,
         config: runtimeContext.config,
@@ -1367,7 +1375,27 @@ export class GeminiChat {
         settings: runtimeContext.settingsService,
         metadata: runtimeContext.metadata,
         userMemory: baseRuntimeContext.config?.getUserMemory?.(),
-      } as GenerateChatOptions);
+      } as GenerateChatOptions;
+
+      // Retry the turn on the configured failover chain when the active
+      // provider fails with a quota, auth or transient network error.
+      const failoverTargets =
+        this.runtimeContext.provider.getFailoverTargets?.() ?? [];
+      const streamResponse =
+        failoverTargets.length > 0
+          ? generateChatCompletionWithFailover(
+              provider,
+              failoverTargets,
+              chatOptions,
+              (event) => {
+                this.logger.debug(
+                  () =>
+                    `[GeminiChat] provider failover from '${event.fromProvider}' to '${event.toProvider}' (${event.reason}): ${event.message}`,
+                );
+                this.runtimeContext.provider.recordProviderFailover?.(event);
+              },
+            )
+          : provider.generateChatCompletion!(chatOptions);
 
       // Convert the IContent stream to GenerateContentResponse stream
       return (async function* (instance) {
@@ -1381,6 +1409,7 @@ export class GeminiChat {
       shouldRetry: (error: unknown) => {
         if (error instanceof Error && error.message) {
           if (isSchemaDepthError(error.message)) return false;
+          if (error instanceof SessionBudgetExceededError) return false;
           if (error.message.includes('429')) return true;
           if (error.message.match(/5\d{2}/)) return true;
         }
@@ -1737,11 +1766,31 @@ export class GeminiChat {
         return;
       }
 
-      // Perform direct compression API call
-      const summary = await this.directCompressionCall(toCompress, prompt_id);
+      // Let the configured strategy shrink the older turns
+      const ephemerals = this.runtimeContext.ephemerals;
+      const strategy = getCompressionStrategy(ephemerals.compressionStrategy());
+      const compressed = await compressWithStrategy(strategy, {
+        toCompress,
+        toKeep,
+        // Leave room so the next turns do not trigger compression again
+        targetTokens: Math.floor(
+          (ephemerals.compressionThreshold() * ephemerals.contextLimit()) / 2,
+        ),
+        estimateTokens: (contents) =>
+          this.historyService.estimateTokensForContents(
+            contents,
+            this.runtimeState.model,
+          ),
+        summarize: (contents, instructions) =>
+          this.summarizeForCompression(contents, prompt_id, {
+            instructions,
+            provider: ephemerals.compressionProvider(),
+            model: ephemerals.compressionModel(),
+          }),
+      });
 
       // Apply compression atomically
-      this.applyCompression(summary, toKeep);
+      this.applyCompression(compressed);
 
       this.logger.debug('Compression completed successfully');
     } catch (error) {
@@ -1829,11 +1878,15 @@ export class GeminiChat {
   }
 
   /**
-   * Direct API call for compression, bypassing normal message flow
+   * Summarises contents with the compression prompt through a direct provider
+   * call, bypassing normal message flow. A compression provider or model, when
+   * given, is used instead of the chat's own so summaries can run on a
+   * cheaper model.
    */
-  private async directCompressionCall(
+  async summarizeForCompression(
     historyToCompress: IContent[],
     _prompt_id: string,
+    options: { instructions?: string; provider?: string; model?: string } = {},
   ): Promise<string> {
     let provider = this.getActiveProvider();
     if (!provider) {
@@ -1861,10 +1914,28 @@ export class GeminiChat {
       }
     }
 
+    if (options.provider && options.provider !== provider.name) {
+      const compressionProvider =
+        this.runtimeContext.provider.getProviderByName?.(options.provider);
+      if (!compressionProvider) {
+        throw new Error(
+          `Compression provider '${options.provider}' is not registered`,
+        );
+      }
+      provider = compressionProvider;
+    }
+
     if (!this.providerSupportsIContent(provider)) {
       throw new Error('Provider does not support compression');
     }
 
+    // Another provider needs a model of its own; default to its current one
+    const compressionModel =
+      options.model ??
+      (options.provider
+        ? (provider.getCurrentModel?.() ?? provider.getDefaultModel())
+        : undefined);
+
     const activeAuthType = this.runtimeState.authType;
     const providerBaseUrl = this.resolveProviderBaseUrl(provider);
 
@@ -1888,7 +1959,9 @@ export class GeminiChat {
         blocks: [
           {
             type: 'text',
-            text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
+            text:
+              options.instructions ??
+              'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
           },
         ],
       },
@@ -1900,7 +1973,7 @@ export class GeminiChat {
         '[GeminiChat] Calling provider.generateChatCompletion (directCompression)',
       {
         providerName: provider.name,
-        model: this.runtimeState.model,
+        model: compressionModel ?? this.runtimeState.model,
         historyLength: compressionRequest.length,
         baseUrl: providerBaseUrl,
         authType: activeAuthType,
@@ -1919,6 +1992,7 @@ export class GeminiChat {
       settings: runtimeContext.settingsService,
       metadata: runtimeContext.metadata,
       userMemory: runtimeContext.config?.getUserMemory?.(),
+      ...(compressionModel ? { modelOverride: compressionModel } : {}),
     });
 
     // Collect response
@@ -1939,37 +2013,12 @@ export class GeminiChat {
   /**
    * Apply compression results to history
    */
-  private applyCompression(summary: string, toKeep: IContent[]): void {
+  private applyCompression(compressed: IContent[]): void {
     // Clear and rebuild history atomically
     this.historyService.clear();
 
     const currentModel = this.runtimeState.model;
-
-    // Add compressed summary as user message
-    this.historyService.add(
-      {
-        speaker: 'human',
-        blocks: [{ type: 'text', text: summary }],
-      },
-      currentModel,
-    );
-
-    // Add acknowledgment from AI
-    this.historyService.add(
-      {
-        speaker: 'ai',
-        blocks: [
-          {
-            type: 'text',
-            text: 'Got it. Thanks for the additional context!',
-          },
-        ],
-      },
-      currentModel,
-    );
-
-    // Add back the kept messages
-    for (const content of toKeep) {
+    for (const content of compressed) {
       this.historyService.add(content, currentModel);
     }
   }
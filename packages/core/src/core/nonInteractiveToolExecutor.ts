@@ -20,6 +20,7 @@ import { convertToFunctionResponse } from './coreToolScheduler.js';
 import { ToolCallDecision } from '../telemetry/types.js';
 import { EmojiFilter, FilterResult } from '../filters/EmojiFilter.js';
 import { DebugLogger } from '../debug/index.js';
+import { describePolicyRule } from '../policy/toolPolicy.js';
 
 /**
  * Global emoji filter instance for reuse across tool calls
@@ -184,6 +185,7 @@ export type ToolExecutionConfig = Pick<
   | 'getEphemeralSettings'
   | 'getEphemeralSetting'
   | 'getExcludeTools'
+  | 'getToolPolicy'
   | 'getSessionId'
   | 'getTelemetryLogPromptsEnabled'
 >;
@@ -393,10 +395,57 @@ export async function executeToolCall(
       systemFeedback = filterResult.systemFeedback;
     }
 
+    const invocation = tool.build(filteredArgs);
+
+    // Nobody can confirm here, so ask rules refuse like deny rules
+    const policyMatch = config.getToolPolicy?.().evaluate(tool, invocation);
+    if (policyMatch && policyMatch.decision !== 'allow') {
+      const error = new Error(
+        policyMatch.decision === 'deny'
+          ? `Tool "${toolCallRequest.name}" was denied by the ${describePolicyRule(policyMatch.entry)}.`
+          : `Tool "${toolCallRequest.name}" needs confirmation, which non-interactive mode cannot give, because of the ${describePolicyRule(policyMatch.entry)}.`,
+      );
+      const durationMs = Date.now() - startTime;
+      logToolCall(telemetryConfig, {
+        'event.name': 'tool_call',
+        'event.timestamp': new Date().toISOString(),
+        function_name: toolCallRequest.name,
+        function_args: toolCallRequest.args,
+        duration_ms: durationMs,
+        success: false,
+        error: error.message,
+        prompt_id: toolCallRequest.prompt_id,
+        tool_type: tool instanceof DiscoveredMCPTool ? 'mcp' : 'native',
+        agent_id: agentId,
+      });
+      return {
+        callId: toolCallRequest.callId,
+        responseParts: [
+          {
+            functionCall: {
+              id: toolCallRequest.callId,
+              name: toolCallRequest.name,
+              args: toolCallRequest.args,
+            },
+          },
+          {
+            functionResponse: {
+              id: toolCallRequest.callId,
+              name: toolCallRequest.name,
+              response: { error: error.message },
+            },
+          },
+        ],
+        resultDisplay: error.message,
+        error,
+        errorType: ToolErrorType.POLICY_DENIED,
+        agentId,
+      };
+    }
+
     // Directly execute without confirmation or live output handling
     const effectiveAbortSignal = abortSignal ?? new AbortController().signal;
-    const toolResult: ToolResult = await tool.buildAndExecute(
-      filteredArgs,
+    const toolResult: ToolResult = await invocation.execute(
       effectiveAbortSignal,
       // No live output callback for non-interactive mode
     );
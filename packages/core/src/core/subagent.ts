@@ -292,6 +292,7 @@ async function validateToolsAgainstRuntime(params: {
 function createToolExecutionConfig(
   runtimeBundle: AgentRuntimeLoaderResult,
   toolRegistry: ToolRegistry,
+  foregroundConfig: Config,
   settingsSnapshot?: ReadonlySettingsSnapshot,
   toolConfig?: ToolConfig,
 ): ToolExecutionConfig {
@@ -328,6 +329,8 @@ function createToolExecutionConfig(
     getEphemeralSettings: () => ({ ...ephemerals }),
     getEphemeralSetting: (key: string) => ephemerals[key],
     getExcludeTools: () => [],
+    // Subagents follow the same policy files as the foreground agent
+    getToolPolicy: () => foregroundConfig.getToolPolicy(),
     getSessionId: () => runtimeBundle.runtimeContext.state.sessionId,
     getTelemetryLogPromptsEnabled: () =>
       Boolean(settingsSnapshot?.telemetry?.enabled),
@@ -525,6 +528,7 @@ export class SubAgentScope {
     const toolExecutorContext = createToolExecutionConfig(
       runtimeBundle,
       toolRegistry,
+      foregroundConfig,
       settingsSnapshot,
       toolConfig,
     );
@@ -1253,6 +1257,7 @@ export class SubAgentScope {
       getSessionId: () => this.toolExecutorContext.getSessionId(),
       getEphemeralSettings,
       getExcludeTools,
+      getToolPolicy: () => this.toolExecutorContext.getToolPolicy(),
       getTelemetryLogPromptsEnabled,
       getAllowedTools: () => allowedTools,
       getApprovalMode: () =>
@@ -35,6 +35,11 @@ import {
   type AgentRuntimeLoaderResult,
 } from '../runtime/AgentRuntimeLoader.js';
 import type { ReadonlySettingsSnapshot } from '../runtime/AgentRuntimeContext.js';
+import {
+  COMPRESSION_MODEL_SETTING,
+  COMPRESSION_PROVIDER_SETTING,
+  COMPRESSION_STRATEGY_SETTING,
+} from './compressionStrategies.js';
 import { SettingsService } from '../settings/SettingsService.js';
 import type { ToolRegistry } from '../tools/tool-registry.js';
 import { AuthType, type ContentGeneratorConfig } from './contentGenerator.js';
@@ -308,6 +313,15 @@ export class SubagentOrchestrator {
       preserveThreshold: this.getNumberSetting(profile.ephemeralSettings, [
         'compression-preserve-threshold',
       ]),
+      compressionStrategy: this.getStringSetting(profile.ephemeralSettings, [
+        COMPRESSION_STRATEGY_SETTING,
+      ]),
+      compressionProvider: this.getStringSetting(profile.ephemeralSettings, [
+        COMPRESSION_PROVIDER_SETTING,
+      ]),
+      compressionModel: this.getStringSetting(profile.ephemeralSettings, [
+        COMPRESSION_MODEL_SETTING,
+      ]),
       toolFormatOverride: this.getStringSetting(profile.ephemeralSettings, [
         'tool-format',
       ]),
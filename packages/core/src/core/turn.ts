@@ -64,6 +64,7 @@ export enum GeminiEventType {
   MaxSessionTurns = 'max_session_turns',
   Finished = 'finished',
   LoopDetected = 'loop_detected',
+  LoopIntervention = 'loop_intervention',
   Citation = 'citation',
   Retry = 'retry',
   SystemNotice = 'system_notice',
@@ -203,6 +204,20 @@ export type ServerGeminiFinishedEvent = {
 
 export type ServerGeminiLoopDetectedEvent = {
   type: GeminiEventType.LoopDetected;
+  /** Description of the loop, when it was found from tool outcomes. */
+  value?: string;
+};
+
+export interface LoopInterventionInfo {
+  description: string;
+  action: 'reflect' | 'switch-model';
+  /** The model that was switched to, for the switch-model action. */
+  model?: string;
+}
+
+export type ServerGeminiLoopInterventionEvent = {
+  type: GeminiEventType.LoopIntervention;
+  value: LoopInterventionInfo;
 };
 
 export type ServerGeminiCitationEvent = {
@@ -225,6 +240,7 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiMaxSessionTurnsEvent
   | ServerGeminiFinishedEvent
   | ServerGeminiLoopDetectedEvent
+  | ServerGeminiLoopInterventionEvent
   | ServerGeminiCitationEvent
   | ServerGeminiRetryEvent
   | ServerGeminiInvalidStreamEvent;
@@ -23,6 +23,9 @@ export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
 export * from './core/tokenLimits.js';
+export * from './core/compressionStrategies.js';
+export * from './policy/toolPolicy.js';
+export * from './policy/toolApprovals.js';
 export * from './core/turn.js';
 export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
@@ -54,6 +57,9 @@ export * from './utils/sanitization.js';
 export * from './utils/unicodeUtils.js';
 export * from './utils/generateContentResponseUtilities.js';
 export * from './utils/filesearch/fileSearch.js';
+export * from './utils/filesearch/fileIndex.js';
+export * from './utils/filesearch/languages.js';
+export * from './utils/symbols/symbolParser.js';
 export * from './utils/secure-browser-launcher.js';
 export * from './utils/errorParsing.js';
 export * from './utils/ignorePatterns.js';
@@ -75,6 +81,8 @@ export * from './auth/types.js';
 export * from './auth/qwen-device-flow.js';
 export * from './auth/anthropic-device-flow.js';
 export * from './auth/oauth-errors.js';
+export * from './auth/authStrategies.js';
+export * from './auth/sigv4.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
@@ -82,6 +90,12 @@ export * from './services/gitService.js';
 export * from './services/tool-call-tracker-service.js';
 export * from './services/todo-context-tracker.js';
 export * from './services/fileSystemService.js';
+export * from './services/loopDetectionService.js';
+export * from './services/toolOutcomeLoopDetector.js';
+export * from './services/symbolIndexService.js';
+export * from './lsp/lspClient.js';
+export * from './lsp/lspService.js';
+export * from './sandbox/commandSandbox.js';
 
 // Export IDE specific logic
 export * from './ide/ide-client.js';
@@ -102,6 +116,9 @@ export * from './tools/tool-context.js';
 // Export prompt logic
 export * from './prompts/mcp-prompts.js';
 
+// Export MCP resource logic
+export * from './resources/resource-registry.js';
+
 // Export prompt configuration system
 export * from './prompt-config/prompt-service.js';
 export * from './prompt-config/types.js';
@@ -119,8 +136,14 @@ export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
+export * from './tools/find-symbol.js';
+export * from './tools/find-references.js';
+export * from './tools/file-outline.js';
+export * from './tools/get-diagnostics.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
+export * from './tools/list-mcp-resources.js';
+export * from './tools/read-mcp-resource.js';
 export * from './tools/todo-read.js';
 export * from './tools/todo-write.js';
 export * from './tools/todo-pause.js';
@@ -151,6 +174,13 @@ export type {
 } from './mcp/oauth-utils.js';
 export { OAuthUtils } from './mcp/oauth-utils.js';
 
+// MCP sampling and elicitation
+export type {
+  McpClientRequestHandler,
+  McpElicitationRequest,
+  McpSamplingRequest,
+} from './mcp/client-requests.js';
+
 // Export telemetry functions
 export * from './telemetry/index.js';
 export * from './telemetry/uiTelemetry.js';
@@ -177,21 +207,35 @@ export * from './providers/ProviderManager.js';
 
 // Export content interfaces
 export * from './services/history/IContent.js';
+export * from './services/history/HistoryBranches.js';
+export * from './services/history/ConversationTranscript.js';
 
 // Export provider implementations
 export { OpenAIProvider } from './providers/openai/OpenAIProvider.js';
 export { OpenAIResponsesProvider } from './providers/openai-responses/OpenAIResponsesProvider.js';
+export {
+  OllamaProvider,
+  OLLAMA_DEFAULT_BASE_URL,
+  OLLAMA_DEFAULT_MODEL,
+  type OllamaPullProgress,
+} from './providers/ollama/OllamaProvider.js';
 export { ConversationCache } from './providers/openai/ConversationCache.js';
 export { getOpenAIProviderInfo } from './providers/openai/getOpenAIProviderInfo.js';
 export { AnthropicProvider } from './providers/anthropic/AnthropicProvider.js';
 export { GeminiProvider } from './providers/gemini/GeminiProvider.js';
 export * from './providers/ProviderManager.js';
 export * from './providers/errors.js';
+export * from './providers/failover.js';
+export * from './providers/pricing.js';
+export * from './providers/compare.js';
 
 // Export tokenizers
 export * from './providers/tokenizers/ITokenizer.js';
 export * from './providers/tokenizers/OpenAITokenizer.js';
 export * from './providers/tokenizers/AnthropicTokenizer.js';
+export * from './providers/tokenizers/PretrainedTokenizer.js';
+export * from './providers/tokenizers/TokenCalibration.js';
+export * from './providers/tokenizers/tokenizerRegistry.js';
 export * from './utils/browser.js';
 export * from './utils/generateContentResponseUtilities.js';
 
@@ -303,6 +347,7 @@ export type { LogEntry as DebugLogEntry } from './debug/index.js';
 
 // Export Storage
 export { Storage } from './config/storage.js';
+export * from './storage/SessionStore.js';
 
 // Export models
 export * from './config/models.js';
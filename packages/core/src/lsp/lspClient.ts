@@ -0,0 +1,366 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn, ChildProcess } from 'node:child_process';
+import { pathToFileURL } from 'node:url';
+import { DebugLogger } from '../debug/index.js';
+
+/** Requests that get no response within this time are rejected. */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** How long a server gets to exit after `shutdown` before it is killed. */
+const SHUTDOWN_TIMEOUT_MS = 2_000;
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+export interface LspPosition {
+  /** 0-based line. */
+  line: number;
+  /** 0-based UTF-16 offset within the line. */
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export enum LspDiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4,
+}
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity?: LspDiagnosticSeverity;
+  code?: string | number;
+  source?: string;
+  message: string;
+}
+
+export interface LspClientOptions {
+  /** Name of the server in the settings, used in logs and errors. */
+  name: string;
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** Workspace root the server is started in and initialized with. */
+  rootPath: string;
+  initializationOptions?: unknown;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A minimal Language Server Protocol client that talks JSON-RPC to a server
+ * process over stdio. It implements the lifecycle and document
+ * synchronization messages needed to collect diagnostics; server requests
+ * it does not understand are answered with `MethodNotFound`.
+ */
+export class LspClient {
+  private readonly logger: DebugLogger;
+  private process: ChildProcess | undefined;
+  private buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly notificationHandlers = new Map<
+    string,
+    Array<(params: unknown) => void>
+  >();
+  private readonly exitListeners = new Set<(error?: Error) => void>();
+  private exited = false;
+  private serverCapabilities: Record<string, unknown> = {};
+
+  constructor(private readonly options: LspClientOptions) {
+    this.logger = new DebugLogger(`llxprt:lsp:${options.name}`);
+  }
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  get capabilities(): Record<string, unknown> {
+    return this.serverCapabilities;
+  }
+
+  isRunning(): boolean {
+    return this.process !== undefined && !this.exited;
+  }
+
+  /**
+   * Starts the server process and performs the `initialize` handshake.
+   * Rejects when the process cannot be started or the handshake fails.
+   */
+  async start(timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS): Promise<void> {
+    const child = spawn(this.options.command, this.options.args ?? [], {
+      cwd: this.options.rootPath,
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.process = child;
+
+    const spawned = new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', reject);
+    });
+    child.on('error', (error) => this.handleExit(error));
+    child.on('exit', (code, signal) =>
+      this.handleExit(
+        code === 0 || signal === 'SIGTERM'
+          ? undefined
+          : new Error(
+              `Language server '${this.name}' exited with ${signal ?? `code ${code}`}`,
+            ),
+      ),
+    );
+    child.stdout!.on('data', (chunk: Buffer) => this.handleData(chunk));
+    child.stderr!.on('data', (chunk: Buffer) =>
+      this.logger.debug(() => `stderr: ${chunk.toString().trimEnd()}`),
+    );
+    // Writes after the server exits fail with EPIPE; the exit is handled above.
+    child.stdin!.on('error', () => {});
+
+    await spawned;
+
+    const rootUri = pathToFileURL(this.options.rootPath).toString();
+    const result = (await this.request(
+      'initialize',
+      {
+        processId: process.pid,
+        clientInfo: { name: 'llxprt-code' },
+        rootUri,
+        rootPath: this.options.rootPath,
+        workspaceFolders: [{ uri: rootUri, name: this.options.name }],
+        initializationOptions: this.options.initializationOptions,
+        capabilities: {
+          textDocument: {
+            synchronization: { didSave: true, dynamicRegistration: false },
+            publishDiagnostics: { relatedInformation: false },
+            diagnostic: { dynamicRegistration: false },
+          },
+          workspace: { configuration: true, workspaceFolders: true },
+        },
+      },
+      timeoutMs,
+    )) as { capabilities?: Record<string, unknown> } | undefined;
+    this.serverCapabilities = result?.capabilities ?? {};
+    this.notify('initialized', {});
+  }
+
+  /** Sends a request and resolves with its result. */
+  request(
+    method: string,
+    params: unknown,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  ): Promise<unknown> {
+    if (!this.isRunning()) {
+      return Promise.reject(
+        new Error(`Language server '${this.name}' is not running`),
+      );
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new Error(
+            `Language server '${this.name}' did not answer '${method}' within ${timeoutMs}ms`,
+          ),
+        );
+      }, timeoutMs);
+      this.pending.set(id, { method, resolve, reject, timer });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    if (this.isRunning()) {
+      this.send({ jsonrpc: '2.0', method, params });
+    }
+  }
+
+  /** Registers a handler for a server notification such as diagnostics. */
+  onNotification(method: string, handler: (params: unknown) => void): void {
+    const handlers = this.notificationHandlers.get(method) ?? [];
+    handlers.push(handler);
+    this.notificationHandlers.set(method, handlers);
+  }
+
+  /** Calls `listener` once the server process exits, with the cause if any. */
+  onExit(listener: (error?: Error) => void): () => void {
+    this.exitListeners.add(listener);
+    return () => this.exitListeners.delete(listener);
+  }
+
+  /** Asks the server to shut down, killing it if it does not exit in time. */
+  async stop(): Promise<void> {
+    const child = this.process;
+    if (!child || this.exited) {
+      return;
+    }
+    const exited = new Promise<void>((resolve) => {
+      this.onExit(() => resolve());
+    });
+    try {
+      await this.request('shutdown', null, SHUTDOWN_TIMEOUT_MS);
+      this.notify('exit', null);
+    } catch (error) {
+      this.logger.debug(() => `shutdown failed: ${error}`);
+    }
+    const timer = setTimeout(() => child.kill('SIGKILL'), SHUTDOWN_TIMEOUT_MS);
+    await exited;
+    clearTimeout(timer);
+  }
+
+  private send(message: JsonRpcMessage): void {
+    const body = Buffer.from(JSON.stringify(message), 'utf8');
+    this.process!.stdin!.write(
+      `Content-Length: ${body.length}${HEADER_DELIMITER}`,
+    );
+    this.process!.stdin!.write(body);
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const lengthMatch = /Content-Length:\s*(\d+)/i.exec(header);
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      if (!lengthMatch) {
+        // Not a message header; skip past it rather than stalling the stream.
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+      const bodyEnd = bodyStart + Number(lengthMatch[1]);
+      if (this.buffer.length < bodyEnd) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      try {
+        this.handleMessage(JSON.parse(body) as JsonRpcMessage);
+      } catch (error) {
+        this.logger.debug(() => `Ignoring malformed message: ${error}`);
+      }
+    }
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (message.method === undefined) {
+      const pending =
+        typeof message.id === 'number'
+          ? this.pending.get(message.id)
+          : undefined;
+      if (!pending) {
+        return;
+      }
+      this.pending.delete(message.id as number);
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(
+          new Error(
+            `Language server '${this.name}' failed '${pending.method}': ${message.error.message}`,
+          ),
+        );
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    if (message.id !== undefined && message.id !== null) {
+      this.answerServerRequest(message.id, message.method, message.params);
+      return;
+    }
+    for (const handler of this.notificationHandlers.get(message.method) ?? []) {
+      handler(message.params);
+    }
+  }
+
+  private answerServerRequest(
+    id: number | string,
+    method: string,
+    params: unknown,
+  ): void {
+    switch (method) {
+      case 'workspace/configuration': {
+        // No client-side settings; servers fall back to their defaults.
+        const items = (params as { items?: unknown[] } | undefined)?.items;
+        this.send({
+          jsonrpc: '2.0',
+          id,
+          result: (items ?? []).map(() => null),
+        });
+        return;
+      }
+      case 'workspace/workspaceFolders':
+        this.send({
+          jsonrpc: '2.0',
+          id,
+          result: [
+            {
+              uri: pathToFileURL(this.options.rootPath).toString(),
+              name: this.options.name,
+            },
+          ],
+        });
+        return;
+      case 'client/registerCapability':
+      case 'client/unregisterCapability':
+      case 'window/workDoneProgress/create':
+      case 'window/showMessageRequest':
+        this.send({ jsonrpc: '2.0', id, result: null });
+        return;
+      default:
+        this.send({
+          jsonrpc: '2.0',
+          id,
+          error: { code: -32601, message: `Unhandled method ${method}` },
+        });
+    }
+  }
+
+  private handleExit(error?: Error): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    if (error) {
+      this.logger.debug(() => error.message);
+    }
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(
+        error ?? new Error(`Language server '${this.name}' exited`),
+      );
+      this.pending.delete(id);
+    }
+    for (const listener of this.exitListeners) {
+      listener(error);
+    }
+    this.exitListeners.clear();
+  }
+}
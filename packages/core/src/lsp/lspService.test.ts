@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { LspService, formatDiagnostics } from './lspService.js';
+import type { Config, LspSettings } from '../config/config.js';
+
+/**
+ * A language server that reports an error for every line containing
+ * `ERROR`, publishing on open and change like most push-based servers.
+ */
+const FAKE_SERVER = `
+let buffer = Buffer.alloc(0);
+const send = (message) => {
+  const body = Buffer.from(JSON.stringify({ jsonrpc: '2.0', ...message }));
+  process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n');
+  process.stdout.write(body);
+};
+const publish = (uri, version, text) => {
+  const diagnostics = text.split('\\n').flatMap((line, index) =>
+    line.includes('ERROR')
+      ? [{ range: { start: { line: index, character: line.indexOf('ERROR') }, end: { line: index, character: line.length } },
+           severity: 1, source: 'fake', code: 'E1', message: 'found\\nERROR' }]
+      : [],
+  );
+  send({ method: 'textDocument/publishDiagnostics', params: { uri, version, diagnostics } });
+};
+process.stdin.on('data', (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+    if (headerEnd === -1) return;
+    const length = Number(/Content-Length: (\\d+)/.exec(buffer.subarray(0, headerEnd).toString())[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const message = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString());
+    buffer = buffer.subarray(headerEnd + 4 + length);
+    if (message.method === 'initialize') send({ id: message.id, result: { capabilities: { textDocumentSync: 1 } } });
+    if (message.method === 'shutdown') send({ id: message.id, result: null });
+    if (message.method === 'exit') process.exit(0);
+    if (message.method === 'textDocument/didOpen') {
+      const { uri, version, text } = message.params.textDocument;
+      publish(uri, version, text);
+    }
+    if (message.method === 'textDocument/didChange') {
+      const { uri, version } = message.params.textDocument;
+      publish(uri, version, message.params.contentChanges[0].text);
+    }
+  }
+});
+`;
+
+describe('LspService', () => {
+  let rootDir: string;
+  let serverScript: string;
+  let service: LspService;
+  let trusted: boolean;
+
+  const createService = (settings: Partial<LspSettings> = {}) =>
+    new LspService(
+      {
+        getTargetDir: () => rootDir,
+        isTrustedFolder: () => trusted,
+      } as unknown as Config,
+      {
+        servers: {
+          fake: {
+            command: process.execPath,
+            args: [serverScript],
+            languages: ['typescript'],
+          },
+        },
+        ...settings,
+      },
+    );
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lsp-service-'));
+    serverScript = path.join(rootDir, 'server.cjs');
+    await fs.writeFile(serverScript, FAKE_SERVER);
+    trusted = true;
+    service = createService();
+  });
+
+  afterEach(async () => {
+    await service.shutdown();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('reports diagnostics for opened and changed files', async () => {
+    const file = path.join(rootDir, 'a.ts');
+    await fs.writeFile(file, 'const a = 1;\nconst b = ERROR;\n');
+
+    const first = await service.getDiagnostics([file]);
+    expect(first.unavailable).toEqual([]);
+    expect(first.files).toHaveLength(1);
+    expect(first.files[0].diagnostics).toHaveLength(1);
+    expect(formatDiagnostics(first)).toBe(
+      `Language server diagnostics:\n1 problem(s) in ${file}:\n  2:11 error [fake E1] found ERROR`,
+    );
+
+    await fs.writeFile(file, 'const a = 1;\n');
+    const second = await service.getDiagnostics([file]);
+    expect(second.files[0].diagnostics).toEqual([]);
+    expect(service.getCheckedFiles()).toEqual([file]);
+  });
+
+  it('skips files without a configured server', async () => {
+    const file = path.join(rootDir, 'notes.md');
+    await fs.writeFile(file, 'ERROR');
+
+    expect(await service.getDiagnosticsMessage([file])).toBeUndefined();
+  });
+
+  it('can leave edit results without diagnostics', async () => {
+    service = createService({ diagnosticsAfterEdit: false });
+    const file = path.join(rootDir, 'a.ts');
+    await fs.writeFile(file, 'ERROR');
+
+    expect(await service.getDiagnosticsMessage([file])).toBeUndefined();
+  });
+
+  it('reports servers that cannot start', async () => {
+    service = new LspService(
+      {
+        getTargetDir: () => rootDir,
+        isTrustedFolder: () => true,
+      } as unknown as Config,
+      {
+        servers: {
+          missing: {
+            command: path.join(rootDir, 'no-such-server'),
+            languages: ['typescript'],
+          },
+        },
+      },
+    );
+    const file = path.join(rootDir, 'a.ts');
+    await fs.writeFile(file, 'ERROR');
+
+    const result = await service.getDiagnostics([file]);
+
+    expect(result.files).toEqual([]);
+    expect(result.unavailable[0].reason).toContain(
+      "Language server 'missing' failed to start",
+    );
+  });
+
+  it('does not start servers in untrusted folders', async () => {
+    trusted = false;
+    const file = path.join(rootDir, 'a.ts');
+    await fs.writeFile(file, 'ERROR');
+
+    const result = await service.getDiagnostics([file]);
+
+    expect(result.unavailable[0].reason).toContain('not trusted');
+  });
+});
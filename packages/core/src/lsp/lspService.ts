@@ -0,0 +1,451 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { Config, LspSettings } from '../config/config.js';
+import { getLanguageId } from '../utils/filesearch/languages.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { DebugLogger } from '../debug/index.js';
+import {
+  LspClient,
+  LspDiagnostic,
+  LspDiagnosticSeverity,
+} from './lspClient.js';
+
+const logger = new DebugLogger('llxprt:lsp');
+
+/** Default time to wait for a file's diagnostics. */
+export const DEFAULT_DIAGNOSTICS_TIMEOUT_MS = 5_000;
+
+/**
+ * Servers usually publish diagnostics more than once per change (syntax
+ * first, semantic later); results are final once none arrive for this long.
+ */
+const DIAGNOSTICS_SETTLE_MS = 300;
+
+/** A server that keeps crashing is not restarted after this many starts. */
+const MAX_SERVER_STARTS = 3;
+
+/** Diagnostics beyond this count per file are summarized. */
+const MAX_DIAGNOSTICS_PER_FILE = 20;
+
+export interface FileDiagnostics {
+  filePath: string;
+  /** Name of the server that reported the diagnostics. */
+  server: string;
+  /** Errors and warnings, ordered by position. */
+  diagnostics: LspDiagnostic[];
+}
+
+export interface UnavailableDiagnostics {
+  filePath: string;
+  reason: string;
+}
+
+export interface DiagnosticsResult {
+  files: FileDiagnostics[];
+  /** Files with a configured server whose diagnostics could not be read. */
+  unavailable: UnavailableDiagnostics[];
+}
+
+interface OpenDocument {
+  server: string;
+  version: number;
+  content: string;
+}
+
+interface PublishedDiagnostics {
+  /** Increases with every notification, across all documents. */
+  sequence: number;
+  version?: number;
+  diagnostics: LspDiagnostic[];
+}
+
+interface ServerState {
+  client?: Promise<LspClient>;
+  starts: number;
+  /** Set when the server cannot be started; it is not retried. */
+  failure?: string;
+}
+
+/**
+ * Runs the language servers configured in the `lsp` settings and collects
+ * diagnostics from them. Servers are started on first use for a file of
+ * one of their languages and run until {@link LspService.shutdown}. Each
+ * checked file is kept open in its server and resynchronized from disk
+ * before diagnostics are read, so edits made by any tool are picked up.
+ */
+export class LspService {
+  private readonly servers = new Map<string, ServerState>();
+  private readonly documents = new Map<string, OpenDocument>();
+  private readonly published = new Map<string, PublishedDiagnostics>();
+  private readonly publishListeners = new Set<(uri: string) => void>();
+  private publishSequence = 0;
+
+  constructor(
+    private readonly config: Config,
+    private readonly settings: LspSettings,
+  ) {}
+
+  /** Returns the name of the server that handles a file, if any. */
+  getServerForFile(filePath: string): string | undefined {
+    const language = getLanguageId(filePath);
+    if (!language) {
+      return undefined;
+    }
+    return Object.entries(this.settings.servers ?? {}).find(([, server]) =>
+      server.languages?.includes(language),
+    )?.[0];
+  }
+
+  /** Returns the absolute paths of the files that have been checked. */
+  getCheckedFiles(): string[] {
+    return [...this.documents.keys()].map((uri) => fileURLToPath(uri));
+  }
+
+  /**
+   * Collects the errors and warnings of files. Files without a configured
+   * server are skipped.
+   */
+  async getDiagnostics(
+    filePaths: string[],
+    timeoutMs = this.settings.diagnosticsTimeout ??
+      DEFAULT_DIAGNOSTICS_TIMEOUT_MS,
+  ): Promise<DiagnosticsResult> {
+    const result: DiagnosticsResult = { files: [], unavailable: [] };
+    const deadline = Date.now() + timeoutMs;
+    await Promise.all(
+      [...new Set(filePaths)].map(async (filePath) => {
+        const server = this.getServerForFile(filePath);
+        if (!server) {
+          return;
+        }
+        try {
+          const diagnostics = await this.getFileDiagnostics(
+            filePath,
+            server,
+            deadline,
+          );
+          result.files.push({
+            filePath,
+            server,
+            diagnostics: diagnostics
+              .filter(
+                (d) =>
+                  (d.severity ?? LspDiagnosticSeverity.Error) <=
+                  LspDiagnosticSeverity.Warning,
+              )
+              .sort(
+                (a, b) =>
+                  a.range.start.line - b.range.start.line ||
+                  a.range.start.character - b.range.start.character,
+              ),
+          });
+        } catch (error) {
+          result.unavailable.push({ filePath, reason: getErrorMessage(error) });
+        }
+      }),
+    );
+    result.files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+    return result;
+  }
+
+  /**
+   * Returns the diagnostics of edited files formatted for a tool result, or
+   * undefined when no server handles them or diagnostics are switched off
+   * after edits.
+   */
+  async getDiagnosticsMessage(
+    filePaths: string[],
+  ): Promise<string | undefined> {
+    if (this.settings.diagnosticsAfterEdit === false) {
+      return undefined;
+    }
+    const result = await this.getDiagnostics(filePaths);
+    if (result.files.length === 0 && result.unavailable.length === 0) {
+      return undefined;
+    }
+    return formatDiagnostics(result);
+  }
+
+  /** Stops all running servers. */
+  async shutdown(): Promise<void> {
+    const clients = [...this.servers.values()].map((state) => state.client);
+    this.servers.clear();
+    this.documents.clear();
+    this.published.clear();
+    await Promise.all(
+      clients.map(async (client) => {
+        try {
+          await (await client)?.stop();
+        } catch {
+          // The server never started.
+        }
+      }),
+    );
+  }
+
+  private async getFileDiagnostics(
+    filePath: string,
+    server: string,
+    deadline: number,
+  ): Promise<LspDiagnostic[]> {
+    const client = await withDeadline(
+      this.getClient(server),
+      deadline,
+      `Language server '${server}' did not start in time`,
+    );
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const uri = pathToFileURL(filePath).toString();
+    const sequence = this.publishSequence;
+    const { version, changed } = this.syncDocument(
+      client,
+      server,
+      uri,
+      filePath,
+      content,
+    );
+    const cached = this.published.get(uri);
+
+    if (client.capabilities['diagnosticProvider']) {
+      const report = (await client.request(
+        'textDocument/diagnostic',
+        { textDocument: { uri } },
+        Math.max(deadline - Date.now(), 1),
+      )) as { kind?: string; items?: LspDiagnostic[] } | null;
+      if (report?.kind === 'full') {
+        this.recordPublish(uri, version, report.items ?? []);
+      }
+      return this.published.get(uri)?.diagnostics ?? [];
+    }
+
+    if (!changed && cached) {
+      return cached.diagnostics;
+    }
+    return this.waitForPublish(uri, version, sequence, deadline);
+  }
+
+  /**
+   * Opens the document in its server, or sends the new content when it has
+   * changed since it was last sent.
+   */
+  private syncDocument(
+    client: LspClient,
+    server: string,
+    uri: string,
+    filePath: string,
+    content: string,
+  ): { version: number; changed: boolean } {
+    const open = this.documents.get(uri);
+    if (open && open.server === server) {
+      const changed = open.content !== content;
+      if (changed) {
+        open.version++;
+        open.content = content;
+        client.notify('textDocument/didChange', {
+          textDocument: { uri, version: open.version },
+          contentChanges: [{ text: content }],
+        });
+        client.notify('textDocument/didSave', { textDocument: { uri } });
+      }
+      return { version: open.version, changed };
+    }
+    this.documents.set(uri, { server, version: 1, content });
+    client.notify('textDocument/didOpen', {
+      textDocument: {
+        uri,
+        languageId: getLanguageId(filePath),
+        version: 1,
+        text: content,
+      },
+    });
+    return { version: 1, changed: true };
+  }
+
+  /**
+   * Waits for the server to publish diagnostics for a document version, or
+   * for any notification newer than `sequence` when the server does not
+   * report versions, then for further notifications until they settle.
+   */
+  private waitForPublish(
+    uri: string,
+    version: number,
+    sequence: number,
+    deadline: number,
+  ): Promise<LspDiagnostic[]> {
+    const isCurrent = () => {
+      const published = this.published.get(uri);
+      return (
+        published !== undefined &&
+        (published.version !== undefined
+          ? published.version >= version
+          : published.sequence > sequence)
+      );
+    };
+    return new Promise((resolve, reject) => {
+      let settleTimer: NodeJS.Timeout | undefined;
+      const finish = () => {
+        clearTimeout(deadlineTimer);
+        clearTimeout(settleTimer);
+        this.publishListeners.delete(listener);
+        if (isCurrent()) {
+          resolve(this.published.get(uri)!.diagnostics);
+        } else {
+          reject(
+            new Error('The language server did not report diagnostics in time'),
+          );
+        }
+      };
+      const listener = (publishedUri: string) => {
+        if (publishedUri === uri && isCurrent()) {
+          clearTimeout(settleTimer);
+          settleTimer = setTimeout(finish, DIAGNOSTICS_SETTLE_MS);
+        }
+      };
+      const deadlineTimer = setTimeout(
+        finish,
+        Math.max(deadline - Date.now(), 0),
+      );
+      this.publishListeners.add(listener);
+      listener(uri);
+    });
+  }
+
+  private recordPublish(
+    uri: string,
+    version: number | undefined,
+    diagnostics: LspDiagnostic[],
+  ): void {
+    this.published.set(uri, {
+      sequence: ++this.publishSequence,
+      version,
+      diagnostics,
+    });
+    for (const listener of this.publishListeners) {
+      listener(uri);
+    }
+  }
+
+  private getClient(server: string): Promise<LspClient> {
+    const state = this.servers.get(server) ?? { starts: 0 };
+    this.servers.set(server, state);
+    if (state.failure) {
+      return Promise.reject(new Error(state.failure));
+    }
+    if (state.client) {
+      return state.client;
+    }
+    if (!this.config.isTrustedFolder()) {
+      state.failure = `Language server '${server}' is not started because the folder is not trusted`;
+      return Promise.reject(new Error(state.failure));
+    }
+    if (state.starts >= MAX_SERVER_STARTS) {
+      state.failure = `Language server '${server}' stopped ${state.starts} times and will not be restarted`;
+      return Promise.reject(new Error(state.failure));
+    }
+
+    state.starts++;
+    const settings = this.settings.servers![server];
+    const client = new LspClient({
+      name: server,
+      command: settings.command,
+      args: settings.args,
+      env: settings.env,
+      rootPath: this.config.getTargetDir(),
+      initializationOptions: settings.initializationOptions,
+    });
+    client.onNotification('textDocument/publishDiagnostics', (params) => {
+      const { uri, version, diagnostics } = params as {
+        uri: string;
+        version?: number;
+        diagnostics: LspDiagnostic[];
+      };
+      this.recordPublish(uri, version ?? undefined, diagnostics);
+    });
+    client.onExit((error) => {
+      logger.debug(
+        () => `Language server '${server}' exited${error ? `: ${error}` : ''}`,
+      );
+      if (this.servers.get(server) === state) {
+        state.client = undefined;
+      }
+      for (const [uri, document] of this.documents) {
+        if (document.server === server) {
+          this.documents.delete(uri);
+          this.published.delete(uri);
+        }
+      }
+    });
+
+    state.client = client.start().then(
+      () => client,
+      (error) => {
+        state.client = undefined;
+        state.failure = `Language server '${server}' failed to start: ${getErrorMessage(error)}`;
+        void client.stop();
+        throw new Error(state.failure);
+      },
+    );
+    return state.client;
+  }
+}
+
+function withDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+  message: string,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(message)),
+      Math.max(deadline - Date.now(), 0),
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+/** Formats one diagnostic as `line:column severity [source code] message`. */
+export function formatDiagnostic(diagnostic: LspDiagnostic): string {
+  const { line, character } = diagnostic.range.start;
+  const severity =
+    diagnostic.severity === LspDiagnosticSeverity.Warning ? 'warning' : 'error';
+  const origin = [diagnostic.source, diagnostic.code]
+    .filter((part) => part !== undefined && part !== '')
+    .join(' ');
+  const message = diagnostic.message.replace(/\s*\n\s*/g, ' ');
+  return `${line + 1}:${character + 1} ${severity}${origin ? ` [${origin}]` : ''} ${message}`;
+}
+
+/** Formats diagnostics for the model, grouped by file. */
+export function formatDiagnostics(result: DiagnosticsResult): string {
+  const sections = result.files.map(({ filePath, diagnostics }) => {
+    if (diagnostics.length === 0) {
+      return `No errors or warnings in ${filePath}.`;
+    }
+    const shown = diagnostics.slice(0, MAX_DIAGNOSTICS_PER_FILE);
+    const lines = shown.map(
+      (diagnostic) => `  ${formatDiagnostic(diagnostic)}`,
+    );
+    if (diagnostics.length > shown.length) {
+      lines.push(`  ... and ${diagnostics.length - shown.length} more`);
+    }
+    return `${diagnostics.length} problem(s) in ${filePath}:\n${lines.join('\n')}`;
+  });
+  for (const { filePath, reason } of result.unavailable) {
+    sections.push(`Diagnostics unavailable for ${filePath}: ${reason}`);
+  }
+  return `Language server diagnostics:\n${sections.join('\n')}`;
+}
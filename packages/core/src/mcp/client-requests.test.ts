@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Config } from '../config/config.js';
+import type { ProviderCompareResult } from '../providers/compare.js';
+import {
+  registerMcpClientRequestHandlers,
+  samplingRequestToContents,
+  type McpClientRequestHandler,
+} from './client-requests.js';
+
+describe('registerMcpClientRequestHandlers', () => {
+  const compareProviderResponses = vi.fn(
+    async (): Promise<ProviderCompareResult[]> => [
+      {
+        provider: 'anthropic',
+        model: 'claude-sonnet',
+        status: 'done',
+        text: 'Paris',
+        toolCallCount: 0,
+      },
+    ],
+  );
+  let client: Client;
+  let server: Server;
+
+  async function connect(handler?: McpClientRequestHandler) {
+    const config = {
+      getMcpClientRequestHandler: () => handler,
+      getProviderManager: () => ({
+        getActiveProviderName: () => 'anthropic',
+        compareProviderResponses,
+      }),
+    } as unknown as Config;
+    client = new Client({ name: 'test-client', version: '0.0.1' });
+    registerMcpClientRequestHandlers(client, 'geo', config);
+    server = new Server(
+      { name: 'geo', version: '0.0.1' },
+      { capabilities: {} },
+    );
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      client.connect(clientTransport),
+      server.connect(serverTransport),
+    ]);
+  }
+
+  afterEach(async () => {
+    await client.close();
+    compareProviderResponses.mockClear();
+  });
+
+  it('samples the active provider once the user approves', async () => {
+    const confirmSampling = vi.fn(async () => true);
+    await connect({ confirmSampling, elicit: vi.fn() });
+
+    expect(server.getClientCapabilities()).toMatchObject({
+      sampling: {},
+      elicitation: {},
+    });
+    const result = await server.createMessage({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Capital of France?' } },
+      ],
+      maxTokens: 100,
+      temperature: 0.2,
+      stopSequences: ['\n\n'],
+    });
+
+    expect(confirmSampling).toHaveBeenCalledWith(
+      expect.objectContaining({ serverName: 'geo', providerName: 'anthropic' }),
+      expect.any(AbortSignal),
+    );
+    expect(compareProviderResponses).toHaveBeenCalledWith(
+      [{ provider: 'anthropic' }],
+      [
+        {
+          speaker: 'human',
+          blocks: [{ type: 'text', text: 'Capital of France?' }],
+        },
+      ],
+      expect.objectContaining({
+        generationOverrides: {
+          maxTokens: 100,
+          temperature: 0.2,
+          stopSequences: ['\n\n'],
+        },
+      }),
+    );
+    expect(result).toEqual({
+      role: 'assistant',
+      model: 'claude-sonnet',
+      stopReason: 'endTurn',
+      content: { type: 'text', text: 'Paris' },
+    });
+  });
+
+  it('reports a stop at the token limit when the answer used all of it', async () => {
+    compareProviderResponses.mockResolvedValueOnce([
+      {
+        provider: 'anthropic',
+        model: 'claude-sonnet',
+        status: 'done',
+        text: 'The capital of',
+        usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+        toolCallCount: 0,
+      },
+    ]);
+    await connect({ confirmSampling: async () => true, elicit: vi.fn() });
+
+    const result = await server.createMessage({
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Capital of France?' } },
+      ],
+      maxTokens: 3,
+    });
+
+    expect(result.stopReason).toBe('maxTokens');
+  });
+
+  it('rejects sampling the user declines or cannot be asked about', async () => {
+    await connect({ confirmSampling: async () => false, elicit: vi.fn() });
+    await expect(
+      server.createMessage({ messages: [], maxTokens: 10 }),
+    ).rejects.toThrow('The user declined the sampling request.');
+    await client.close();
+
+    await connect();
+    await expect(
+      server.createMessage({ messages: [], maxTokens: 10 }),
+    ).rejects.toThrow('Sampling needs an interactive session');
+    expect(compareProviderResponses).not.toHaveBeenCalled();
+  });
+
+  it('returns the answer to an elicitation, or declines without a handler', async () => {
+    const elicit = vi.fn(async () => ({
+      action: 'accept' as const,
+      content: { name: 'Ada' },
+    }));
+    await connect({ confirmSampling: vi.fn(), elicit });
+    const requestedSchema = {
+      type: 'object' as const,
+      properties: { name: { type: 'string' as const } },
+      required: ['name'],
+    };
+
+    await expect(
+      server.elicitInput({ message: 'Who are you?', requestedSchema }),
+    ).resolves.toEqual({ action: 'accept', content: { name: 'Ada' } });
+    expect(elicit).toHaveBeenCalledWith(
+      { serverName: 'geo', message: 'Who are you?', requestedSchema },
+      expect.any(AbortSignal),
+    );
+    await client.close();
+
+    await connect();
+    await expect(
+      server.elicitInput({ message: 'Who are you?', requestedSchema }),
+    ).resolves.toEqual({ action: 'decline' });
+  });
+});
+
+describe('samplingRequestToContents', () => {
+  it('puts the system prompt before the first user message', () => {
+    expect(
+      samplingRequestToContents({
+        systemPrompt: 'Answer briefly.',
+        maxTokens: 10,
+        messages: [
+          { role: 'assistant', content: { type: 'text', text: 'Hello' } },
+          {
+            role: 'user',
+            content: { type: 'image', data: 'aGk=', mimeType: 'image/png' },
+          },
+        ],
+      }),
+    ).toEqual([
+      { speaker: 'human', blocks: [{ type: 'text', text: 'Answer briefly.' }] },
+      { speaker: 'ai', blocks: [{ type: 'text', text: 'Hello' }] },
+      {
+        speaker: 'human',
+        blocks: [
+          {
+            type: 'media',
+            mimeType: 'image/png',
+            data: 'aGk=',
+            encoding: 'base64',
+          },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  type ElicitRequest,
+  type ElicitResult,
+  type SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config/config.js';
+import type { ContentBlock, IContent } from '../services/history/IContent.js';
+import { DebugLogger } from '../debug/index.js';
+
+const logger = new DebugLogger('llxprt:mcp:client-requests');
+
+export interface McpSamplingRequest {
+  serverName: string;
+  /** The provider that will generate the response */
+  providerName: string;
+  messages: SamplingMessage[];
+  systemPrompt?: string;
+  maxTokens: number;
+}
+
+export interface McpElicitationRequest {
+  serverName: string;
+  message: string;
+  requestedSchema: ElicitRequest['params']['requestedSchema'];
+}
+
+/**
+ * Asks the user about requests that MCP servers send to the client. The CLI
+ * registers one on the config when it runs interactively.
+ */
+export interface McpClientRequestHandler {
+  /** Resolves to true when the user allows the server to use the model */
+  confirmSampling(
+    request: McpSamplingRequest,
+    signal: AbortSignal,
+  ): Promise<boolean>;
+  /** Shows the server's form and resolves with the user's answer */
+  elicit(
+    request: McpElicitationRequest,
+    signal: AbortSignal,
+  ): Promise<ElicitResult>;
+}
+
+function samplingMessageToContent(message: SamplingMessage): IContent {
+  const { content } = message;
+  const block: ContentBlock =
+    content.type === 'text'
+      ? { type: 'text', text: content.text }
+      : {
+          type: 'media',
+          mimeType: content.mimeType,
+          data: content.data,
+          encoding: 'base64',
+        };
+  return {
+    speaker: message.role === 'user' ? 'human' : 'ai',
+    blocks: [block],
+  };
+}
+
+/**
+ * Converts a sampling request to history contents. Providers add their own
+ * system prompt, so the server's system prompt leads the first user message.
+ */
+export function samplingRequestToContents(
+  params: CreateMessageRequest['params'],
+): IContent[] {
+  const contents = params.messages.map(samplingMessageToContent);
+  if (params.systemPrompt) {
+    const instructions: ContentBlock = {
+      type: 'text',
+      text: params.systemPrompt,
+    };
+    if (contents[0]?.speaker === 'human') {
+      contents[0].blocks.unshift(instructions);
+    } else {
+      contents.unshift({ speaker: 'human', blocks: [instructions] });
+    }
+  }
+  return contents;
+}
+
+/**
+ * Handles `sampling/createMessage`: once the user agrees, the active
+ * provider answers the server's messages without tools, within the
+ * requested token limit, temperature and stop sequences.
+ */
+export async function createSamplingMessage(
+  config: Config,
+  serverName: string,
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal,
+): Promise<CreateMessageResult> {
+  const handler = config.getMcpClientRequestHandler();
+  const providerManager = config.getProviderManager();
+  if (!handler || !providerManager?.compareProviderResponses) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      'Sampling needs an interactive session to ask the user for approval.',
+    );
+  }
+
+  const providerName = providerManager.getActiveProviderName();
+  const approved = await handler.confirmSampling(
+    {
+      serverName,
+      providerName,
+      messages: params.messages,
+      systemPrompt: params.systemPrompt,
+      maxTokens: params.maxTokens,
+    },
+    signal,
+  );
+  if (!approved) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      'The user declined the sampling request.',
+    );
+  }
+
+  logger.debug(
+    () => `Sampling ${params.messages.length} messages for '${serverName}'`,
+  );
+  const [result] = await providerManager.compareProviderResponses(
+    [{ provider: providerName }],
+    samplingRequestToContents(params),
+    {
+      signal,
+      generationOverrides: {
+        maxTokens: params.maxTokens,
+        temperature: params.temperature,
+        stopSequences: params.stopSequences,
+      },
+    },
+  );
+  if (result.status === 'error') {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Sampling failed: ${result.error}`,
+    );
+  }
+  // Providers do not report why generation stopped, so a response that used
+  // the whole budget is taken to have hit the limit
+  const hitTokenLimit =
+    (result.usage?.completionTokens ?? 0) >= params.maxTokens;
+  return {
+    role: 'assistant',
+    model: result.model,
+    stopReason: hitTokenLimit ? 'maxTokens' : 'endTurn',
+    content: { type: 'text', text: result.text },
+  };
+}
+
+/**
+ * Handles `elicitation/create`. Without an interactive session there is
+ * nobody to ask, so the request is declined.
+ */
+export async function elicitUserInput(
+  config: Config,
+  serverName: string,
+  params: ElicitRequest['params'],
+  signal: AbortSignal,
+): Promise<ElicitResult> {
+  const handler = config.getMcpClientRequestHandler();
+  if (!handler) {
+    logger.debug(() => `Declining elicitation from '${serverName}'`);
+    return { action: 'decline' };
+  }
+  return handler.elicit(
+    {
+      serverName,
+      message: params.message,
+      requestedSchema: params.requestedSchema,
+    },
+    signal,
+  );
+}
+
+/**
+ * Advertises the sampling and elicitation capabilities on an MCP client and
+ * answers the matching requests. Must be called before connecting.
+ */
+export function registerMcpClientRequestHandlers(
+  client: Client,
+  serverName: string,
+  config: Config,
+): void {
+  client.registerCapabilities({
+    sampling: {},
+    elicitation: {},
+  });
+  client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+    createSamplingMessage(config, serverName, request.params, extra.signal),
+  );
+  client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+    elicitUserInput(config, serverName, request.params, extra.signal),
+  );
+}
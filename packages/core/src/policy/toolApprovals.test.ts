@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ToolApprovalStore } from './toolApprovals.js';
+
+describe('ToolApprovalStore', () => {
+  let tempDir: string;
+  let file: string;
+  let trusted: boolean;
+
+  const storeFor = (workspace: string) =>
+    new ToolApprovalStore(file, workspace, () => trusted);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-approvals-'));
+    file = path.join(tempDir, 'settings', 'tool_approvals.json');
+    trusted = true;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps project approvals to their workspace', () => {
+    storeFor('/work/a').save({ type: 'shell', target: 'npm' }, 'project');
+    storeFor('/work/a').save({ type: 'mcpServer', target: 'github' }, 'user');
+
+    const a = storeFor('/work/a');
+    const b = storeFor('/work/b');
+    expect(a.isApproved({ type: 'shell', target: 'npm' })).toBe(true);
+    expect(b.isApproved({ type: 'shell', target: 'npm' })).toBe(false);
+    expect(b.isApproved({ type: 'mcpServer', target: 'github' })).toBe(true);
+    expect(a.list().map(({ target, scope }) => [target, scope])).toEqual([
+      ['npm', 'project'],
+      ['github', 'user'],
+    ]);
+  });
+
+  it('keeps approvals saved by other sessions', () => {
+    const first = storeFor('/work/a');
+    const second = storeFor('/work/a');
+    first.list();
+
+    second.save({ type: 'shell', target: 'git' }, 'project');
+    first.save({ type: 'shell', target: 'npm' }, 'project');
+    first.save({ type: 'shell', target: 'npm' }, 'project');
+
+    expect(
+      storeFor('/work/a')
+        .list()
+        .map(({ target }) => target),
+    ).toEqual(['git', 'npm']);
+  });
+
+  it('revokes approvals', () => {
+    const store = storeFor('/work/a');
+    store.save({ type: 'mcpTool', target: 'github.create_issue' }, 'project');
+
+    expect(
+      store.revoke({ type: 'mcpTool', target: 'github.create_issue' }, 'user'),
+    ).toBe(false);
+    expect(
+      store.revoke(
+        { type: 'mcpTool', target: 'github.create_issue' },
+        'project',
+      ),
+    ).toBe(true);
+    expect(store.list()).toEqual([]);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({
+      user: [],
+      workspaces: {},
+    });
+  });
+
+  it('ignores saved approvals while the folder is not trusted', () => {
+    const store = storeFor('/work/a');
+    store.save({ type: 'shell', target: 'npm' }, 'user');
+    trusted = false;
+
+    expect(store.isApproved({ type: 'shell', target: 'npm' })).toBe(false);
+    expect(() =>
+      store.save({ type: 'shell', target: 'git' }, 'project'),
+    ).toThrow('not trusted');
+  });
+});
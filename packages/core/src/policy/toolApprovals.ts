@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { DebugLogger } from '../debug/index.js';
+
+/**
+ * Where a saved approval applies: `project` approvals only apply in the
+ * workspace they were given in, `user` approvals in every workspace
+ */
+export type ApprovalScope = 'project' | 'user';
+
+/**
+ * What an approval covers: one whole shell command such as `npm test`, every
+ * tool of an MCP server, or one MCP tool written as `server.tool`
+ */
+export type ToolApprovalType = 'shell' | 'mcpServer' | 'mcpTool';
+
+export interface ToolApproval {
+  type: ToolApprovalType;
+  target: string;
+}
+
+export interface SavedToolApproval extends ToolApproval {
+  scope: ApprovalScope;
+  /** ISO 8601 */
+  savedAt: string;
+}
+
+type StoredApproval = Omit<SavedToolApproval, 'scope'>;
+
+interface ToolApprovalsFile {
+  user: StoredApproval[];
+  /** Project approvals by absolute workspace path */
+  workspaces: Record<string, StoredApproval[]>;
+}
+
+const logger = new DebugLogger('llxprt:policy:approvals');
+
+const isSame = (a: ToolApproval, b: ToolApproval): boolean =>
+  a.type === b.type && a.target === b.target;
+
+/**
+ * "Proceed Always" approvals saved across sessions in one file in the user's
+ * settings directory, so a repository cannot ship approvals for itself.
+ * Saved approvals are only used while the workspace is trusted.
+ */
+export class ToolApprovalStore {
+  private cached: ToolApprovalsFile | undefined;
+
+  constructor(
+    private readonly file: string,
+    private readonly workspace: string,
+    private readonly isTrusted: () => boolean,
+  ) {}
+
+  /**
+   * Approvals for this workspace followed by those for every workspace
+   */
+  list(): SavedToolApproval[] {
+    const data = this.read();
+    return [
+      ...(data.workspaces[this.workspace] ?? []).map(
+        (approval): SavedToolApproval => ({ ...approval, scope: 'project' }),
+      ),
+      ...data.user.map(
+        (approval): SavedToolApproval => ({ ...approval, scope: 'user' }),
+      ),
+    ];
+  }
+
+  isApproved(approval: ToolApproval): boolean {
+    return (
+      this.isTrusted() && this.list().some((saved) => isSame(saved, approval))
+    );
+  }
+
+  save(approval: ToolApproval, scope: ApprovalScope): void {
+    if (!this.isTrusted()) {
+      throw new Error(
+        'Approvals cannot be saved because this folder is not trusted.',
+      );
+    }
+    this.update((data) => {
+      const list = this.getList(data, scope);
+      if (!list.some((saved) => isSame(saved, approval))) {
+        list.push({
+          type: approval.type,
+          target: approval.target,
+          savedAt: new Date().toISOString(),
+        });
+      }
+    });
+  }
+
+  /**
+   * Remove a saved approval; returns whether it was saved
+   */
+  revoke(approval: ToolApproval, scope: ApprovalScope): boolean {
+    let removed = false;
+    this.update((data) => {
+      const list = this.getList(data, scope);
+      const index = list.findIndex((saved) => isSame(saved, approval));
+      if (index !== -1) {
+        list.splice(index, 1);
+        removed = true;
+      }
+    });
+    return removed;
+  }
+
+  private getList(
+    data: ToolApprovalsFile,
+    scope: ApprovalScope,
+  ): StoredApproval[] {
+    if (scope === 'user') {
+      return data.user;
+    }
+    data.workspaces[this.workspace] ??= [];
+    return data.workspaces[this.workspace];
+  }
+
+  private read(): ToolApprovalsFile {
+    if (!this.cached) {
+      this.cached = { user: [], workspaces: {} };
+      try {
+        if (fs.existsSync(this.file)) {
+          const parsed = JSON.parse(
+            fs.readFileSync(this.file, 'utf-8'),
+          ) as Partial<ToolApprovalsFile>;
+          this.cached = {
+            user: Array.isArray(parsed.user) ? parsed.user : [],
+            workspaces: parsed.workspaces ?? {},
+          };
+        }
+      } catch (error) {
+        logger.warn(() => `Ignoring unreadable ${this.file}`, error);
+      }
+    }
+    return this.cached;
+  }
+
+  /**
+   * Apply a change to the file as it is on disk, so approvals saved by
+   * other sessions are kept
+   */
+  private update(change: (data: ToolApprovalsFile) => void): void {
+    this.cached = undefined;
+    const data = this.read();
+    change(data);
+    if (data.workspaces[this.workspace]?.length === 0) {
+      delete data.workspaces[this.workspace];
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(data, null, 2), {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Kind } from '../tools/tools.js';
+import {
+  loadToolPolicy,
+  parseToolPolicy,
+  ToolPolicy,
+  ToolPolicyError,
+  type PolicyCheck,
+  type PolicyRule,
+} from './toolPolicy.js';
+
+const PROJECT_ROOT = path.resolve('/work/project');
+
+const policyFor = (...rules: PolicyRule[]) =>
+  new ToolPolicy(
+    rules.map((rule, index) => ({
+      rule,
+      scope: 'project',
+      file: 'policy.json',
+      index,
+    })),
+    PROJECT_ROOT,
+  );
+
+const edit = (...files: string[]): PolicyCheck => ({
+  toolName: 'replace',
+  kind: Kind.Edit,
+  locations: files.map((file) => path.resolve(PROJECT_ROOT, file)),
+});
+
+const shell = (command: string): PolicyCheck => ({
+  toolName: 'run_shell_command',
+  kind: Kind.Execute,
+  locations: [],
+  command,
+});
+
+describe('ToolPolicy', () => {
+  it('denies edits outside src/', () => {
+    const policy = policyFor({
+      decision: 'deny',
+      kind: [Kind.Edit, Kind.Delete, Kind.Move],
+      paths: '!src/**',
+    });
+
+    expect(policy.check(edit('src/index.ts'))).toBeUndefined();
+    expect(policy.check(edit('package.json'))?.decision).toBe('deny');
+    expect(policy.check(edit('../elsewhere/file.ts'))?.decision).toBe('deny');
+    expect(
+      policy.check({ ...edit('README.md'), kind: Kind.Read }),
+    ).toBeUndefined();
+  });
+
+  it('matches shell commands word by word in every chained command', () => {
+    const policy = policyFor(
+      { decision: 'ask', command: 'git push' },
+      { decision: 'deny', command: 'curl' },
+      { decision: 'allow', command: ['git status', 'npm run *'] },
+    );
+
+    expect(policy.check(shell('git push origin main'))?.decision).toBe('ask');
+    expect(policy.check(shell('git pushy'))).toBeUndefined();
+    expect(
+      policy.check(shell('npm test && /usr/bin/curl -s example.com'))?.decision,
+    ).toBe('deny');
+    expect(policy.check(shell('bash -c "curl x"'))?.decision).toBe('deny');
+    expect(policy.check(shell('npm run build'))?.decision).toBe('allow');
+    expect(policy.check(shell('npm run build && rm -rf dist'))).toBeUndefined();
+    expect(policy.check(shell('sudo npm run build'))).toBeUndefined();
+    expect(policy.check(edit('src/curl.ts'))).toBeUndefined();
+  });
+
+  it.each([
+    'sudo curl example.com',
+    'sudo -u root curl example.com',
+    'env HTTPS_PROXY=x curl example.com',
+    'echo example.com | xargs curl',
+    'nice -n 10 curl example.com',
+    'timeout 5 curl example.com',
+    'nohup curl example.com &',
+    'command curl example.com',
+    'exec curl example.com',
+    'echo x && bash -c "curl example.com"',
+    "sh -c 'sudo env curl example.com'",
+    'find . -name "*.url" -exec curl {} \\;',
+    'echo "$(curl example.com)"',
+    'echo x\ncurl example.com',
+  ])('matches commands run through wrappers: %s', (command) => {
+    const policy = policyFor({ decision: 'deny', command: 'curl' });
+    expect(policy.check(shell(command))?.decision).toBe('deny');
+  });
+
+  it('fails closed for ask and deny rules when commands cannot be told', () => {
+    const policy = policyFor(
+      { decision: 'deny', command: 'curl' },
+      { decision: 'allow', command: 'npm run *' },
+    );
+
+    expect(policy.check(shell('sudo ls'))).toBeUndefined();
+    expect(policy.check(shell('git commit -m "$(cat msg)"'))).toBeUndefined();
+    expect(policy.check(shell('$FETCH example.com'))?.decision).toBe('deny');
+    expect(policy.check(shell('cat script | bash'))?.decision).toBe('deny');
+    expect(
+      policyFor({ decision: 'allow', command: 'npm run *' }).check(
+        shell('npm run $(cat target) && $RUN'),
+      ),
+    ).toBeUndefined();
+  });
+
+  it('lets the strictest matching rule win', () => {
+    const policy = policyFor(
+      { decision: 'allow', tool: 'run_shell_command' },
+      { decision: 'deny', command: 'curl' },
+      { decision: 'ask', kind: Kind.Execute },
+    );
+
+    const match = policy.check(shell('curl example.com'));
+    expect(match?.decision).toBe('deny');
+    expect(match?.entry.index).toBe(1);
+    expect(policy.check(shell('ls'))?.decision).toBe('ask');
+  });
+
+  it('needs every file inside an allow rule but only one for deny', () => {
+    const policy = policyFor({ decision: 'allow', paths: 'src/**' });
+    expect(policy.check(edit('src/a.ts', 'src/b.ts'))?.decision).toBe('allow');
+    expect(policy.check(edit('src/a.ts', 'package.json'))).toBeUndefined();
+    expect(policy.check(shell('ls'))).toBeUndefined();
+
+    const deny = policyFor({ decision: 'deny', paths: '**/.env' });
+    expect(deny.check(edit('src/a.ts', 'config/.env'))?.decision).toBe('deny');
+  });
+
+  it('matches MCP servers by name', () => {
+    const policy = policyFor({ decision: 'deny', mcpServer: 'github' });
+    const call: PolicyCheck = {
+      toolName: 'create_issue',
+      kind: Kind.Other,
+      locations: [],
+    };
+
+    expect(policy.check({ ...call, mcpServer: 'github' })?.decision).toBe(
+      'deny',
+    );
+    expect(policy.check({ ...call, mcpServer: 'jira' })).toBeUndefined();
+    expect(policy.check(call)).toBeUndefined();
+  });
+});
+
+describe('parseToolPolicy', () => {
+  it.each([
+    ['{', /Invalid tool policy in policy\.json: /],
+    ['{"allow": []}', /expected an object with a "rules" list/],
+    ['{"rules": [{"decision": "maybe"}]}', /rules\[0\]\.decision must be/],
+    [
+      '{"rules": [{"decision": "deny", "path": "src/**"}]}',
+      /rules\[0\] has unknown field "path"/,
+    ],
+    [
+      '{"rules": [{"decision": "deny", "kind": "write"}]}',
+      /rules\[0\]\.kind must be one of read, edit/,
+    ],
+    [
+      '{"rules": [{"decision": "deny", "command": []}]}',
+      /rules\[0\]\.command must be a string or a list of strings/,
+    ],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseToolPolicy(text, 'policy.json', 'user')).toThrow(message);
+  });
+});
+
+describe('loadToolPolicy', () => {
+  let tempDir: string;
+  let userFile: string;
+  let projectFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-policy-'));
+    userFile = path.join(tempDir, 'user-policy.json');
+    projectFile = path.join(tempDir, 'project-policy.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, rules: PolicyRule[]) =>
+    fs.writeFileSync(file, JSON.stringify({ rules }));
+
+  it('merges the user and project files', () => {
+    write(userFile, [{ decision: 'deny', command: 'curl' }]);
+    write(projectFile, [{ decision: 'allow', command: 'npm test' }]);
+
+    const policy = loadToolPolicy({
+      userFile,
+      projectFile,
+      projectRoot: tempDir,
+      trustProject: true,
+    });
+
+    expect(policy.getRules().map(({ scope }) => scope)).toEqual([
+      'user',
+      'project',
+    ]);
+  });
+
+  it('ignores allow rules from an untrusted project', () => {
+    write(projectFile, [
+      { decision: 'allow', command: 'rm' },
+      { decision: 'ask', command: 'git push' },
+    ]);
+
+    const policy = loadToolPolicy({
+      userFile,
+      projectFile,
+      projectRoot: tempDir,
+      trustProject: false,
+    });
+
+    expect(policy.getRules().map(({ rule }) => rule.decision)).toEqual(['ask']);
+  });
+
+  it('fails on an invalid file', () => {
+    fs.writeFileSync(userFile, '{"rules": {}}');
+
+    expect(() =>
+      loadToolPolicy({
+        userFile,
+        projectFile,
+        projectRoot: tempDir,
+        trustProject: true,
+      }),
+    ).toThrow(ToolPolicyError);
+  });
+});
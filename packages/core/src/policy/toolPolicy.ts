@@ -0,0 +1,410 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import picomatch from 'picomatch';
+import { DebugLogger } from '../debug/index.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import {
+  Kind,
+  type AnyDeclarativeTool,
+  type AnyToolInvocation,
+} from '../tools/tools.js';
+import {
+  parseShellCommand,
+  stripShellWrapper,
+  type ShellInvocation,
+} from '../utils/shell-utils.js';
+
+export type PolicyDecision = 'allow' | 'ask' | 'deny';
+
+export type PolicyScope = 'user' | 'project';
+
+/**
+ * A rule from a policy file. Every condition the rule gives must hold for it
+ * to match, so a rule with only a decision matches every tool call.
+ */
+export interface PolicyRule {
+  decision: PolicyDecision;
+  /** Tool names, e.g. `write_file` or `run_shell_command` */
+  tool?: string | string[];
+  /** Tool kinds, e.g. `edit` or `execute` */
+  kind?: Kind | Kind[];
+  /**
+   * Globs for the files a call touches, relative to the project root unless
+   * absolute. A `!` pattern excludes, so `!src/**` matches files outside src/.
+   */
+  paths?: string | string[];
+  /** Shell commands, matched word by word against each command in a chain */
+  command?: string | string[];
+  /** MCP server names */
+  mcpServer?: string | string[];
+  /** Shown to the user and the model when the rule denies or asks */
+  reason?: string;
+}
+
+/** A rule together with where it was defined */
+export interface PolicyRuleEntry {
+  rule: PolicyRule;
+  scope: PolicyScope;
+  file: string;
+  /** Position of the rule in its file's `rules` array */
+  index: number;
+}
+
+/** What a tool call looks like to the policy */
+export interface PolicyCheck {
+  toolName: string;
+  kind: Kind;
+  /** Absolute paths of the files the call touches */
+  locations: string[];
+  /** Shell command, for shell tools */
+  command?: string;
+  mcpServer?: string;
+}
+
+export interface PolicyMatch {
+  decision: PolicyDecision;
+  entry: PolicyRuleEntry;
+}
+
+export class ToolPolicyError extends Error {
+  constructor(
+    message: string,
+    readonly file: string,
+  ) {
+    super(`Invalid tool policy in ${file}: ${message}`);
+    this.name = 'ToolPolicyError';
+  }
+}
+
+/** Stricter decisions win when several rules match */
+const DECISION_SEVERITY: Record<PolicyDecision, number> = {
+  allow: 0,
+  ask: 1,
+  deny: 2,
+};
+
+const RULE_KEYS = new Set([
+  'decision',
+  'tool',
+  'kind',
+  'paths',
+  'command',
+  'mcpServer',
+  'reason',
+]);
+
+const SHELL_TOOL_NAMES = ['run_shell_command', 'ShellTool'];
+
+const logger = new DebugLogger('llxprt:policy');
+
+const toList = <T>(value: T | T[] | undefined): T[] | undefined =>
+  value === undefined ? undefined : Array.isArray(value) ? value : [value];
+
+const toPosix = (filePath: string): string =>
+  filePath.split(path.sep).join('/');
+
+/**
+ * Describe a rule for messages and logs, e.g.
+ * `deny rule 2 in ~/.llxprt/policy.json (curl is not allowed)`
+ */
+export function describePolicyRule(entry: PolicyRuleEntry): string {
+  const reason = entry.rule.reason ? ` (${entry.rule.reason})` : '';
+  return `${entry.rule.decision} rule ${entry.index + 1} in ${entry.file}${reason}`;
+}
+
+/**
+ * Allow, ask and deny rules for tool calls, merged from the user and the
+ * project policy files. When several rules match a call the strictest
+ * decision wins, so a project cannot loosen a rule the user set and the
+ * other way round.
+ */
+export class ToolPolicy {
+  constructor(
+    private readonly entries: PolicyRuleEntry[],
+    private readonly projectRoot: string,
+  ) {}
+
+  getRules(): readonly PolicyRuleEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Decide on a tool call; undefined when no rule matches and the approval
+   * mode decides as before. Every decision is logged with its rule.
+   */
+  evaluate(
+    tool: AnyDeclarativeTool,
+    invocation: AnyToolInvocation,
+  ): PolicyMatch | undefined {
+    if (this.entries.length === 0) {
+      return undefined;
+    }
+    const params = invocation.params as { command?: unknown };
+    return this.check({
+      toolName: tool.name,
+      kind: tool.kind,
+      locations: invocation
+        .toolLocations()
+        .map((location) => path.resolve(this.projectRoot, location.path)),
+      command:
+        SHELL_TOOL_NAMES.includes(tool.name) &&
+        typeof params.command === 'string'
+          ? params.command
+          : undefined,
+      mcpServer:
+        tool instanceof DiscoveredMCPTool ? tool.serverName : undefined,
+    });
+  }
+
+  check(call: PolicyCheck): PolicyMatch | undefined {
+    let match: PolicyMatch | undefined;
+    for (const entry of this.entries) {
+      if (
+        (!match ||
+          DECISION_SEVERITY[entry.rule.decision] >
+            DECISION_SEVERITY[match.decision]) &&
+        this.matches(entry.rule, call)
+      ) {
+        match = { decision: entry.rule.decision, entry };
+      }
+    }
+    if (match) {
+      logger.log(() => `${call.toolName}: ${describePolicyRule(match.entry)}`);
+    } else {
+      logger.debug(() => `${call.toolName}: no policy rule matched`);
+    }
+    return match;
+  }
+
+  private matches(rule: PolicyRule, call: PolicyCheck): boolean {
+    const tools = toList(rule.tool);
+    if (tools && !tools.includes(call.toolName)) {
+      return false;
+    }
+    const kinds = toList(rule.kind);
+    if (kinds && !kinds.includes(call.kind)) {
+      return false;
+    }
+    const servers = toList(rule.mcpServer);
+    if (servers && (!call.mcpServer || !servers.includes(call.mcpServer))) {
+      return false;
+    }
+    const commands = toList(rule.command);
+    if (commands) {
+      if (call.command === undefined) {
+        return false;
+      }
+      const parsed = parseShellCommand(stripShellWrapper(call.command));
+      const matchesWords = ({ words }: ShellInvocation) =>
+        matchesCommandWords(commands, words);
+      // Like paths, an allow rule must cover every command the call runs,
+      // including those run through wrappers such as `sudo`. One command is
+      // enough for ask and deny, which also match when some commands cannot
+      // be told, so a rule cannot be avoided by hiding the program
+      const matchesCommands =
+        rule.decision === 'allow'
+          ? parsed.complete &&
+            parsed.invocations.length > 0 &&
+            parsed.invocations.every(matchesWords)
+          : !parsed.complete || parsed.invocations.some(matchesWords);
+      if (!matchesCommands) {
+        return false;
+      }
+    }
+    const paths = toList(rule.paths);
+    if (paths) {
+      // An allow rule must cover every file the call touches; one file is
+      // enough for ask and deny
+      const matchesPaths = (location: string) =>
+        this.matchesPaths(paths, location);
+      return rule.decision === 'allow'
+        ? call.locations.length > 0 && call.locations.every(matchesPaths)
+        : call.locations.some(matchesPaths);
+    }
+    return true;
+  }
+
+  private matchesPaths(patterns: string[], location: string): boolean {
+    const relative = toPosix(path.relative(this.projectRoot, location));
+    const test = (pattern: string) => {
+      const expanded = pattern.startsWith('~/')
+        ? path.join(os.homedir(), pattern.slice(2))
+        : pattern;
+      return path.isAbsolute(expanded)
+        ? picomatch.isMatch(toPosix(location), toPosix(expanded), { dot: true })
+        : picomatch.isMatch(relative, expanded, { dot: true });
+    };
+    const included = patterns.filter((pattern) => !pattern.startsWith('!'));
+    const excluded = patterns
+      .filter((pattern) => pattern.startsWith('!'))
+      .map((pattern) => pattern.slice(1));
+    return (
+      (included.length === 0 || included.some(test)) && !excluded.some(test)
+    );
+  }
+}
+
+/**
+ * Whether the words of one command match any of the patterns. A pattern
+ * matches when its words start the command; `*` matches any one word.
+ */
+export function matchesCommandWords(
+  patterns: string[],
+  words: string[],
+): boolean {
+  return patterns.some((pattern) => {
+    const patternWords = pattern.trim().split(/\s+/);
+    return (
+      patternWords.length <= words.length &&
+      patternWords.every((word, index) => word === '*' || word === words[index])
+    );
+  });
+}
+
+/**
+ * Whether any command a shell command line runs matches any of the
+ * patterns, including commands run through wrappers such as `sudo` or
+ * `bash -c`. The program is compared by name, so `curl` also matches
+ * `/usr/bin/curl`.
+ * @param whenUnparsed The result when no command matches but some of the
+ *   commands that run cannot be told, such as a program in a variable
+ */
+export function matchesCommandPattern(
+  patterns: string[],
+  command?: string,
+  whenUnparsed = false,
+): boolean {
+  if (command === undefined) {
+    return false;
+  }
+  const parsed = parseShellCommand(stripShellWrapper(command));
+  return (
+    parsed.invocations.some(({ words }) =>
+      matchesCommandWords(patterns, words),
+    ) ||
+    (!parsed.complete && whenUnparsed)
+  );
+}
+
+function validateRule(value: unknown, location: string, file: string): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ToolPolicyError(`${location} must be an object`, file);
+  }
+  const rule = value as Record<string, unknown>;
+  for (const key of Object.keys(rule)) {
+    if (!RULE_KEYS.has(key)) {
+      throw new ToolPolicyError(`${location} has unknown field "${key}"`, file);
+    }
+  }
+  if (!Object.keys(DECISION_SEVERITY).includes(rule['decision'] as string)) {
+    throw new ToolPolicyError(
+      `${location}.decision must be "allow", "ask" or "deny"`,
+      file,
+    );
+  }
+  const kinds = Object.values(Kind) as string[];
+  for (const key of ['tool', 'kind', 'paths', 'command', 'mcpServer']) {
+    const list = toList(rule[key]);
+    if (
+      list &&
+      (list.length === 0 ||
+        !list.every((item) => typeof item === 'string' && item.trim()))
+    ) {
+      throw new ToolPolicyError(
+        `${location}.${key} must be a string or a list of strings`,
+        file,
+      );
+    }
+    if (
+      key === 'kind' &&
+      list &&
+      !list.every((kind) => kinds.includes(kind as string))
+    ) {
+      throw new ToolPolicyError(
+        `${location}.kind must be one of ${kinds.join(', ')}`,
+        file,
+      );
+    }
+  }
+  if (rule['reason'] !== undefined && typeof rule['reason'] !== 'string') {
+    throw new ToolPolicyError(`${location}.reason must be a string`, file);
+  }
+}
+
+/**
+ * Parse the contents of a policy file, `{ "rules": [...] }`. Throws a
+ * ToolPolicyError naming the first invalid rule.
+ */
+export function parseToolPolicy(
+  text: string,
+  file: string,
+  scope: PolicyScope,
+): PolicyRuleEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ToolPolicyError(
+      error instanceof Error ? error.message : String(error),
+      file,
+    );
+  }
+  const rules = (parsed as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new ToolPolicyError('expected an object with a "rules" list', file);
+  }
+  return rules.map((rule, index) => {
+    validateRule(rule, `rules[${index}]`, file);
+    return { rule: rule as PolicyRule, scope, file, index };
+  });
+}
+
+export interface ToolPolicyFiles {
+  userFile: string;
+  projectFile: string;
+  projectRoot: string;
+  /**
+   * Whether the project is trusted. Allow rules from an untrusted project
+   * are ignored so a cloned repository cannot approve its own tool calls.
+   */
+  trustProject: boolean;
+}
+
+/**
+ * Load the user and project policy files; a missing file has no rules
+ */
+export function loadToolPolicy(files: ToolPolicyFiles): ToolPolicy {
+  const entries: PolicyRuleEntry[] = [];
+  const sources: Array<[string, PolicyScope]> = [
+    [files.userFile, 'user'],
+    [files.projectFile, 'project'],
+  ];
+  for (const [file, scope] of sources) {
+    if (!fs.existsSync(file)) {
+      continue;
+    }
+    const rules = parseToolPolicy(fs.readFileSync(file, 'utf-8'), file, scope);
+    for (const entry of rules) {
+      if (
+        scope === 'project' &&
+        !files.trustProject &&
+        entry.rule.decision === 'allow'
+      ) {
+        logger.warn(
+          () =>
+            `Ignoring ${describePolicyRule(entry)} because the folder is not trusted`,
+        );
+        continue;
+      }
+      entries.push(entry);
+    }
+  }
+  return new ToolPolicy(entries, files.projectRoot);
+}
@@ -243,6 +243,10 @@ export const TOOL_DEFAULTS: Record<string, string> = {
   'tools/edit.md': loadMarkdownFile('tools/edit.md'),
   'tools/insert_at_line.md': loadMarkdownFile('tools/insert_at_line.md'),
   'tools/read_line_range.md': loadMarkdownFile('tools/read_line_range.md'),
+  'tools/find-symbol.md': loadMarkdownFile('tools/find-symbol.md'),
+  'tools/find-references.md': loadMarkdownFile('tools/find-references.md'),
+  'tools/file-outline.md': loadMarkdownFile('tools/file-outline.md'),
+  'tools/get-diagnostics.md': loadMarkdownFile('tools/get-diagnostics.md'),
   'tools/write-file.md': loadMarkdownFile('tools/write-file.md'),
   'tools/grep.md': loadMarkdownFile('tools/grep.md'),
   'tools/glob.md': loadMarkdownFile('tools/glob.md'),
@@ -351,6 +351,25 @@ describe('BaseProvider', () => {
       });
       expect(getContentText(result.value as IContent)).toContain('custom-aut');
     });
+    it('resolves a per-call model override without changing the stored model', async () => {
+      const provider = new TestProvider({ name: 'test' });
+      const settings = new SettingsService();
+      settings.setProviderSetting('test', 'model', 'stored-model');
+      const messages = [userMessage('override test')];
+
+      await provider
+        .generateChatCompletion({
+          ...createOptionsWithRuntime(messages, settings),
+          modelOverride: 'summary-model',
+        })
+        .next();
+      expect(provider.lastOptions?.resolved.model).toBe('summary-model');
+
+      await provider
+        .generateChatCompletion(createOptionsWithRuntime(messages, settings))
+        .next();
+      expect(provider.lastOptions?.resolved.model).toBe('stored-model');
+    });
   });
 
   describe('OAuth Support Validation', () => {
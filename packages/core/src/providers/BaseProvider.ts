@@ -22,6 +22,7 @@ import {
   AuthPrecedenceConfig,
   OAuthManager,
 } from '../auth/precedence.js';
+import type { AuthStrategyClientOptions } from '../auth/authStrategies.js';
 import type { Config } from '../config/config.js';
 import { IProviderConfig } from './types/IProviderConfig.js';
 import {
@@ -262,7 +263,14 @@ export abstract class BaseProvider implements IProvider {
     return undefined;
   }
 
-  private computeModel(settingsService: SettingsService): string {
+  private computeModel(
+    settingsService: SettingsService,
+    modelOverride?: string,
+  ): string {
+    if (modelOverride) {
+      return modelOverride;
+    }
+
     const ephemeralModel = settingsService.get('model') as string | undefined;
     if (ephemeralModel) {
       return ephemeralModel;
@@ -691,7 +699,10 @@ export abstract class BaseProvider implements IProvider {
       ...metadataFromOptions,
     };
 
-    const resolvedModel = this.computeModel(settings);
+    const resolvedModel = this.computeModel(
+      settings,
+      providedOptions.modelOverride,
+    );
     const resolvedBaseURL = this.computeBaseURL(settings);
     // CRITICAL: includeOAuth: true for prompt sends - OAuth is allowed here
     const resolvedAuth =
@@ -1087,6 +1098,29 @@ export abstract class BaseProvider implements IProvider {
     }
   }
 
+  /**
+   * Builds the SDK client auth options for the strategy selected by the
+   * `auth-mode` setting. Throws when the strategy needs a credential and the
+   * precedence chain found none.
+   */
+  protected createAuthClientOptions(
+    settingsService: SettingsService,
+    request: { credential: string; baseURL?: string; model: string },
+  ): AuthStrategyClientOptions {
+    const strategy = this.authResolver.resolveAuthStrategy({
+      settingsService,
+    });
+    if (strategy.requiresCredential && !request.credential) {
+      throw new Error(
+        `No authentication available for ${this.name} (auth-mode ${strategy.mode}). Set a key with /key or /keyfile.`,
+      );
+    }
+    return strategy.createClientOptions({
+      ...request,
+      getSetting: (key) => settingsService.get(key),
+    });
+  }
+
   /**
    * Get custom headers from provider configuration and ephemeral settings
    */
@@ -36,6 +36,17 @@ export type ProviderToolset = Array<{
   }>;
 }>;
 
+/**
+ * Generation parameters for a single call, in place of the model params
+ * configured for the provider. Each provider maps them to its own request
+ * fields.
+ */
+export interface GenerationOverrides {
+  maxTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+}
+
 /**
  * @plan PLAN-20251018-STATELESSPROVIDER2.P06
  * @plan:PLAN-20251023-STATELESS-HARDENING.P08
@@ -60,6 +71,13 @@ export interface GenerateChatOptions {
     telemetry?: ProviderTelemetryContext;
   };
   userMemory?: UserMemoryInput;
+  /**
+   * Model to use for this call only, in place of the model configured for
+   * the provider
+   */
+  modelOverride?: string;
+  /** Generation parameters to use for this call only */
+  generationOverrides?: GenerationOverrides;
 }
 
 /**
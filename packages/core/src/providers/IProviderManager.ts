@@ -4,9 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { IProvider } from './IProvider.js';
+import { GenerationOverrides, IProvider } from './IProvider.js';
 import { IModel } from './IModel.js';
 import { Config } from '../config/config.js';
+import type {
+  ProviderFailoverEvent,
+  ProviderFailoverTarget,
+} from './failover.js';
+import type { SessionBudgetStatus, SessionCostSummary } from './pricing.js';
+import type {
+  ProviderCompareResult,
+  ProviderCompareTarget,
+} from './compare.js';
+import type { IContent } from '../services/history/IContent.js';
 
 /**
  * Manager for handling multiple providers
@@ -47,6 +57,11 @@ export interface IProviderManager {
    */
   getActiveProviderName(): string;
 
+  /**
+   * Get a registered provider by name without activating it
+   */
+  getProviderByName?(name: string): IProvider | undefined;
+
   /**
    * Get available models from a provider
    */
@@ -79,6 +94,7 @@ export interface IProviderManager {
       tool: number;
       thought: number;
     },
+    model?: string,
   ): void;
 
   /**
@@ -105,4 +121,44 @@ export interface IProviderManager {
    * Reset token usage for the current session
    */
   resetSessionTokenUsage(): void;
+
+  /**
+   * Get the registered providers to fall back to when the active provider
+   * fails with a quota, auth or transient network error
+   */
+  getFailoverTargets?(): ProviderFailoverTarget[];
+
+  /**
+   * Record that a turn failed over from one provider to another
+   */
+  recordProviderFailover?(event: ProviderFailoverEvent): void;
+
+  /**
+   * Get the estimated cost of the current session
+   */
+  getSessionCost?(): SessionCostSummary;
+
+  /**
+   * Compare the session cost against the configured budget limits
+   */
+  getSessionBudgetStatus?(): SessionBudgetStatus;
+
+  /**
+   * Throw SessionBudgetExceededError once the hard budget limit is reached
+   */
+  assertWithinSessionBudget?(): void;
+
+  /**
+   * Send the same contents to several providers, without tools, and collect
+   * their answers
+   */
+  compareProviderResponses?(
+    targets: ProviderCompareTarget[],
+    contents: IContent[],
+    options?: {
+      signal?: AbortSignal;
+      onUpdate?: (index: number, result: ProviderCompareResult) => void;
+      generationOverrides?: GenerationOverrides;
+    },
+  ): Promise<ProviderCompareResult[]>;
 }
@@ -570,6 +570,9 @@ export class LoggingProviderWrapper implements IProvider {
 
     this.debug.log(() => `Before API request telemetry section`);
 
+    const modelName =
+      normalizedOptions.resolved?.model || this.wrapped.getDefaultModel();
+
     // Log API request telemetry event
     if (activeConfig) {
       this.debug.log(
@@ -580,8 +583,6 @@ export class LoggingProviderWrapper implements IProvider {
       this.debug.log(
         () => `After JSON.stringify: requestText length=${requestText.length}`,
       );
-      const modelName =
-        normalizedOptions.resolved?.model || this.wrapped.getDefaultModel();
       this.debug.log(
         () => `Logging API request: model=${modelName}, promptId=${promptId}`,
       );
@@ -602,6 +603,9 @@ export class LoggingProviderWrapper implements IProvider {
         `About to call wrapped provider: ${this.wrapped.name}, contentsLength=${normalizedOptions.contents?.length}`,
     );
 
+    // Refuse the request before it is sent once the session hard budget is spent
+    activeConfig?.getProviderManager?.()?.assertWithinSessionBudget?.();
+
     // Get stream from wrapped provider using normalized options object
     const stream = this.wrapped.generateChatCompletion(normalizedOptions);
 
@@ -610,12 +614,12 @@ export class LoggingProviderWrapper implements IProvider {
     // Always process stream to extract token metrics
     // If logging not enabled, process for metrics only
     if (!activeConfig?.getConversationLoggingEnabled()) {
-      yield* this.processStreamForMetrics(activeConfig, stream);
+      yield* this.processStreamForMetrics(activeConfig, stream, modelName);
       return;
     }
 
     // Log the response stream (which also processes metrics)
-    yield* this.logResponseStream(activeConfig, stream, promptId);
+    yield* this.logResponseStream(activeConfig, stream, promptId, modelName);
   }
 
   private async logRequest(
@@ -670,6 +674,7 @@ export class LoggingProviderWrapper implements IProvider {
   private async *processStreamForMetrics(
     config: Config | undefined,
     stream: AsyncIterableIterator<IContent>,
+    model?: string,
   ): AsyncIterableIterator<IContent> {
     const startTime = performance.now();
     let latestTokenUsage: UsageStats | undefined;
@@ -694,7 +699,7 @@ export class LoggingProviderWrapper implements IProvider {
           this.extractTokenCountsFromTokenUsage(latestTokenUsage);
 
         // Accumulate token usage for session tracking
-        this.accumulateTokenUsage(tokenCounts, config);
+        this.accumulateTokenUsage(tokenCounts, config, model);
 
         // Record performance metrics (TPM tracks output tokens only)
         const outputTokens = tokenCounts.output_token_count;
@@ -717,6 +722,7 @@ export class LoggingProviderWrapper implements IProvider {
     config: Config,
     stream: AsyncIterableIterator<IContent>,
     promptId: string,
+    model?: string,
   ): AsyncIterableIterator<IContent> {
     const startTime = performance.now();
     let responseContent = '';
@@ -752,6 +758,7 @@ export class LoggingProviderWrapper implements IProvider {
         false,
         error,
         latestTokenUsage,
+        model,
       );
       throw error;
     }
@@ -766,6 +773,7 @@ export class LoggingProviderWrapper implements IProvider {
         true,
         undefined,
         latestTokenUsage,
+        model,
       );
     }
   }
@@ -800,6 +808,7 @@ export class LoggingProviderWrapper implements IProvider {
     success: boolean,
     error?: unknown,
     tokenUsage?: UsageStats,
+    model?: string,
   ): Promise<void> {
     try {
       const redactedContent = this.redactor
@@ -812,7 +821,7 @@ export class LoggingProviderWrapper implements IProvider {
         : this.extractTokenCountsFromResponse(content);
 
       // Accumulate token usage for session tracking
-      this.accumulateTokenUsage(tokenCounts, config);
+      this.accumulateTokenUsage(tokenCounts, config, model);
 
       // Record performance metrics (TPM tracks output tokens only)
       const outputTokens = tokenCounts.output_token_count;
@@ -995,6 +1004,7 @@ export class LoggingProviderWrapper implements IProvider {
       tool_token_count: number;
     },
     config: Config | undefined,
+    model?: string,
   ): void {
     // Map token counts to expected format
     const usage = {
@@ -1012,7 +1022,11 @@ export class LoggingProviderWrapper implements IProvider {
         console.debug(
           `[TokenTracking] Accumulating ${usage.input + usage.output + usage.cache + usage.tool + usage.thought} tokens for provider ${this.wrapped.name}`,
         );
-        providerManager.accumulateSessionTokens(this.wrapped.name, usage);
+        providerManager.accumulateSessionTokens(
+          this.wrapped.name,
+          usage,
+          model,
+        );
       } catch (error) {
         console.warn('Failed to accumulate session tokens:', error);
       }
@@ -5,7 +5,11 @@
  * @plan PLAN-20250909-TOKTRACK.P08
  */
 
-import { IProvider, GenerateChatOptions } from './IProvider.js';
+import {
+  IProvider,
+  GenerateChatOptions,
+  GenerationOverrides,
+} from './IProvider.js';
 import { IModel } from './IModel.js';
 import { IProviderManager } from './IProviderManager.js';
 import { Config } from '../config/config.js';
@@ -31,8 +35,33 @@ import {
 import {
   MissingProviderRuntimeError,
   ProviderRuntimeNormalizationError,
+  SessionBudgetExceededError,
 } from './errors.js';
 import { createRuntimeInvocationContext } from '../runtime/RuntimeInvocationContext.js';
+import {
+  PROVIDER_FAILOVER_SETTING,
+  parseProviderFailoverChain,
+  type ProviderFailoverEntry,
+  type ProviderFailoverEvent,
+  type ProviderFailoverTarget,
+} from './failover.js';
+import {
+  streamProviderCompareResult,
+  type ProviderCompareResult,
+  type ProviderCompareTarget,
+} from './compare.js';
+import {
+  BUDGET_HARD_LIMIT_SETTING,
+  BUDGET_SOFT_LIMIT_SETTING,
+  calculateTokenCost,
+  getSessionBudgetStatus,
+  parseBudgetLimit,
+  resolveModelPricing,
+  type ModelCostEntry,
+  type SessionBudgetStatus,
+  type SessionCostSummary,
+} from './pricing.js';
+import type { IContent } from '../services/history/IContent.js';
 
 const PROVIDER_CAPABILITY_HINTS: Record<
   string,
@@ -78,6 +107,7 @@ export class ProviderManager implements IProviderManager {
   private settingsService: SettingsService;
   private runtime?: ProviderRuntimeContext;
   private providerCapabilities: Map<string, ProviderCapabilities> = new Map();
+  private lastFailoverEvent: ProviderFailoverEvent | null = null;
   private sessionTokenUsage: {
     input: number;
     output: number;
@@ -93,6 +123,7 @@ export class ProviderManager implements IProviderManager {
     thought: 0,
     total: 0,
   };
+  private sessionCostEntries: Map<string, ModelCostEntry> = new Map();
 
   constructor(init?: ProviderManagerInit | ProviderRuntimeContext) {
     const resolved = this.resolveInit(init);
@@ -391,6 +422,7 @@ export class ProviderManager implements IProviderManager {
     const providerInstance = this.providers.get(targetProvider);
     const resolved = {
       model:
+        rawOptions.modelOverride ??
         rawOptions.resolved?.model ??
         config.getModel?.() ??
         (providerSettings.model as string | undefined) ??
@@ -420,6 +452,7 @@ export class ProviderManager implements IProviderManager {
       'openai',
       'openai-responses',
       'anthropic',
+      'ollama',
     ]);
     if (!resolved.baseURL && !baseUrlOptionalProviders.has(targetProvider)) {
       missingFields.push('baseURL');
@@ -935,7 +968,10 @@ export class ProviderManager implements IProviderManager {
       tool: number;
       thought: number;
     },
+    model?: string,
   ): void {
+    this.accumulateSessionCost(providerName, model, usage);
+
     // Only accumulate non-negative values
     this.sessionTokenUsage.input += Math.max(0, usage.input || 0);
     this.sessionTokenUsage.output += Math.max(0, usage.output || 0);
@@ -962,6 +998,87 @@ export class ProviderManager implements IProviderManager {
       thought: 0,
       total: 0,
     };
+    this.sessionCostEntries.clear();
+  }
+
+  private accumulateSessionCost(
+    providerName: string,
+    model: string | undefined,
+    usage: {
+      input: number;
+      output: number;
+      cache: number;
+      tool: number;
+      thought: number;
+    },
+  ): void {
+    const clamped = {
+      input: Math.max(0, usage.input || 0),
+      output: Math.max(0, usage.output || 0),
+      cache: Math.max(0, usage.cache || 0),
+      tool: Math.max(0, usage.tool || 0),
+      thought: Math.max(0, usage.thought || 0),
+    };
+    const modelName = model || 'unknown';
+    const key = `${providerName}:${modelName}`;
+    const pricing = resolveModelPricing(
+      providerName,
+      modelName,
+      this.config?.getModelPricing?.(),
+    );
+    const entry = this.sessionCostEntries.get(key) ?? {
+      provider: providerName,
+      model: modelName,
+      input: 0,
+      output: 0,
+      cost: 0,
+      priced: pricing !== undefined,
+    };
+    entry.input += clamped.input + clamped.cache + clamped.tool;
+    entry.output += clamped.output + clamped.thought;
+    if (pricing) {
+      entry.cost += calculateTokenCost(pricing, clamped);
+    }
+    this.sessionCostEntries.set(key, entry);
+  }
+
+  /**
+   * Get the estimated cost of the current session, per provider and model
+   */
+  getSessionCost(): SessionCostSummary {
+    const entries = Array.from(this.sessionCostEntries.values()).map(
+      (entry) => ({ ...entry }),
+    );
+    return {
+      total: entries.reduce((sum, entry) => sum + entry.cost, 0),
+      entries,
+      unpriced: entries
+        .filter((entry) => !entry.priced)
+        .map((entry) => `${entry.provider}:${entry.model}`),
+    };
+  }
+
+  /**
+   * Compare the session cost against the budget-soft-limit and
+   * budget-hard-limit ephemeral settings
+   */
+  getSessionBudgetStatus(): SessionBudgetStatus {
+    return getSessionBudgetStatus(
+      this.getSessionCost().total,
+      parseBudgetLimit(this.settingsService.get(BUDGET_SOFT_LIMIT_SETTING)),
+      parseBudgetLimit(this.settingsService.get(BUDGET_HARD_LIMIT_SETTING)),
+    );
+  }
+
+  /**
+   * Throw if the session has reached its hard budget limit. Called before a
+   * request is sent so that no further spend is incurred.
+   */
+  assertWithinSessionBudget(): void {
+    const status = this.getSessionBudgetStatus();
+    if (status.state === 'hard' && status.hardLimit !== undefined) {
+      throw new SessionBudgetExceededError(status.cost, status.hardLimit);
+    }
   }
 
   /**
@@ -1014,6 +1131,47 @@ export class ProviderManager implements IProviderManager {
     };
   }
 
+  /**
+   * Get the configured provider failover chain (from the
+   * `provider-failover` ephemeral setting), in priority order.
+   */
+  getFailoverChain(): ProviderFailoverEntry[] {
+    return parseProviderFailoverChain(
+      this.settingsService.get(PROVIDER_FAILOVER_SETTING),
+    );
+  }
+
+  /**
+   * Resolve the failover chain into registered providers, skipping the
+   * active provider and any names that are not registered.
+   */
+  getFailoverTargets(): ProviderFailoverTarget[] {
+    const activeName = this.getActiveProviderName();
+    const targets: ProviderFailoverTarget[] = [];
+    for (const entry of this.getFailoverChain()) {
+      if (entry.provider === activeName) {
+        continue;
+      }
+      const provider = this.providers.get(entry.provider);
+      if (!provider) {
+        continue;
+      }
+      targets.push({
+        provider,
+        model: entry.model ?? this.getStoredModelName(provider),
+      });
+    }
+    return targets;
+  }
+
+  recordProviderFailover(event: ProviderFailoverEvent): void {
+    this.lastFailoverEvent = event;
+  }
+
+  getLastProviderFailover(): ProviderFailoverEvent | null {
+    return this.lastFailoverEvent;
+  }
+
   resetConversationContext(): void {
     // Conversation ID is now managed by the logging system
   }
@@ -1144,6 +1302,80 @@ export class ProviderManager implements IProviderManager {
     };
   }
 
+  /**
+   * Send the same IContent request to several providers in parallel and
+   * collect each answer with its latency and token usage. Tools are not
+   * offered to the providers, so answers are text-only.
+   */
+  async compareProviderResponses(
+    targets: ProviderCompareTarget[],
+    contents: IContent[],
+    options: {
+      signal?: AbortSignal;
+      onUpdate?: (index: number, result: ProviderCompareResult) => void;
+      generationOverrides?: GenerationOverrides;
+    } = {},
+  ): Promise<ProviderCompareResult[]> {
+    const resolvedTargets = targets.map((target) => {
+      const provider = this.providers.get(target.provider);
+      if (!provider) {
+        throw new Error(`Provider '${target.provider}' not found`);
+      }
+      return {
+        provider,
+        model: target.model ?? this.getStoredModelName(provider),
+      };
+    });
+
+    const withCost = (result: ProviderCompareResult): ProviderCompareResult => {
+      const pricing = result.usage
+        ? resolveModelPricing(
+            result.provider,
+            result.model,
+            this.config?.getModelPricing?.(),
+          )
+        : undefined;
+      return pricing && result.usage
+        ? {
+            ...result,
+            cost: calculateTokenCost(pricing, {
+              input: result.usage.promptTokens,
+              output: result.usage.completionTokens,
+              cache: 0,
+              tool: 0,
+              thought: 0,
+            }),
+          }
+        : result;
+    };
+
+    const results = await Promise.all(
+      resolvedTargets.map(({ provider, model }, index) => {
+        const runtime = this.snapshotRuntimeContext(
+          'ProviderManager.compareProviderResponses',
+        );
+        return streamProviderCompareResult(
+          provider,
+          model,
+          {
+            contents,
+            settings: runtime.settingsService,
+            config: runtime.config,
+            runtime,
+            metadata: options.signal
+              ? { ...runtime.metadata, abortSignal: options.signal }
+              : runtime.metadata,
+            userMemory: runtime.config?.getUserMemory?.(),
+            generationOverrides: options.generationOverrides,
+          },
+          (result) => options.onUpdate?.(index, withCost(result)),
+          options.signal,
+        );
+      }),
+    );
+    return results.map(withCost);
+  }
+
   private generateProviderRecommendation(
     provider1: string,
     provider2: string,
@@ -42,6 +42,7 @@ import {
   isNetworkTransientError,
 } from '../../utils/retry.js';
 import { getSettingsService } from '../../settings/settingsServiceInstance.js';
+import type { SettingsService } from '../../settings/SettingsService.js';
 
 export class AnthropicProvider extends BaseProvider {
   // @plan PLAN-20251023-STATELESS-HARDENING.P08
@@ -120,23 +121,45 @@ export class AnthropicProvider extends BaseProvider {
     return new DebugLogger('llxprt:anthropic:errors');
   }
 
-  private instantiateClient(authToken: string, baseURL?: string): Anthropic {
+  private instantiateClient(
+    authToken: string,
+    baseURL: string | undefined,
+    settingsService: SettingsService,
+    model: string,
+  ): Anthropic {
     const isOAuthToken = authToken.startsWith('sk-ant-oat');
     const clientConfig: Record<string, unknown> = {
       dangerouslyAllowBrowser: true,
     };
 
-    if (baseURL && baseURL.trim() !== '') {
-      clientConfig.baseURL = baseURL;
-    }
-
     if (isOAuthToken) {
+      if (baseURL && baseURL.trim() !== '') {
+        clientConfig.baseURL = baseURL;
+      }
       clientConfig.authToken = authToken;
       clientConfig.defaultHeaders = {
         'anthropic-beta': 'oauth-2025-04-20',
       };
-    } else {
-      clientConfig.apiKey = authToken || '';
+      return new Anthropic(clientConfig as ClientOptions);
+    }
+
+    const auth = this.createAuthClientOptions(settingsService, {
+      credential: authToken,
+      baseURL,
+      model,
+    });
+    clientConfig.apiKey = auth.apiKey || '';
+    if (auth.baseURL && auth.baseURL.trim() !== '') {
+      clientConfig.baseURL = auth.baseURL;
+    }
+    if (auth.defaultHeaders) {
+      clientConfig.defaultHeaders = auth.defaultHeaders;
+    }
+    if (auth.defaultQuery) {
+      clientConfig.defaultQuery = auth.defaultQuery;
+    }
+    if (auth.fetch) {
+      clientConfig.fetch = auth.fetch;
     }
 
     return new Anthropic(clientConfig as ClientOptions);
@@ -187,7 +210,10 @@ export class AnthropicProvider extends BaseProvider {
       authToken = await this.getAuthToken();
     }
 
-    if (!authToken) {
+    const strategy = this.authResolver.resolveAuthStrategy({
+      settingsService: options.settings,
+    });
+    if (!authToken && strategy.mode === 'bearer') {
       authLogger.debug(
         () => 'No authentication available for Anthropic API calls',
       );
@@ -198,7 +224,12 @@ export class AnthropicProvider extends BaseProvider {
 
     authLogger.debug(() => 'Creating fresh client instance (stateless)');
     const baseURL = options.resolved.baseURL;
-    const client = this.instantiateClient(authToken, baseURL);
+    const client = this.instantiateClient(
+      authToken ?? '',
+      baseURL,
+      options.settings,
+      options.resolved.model,
+    );
 
     telemetry?.record?.('stateless-provider.call', {
       providerName: 'anthropic',
@@ -321,7 +352,12 @@ export class AnthropicProvider extends BaseProvider {
       // Fetch models from Anthropic API (beta endpoint) - only for API keys
       const models: IModel[] = [];
       const baseURL = this.getBaseURL();
-      const client = this.instantiateClient(authToken, baseURL);
+      const client = this.instantiateClient(
+        authToken,
+        baseURL,
+        this.resolveSettingsService(),
+        this.getModel(),
+      );
 
       this.getLogger().debug(() => 'Fetching models from Anthropic API');
 
@@ -1063,12 +1099,22 @@ export class AnthropicProvider extends BaseProvider {
           toolNamesForPrompt,
         )
       : undefined;
+    const generation = options.generationOverrides;
     const requestBody = {
       model: currentModel,
       messages: anthropicMessages,
       max_tokens: this.getMaxTokensForModel(currentModel),
       stream: streamingEnabled,
       ...requestOverrides, // Use derived ephemeral overrides instead of memoized instance state
+      ...(generation?.maxTokens !== undefined
+        ? { max_tokens: generation.maxTokens }
+        : {}),
+      ...(generation?.temperature !== undefined
+        ? { temperature: generation.temperature }
+        : {}),
+      ...(generation?.stopSequences?.length
+        ? { stop_sequences: generation.stopSequences }
+        : {}),
       ...(isOAuth
         ? {
             system: "You are Claude Code, Anthropic's official CLI for Claude.",
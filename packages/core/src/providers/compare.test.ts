@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { GenerateChatOptions, IProvider } from './IProvider.js';
+import type { IModel } from './IModel.js';
+import {
+  BaseProvider,
+  type NormalizedGenerateChatOptions,
+} from './BaseProvider.js';
+import type { IContent } from '../services/history/IContent.js';
+import type { Config } from '../config/config.js';
+import { SettingsService } from '../settings/SettingsService.js';
+import { createRuntimeConfigStub } from '../test-utils/runtime.js';
+import {
+  parseProviderCompareTarget,
+  streamProviderCompareResult,
+  type ProviderCompareResult,
+} from './compare.js';
+
+const createProvider = (
+  name: string,
+  behaviour: (options: GenerateChatOptions) => AsyncIterableIterator<IContent>,
+): IProvider =>
+  ({
+    name,
+    getModels: vi.fn().mockResolvedValue([]),
+    getDefaultModel: vi.fn().mockReturnValue(`${name}-default`),
+    generateChatCompletion: vi.fn(behaviour),
+    getServerTools: vi.fn().mockReturnValue([]),
+    invokeServerTool: vi.fn(),
+  }) as unknown as IProvider;
+
+/** Answers with the model the request was resolved to */
+class ModelEchoProvider extends BaseProvider {
+  constructor(settingsService: SettingsService) {
+    super(
+      { name: 'openai', apiKey: 'test-key' },
+      undefined,
+      createRuntimeConfigStub(settingsService) as Config,
+      settingsService,
+    );
+  }
+
+  protected supportsOAuth(): boolean {
+    return false;
+  }
+
+  async getModels(): Promise<IModel[]> {
+    return [];
+  }
+
+  getDefaultModel(): string {
+    return 'openai-default';
+  }
+
+  protected override async *generateChatCompletionWithOptions(
+    options: NormalizedGenerateChatOptions,
+  ): AsyncIterableIterator<IContent> {
+    yield {
+      speaker: 'ai',
+      blocks: [{ type: 'text', text: options.resolved.model }],
+    };
+  }
+}
+
+const options = {
+  contents: [{ speaker: 'human', blocks: [{ type: 'text', text: 'hi' }] }],
+} as GenerateChatOptions;
+
+describe('parseProviderCompareTarget', () => {
+  it('splits provider and optional model', () => {
+    expect(parseProviderCompareTarget('openai:gpt-4.1')).toEqual({
+      provider: 'openai',
+      model: 'gpt-4.1',
+    });
+    expect(parseProviderCompareTarget('anthropic')).toEqual({
+      provider: 'anthropic',
+    });
+  });
+});
+
+describe('streamProviderCompareResult', () => {
+  it('aggregates streamed text, tool calls and usage', async () => {
+    const provider = createProvider('openai', async function* () {
+      yield { speaker: 'ai', blocks: [{ type: 'text', text: 'Hello ' }] };
+      yield {
+        speaker: 'ai',
+        blocks: [
+          { type: 'text', text: 'world' },
+          { type: 'tool_call', id: 't1', name: 'ls', parameters: {} },
+        ],
+        metadata: {
+          usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+        },
+      };
+    });
+    const updates: ProviderCompareResult[] = [];
+
+    const result = await streamProviderCompareResult(
+      provider,
+      'gpt-4.1',
+      options,
+      (update) => updates.push(update),
+    );
+
+    expect(provider.generateChatCompletion).toHaveBeenCalledWith(
+      expect.objectContaining({ modelOverride: 'gpt-4.1' }),
+    );
+    expect(result).toMatchObject({
+      status: 'done',
+      text: 'Hello world',
+      toolCallCount: 1,
+      usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+    });
+    expect(result.response?.blocks).toEqual([
+      { type: 'text', text: 'Hello world' },
+    ]);
+    expect(updates[0].status).toBe('pending');
+    expect(updates.at(-1)?.status).toBe('done');
+  });
+
+  it('sends each model of one provider to that model', async () => {
+    const settingsService = new SettingsService();
+    settingsService.setProviderSetting('openai', 'model', 'gpt-4o-mini');
+    const provider = new ModelEchoProvider(settingsService);
+
+    const results = await Promise.all(
+      ['gpt-4.1', 'gpt-4o'].map((model) =>
+        streamProviderCompareResult(provider, model, {
+          ...options,
+          settings: settingsService,
+        }),
+      ),
+    );
+
+    expect(results.map(({ model, text }) => [model, text])).toEqual([
+      ['gpt-4.1', 'gpt-4.1'],
+      ['gpt-4o', 'gpt-4o'],
+    ]);
+  });
+
+  it('captures provider errors on the result', async () => {
+    const provider = createProvider('anthropic', async function* () {
+      yield* [];
+      throw new Error('rate limited');
+    });
+
+    const result = await streamProviderCompareResult(
+      provider,
+      'claude',
+      options,
+    );
+
+    expect(result.status).toBe('error');
+    expect(result.error).toBe('rate limited');
+    expect(result.response).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerateChatOptions, IProvider } from './IProvider.js';
+import type {
+  ContentBlock,
+  IContent,
+  UsageStats,
+} from '../services/history/IContent.js';
+
+export interface ProviderCompareTarget {
+  provider: string;
+  model?: string;
+}
+
+export type ProviderCompareStatus = 'pending' | 'streaming' | 'done' | 'error';
+
+export interface ProviderCompareResult {
+  provider: string;
+  model: string;
+  status: ProviderCompareStatus;
+  /** Visible answer text accumulated so far */
+  text: string;
+  /** Aggregated answer, available once status is 'done' */
+  response?: IContent;
+  usage?: UsageStats;
+  /** Estimated cost in USD, when the model has known pricing */
+  cost?: number;
+  latencyMs?: number;
+  timeToFirstTokenMs?: number;
+  /** Number of tool calls the model requested (not executed in compare mode) */
+  toolCallCount: number;
+  error?: string;
+}
+
+/**
+ * Parses a `provider` or `provider:model` compare target.
+ */
+export function parseProviderCompareTarget(
+  spec: string,
+): ProviderCompareTarget {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(':');
+  if (separator === -1) {
+    return { provider: trimmed };
+  }
+  const provider = trimmed.slice(0, separator).trim();
+  const model = trimmed.slice(separator + 1).trim();
+  return model ? { provider, model } : { provider };
+}
+
+export function formatProviderCompareTarget(target: {
+  provider: string;
+  model?: string;
+}): string {
+  return target.model ? `${target.provider}:${target.model}` : target.provider;
+}
+
+/**
+ * Streams a single provider's answer for compare mode, reporting progress
+ * through `onUpdate`. Provider failures are captured on the result rather
+ * than thrown so that one failing column does not cancel the others.
+ */
+export async function streamProviderCompareResult(
+  provider: IProvider,
+  model: string,
+  options: GenerateChatOptions,
+  onUpdate?: (result: ProviderCompareResult) => void,
+  signal?: AbortSignal,
+): Promise<ProviderCompareResult> {
+  const result: ProviderCompareResult = {
+    provider: provider.name,
+    model,
+    status: 'pending',
+    text: '',
+    toolCallCount: 0,
+  };
+  const emit = () => onUpdate?.({ ...result });
+  emit();
+
+  const startTime = Date.now();
+  let thinking = '';
+  try {
+    const stream = provider.generateChatCompletion({
+      ...options,
+      modelOverride: model,
+    });
+    for await (const chunk of stream) {
+      if (signal?.aborted) {
+        throw new Error('Comparison cancelled');
+      }
+      if (result.timeToFirstTokenMs === undefined) {
+        result.timeToFirstTokenMs = Date.now() - startTime;
+      }
+      for (const block of chunk.blocks ?? []) {
+        if (block.type === 'text') {
+          result.text += block.text;
+        } else if (block.type === 'thinking') {
+          thinking += block.thought;
+        } else if (block.type === 'tool_call') {
+          result.toolCallCount++;
+        }
+      }
+      if (chunk.metadata?.usage) {
+        result.usage = chunk.metadata.usage;
+      }
+      result.status = 'streaming';
+      emit();
+    }
+
+    const blocks: ContentBlock[] = [];
+    if (thinking) {
+      blocks.push({ type: 'thinking', thought: thinking });
+    }
+    blocks.push({ type: 'text', text: result.text });
+    result.response = {
+      speaker: 'ai',
+      blocks,
+      metadata: {
+        model,
+        provider: provider.name,
+        timestamp: Date.now(),
+        ...(result.usage ? { usage: result.usage } : {}),
+      },
+    };
+    result.status = 'done';
+  } catch (error) {
+    result.status = 'error';
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  result.latencyMs = Date.now() - startTime;
+  emit();
+  return result;
+}
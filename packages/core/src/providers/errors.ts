@@ -169,3 +169,21 @@ export class ProviderRuntimeScopeError extends Error {
     };
   }
 }
+
+/**
+ * Error thrown when a request is refused because the session has reached
+ * its hard budget limit
+ */
+export class SessionBudgetExceededError extends Error {
+  readonly cost: number;
+  readonly hardLimit: number;
+
+  constructor(cost: number, hardLimit: number) {
+    super(
+      `Session budget exceeded: spent $${cost.toFixed(2)} of the $${hardLimit.toFixed(2)} hard limit. Raise or clear budget-hard-limit with /set to continue.`,
+    );
+    this.name = 'SessionBudgetExceededError';
+    this.cost = cost;
+    this.hardLimit = hardLimit;
+  }
+}
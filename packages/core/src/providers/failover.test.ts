@@ -0,0 +1,323 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { GenerateChatOptions, IProvider } from './IProvider.js';
+import type { IModel } from './IModel.js';
+import {
+  BaseProvider,
+  type NormalizedGenerateChatOptions,
+} from './BaseProvider.js';
+import type { IContent } from '../services/history/IContent.js';
+import {
+  generateChatCompletionWithFailover,
+  getProviderFailoverReason,
+  parseProviderFailoverChain,
+  type ProviderFailoverEvent,
+} from './failover.js';
+import { AuthenticationRequiredError } from './errors.js';
+import { ProviderManager } from './ProviderManager.js';
+import { SettingsService } from '../settings/SettingsService.js';
+import type { Config } from '../config/config.js';
+import { createRuntimeConfigStub } from '../test-utils/runtime.js';
+import {
+  clearActiveProviderRuntimeContext,
+  createProviderRuntimeContext,
+  setActiveProviderRuntimeContext,
+} from '../runtime/providerRuntimeContext.js';
+
+const reply = (text: string): IContent => ({
+  speaker: 'ai',
+  blocks: [{ type: 'text', text }],
+});
+
+const createProvider = (
+  name: string,
+  behaviour: (options: GenerateChatOptions) => AsyncIterableIterator<IContent>,
+): IProvider =>
+  ({
+    name,
+    getModels: vi.fn().mockResolvedValue([]),
+    getDefaultModel: vi.fn().mockReturnValue(`${name}-default`),
+    generateChatCompletion: vi.fn(behaviour),
+    getServerTools: vi.fn().mockReturnValue([]),
+    invokeServerTool: vi.fn(),
+  }) as unknown as IProvider;
+
+/** Answers with the model the request was resolved to */
+class ModelEchoProvider extends BaseProvider {
+  constructor(name: string, settingsService: SettingsService) {
+    super(
+      { name, apiKey: 'test-key' },
+      undefined,
+      createRuntimeConfigStub(settingsService) as Config,
+      settingsService,
+    );
+  }
+
+  protected supportsOAuth(): boolean {
+    return false;
+  }
+
+  async getModels(): Promise<IModel[]> {
+    return [];
+  }
+
+  getDefaultModel(): string {
+    return `${this.name}-default`;
+  }
+
+  protected override async *generateChatCompletionWithOptions(
+    options: NormalizedGenerateChatOptions,
+  ): AsyncIterableIterator<IContent> {
+    yield reply(`${options.resolved.model}/${this.getModel()}`);
+  }
+}
+
+const statusError = (status: number, message = `HTTP ${status}`) =>
+  Object.assign(new Error(message), { status });
+
+const failWith = (error: Error) =>
+  async function* (): AsyncIterableIterator<IContent> {
+    yield* [];
+    throw error;
+  };
+
+async function collect(
+  stream: AsyncIterableIterator<IContent>,
+): Promise<string[]> {
+  const texts: string[] = [];
+  for await (const content of stream) {
+    for (const block of content.blocks) {
+      if (block.type === 'text') {
+        texts.push(block.text);
+      }
+    }
+  }
+  return texts;
+}
+
+describe('parseProviderFailoverChain', () => {
+  it('parses comma-separated strings with optional models', () => {
+    expect(
+      parseProviderFailoverChain('anthropic, openai:gpt-4.1 ,llama-cpp'),
+    ).toEqual([
+      { provider: 'anthropic' },
+      { provider: 'openai', model: 'gpt-4.1' },
+      { provider: 'llama-cpp' },
+    ]);
+  });
+
+  it('accepts arrays and drops blanks and duplicates', () => {
+    expect(
+      parseProviderFailoverChain(['openai', '', 'openai', 42, 'gemini']),
+    ).toEqual([{ provider: 'openai' }, { provider: 'gemini' }]);
+  });
+
+  it('returns an empty chain for unset values', () => {
+    expect(parseProviderFailoverChain(undefined)).toEqual([]);
+  });
+});
+
+describe('getProviderFailoverReason', () => {
+  it('classifies quota, auth and transient errors', () => {
+    expect(getProviderFailoverReason(statusError(429))).toBe('quota');
+    expect(
+      getProviderFailoverReason(
+        new Error("Quota exceeded for quota metric 'Requests'"),
+      ),
+    ).toBe('quota');
+    expect(getProviderFailoverReason(statusError(401))).toBe('auth');
+    expect(
+      getProviderFailoverReason(
+        new AuthenticationRequiredError('no key', 'none'),
+      ),
+    ).toBe('auth');
+    expect(getProviderFailoverReason(statusError(503))).toBe('transient');
+    expect(getProviderFailoverReason(new Error('socket hang up'))).toBe(
+      'transient',
+    );
+  });
+
+  it('ignores errors that would fail on any provider', () => {
+    expect(getProviderFailoverReason(statusError(400))).toBeUndefined();
+    const abort = new Error('aborted');
+    abort.name = 'AbortError';
+    expect(getProviderFailoverReason(abort)).toBeUndefined();
+  });
+});
+
+describe('generateChatCompletionWithFailover', () => {
+  const options = {
+    contents: [{ speaker: 'human', blocks: [{ type: 'text', text: 'hi' }] }],
+  } as GenerateChatOptions;
+
+  it('retries the same contents on the next provider after a quota error', async () => {
+    const primary = createProvider('anthropic', failWith(statusError(429)));
+    const fallback = createProvider('openai', async function* () {
+      yield reply('from openai');
+    });
+    const events: ProviderFailoverEvent[] = [];
+
+    const texts = await collect(
+      generateChatCompletionWithFailover(
+        primary,
+        [{ provider: fallback, model: 'gpt-4.1' }],
+        options,
+        (event) => events.push(event),
+      ),
+    );
+
+    expect(texts).toEqual(['from openai']);
+    expect(fallback.generateChatCompletion).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contents: options.contents,
+        modelOverride: 'gpt-4.1',
+      }),
+    );
+    expect(events).toEqual([
+      expect.objectContaining({
+        fromProvider: 'anthropic',
+        toProvider: 'openai',
+        reason: 'quota',
+      }),
+    ]);
+  });
+
+  it('sends the model of the failover entry to a provider', async () => {
+    const settingsService = new SettingsService();
+    settingsService.setProviderSetting('openai', 'model', 'gpt-4o');
+    const primary = createProvider('anthropic', failWith(statusError(429)));
+    const fallback = new ModelEchoProvider('openai', settingsService);
+
+    const texts = await collect(
+      generateChatCompletionWithFailover(
+        primary,
+        [{ provider: fallback, model: 'gpt-4.1' }],
+        { ...options, settings: settingsService },
+      ),
+    );
+
+    expect(texts).toEqual(['gpt-4.1/gpt-4.1']);
+    expect(settingsService.getProviderSettings('openai').model).toBe('gpt-4o');
+  });
+
+  it('does not fail over on non-eligible errors', async () => {
+    const primary = createProvider(
+      'anthropic',
+      failWith(statusError(400, 'bad request')),
+    );
+    const fallback = createProvider('openai', async function* () {
+      yield reply('unused');
+    });
+
+    await expect(
+      collect(
+        generateChatCompletionWithFailover(
+          primary,
+          [{ provider: fallback }],
+          options,
+        ),
+      ),
+    ).rejects.toThrow('bad request');
+    expect(fallback.generateChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('does not fail over once output has been streamed', async () => {
+    const primary = createProvider('anthropic', async function* () {
+      yield reply('partial');
+      throw statusError(503);
+    });
+    const fallback = createProvider('openai', async function* () {
+      yield reply('unused');
+    });
+
+    await expect(
+      collect(
+        generateChatCompletionWithFailover(
+          primary,
+          [{ provider: fallback }],
+          options,
+        ),
+      ),
+    ).rejects.toThrow('HTTP 503');
+    expect(fallback.generateChatCompletion).not.toHaveBeenCalled();
+  });
+
+  it('rethrows the last error when the chain is exhausted', async () => {
+    const primary = createProvider('anthropic', failWith(statusError(429)));
+    const fallback = createProvider(
+      'openai',
+      failWith(statusError(401, 'invalid key')),
+    );
+
+    await expect(
+      collect(
+        generateChatCompletionWithFailover(
+          primary,
+          [{ provider: fallback }],
+          options,
+        ),
+      ),
+    ).rejects.toThrow('invalid key');
+  });
+});
+
+describe('ProviderManager failover chain', () => {
+  let settingsService: SettingsService;
+
+  beforeEach(() => {
+    settingsService = new SettingsService();
+    setActiveProviderRuntimeContext(
+      createProviderRuntimeContext({ settingsService }),
+    );
+  });
+
+  afterEach(() => {
+    clearActiveProviderRuntimeContext();
+  });
+
+  it('resolves registered providers from the provider-failover setting', () => {
+    const manager = new ProviderManager({ settingsService });
+    for (const name of ['anthropic', 'openai', 'llama-cpp']) {
+      manager.registerProvider(
+        createProvider(name, async function* () {
+          yield reply(name);
+        }),
+      );
+    }
+    manager.setActiveProvider('anthropic');
+    settingsService.set(
+      'provider-failover',
+      'anthropic,openai:gpt-4.1,missing,llama-cpp',
+    );
+
+    const targets = manager.getFailoverTargets();
+
+    expect(
+      targets.map((target) => [target.provider.name, target.model]),
+    ).toEqual([
+      ['openai', 'gpt-4.1'],
+      ['llama-cpp', 'llama-cpp-default'],
+    ]);
+  });
+
+  it('records the last failover event', () => {
+    const manager = new ProviderManager({ settingsService });
+    expect(manager.getLastProviderFailover()).toBeNull();
+
+    const event: ProviderFailoverEvent = {
+      fromProvider: 'anthropic',
+      toProvider: 'openai',
+      reason: 'quota',
+      message: '429',
+      timestamp: 1,
+    };
+    manager.recordProviderFailover(event);
+
+    expect(manager.getLastProviderFailover()).toEqual(event);
+  });
+});
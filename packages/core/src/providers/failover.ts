@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerateChatOptions, IProvider } from './IProvider.js';
+import type { IContent } from '../services/history/IContent.js';
+import {
+  AuthenticationRequiredError,
+  SessionBudgetExceededError,
+} from './errors.js';
+import {
+  isGenericQuotaExceededError,
+  isProQuotaExceededError,
+} from '../utils/quotaErrorDetection.js';
+import { getErrorStatus, isNetworkTransientError } from '../utils/retry.js';
+
+/**
+ * Ephemeral setting key holding the ordered provider failover chain.
+ * Accepts either an array or a comma-separated string of `provider` or
+ * `provider:model` entries.
+ */
+export const PROVIDER_FAILOVER_SETTING = 'provider-failover';
+
+export interface ProviderFailoverEntry {
+  provider: string;
+  model?: string;
+}
+
+export interface ProviderFailoverTarget {
+  provider: IProvider;
+  model?: string;
+}
+
+export type ProviderFailoverReason = 'quota' | 'auth' | 'transient';
+
+export interface ProviderFailoverEvent {
+  fromProvider: string;
+  toProvider: string;
+  toModel?: string;
+  reason: ProviderFailoverReason;
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * Parses the raw `provider-failover` setting into ordered entries.
+ * Blank and duplicate entries are dropped.
+ */
+export function parseProviderFailoverChain(
+  value: unknown,
+): ProviderFailoverEntry[] {
+  let rawEntries: unknown[];
+  if (Array.isArray(value)) {
+    rawEntries = value;
+  } else if (typeof value === 'string') {
+    rawEntries = value.split(/[,\s]+/);
+  } else {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const entries: ProviderFailoverEntry[] = [];
+  for (const raw of rawEntries) {
+    if (typeof raw !== 'string') {
+      continue;
+    }
+    const trimmed = raw.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const separator = trimmed.indexOf(':');
+    const provider =
+      separator === -1 ? trimmed : trimmed.slice(0, separator).trim();
+    const model =
+      separator === -1 ? undefined : trimmed.slice(separator + 1).trim();
+    const key = `${provider}:${model ?? ''}`;
+    if (!provider || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    entries.push(model ? { provider, model } : { provider });
+  }
+  return entries;
+}
+
+export function formatProviderFailoverChain(
+  entries: ProviderFailoverEntry[],
+): string {
+  return entries
+    .map((entry) =>
+      entry.model ? `${entry.provider}:${entry.model}` : entry.provider,
+    )
+    .join(' → ');
+}
+
+/**
+ * Classifies an error as one that should move the turn to the next provider
+ * in the failover chain. Returns undefined for errors that would fail the
+ * same way on any provider (bad requests, aborts, budget limits).
+ */
+export function getProviderFailoverReason(
+  error: unknown,
+): ProviderFailoverReason | undefined {
+  if (
+    error instanceof SessionBudgetExceededError ||
+    (error instanceof Error && error.name === 'AbortError')
+  ) {
+    return undefined;
+  }
+
+  if (error instanceof AuthenticationRequiredError) {
+    return 'auth';
+  }
+
+  if (isProQuotaExceededError(error) || isGenericQuotaExceededError(error)) {
+    return 'quota';
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 429) {
+    return 'quota';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status !== undefined && status >= 500 && status < 600) {
+    return 'transient';
+  }
+
+  if (isNetworkTransientError(error)) {
+    return 'transient';
+  }
+
+  if (error instanceof Error && error.message.includes('429')) {
+    return 'quota';
+  }
+
+  return undefined;
+}
+
+export function isProviderFailoverError(error: unknown): boolean {
+  return getProviderFailoverReason(error) !== undefined;
+}
+
+/**
+ * Streams a completion from the primary provider and, if it fails before
+ * producing any output with a failover-eligible error, retries the same
+ * IContent request on each failover target in order. Errors raised after the
+ * first chunk has been yielded are rethrown as-is, since a partial answer
+ * cannot be spliced with another provider's output.
+ */
+export async function* generateChatCompletionWithFailover(
+  primary: IProvider,
+  targets: ProviderFailoverTarget[],
+  options: GenerateChatOptions,
+  onFailover?: (event: ProviderFailoverEvent) => void,
+): AsyncIterableIterator<IContent> {
+  const candidates: ProviderFailoverTarget[] = [
+    { provider: primary },
+    ...targets.filter((target) => target.provider.name !== primary.name),
+  ];
+
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+    const callOptions: GenerateChatOptions =
+      index === 0
+        ? options
+        : {
+            ...options,
+            modelOverride:
+              candidate.model ?? candidate.provider.getDefaultModel(),
+          };
+
+    let yielded = false;
+    try {
+      for await (const content of candidate.provider.generateChatCompletion(
+        callOptions,
+      )) {
+        yielded = true;
+        yield content;
+      }
+      return;
+    } catch (error) {
+      const reason = getProviderFailoverReason(error);
+      const next = candidates[index + 1];
+      if (yielded || !reason || !next) {
+        throw error;
+      }
+      onFailover?.({
+        fromProvider: candidate.provider.name,
+        toProvider: next.provider.name,
+        toModel: next.model,
+        reason,
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+      });
+    }
+  }
+}
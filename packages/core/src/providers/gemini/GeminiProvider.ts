@@ -1132,6 +1132,16 @@ export class GeminiProvider extends BaseProvider {
     if (geminiTools) {
       requestConfig.tools = geminiTools;
     }
+    const generation = options.generationOverrides;
+    if (generation?.maxTokens !== undefined) {
+      requestConfig.maxOutputTokens = generation.maxTokens;
+    }
+    if (generation?.temperature !== undefined) {
+      requestConfig.temperature = generation.temperature;
+    }
+    if (generation?.stopSequences?.length) {
+      requestConfig.stopSequences = generation.stopSequences;
+    }
 
     // Create appropriate client and generate content
     const baseURL = options.resolved.baseURL ?? this.getBaseURL();
@@ -0,0 +1,399 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OllamaProvider } from './OllamaProvider.js';
+import { SettingsService } from '../../settings/SettingsService.js';
+import type { IContent } from '../../services/history/IContent.js';
+import { createProviderCallOptions } from '../../test-utils/providerCallOptions.js';
+
+vi.mock('../../core/prompts.js', () => ({
+  getCoreSystemPromptAsync: vi.fn(async () => 'system prompt'),
+}));
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  body: Record<string, unknown>;
+}
+
+type StubHandler = (
+  request: RecordedRequest,
+  response: http.ServerResponse,
+) => void;
+
+let server: http.Server;
+let baseURL: string;
+let handler: StubHandler;
+const requests: RecordedRequest[] = [];
+
+function writeNdjson(response: http.ServerResponse, lines: unknown[]): void {
+  response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  for (const line of lines) {
+    response.write(`${JSON.stringify(line)}\n`);
+  }
+  response.end();
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const recorded: RecordedRequest = {
+        method: req.method,
+        url: req.url,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+      };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  requests.length = 0;
+});
+
+async function collect(
+  provider: OllamaProvider,
+  contents: IContent[],
+  settings: SettingsService,
+  tools?: Parameters<typeof createProviderCallOptions>[0]['tools'],
+): Promise<IContent[]> {
+  const results: IContent[] = [];
+  for await (const content of provider.generateChatCompletion(
+    createProviderCallOptions({
+      providerName: provider.name,
+      contents,
+      tools,
+      settings,
+    }),
+  )) {
+    results.push(content);
+  }
+  return results;
+}
+
+describe('OllamaProvider', () => {
+  it('lists models from /api/tags with context sizes from /api/show', async () => {
+    handler = (request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      if (request.url === '/api/tags') {
+        response.end(
+          JSON.stringify({
+            models: [{ name: 'llama3.2:latest' }, { name: 'qwen3:8b' }],
+          }),
+        );
+        return;
+      }
+      response.end(
+        JSON.stringify(
+          request.body.model === 'qwen3:8b'
+            ? {
+                parameters: 'temperature 0.6\nnum_ctx 32768',
+                model_info: { 'qwen3.context_length': 40960 },
+              }
+            : { model_info: { 'llama.context_length': 131072 } },
+        ),
+      );
+    };
+
+    const provider = new OllamaProvider(undefined, `${baseURL}/v1/`);
+    provider.setRuntimeSettingsService(new SettingsService());
+
+    await expect(provider.getModels()).resolves.toEqual([
+      expect.objectContaining({ id: 'llama3.2:latest', contextWindow: 131072 }),
+      expect.objectContaining({ id: 'qwen3:8b', contextWindow: 32768 }),
+    ]);
+  });
+
+  it('streams text and native tool calls from /api/chat', async () => {
+    handler = (_request, response) =>
+      writeNdjson(response, [
+        { model: 'qwen3:8b', message: { role: 'assistant', content: 'Let' } },
+        { model: 'qwen3:8b', message: { role: 'assistant', content: ' me' } },
+        {
+          model: 'qwen3:8b',
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              {
+                function: {
+                  name: 'read_file',
+                  arguments: { absolute_path: '/tmp/a' },
+                },
+              },
+            ],
+          },
+        },
+        {
+          model: 'qwen3:8b',
+          message: { role: 'assistant', content: '' },
+          done: true,
+          prompt_eval_count: 12,
+          eval_count: 5,
+        },
+      ]);
+
+    const settings = new SettingsService();
+    settings.setProviderSetting('ollama', 'model', 'qwen3:8b');
+    settings.setProviderSetting('ollama', 'num_ctx', 16384);
+    settings.setProviderSetting('ollama', 'max_tokens', 512);
+    settings.setProviderSetting('ollama', 'keep_alive', '30m');
+    settings.setProviderSetting('ollama', 'conversationId', 'ignored');
+    const provider = new OllamaProvider(undefined, baseURL);
+
+    const results = await collect(
+      provider,
+      [
+        { speaker: 'human', blocks: [{ type: 'text', text: 'read it' }] },
+        {
+          speaker: 'ai',
+          blocks: [
+            {
+              type: 'tool_call',
+              id: 'hist_tool_1',
+              name: 'ls',
+              parameters: { path: '/tmp' },
+            },
+          ],
+        },
+        {
+          speaker: 'tool',
+          blocks: [
+            {
+              type: 'tool_response',
+              callId: 'hist_tool_1',
+              toolName: 'ls',
+              result: { files: ['a'] },
+            },
+          ],
+        },
+      ],
+      settings,
+      [
+        {
+          functionDeclarations: [
+            {
+              name: 'read_file',
+              description: 'Reads a file',
+              parametersJsonSchema: {
+                type: 'OBJECT',
+                properties: { absolute_path: { type: 'STRING' } },
+              },
+            },
+          ],
+        },
+      ],
+    );
+
+    const [request] = requests;
+    expect(request.url).toBe('/api/chat');
+    expect(request.body).toMatchObject({
+      model: 'qwen3:8b',
+      stream: true,
+      keep_alive: '30m',
+      options: { num_ctx: 16384, num_predict: 512 },
+      messages: [
+        { role: 'system', content: 'system prompt' },
+        { role: 'user', content: 'read it' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { function: { name: 'ls', arguments: { path: '/tmp' } } },
+          ],
+        },
+        { role: 'tool', content: '{"files":["a"]}', tool_name: 'ls' },
+      ],
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            parameters: {
+              type: 'object',
+              properties: { absolute_path: { type: 'string' } },
+            },
+          },
+        },
+      ],
+    });
+    expect(request.body.options).not.toHaveProperty('conversationId');
+
+    const text = results
+      .flatMap((content) => content.blocks)
+      .filter((block) => block.type === 'text')
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+    expect(text).toBe('Let me');
+
+    const final = results[results.length - 1];
+    expect(final.blocks).toEqual([
+      expect.objectContaining({
+        type: 'tool_call',
+        name: 'read_file',
+        parameters: { absolute_path: '/tmp/a' },
+      }),
+    ]);
+    expect(final.metadata?.usage).toEqual({
+      promptTokens: 12,
+      completionTokens: 5,
+      totalTokens: 17,
+    });
+  });
+
+  it('applies per-call generation overrides over the model params', async () => {
+    handler = (_request, response) =>
+      writeNdjson(response, [
+        {
+          model: 'qwen3:8b',
+          message: { role: 'assistant', content: 'Paris' },
+          done: true,
+        },
+      ]);
+
+    const settings = new SettingsService();
+    settings.setProviderSetting('ollama', 'model', 'qwen3:8b');
+    settings.setProviderSetting('ollama', 'max_tokens', 512);
+    settings.setProviderSetting('ollama', 'temperature', 1);
+    const provider = new OllamaProvider(undefined, baseURL);
+
+    const stream = provider.generateChatCompletion({
+      ...createProviderCallOptions({
+        providerName: provider.name,
+        contents: [
+          { speaker: 'human', blocks: [{ type: 'text', text: 'hi' }] },
+        ],
+        settings,
+      }),
+      generationOverrides: {
+        maxTokens: 20,
+        temperature: 0.2,
+        stopSequences: ['END'],
+      },
+    });
+    for await (const _content of stream) {
+      // drain
+    }
+
+    expect(requests[0].body['options']).toEqual({
+      num_predict: 20,
+      temperature: 0.2,
+      stop: ['END'],
+    });
+  });
+
+  it('closes the response when the caller aborts mid-stream', async () => {
+    let responseClosed!: Promise<void>;
+    handler = (_request, response) => {
+      responseClosed = new Promise((resolve) =>
+        response.on('close', () => resolve()),
+      );
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.write(
+        `${JSON.stringify({
+          model: 'qwen3:8b',
+          message: { role: 'assistant', content: 'Once' },
+        })}\n`,
+      );
+    };
+
+    const settings = new SettingsService();
+    settings.setProviderSetting('ollama', 'model', 'qwen3:8b');
+    const provider = new OllamaProvider(undefined, baseURL);
+    const controller = new AbortController();
+
+    const stream = provider.generateChatCompletion(
+      createProviderCallOptions({
+        providerName: provider.name,
+        contents: [
+          { speaker: 'human', blocks: [{ type: 'text', text: 'hi' }] },
+        ],
+        settings,
+        metadata: { abortSignal: controller.signal },
+      }),
+    );
+    const first = await stream.next();
+    expect(first.value).toMatchObject({
+      blocks: [{ type: 'text', text: 'Once' }],
+    });
+
+    controller.abort();
+    await expect(stream.next()).rejects.toThrow();
+    await responseClosed;
+  });
+
+  it('surfaces missing models as errors with the HTTP status', async () => {
+    handler = (_request, response) => {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: "model 'nope' not found" }));
+    };
+
+    const settings = new SettingsService();
+    settings.setProviderSetting('ollama', 'model', 'nope');
+    const provider = new OllamaProvider(undefined, baseURL);
+
+    await expect(
+      collect(
+        provider,
+        [{ speaker: 'human', blocks: [{ type: 'text', text: 'hi' }] }],
+        settings,
+      ),
+    ).rejects.toMatchObject({
+      status: 404,
+      message: expect.stringContaining('/model pull nope'),
+    });
+  });
+
+  it('reports pull progress and fails on streamed errors', async () => {
+    handler = (request, response) =>
+      writeNdjson(
+        response,
+        request.body.model === 'broken'
+          ? [{ status: 'pulling manifest' }, { error: 'manifest unknown' }]
+          : [
+              { status: 'pulling manifest' },
+              { status: 'downloading', total: 100, completed: 50 },
+              { status: 'success' },
+            ],
+      );
+
+    const provider = new OllamaProvider(undefined, baseURL);
+    provider.setRuntimeSettingsService(new SettingsService());
+    const progress: string[] = [];
+
+    await provider.pullModel('llama3.2', (update) =>
+      progress.push(update.status),
+    );
+    expect(requests[0].body).toEqual({ model: 'llama3.2', stream: true });
+    expect(progress).toEqual(['pulling manifest', 'downloading', 'success']);
+
+    await expect(provider.pullModel('broken')).rejects.toThrow(
+      'manifest unknown',
+    );
+  });
+});
@@ -0,0 +1,648 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Native Ollama provider.
+ * Talks to Ollama's own /api/chat, /api/tags, /api/show and /api/pull
+ * endpoints instead of going through the OpenAI-compatible /v1 layer, so
+ * native tool calling, keep_alive and runtime options such as num_ctx are
+ * available.
+ */
+import { DebugLogger } from '../../debug/index.js';
+import { IModel } from '../IModel.js';
+import {
+  ContentBlock,
+  IContent,
+  TextBlock,
+  ToolCallBlock,
+  ToolResponseBlock,
+} from '../../services/history/IContent.js';
+import { IProviderConfig } from '../types/IProviderConfig.js';
+import {
+  BaseProvider,
+  BaseProviderConfig,
+  NormalizedGenerateChatOptions,
+} from '../BaseProvider.js';
+import type { ToolFormat } from '../../tools/IToolFormatter.js';
+import { ToolFormatter } from '../../tools/ToolFormatter.js';
+import { getCoreSystemPromptAsync } from '../../core/prompts.js';
+import { resolveUserMemory } from '../utils/userMemory.js';
+
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+export const OLLAMA_DEFAULT_MODEL = 'llama3.2';
+
+/**
+ * Model parameters forwarded to Ollama's `options` object. Anything else set
+ * with `/set modelparam` is ignored rather than rejected by the server.
+ */
+const OLLAMA_OPTION_KEYS = new Set([
+  'num_ctx',
+  'num_predict',
+  'num_keep',
+  'num_batch',
+  'num_gpu',
+  'num_thread',
+  'temperature',
+  'top_k',
+  'top_p',
+  'min_p',
+  'typical_p',
+  'repeat_last_n',
+  'repeat_penalty',
+  'presence_penalty',
+  'frequency_penalty',
+  'seed',
+  'stop',
+  'mirostat',
+  'mirostat_eta',
+  'mirostat_tau',
+]);
+
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[];
+  thinking?: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaChatChunk {
+  model?: string;
+  message?: Partial<OllamaMessage>;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{ name: string; model?: string }>;
+}
+
+interface OllamaShowResponse {
+  parameters?: string;
+  model_info?: Record<string, unknown>;
+}
+
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+/**
+ * Reads a newline-delimited JSON stream, yielding one parsed object per line.
+ */
+async function* readNdjson<T>(
+  body: ReadableStream<Uint8Array>,
+): AsyncIterableIterator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) {
+          yield JSON.parse(line) as T;
+        }
+        newline = buffer.indexOf('\n');
+      }
+    }
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) {
+      yield JSON.parse(rest) as T;
+    }
+  } finally {
+    // Stopping early (abort, error or a consumer break) must close the
+    // response so Ollama stops generating.
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Builds an Error carrying the HTTP status so retry and failover logic can
+ * classify it. Ollama reports failures as `{ "error": "..." }`.
+ */
+function createOllamaError(status: number, body: string, model?: string) {
+  let message = body.trim() || `HTTP ${status}`;
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown };
+    if (typeof parsed.error === 'string') {
+      message = parsed.error;
+    }
+  } catch {
+    // Non-JSON body, keep the raw text
+  }
+  if (status === 404 && model) {
+    message += ` (run "/model pull ${model}" to download it)`;
+  }
+  const error = new Error(`Ollama API error (${status}): ${message}`);
+  (error as { status?: number }).status = status;
+  return error;
+}
+
+export class OllamaProvider extends BaseProvider {
+  private logger: DebugLogger;
+  private toolFormatter = new ToolFormatter();
+  private toolCallSequence = 0;
+
+  constructor(apiKey?: string, baseURL?: string, config?: IProviderConfig) {
+    const baseConfig: BaseProviderConfig = {
+      name: 'ollama',
+      apiKey,
+      baseURL: baseURL || OLLAMA_DEFAULT_BASE_URL,
+      envKeyNames: ['OLLAMA_API_KEY'],
+      isOAuthEnabled: false,
+      oauthProvider: undefined,
+      oauthManager: undefined,
+    };
+
+    super(baseConfig, config);
+
+    this.logger = new DebugLogger('llxprt:providers:ollama');
+    this.logger.debug(
+      () => `Constructor - baseURL: ${baseURL || OLLAMA_DEFAULT_BASE_URL}`,
+    );
+  }
+
+  protected supportsOAuth(): boolean {
+    return false;
+  }
+
+  override getToolFormat(): ToolFormat {
+    // Ollama's native tool schema matches OpenAI function definitions
+    return 'openai';
+  }
+
+  override getCurrentModel(): string {
+    return this.getModel();
+  }
+
+  override getDefaultModel(): string {
+    return OLLAMA_DEFAULT_MODEL;
+  }
+
+  /**
+   * Local models are free to run
+   */
+  override isPaidMode(): boolean {
+    return false;
+  }
+
+  /**
+   * A local Ollama server needs no credentials; a key is only sent when one
+   * is configured for an authenticating proxy in front of it.
+   */
+  override async isAuthenticated(): Promise<boolean> {
+    return true;
+  }
+
+  override getServerTools(): string[] {
+    return [];
+  }
+
+  override async invokeServerTool(
+    _toolName: string,
+    _params: unknown,
+    _config?: unknown,
+    _signal?: AbortSignal,
+  ): Promise<unknown> {
+    throw new Error('Server tools not supported by Ollama provider');
+  }
+
+  override getModelParams(): Record<string, unknown> | undefined {
+    try {
+      const {
+        enabled: _enabled,
+        apiKey: _apiKey,
+        baseUrl: _baseUrl,
+        model: _model,
+        ...params
+      } = this.resolveSettingsService().getProviderSettings(
+        this.name,
+      ) as Record<string, unknown>;
+      return Object.keys(params).length > 0 ? params : undefined;
+    } catch (error) {
+      this.logger.debug(
+        () => `Failed to compute model params from SettingsService: ${error}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists locally installed models from /api/tags. Context sizes come from
+   * /api/show: an explicit `num_ctx` in the Modelfile wins over the
+   * architecture's trained `context_length`.
+   */
+  override async getModels(): Promise<IModel[]> {
+    const baseURL = this.resolveApiBaseURL(this.getBaseURL());
+    let tags: OllamaTagsResponse;
+    try {
+      const response = await fetch(`${baseURL}/api/tags`, {
+        headers: await this.buildHeaders(),
+      });
+      if (!response.ok) {
+        this.logger.debug(
+          () => `Ollama /api/tags returned HTTP ${response.status}`,
+        );
+        return [];
+      }
+      tags = (await response.json()) as OllamaTagsResponse;
+    } catch (error) {
+      this.logger.debug(() => `Error fetching models from Ollama: ${error}`);
+      return [];
+    }
+
+    return Promise.all(
+      (tags.models ?? []).map(async (entry) => {
+        const model: IModel = {
+          id: entry.name,
+          name: entry.name,
+          provider: this.name,
+          supportedToolFormats: ['openai'],
+        };
+        const contextWindow = await this.fetchContextWindow(
+          baseURL,
+          entry.name,
+        );
+        if (contextWindow !== undefined) {
+          model.contextWindow = contextWindow;
+        }
+        return model;
+      }),
+    );
+  }
+
+  /**
+   * Downloads a model with /api/pull, reporting each progress update.
+   */
+  async pullModel(
+    model: string,
+    onProgress?: (progress: OllamaPullProgress) => void,
+  ): Promise<void> {
+    const baseURL = this.resolveApiBaseURL(this.getBaseURL());
+    const response = await fetch(`${baseURL}/api/pull`, {
+      method: 'POST',
+      headers: await this.buildHeaders(),
+      body: JSON.stringify({ model, stream: true }),
+    });
+
+    if (!response.ok) {
+      throw createOllamaError(response.status, await response.text());
+    }
+    if (!response.body) {
+      return;
+    }
+
+    for await (const progress of readNdjson<
+      OllamaPullProgress & { error?: string }
+    >(response.body)) {
+      if (progress.error) {
+        throw new Error(`Ollama pull failed: ${progress.error}`);
+      }
+      onProgress?.(progress);
+    }
+  }
+
+  protected override async *generateChatCompletionWithOptions(
+    options: NormalizedGenerateChatOptions,
+  ): AsyncIterableIterator<IContent> {
+    const { contents, tools } = options;
+    const model = options.resolved.model || this.getDefaultModel();
+
+    const toolNamesForPrompt =
+      tools === undefined
+        ? undefined
+        : Array.from(
+            new Set(
+              tools.flatMap((group) =>
+                group.functionDeclarations
+                  .map((decl) => decl.name)
+                  .filter((name): name is string => Boolean(name)),
+              ),
+            ),
+          );
+    const userMemory = await resolveUserMemory(
+      options.userMemory,
+      () => options.invocation?.userMemory,
+    );
+    const systemPrompt = await getCoreSystemPromptAsync(
+      userMemory,
+      model,
+      toolNamesForPrompt,
+    );
+
+    const messages: OllamaMessage[] = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    messages.push(...this.convertContents(contents));
+
+    const request: Record<string, unknown> = {
+      model,
+      messages,
+      stream: true,
+    };
+
+    const ollamaTools = this.toolFormatter.convertGeminiToOpenAI(
+      tools as Parameters<ToolFormatter['convertGeminiToOpenAI']>[0],
+    );
+    if (ollamaTools && ollamaTools.length > 0) {
+      request.tools = ollamaTools;
+    }
+
+    const { options: requestOptions, keepAlive } = this.buildRequestOptions(
+      options.settings.getProviderSettings(this.name),
+      options.invocation?.ephemerals,
+    );
+    const generation = options.generationOverrides;
+    if (generation?.maxTokens !== undefined) {
+      requestOptions.num_predict = generation.maxTokens;
+    }
+    if (generation?.temperature !== undefined) {
+      requestOptions.temperature = generation.temperature;
+    }
+    if (generation?.stopSequences?.length) {
+      requestOptions.stop = generation.stopSequences;
+    }
+    if (Object.keys(requestOptions).length > 0) {
+      request.options = requestOptions;
+    }
+    if (keepAlive !== undefined) {
+      request.keep_alive = keepAlive;
+    }
+
+    const baseURL = this.resolveApiBaseURL(options.resolved.baseURL);
+    this.logger.debug(
+      () =>
+        `POST ${baseURL}/api/chat model=${model} messages=${messages.length} tools=${ollamaTools?.length ?? 0}`,
+    );
+
+    const abortSignal = options.metadata?.abortSignal as
+      | AbortSignal
+      | undefined;
+    const response = await fetch(`${baseURL}/api/chat`, {
+      method: 'POST',
+      headers: await this.buildHeaders(),
+      body: JSON.stringify(request),
+      ...(abortSignal ? { signal: abortSignal } : {}),
+    });
+
+    if (!response.ok) {
+      throw createOllamaError(response.status, await response.text(), model);
+    }
+    if (!response.body) {
+      return;
+    }
+
+    const toolCalls: ToolCallBlock[] = [];
+    for await (const chunk of readNdjson<OllamaChatChunk>(response.body)) {
+      if (chunk.error) {
+        throw new Error(`Ollama API error: ${chunk.error}`);
+      }
+
+      const message = chunk.message;
+      if (message?.thinking) {
+        yield {
+          speaker: 'ai',
+          blocks: [{ type: 'thinking', thought: message.thinking }],
+        };
+      }
+      if (message?.content) {
+        yield {
+          speaker: 'ai',
+          blocks: [{ type: 'text', text: message.content }],
+        };
+      }
+      for (const call of message?.tool_calls ?? []) {
+        toolCalls.push({
+          type: 'tool_call',
+          id: this.nextToolCallId(),
+          name: call.function.name,
+          parameters: call.function.arguments ?? {},
+        });
+      }
+
+      if (chunk.done) {
+        const promptTokens = chunk.prompt_eval_count ?? 0;
+        const completionTokens = chunk.eval_count ?? 0;
+        yield {
+          speaker: 'ai',
+          blocks: toolCalls,
+          metadata: {
+            model: chunk.model ?? model,
+            usage: {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            },
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * Converts IContent history into Ollama chat messages. Ollama has no tool
+   * call ids, so tool results are matched by `tool_name` and order.
+   */
+  private convertContents(contents: IContent[]): OllamaMessage[] {
+    const messages: OllamaMessage[] = [];
+    for (const content of contents) {
+      if (content.speaker === 'tool') {
+        for (const block of content.blocks) {
+          if (block.type !== 'tool_response') {
+            continue;
+          }
+          const response = block as ToolResponseBlock;
+          const result = response.error
+            ? `Error: ${response.error}`
+            : typeof response.result === 'string'
+              ? response.result
+              : JSON.stringify(response.result);
+          messages.push({
+            role: 'tool',
+            content: result,
+            tool_name: response.toolName,
+          });
+        }
+        continue;
+      }
+
+      const text = content.blocks
+        .filter((block): block is TextBlock => block.type === 'text')
+        .map((block) => block.text)
+        .join('');
+
+      if (content.speaker === 'human') {
+        const images = this.collectImages(content.blocks);
+        const message: OllamaMessage = { role: 'user', content: text };
+        if (images.length > 0) {
+          message.images = images;
+        }
+        if (text || images.length > 0) {
+          messages.push(message);
+        }
+        continue;
+      }
+
+      const toolCalls = content.blocks
+        .filter((block): block is ToolCallBlock => block.type === 'tool_call')
+        .map((block) => ({
+          function: {
+            name: block.name,
+            arguments: this.toToolArguments(block.parameters),
+          },
+        }));
+      if (!text && toolCalls.length === 0) {
+        continue;
+      }
+      const message: OllamaMessage = { role: 'assistant', content: text };
+      if (toolCalls.length > 0) {
+        message.tool_calls = toolCalls;
+      }
+      messages.push(message);
+    }
+    return messages;
+  }
+
+  private collectImages(blocks: ContentBlock[]): string[] {
+    return blocks.flatMap((block) =>
+      block.type === 'media' &&
+      block.encoding === 'base64' &&
+      block.mimeType.startsWith('image/')
+        ? [block.data]
+        : [],
+    );
+  }
+
+  private toToolArguments(parameters: unknown): Record<string, unknown> {
+    if (typeof parameters === 'string') {
+      try {
+        return JSON.parse(parameters) as Record<string, unknown>;
+      } catch {
+        return {};
+      }
+    }
+    return parameters && typeof parameters === 'object'
+      ? (parameters as Record<string, unknown>)
+      : {};
+  }
+
+  /**
+   * Splits provider model params into Ollama runtime `options` and the
+   * top-level `keep_alive`. `max_tokens`/`maxTokens` map to `num_predict`,
+   * and the `context-limit` ephemeral seeds `num_ctx` when it is not set
+   * explicitly.
+   */
+  private buildRequestOptions(
+    providerSettings: Record<string, unknown>,
+    ephemerals?: Readonly<Record<string, unknown>>,
+  ): { options: Record<string, unknown>; keepAlive?: string | number } {
+    const requestOptions: Record<string, unknown> = {};
+    let keepAlive: string | number | undefined;
+
+    for (const [key, value] of Object.entries(providerSettings)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (key === 'keep_alive' || key === 'keepAlive') {
+        keepAlive = value as string | number;
+      } else if (key === 'max_tokens' || key === 'maxTokens') {
+        requestOptions.num_predict = value;
+      } else if (OLLAMA_OPTION_KEYS.has(key)) {
+        requestOptions[key] = value;
+      }
+    }
+
+    const contextLimit = Number(ephemerals?.['context-limit']);
+    if (requestOptions.num_ctx === undefined && contextLimit > 0) {
+      requestOptions.num_ctx = contextLimit;
+    }
+
+    return { options: requestOptions, keepAlive };
+  }
+
+  private async fetchContextWindow(
+    baseURL: string,
+    model: string,
+  ): Promise<number | undefined> {
+    try {
+      const response = await fetch(`${baseURL}/api/show`, {
+        method: 'POST',
+        headers: await this.buildHeaders(),
+        body: JSON.stringify({ model }),
+      });
+      if (!response.ok) {
+        return undefined;
+      }
+      const details = (await response.json()) as OllamaShowResponse;
+
+      const numCtx = details.parameters?.match(/^\s*num_ctx\s+(\d+)/m);
+      if (numCtx) {
+        return Number(numCtx[1]);
+      }
+      for (const [key, value] of Object.entries(details.model_info ?? {})) {
+        if (key.endsWith('.context_length') && typeof value === 'number') {
+          return value;
+        }
+      }
+    } catch (error) {
+      this.logger.debug(
+        () => `Error fetching model details for ${model}: ${error}`,
+      );
+    }
+    return undefined;
+  }
+
+  private async buildHeaders(): Promise<Record<string, string>> {
+    const apiKey = await this.getAuthToken();
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      ...(this.getCustomHeaders() ?? {}),
+    };
+  }
+
+  /**
+   * Accepts base URLs written for the OpenAI-compatible endpoint
+   * (`http://host:11434/v1`) and points them at the native API root.
+   */
+  private resolveApiBaseURL(baseURL: string | undefined): string {
+    return (baseURL || OLLAMA_DEFAULT_BASE_URL)
+      .replace(/\/+$/u, '')
+      .replace(/\/v1$/u, '');
+  }
+
+  private nextToolCallId(): string {
+    this.toolCallSequence += 1;
+    return `hist_tool_ollama_${Date.now().toString(36)}_${this.toolCallSequence}`;
+  }
+}
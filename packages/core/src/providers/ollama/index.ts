@@ -0,0 +1 @@
+export { OllamaProvider } from './OllamaProvider.js';
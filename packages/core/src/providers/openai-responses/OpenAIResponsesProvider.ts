@@ -496,6 +496,15 @@ export class OpenAIResponsesProvider extends BaseProvider {
       ...(requestOverrides || {}),
     };
 
+    // The Responses API has no stop sequences
+    const generation = options.generationOverrides;
+    if (generation?.maxTokens !== undefined) {
+      request.max_output_tokens = generation.maxTokens;
+    }
+    if (generation?.temperature !== undefined) {
+      request.temperature = generation.temperature;
+    }
+
     if (responsesTools && responsesTools.length > 0) {
       request.tools = responsesTools;
     }
@@ -46,6 +46,7 @@ import { retryWithBackoff } from '../../utils/retry.js';
 import { resolveUserMemory } from '../utils/userMemory.js';
 import { resolveRuntimeAuthToken } from '../utils/authToken.js';
 import { filterOpenAIRequestParams } from './openaiRequestParams.js';
+import type { AuthStrategyClientOptions } from '../../auth/authStrategies.js';
 
 export class OpenAIProvider extends BaseProvider implements IProvider {
   override readonly name: string = 'openai';
@@ -252,17 +253,28 @@ export class OpenAIProvider extends BaseProvider implements IProvider {
    * Instantiates a fresh OpenAI client per call to preserve stateless behaviour.
    */
   private instantiateClient(
-    authToken: string,
-    baseURL?: string,
+    auth: AuthStrategyClientOptions,
     agents?: { httpAgent: http.Agent; httpsAgent: https.Agent },
   ): OpenAI {
     const clientOptions: Record<string, unknown> = {
-      apiKey: authToken || '',
+      apiKey: auth.apiKey || '',
       maxRetries: 0,
     };
 
-    if (baseURL && baseURL.trim() !== '') {
-      clientOptions.baseURL = baseURL;
+    if (auth.baseURL && auth.baseURL.trim() !== '') {
+      clientOptions.baseURL = auth.baseURL;
+    }
+
+    if (auth.defaultHeaders) {
+      clientOptions.defaultHeaders = auth.defaultHeaders;
+    }
+
+    if (auth.defaultQuery) {
+      clientOptions.defaultQuery = auth.defaultQuery;
+    }
+
+    if (auth.fetch) {
+      clientOptions.fetch = auth.fetch;
     }
 
     if (agents) {
@@ -285,14 +297,22 @@ export class OpenAIProvider extends BaseProvider implements IProvider {
   ): Promise<OpenAI> {
     const authToken =
       (await resolveRuntimeAuthToken(options.resolved.authToken)) ?? '';
-    if (!authToken) {
+    const strategy = this.authResolver.resolveAuthStrategy({
+      settingsService: options.settings,
+    });
+    if (!authToken && strategy.mode === 'bearer') {
       throw new Error(
         `ProviderCacheError("Auth token unavailable for runtimeId=${options.runtime?.runtimeId} (REQ-SP4-003).")`,
       );
     }
     const baseURL = options.resolved.baseURL ?? this.baseProviderConfig.baseURL;
     const agents = this.createHttpAgents(options);
-    return this.instantiateClient(authToken, baseURL, agents);
+    const auth = this.createAuthClientOptions(options.settings, {
+      credential: authToken,
+      baseURL,
+      model: options.resolved.model,
+    });
+    return this.instantiateClient(auth, agents);
   }
 
   /**
@@ -335,7 +355,12 @@ export class OpenAIProvider extends BaseProvider implements IProvider {
       const authToken = await this.getAuthToken();
       const baseURL = this.getBaseURL();
       const agents = this.createHttpAgents();
-      const client = this.instantiateClient(authToken, baseURL, agents);
+      const auth = this.createAuthClientOptions(this.resolveSettingsService(), {
+        credential: authToken,
+        baseURL,
+        model: this.getModel(),
+      });
+      const client = this.instantiateClient(auth, agents);
       const response = await client.models.list();
       const models: IModel[] = [];
 
@@ -841,6 +866,17 @@ export class OpenAIProvider extends BaseProvider implements IProvider {
       requestBody.max_tokens = maxTokens;
     }
 
+    const generation = options.generationOverrides;
+    if (generation?.maxTokens !== undefined) {
+      requestBody.max_tokens = generation.maxTokens;
+    }
+    if (generation?.temperature !== undefined) {
+      requestBody.temperature = generation.temperature;
+    }
+    if (generation?.stopSequences?.length) {
+      requestBody.stop = generation.stopSequences;
+    }
+
     // Debug log request summary for Cerebras/Qwen
     const baseURL = options.resolved.baseURL ?? this.getBaseURL();
 
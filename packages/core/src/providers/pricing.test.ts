@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  calculateTokenCost,
+  getSessionBudgetStatus,
+  parseBudgetLimit,
+  resolveModelPricing,
+  shouldWarnBudgetLevel,
+} from './pricing.js';
+import { ProviderManager } from './ProviderManager.js';
+import { SessionBudgetExceededError } from './errors.js';
+import { SettingsService } from '../settings/SettingsService.js';
+import type { Config } from '../config/config.js';
+import {
+  clearActiveProviderRuntimeContext,
+  createProviderRuntimeContext,
+  setActiveProviderRuntimeContext,
+} from '../runtime/providerRuntimeContext.js';
+
+const usage = (input: number, output: number, cache = 0) => ({
+  input,
+  output,
+  cache,
+  tool: 0,
+  thought: 0,
+});
+
+describe('resolveModelPricing', () => {
+  it('matches dated model snapshots by longest prefix', () => {
+    expect(
+      resolveModelPricing('anthropic', 'claude-sonnet-4-20250514'),
+    ).toEqual({ input: 3, output: 15, cachedInput: 0.3 });
+    expect(resolveModelPricing('openai', 'gpt-4.1-mini-2025-04-14')).toEqual(
+      expect.objectContaining({ input: 0.4 }),
+    );
+  });
+
+  it('prefers user overrides and supports provider-wide entries', () => {
+    const overrides = {
+      'openai:gpt-4.1': { input: 1, output: 2 },
+      'llama-cpp': { input: 0, output: 0 },
+    };
+    expect(resolveModelPricing('openai', 'gpt-4.1', overrides)).toEqual({
+      input: 1,
+      output: 2,
+    });
+    expect(resolveModelPricing('llama-cpp', 'qwen3-coder', overrides)).toEqual({
+      input: 0,
+      output: 0,
+    });
+  });
+
+  it('returns undefined for unknown models', () => {
+    expect(resolveModelPricing('openai', 'my-local-model')).toBeUndefined();
+  });
+});
+
+describe('calculateTokenCost', () => {
+  it('prices cache reads separately and falls back to the input price', () => {
+    const cost = calculateTokenCost(
+      { input: 3, output: 15, cachedInput: 0.3 },
+      usage(1_000_000, 100_000, 1_000_000),
+    );
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.3);
+    expect(
+      calculateTokenCost({ input: 2, output: 8 }, usage(0, 0, 500_000)),
+    ).toBeCloseTo(1);
+  });
+});
+
+describe('budget helpers', () => {
+  it('ignores unset and non-positive limits', () => {
+    expect(parseBudgetLimit(undefined)).toBeUndefined();
+    expect(parseBudgetLimit(0)).toBeUndefined();
+    expect(parseBudgetLimit('2.5')).toBe(2.5);
+  });
+
+  it('reports the soft and hard states', () => {
+    expect(getSessionBudgetStatus(1, 2, 5).state).toBe('ok');
+    expect(getSessionBudgetStatus(2, 2, 5).state).toBe('soft');
+    expect(getSessionBudgetStatus(5, 2, 5).state).toBe('hard');
+    expect(getSessionBudgetStatus(5).state).toBe('ok');
+  });
+
+  it('warns on crossing a limit and again when it escalates', () => {
+    expect(shouldWarnBudgetLevel('ok', 'ok')).toBe(false);
+    expect(shouldWarnBudgetLevel('ok', 'soft')).toBe(true);
+    expect(shouldWarnBudgetLevel('soft', 'soft')).toBe(false);
+    expect(shouldWarnBudgetLevel('soft', 'hard')).toBe(true);
+    expect(shouldWarnBudgetLevel('ok', 'hard')).toBe(true);
+    expect(shouldWarnBudgetLevel('hard', 'hard')).toBe(false);
+    expect(shouldWarnBudgetLevel('hard', 'soft')).toBe(false);
+    expect(shouldWarnBudgetLevel('hard', 'ok')).toBe(false);
+  });
+});
+
+describe('ProviderManager session cost', () => {
+  let settingsService: SettingsService;
+  let manager: ProviderManager;
+
+  beforeEach(() => {
+    settingsService = new SettingsService();
+    setActiveProviderRuntimeContext(
+      createProviderRuntimeContext({ settingsService }),
+    );
+    manager = new ProviderManager({
+      settingsService,
+      config: {
+        getModelPricing: () => ({ 'llama-cpp': { input: 0, output: 0 } }),
+      } as unknown as Config,
+    });
+  });
+
+  afterEach(() => {
+    clearActiveProviderRuntimeContext();
+  });
+
+  it('accumulates cost per provider and model', () => {
+    manager.accumulateSessionTokens(
+      'anthropic',
+      usage(1_000_000, 0),
+      'claude-sonnet-4',
+    );
+    manager.accumulateSessionTokens('openai', usage(0, 1_000_000), 'gpt-4.1');
+    manager.accumulateSessionTokens('llama-cpp', usage(500, 500), 'qwen3');
+    manager.accumulateSessionTokens('openai', usage(10, 10), 'local-model');
+
+    const cost = manager.getSessionCost();
+    expect(cost.total).toBeCloseTo(3 + 8);
+    expect(cost.entries).toHaveLength(4);
+    expect(cost.unpriced).toEqual(['openai:local-model']);
+
+    manager.resetSessionTokenUsage();
+    expect(manager.getSessionCost()).toEqual({
+      total: 0,
+      entries: [],
+      unpriced: [],
+    });
+  });
+
+  it('refuses requests once the hard limit is reached', () => {
+    settingsService.set('budget-soft-limit', 1);
+    settingsService.set('budget-hard-limit', 3);
+    manager.accumulateSessionTokens(
+      'anthropic',
+      usage(500_000, 0),
+      'claude-sonnet-4',
+    );
+
+    expect(manager.getSessionBudgetStatus().state).toBe('soft');
+    expect(() => manager.assertWithinSessionBudget()).not.toThrow();
+
+    manager.accumulateSessionTokens(
+      'anthropic',
+      usage(500_000, 0),
+      'claude-sonnet-4',
+    );
+
+    expect(manager.getSessionBudgetStatus()).toEqual({
+      state: 'hard',
+      cost: 3,
+      softLimit: 1,
+      hardLimit: 3,
+    });
+    expect(() => manager.assertWithinSessionBudget()).toThrow(
+      SessionBudgetExceededError,
+    );
+  });
+});
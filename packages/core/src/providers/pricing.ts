@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const BUDGET_SOFT_LIMIT_SETTING = 'budget-soft-limit';
+export const BUDGET_HARD_LIMIT_SETTING = 'budget-hard-limit';
+
+/**
+ * Prices in USD per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Price for cache reads; defaults to the input price when omitted */
+  cachedInput?: number;
+}
+
+/**
+ * User supplied pricing, keyed by `provider:model` (model is matched as a
+ * prefix) or by bare `provider` to price every model of that provider.
+ */
+export type ModelPricingOverrides = Record<string, ModelPricing>;
+
+export interface TokenUsageForCost {
+  input: number;
+  output: number;
+  cache: number;
+  tool: number;
+  thought: number;
+}
+
+export interface ModelCostEntry {
+  provider: string;
+  model: string;
+  input: number;
+  output: number;
+  cost: number;
+  /** False when no pricing was found, in which case `cost` stays at 0 */
+  priced: boolean;
+}
+
+export interface SessionCostSummary {
+  total: number;
+  entries: ModelCostEntry[];
+  /** `provider:model` keys that had usage but no known price */
+  unpriced: string[];
+}
+
+export type SessionBudgetState = 'ok' | 'soft' | 'hard';
+
+export interface SessionBudgetStatus {
+  state: SessionBudgetState;
+  cost: number;
+  softLimit?: number;
+  hardLimit?: number;
+}
+
+/**
+ * Built-in list prices. Model names are matched by longest prefix so dated
+ * snapshots (e.g. `claude-sonnet-4-20250514`) pick up their family price.
+ */
+export const DEFAULT_MODEL_PRICING: Record<
+  string,
+  Record<string, ModelPricing>
+> = {
+  anthropic: {
+    'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+    'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-haiku-4': { input: 1, output: 5, cachedInput: 0.1 },
+    'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+  },
+  openai: {
+    'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+    'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+    'gpt-5-nano': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+    'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    o3: { input: 2, output: 8, cachedInput: 0.5 },
+    'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  },
+  gemini: {
+    'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  },
+  // Local models; the empty prefix matches every model name
+  ollama: {
+    '': { input: 0, output: 0 },
+  },
+};
+
+const PROVIDER_PRICING_ALIASES: Record<string, string> = {
+  'openai-responses': 'openai',
+};
+
+function findByLongestPrefix(
+  table: Record<string, ModelPricing>,
+  model: string,
+): ModelPricing | undefined {
+  let match: string | undefined;
+  for (const prefix of Object.keys(table)) {
+    if (
+      model.startsWith(prefix) &&
+      (match === undefined || prefix.length > match.length)
+    ) {
+      match = prefix;
+    }
+  }
+  return match === undefined ? undefined : table[match];
+}
+
+/**
+ * Resolves the price for a provider/model pair. User overrides win over the
+ * built-in table; returns undefined when the model has no known price.
+ */
+export function resolveModelPricing(
+  provider: string,
+  model: string,
+  overrides?: ModelPricingOverrides,
+): ModelPricing | undefined {
+  if (overrides) {
+    const providerPrefix = `${provider}:`;
+    const modelOverrides: Record<string, ModelPricing> = {};
+    for (const [key, pricing] of Object.entries(overrides)) {
+      if (key.startsWith(providerPrefix)) {
+        modelOverrides[key.slice(providerPrefix.length)] = pricing;
+      }
+    }
+    const override =
+      findByLongestPrefix(modelOverrides, model) ?? overrides[provider];
+    if (override) {
+      return override;
+    }
+  }
+
+  const table =
+    DEFAULT_MODEL_PRICING[PROVIDER_PRICING_ALIASES[provider] ?? provider];
+  return table ? findByLongestPrefix(table, model) : undefined;
+}
+
+/**
+ * Converts token usage into USD. Thought tokens are billed as output and
+ * tool-use prompt tokens as input.
+ */
+export function calculateTokenCost(
+  pricing: ModelPricing,
+  usage: TokenUsageForCost,
+): number {
+  const perToken = 1 / 1_000_000;
+  return (
+    (usage.input + usage.tool) * pricing.input * perToken +
+    usage.cache * (pricing.cachedInput ?? pricing.input) * perToken +
+    (usage.output + usage.thought) * pricing.output * perToken
+  );
+}
+
+/**
+ * Reads a budget limit setting, ignoring unset or non-positive values.
+ */
+export function parseBudgetLimit(value: unknown): number | undefined {
+  const limit = typeof value === 'string' ? Number(value) : value;
+  return typeof limit === 'number' && Number.isFinite(limit) && limit > 0
+    ? limit
+    : undefined;
+}
+
+export function getSessionBudgetStatus(
+  cost: number,
+  softLimit?: number,
+  hardLimit?: number,
+): SessionBudgetStatus {
+  let state: SessionBudgetState = 'ok';
+  if (hardLimit !== undefined && cost >= hardLimit) {
+    state = 'hard';
+  } else if (softLimit !== undefined && cost >= softLimit) {
+    state = 'soft';
+  }
+  return { state, cost, softLimit, hardLimit };
+}
+
+/**
+ * Whether moving from the budget level the user was last warned about to
+ * `current` deserves a new warning: on crossing a limit, and again when the
+ * soft limit escalates to the hard one.
+ */
+export function shouldWarnBudgetLevel(
+  warned: SessionBudgetState,
+  current: SessionBudgetState,
+): boolean {
+  return current !== warned && (warned === 'ok' || current === 'hard');
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
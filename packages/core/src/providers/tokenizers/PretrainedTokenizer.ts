@@ -0,0 +1,57 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DebugLogger } from '../../debug/DebugLogger.js';
+import { ITokenizer } from './ITokenizer.js';
+
+/** The part of a `@lenml/tokenizer-*` tokenizer used for counting */
+interface VocabularyTokenizer {
+  encode(text: string, options?: { add_special_tokens?: boolean }): number[];
+}
+
+/** Shape of the `@lenml/tokenizer-*` packages that bundle a vocabulary */
+export interface VocabularyModule {
+  fromPreTrained(): VocabularyTokenizer;
+}
+
+/**
+ * Counts tokens with a model family's own vocabulary. The vocabularies are
+ * tens of megabytes, so each is loaded on first use.
+ */
+export class PretrainedTokenizer implements ITokenizer {
+  private readonly logger = new DebugLogger('llxprt:tokenizer:pretrained');
+  private tokenizer: Promise<VocabularyTokenizer> | undefined;
+
+  constructor(
+    private readonly vocabulary: string,
+    private readonly load: () => Promise<VocabularyModule>,
+  ) {}
+
+  async countTokens(text: string, _model: string): Promise<number> {
+    try {
+      this.tokenizer ??= this.load().then((module) => module.fromPreTrained());
+      const tokenizer = await this.tokenizer;
+      return tokenizer.encode(text, { add_special_tokens: false }).length;
+    } catch (error) {
+      this.logger.debug(
+        () => `Failed to encode with the ${this.vocabulary} vocabulary`,
+        error,
+      );
+      // Fallback: rough estimate based on characters
+      return Math.ceil(text.length / 4);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ITokenizer } from './ITokenizer.js';
+
+/** Estimated tokens needed before a model's factor is trusted */
+const MIN_CALIBRATION_TOKENS = 200;
+
+/** Limits that keep one odd response from skewing every estimate */
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 2;
+
+/**
+ * Learns, per model, how far estimated token counts are from the counts the
+ * provider reports in `UsageStats`. The factor is the ratio of all reported
+ * to all estimated tokens seen so far.
+ */
+export class TokenCalibration {
+  private readonly totals = new Map<
+    string,
+    { estimated: number; reported: number }
+  >();
+
+  /**
+   * Record the estimate and the provider-reported count for the same text
+   */
+  record(model: string, estimatedTokens: number, reportedTokens: number): void {
+    if (
+      !(estimatedTokens > 0) ||
+      !(reportedTokens > 0) ||
+      !Number.isFinite(estimatedTokens) ||
+      !Number.isFinite(reportedTokens)
+    ) {
+      return;
+    }
+    const totals = this.totals.get(model) ?? { estimated: 0, reported: 0 };
+    this.totals.set(model, {
+      estimated: totals.estimated + estimatedTokens,
+      reported: totals.reported + reportedTokens,
+    });
+  }
+
+  /**
+   * Factor to multiply estimates for the model by; 1 until enough tokens
+   * have been seen
+   */
+  getFactor(model: string): number {
+    const totals = this.totals.get(model);
+    if (!totals || totals.estimated < MIN_CALIBRATION_TOKENS) {
+      return 1;
+    }
+    return Math.min(
+      MAX_FACTOR,
+      Math.max(MIN_FACTOR, totals.reported / totals.estimated),
+    );
+  }
+
+  /**
+   * Forget the samples for one model, or for all models
+   */
+  reset(model?: string): void {
+    if (model === undefined) {
+      this.totals.clear();
+    } else {
+      this.totals.delete(model);
+    }
+  }
+}
+
+/** Calibration shared by every history, so it survives compression */
+export const tokenCalibration = new TokenCalibration();
+
+/**
+ * Applies a model's calibration factor to an estimating tokenizer
+ */
+export class CalibratedTokenizer implements ITokenizer {
+  constructor(
+    readonly base: ITokenizer,
+    private readonly calibration: TokenCalibration = tokenCalibration,
+  ) {}
+
+  async countTokens(text: string, model: string): Promise<number> {
+    const tokens = await this.base.countTokens(text, model);
+    return Math.ceil(tokens * this.calibration.getFactor(model));
+  }
+}
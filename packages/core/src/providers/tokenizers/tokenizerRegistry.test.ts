@@ -0,0 +1,140 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { HistoryService } from '../../services/history/HistoryService.js';
+import { OpenAITokenizer } from './OpenAITokenizer.js';
+import { PretrainedTokenizer } from './PretrainedTokenizer.js';
+import {
+  CalibratedTokenizer,
+  TokenCalibration,
+  tokenCalibration,
+} from './TokenCalibration.js';
+import {
+  getTokenizerFamily,
+  getTokenizerForModel,
+} from './tokenizerRegistry.js';
+
+afterEach(() => {
+  tokenCalibration.reset();
+});
+
+describe('tokenizerRegistry', () => {
+  it.each([
+    ['gemini-2.5-pro', 'gemini'],
+    ['gemma-3-27b-it', 'gemini'],
+    ['gemini-1.5-flash', 'gemma2'],
+    ['gemma2:9b', 'gemma2'],
+    ['Qwen/Qwen3-Coder-480B-A35B-Instruct', 'qwen'],
+    ['deepseek-r1-distill-qwen-32b', 'qwen'],
+    ['deepseek-chat', 'deepseek'],
+    ['meta-llama/Llama-3.3-70B-Instruct', 'llama3'],
+    ['mistral-7b-instruct-v0.2.Q4_K_M.gguf', 'mistral'],
+    ['mixtral-8x7b-instruct', 'mistral'],
+    ['llama-4-maverick', 'default'],
+    ['llama-2-13b-chat.Q4_K_M.gguf', 'default'],
+    ['claude-sonnet-4', 'anthropic'],
+    ['gpt-4.1', 'openai'],
+    ['openai/o3-mini', 'openai'],
+    ['some-local-model', 'default'],
+  ])('selects the %s tokenizer family as %s', (model, family) => {
+    expect(getTokenizerFamily(model).name).toBe(family);
+  });
+
+  it('only calibrates families without an exact tokenizer', () => {
+    expect(getTokenizerForModel('gpt-4.1')).toBeInstanceOf(OpenAITokenizer);
+    expect(getTokenizerForModel('qwen3-coder')).toBeInstanceOf(
+      PretrainedTokenizer,
+    );
+    expect(getTokenizerForModel('llama-4-maverick')).toBeInstanceOf(
+      CalibratedTokenizer,
+    );
+    expect(getTokenizerForModel('llama-4-maverick')).toBe(
+      getTokenizerForModel('some-local-model'),
+    );
+  });
+
+  it.each([
+    ['qwen3-coder', 10],
+    ['llama-3.3-70b', 10],
+    ['deepseek-chat', 10],
+    ['gemini-2.5-pro', 10],
+    ['mistral-7b-instruct', 12],
+  ])(
+    'counts %s with its own vocabulary',
+    async (model, expected) => {
+      const text = 'The quick brown fox jumps over the lazy dog.';
+      expect(await getTokenizerForModel(model).countTokens(text, model)).toBe(
+        expected,
+      );
+    },
+    30000,
+  );
+});
+
+describe('TokenCalibration', () => {
+  it('scales estimates by the reported to estimated ratio once trusted', async () => {
+    const calibration = new TokenCalibration();
+    const tokenizer = new CalibratedTokenizer(
+      { countTokens: async () => 100 },
+      calibration,
+    );
+
+    calibration.record('local', 100, 150);
+    expect(await tokenizer.countTokens('text', 'local')).toBe(100);
+
+    calibration.record('local', 200, 300);
+    expect(calibration.getFactor('local')).toBe(1.5);
+    expect(await tokenizer.countTokens('text', 'local')).toBe(150);
+    expect(await tokenizer.countTokens('text', 'other')).toBe(100);
+  });
+
+  it('clamps the factor and ignores unusable samples', () => {
+    const calibration = new TokenCalibration();
+    calibration.record('m', 300, 3000);
+    calibration.record('m', 0, 100);
+    calibration.record('m', 100, Number.NaN);
+
+    expect(calibration.getFactor('m')).toBe(2);
+  });
+
+  it('learns from completion tokens reported on model responses', async () => {
+    const service = new HistoryService();
+    const answer = 'word '.repeat(300);
+    const estimated = await getTokenizerFamily(
+      'llama-4-maverick',
+    ).tokenizer.countTokens(answer, 'llama-4-maverick');
+
+    service.add(
+      {
+        speaker: 'ai',
+        blocks: [{ type: 'text', text: answer }],
+        metadata: {
+          usage: {
+            promptTokens: 1000,
+            completionTokens: estimated * 1.5,
+            totalTokens: 1000 + estimated * 1.5,
+          },
+        },
+      },
+      'llama-4-maverick',
+    );
+    await service.waitForTokenUpdates();
+
+    expect(tokenCalibration.getFactor('llama-4-maverick')).toBeCloseTo(1.5);
+    expect(tokenCalibration.getFactor('gpt-4.1')).toBe(1);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AnthropicTokenizer } from './AnthropicTokenizer.js';
+import { ITokenizer } from './ITokenizer.js';
+import { OpenAITokenizer } from './OpenAITokenizer.js';
+import { PretrainedTokenizer } from './PretrainedTokenizer.js';
+import { CalibratedTokenizer } from './TokenCalibration.js';
+
+export interface TokenizerFamily {
+  name: string;
+  /** Matched against the lower-cased model name */
+  pattern: RegExp;
+  /**
+   * Whether counts match the provider's own tokenizer. Other families are
+   * estimated, and their estimates are calibrated from reported usage.
+   */
+  exact: boolean;
+  /** Uncalibrated tokenizer for the family */
+  tokenizer: ITokenizer;
+}
+
+const openAITokenizer = new OpenAITokenizer();
+
+/**
+ * Families in match order. Apart from Anthropic, whose tokenizer is not
+ * published, each family counts with its own vocabulary. Distilled models
+ * name both families (e.g. deepseek-r1-distill-qwen) and use the tokenizer
+ * of the base model, so the base families come first.
+ */
+const TOKENIZER_FAMILIES: TokenizerFamily[] = [
+  {
+    name: 'anthropic',
+    pattern: /claude|anthropic/,
+    exact: false,
+    tokenizer: new AnthropicTokenizer(),
+  },
+  {
+    // Qwen2, Qwen2.5, Qwen3 and QwQ share one byte-level BPE vocabulary
+    name: 'qwen',
+    pattern: /qwen|qwq/,
+    exact: true,
+    tokenizer: new PretrainedTokenizer(
+      'qwen3',
+      () => import('@lenml/tokenizer-qwen3'),
+    ),
+  },
+  {
+    name: 'llama3',
+    pattern: /llama-?3/,
+    exact: true,
+    tokenizer: new PretrainedTokenizer(
+      'llama3_1',
+      () => import('@lenml/tokenizer-llama3_1'),
+    ),
+  },
+  {
+    // Mistral 7B and Mixtral 8x7B share a 32k SentencePiece vocabulary,
+    // which the @lenml/tokenizer-llama2 package ships
+    name: 'mistral',
+    pattern: /mistral-7b|mixtral/,
+    exact: true,
+    tokenizer: new PretrainedTokenizer(
+      'mistral',
+      () => import('@lenml/tokenizer-llama2'),
+    ),
+  },
+  {
+    // DeepSeek V3 and R1
+    name: 'deepseek',
+    pattern: /deepseek/,
+    exact: true,
+    tokenizer: new PretrainedTokenizer(
+      'deepseek_v3',
+      () => import('@lenml/tokenizer-deepseek_v3'),
+    ),
+  },
+  {
+    // Gemini 1.x and Gemma 1 and 2 use the 256k vocabulary
+    name: 'gemma2',
+    pattern: /gemini-1|gemma-?[12](?!\d)/,
+    exact: true,
+    tokenizer: new PretrainedTokenizer(
+      'gemini',
+      () => import('@lenml/tokenizer-gemini'),
+    ),
+  },
+  {
+    // Later Gemini models and Gemma 3 use the 262k vocabulary
+    name: 'gemini',
+    pattern: /gemini|gemma/,
+    exact: true,
+    tokenizer: new PretrainedTokenizer(
+      'gemma3',
+      () => import('@lenml/tokenizer-gemma3'),
+    ),
+  },
+  {
+    name: 'openai',
+    pattern: /gpt|openai|(^|\/)o\d/,
+    exact: true,
+    tokenizer: openAITokenizer,
+  },
+];
+
+/** Used for models no family claims; counted as a calibrated estimate */
+const DEFAULT_FAMILY: TokenizerFamily = {
+  name: 'default',
+  pattern: /.*/,
+  exact: false,
+  tokenizer: openAITokenizer,
+};
+
+const calibratedTokenizers = new Map<string, ITokenizer>();
+
+/**
+ * Get the tokenizer family for a model name
+ */
+export function getTokenizerFamily(model: string): TokenizerFamily {
+  const name = model.toLowerCase();
+  return (
+    TOKENIZER_FAMILIES.find((family) => family.pattern.test(name)) ??
+    DEFAULT_FAMILY
+  );
+}
+
+/**
+ * Get the tokenizer to count tokens for a model with. Families without an
+ * exact tokenizer get one that applies the model's calibration factor.
+ */
+export function getTokenizerForModel(model: string): ITokenizer {
+  const family = getTokenizerFamily(model);
+  if (family.exact) {
+    return family.tokenizer;
+  }
+  let tokenizer = calibratedTokenizers.get(family.name);
+  if (!tokenizer) {
+    tokenizer = new CalibratedTokenizer(family.tokenizer);
+    calibratedTokenizers.set(family.name, tokenizer);
+  }
+  return tokenizer;
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ResourceRegistry,
+  resourceContentsToParts,
+} from './resource-registry.js';
+
+describe('ResourceRegistry', () => {
+  const read = vi.fn(async (uri: string) => ({
+    contents: [{ uri, text: 'content' }],
+  }));
+  const readRows = vi.fn(async (uri: string) => ({
+    contents: [{ uri, text: 'rows' }],
+  }));
+
+  it('reads unlisted URIs through the template that matches them', async () => {
+    const registry = new ResourceRegistry();
+    registry.setServerResources(
+      'docs',
+      [{ uri: 'docs://api.md', name: 'API', serverName: 'docs', read }],
+      [],
+    );
+    registry.setServerResources(
+      'db',
+      [],
+      [
+        {
+          uriTemplate: 'db://schema/{table}',
+          name: 'Table schema',
+          serverName: 'db',
+          read,
+        },
+        {
+          uriTemplate: 'db://rows/{table}{?limit}',
+          name: 'Table rows',
+          serverName: 'db',
+          read: readRows,
+        },
+      ],
+    );
+
+    await registry.readResource('docs', 'docs://api.md');
+    await registry.readResource('db', 'db://schema/users');
+    expect(read).toHaveBeenCalledWith('db://schema/users');
+    await registry.readResource('db', 'db://rows/users?limit=5');
+    expect(readRows).toHaveBeenCalledWith('db://rows/users?limit=5');
+    await expect(
+      registry.readResource('db', 'db://schema/users/columns'),
+    ).rejects.toThrow(
+      "MCP server 'db' has no resource 'db://schema/users/columns', and none of its resource templates match it.",
+    );
+    await expect(
+      registry.readResource('docs', 'docs://missing.md'),
+    ).rejects.toThrow("MCP server 'docs' has no resource 'docs://missing.md'");
+    await expect(registry.readResource('jira', 'x://y')).rejects.toThrow(
+      "MCP server 'jira' has no resources.",
+    );
+    expect(registry.getServerNames()).toEqual(['db', 'docs']);
+
+    registry.removeResourcesByServer('db');
+    expect(registry.getServerNames()).toEqual(['docs']);
+  });
+});
+
+describe('resourceContentsToParts', () => {
+  it('labels text and sends only media inline', () => {
+    expect(
+      resourceContentsToParts({
+        contents: [
+          { uri: 'docs://api.md', mimeType: 'text/markdown', text: '# API' },
+          { uri: 'img://logo', mimeType: 'image/png', blob: 'aGVsbG8=' },
+          { uri: 'bin://data', blob: 'aGVsbG8h' },
+        ],
+      }),
+    ).toEqual([
+      { text: 'Content of docs://api.md (text/markdown):\n# API' },
+      { text: 'Content of img://logo (image/png):' },
+      { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } },
+      {
+        text: 'Content of bin://data:\n[Binary content of about 6 bytes not shown]',
+      },
+    ]);
+  });
+});
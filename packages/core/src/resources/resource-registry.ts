@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Part } from '@google/genai';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type {
+  DiscoveredMCPResource,
+  DiscoveredMCPResourceTemplate,
+} from '../tools/mcp-client.js';
+
+/** Blob MIME types the model can take as inline data */
+const INLINE_MIME_TYPE = /^(image|audio|video)\/|^application\/pdf$/;
+
+function matchesUriTemplate(uriTemplate: string, uri: string): boolean {
+  try {
+    return new UriTemplate(uriTemplate).match(uri) !== null;
+  } catch {
+    // A server may advertise a template the parser rejects
+    return false;
+  }
+}
+
+export class ResourceRegistry {
+  private resources: Map<string, DiscoveredMCPResource[]> = new Map();
+  private templates: Map<string, DiscoveredMCPResourceTemplate[]> = new Map();
+
+  /**
+   * Replaces the resources and resource templates of a server.
+   */
+  setServerResources(
+    serverName: string,
+    resources: DiscoveredMCPResource[],
+    templates: DiscoveredMCPResourceTemplate[],
+  ): void {
+    this.resources.set(serverName, resources);
+    this.templates.set(serverName, templates);
+  }
+
+  /**
+   * Returns the names of the servers that have resources or templates.
+   */
+  getServerNames(): string[] {
+    return Array.from(
+      new Set([...this.resources.keys(), ...this.templates.keys()]),
+    )
+      .filter(
+        (serverName) =>
+          this.getResourcesByServer(serverName).length > 0 ||
+          this.getResourceTemplatesByServer(serverName).length > 0,
+      )
+      .sort();
+  }
+
+  /**
+   * Returns all resources, ordered by server and URI.
+   */
+  getAllResources(): DiscoveredMCPResource[] {
+    return this.getServerNames().flatMap((serverName) =>
+      this.getResourcesByServer(serverName),
+    );
+  }
+
+  getResourcesByServer(serverName: string): DiscoveredMCPResource[] {
+    return [...(this.resources.get(serverName) ?? [])].sort((a, b) =>
+      a.uri.localeCompare(b.uri),
+    );
+  }
+
+  getResourceTemplatesByServer(
+    serverName: string,
+  ): DiscoveredMCPResourceTemplate[] {
+    return [...(this.templates.get(serverName) ?? [])].sort((a, b) =>
+      a.uriTemplate.localeCompare(b.uriTemplate),
+    );
+  }
+
+  /**
+   * Reads a resource. URIs that are not listed are read through the
+   * server's first resource template whose URI template matches them.
+   */
+  async readResource(
+    serverName: string,
+    uri: string,
+  ): Promise<ReadResourceResult> {
+    const resource = this.resources
+      .get(serverName)
+      ?.find((candidate) => candidate.uri === uri);
+    if (resource) {
+      return resource.read();
+    }
+    const template = this.getResourceTemplatesByServer(serverName).find(
+      (candidate) => matchesUriTemplate(candidate.uriTemplate, uri),
+    );
+    if (template) {
+      return template.read(uri);
+    }
+    throw new Error(
+      this.getServerNames().includes(serverName)
+        ? `MCP server '${serverName}' has no resource '${uri}', and none of its resource templates match it.`
+        : `MCP server '${serverName}' has no resources.`,
+    );
+  }
+
+  /**
+   * Clears all the resources from the registry.
+   */
+  clear(): void {
+    this.resources.clear();
+    this.templates.clear();
+  }
+
+  /**
+   * Removes all resources from a specific server.
+   */
+  removeResourcesByServer(serverName: string): void {
+    this.resources.delete(serverName);
+    this.templates.delete(serverName);
+  }
+}
+
+/**
+ * Converts the contents of a resource into parts for the model. Text is
+ * labelled with its URI; media the model understands is sent inline and
+ * other binary contents are described rather than sent.
+ */
+export function resourceContentsToParts(result: ReadResourceResult): Part[] {
+  return result.contents.flatMap((content): Part[] => {
+    const label = `Content of ${content.uri}${
+      content.mimeType ? ` (${content.mimeType})` : ''
+    }:`;
+    if ('text' in content && typeof content.text === 'string') {
+      return [{ text: `${label}\n${content.text}` }];
+    }
+    const blob = 'blob' in content ? String(content.blob) : '';
+    if (content.mimeType && INLINE_MIME_TYPE.test(content.mimeType)) {
+      return [
+        { text: label },
+        { inlineData: { mimeType: content.mimeType, data: blob } },
+      ];
+    }
+    const bytes = Math.floor((blob.length * 3) / 4);
+    return [
+      { text: `${label}\n[Binary content of about ${bytes} bytes not shown]` },
+    ];
+  });
+}
@@ -19,6 +19,12 @@ export interface ReadonlySettingsSnapshot {
   contextLimit?: number;
   /** Preserve threshold for compression (0.0-1.0), default 0.2 */
   preserveThreshold?: number;
+  /** Compression strategy name, default 'summarize' */
+  compressionStrategy?: string;
+  /** Provider used only for compression summaries, optional */
+  compressionProvider?: string;
+  /** Model used only for compression summaries, optional */
+  compressionModel?: string;
   /** Override for tool format string, optional */
   toolFormatOverride?: string;
   /** Telemetry configuration */
@@ -167,6 +173,9 @@ export interface AgentRuntimeContext {
     compressionThreshold(): number;
     contextLimit(): number;
     preserveThreshold(): number;
+    compressionStrategy(): string;
+    compressionProvider(): string | undefined;
+    compressionModel(): string | undefined;
     toolFormatOverride(): string | undefined;
   };
 
@@ -218,6 +227,10 @@ export interface AgentRuntimeContextFactoryOptions {
 import type { AgentRuntimeState } from './AgentRuntimeState.js';
 import type { HistoryService } from '../services/history/HistoryService.js';
 import type { IProvider } from '../providers/IProvider.js';
+import type {
+  ProviderFailoverEvent,
+  ProviderFailoverTarget,
+} from '../providers/failover.js';
 import type { GenerateContentResponseUsageMetadata } from '@google/genai';
 import type { ProviderRuntimeContext } from './providerRuntimeContext.js';
 
@@ -227,6 +240,12 @@ import type { ProviderRuntimeContext } from './providerRuntimeContext.js';
 export interface AgentRuntimeProviderAdapter {
   getActiveProvider(): IProvider;
   setActiveProvider(name: string): void;
+  /** Looks up a registered provider without activating it (optional) */
+  getProviderByName?(name: string): IProvider | undefined;
+  /** Providers to retry on when the active provider fails (optional) */
+  getFailoverTargets?(): ProviderFailoverTarget[];
+  /** Records a failover so it can be surfaced in status output (optional) */
+  recordProviderFailover?(event: ProviderFailoverEvent): void;
 }
 
 /**
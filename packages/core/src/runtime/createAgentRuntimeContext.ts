@@ -19,11 +19,13 @@ import type {
 } from './AgentRuntimeContext.js';
 import type { ProviderRuntimeContext } from './providerRuntimeContext.js';
 import { tokenLimit } from '../core/tokenLimits.js';
+import { DEFAULT_COMPRESSION_STRATEGY } from '../core/compressionStrategies.js';
 
 const EPHEMERAL_DEFAULTS = {
   compressionThreshold: 0.8,
   contextLimit: 60_000,
   preserveThreshold: 0.2,
+  compressionStrategy: DEFAULT_COMPRESSION_STRATEGY,
 } as const;
 
 export function createAgentRuntimeContext(
@@ -72,6 +74,13 @@ export function createAgentRuntimeContext(
     preserveThreshold: (): number =>
       options.settings.preserveThreshold ??
       EPHEMERAL_DEFAULTS.preserveThreshold,
+    compressionStrategy: (): string =>
+      options.settings.compressionStrategy ??
+      EPHEMERAL_DEFAULTS.compressionStrategy,
+    compressionProvider: (): string | undefined =>
+      options.settings.compressionProvider,
+    compressionModel: (): string | undefined =>
+      options.settings.compressionModel,
     toolFormatOverride: (): string | undefined =>
       options.settings.toolFormatOverride,
   };
@@ -48,6 +48,9 @@ export function createProviderAdapterFromManager(
   return {
     getActiveProvider: () => manager.getActiveProvider(),
     setActiveProvider: (name: string) => manager.setActiveProvider(name),
+    getProviderByName: (name: string) => manager.getProviderByName?.(name),
+    getFailoverTargets: () => manager.getFailoverTargets?.() ?? [],
+    recordProviderFailover: (event) => manager.recordProviderFailover?.(event),
   };
 }
 
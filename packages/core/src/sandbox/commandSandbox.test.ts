@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CommandSandbox, CommandSandboxError } from './commandSandbox.js';
+import type { Config, ToolSandboxSettings } from '../config/config.js';
+
+describe('CommandSandbox', () => {
+  let binDir: string;
+  let workspaceDir: string;
+  let trusted: boolean;
+
+  const createSandbox = (settings: ToolSandboxSettings) =>
+    new CommandSandbox(
+      {
+        isTrustedFolder: () => trusted,
+        getTargetDir: () => workspaceDir,
+        getWorkspaceContext: () => ({ getDirectories: () => [workspaceDir] }),
+        getSandbox: () => undefined,
+      } as unknown as Config,
+      { enabled: true, ...settings },
+    );
+
+  const installFakeProgram = (name: string) => {
+    const programPath = path.join(binDir, name);
+    fs.writeFileSync(programPath, '#!/bin/sh\n');
+    fs.chmodSync(programPath, 0o755);
+  };
+
+  beforeEach(() => {
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-bin-'));
+    workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-ws-'));
+    trusted = true;
+    vi.stubEnv('PATH', binDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(binDir, { recursive: true, force: true });
+    fs.rmSync(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('sandboxes chains where any command matches the patterns', () => {
+    const sandbox = createSandbox({ commands: ['npm', '!npm run lint'] });
+
+    expect(sandbox.shouldSandboxCommand('npm install')).toBe(true);
+    expect(sandbox.shouldSandboxCommand('git status && npm test')).toBe(true);
+    expect(sandbox.shouldSandboxCommand('npm run lint')).toBe(false);
+    expect(sandbox.shouldSandboxCommand('git status')).toBe(false);
+  });
+
+  it('sandboxes wrapped commands and commands that cannot be told', () => {
+    const sandbox = createSandbox({ commands: ['curl'] });
+
+    expect(sandbox.shouldSandboxCommand('git status')).toBe(false);
+    expect(sandbox.shouldSandboxCommand('sudo curl example.com')).toBe(true);
+    expect(sandbox.shouldSandboxCommand('x && sh -c "curl example.com"')).toBe(
+      true,
+    );
+    expect(sandbox.shouldSandboxCommand('echo "$(curl example.com)"')).toBe(
+      true,
+    );
+    expect(sandbox.shouldSandboxCommand('nice make')).toBe(true);
+    expect(sandbox.shouldSandboxCommand('$FETCH example.com')).toBe(true);
+    expect(sandbox.shouldSandboxCommand('cat script | bash')).toBe(true);
+  });
+
+  it('sandboxes every command in folders that are not trusted', () => {
+    const sandbox = createSandbox({
+      commands: ['!git'],
+      discoveredTools: false,
+    });
+    expect(sandbox.shouldSandboxCommand('git status')).toBe(false);
+    expect(sandbox.shouldSandboxDiscoveredTools()).toBe(false);
+
+    trusted = false;
+    expect(sandbox.shouldSandboxCommand('git status')).toBe(true);
+    expect(sandbox.shouldSandboxDiscoveredTools()).toBe(true);
+  });
+
+  it.skipIf(os.platform() === 'win32')(
+    'wraps commands with bwrap, binding only the writable paths',
+    () => {
+      installFakeProgram('bwrap');
+      const sandbox = createSandbox({ command: 'bwrap' });
+
+      const args = sandbox.wrapArgs(['echo', 'hi'], workspaceDir);
+
+      expect(args.slice(0, 6)).toEqual([
+        'bwrap',
+        '--die-with-parent',
+        '--ro-bind',
+        '/',
+        '/',
+        '--dev',
+      ]);
+      expect(args).toContain('--unshare-net');
+      expect(args.join(' ')).toContain(
+        `--bind-try ${workspaceDir} ${workspaceDir}`,
+      );
+      expect(args.slice(-5)).toEqual([
+        '--chdir',
+        workspaceDir,
+        '--',
+        'echo',
+        'hi',
+      ]);
+      expect(sandbox.wrapShellCommand('echo "a b"', workspaceDir)).toMatch(
+        /-- bash -c 'echo "a b"'$/,
+      );
+    },
+  );
+
+  it.skipIf(os.platform() === 'win32')(
+    'keeps the network when the settings allow it',
+    () => {
+      installFakeProgram('bwrap');
+      const sandbox = createSandbox({ command: 'bwrap', network: true });
+
+      expect(sandbox.wrapArgs(['true'], workspaceDir)).not.toContain(
+        '--unshare-net',
+      );
+    },
+  );
+
+  it.skipIf(os.platform() === 'win32')(
+    'fails when no sandbox is available or the container has no image',
+    () => {
+      expect(() =>
+        createSandbox({ command: 'bwrap' }).wrapArgs(['true'], workspaceDir),
+      ).toThrow(CommandSandboxError);
+
+      installFakeProgram('docker');
+      expect(() =>
+        createSandbox({ command: 'docker' }).wrapArgs(['true'], workspaceDir),
+      ).toThrow(/toolSandbox.image/);
+
+      const args = createSandbox({
+        command: 'docker',
+        image: 'node:20',
+      }).wrapArgs(['true'], workspaceDir);
+      expect(args.slice(0, 3)).toEqual(['docker', 'run', '--rm']);
+      expect(args).toContain(`${workspaceDir}:${workspaceDir}`);
+      expect(args.slice(-2)).toEqual(['node:20', 'true']);
+    },
+  );
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { quote } from 'shell-quote';
+import type { Config, ToolSandboxSettings } from '../config/config.js';
+import { DebugLogger } from '../debug/index.js';
+import { matchesCommandWords } from '../policy/toolPolicy.js';
+import { parseShellCommand, stripShellWrapper } from '../utils/shell-utils.js';
+
+export type CommandSandboxBackend =
+  | 'bwrap'
+  | 'sandbox-exec'
+  | 'docker'
+  | 'podman';
+
+/** Backends tried in order when the settings do not name one */
+const BACKENDS_BY_PLATFORM: Partial<
+  Record<NodeJS.Platform, CommandSandboxBackend[]>
+> = {
+  linux: ['bwrap', 'docker', 'podman'],
+  darwin: ['sandbox-exec', 'docker', 'podman'],
+};
+
+const logger = new DebugLogger('llxprt:sandbox');
+
+export class CommandSandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandSandboxError';
+  }
+}
+
+function isOnPath(program: string): boolean {
+  return (process.env['PATH'] ?? '')
+    .split(path.delimiter)
+    .filter(Boolean)
+    .some((dir) => {
+      try {
+        fs.accessSync(path.join(dir, program), fs.constants.X_OK);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+}
+
+function realpathOrSelf(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+/** Escapes a string for use in a seatbelt profile literal */
+const seatbeltString = (value: string): string =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Runs individual commands in an ephemeral sandbox while the rest of the CLI
+ * stays on the host. The sandbox mounts the file system read-only except
+ * for the workspace directories, the temp directory and any configured
+ * writable paths, and has no network access unless the settings allow it.
+ */
+export class CommandSandbox {
+  private detectedBackend: CommandSandboxBackend | null | undefined;
+
+  constructor(
+    private readonly config: Config,
+    private readonly settings: ToolSandboxSettings,
+  ) {}
+
+  /**
+   * Whether a shell command has to run in the sandbox. In folders that are
+   * not trusted every command does; otherwise a chain is sandboxed when any
+   * of its commands matches the `commands` patterns, or when no patterns
+   * are given. Commands matching a `!` pattern run on the host. Commands run
+   * through wrappers such as `sudo` or `sh -c`, and chains whose commands
+   * cannot all be told, are always sandboxed.
+   */
+  shouldSandboxCommand(command: string): boolean {
+    if (!this.config.isTrustedFolder()) {
+      return true;
+    }
+    const patterns = this.settings.commands ?? [];
+    const included = patterns.filter((pattern) => !pattern.startsWith('!'));
+    const excluded = patterns
+      .filter((pattern) => pattern.startsWith('!'))
+      .map((pattern) => pattern.slice(1));
+    const { invocations, complete } = parseShellCommand(
+      stripShellWrapper(command),
+    );
+    return (
+      !complete ||
+      invocations.some(
+        ({ words, wrapped }) =>
+          wrapped ||
+          ((included.length === 0 || matchesCommandWords(included, words)) &&
+            !matchesCommandWords(excluded, words)),
+      )
+    );
+  }
+
+  /** Whether tools discovered from the project run in the sandbox */
+  shouldSandboxDiscoveredTools(): boolean {
+    return (
+      !this.config.isTrustedFolder() || this.settings.discoveredTools !== false
+    );
+  }
+
+  /**
+   * The backend commands run in: the one named in the settings, or the
+   * first one available on this platform. Undefined when none is available.
+   */
+  getBackend(): CommandSandboxBackend | undefined {
+    if (this.detectedBackend === undefined) {
+      const candidates = this.settings.command
+        ? [this.settings.command]
+        : (BACKENDS_BY_PLATFORM[os.platform()] ?? []);
+      this.detectedBackend =
+        candidates.find((backend) => isOnPath(backend)) ?? null;
+      logger.debug(
+        () => `Command sandbox backend: ${this.detectedBackend ?? '(none)'}`,
+      );
+    }
+    return this.detectedBackend ?? undefined;
+  }
+
+  /**
+   * Returns the argv that runs `argv` in the sandbox with `cwd` as its
+   * working directory. Throws a {@link CommandSandboxError} when no
+   * sandbox backend is available.
+   */
+  wrapArgs(argv: string[], cwd: string): string[] {
+    if (os.platform() === 'win32') {
+      throw new CommandSandboxError(
+        'Sandboxed commands are not supported on Windows.',
+      );
+    }
+    const backend = this.getBackend();
+    if (!backend) {
+      throw new CommandSandboxError(
+        this.settings.command
+          ? `Sandbox command '${this.settings.command}' was not found.`
+          : 'No sandbox is available to run the command in. Install bubblewrap (bwrap), docker or podman, or set toolSandbox.command.',
+      );
+    }
+    const writablePaths = this.getWritablePaths(cwd);
+    switch (backend) {
+      case 'bwrap':
+        return this.bwrapArgs(argv, cwd, writablePaths);
+      case 'sandbox-exec':
+        return this.seatbeltArgs(argv, writablePaths);
+      case 'docker':
+      case 'podman':
+        return this.containerArgs(backend, argv, cwd, writablePaths);
+      default:
+        throw new CommandSandboxError(`Unknown sandbox command '${backend}'.`);
+    }
+  }
+
+  /** Returns a shell command that runs `command` with bash in the sandbox */
+  wrapShellCommand(command: string, cwd: string): string {
+    return quote(this.wrapArgs(['bash', '-c', command], cwd));
+  }
+
+  private getWritablePaths(cwd: string): string[] {
+    const configured = (this.settings.writablePaths ?? []).map((filePath) =>
+      filePath.startsWith('~/')
+        ? path.join(os.homedir(), filePath.slice(2))
+        : path.resolve(this.config.getTargetDir(), filePath),
+    );
+    return [
+      ...new Set([
+        cwd,
+        ...this.config.getWorkspaceContext().getDirectories(),
+        os.tmpdir(),
+        ...configured,
+      ]),
+    ];
+  }
+
+  private bwrapArgs(
+    argv: string[],
+    cwd: string,
+    writablePaths: string[],
+  ): string[] {
+    return [
+      'bwrap',
+      '--die-with-parent',
+      '--ro-bind',
+      '/',
+      '/',
+      '--dev',
+      '/dev',
+      '--proc',
+      '/proc',
+      '--unshare-ipc',
+      '--unshare-uts',
+      ...(this.settings.network ? [] : ['--unshare-net']),
+      ...writablePaths.flatMap((filePath) => [
+        '--bind-try',
+        filePath,
+        filePath,
+      ]),
+      '--chdir',
+      cwd,
+      '--',
+      ...argv,
+    ];
+  }
+
+  private seatbeltArgs(argv: string[], writablePaths: string[]): string[] {
+    const writable = writablePaths
+      .map(
+        (filePath) => `(subpath ${seatbeltString(realpathOrSelf(filePath))})`,
+      )
+      .join(' ');
+    const profile = [
+      '(version 1)',
+      '(allow default)',
+      '(deny file-write*)',
+      `(allow file-write* ${writable} (literal "/dev/null") (regex #"^/dev/tty") (regex #"^/dev/fd/"))`,
+      ...(this.settings.network ? [] : ['(deny network-outbound (remote ip))']),
+    ].join('\n');
+    return ['sandbox-exec', '-p', profile, ...argv];
+  }
+
+  private containerArgs(
+    backend: 'docker' | 'podman',
+    argv: string[],
+    cwd: string,
+    writablePaths: string[],
+  ): string[] {
+    const image = this.settings.image ?? this.config.getSandbox()?.image;
+    if (!image) {
+      throw new CommandSandboxError(
+        `Set toolSandbox.image to run commands with ${backend}.`,
+      );
+    }
+    const user =
+      backend === 'podman'
+        ? ['--userns=keep-id']
+        : process.getuid && process.getgid
+          ? ['--user', `${process.getuid()}:${process.getgid()}`]
+          : [];
+    return [
+      backend,
+      'run',
+      '--rm',
+      '-i',
+      '--init',
+      ...(this.settings.network ? [] : ['--network', 'none']),
+      ...user,
+      // Docker creates missing mount sources as root-owned directories
+      ...writablePaths
+        .filter((filePath) => fs.existsSync(filePath))
+        .flatMap((filePath) => ['--volume', `${filePath}:${filePath}`]),
+      '--workdir',
+      cwd,
+      '--env',
+      'LLXPRT_CODE=1',
+      '--env',
+      'TERM=xterm-256color',
+      '--env',
+      'PAGER=cat',
+      image,
+      ...argv,
+    ];
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { IContent } from './IContent.js';
+import {
+  parseTranscript,
+  parseTranscriptFormat,
+  renderTranscript,
+} from './ConversationTranscript.js';
+
+const history: IContent[] = [
+  { speaker: 'human', blocks: [{ type: 'text', text: 'Rename <foo> to bar' }] },
+  {
+    speaker: 'ai',
+    blocks: [
+      { type: 'thinking', thought: 'Use the replace tool.' },
+      { type: 'text', text: 'Updating the file.' },
+      {
+        type: 'tool_call',
+        id: 'call-1',
+        name: 'replace',
+        parameters: {
+          file_path: 'src/a.ts',
+          old_string: 'const foo = 1;',
+          new_string: 'const bar = 1;',
+        },
+      },
+    ],
+    metadata: { model: 'gpt-4.1' },
+  },
+  {
+    speaker: 'tool',
+    blocks: [
+      {
+        type: 'tool_response',
+        callId: 'call-1',
+        toolName: 'replace',
+        result: { output: 'Uses ``` fences' },
+      },
+    ],
+  },
+  { speaker: 'ai', blocks: [{ type: 'text', text: '   ' }] },
+];
+
+const metadata = {
+  provider: 'openai',
+  model: 'gpt-4.1',
+  exportedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('ConversationTranscript', () => {
+  it('should resolve format names and aliases', () => {
+    expect(parseTranscriptFormat('MD')).toBe('markdown');
+    expect(parseTranscriptFormat('html')).toBe('html');
+    expect(parseTranscriptFormat('yaml')).toBeUndefined();
+  });
+
+  it('should render markdown with thinking, diffs and tool results', () => {
+    const markdown = renderTranscript(history, 'markdown', metadata);
+
+    expect(markdown).toContain(
+      '_Exported 2025-01-01T00:00:00.000Z · openai:gpt-4.1_',
+    );
+    expect(markdown).toContain('## User\n\nRename <foo> to bar');
+    expect(markdown).toContain('## Assistant (gpt-4.1)');
+    expect(markdown).toContain(
+      '<details>\n<summary>Thinking</summary>\n\nUse the replace tool.',
+    );
+    expect(markdown).toMatch(
+      /```diff\n[\s\S]*-const foo = 1;\n\+const bar = 1;/,
+    );
+    // Output containing a fence is wrapped in a longer one
+    expect(markdown).toContain('````\nUses ``` fences\n````');
+    // Empty AI turns are left out
+    expect(markdown.match(/## Assistant/g)).toHaveLength(1);
+  });
+
+  it('should render self-contained, escaped HTML', () => {
+    const html = renderTranscript(history, 'html', metadata);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<script|<link/);
+    expect(html).toContain('Rename &lt;foo&gt; to bar');
+    expect(html).toContain('<span class="del">-const foo = 1;</span>');
+    expect(html).toContain('<span class="add">+const bar = 1;</span>');
+    expect(html).toContain('<details class="thinking">');
+  });
+
+  it('should round-trip JSON transcripts', () => {
+    const json = renderTranscript(history, 'json', metadata);
+    const transcript = parseTranscript(json);
+
+    expect(transcript.metadata).toEqual(metadata);
+    expect(transcript.history).toEqual(history.slice(0, 3));
+  });
+
+  it('should reject files that are not transcripts', () => {
+    expect(() => parseTranscript('{')).toThrow('not valid JSON');
+    expect(() => parseTranscript('[]')).toThrow(
+      'not an LLxprt Code JSON transcript',
+    );
+    expect(() =>
+      parseTranscript(
+        JSON.stringify({
+          format: 'llxprt-transcript',
+          version: 1,
+          metadata: {},
+          history: [{ speaker: 'robot', blocks: [] }],
+        }),
+      ),
+    ).toThrow('Transcript message 1 is malformed.');
+  });
+});
@@ -0,0 +1,425 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as Diff from 'diff';
+import {
+  ContentBlock,
+  ContentValidation,
+  IContent,
+  MediaBlock,
+  ToolCallBlock,
+  ToolResponseBlock,
+} from './IContent.js';
+import { DEFAULT_DIFF_OPTIONS } from '../../tools/diffOptions.js';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FORMATS: readonly TranscriptFormat[] = [
+  'markdown',
+  'html',
+  'json',
+];
+
+/**
+ * Version written into JSON transcripts
+ */
+export const TRANSCRIPT_FILE_VERSION = 1;
+
+export interface TranscriptMetadata {
+  title?: string;
+  provider?: string;
+  model?: string;
+  sessionId?: string;
+  /** ISO timestamp; defaults to the time of export */
+  exportedAt?: string;
+}
+
+/**
+ * JSON transcript. Holds the IContent history unchanged so it can be
+ * imported back into a session.
+ */
+export interface ConversationTranscript {
+  format: 'llxprt-transcript';
+  version: typeof TRANSCRIPT_FILE_VERSION;
+  metadata: TranscriptMetadata & { exportedAt: string };
+  history: IContent[];
+}
+
+const FORMAT_ALIASES: Record<string, TranscriptFormat> = {
+  markdown: 'markdown',
+  md: 'markdown',
+  html: 'html',
+  htm: 'html',
+  json: 'json',
+};
+
+const FORMAT_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+  json: '.json',
+};
+
+/**
+ * Resolves a user supplied format name such as "md" or "HTML"
+ */
+export function parseTranscriptFormat(
+  name: string,
+): TranscriptFormat | undefined {
+  return FORMAT_ALIASES[name.trim().toLowerCase()];
+}
+
+export function getTranscriptExtension(format: TranscriptFormat): string {
+  return FORMAT_EXTENSIONS[format];
+}
+
+/**
+ * Drops AI turns that carry nothing worth showing, mirroring the curated
+ * history sent to providers.
+ */
+function curate(history: IContent[]): IContent[] {
+  return history.filter(
+    (content) =>
+      content.speaker !== 'ai' || ContentValidation.hasContent(content),
+  );
+}
+
+function stringifyResult(response: ToolResponseBlock): string {
+  const { result } = response;
+  if (typeof result === 'string') {
+    return result;
+  }
+  if (
+    result &&
+    typeof result === 'object' &&
+    'output' in result &&
+    typeof result.output === 'string'
+  ) {
+    return result.output;
+  }
+  return result === undefined ? '' : JSON.stringify(result, null, 2);
+}
+
+/**
+ * Unified diff for file editing tool calls, so the change reads as a diff
+ * instead of two JSON strings.
+ */
+function toolCallDiff(call: ToolCallBlock): string | undefined {
+  const params = call.parameters as Record<string, unknown> | undefined;
+  if (
+    !params ||
+    typeof params['old_string'] !== 'string' ||
+    typeof params['new_string'] !== 'string'
+  ) {
+    return undefined;
+  }
+  const filePath =
+    typeof params['file_path'] === 'string' ? params['file_path'] : 'file';
+  // Snippets rarely end in a newline; add one so the patch is not cluttered
+  // with "No newline at end of file" markers
+  const withNewline = (text: string) =>
+    text.endsWith('\n') ? text : `${text}\n`;
+  return Diff.createPatch(
+    filePath,
+    withNewline(params['old_string']),
+    withNewline(params['new_string']),
+    'Current',
+    'Proposed',
+    DEFAULT_DIFF_OPTIONS,
+  );
+}
+
+function looksLikeDiff(text: string): boolean {
+  return /^@@ .* @@/m.test(text) && /^(---|\+\+\+) /m.test(text);
+}
+
+function speakerLabel(content: IContent): string {
+  switch (content.speaker) {
+    case 'human':
+      return 'User';
+    case 'ai':
+      return content.metadata?.model
+        ? `Assistant (${content.metadata.model})`
+        : 'Assistant';
+    default:
+      return 'Tool';
+  }
+}
+
+function describeMedia(block: MediaBlock): string {
+  return block.caption || block.filename || block.mimeType;
+}
+
+/**
+ * Fences content with more backticks than it contains, so code inside the
+ * transcript can never close the block early.
+ */
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`;
+}
+
+function markdownBlock(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text.trim();
+    case 'thinking':
+      return `<details>\n<summary>Thinking</summary>\n\n${block.thought.trim()}\n\n</details>`;
+    case 'tool_call': {
+      const diff = toolCallDiff(block);
+      const header = `**Tool call:** \`${block.name}\``;
+      if (diff) {
+        return `${header}\n\n${fence(diff, 'diff')}`;
+      }
+      return `${header}\n\n${fence(JSON.stringify(block.parameters ?? {}, null, 2), 'json')}`;
+    }
+    case 'tool_response': {
+      if (block.error) {
+        return `**Tool error:** \`${block.toolName}\`\n\n${fence(block.error)}`;
+      }
+      const output = stringifyResult(block);
+      return `**Tool result:** \`${block.toolName}\`\n\n${fence(output, looksLikeDiff(output) ? 'diff' : '')}`;
+    }
+    case 'code':
+      return fence(block.code, block.language);
+    case 'media':
+      return block.encoding === 'url'
+        ? `![${describeMedia(block)}](${block.data})`
+        : `_[${block.mimeType} attachment: ${describeMedia(block)}]_`;
+    default:
+      return '';
+  }
+}
+
+function renderMarkdown(
+  history: IContent[],
+  metadata: ConversationTranscript['metadata'],
+): string {
+  const lines = [`# ${metadata.title ?? 'LLxprt Code conversation'}`, ''];
+  const details = [
+    `Exported ${metadata.exportedAt}`,
+    metadata.provider && metadata.model
+      ? `${metadata.provider}:${metadata.model}`
+      : metadata.model,
+    metadata.sessionId ? `session ${metadata.sessionId}` : undefined,
+  ].filter(Boolean);
+  lines.push(`_${details.join(' · ')}_`, '');
+
+  for (const content of history) {
+    const body = content.blocks.map(markdownBlock).filter(Boolean);
+    if (body.length === 0) {
+      continue;
+    }
+    lines.push(`## ${speakerLabel(content)}`, '', body.join('\n\n'), '');
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlPre(content: string, asDiff = false): string {
+  if (!asDiff) {
+    return `<pre>${escapeHtml(content)}</pre>`;
+  }
+  const lines = content.split('\n').map((line) => {
+    const kind = line.startsWith('@@')
+      ? 'hunk'
+      : line.startsWith('+') && !line.startsWith('+++')
+        ? 'add'
+        : line.startsWith('-') && !line.startsWith('---')
+          ? 'del'
+          : '';
+    return kind
+      ? `<span class="${kind}">${escapeHtml(line)}</span>`
+      : escapeHtml(line);
+  });
+  return `<pre class="diff">${lines.join('\n')}</pre>`;
+}
+
+function htmlBlock(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text.trim()
+        ? `<div class="text">${escapeHtml(block.text.trim())}</div>`
+        : '';
+    case 'thinking':
+      return `<details class="thinking"><summary>Thinking</summary>${htmlPre(block.thought.trim())}</details>`;
+    case 'tool_call': {
+      const diff = toolCallDiff(block);
+      return `<div class="tool"><div class="label">Tool call: <code>${escapeHtml(block.name)}</code></div>${
+        diff
+          ? htmlPre(diff, true)
+          : htmlPre(JSON.stringify(block.parameters ?? {}, null, 2))
+      }</div>`;
+    }
+    case 'tool_response': {
+      if (block.error) {
+        return `<div class="tool error"><div class="label">Tool error: <code>${escapeHtml(block.toolName)}</code></div>${htmlPre(block.error)}</div>`;
+      }
+      const output = stringifyResult(block);
+      return `<div class="tool"><div class="label">Tool result: <code>${escapeHtml(block.toolName)}</code></div>${htmlPre(output, looksLikeDiff(output))}</div>`;
+    }
+    case 'code':
+      return htmlPre(block.code);
+    case 'media': {
+      const src =
+        block.encoding === 'url'
+          ? block.data
+          : `data:${block.mimeType};base64,${block.data}`;
+      return block.mimeType.startsWith('image/')
+        ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(describeMedia(block))}">`
+        : `<div class="label">${escapeHtml(block.mimeType)} attachment: ${escapeHtml(describeMedia(block))}</div>`;
+    }
+    default:
+      return '';
+  }
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; background: #fff; }
+header p { color: #59636e; }
+section { border: 1px solid #d1d9e0; border-radius: 6px; margin: 1rem 0; padding: 0.75rem 1rem; }
+section.human { background: #f6f8fa; }
+h2 { font-size: 0.95rem; margin: 0 0 0.5rem; color: #59636e; }
+.text { white-space: pre-wrap; line-height: 1.5; }
+.label { font-size: 0.85rem; color: #59636e; margin: 0.5rem 0 0.25rem; }
+.error .label { color: #d1242f; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.5rem 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+pre .add { color: #116329; background: #dafbe1; }
+pre .del { color: #82071e; background: #ffebe9; }
+pre .hunk { color: #0550ae; }
+details.thinking summary { cursor: pointer; color: #59636e; }
+img { max-width: 100%; }
+`;
+
+function renderHtml(
+  history: IContent[],
+  metadata: ConversationTranscript['metadata'],
+): string {
+  const title = metadata.title ?? 'LLxprt Code conversation';
+  const details = [
+    `Exported ${metadata.exportedAt}`,
+    metadata.provider && metadata.model
+      ? `${metadata.provider}:${metadata.model}`
+      : metadata.model,
+    metadata.sessionId ? `session ${metadata.sessionId}` : undefined,
+  ].filter(Boolean) as string[];
+
+  const sections = history
+    .map((content) => {
+      const body = content.blocks.map(htmlBlock).filter(Boolean);
+      if (body.length === 0) {
+        return '';
+      }
+      return `<section class="${content.speaker}"><h2>${escapeHtml(speakerLabel(content))}</h2>${body.join('\n')}</section>`;
+    })
+    .filter(Boolean);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${escapeHtml(title)}</h1><p>${escapeHtml(details.join(' · '))}</p></header>`,
+    ...sections,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renders history as a shareable transcript. Markdown and HTML are meant for
+ * reading; JSON keeps the full history so it can be imported again.
+ */
+export function renderTranscript(
+  history: IContent[],
+  format: TranscriptFormat,
+  metadata: TranscriptMetadata = {},
+): string {
+  const resolvedMetadata = {
+    ...metadata,
+    exportedAt: metadata.exportedAt ?? new Date().toISOString(),
+  };
+  const curated = curate(history);
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(curated, resolvedMetadata);
+    case 'html':
+      return renderHtml(curated, resolvedMetadata);
+    case 'json': {
+      const transcript: ConversationTranscript = {
+        format: 'llxprt-transcript',
+        version: TRANSCRIPT_FILE_VERSION,
+        metadata: resolvedMetadata,
+        history: curated,
+      };
+      return JSON.stringify(transcript, null, 2) + '\n';
+    }
+    default:
+      throw new Error(`Unsupported transcript format '${String(format)}'`);
+  }
+}
+
+/**
+ * Reads a JSON transcript written by renderTranscript
+ * @throws Error if the text is not a transcript this version can read
+ */
+export function parseTranscript(json: string): ConversationTranscript {
+  let parsed: Partial<ConversationTranscript>;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `Transcript is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (
+    parsed?.format !== 'llxprt-transcript' ||
+    !Array.isArray(parsed.history)
+  ) {
+    throw new Error('File is not an LLxprt Code JSON transcript.');
+  }
+  if (parsed.version !== TRANSCRIPT_FILE_VERSION) {
+    throw new Error(
+      `Unsupported transcript version ${String(parsed.version)}.`,
+    );
+  }
+  const invalid = parsed.history.findIndex(
+    (content) =>
+      !content ||
+      !['human', 'ai', 'tool'].includes(content.speaker) ||
+      !Array.isArray(content.blocks),
+  );
+  if (invalid !== -1) {
+    throw new Error(`Transcript message ${invalid + 1} is malformed.`);
+  }
+  return parsed as ConversationTranscript;
+}
@@ -0,0 +1,79 @@
+/**
+ * Copyright 2025 Vybestack LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *   http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IContent } from './IContent.js';
+
+/**
+ * Name of the branch every conversation starts on
+ */
+export const DEFAULT_HISTORY_BRANCH = 'main';
+
+/**
+ * Version written into exported history trees
+ */
+export const HISTORY_TREE_VERSION = 1;
+
+/**
+ * Where a branch came from
+ */
+export interface HistoryBranchInfo {
+  /** Unique branch name */
+  name: string;
+
+  /** Branch this one was forked from, or null for the root */
+  parent: string | null;
+
+  /** Number of parent messages shared at the time of the fork */
+  forkIndex: number;
+
+  /** ISO timestamp of when the branch was created */
+  createdAt: string;
+}
+
+/**
+ * Branch listing entry
+ */
+export interface HistoryBranchSummary extends HistoryBranchInfo {
+  /** Number of messages currently on the branch */
+  messageCount: number;
+
+  /** Whether this is the branch new messages are added to */
+  active: boolean;
+}
+
+/**
+ * Difference between two branches
+ */
+export interface HistoryBranchDiff {
+  /** Number of leading messages both branches share */
+  commonLength: number;
+
+  /** Messages after the shared prefix on the first branch */
+  onlyInFirst: IContent[];
+
+  /** Messages after the shared prefix on the second branch */
+  onlyInSecond: IContent[];
+}
+
+/**
+ * Serializable form of every branch. Each branch keeps its full history
+ * because compression can rewrite a branch's shared prefix.
+ */
+export interface HistoryTreeSnapshot {
+  version: typeof HISTORY_TREE_VERSION;
+  activeBranch: string;
+  branches: Array<HistoryBranchInfo & { history: IContent[] }>;
+}
@@ -602,6 +602,148 @@ describe('HistoryService - Behavioral Tests', () => {
     });
   });
 
+  describe('Branching', () => {
+    const prompt = (text: string) => ContentFactory.createUserMessage(text);
+    const answer = (text: string): IContent => ({
+      speaker: 'ai',
+      blocks: [{ type: 'text', text }],
+    });
+
+    beforeEach(() => {
+      service.addAll([prompt('one'), answer('1'), prompt('two'), answer('2')]);
+    });
+
+    it('should fork at an earlier message and keep the original branch', () => {
+      const name = service.forkBranch({ name: 'retry', atIndex: 2 });
+      service.add(prompt('second try'));
+
+      expect(name).toBe('retry');
+      expect(service.getActiveBranchName()).toBe('retry');
+      expect(service.getAll().map((c) => c.blocks[0])).toEqual([
+        { type: 'text', text: 'one' },
+        { type: 'text', text: '1' },
+        { type: 'text', text: 'second try' },
+      ]);
+      expect(service.getBranchHistory('main')).toHaveLength(4);
+
+      service.switchBranch('main');
+      expect(service.getAll()).toHaveLength(4);
+      expect(service.listBranches()).toMatchObject([
+        { name: 'main', parent: null, messageCount: 4, active: true },
+        {
+          name: 'retry',
+          parent: 'main',
+          forkIndex: 2,
+          messageCount: 3,
+          active: false,
+        },
+      ]);
+    });
+
+    it('should reject bad fork points, names and unknown branches', () => {
+      expect(() => service.forkBranch({ atIndex: 5 })).toThrow(
+        'outside the history',
+      );
+      expect(() => service.forkBranch({ name: 'main' })).toThrow(
+        "Branch 'main' already exists",
+      );
+      expect(() => service.forkBranch({ name: '../x' })).toThrow(
+        "Invalid branch name '../x'",
+      );
+      expect(() => service.switchBranch('nope')).toThrow(
+        "Unknown branch 'nope'",
+      );
+      expect(service.forkBranch()).toBe('branch-1');
+    });
+
+    it('should diff branches from the point they diverge', () => {
+      service.forkBranch({ name: 'alt', atIndex: 2 });
+      service.add(prompt('other'));
+
+      const diff = service.diffBranches('main', 'alt');
+      expect(diff.commonLength).toBe(2);
+      expect(diff.onlyInFirst).toHaveLength(2);
+      expect(diff.onlyInSecond).toEqual([
+        expect.objectContaining({ speaker: 'human' }),
+      ]);
+    });
+
+    it('should delete inactive branches and re-parent their children', () => {
+      service.forkBranch({ name: 'a', atIndex: 2 });
+      service.forkBranch({ name: 'b', atIndex: 1 });
+      service.switchBranch('main');
+
+      expect(() => service.deleteBranch('main')).toThrow(
+        "Cannot delete the active branch 'main'",
+      );
+      service.deleteBranch('a');
+
+      expect(service.listBranches().map((b) => [b.name, b.parent])).toEqual([
+        ['main', null],
+        ['b', 'main'],
+      ]);
+    });
+
+    it('should round-trip the whole tree through an export', () => {
+      service.forkBranch({ name: 'alt', atIndex: 2 });
+      service.add(prompt('other'));
+      const tree = JSON.parse(JSON.stringify(service.exportTree()));
+
+      const restored = new HistoryService();
+      restored.importTree(tree);
+
+      expect(restored.getActiveBranchName()).toBe('alt');
+      expect(restored.getAll()).toEqual(service.getAll());
+      expect(restored.getBranchHistory('main')).toEqual(
+        service.getBranchHistory('main'),
+      );
+    });
+
+    it('should truncate only the active branch', () => {
+      service.forkBranch({ name: 'alt' });
+      service.truncate(1);
+
+      expect(service.getAll()).toHaveLength(1);
+      expect(service.getBranchHistory('main')).toHaveLength(4);
+    });
+
+    it('should keep other branches when the active history is cleared', () => {
+      service.forkBranch({ name: 'alt' });
+      service.clear();
+      expect(service.getBranchHistory('main')).toHaveLength(4);
+
+      service.discardBranches();
+      expect(service.listBranches()).toMatchObject([
+        { name: 'main', messageCount: 0, active: true },
+      ]);
+    });
+  });
+
+  describe('Pinning', () => {
+    it('should pin and unpin messages on the active branch only', () => {
+      service.addAll([
+        ContentFactory.createUserMessage('the spec'),
+        { speaker: 'ai', blocks: [] },
+      ]);
+      service.forkBranch({ name: 'alt' });
+
+      service.setPinned(0, true);
+      service.setPinned(1, true);
+
+      expect(service.getPinnedIndexes()).toEqual([0, 1]);
+      // Pinned messages stay curated even without content
+      expect(service.getCurated()).toHaveLength(2);
+      expect(service.getBranchHistory('main')[0].metadata?.pinned).toBe(
+        undefined,
+      );
+
+      service.setPinned(1, false);
+      expect(service.getPinnedIndexes()).toEqual([0]);
+      expect(service.getCurated()).toHaveLength(1);
+      expect(() => service.setPinned(5, true)).toThrow('No message at');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty history operations', () => {
       expect(service.isEmpty()).toBe(true);
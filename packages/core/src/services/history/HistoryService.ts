@@ -23,9 +23,20 @@ import {
 } from './IContent.js';
 import { EventEmitter } from 'events';
 import { ITokenizer } from '../../providers/tokenizers/ITokenizer.js';
-import { OpenAITokenizer } from '../../providers/tokenizers/OpenAITokenizer.js';
-import { AnthropicTokenizer } from '../../providers/tokenizers/AnthropicTokenizer.js';
+import { tokenCalibration } from '../../providers/tokenizers/TokenCalibration.js';
+import {
+  getTokenizerFamily,
+  getTokenizerForModel,
+} from '../../providers/tokenizers/tokenizerRegistry.js';
 import { TokensUpdatedEvent } from './HistoryEvents.js';
+import {
+  DEFAULT_HISTORY_BRANCH,
+  HISTORY_TREE_VERSION,
+  HistoryBranchDiff,
+  HistoryBranchInfo,
+  HistoryBranchSummary,
+  HistoryTreeSnapshot,
+} from './HistoryBranches.js';
 import { DebugLogger } from '../../debug/index.js';
 import { randomUUID } from 'crypto';
 import { estimateTokens as estimateTextTokens } from '../../utils/toolOutputLimiter.js';
@@ -45,6 +56,9 @@ interface HistoryServiceEventEmitter {
   ): this;
 }
 
+/** Relative change in a calibration factor that triggers a recount */
+const RECOUNT_CALIBRATION_CHANGE = 0.1;
+
 /**
  * Configuration for compression behavior
  */
@@ -75,6 +89,21 @@ export class HistoryService
   private isCompressing: boolean = false;
   private pendingOperations: Array<() => void> = [];
 
+  // Branch tree: `history` holds the active branch, the others are parked here
+  private activeBranch: string = DEFAULT_HISTORY_BRANCH;
+  private branchInfo = new Map<string, HistoryBranchInfo>([
+    [
+      DEFAULT_HISTORY_BRANCH,
+      {
+        name: DEFAULT_HISTORY_BRANCH,
+        parent: null,
+        forkIndex: 0,
+        createdAt: new Date().toISOString(),
+      },
+    ],
+  ]);
+  private parkedBranches = new Map<string, IContent[]>();
+
   /**
    * Get or create tokenizer for a specific model
    */
@@ -83,21 +112,8 @@ export class HistoryService
       return this.tokenizerCache.get(modelName)!;
     }
 
-    let tokenizer: ITokenizer;
-    if (modelName.includes('claude') || modelName.includes('anthropic')) {
-      tokenizer = new AnthropicTokenizer();
-    } else if (
-      modelName.includes('gpt') ||
-      modelName.includes('openai') ||
-      modelName.includes('o1') ||
-      modelName.includes('o3')
-    ) {
-      tokenizer = new OpenAITokenizer();
-    } else {
-      // Default to OpenAI tokenizer for Gemini and other models (tiktoken is pretty universal)
-      tokenizer = new OpenAITokenizer();
-    }
-
+    // Selected by model family; estimating families are calibrated
+    const tokenizer = getTokenizerForModel(modelName);
     this.tokenizerCache.set(modelName, tokenizer);
     return tokenizer;
   }
@@ -238,6 +254,7 @@ export class HistoryService
       // First try to use usage data from the content metadata
       if (content.metadata?.usage) {
         contentTokens = content.metadata.usage.totalTokens;
+        await this.calibrateFromUsage(content, modelName);
       } else {
         // Fall back to tokenizer estimation
         // Default to gpt-4.1 tokenizer if no model name provided (most universal)
@@ -263,14 +280,51 @@ export class HistoryService
     return this.tokenizerLock;
   }
 
+  /**
+   * Feed the provider-reported completion tokens of a model response into the
+   * calibration of its tokenizer family. When the factor moves noticeably,
+   * the totals are recounted so the context usage reflects it.
+   */
+  private async calibrateFromUsage(
+    content: IContent,
+    modelName?: string,
+  ): Promise<void> {
+    const model = content.metadata?.model || modelName;
+    const reported = content.metadata?.usage?.completionTokens;
+    if (content.speaker !== 'ai' || !model || !reported) {
+      return;
+    }
+    const family = getTokenizerFamily(model);
+    if (family.exact) {
+      return;
+    }
+
+    const previousFactor = tokenCalibration.getFactor(model);
+    const estimated = await this.estimateContentTokens(
+      content,
+      model,
+      family.tokenizer,
+    );
+    tokenCalibration.record(model, estimated, reported);
+    const factor = tokenCalibration.getFactor(model);
+    if (Math.abs(factor / previousFactor - 1) > RECOUNT_CALIBRATION_CHANGE) {
+      this.logger.debug(
+        () =>
+          `Token calibration for ${model} moved from ${previousFactor.toFixed(2)} to ${factor.toFixed(2)}, recounting`,
+      );
+      // Queued behind the update in progress; awaiting it here would deadlock
+      void this.recalculateTokens(model);
+    }
+  }
+
   /**
    * Estimate token count for content using tokenizer
    */
   private async estimateContentTokens(
     content: IContent,
     modelName: string,
+    tokenizer: ITokenizer = this.getTokenizerForModel(modelName),
   ): Promise<number> {
-    const tokenizer = this.getTokenizerForModel(modelName);
     let totalTokens = 0;
 
     for (const block of content.blocks) {
@@ -463,7 +517,8 @@ export class HistoryService
   }
 
   /**
-   * Clear all history
+   * Clear all history on the active branch. Other branches are kept; use
+   * discardBranches() to drop them.
    */
   clear(): void {
     // If compression is active, queue this operation
@@ -557,7 +612,8 @@ export class HistoryService
           });
         }
 
-        if (hasValidContent) {
+        // Pinned messages are kept even when they carry no content
+        if (hasValidContent || content.metadata?.pinned) {
           curated.push(content);
           aiMessagesIncluded++;
         } else {
@@ -638,6 +694,45 @@ export class HistoryService
     return removed;
   }
 
+  /**
+   * Drop every message after the first `length` on the active branch
+   */
+  truncate(length: number): void {
+    if (length >= this.history.length) {
+      return;
+    }
+    this.history = this.history.slice(0, Math.max(0, length));
+    this.recalculateTokens();
+  }
+
+  /**
+   * Pin or unpin the message at `index` on the active branch. Compression
+   * keeps pinned messages verbatim.
+   */
+  setPinned(index: number, pinned: boolean): void {
+    const content = this.history[index];
+    if (!content) {
+      throw new Error(
+        `No message at position ${index}; the history has ${this.history.length} messages`,
+      );
+    }
+    const { pinned: _wasPinned, ...metadata } = content.metadata ?? {};
+    // Replace rather than mutate: other branches may share this entry
+    this.history[index] = {
+      ...content,
+      metadata: pinned ? { ...metadata, pinned: true } : metadata,
+    };
+  }
+
+  /**
+   * Positions of the pinned messages on the active branch
+   */
+  getPinnedIndexes(): number[] {
+    return this.history.flatMap((content, index) =>
+      content.metadata?.pinned ? [index] : [],
+    );
+  }
+
   /**
    * Recalculate total tokens from scratch
    * Use this when removing content or when token counts might be stale
@@ -898,11 +993,13 @@ export class HistoryService
       return;
     }
 
-    const toSummarize = this.history.slice(0, -keepRecentCount);
+    const older = this.history.slice(0, -keepRecentCount);
     const toKeep = this.history.slice(-keepRecentCount);
+    const pinned = older.filter((content) => content.metadata?.pinned);
+    const toSummarize = older.filter((content) => !content.metadata?.pinned);
 
     const summary = await summarizeFn(toSummarize);
-    this.history = [summary, ...toKeep];
+    this.history = [summary, ...pinned, ...toKeep];
   }
 
   /**
@@ -1012,4 +1109,254 @@ export class HistoryService
       totalTokens: hasTokens ? totalTokens : undefined,
     };
   }
+
+  /**
+   * Get the name of the branch new messages are added to
+   */
+  getActiveBranchName(): string {
+    return this.activeBranch;
+  }
+
+  /**
+   * List every branch in creation order
+   */
+  listBranches(): HistoryBranchSummary[] {
+    return [...this.branchInfo.values()].map((info) => ({
+      ...info,
+      messageCount: this.getBranchHistory(info.name).length,
+      active: info.name === this.activeBranch,
+    }));
+  }
+
+  /**
+   * Get a copy of the history on any branch
+   */
+  getBranchHistory(name: string): IContent[] {
+    if (name === this.activeBranch) {
+      return this.getAll();
+    }
+    const parked = this.parkedBranches.get(name);
+    if (!parked) {
+      throw new Error(`Unknown branch '${name}'`);
+    }
+    return [...parked];
+  }
+
+  /**
+   * Fork the active branch after its first `atIndex` messages and switch to
+   * the new branch. The original branch is kept unchanged.
+   * @returns The name of the new branch
+   */
+  forkBranch(options: { name?: string; atIndex?: number } = {}): string {
+    this.assertNotCompressing();
+    const atIndex = options.atIndex ?? this.history.length;
+    if (
+      !Number.isInteger(atIndex) ||
+      atIndex < 0 ||
+      atIndex > this.history.length
+    ) {
+      throw new Error(
+        `Fork point ${atIndex} is outside the history (0-${this.history.length})`,
+      );
+    }
+    const name = options.name ?? this.nextBranchName();
+    if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+      throw new Error(
+        `Invalid branch name '${name}'. Use letters, numbers, '.', '_' or '-'.`,
+      );
+    }
+    if (this.branchInfo.has(name)) {
+      throw new Error(`Branch '${name}' already exists`);
+    }
+
+    this.logger.debug('Forking branch', {
+      from: this.activeBranch,
+      name,
+      atIndex,
+    });
+    this.branchInfo.set(name, {
+      name,
+      parent: this.activeBranch,
+      forkIndex: atIndex,
+      createdAt: new Date().toISOString(),
+    });
+    this.parkedBranches.set(this.activeBranch, this.history);
+    this.history = this.history.slice(0, atIndex);
+    this.activeBranch = name;
+    this.recalculateTokens();
+    return name;
+  }
+
+  /**
+   * Make another branch the active one
+   */
+  switchBranch(name: string): void {
+    this.assertNotCompressing();
+    if (name === this.activeBranch) {
+      return;
+    }
+    const target = this.parkedBranches.get(name);
+    if (!target) {
+      throw new Error(`Unknown branch '${name}'`);
+    }
+
+    this.logger.debug('Switching branch', {
+      from: this.activeBranch,
+      to: name,
+    });
+    this.parkedBranches.set(this.activeBranch, this.history);
+    this.parkedBranches.delete(name);
+    this.history = target;
+    this.activeBranch = name;
+    this.recalculateTokens();
+  }
+
+  /**
+   * Delete an inactive branch. Branches forked from it are re-parented to
+   * its parent.
+   */
+  deleteBranch(name: string): void {
+    if (name === this.activeBranch) {
+      throw new Error(`Cannot delete the active branch '${name}'`);
+    }
+    const info = this.branchInfo.get(name);
+    if (!info) {
+      throw new Error(`Unknown branch '${name}'`);
+    }
+
+    this.branchInfo.delete(name);
+    this.parkedBranches.delete(name);
+    for (const child of this.branchInfo.values()) {
+      if (child.parent === name) {
+        child.parent = info.parent;
+        child.forkIndex = Math.min(child.forkIndex, info.forkIndex);
+      }
+    }
+  }
+
+  /**
+   * Compare two branches message by message
+   */
+  diffBranches(first: string, second: string): HistoryBranchDiff {
+    const firstHistory = this.getBranchHistory(first);
+    const secondHistory = this.getBranchHistory(second);
+    let commonLength = 0;
+    while (
+      commonLength < firstHistory.length &&
+      commonLength < secondHistory.length &&
+      (firstHistory[commonLength] === secondHistory[commonLength] ||
+        JSON.stringify(firstHistory[commonLength]) ===
+          JSON.stringify(secondHistory[commonLength]))
+    ) {
+      commonLength++;
+    }
+    return {
+      commonLength,
+      onlyInFirst: firstHistory.slice(commonLength),
+      onlyInSecond: secondHistory.slice(commonLength),
+    };
+  }
+
+  /**
+   * Drop every branch except the active one, which becomes the new root
+   */
+  discardBranches(): void {
+    this.parkedBranches.clear();
+    this.branchInfo = new Map([
+      [
+        DEFAULT_HISTORY_BRANCH,
+        {
+          name: DEFAULT_HISTORY_BRANCH,
+          parent: null,
+          forkIndex: 0,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    ]);
+    this.activeBranch = DEFAULT_HISTORY_BRANCH;
+  }
+
+  /**
+   * Take over the inactive branches of another service, keeping this
+   * service's history as the active branch. Used when compression replaces
+   * the HistoryService of the active branch.
+   */
+  inheritBranches(source: HistoryService): void {
+    const tree = source.exportTree();
+    this.branchInfo = new Map(
+      tree.branches.map(({ name, parent, forkIndex, createdAt }) => [
+        name,
+        { name, parent, forkIndex, createdAt },
+      ]),
+    );
+    this.parkedBranches = new Map(
+      tree.branches
+        .filter((branch) => branch.name !== tree.activeBranch)
+        .map((branch) => [branch.name, branch.history]),
+    );
+    this.activeBranch = tree.activeBranch;
+  }
+
+  /**
+   * Export every branch for persistence
+   */
+  exportTree(): HistoryTreeSnapshot {
+    return {
+      version: HISTORY_TREE_VERSION,
+      activeBranch: this.activeBranch,
+      branches: [...this.branchInfo.values()].map((info) => ({
+        ...info,
+        history: this.getBranchHistory(info.name),
+      })),
+    };
+  }
+
+  /**
+   * Replace the whole tree, including the active history, with an export
+   */
+  importTree(snapshot: HistoryTreeSnapshot): void {
+    this.assertNotCompressing();
+    if (snapshot.version !== HISTORY_TREE_VERSION) {
+      throw new Error(
+        `Unsupported history tree version ${String(snapshot.version)}`,
+      );
+    }
+    const active = snapshot.branches.find(
+      (branch) => branch.name === snapshot.activeBranch,
+    );
+    if (!active) {
+      throw new Error(
+        `History tree is missing its active branch '${snapshot.activeBranch}'`,
+      );
+    }
+
+    this.branchInfo = new Map(
+      snapshot.branches.map(({ name, parent, forkIndex, createdAt }) => [
+        name,
+        { name, parent, forkIndex, createdAt },
+      ]),
+    );
+    this.parkedBranches = new Map(
+      snapshot.branches
+        .filter((branch) => branch !== active)
+        .map((branch) => [branch.name, [...branch.history]]),
+    );
+    this.history = [...active.history];
+    this.activeBranch = active.name;
+    this.recalculateTokens();
+  }
+
+  private nextBranchName(): string {
+    let counter = this.branchInfo.size;
+    while (this.branchInfo.has(`branch-${counter}`)) {
+      counter++;
+    }
+    return `branch-${counter}`;
+  }
+
+  private assertNotCompressing(): void {
+    if (this.isCompressing) {
+      throw new Error('Cannot change branches while history is compressing');
+    }
+  }
 }
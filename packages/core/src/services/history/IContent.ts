@@ -69,6 +69,9 @@ export interface ContentMetadata {
 
   /** Reason for synthetic content generation */
   reason?: string;
+
+  /** Whether compression must keep this content verbatim */
+  pinned?: boolean;
 }
 
 /**
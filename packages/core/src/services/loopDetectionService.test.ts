@@ -731,3 +731,88 @@ describe('LoopDetectionService Max Turns Detection', () => {
     );
   });
 });
+
+describe('LoopDetectionService Tool Outcome Detection', () => {
+  let service: LoopDetectionService;
+  let settings: Record<string, unknown>;
+  let mockConfig: Config;
+  let callCount: number;
+
+  beforeEach(() => {
+    settings = {};
+    callCount = 0;
+    mockConfig = {
+      getEphemeralSetting: vi.fn((key: string) => settings[key]),
+      getModel: () => 'gpt-4.1',
+      getTelemetryEnabled: () => true,
+    } as unknown as Config;
+    service = new LoopDetectionService(mockConfig);
+    service.reset('test-prompt');
+    vi.clearAllMocks();
+  });
+
+  /** Runs read_file on two files in turn until a loop is reported. */
+  const alternateReads = () => {
+    let loop = null;
+    for (let i = 0; i < 6; i++) {
+      const callId = `call-${callCount++}`;
+      const name = 'read_file';
+      service.addAndCheck({
+        type: GeminiEventType.ToolCallRequest,
+        value: {
+          callId,
+          name,
+          args: { absolute_path: i % 2 === 0 ? '/a.ts' : '/b.ts' },
+          isClientInitiated: false,
+          prompt_id: 'test-prompt',
+        },
+      });
+      loop = service.checkToolOutcomes([
+        { functionResponse: { id: callId, name, response: { output: '' } } },
+      ]);
+    }
+    return loop;
+  };
+
+  it('reports a cycle in tool outcomes and logs it', () => {
+    expect(alternateReads()?.kind).toBe('cycle');
+    expect(loggers.logLoopDetected).toHaveBeenCalledWith(
+      mockConfig,
+      expect.objectContaining({ loop_type: LoopType.TOOL_OUTCOME_CYCLE }),
+    );
+  });
+
+  it('does not report loops when the intervention is off', () => {
+    settings['loop-intervention'] = 'off';
+    expect(alternateReads()).toBeNull();
+    expect(loggers.logLoopDetected).not.toHaveBeenCalled();
+  });
+
+  it('reflects first and pauses when the model loops again', () => {
+    expect(service.nextLoopIntervention()).toEqual({ action: 'reflect' });
+    expect(service.nextLoopIntervention()).toEqual({ action: 'pause' });
+
+    service.reset('next-prompt');
+    expect(service.nextLoopIntervention()).toEqual({ action: 'reflect' });
+  });
+
+  it('switches to the fallback model when configured', () => {
+    settings['loop-intervention'] = 'switch-model';
+    settings['loop-fallback-model'] = 'o3';
+    expect(service.nextLoopIntervention()).toEqual({
+      action: 'switch-model',
+      model: 'o3',
+    });
+  });
+
+  it('reflects instead of switching when no other model is set', () => {
+    settings['loop-intervention'] = 'switch-model';
+    settings['loop-fallback-model'] = 'gpt-4.1';
+    expect(service.nextLoopIntervention()).toEqual({ action: 'reflect' });
+  });
+
+  it('pauses straight away in pause mode', () => {
+    settings['loop-intervention'] = 'pause';
+    expect(service.nextLoopIntervention()).toEqual({ action: 'pause' });
+  });
+});
@@ -6,10 +6,15 @@
 
 // import type { Content } from '@google/genai'; // Currently unused
 import { createHash } from 'node:crypto';
+import type { Part, PartListUnion } from '@google/genai';
 import { GeminiEventType, ServerGeminiStreamEvent } from '../core/turn.js';
 import { logLoopDetected } from '../telemetry/loggers.js';
 import { LoopDetectedEvent, LoopType } from '../telemetry/types.js';
 import { Config } from '../config/config.js';
+import {
+  ToolOutcomeLoop,
+  ToolOutcomeLoopDetector,
+} from './toolOutcomeLoopDetector.js';
 // import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js'; // Currently unused
 // import {
 //   isFunctionCall,
@@ -21,6 +26,32 @@ const CONTENT_LOOP_THRESHOLD = 15;
 const CONTENT_CHUNK_SIZE = 50;
 const MAX_HISTORY_LENGTH = 1000;
 
+/**
+ * Ephemeral setting key choosing how a loop found in tool outcomes is
+ * handled: `reflect` (default), `pause`, `switch-model` or `off`.
+ */
+export const LOOP_INTERVENTION_SETTING = 'loop-intervention';
+
+/**
+ * Ephemeral setting key naming the model to switch to for the
+ * `switch-model` intervention.
+ */
+export const LOOP_FALLBACK_MODEL_SETTING = 'loop-fallback-model';
+
+export type LoopInterventionMode = 'reflect' | 'pause' | 'switch-model' | 'off';
+
+export const LOOP_INTERVENTION_MODES: readonly LoopInterventionMode[] = [
+  'reflect',
+  'pause',
+  'switch-model',
+  'off',
+];
+
+export type LoopIntervention =
+  | { action: 'reflect' }
+  | { action: 'pause' }
+  | { action: 'switch-model'; model: string };
+
 /**
  * The number of recent conversation turns to include in the history when asking the LLM to check for a loop.
  * Currently unused - reserved for future implementation.
@@ -76,6 +107,10 @@ export class LoopDetectionService {
   // Turn tracking for potential future rule-based checks
   private turnsInCurrentPrompt = 0;
 
+  // Tool outcome tracking
+  private readonly toolOutcomes = new ToolOutcomeLoopDetector();
+  private loopInterventionsInPrompt = 0;
+
   // LLM-based loop detection - currently unused, reserved for future implementation
   // private llmCheckInterval = DEFAULT_LLM_CHECK_INTERVAL;
 
@@ -104,6 +139,7 @@ export class LoopDetectionService {
         // content chanting only happens in one single stream, reset if there
         // is a tool call in between
         this.resetContentTracking();
+        this.toolOutcomes.recordCall(event.value);
         this.loopDetected = this.checkToolCallLoop(event.value);
         break;
       case GeminiEventType.Content:
@@ -144,6 +180,68 @@ export class LoopDetectionService {
     return false;
   }
 
+  /**
+   * Records the tool responses in a request sent back to the model and
+   * checks the recent tool outcomes for cycles and repeated failures, which
+   * catch loops whose calls are similar but not byte-identical.
+   * @param request - The request about to be sent to the model
+   * @returns the loop that was found, or null
+   */
+  checkToolOutcomes(request: PartListUnion): ToolOutcomeLoop | null {
+    const parts = (Array.isArray(request) ? request : [request]).filter(
+      (part): part is Part => typeof part === 'object',
+    );
+    const loop = this.toolOutcomes.recordResponses(parts);
+    if (!loop || this.getLoopInterventionMode() === 'off') {
+      return null;
+    }
+
+    logLoopDetected(
+      this.config,
+      new LoopDetectedEvent(
+        loop.kind === 'cycle'
+          ? LoopType.TOOL_OUTCOME_CYCLE
+          : LoopType.REPEATED_TOOL_FAILURE,
+        this.promptId,
+      ),
+    );
+    return loop;
+  }
+
+  /**
+   * Picks the intervention for a loop found by checkToolOutcomes. The first
+   * loop in a prompt gets the configured intervention; a model that loops
+   * again within the same prompt is paused so the user can step in.
+   * `switch-model` falls back to `reflect` when no other model is set.
+   */
+  nextLoopIntervention(): LoopIntervention {
+    this.loopInterventionsInPrompt++;
+    const mode = this.getLoopInterventionMode();
+    if (mode === 'pause' || this.loopInterventionsInPrompt > 1) {
+      return { action: 'pause' };
+    }
+    if (mode === 'switch-model') {
+      const model = this.config.getEphemeralSetting(
+        LOOP_FALLBACK_MODEL_SETTING,
+      );
+      if (
+        typeof model === 'string' &&
+        model.trim() &&
+        model.trim() !== this.config.getModel()
+      ) {
+        return { action: 'switch-model', model: model.trim() };
+      }
+    }
+    return { action: 'reflect' };
+  }
+
+  private getLoopInterventionMode(): LoopInterventionMode {
+    const mode = this.config.getEphemeralSetting(LOOP_INTERVENTION_SETTING);
+    return LOOP_INTERVENTION_MODES.includes(mode as LoopInterventionMode)
+      ? (mode as LoopInterventionMode)
+      : 'reflect';
+  }
+
   private checkToolCallLoop(toolCall: { name: string; args: object }): boolean {
     const key = this.getToolCallKey(toolCall);
     if (this.lastToolCallKey === key) {
@@ -450,6 +548,8 @@ Please analyze the conversation history to determine the possibility that the co
     this.resetToolCallCount();
     this.resetContentTracking();
     this.resetTurnTracking();
+    this.toolOutcomes.reset();
+    this.loopInterventionsInPrompt = 0;
     this.loopDetected = false;
   }
 
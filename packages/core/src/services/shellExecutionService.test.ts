@@ -12,6 +12,7 @@ import {
   ShellExecutionService,
   ShellOutputEvent,
 } from './shellExecutionService.js';
+import type { CommandSandbox } from '../sandbox/commandSandbox.js';
 
 // Hoisted Mocks
 const mockPtySpawn = vi.hoisted(() => vi.fn());
@@ -310,6 +311,60 @@ describe('ShellExecutionService', () => {
       );
     });
   });
+
+  describe('Sandboxed Execution', () => {
+    it('should run the command wrapped by the sandbox', async () => {
+      const sandbox = {
+        wrapShellCommand: vi.fn(
+          (command: string) => `bwrap -- bash -c '${command}'`,
+        ),
+      } as unknown as CommandSandbox;
+
+      const handle = await ShellExecutionService.execute(
+        'ls',
+        '/test/dir',
+        onOutputEventMock,
+        new AbortController().signal,
+        true,
+        undefined,
+        undefined,
+        sandbox,
+      );
+      mockPtyProcess.onExit.mock.calls[0][0]({ exitCode: 0, signal: null });
+      await handle.result;
+
+      expect(sandbox.wrapShellCommand).toHaveBeenCalledWith('ls', '/test/dir');
+      expect(mockPtySpawn).toHaveBeenCalledWith(
+        'bash',
+        ['-c', "bwrap -- bash -c 'ls'"],
+        expect.any(Object),
+      );
+    });
+
+    it('should fail without running the command when the sandbox is unavailable', async () => {
+      const sandbox = {
+        wrapShellCommand: vi.fn(() => {
+          throw new Error('No sandbox is available');
+        }),
+      } as unknown as CommandSandbox;
+
+      const handle = await ShellExecutionService.execute(
+        'ls',
+        '/test/dir',
+        onOutputEventMock,
+        new AbortController().signal,
+        true,
+        undefined,
+        undefined,
+        sandbox,
+      );
+      const result = await handle.result;
+
+      expect(result.error?.message).toBe('No sandbox is available');
+      expect(result.executionMethod).toBe('none');
+      expect(mockPtySpawn).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('ShellExecutionService child_process fallback', () => {
@@ -12,6 +12,7 @@ import { getCachedEncodingForBuffer } from '../utils/systemEncoding.js';
 import { isBinary } from '../utils/textUtils.js';
 import pkg from '@xterm/headless';
 import stripAnsi from 'strip-ansi';
+import type { CommandSandbox } from '../sandbox/commandSandbox.js';
 const { Terminal } = pkg;
 
 const SIGKILL_TIMEOUT_MS = 200;
@@ -81,6 +82,7 @@ export class ShellExecutionService {
    * @param abortSignal An AbortSignal to terminate the process and its children.
    * @param terminalColumns The terminal width for the pty.
    * @param terminalRows The terminal height for the pty.
+   * @param sandbox A sandbox to run the command in instead of on the host.
    * @returns An object containing the process ID (pid) and a promise that
    *          resolves with the complete execution result.
    */
@@ -92,7 +94,30 @@ export class ShellExecutionService {
     shouldUseNodePty: boolean,
     terminalColumns?: number,
     terminalRows?: number,
+    sandbox?: CommandSandbox,
   ): Promise<ShellExecutionHandle> {
+    if (sandbox) {
+      try {
+        commandToExecute = sandbox.wrapShellCommand(commandToExecute, cwd);
+      } catch (e) {
+        return {
+          pid: undefined,
+          result: Promise.resolve({
+            error: e as Error,
+            rawOutput: Buffer.from(''),
+            output: '',
+            stdout: '',
+            stderr: '',
+            exitCode: 1,
+            signal: null,
+            aborted: false,
+            pid: undefined,
+            executionMethod: 'none',
+          }),
+        };
+      }
+    }
+
     if (shouldUseNodePty) {
       const ptyInfo = await getPty();
       if (ptyInfo) {
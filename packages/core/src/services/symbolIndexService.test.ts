@@ -0,0 +1,120 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { SymbolIndexService } from './symbolIndexService.js';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+import { Config } from '../config/config.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+describe('SymbolIndexService', () => {
+  let rootDir: string;
+  let service: SymbolIndexService;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'symbol-index-'));
+    const config = {
+      getFileService: () => new FileDiscoveryService(rootDir),
+      getFileFilteringOptions: () => ({
+        respectGitIgnore: true,
+        respectLlxprtIgnore: true,
+      }),
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+      getFileExclusions: () => ({
+        getGlobExcludes: () => ['**/node_modules/**'],
+      }),
+    } as unknown as Config;
+    service = new SymbolIndexService(config);
+
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'parser.ts'),
+      [
+        'export class Parser {',
+        '  parse(text: string) {',
+        '    return text;',
+        '  }',
+        '}',
+      ].join('\n'),
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'main.py'),
+      [
+        'from parser import parse',
+        '',
+        'def parse(text):',
+        '    return text',
+      ].join('\n'),
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'use.ts'),
+      "import { Parser } from './parser.js';\nnew Parser().parse('x');\n",
+    );
+    await fs.mkdir(path.join(rootDir, 'node_modules'));
+    await fs.writeFile(
+      path.join(rootDir, 'node_modules', 'dep.ts'),
+      'export function parse() {}\n',
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('finds definitions across languages and skips excluded files', async () => {
+    const definitions = await service.findDefinitions('parse');
+
+    expect(
+      definitions.map(
+        (d) => `${path.relative(rootDir, d.filePath)}:${d.startLine} ${d.kind}`,
+      ),
+    ).toEqual([
+      `${path.join('src', 'main.py')}:3 function`,
+      `${path.join('src', 'parser.ts')}:2 method`,
+    ]);
+  });
+
+  it('narrows definitions by container, kind and path', async () => {
+    expect(await service.findDefinitions('Parser.parse')).toHaveLength(1);
+    expect(
+      await service.findDefinitions('parse', { kind: 'function' }),
+    ).toHaveLength(1);
+    expect(
+      await service.findDefinitions('parse', {
+        searchPath: path.join(rootDir, 'src', 'parser.ts'),
+      }),
+    ).toHaveLength(1);
+  });
+
+  it('finds references and marks definitions', async () => {
+    const { references, truncated } = await service.findReferences('Parser');
+
+    expect(truncated).toBe(false);
+    expect(
+      references.map(
+        (r) =>
+          `${path.basename(r.filePath)}:${r.line}:${r.column}${r.isDefinition ? ' def' : ''}`,
+      ),
+    ).toEqual(['parser.ts:1:14 def', 'use.ts:1:10', 'use.ts:2:5']);
+  });
+
+  it('parses a file again after it changes', async () => {
+    const file = path.join(rootDir, 'src', 'parser.ts');
+    expect(await service.getFileSymbols(file)).toHaveLength(2);
+
+    await fs.writeFile(
+      file,
+      'export const answer = 42;\nexport function ask() {}\n',
+    );
+
+    expect(
+      (await service.getFileSymbols(file))?.map((symbol) => symbol.name),
+    ).toEqual(['answer', 'ask']);
+  });
+});
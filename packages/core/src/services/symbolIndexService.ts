@@ -0,0 +1,279 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { glob } from 'glob';
+import type { Config } from '../config/config.js';
+import { getLanguageId } from '../utils/filesearch/languages.js';
+import {
+  CodeSymbol,
+  SymbolKind,
+  findIdentifierOccurrences,
+  isSymbolLanguage,
+  parseSymbols,
+} from '../utils/symbols/symbolParser.js';
+import { DebugLogger } from '../debug/index.js';
+
+const logger = new DebugLogger('llxprt:core:symbolIndex');
+
+/** Source files beyond this count are not searched. */
+const MAX_SOURCE_FILES = 20_000;
+
+/** Larger files are usually generated and are not parsed. */
+const MAX_SOURCE_FILE_SIZE = 1024 * 1024;
+
+/** Searching stops after this many references. */
+const MAX_REFERENCES = 1000;
+
+export interface SymbolDefinition extends CodeSymbol {
+  /** Absolute path of the file that declares the symbol. */
+  filePath: string;
+  language: string;
+}
+
+export interface SymbolReference {
+  /** Absolute path of the file containing the reference. */
+  filePath: string;
+  line: number;
+  column: number;
+  /** The trimmed source line of the reference. */
+  lineText: string;
+  /** Whether this occurrence is the name of a declaration. */
+  isDefinition: boolean;
+}
+
+export interface SymbolSearchOptions {
+  /**
+   * Absolute file or directory to search. Defaults to all workspace
+   * directories.
+   */
+  searchPath?: string;
+  kind?: SymbolKind;
+}
+
+export interface SymbolReferenceResult {
+  references: SymbolReference[];
+  /** Set when searching stopped before all files were read. */
+  truncated: boolean;
+}
+
+interface ParsedFile {
+  mtimeMs: number;
+  size: number;
+  language: string;
+  symbols: CodeSymbol[];
+}
+
+/**
+ * Indexes the declarations in the workspace's TypeScript, JavaScript,
+ * Python, Go and Rust files. Files are parsed on first use and parsed again
+ * when their size or modification time changes; files excluded by the
+ * file filtering settings are skipped.
+ */
+export class SymbolIndexService {
+  private readonly files = new Map<string, ParsedFile>();
+
+  constructor(private readonly config: Config) {}
+
+  /**
+   * Returns the declarations of a file, or undefined when the file's
+   * language is not supported or the file cannot be read.
+   */
+  async getFileSymbols(filePath: string): Promise<CodeSymbol[] | undefined> {
+    return (await this.parseFile(filePath))?.symbols;
+  }
+
+  /**
+   * Finds the declarations of a symbol. The name may be qualified with its
+   * container, as in `Class.method` or `Type::method`.
+   */
+  async findDefinitions(
+    name: string,
+    options: SymbolSearchOptions = {},
+  ): Promise<SymbolDefinition[]> {
+    const { symbolName, container } = splitQualifiedName(name);
+    const definitions: SymbolDefinition[] = [];
+    for (const filePath of await this.listSourceFiles(options.searchPath)) {
+      const parsed = await this.parseFile(filePath);
+      for (const symbol of parsed?.symbols ?? []) {
+        if (
+          symbol.name === symbolName &&
+          (!options.kind || symbol.kind === options.kind) &&
+          (!container || isInContainer(symbol, container))
+        ) {
+          definitions.push({ ...symbol, filePath, language: parsed!.language });
+        }
+      }
+    }
+    return definitions;
+  }
+
+  /**
+   * Finds the identifiers named `name` in source files, outside of comments
+   * and strings. Occurrences are matched by name only.
+   */
+  async findReferences(
+    name: string,
+    options: SymbolSearchOptions = {},
+  ): Promise<SymbolReferenceResult> {
+    const { symbolName } = splitQualifiedName(name);
+    const references: SymbolReference[] = [];
+    for (const filePath of await this.listSourceFiles(options.searchPath)) {
+      const language = getLanguageId(filePath)!;
+      let content: string;
+      try {
+        content = await fs.promises.readFile(filePath, 'utf8');
+      } catch {
+        continue;
+      }
+      const occurrences = findIdentifierOccurrences(
+        content,
+        language,
+        symbolName,
+      );
+      if (occurrences.length === 0) {
+        continue;
+      }
+      const definitionLines = new Set(
+        ((await this.getFileSymbols(filePath)) ?? [])
+          .filter((symbol) => symbol.name === symbolName)
+          .map((symbol) => symbol.line),
+      );
+      const lines = content.split('\n');
+      for (const occurrence of occurrences) {
+        if (references.length >= MAX_REFERENCES) {
+          return { references, truncated: true };
+        }
+        references.push({
+          filePath,
+          line: occurrence.line,
+          column: occurrence.column,
+          lineText: (lines[occurrence.line - 1] ?? '').trim(),
+          isDefinition: definitionLines.has(occurrence.line),
+        });
+      }
+    }
+    return { references, truncated: false };
+  }
+
+  private async parseFile(filePath: string): Promise<ParsedFile | undefined> {
+    const language = getLanguageId(filePath);
+    if (!isSymbolLanguage(language)) {
+      return undefined;
+    }
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(filePath);
+    } catch {
+      this.files.delete(filePath);
+      return undefined;
+    }
+    if (!stats.isFile() || stats.size > MAX_SOURCE_FILE_SIZE) {
+      return undefined;
+    }
+    const cached = this.files.get(filePath);
+    if (
+      cached &&
+      cached.mtimeMs === stats.mtimeMs &&
+      cached.size === stats.size
+    ) {
+      return cached;
+    }
+    let content: string;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      logger.debug(() => `Failed to read ${filePath}: ${error}`);
+      return undefined;
+    }
+    const parsed: ParsedFile = {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      language: language!,
+      symbols: parseSymbols(content, language!),
+    };
+    this.files.set(filePath, parsed);
+    return parsed;
+  }
+
+  /**
+   * Lists the supported source files under a path, using the workspace
+   * file index when it covers the path and walking the disk otherwise.
+   */
+  private async listSourceFiles(searchPath?: string): Promise<string[]> {
+    if (
+      searchPath &&
+      fs.statSync(searchPath, { throwIfNoEntry: false })?.isFile()
+    ) {
+      return isSymbolLanguage(getLanguageId(searchPath)) ? [searchPath] : [];
+    }
+    const roots = searchPath
+      ? [searchPath]
+      : this.config.getWorkspaceContext().getDirectories();
+
+    const candidates: string[] = [];
+    for (const root of roots) {
+      const fileIndex = this.config.getFileIndex?.();
+      const indexPath = fileIndex?.toIndexPath(root);
+      const indexed =
+        fileIndex && indexPath !== undefined
+          ? await fileIndex.refresh().then(() => fileIndex.listFiles(indexPath))
+          : undefined;
+      if (indexed) {
+        for (const entry of indexed) {
+          if (isSymbolLanguage(entry.language)) {
+            candidates.push(path.join(fileIndex!.projectRoot, entry.path));
+          }
+        }
+        continue;
+      }
+      const files = await glob('**/*', {
+        cwd: root,
+        absolute: true,
+        nodir: true,
+        dot: true,
+        follow: false,
+        ignore: this.config.getFileExclusions().getGlobExcludes(),
+      });
+      candidates.push(
+        ...files.filter((file) => isSymbolLanguage(getLanguageId(file))),
+      );
+    }
+
+    const fileService = this.config.getFileService();
+    const filteringOptions = this.config.getFileFilteringOptions();
+    const sourceFiles = [...new Set(candidates)]
+      .filter((file) => !fileService.shouldIgnoreFile(file, filteringOptions))
+      .sort();
+    if (sourceFiles.length > MAX_SOURCE_FILES) {
+      logger.debug(
+        () =>
+          `Searching the first ${MAX_SOURCE_FILES} of ${sourceFiles.length} source files`,
+      );
+      return sourceFiles.slice(0, MAX_SOURCE_FILES);
+    }
+    return sourceFiles;
+  }
+}
+
+function splitQualifiedName(name: string): {
+  symbolName: string;
+  container?: string;
+} {
+  const parts = name.trim().split(/\.|::/);
+  const symbolName = parts.pop()!;
+  return parts.length > 0
+    ? { symbolName, container: parts.join('.') }
+    : { symbolName };
+}
+
+function isInContainer(symbol: CodeSymbol, container: string): boolean {
+  return (
+    symbol.container === container ||
+    (symbol.container?.endsWith(`.${container}`) ?? false)
+  );
+}
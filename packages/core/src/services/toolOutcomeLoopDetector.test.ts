@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Part } from '@google/genai';
+import { ToolOutcomeLoopDetector } from './toolOutcomeLoopDetector.js';
+
+describe('ToolOutcomeLoopDetector', () => {
+  let detector: ToolOutcomeLoopDetector;
+  let nextId: number;
+
+  beforeEach(() => {
+    detector = new ToolOutcomeLoopDetector();
+    nextId = 0;
+  });
+
+  /** Simulates one model turn with a single tool call and its response. */
+  const runTool = (
+    name: string,
+    args: Record<string, unknown>,
+    response: Record<string, unknown>,
+  ) => {
+    const callId = `call-${nextId++}`;
+    detector.recordCall({ callId, name, args });
+    const part: Part = { functionResponse: { id: callId, name, response } };
+    return detector.recordResponses([part]);
+  };
+
+  const shellOutput = (exitCode: number, stdout: string) =>
+    [
+      'Command: npm test',
+      'Directory: (root)',
+      `Stdout: ${stdout}`,
+      'Stderr: (empty)',
+      'Error: (none)',
+      `Exit Code: ${exitCode}`,
+      'Signal: (none)',
+    ].join('\n');
+
+  it('detects an edit, failing test and revert cycle', () => {
+    const edit = (from: string, to: string) =>
+      runTool(
+        'replace',
+        { file_path: '/src/a.ts', old_string: from, new_string: to },
+        { output: 'Successfully modified file' },
+      );
+    const test = (duration: number) =>
+      runTool(
+        'run_shell_command',
+        { command: 'npm test' },
+        { output: shellOutput(1, `1 failed in ${duration}ms`) },
+      );
+
+    const results = [
+      edit('a + b', 'a - b'),
+      test(120),
+      edit('a - b', 'a + b'),
+      test(98),
+      edit('a + b', 'a - b'),
+    ];
+    expect(results.every((result) => result === null)).toBe(true);
+
+    const loop = test(131);
+    expect(loop?.kind).toBe('cycle');
+    expect(loop?.description).toContain('replace → run_shell_command (failed)');
+  });
+
+  it('detects alternating reads of the same files', () => {
+    const read = (file: string) =>
+      runTool(
+        'read_file',
+        { absolute_path: file },
+        { output: `contents of ${file}` },
+      );
+
+    for (let i = 0; i < 5; i++) {
+      expect(read(i % 2 === 0 ? '/a.ts' : '/b.ts')).toBeNull();
+    }
+    expect(read('/b.ts')?.kind).toBe('cycle');
+  });
+
+  it('ignores whitespace differences between calls', () => {
+    const commands = ['ls  -la', 'ls -la', ' ls -la '];
+    let loop = null;
+    for (let i = 0; i < 6; i++) {
+      loop =
+        i % 2 === 0
+          ? runTool(
+              'run_shell_command',
+              { command: commands[i % 3] },
+              { output: shellOutput(0, 'a.ts') },
+            )
+          : runTool('read_file', { absolute_path: '/a.ts' }, { output: 'x' });
+    }
+    expect(loop?.kind).toBe('cycle');
+  });
+
+  it('does not report edits that make progress', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(
+        runTool(
+          'replace',
+          { file_path: '/a.ts', old_string: `step ${i}`, new_string: `${i}` },
+          { output: 'ok' },
+        ),
+      ).toBeNull();
+      expect(
+        runTool(
+          'run_shell_command',
+          { command: 'npm test' },
+          { output: shellOutput(0, 'all passed') },
+        ),
+      ).toBeNull();
+    }
+  });
+
+  it('detects a tool failing the same way with different calls', () => {
+    const fail = (command: string) =>
+      runTool(
+        'run_shell_command',
+        { command },
+        { error: 'Command not found: pnpm (pid 4242)' },
+      );
+
+    expect(fail('pnpm build')).toBeNull();
+    expect(fail('pnpm run build')).toBeNull();
+    expect(fail('pnpm -r build')).toBeNull();
+    const loop = fail('pnpm build --force');
+    expect(loop).toEqual({
+      kind: 'repeated-failure',
+      description:
+        'run_shell_command failed 4 times with the same error: Command not found: pnpm (pid #)',
+    });
+  });
+
+  it('starts over after reporting a loop', () => {
+    const fail = () =>
+      runTool('web_fetch', { prompt: 'x' }, { error: 'network down' });
+
+    for (let i = 0; i < 3; i++) {
+      fail();
+    }
+    expect(fail()).not.toBeNull();
+    expect(fail()).toBeNull();
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import type { Part } from '@google/genai';
+
+/** Number of recent tool outcomes kept for analysis. */
+const OUTCOME_HISTORY_LIMIT = 50;
+
+/** Longest sequence of tool calls that is checked for repetition. */
+const MAX_CYCLE_LENGTH = 6;
+
+/** How many times a sequence must repeat back to back to count as a cycle. */
+const CYCLE_REPETITIONS = 3;
+
+/** How many identical failures within the window count as a loop. */
+const REPEATED_FAILURE_THRESHOLD = 4;
+const REPEATED_FAILURE_WINDOW = 12;
+
+/** Number of trailing output lines that identify a failed shell command. */
+const FAILURE_TAIL_LINES = 3;
+const MAX_FAILURE_SIGNATURE_LENGTH = 300;
+
+export type ToolOutcomeLoopKind = 'cycle' | 'repeated-failure';
+
+/**
+ * A cycle or a repeated failure found in the outcomes of recent tool calls.
+ */
+export interface ToolOutcomeLoop {
+  kind: ToolOutcomeLoopKind;
+  /** Short summary of the loop, suitable for the user and the model. */
+  description: string;
+}
+
+interface ToolOutcomeStep {
+  toolName: string;
+  /** Fingerprint of the call, stable across insignificant differences. */
+  action: string;
+  /** Normalized error of a failed call, undefined when it succeeded. */
+  failure?: string;
+}
+
+/**
+ * Detects loops from what tool calls did rather than from their exact
+ * arguments. Calls are fingerprinted after normalizing whitespace, and an
+ * edit that reverts an earlier edit gets the same fingerprint as the edit,
+ * so near-identical work is recognized. Two patterns are reported:
+ *
+ * - cycles, where the same short sequence of calls with the same outcomes
+ *   repeats back to back (edit → failing test → revert → edit, or reading
+ *   the same files in turn);
+ * - repeated failures, where one tool keeps failing with the same error,
+ *   even if the calls themselves differ slightly.
+ */
+export class ToolOutcomeLoopDetector {
+  private readonly pendingCalls = new Map<
+    string,
+    { toolName: string; action: string }
+  >();
+  private steps: ToolOutcomeStep[] = [];
+
+  /**
+   * Remembers a tool call requested by the model so that its response can
+   * be matched to it later.
+   */
+  recordCall(call: {
+    callId: string;
+    name: string;
+    args: Record<string, unknown>;
+  }): void {
+    this.pendingCalls.set(call.callId, {
+      toolName: call.name,
+      action: fingerprintToolCall(call.name, call.args),
+    });
+  }
+
+  /**
+   * Records the tool responses sent back to the model and checks the
+   * outcome history for loops. The history is cleared when a loop is
+   * reported, so the same loop is not reported again straight away.
+   * @returns the loop that was found, or null
+   */
+  recordResponses(parts: Part[]): ToolOutcomeLoop | null {
+    let recorded = false;
+    for (const part of parts) {
+      const functionResponse = part.functionResponse;
+      if (!functionResponse?.name) {
+        continue;
+      }
+      const call =
+        (functionResponse.id && this.pendingCalls.get(functionResponse.id)) ||
+        undefined;
+      this.steps.push({
+        toolName: functionResponse.name,
+        action: call?.action ?? fingerprintToolCall(functionResponse.name, {}),
+        failure: getFailureSignature(functionResponse.response),
+      });
+      recorded = true;
+    }
+    this.pendingCalls.clear();
+
+    if (!recorded) {
+      return null;
+    }
+    if (this.steps.length > OUTCOME_HISTORY_LIMIT) {
+      this.steps = this.steps.slice(-OUTCOME_HISTORY_LIMIT);
+    }
+
+    const loop = this.findCycle() ?? this.findRepeatedFailure();
+    if (loop) {
+      this.steps = [];
+    }
+    return loop;
+  }
+
+  reset(): void {
+    this.pendingCalls.clear();
+    this.steps = [];
+  }
+
+  private findCycle(): ToolOutcomeLoop | null {
+    for (let length = 2; length <= MAX_CYCLE_LENGTH; length++) {
+      const span = length * CYCLE_REPETITIONS;
+      if (span > this.steps.length) {
+        break;
+      }
+      const tail = this.steps.slice(-span);
+      let repeats = true;
+      for (let i = 0; i + length < tail.length; i++) {
+        if (stepKey(tail[i]) !== stepKey(tail[i + length])) {
+          repeats = false;
+          break;
+        }
+      }
+      if (repeats) {
+        const sequence = tail
+          .slice(0, length)
+          .map((step) =>
+            step.failure ? `${step.toolName} (failed)` : step.toolName,
+          )
+          .join(' → ');
+        return {
+          kind: 'cycle',
+          description: `the same tool calls (${sequence}) were repeated ${CYCLE_REPETITIONS} times with the same results`,
+        };
+      }
+    }
+    return null;
+  }
+
+  private findRepeatedFailure(): ToolOutcomeLoop | null {
+    const latest = this.steps[this.steps.length - 1];
+    if (!latest.failure) {
+      return null;
+    }
+    const count = this.steps
+      .slice(-REPEATED_FAILURE_WINDOW)
+      .filter(
+        (step) =>
+          step.toolName === latest.toolName && step.failure === latest.failure,
+      ).length;
+    if (count < REPEATED_FAILURE_THRESHOLD) {
+      return null;
+    }
+    const error =
+      latest.failure.length > 120
+        ? `${latest.failure.slice(0, 117)}...`
+        : latest.failure;
+    return {
+      kind: 'repeated-failure',
+      description: `${latest.toolName} failed ${count} times with the same error: ${error}`,
+    };
+  }
+}
+
+function stepKey(step: ToolOutcomeStep): string {
+  return `${step.action}|${step.failure ?? 'ok'}`;
+}
+
+/**
+ * Fingerprints a tool call. Strings are compared with whitespace collapsed,
+ * and an `old_string`/`new_string` pair is treated as an unordered change so
+ * that reverting an edit looks the same as making it.
+ */
+function fingerprintToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+): string {
+  const canonical: Record<string, unknown> = { ...args };
+  if (
+    typeof canonical['old_string'] === 'string' &&
+    typeof canonical['new_string'] === 'string'
+  ) {
+    canonical['change'] = [
+      collapseWhitespace(canonical['old_string']),
+      collapseWhitespace(canonical['new_string']),
+    ].sort();
+    delete canonical['old_string'];
+    delete canonical['new_string'];
+  }
+  const serialized = JSON.stringify(canonicalize(canonical));
+  return createHash('sha256').update(`${toolName}:${serialized}`).digest('hex');
+}
+
+function canonicalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return collapseWhitespace(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [
+          key,
+          canonicalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+  return value;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Returns a normalized signature of the error in a tool response, or
+ * undefined when the call succeeded. Shell commands count as failed when
+ * they exit with a non-zero code; their signature is the tail of their
+ * output. Numbers are masked so timings, line numbers and process ids do
+ * not make identical failures look different.
+ */
+function getFailureSignature(
+  response: Record<string, unknown> | undefined,
+): string | undefined {
+  if (!response) {
+    return undefined;
+  }
+
+  const error = response['error'];
+  if (error !== undefined && error !== null) {
+    return maskFailure(
+      typeof error === 'string' ? error : JSON.stringify(error),
+    );
+  }
+
+  const output = response['output'];
+  if (typeof output !== 'string') {
+    return undefined;
+  }
+  const exitCode = output.match(/^Exit Code: (\d+)$/m)?.[1];
+  if (!exitCode || exitCode === '0') {
+    return undefined;
+  }
+  const errorLine = output.search(/^Error: /m);
+  const tail = output
+    .slice(0, errorLine === -1 ? undefined : errorLine)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && line !== 'Stderr: (empty)')
+    .slice(-FAILURE_TAIL_LINES)
+    .join(' ');
+  return `exit code ${exitCode}: ${maskFailure(tail)}`;
+}
+
+function maskFailure(text: string): string {
+  return collapseWhitespace(text.replace(/\d+/g, '#')).slice(
+    0,
+    MAX_FAILURE_SIGNATURE_LENGTH,
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SESSION_FILE_VERSION,
+  SessionStore,
+  type PersistedSession,
+} from './SessionStore.js';
+
+function createSession(
+  sessionId: string,
+  updatedAt: string,
+  prompt = 'hello',
+): PersistedSession {
+  return {
+    version: SESSION_FILE_VERSION,
+    sessionId,
+    projectRoot: '/work/project',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt,
+    profileName: 'work',
+    runtime: {
+      version: 1,
+      provider: 'openai',
+      model: 'gpt-4.1',
+      modelParams: { temperature: 0.2 },
+      ephemeralSettings: { 'context-limit': 100000 },
+    },
+    todos: [
+      { id: '1', content: 'write tests', status: 'pending', priority: 'high' },
+    ],
+    history: [
+      { speaker: 'human', blocks: [{ type: 'text', text: prompt }] },
+      {
+        speaker: 'ai',
+        blocks: [
+          {
+            type: 'tool_call',
+            id: 'hist_tool_1',
+            name: 'ls',
+            parameters: { path: '.' },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe('SessionStore', () => {
+  let sessionsDir: string;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    sessionsDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'llxprt-sessions-'),
+    );
+    store = new SessionStore(sessionsDir);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(sessionsDir, { recursive: true, force: true });
+  });
+
+  /** Sets each session file's modification time to the given second */
+  async function setWriteTimes(seconds: Record<string, number>) {
+    for (const [sessionId, time] of Object.entries(seconds)) {
+      await fs.promises.utimes(
+        path.join(sessionsDir, `${sessionId}.json`),
+        time,
+        time,
+      );
+    }
+  }
+
+  it('round-trips sessions without leaving temp files', async () => {
+    const session = createSession('abc-123', '2025-01-02T00:00:00.000Z');
+    await store.save(session);
+    await store.save({ ...session, updatedAt: '2025-01-03T00:00:00.000Z' });
+
+    await expect(store.load('abc-123')).resolves.toEqual({
+      ...session,
+      updatedAt: '2025-01-03T00:00:00.000Z',
+    });
+    expect(await fs.promises.readdir(sessionsDir)).toEqual(['abc-123.json']);
+  });
+
+  it('lists newest sessions first and skips unreadable files', async () => {
+    await store.save(
+      createSession('older', '2025-01-02T00:00:00.000Z', 'first task'),
+    );
+    await store.save(
+      createSession(
+        'newer',
+        '2025-01-05T00:00:00.000Z',
+        `  fix the\n  build ${'x'.repeat(100)}`,
+      ),
+    );
+    await fs.promises.writeFile(path.join(sessionsDir, 'broken.json'), '{');
+
+    const summaries = await store.list();
+    expect(summaries.map((summary) => summary.sessionId)).toEqual([
+      'newer',
+      'older',
+    ]);
+    expect(summaries[1]).toEqual({
+      sessionId: 'older',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+      provider: 'openai',
+      model: 'gpt-4.1',
+      profileName: 'work',
+      messageCount: 2,
+      preview: 'first task',
+    });
+    expect(summaries[0].preview).toHaveLength(80);
+    expect(summaries[0].preview.startsWith('fix the build x')).toBe(true);
+  });
+
+  it('loads the most recently written readable session', async () => {
+    await store.save(createSession('older', '2025-01-02T00:00:00.000Z'));
+    await store.save(createSession('newer', '2025-01-05T00:00:00.000Z'));
+    await fs.promises.writeFile(path.join(sessionsDir, 'broken.json'), '{');
+    await setWriteTimes({ older: 1, newer: 2, broken: 3 });
+
+    await expect(store.loadMostRecent()).resolves.toMatchObject({
+      sessionId: 'newer',
+    });
+  });
+
+  it('deletes the least recently written sessions beyond the limit', async () => {
+    const limited = new SessionStore(sessionsDir, 2);
+    await limited.save(createSession('first', '2025-01-02T00:00:00.000Z'));
+    await limited.save(createSession('second', '2025-01-03T00:00:00.000Z'));
+    await setWriteTimes({ first: 2, second: 1 });
+
+    await limited.save(createSession('third', '2025-01-04T00:00:00.000Z'));
+
+    expect((await fs.promises.readdir(sessionsDir)).sort()).toEqual([
+      'first.json',
+      'third.json',
+    ]);
+  });
+
+  it('finds sessions by unique id prefix', async () => {
+    await store.save(createSession('a1b2', '2025-01-02T00:00:00.000Z'));
+    await store.save(createSession('a1c3', '2025-01-03T00:00:00.000Z'));
+
+    await expect(store.find('a1b')).resolves.toMatchObject({
+      sessionId: 'a1b2',
+    });
+    await expect(store.find('zz')).resolves.toBeNull();
+    await expect(store.find('a1')).rejects.toThrow('ambiguous');
+  });
+
+  it('rejects session ids that are not plain file names', async () => {
+    await expect(
+      store.save(createSession('../escape', '2025-01-02T00:00:00.000Z')),
+    ).rejects.toThrow("Invalid session id '../escape'");
+    await expect(store.find('../escape')).resolves.toBeNull();
+  });
+});
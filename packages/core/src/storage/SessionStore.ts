@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Storage } from '../config/storage.js';
+import type { IContent } from '../services/history/IContent.js';
+import type { HistoryTreeSnapshot } from '../services/history/HistoryBranches.js';
+import type { Todo } from '../tools/todo-schemas.js';
+import type { Profile } from '../types/modelParams.js';
+
+export const SESSION_FILE_VERSION = 1;
+/** Sessions kept per project; older ones are deleted when a session is saved */
+export const MAX_SAVED_SESSIONS = 100;
+
+const SESSION_FILE_SUFFIX = '.json';
+const SESSION_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+const PREVIEW_LENGTH = 80;
+
+/**
+ * Everything needed to pick a conversation back up: the structured history
+ * plus the runtime state (provider, model, params, ephemerals) and todos that
+ * were active when it was saved.
+ */
+export interface PersistedSession {
+  version: typeof SESSION_FILE_VERSION;
+  sessionId: string;
+  projectRoot: string;
+  createdAt: string;
+  updatedAt: string;
+  profileName: string | null;
+  runtime: Profile;
+  todos: Todo[];
+  history: IContent[];
+  /** Every conversation branch; absent when only one branch ever existed */
+  historyTree?: HistoryTreeSnapshot;
+}
+
+export interface PersistedSessionSummary {
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+  provider: string;
+  model: string;
+  profileName: string | null;
+  messageCount: number;
+  /** First user message, collapsed to a single line */
+  preview: string;
+}
+
+function isPersistedSession(value: unknown): value is PersistedSession {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const session = value as Partial<PersistedSession>;
+  return (
+    session.version === SESSION_FILE_VERSION &&
+    typeof session.sessionId === 'string' &&
+    typeof session.updatedAt === 'string' &&
+    typeof session.runtime === 'object' &&
+    session.runtime !== null &&
+    Array.isArray(session.history)
+  );
+}
+
+function summarize(session: PersistedSession): PersistedSessionSummary {
+  const firstPrompt = session.history
+    .find((content) => content.speaker === 'human')
+    ?.blocks.find((block) => block.type === 'text');
+  const preview =
+    firstPrompt?.type === 'text'
+      ? firstPrompt.text.replace(/\s+/g, ' ').trim()
+      : '';
+  return {
+    sessionId: session.sessionId,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    provider: session.runtime.provider,
+    model: session.runtime.model,
+    profileName: session.profileName,
+    messageCount: session.history.length,
+    preview:
+      preview.length > PREVIEW_LENGTH
+        ? `${preview.slice(0, PREVIEW_LENGTH - 1)}…`
+        : preview,
+  };
+}
+
+interface SessionFile {
+  sessionId: string;
+  mtimeMs: number;
+}
+
+/**
+ * Stores auto-saved sessions for one project.
+ * Sessions are stored in ~/.llxprt/sessions/<project-hash>/<sessionId>.json
+ */
+export class SessionStore {
+  private readonly sessionsDir: string;
+  private readonly maxSessions: number;
+
+  /**
+   * @param sessionsDir Directory holding the session files, usually
+   * Storage.getProjectSessionsDir().
+   * @param maxSessions Sessions to keep; the least recently saved beyond
+   * this are deleted on save
+   */
+  constructor(sessionsDir: string, maxSessions = MAX_SAVED_SESSIONS) {
+    this.sessionsDir = sessionsDir;
+    this.maxSessions = maxSessions;
+  }
+
+  static forProject(storage: Storage): SessionStore {
+    return new SessionStore(storage.getProjectSessionsDir());
+  }
+
+  private getSessionPath(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session id '${sessionId}'`);
+    }
+    return path.join(this.sessionsDir, `${sessionId}${SESSION_FILE_SUFFIX}`);
+  }
+
+  /**
+   * Session files, most recently written first. Only the directory is read,
+   * so this stays cheap however large the sessions are.
+   */
+  private async listSessionFiles(): Promise<SessionFile[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.sessionsDir);
+    } catch {
+      return [];
+    }
+
+    const sessionFiles: SessionFile[] = [];
+    for (const file of files) {
+      const sessionId = file.slice(0, -SESSION_FILE_SUFFIX.length);
+      if (
+        !file.endsWith(SESSION_FILE_SUFFIX) ||
+        !SESSION_ID_PATTERN.test(sessionId)
+      ) {
+        continue;
+      }
+      try {
+        const stats = await fs.promises.stat(path.join(this.sessionsDir, file));
+        sessionFiles.push({ sessionId, mtimeMs: stats.mtimeMs });
+      } catch {
+        // Deleted since readdir
+      }
+    }
+    return sessionFiles.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  }
+
+  /**
+   * Deletes the least recently written sessions beyond the retention limit,
+   * never the one just saved.
+   */
+  private async prune(savedSessionId: string): Promise<void> {
+    const stale = (await this.listSessionFiles())
+      .filter((file) => file.sessionId !== savedSessionId)
+      .slice(this.maxSessions - 1);
+    for (const file of stale) {
+      await this.delete(file.sessionId);
+    }
+  }
+
+  /**
+   * Writes the session atomically so a crash mid-write never leaves a
+   * truncated file behind, then applies the retention limit.
+   */
+  async save(session: PersistedSession): Promise<void> {
+    const filePath = this.getSessionPath(session.sessionId);
+    await fs.promises.mkdir(this.sessionsDir, { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(session), {
+      encoding: 'utf8',
+      mode: 0o600,
+    });
+    try {
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+    await this.prune(session.sessionId);
+  }
+
+  /**
+   * @returns The session, or null if it does not exist or is unreadable
+   */
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    try {
+      const content = await fs.promises.readFile(
+        this.getSessionPath(sessionId),
+        'utf8',
+      );
+      const parsed: unknown = JSON.parse(content);
+      return isPersistedSession(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lists saved sessions, most recently updated first.
+   */
+  async list(): Promise<PersistedSessionSummary[]> {
+    const summaries: PersistedSessionSummary[] = [];
+    for (const { sessionId } of await this.listSessionFiles()) {
+      const session = await this.load(sessionId);
+      if (session) {
+        summaries.push(summarize(session));
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Loads the most recently written session, reading only as many files as
+   * it takes to find a valid one.
+   */
+  async loadMostRecent(): Promise<PersistedSession | null> {
+    for (const { sessionId } of await this.listSessionFiles()) {
+      const session = await this.load(sessionId);
+      if (session) {
+        return session;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds a session by its full id or a unique id prefix.
+   * @throws Error if the prefix matches more than one session
+   */
+  async find(idOrPrefix: string): Promise<PersistedSession | null> {
+    const query = idOrPrefix.trim();
+    if (!query || !SESSION_ID_PATTERN.test(query)) {
+      return null;
+    }
+    const exact = await this.load(query);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = (await this.listSessionFiles()).filter((file) =>
+      file.sessionId.startsWith(query),
+    );
+    if (matches.length > 1) {
+      throw new Error(
+        `Session id '${query}' is ambiguous; it matches ${matches.length} sessions.`,
+      );
+    }
+    return matches.length === 1 ? this.load(matches[0].sessionId) : null;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getSessionPath(sessionId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
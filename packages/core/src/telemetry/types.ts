@@ -276,6 +276,8 @@ export enum LoopType {
   CHANTING_IDENTICAL_SENTENCES = 'chanting_identical_sentences',
   LLM_DETECTED_LOOP = 'llm_detected_loop', // Deprecated - no longer used
   MAX_TURNS_EXCEEDED = 'max_turns_exceeded',
+  TOOL_OUTCOME_CYCLE = 'tool_outcome_cycle',
+  REPEATED_TOOL_FAILURE = 'repeated_tool_failure',
 }
 
 export class LoopDetectedEvent {
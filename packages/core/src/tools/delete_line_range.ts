@@ -125,8 +125,15 @@ class DeleteLineRangeToolInvocation extends BaseToolInvocation<
         path.extname(this.params.absolute_path),
       );
 
+      let llmContent = `Successfully deleted lines ${this.params.start_line}-${this.params.end_line} from ${this.params.absolute_path}`;
+      const diagnostics = await this.config
+        .getLspService?.()
+        ?.getDiagnosticsMessage([this.params.absolute_path]);
+      if (diagnostics) {
+        llmContent += `\n\n${diagnostics}`;
+      }
       return {
-        llmContent: `Successfully deleted lines ${this.params.start_line}-${this.params.end_line} from ${this.params.absolute_path}`,
+        llmContent,
         returnDisplay: `Deleted ${count} lines (${this.params.start_line}-${this.params.end_line})`,
       };
     } catch (error) {
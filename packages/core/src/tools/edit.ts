@@ -581,6 +581,13 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
         );
       }
 
+      const diagnostics = await this.config
+        .getLspService?.()
+        ?.getDiagnosticsMessage([this.params.file_path]);
+      if (diagnostics) {
+        llmSuccessMessageParts.push(`\n\n${diagnostics}`);
+      }
+
       const result: ToolResult = {
         llmContent: llmSuccessMessageParts.join(' '),
         returnDisplay: displayResult,
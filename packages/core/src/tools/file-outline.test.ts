@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { FileOutlineTool } from './file-outline.js';
+import { ToolErrorType } from './tool-error.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { SymbolIndexService } from '../services/symbolIndexService.js';
+import { Config } from '../config/config.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+describe('FileOutlineTool', () => {
+  let rootDir: string;
+  let tool: FileOutlineTool;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-outline-'));
+    const config = {
+      getTargetDir: () => rootDir,
+      getFileService: () => new FileDiscoveryService(rootDir),
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+    } as unknown as Config;
+    const symbolIndex = new SymbolIndexService(config);
+    (
+      config as unknown as { getSymbolIndex: () => SymbolIndexService }
+    ).getSymbolIndex = () => symbolIndex;
+    tool = new FileOutlineTool(config);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('lists declarations nested under their containers', async () => {
+    const file = path.join(rootDir, 'shapes.ts');
+    await fs.writeFile(
+      file,
+      [
+        'export interface Shape {',
+        '  area(): number;',
+        '}',
+        '',
+        'export class Square implements Shape {',
+        '  constructor(private side: number) {}',
+        '  area() {',
+        '    return this.side ** 2;',
+        '  }',
+        '}',
+        'export const unit = new Square(1);',
+      ].join('\n'),
+    );
+
+    const result = await tool
+      .build({ absolute_path: file })
+      .execute(abortSignal);
+
+    expect(result.llmContent).toContain(
+      [
+        'interface Shape (lines 1-3)',
+        '  method area (lines 2-2)',
+        'class Square (lines 5-10)',
+        '  method constructor (lines 6-6)',
+        '  method area (lines 7-9)',
+        'constant unit (lines 11-11)',
+      ].join('\n'),
+    );
+    expect(result.returnDisplay).toBe('Found 6 declaration(s)');
+  });
+
+  it('reports unsupported languages', async () => {
+    const file = path.join(rootDir, 'notes.md');
+    await fs.writeFile(file, '# Notes');
+
+    const result = await tool
+      .build({ absolute_path: file })
+      .execute(abortSignal);
+
+    expect(result.error?.type).toBe(ToolErrorType.UNSUPPORTED_LANGUAGE);
+  });
+
+  it('rejects relative paths and paths outside the workspace', () => {
+    expect(() => tool.build({ absolute_path: 'shapes.ts' })).toThrow(
+      'File path must be absolute',
+    );
+    expect(() =>
+      tool.build({ absolute_path: path.join(os.tmpdir(), 'elsewhere.ts') }),
+    ).toThrow('File path must be within one of the workspace directories');
+  });
+});
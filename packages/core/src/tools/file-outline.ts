@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { Config } from '../config/config.js';
+import { ToolErrorType } from './tool-error.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getLanguageId } from '../utils/filesearch/languages.js';
+import { isSymbolLanguage } from '../utils/symbols/symbolParser.js';
+
+/**
+ * Parameters for the FileOutline tool
+ */
+export interface FileOutlineToolParams {
+  /**
+   * The absolute path to the file to outline
+   */
+  absolute_path: string;
+}
+
+class FileOutlineToolInvocation extends BaseToolInvocation<
+  FileOutlineToolParams,
+  ToolResult
+> {
+  constructor(
+    private config: Config,
+    params: FileOutlineToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const relativePath = makeRelative(
+      this.params.absolute_path,
+      this.config.getTargetDir(),
+    );
+    return shortenPath(relativePath);
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.params.absolute_path }];
+  }
+
+  async execute(): Promise<ToolResult> {
+    const filePath = this.params.absolute_path;
+    if (!fs.existsSync(filePath)) {
+      const errorMessage = `File not found: ${filePath}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'File not found.',
+        error: { message: errorMessage, type: ToolErrorType.FILE_NOT_FOUND },
+      };
+    }
+    if (fs.statSync(filePath).isDirectory()) {
+      const errorMessage = `Path is a directory, not a file: ${filePath}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'Path is a directory.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.TARGET_IS_DIRECTORY,
+        },
+      };
+    }
+
+    const language = getLanguageId(filePath);
+    if (!isSymbolLanguage(language)) {
+      const errorMessage = `Outlines are only available for TypeScript, JavaScript, Python, Go and Rust files: ${filePath}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'Unsupported language.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.UNSUPPORTED_LANGUAGE,
+        },
+      };
+    }
+
+    const symbols = await this.config.getSymbolIndex().getFileSymbols(filePath);
+    if (symbols === undefined) {
+      const errorMessage = `Could not read file: ${filePath}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'Error reading file.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.READ_CONTENT_FAILURE,
+        },
+      };
+    }
+    if (symbols.length === 0) {
+      return {
+        llmContent: `No declarations found in ${filePath}.`,
+        returnDisplay: 'No declarations found',
+      };
+    }
+
+    // Symbols are in source order, so each one's container is still open
+    // on the stack when it is reached.
+    const open: Array<{ path: string; endLine: number }> = [];
+    const lines = symbols.map((symbol) => {
+      while (
+        open.length > 0 &&
+        (symbol.startLine > open[open.length - 1].endLine ||
+          open[open.length - 1].path !== symbol.container)
+      ) {
+        open.pop();
+      }
+      const indent = '  '.repeat(open.length);
+      open.push({
+        path: symbol.container
+          ? `${symbol.container}.${symbol.name}`
+          : symbol.name,
+        endLine: symbol.endLine,
+      });
+      return `${indent}${symbol.kind} ${symbol.name} (lines ${symbol.startLine}-${symbol.endLine})`;
+    });
+
+    return {
+      llmContent: `Outline of ${filePath} (${language}):\n${lines.join('\n')}\n\nLine ranges are 1-based and inclusive; pass them to read_line_range to read a declaration.`,
+      returnDisplay: `Found ${symbols.length} declaration(s)`,
+    };
+  }
+}
+
+/**
+ * Implementation of the FileOutline tool logic
+ */
+export class FileOutlineTool extends BaseDeclarativeTool<
+  FileOutlineToolParams,
+  ToolResult
+> {
+  static readonly Name = 'file_outline';
+
+  constructor(private config: Config) {
+    super(
+      FileOutlineTool.Name,
+      'FileOutline',
+      "Lists the declarations in a TypeScript, JavaScript, Python, Go or Rust file (classes, functions, methods, types, variables, ...) with their 1-based line ranges, nested under their containers. Use it to understand a file's structure without reading it all, then read specific declarations with read_line_range.",
+      Kind.Read,
+      {
+        properties: {
+          absolute_path: {
+            description:
+              "The absolute path to the file to outline (e.g., '/home/user/project/src/index.ts'). Relative paths are not supported. You must provide an absolute path.",
+            type: 'string',
+          },
+        },
+        required: ['absolute_path'],
+        type: 'object',
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: FileOutlineToolParams,
+  ): string | null {
+    if (!params.absolute_path || params.absolute_path.trim() === '') {
+      return "The 'absolute_path' parameter must be non-empty.";
+    }
+
+    if (!path.isAbsolute(params.absolute_path)) {
+      return `File path must be absolute: ${params.absolute_path}`;
+    }
+
+    const workspaceContext = this.config.getWorkspaceContext();
+    if (!workspaceContext.isPathWithinWorkspace(params.absolute_path)) {
+      const directories = workspaceContext.getDirectories();
+      return `File path must be within one of the workspace directories: ${directories.join(', ')}`;
+    }
+
+    const fileService = this.config.getFileService();
+    if (fileService.shouldLlxprtIgnoreFile(params.absolute_path)) {
+      return `File path '${params.absolute_path}' is ignored by .llxprtignore pattern(s).`;
+    }
+
+    return null;
+  }
+
+  protected createInvocation(
+    params: FileOutlineToolParams,
+  ): ToolInvocation<FileOutlineToolParams, ToolResult> {
+    return new FileOutlineToolInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { FindReferencesTool } from './find-references.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { SymbolIndexService } from '../services/symbolIndexService.js';
+import { Config } from '../config/config.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+describe('FindReferencesTool', () => {
+  let rootDir: string;
+  let ephemeralSettings: Record<string, unknown>;
+  let tool: FindReferencesTool;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-references-'));
+    ephemeralSettings = {};
+    const config = {
+      getTargetDir: () => rootDir,
+      getFileService: () => new FileDiscoveryService(rootDir),
+      getFileFilteringOptions: () => ({
+        respectGitIgnore: true,
+        respectLlxprtIgnore: true,
+      }),
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+      getFileExclusions: () => ({
+        getGlobExcludes: () => ['**/node_modules/**'],
+      }),
+      getEphemeralSettings: () => ephemeralSettings,
+    } as unknown as Config;
+    const symbolIndex = new SymbolIndexService(config);
+    (
+      config as unknown as { getSymbolIndex: () => SymbolIndexService }
+    ).getSymbolIndex = () => symbolIndex;
+    tool = new FindReferencesTool(config);
+
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'parser.ts'),
+      [
+        '// Parser reads text',
+        'export class Parser {',
+        "  name = 'Parser';",
+        '}',
+      ].join('\n'),
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'use.ts'),
+      "import { Parser } from './parser.js';\nnew Parser();\n",
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('lists identifier uses outside comments and strings', async () => {
+    const result = await tool.build({ name: 'Parser' }).execute(abortSignal);
+
+    const parserFile = path.join(rootDir, 'src', 'parser.ts');
+    const useFile = path.join(rootDir, 'src', 'use.ts');
+    expect(result.llmContent).toContain(
+      'Found 3 reference(s) to "Parser" in 2 file(s):',
+    );
+    expect(result.llmContent).toContain(
+      `${parserFile}:2:14: export class Parser { [definition]`,
+    );
+    expect(result.llmContent).toContain(
+      `${useFile}:1:10: import { Parser } from './parser.js';`,
+    );
+    expect(result.llmContent).toContain(`${useFile}:2:5: new Parser();`);
+    expect(result.llmContent).not.toContain(`${parserFile}:1:`);
+    expect(result.llmContent).not.toContain(`${parserFile}:3:`);
+    expect(result.returnDisplay).toBe('Found 3 reference(s) in 2 file(s)');
+  });
+
+  it('matches qualified names by their last part within a path', async () => {
+    const result = await tool
+      .build({ name: 'parser.Parser', path: 'src/use.ts' })
+      .execute(abortSignal);
+
+    expect(result.returnDisplay).toBe('Found 2 reference(s) in 1 file(s)');
+  });
+
+  it('limits the output to tool-output-max-items', async () => {
+    ephemeralSettings['tool-output-max-items'] = 2;
+
+    const result = await tool.build({ name: 'Parser' }).execute(abortSignal);
+
+    expect(result.llmContent).toContain('Output limited to 2 references');
+    expect(result.returnDisplay).toBe('Found 3 reference(s) in 2 file(s)');
+  });
+
+  it('reports identifiers without references', async () => {
+    const result = await tool.build({ name: 'Lexer' }).execute(abortSignal);
+
+    expect(result.llmContent).toBe('No references found for "Lexer".');
+    expect(result.returnDisplay).toBe('No references found');
+  });
+
+  it('rejects empty names and paths outside the workspace', () => {
+    expect(() => tool.build({ name: '' })).toThrow(
+      "The 'name' parameter cannot be empty.",
+    );
+    expect(() => tool.build({ name: 'Parser', path: os.tmpdir() })).toThrow(
+      'resolves outside the allowed workspace directories',
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import { Config } from '../config/config.js';
+import { ToolErrorType } from './tool-error.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { resolveSymbolSearchPath } from './find-symbol.js';
+
+/**
+ * Parameters for the FindReferences tool
+ */
+export interface FindReferencesToolParams {
+  /**
+   * The identifier to find
+   */
+  name: string;
+
+  /**
+   * File or directory to search, relative to the target directory or absolute
+   */
+  path?: string;
+}
+
+class FindReferencesToolInvocation extends BaseToolInvocation<
+  FindReferencesToolParams,
+  ToolResult
+> {
+  constructor(
+    private config: Config,
+    params: FindReferencesToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    let description = `'${this.params.name}'`;
+    if (this.params.path) {
+      const searchPath = path.resolve(
+        this.config.getTargetDir(),
+        this.params.path,
+      );
+      description += ` within ${shortenPath(makeRelative(searchPath, this.config.getTargetDir()))}`;
+    }
+    return description;
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const { path: searchPath } = resolveSymbolSearchPath(
+        this.config,
+        this.params.path,
+      );
+      const { references, truncated } = await this.config
+        .getSymbolIndex()
+        .findReferences(this.params.name, { searchPath });
+
+      if (references.length === 0) {
+        return {
+          llmContent: `No references found for "${this.params.name}".`,
+          returnDisplay: 'No references found',
+        };
+      }
+
+      const maxItems =
+        (this.config.getEphemeralSettings()['tool-output-max-items'] as
+          | number
+          | undefined) ?? 50;
+      const shown = references.slice(0, maxItems);
+      const fileCount = new Set(references.map((ref) => ref.filePath)).size;
+      const lines = shown.map(
+        (ref) =>
+          `${ref.filePath}:${ref.line}:${ref.column}: ${ref.lineText}${ref.isDefinition ? ' [definition]' : ''}`,
+      );
+      const total = `${references.length}${truncated ? '+' : ''}`;
+      let llmContent = `Found ${total} reference(s) to "${this.params.name}" in ${fileCount} file(s):\n${lines.join('\n')}`;
+      if (truncated || references.length > shown.length) {
+        llmContent += `\n\n**Note: Output limited to ${shown.length} references. Pass 'path' to narrow the search.**`;
+      }
+
+      return {
+        llmContent,
+        returnDisplay: `Found ${total} reference(s) in ${fileCount} file(s)`,
+      };
+    } catch (error) {
+      const errorMessage = `Error finding references: ${getErrorMessage(error)}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'Error finding references.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.SYMBOL_SEARCH_ERROR,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Implementation of the FindReferences tool logic
+ */
+export class FindReferencesTool extends BaseDeclarativeTool<
+  FindReferencesToolParams,
+  ToolResult
+> {
+  static readonly Name = 'find_references';
+
+  constructor(private config: Config) {
+    super(
+      FindReferencesTool.Name,
+      'FindReferences',
+      'Finds the uses of an identifier in TypeScript, JavaScript, Python, Go and Rust files, ignoring matches in comments and strings. Identifiers are matched by name, so unrelated symbols with the same name are included. Declarations are marked with [definition].',
+      Kind.Search,
+      {
+        properties: {
+          name: {
+            description:
+              "The identifier to find. A qualified name such as 'Parser.parse' is matched by its last part.",
+            type: 'string',
+          },
+          path: {
+            description:
+              'Optional: The file or directory to search. If omitted, searches all workspace directories.',
+            type: 'string',
+          },
+        },
+        required: ['name'],
+        type: 'object',
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: FindReferencesToolParams,
+  ): string | null {
+    if (!params.name || params.name.trim() === '') {
+      return "The 'name' parameter cannot be empty.";
+    }
+    return resolveSymbolSearchPath(this.config, params.path).error ?? null;
+  }
+
+  protected createInvocation(
+    params: FindReferencesToolParams,
+  ): ToolInvocation<FindReferencesToolParams, ToolResult> {
+    return new FindReferencesToolInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { FindSymbolTool } from './find-symbol.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { SymbolIndexService } from '../services/symbolIndexService.js';
+import { Config } from '../config/config.js';
+import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
+
+describe('FindSymbolTool', () => {
+  let rootDir: string;
+  let ephemeralSettings: Record<string, unknown>;
+  let tool: FindSymbolTool;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'find-symbol-'));
+    ephemeralSettings = {};
+    const config = {
+      getTargetDir: () => rootDir,
+      getFileService: () => new FileDiscoveryService(rootDir),
+      getFileFilteringOptions: () => ({
+        respectGitIgnore: true,
+        respectLlxprtIgnore: true,
+      }),
+      getWorkspaceContext: () => createMockWorkspaceContext(rootDir),
+      getFileExclusions: () => ({
+        getGlobExcludes: () => ['**/node_modules/**'],
+      }),
+      getEphemeralSettings: () => ephemeralSettings,
+    } as unknown as Config;
+    const symbolIndex = new SymbolIndexService(config);
+    (
+      config as unknown as { getSymbolIndex: () => SymbolIndexService }
+    ).getSymbolIndex = () => symbolIndex;
+    tool = new FindSymbolTool(config);
+
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'parser.ts'),
+      [
+        'export class Parser {',
+        '  parse(text: string) {',
+        '    return text;',
+        '  }',
+        '}',
+        'export function parse(text: string) {',
+        '  return new Parser().parse(text);',
+        '}',
+      ].join('\n'),
+    );
+    await fs.writeFile(
+      path.join(rootDir, 'src', 'parse.py'),
+      ['def parse(text):', '    return text'].join('\n'),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('lists the declarations of a symbol with their line ranges', async () => {
+    const result = await tool.build({ name: 'parse' }).execute(abortSignal);
+
+    const parserFile = path.join(rootDir, 'src', 'parser.ts');
+    expect(result.llmContent).toContain('Found 3 definition(s) of "parse":');
+    expect(result.llmContent).toContain(
+      `${parserFile}:2-4 method parse (in Parser)`,
+    );
+    expect(result.llmContent).toContain(`${parserFile}:6-8 function parse`);
+    expect(result.llmContent).toContain(
+      `${path.join(rootDir, 'src', 'parse.py')}:1-2 function parse`,
+    );
+    expect(result.returnDisplay).toBe('Found 3 definition(s)');
+  });
+
+  it('narrows the search by container, kind and path', async () => {
+    const qualified = await tool
+      .build({ name: 'Parser.parse' })
+      .execute(abortSignal);
+    expect(qualified.returnDisplay).toBe('Found 1 definition(s)');
+    expect(qualified.llmContent).toContain('method parse (in Parser)');
+
+    const functions = await tool
+      .build({ name: 'parse', kind: 'function', path: 'src/parse.py' })
+      .execute(abortSignal);
+    expect(functions.returnDisplay).toBe('Found 1 definition(s)');
+    expect(functions.llmContent).toContain('parse.py:1-2 function parse');
+  });
+
+  it('limits the output to tool-output-max-items', async () => {
+    ephemeralSettings['tool-output-max-items'] = 1;
+
+    const result = await tool.build({ name: 'parse' }).execute(abortSignal);
+
+    expect(result.llmContent).toContain('Output limited to 1 of 3 definitions');
+    expect(result.returnDisplay).toBe('Found 3 definition(s)');
+  });
+
+  it('reports symbols without definitions', async () => {
+    const result = await tool.build({ name: 'missing' }).execute(abortSignal);
+
+    expect(result.llmContent).toContain('No definitions found for "missing"');
+    expect(result.returnDisplay).toBe('No definitions found');
+  });
+
+  it('rejects empty names and paths outside the workspace', () => {
+    expect(() => tool.build({ name: ' ' })).toThrow(
+      "The 'name' parameter cannot be empty.",
+    );
+    expect(() => tool.build({ name: 'parse', path: os.tmpdir() })).toThrow(
+      'resolves outside the allowed workspace directories',
+    );
+    expect(() => tool.build({ name: 'parse', path: 'nowhere' })).toThrow(
+      'Search path does not exist',
+    );
+  });
+});
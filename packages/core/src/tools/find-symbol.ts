@@ -0,0 +1,216 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import { Config } from '../config/config.js';
+import { ToolErrorType } from './tool-error.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { SymbolKind } from '../utils/symbols/symbolParser.js';
+
+const SYMBOL_KINDS: SymbolKind[] = [
+  'class',
+  'interface',
+  'enum',
+  'type',
+  'function',
+  'method',
+  'property',
+  'variable',
+  'constant',
+  'namespace',
+  'module',
+  'struct',
+  'trait',
+  'impl',
+  'macro',
+];
+
+/**
+ * Parameters for the FindSymbol tool
+ */
+export interface FindSymbolToolParams {
+  /**
+   * The symbol name, optionally qualified with its container
+   */
+  name: string;
+
+  /**
+   * Only return symbols of this kind
+   */
+  kind?: SymbolKind;
+
+  /**
+   * File or directory to search, relative to the target directory or absolute
+   */
+  path?: string;
+}
+
+/**
+ * Resolves the optional `path` parameter of the symbol tools and checks
+ * that it is an existing path within the workspace.
+ */
+export function resolveSymbolSearchPath(
+  config: Config,
+  searchPath: string | undefined,
+): { path?: string; error?: string } {
+  if (!searchPath) {
+    return {};
+  }
+  const resolved = path.resolve(config.getTargetDir(), searchPath);
+  const workspaceContext = config.getWorkspaceContext();
+  if (!workspaceContext.isPathWithinWorkspace(resolved)) {
+    return {
+      error: `Search path ("${resolved}") resolves outside the allowed workspace directories: ${workspaceContext.getDirectories().join(', ')}`,
+    };
+  }
+  if (!fs.existsSync(resolved)) {
+    return { error: `Search path does not exist: ${resolved}` };
+  }
+  return { path: resolved };
+}
+
+class FindSymbolToolInvocation extends BaseToolInvocation<
+  FindSymbolToolParams,
+  ToolResult
+> {
+  constructor(
+    private config: Config,
+    params: FindSymbolToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    let description = `'${this.params.name}'`;
+    if (this.params.path) {
+      const searchPath = path.resolve(
+        this.config.getTargetDir(),
+        this.params.path,
+      );
+      description += ` within ${shortenPath(makeRelative(searchPath, this.config.getTargetDir()))}`;
+    }
+    return description;
+  }
+
+  async execute(): Promise<ToolResult> {
+    try {
+      const { path: searchPath } = resolveSymbolSearchPath(
+        this.config,
+        this.params.path,
+      );
+      const definitions = await this.config
+        .getSymbolIndex()
+        .findDefinitions(this.params.name, {
+          searchPath,
+          kind: this.params.kind,
+        });
+
+      if (definitions.length === 0) {
+        return {
+          llmContent: `No definitions found for "${this.params.name}". The symbol may be declared in an unsupported language or inside a function body; try search_file_content instead.`,
+          returnDisplay: 'No definitions found',
+        };
+      }
+
+      const maxItems =
+        (this.config.getEphemeralSettings()['tool-output-max-items'] as
+          | number
+          | undefined) ?? 50;
+      const shown = definitions.slice(0, maxItems);
+      const lines = shown.map((definition) => {
+        const container = definition.container
+          ? ` (in ${definition.container})`
+          : '';
+        return `${definition.filePath}:${definition.startLine}-${definition.endLine} ${definition.kind} ${definition.name}${container}`;
+      });
+      let llmContent = `Found ${definitions.length} definition(s) of "${this.params.name}":\n${lines.join('\n')}`;
+      if (definitions.length > shown.length) {
+        llmContent += `\n\n**Note: Output limited to ${maxItems} of ${definitions.length} definitions. Qualify the name (e.g. 'Class.method') or pass 'kind' or 'path' to narrow the search.**`;
+      }
+      llmContent +=
+        '\n\nLine ranges are 1-based and inclusive; pass them to read_line_range to read a definition.';
+
+      return {
+        llmContent,
+        returnDisplay: `Found ${definitions.length} definition(s)`,
+      };
+    } catch (error) {
+      const errorMessage = `Error finding symbol: ${getErrorMessage(error)}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'Error finding symbol.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.SYMBOL_SEARCH_ERROR,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Implementation of the FindSymbol tool logic
+ */
+export class FindSymbolTool extends BaseDeclarativeTool<
+  FindSymbolToolParams,
+  ToolResult
+> {
+  static readonly Name = 'find_symbol';
+
+  constructor(private config: Config) {
+    super(
+      FindSymbolTool.Name,
+      'FindSymbol',
+      "Finds where a symbol (class, function, method, type, variable, ...) is declared in TypeScript, JavaScript, Python, Go and Rust files, returning each declaration's file and 1-based line range. Use this instead of searching file contents when looking for a definition, then read it with read_line_range.",
+      Kind.Search,
+      {
+        properties: {
+          name: {
+            description:
+              "The symbol name. Qualify members with their container to narrow the search, e.g. 'Parser.parse' or 'Point::new'.",
+            type: 'string',
+          },
+          kind: {
+            description: 'Optional: Only return symbols of this kind.',
+            type: 'string',
+            enum: SYMBOL_KINDS,
+          },
+          path: {
+            description:
+              'Optional: The file or directory to search. If omitted, searches all workspace directories.',
+            type: 'string',
+          },
+        },
+        required: ['name'],
+        type: 'object',
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: FindSymbolToolParams,
+  ): string | null {
+    if (!params.name || params.name.trim() === '') {
+      return "The 'name' parameter cannot be empty.";
+    }
+    return resolveSymbolSearchPath(this.config, params.path).error ?? null;
+  }
+
+  protected createInvocation(
+    params: FindSymbolToolParams,
+  ): ToolInvocation<FindSymbolToolParams, ToolResult> {
+    return new FindSymbolToolInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { Config } from '../config/config.js';
+import { ToolErrorType } from './tool-error.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { formatDiagnostics } from '../lsp/lspService.js';
+
+/**
+ * Parameters for the GetDiagnostics tool
+ */
+export interface GetDiagnosticsToolParams {
+  /**
+   * Files to check, absolute or relative to the target directory
+   */
+  paths?: string[];
+}
+
+class GetDiagnosticsToolInvocation extends BaseToolInvocation<
+  GetDiagnosticsToolParams,
+  ToolResult
+> {
+  constructor(
+    private config: Config,
+    params: GetDiagnosticsToolParams,
+  ) {
+    super(params);
+  }
+
+  private resolvePaths(): string[] | undefined {
+    return this.params.paths?.map((filePath) =>
+      path.resolve(this.config.getTargetDir(), filePath),
+    );
+  }
+
+  getDescription(): string {
+    const paths = this.resolvePaths();
+    if (!paths || paths.length === 0) {
+      return 'checked files';
+    }
+    return paths
+      .map((filePath) =>
+        shortenPath(makeRelative(filePath, this.config.getTargetDir())),
+      )
+      .join(', ');
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return (this.resolvePaths() ?? []).map((filePath) => ({ path: filePath }));
+  }
+
+  async execute(): Promise<ToolResult> {
+    const lspService = this.config.getLspService();
+    if (!lspService) {
+      const errorMessage = 'No language servers are configured.';
+      return {
+        llmContent: errorMessage,
+        returnDisplay: errorMessage,
+        error: { message: errorMessage, type: ToolErrorType.EXECUTION_FAILED },
+      };
+    }
+
+    const requested = this.resolvePaths();
+    const filePaths =
+      requested && requested.length > 0
+        ? requested
+        : lspService.getCheckedFiles();
+    if (filePaths.length === 0) {
+      return {
+        llmContent:
+          'No files have been checked yet. Pass the files to check in `paths`.',
+        returnDisplay: 'No files to check',
+      };
+    }
+
+    try {
+      const result = await lspService.getDiagnostics(filePaths);
+      if (result.files.length === 0 && result.unavailable.length === 0) {
+        return {
+          llmContent: `No configured language server handles ${filePaths.join(', ')}.`,
+          returnDisplay: 'No language server for these files',
+        };
+      }
+      const problems = result.files.reduce(
+        (count, file) => count + file.diagnostics.length,
+        0,
+      );
+      return {
+        llmContent: formatDiagnostics(result),
+        returnDisplay:
+          problems === 0
+            ? `No problems in ${result.files.length} file(s)`
+            : `Found ${problems} problem(s) in ${result.files.length} file(s)`,
+      };
+    } catch (error) {
+      const errorMessage = `Error getting diagnostics: ${getErrorMessage(error)}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: 'Error getting diagnostics.',
+        error: { message: errorMessage, type: ToolErrorType.EXECUTION_FAILED },
+      };
+    }
+  }
+}
+
+/**
+ * Implementation of the GetDiagnostics tool logic
+ */
+export class GetDiagnosticsTool extends BaseDeclarativeTool<
+  GetDiagnosticsToolParams,
+  ToolResult
+> {
+  static readonly Name = 'get_diagnostics';
+
+  constructor(private config: Config) {
+    super(
+      GetDiagnosticsTool.Name,
+      'GetDiagnostics',
+      'Reports the errors and warnings that the configured language servers find in files, such as type errors and unresolved imports. Files are read from disk, so the results reflect all changes made so far. If no paths are given, re-checks every file checked earlier in the session.',
+      Kind.Read,
+      {
+        properties: {
+          paths: {
+            description:
+              'Optional: The files to check, as absolute paths or paths relative to the target directory.',
+            type: 'array',
+            items: { type: 'string' },
+          },
+        },
+        type: 'object',
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: GetDiagnosticsToolParams,
+  ): string | null {
+    const workspaceContext = this.config.getWorkspaceContext();
+    for (const filePath of params.paths ?? []) {
+      const resolved = path.resolve(this.config.getTargetDir(), filePath);
+      if (!workspaceContext.isPathWithinWorkspace(resolved)) {
+        return `File path must be within one of the workspace directories: ${workspaceContext.getDirectories().join(', ')}`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: GetDiagnosticsToolParams,
+  ): ToolInvocation<GetDiagnosticsToolParams, ToolResult> {
+    return new GetDiagnosticsToolInvocation(this.config, params);
+  }
+}
@@ -15,6 +15,7 @@ import { Config } from '../config/config.js';
 import { createMockWorkspaceContext } from '../test-utils/mockWorkspaceContext.js';
 import { ToolErrorType } from './tool-error.js';
 import * as glob from 'glob';
+import { WorkspaceFileIndex } from '../utils/filesearch/fileIndex.js';
 
 vi.mock('glob', { spy: true });
 
@@ -236,6 +237,90 @@ describe('GlobTool', () => {
     });
   });
 
+  describe('with a workspace file index', () => {
+    let indexDir: string;
+    let indexedGlobTool: GlobTool;
+
+    beforeEach(async () => {
+      indexDir = await fs.mkdtemp(path.join(os.tmpdir(), 'glob-tool-index-'));
+      await fs.writeFile(path.join(tempRootDir, '.gitignore'), 'ignored/\n');
+      await fs.mkdir(path.join(tempRootDir, 'ignored'));
+      await fs.writeFile(path.join(tempRootDir, 'ignored', 'skip.txt'), '');
+      const fileIndex = new WorkspaceFileIndex({
+        projectRoot: tempRootDir,
+        indexFile: path.join(indexDir, 'file-index.json'),
+        useGitignore: true,
+        useGeminiignore: false,
+      });
+      indexedGlobTool = new GlobTool({
+        ...mockConfig,
+        getFileIndex: () => fileIndex,
+      } as unknown as Config);
+      vi.mocked(glob.glob).mockClear();
+    });
+
+    afterEach(async () => {
+      await fs.rm(indexDir, { recursive: true, force: true });
+    });
+
+    it('should match files from the index without walking the disk', async () => {
+      const result = await indexedGlobTool
+        .build({ pattern: '**/*.{txt,md}' })
+        .execute(abortSignal);
+
+      expect(result.llmContent).toContain('Found 4 file(s)');
+      expect(result.llmContent).toContain(
+        path.join(tempRootDir, 'sub', 'FileD.MD'),
+      );
+      expect(result.llmContent).not.toContain('skip.txt');
+      expect(glob.glob).not.toHaveBeenCalled();
+    });
+
+    it('should honor case sensitivity and the search path', async () => {
+      const result = await indexedGlobTool
+        .build({ pattern: '*.md', path: 'sub', case_sensitive: true })
+        .execute(abortSignal);
+
+      expect(result.llmContent).toContain('Found 1 file(s)');
+      expect(result.llmContent).toContain(
+        path.join(tempRootDir, 'sub', 'fileC.md'),
+      );
+    });
+
+    it('should fall back to the disk inside ignored directories', async () => {
+      await indexedGlobTool
+        .build({ pattern: '*.txt', path: 'ignored' })
+        .execute(abortSignal);
+
+      expect(glob.glob).toHaveBeenCalled();
+    });
+
+    it('should walk the disk when the index also applies .llxprtignore', async () => {
+      await fs.writeFile(path.join(tempRootDir, '.llxprtignore'), 'private/\n');
+      await fs.mkdir(path.join(tempRootDir, 'private'));
+      await fs.writeFile(path.join(tempRootDir, 'private', 'notes.txt'), '');
+      const fileIndex = new WorkspaceFileIndex({
+        projectRoot: tempRootDir,
+        indexFile: path.join(indexDir, 'llxprtignore-index.json'),
+        useGitignore: true,
+        useGeminiignore: true,
+      });
+      const tool = new GlobTool({
+        ...mockConfig,
+        getFileIndex: () => fileIndex,
+      } as unknown as Config);
+
+      const result = await tool
+        .build({ pattern: '**/*.txt' })
+        .execute(abortSignal);
+
+      expect(result.llmContent).toContain(
+        path.join(tempRootDir, 'private', 'notes.txt'),
+      );
+      expect(glob.glob).toHaveBeenCalled();
+    });
+  });
+
   describe('validateToolParams', () => {
     it('should return null for valid parameters (pattern only)', () => {
       const params: GlobToolParams = { pattern: '*.js' };
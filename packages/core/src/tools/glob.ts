@@ -7,6 +7,7 @@
 import fs from 'fs';
 import path from 'path';
 import { glob, escape } from 'glob';
+import picomatch from 'picomatch';
 import {
   BaseDeclarativeTool,
   BaseToolInvocation,
@@ -90,6 +91,73 @@ class GlobToolInvocation extends BaseToolInvocation<
     super(params);
   }
 
+  /**
+   * Matches the pattern against the workspace file index instead of walking
+   * the disk. Directories excluded by ignore rules are not in the index, so
+   * this is only used when the index applies the same rules as glob: the
+   * .gitignore files and nothing else.
+   * @returns the matching files, or undefined when the index does not cover
+   * the search directory
+   */
+  private async globFromIndex(
+    searchDir: string,
+    pattern: string,
+    isLiteralPath: boolean,
+  ): Promise<GlobPath[] | undefined> {
+    const fileIndex = this.config.getFileIndex?.();
+    if (
+      !fileIndex?.matchesIgnoreOptions({
+        projectRoot: fileIndex.projectRoot,
+        useGitignore: true,
+        useGeminiignore: false,
+        ignoreDirs: [],
+      })
+    ) {
+      return undefined;
+    }
+    const indexPath = fileIndex.toIndexPath(searchDir);
+    if (indexPath === undefined) {
+      return undefined;
+    }
+    await fileIndex.refresh();
+    const files = fileIndex.listFiles(indexPath);
+    if (!files) {
+      return undefined;
+    }
+
+    const nocase = !this.params.case_sensitive;
+    const literal = path.posix.normalize(pattern.split(path.sep).join('/'));
+    const isMatch = isLiteralPath
+      ? (relativePath: string) =>
+          nocase
+            ? relativePath.toLowerCase() === literal.toLowerCase()
+            : relativePath === literal
+      : picomatch(pattern, { dot: true, nocase });
+    const isExcluded = picomatch(
+      this.config.getFileExclusions().getGlobExcludes(),
+      { dot: true },
+    );
+
+    const prefix = indexPath ? `${indexPath}/` : '';
+    const matches: GlobPath[] = [];
+    for (const file of files) {
+      const relativePath = file.path.slice(prefix.length);
+      if (!isMatch(relativePath) || isExcluded(relativePath)) {
+        continue;
+      }
+      const fullPath = path.join(searchDir, relativePath);
+      // Index metadata can lag behind in-place edits, so stat the matches.
+      let mtimeMs: number;
+      try {
+        mtimeMs = (await fs.promises.lstat(fullPath)).mtimeMs;
+      } catch {
+        continue;
+      }
+      matches.push({ fullpath: () => fullPath, mtimeMs });
+    }
+    return matches;
+  }
+
   getDescription(): string {
     let description = `'${this.params.pattern}'`;
     if (this.params.path) {
@@ -150,7 +218,17 @@ class GlobToolInvocation extends BaseToolInvocation<
       for (const searchDir of searchDirectories) {
         let pattern = this.params.pattern;
         const fullPath = path.join(searchDir, pattern);
-        if (fs.existsSync(fullPath)) {
+        const isLiteralPath = fs.existsSync(fullPath);
+
+        const indexedEntries = respectGitIgnore
+          ? await this.globFromIndex(searchDir, pattern, isLiteralPath)
+          : undefined;
+        if (indexedEntries) {
+          allEntries = allEntries.concat(indexedEntries);
+          continue;
+        }
+
+        if (isLiteralPath) {
           pattern = escape(pattern);
         }
 
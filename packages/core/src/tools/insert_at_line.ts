@@ -146,8 +146,15 @@ class InsertAtLineToolInvocation extends BaseToolInvocation<
       );
 
       const action = fileExists ? 'inserted' : 'created and inserted';
+      let llmContent = `Successfully ${action} content at line ${this.params.line_number} in ${this.params.absolute_path}`;
+      const diagnostics = await this.config
+        .getLspService?.()
+        ?.getDiagnosticsMessage([this.params.absolute_path]);
+      if (diagnostics) {
+        llmContent += `\n\n${diagnostics}`;
+      }
       return {
-        llmContent: `Successfully ${action} content at line ${this.params.line_number} in ${this.params.absolute_path}`,
+        llmContent,
         returnDisplay: `${action.charAt(0).toUpperCase() + action.slice(1)} ${linesInserted} lines at line ${this.params.line_number}`,
       };
     } catch (error) {
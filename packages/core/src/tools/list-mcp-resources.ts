@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolResult,
+} from './tools.js';
+import type { Config } from '../config/config.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
+
+export interface ListMcpResourcesParams {
+  server?: string;
+}
+
+class ListMcpResourcesToolInvocation extends BaseToolInvocation<
+  ListMcpResourcesParams,
+  ToolResult
+> {
+  constructor(
+    params: ListMcpResourcesParams,
+    private readonly registry: ResourceRegistry,
+  ) {
+    super(params);
+  }
+
+  override getDescription(): string {
+    return this.params.server
+      ? `List resources of MCP server '${this.params.server}'`
+      : 'List MCP resources';
+  }
+
+  override async execute(): Promise<ToolResult> {
+    const serverNames = this.registry
+      .getServerNames()
+      .filter((name) => !this.params.server || name === this.params.server);
+    if (serverNames.length === 0) {
+      const message = this.params.server
+        ? `MCP server '${this.params.server}' has no resources.`
+        : 'No MCP server has resources.';
+      return { llmContent: message, returnDisplay: message };
+    }
+
+    const summary = serverNames.map((server) => ({
+      server,
+      resources: this.registry
+        .getResourcesByServer(server)
+        .map(({ uri, name, title, description, mimeType }) => ({
+          uri,
+          name,
+          title,
+          description,
+          mimeType,
+        })),
+      resourceTemplates: this.registry
+        .getResourceTemplatesByServer(server)
+        .map(({ uriTemplate, name, title, description, mimeType }) => ({
+          uriTemplate,
+          name,
+          title,
+          description,
+          mimeType,
+        })),
+    }));
+    const count = summary.reduce(
+      (total, server) =>
+        total + server.resources.length + server.resourceTemplates.length,
+      0,
+    );
+
+    return {
+      llmContent: JSON.stringify(summary, null, 2),
+      returnDisplay: `Found ${count} resources on ${serverNames.join(', ')}`,
+    };
+  }
+}
+
+/**
+ * Lists the resources and resource templates that MCP servers expose.
+ */
+export class ListMcpResourcesTool extends BaseDeclarativeTool<
+  ListMcpResourcesParams,
+  ToolResult
+> {
+  static readonly Name = 'list_mcp_resources';
+
+  constructor(private readonly config: Config) {
+    super(
+      ListMcpResourcesTool.Name,
+      'ListMcpResources',
+      'Lists the resources, such as documents and schemas, that connected MCP servers expose, with their URIs. Resource templates describe URIs the server can read that are not listed. Read a resource with read_mcp_resource.',
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          server: {
+            type: 'string',
+            description:
+              'Optional: only list the resources of this MCP server.',
+          },
+        },
+        additionalProperties: false,
+      },
+    );
+  }
+
+  protected override createInvocation(
+    params: ListMcpResourcesParams,
+  ): ListMcpResourcesToolInvocation {
+    return new ListMcpResourcesToolInvocation(
+      params,
+      this.config.getResourceRegistry(),
+    );
+  }
+}
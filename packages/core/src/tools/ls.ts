@@ -135,6 +135,22 @@ class LSToolInvocation extends BaseToolInvocation<LSToolParams, ToolResult> {
    * Executes the LS operation with the given parameters
    * @returns Result of the LS operation
    */
+  /**
+   * Lists the directory from the workspace file index.
+   * @returns the entry names, or undefined when the directory is not indexed
+   */
+  private async listFromIndex(): Promise<string[] | undefined> {
+    const fileIndex = this.config.getFileIndex?.();
+    const indexPath = fileIndex?.toIndexPath(this.params.path);
+    if (!fileIndex || indexPath === undefined) {
+      return undefined;
+    }
+    await fileIndex.refresh();
+    return fileIndex
+      .listDirectory(indexPath)
+      ?.map((entry) => path.posix.basename(entry.path));
+  }
+
   async execute(_signal: AbortSignal): Promise<ToolResult> {
     try {
       const stats = fs.statSync(this.params.path);
@@ -155,7 +171,8 @@ class LSToolInvocation extends BaseToolInvocation<LSToolParams, ToolResult> {
         );
       }
 
-      const files = fs.readdirSync(this.params.path);
+      const files =
+        (await this.listFromIndex()) ?? fs.readdirSync(this.params.path);
 
       const defaultFileIgnores =
         this.config.getFileFilteringOptions() ?? DEFAULT_FILE_FILTERING_OPTIONS;
@@ -9,6 +9,7 @@ import { McpClientManager } from './mcp-client-manager.js';
 import { McpClient } from './mcp-client.js';
 import type { ToolRegistry } from './tool-registry.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
 import type { WorkspaceContext } from '../utils/workspaceContext.js';
 import type { Config } from '../config/config.js';
 
@@ -45,6 +46,7 @@ describe('McpClientManager', () => {
       '',
       {} as ToolRegistry,
       {} as PromptRegistry,
+      {} as ResourceRegistry,
       false,
       {} as WorkspaceContext,
     );
@@ -72,6 +74,7 @@ describe('McpClientManager', () => {
       '',
       {} as ToolRegistry,
       {} as PromptRegistry,
+      {} as ResourceRegistry,
       false,
       {} as WorkspaceContext,
     );
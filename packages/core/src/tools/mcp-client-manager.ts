@@ -7,6 +7,7 @@
 import type { Config, MCPServerConfig } from '../config/config.js';
 import type { ToolRegistry } from './tool-registry.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
 import {
   McpClient,
   MCPDiscoveryState,
@@ -27,6 +28,7 @@ export class McpClientManager {
   private readonly mcpServerCommand: string | undefined;
   private readonly toolRegistry: ToolRegistry;
   private readonly promptRegistry: PromptRegistry;
+  private readonly resourceRegistry: ResourceRegistry;
   private readonly debugMode: boolean;
   private readonly workspaceContext: WorkspaceContext;
   private discoveryState: MCPDiscoveryState = MCPDiscoveryState.NOT_STARTED;
@@ -37,6 +39,7 @@ export class McpClientManager {
     mcpServerCommand: string | undefined,
     toolRegistry: ToolRegistry,
     promptRegistry: PromptRegistry,
+    resourceRegistry: ResourceRegistry,
     debugMode: boolean,
     workspaceContext: WorkspaceContext,
     eventEmitter?: EventEmitter,
@@ -45,6 +48,7 @@ export class McpClientManager {
     this.mcpServerCommand = mcpServerCommand;
     this.toolRegistry = toolRegistry;
     this.promptRegistry = promptRegistry;
+    this.resourceRegistry = resourceRegistry;
     this.debugMode = debugMode;
     this.workspaceContext = workspaceContext;
     this.eventEmitter = eventEmitter;
@@ -87,13 +91,14 @@ export class McpClientManager {
           config,
           this.toolRegistry,
           this.promptRegistry,
+          this.resourceRegistry,
           this.workspaceContext,
           this.debugMode,
         );
         this.clients.set(name, client);
 
         try {
-          await client.connect();
+          await client.connect(cliConfig);
           await client.discover(cliConfig);
           this.eventEmitter?.emit('mcp-server-connected', {
             name,
@@ -13,6 +13,14 @@ import {
   hasValidTypes,
   McpClient,
   hasNetworkTransport,
+  discoverResources,
+  addMCPListChangeListener,
+  removeMCPListChangeListener,
+  MCPServerStatus,
+  MCP_RECONNECT_BASE_DELAY_MSEC,
+  MCP_RECONNECT_MAX_ATTEMPTS,
+  MCP_RECONNECT_MAX_DELAY_MSEC,
+  MCP_RECONNECT_STABLE_MSEC,
 } from './mcp-client.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import * as SdkClientStdioLib from '@modelcontextprotocol/sdk/client/stdio.js';
@@ -21,6 +29,7 @@ import * as GenAiLib from '@google/genai';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
 import { AuthProviderType, type Config } from '../config/config.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import type { ToolRegistry } from './tool-registry.js';
 import type { WorkspaceContext } from '../utils/workspaceContext.js';
 
@@ -44,6 +53,7 @@ describe('mcp-client', () => {
         getStatus: vi.fn(),
         registerCapabilities: vi.fn(),
         setRequestHandler: vi.fn(),
+        getServerCapabilities: vi.fn(),
       };
       vi.mocked(ClientLib.Client).mockReturnValue(
         mockedClient as unknown as ClientLib.Client,
@@ -70,6 +80,7 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         {} as WorkspaceContext,
         false,
       );
@@ -89,6 +100,7 @@ describe('mcp-client', () => {
         getStatus: vi.fn(),
         registerCapabilities: vi.fn(),
         setRequestHandler: vi.fn(),
+        getServerCapabilities: vi.fn(),
         tool: vi.fn(),
       };
       vi.mocked(ClientLib.Client).mockReturnValue(
@@ -132,6 +144,7 @@ describe('mcp-client', () => {
         },
         mockedToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         {} as WorkspaceContext,
         false,
       );
@@ -175,12 +188,13 @@ describe('mcp-client', () => {
         },
         {} as ToolRegistry,
         {} as PromptRegistry,
+        {} as ResourceRegistry,
         {} as WorkspaceContext,
         false,
       );
       await client.connect();
       await expect(client.discover({} as Config)).rejects.toThrow(
-        'No prompts or tools found on the server.',
+        'No prompts, tools or resources found on the server.',
       );
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         `Error discovering prompts from test-server: Test error`,
@@ -188,6 +202,322 @@ describe('mcp-client', () => {
       consoleErrorSpy.mockRestore();
     });
   });
+
+  describe('McpClient list changes and reconnects', () => {
+    const createClient = () => {
+      const notificationHandlers = new Map<string, () => Promise<void>>();
+      const mockedClient = {
+        connect: vi.fn(),
+        close: vi.fn(),
+        onclose: undefined as (() => void) | undefined,
+        registerCapabilities: vi.fn(),
+        setRequestHandler: vi.fn(),
+        getServerCapabilities: vi
+          .fn()
+          .mockReturnValue({ tools: { listChanged: true } }),
+        setNotificationHandler: vi.fn(
+          (
+            schema: { shape: { method: { value: string } } },
+            handler: () => Promise<void>,
+          ) => notificationHandlers.set(schema.shape.method.value, handler),
+        ),
+      };
+      vi.mocked(ClientLib.Client).mockReturnValue(
+        mockedClient as unknown as ClientLib.Client,
+      );
+      vi.spyOn(SdkClientStdioLib, 'StdioClientTransport').mockReturnValue({
+        close: vi.fn(),
+      } as unknown as SdkClientStdioLib.StdioClientTransport);
+      let toolNames = ['search'];
+      vi.mocked(GenAiLib.mcpToTool).mockImplementation(
+        () =>
+          ({
+            tool: async () => ({
+              functionDeclarations: toolNames.map((name) => ({ name })),
+            }),
+          }) as unknown as GenAiLib.CallableTool,
+      );
+      const toolRegistry = {
+        registerTool: vi.fn(),
+        replaceMcpToolsByServer: vi.fn(),
+      };
+      const setTools = vi.fn();
+      const config = {
+        getGeminiClient: () => ({ isInitialized: () => true, setTools }),
+      } as unknown as Config;
+      const client = new McpClient(
+        'dev-server',
+        { command: 'dev-server' },
+        toolRegistry as unknown as ToolRegistry,
+        { removePromptsByServer: vi.fn() } as unknown as PromptRegistry,
+        new ResourceRegistry(),
+        {} as WorkspaceContext,
+        false,
+      );
+      return {
+        client,
+        config,
+        mockedClient,
+        toolRegistry,
+        setTools,
+        setToolNames: (names: string[]) => (toolNames = names),
+        notify: (method: string) => notificationHandlers.get(method)?.(),
+      };
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('replaces the tools when the server reports that they changed', async () => {
+      const { client, config, toolRegistry, setTools, setToolNames, notify } =
+        createClient();
+      const listener = vi.fn();
+      addMCPListChangeListener(listener);
+      await client.connect();
+      await client.discover(config);
+
+      setToolNames(['search', 'fetch']);
+      await notify('notifications/tools/list_changed');
+      removeMCPListChangeListener(listener);
+
+      expect(toolRegistry.replaceMcpToolsByServer).toHaveBeenCalledWith(
+        'dev-server',
+        [
+          expect.objectContaining({ serverToolName: 'search' }),
+          expect.objectContaining({ serverToolName: 'fetch' }),
+        ],
+      );
+      expect(setTools).toHaveBeenCalledOnce();
+      expect(listener).toHaveBeenCalledWith('dev-server');
+    });
+
+    it('reconnects a dropped server with backoff', async () => {
+      vi.useFakeTimers();
+      const { client, config, mockedClient, toolRegistry, setTools } =
+        createClient();
+      await client.connect();
+      await client.discover(config);
+
+      mockedClient.connect.mockRejectedValueOnce(new Error('restarting'));
+      mockedClient.onclose?.();
+      expect(client.getStatus()).toBe(MCPServerStatus.DISCONNECTED);
+
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_BASE_DELAY_MSEC);
+      expect(mockedClient.connect).toHaveBeenCalledTimes(2);
+      expect(client.getStatus()).toBe(MCPServerStatus.DISCONNECTED);
+
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_BASE_DELAY_MSEC * 2);
+      expect(mockedClient.connect).toHaveBeenCalledTimes(3);
+      expect(client.getStatus()).toBe(MCPServerStatus.CONNECTED);
+      expect(toolRegistry.replaceMcpToolsByServer).toHaveBeenCalledWith(
+        'dev-server',
+        [expect.objectContaining({ serverToolName: 'search' })],
+      );
+      expect(setTools).toHaveBeenCalledOnce();
+    });
+
+    it('removes the tools once every reconnect attempt failed', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { client, config, mockedClient, toolRegistry } = createClient();
+      await client.connect();
+      await client.discover(config);
+
+      mockedClient.connect.mockRejectedValue(new Error('gone'));
+      mockedClient.onclose?.();
+      await vi.runAllTimersAsync();
+
+      expect(mockedClient.connect).toHaveBeenCalledTimes(
+        MCP_RECONNECT_MAX_ATTEMPTS + 1,
+      );
+      expect(toolRegistry.replaceMcpToolsByServer).toHaveBeenCalledWith(
+        'dev-server',
+        [],
+      );
+    });
+
+    it('keeps counting attempts while the server drops right after reconnecting', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { client, config, mockedClient, toolRegistry } = createClient();
+      await client.connect();
+      await client.discover(config);
+
+      for (let drop = 0; drop <= MCP_RECONNECT_MAX_ATTEMPTS; drop++) {
+        mockedClient.onclose?.();
+        await vi.advanceTimersByTimeAsync(MCP_RECONNECT_MAX_DELAY_MSEC);
+      }
+
+      expect(mockedClient.connect).toHaveBeenCalledTimes(
+        MCP_RECONNECT_MAX_ATTEMPTS + 1,
+      );
+      expect(toolRegistry.replaceMcpToolsByServer).toHaveBeenLastCalledWith(
+        'dev-server',
+        [],
+      );
+    });
+
+    it('resets the backoff once a reconnected server stays up', async () => {
+      vi.useFakeTimers();
+      const { client, config, mockedClient } = createClient();
+      await client.connect();
+      await client.discover(config);
+
+      mockedClient.onclose?.();
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_BASE_DELAY_MSEC);
+      expect(mockedClient.connect).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_STABLE_MSEC);
+
+      mockedClient.onclose?.();
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_BASE_DELAY_MSEC);
+      expect(mockedClient.connect).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not reconnect after disconnecting', async () => {
+      vi.useFakeTimers();
+      const { client, config, mockedClient } = createClient();
+      await client.connect();
+      await client.discover(config);
+
+      await client.disconnect();
+      mockedClient.onclose?.();
+      await vi.runAllTimersAsync();
+
+      expect(mockedClient.connect).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('discoverResources', () => {
+    const createResourceClient = (
+      capabilities: { subscribe?: boolean; listChanged?: boolean } = {},
+    ) => {
+      const handlers = new Map<string, () => Promise<void> | void>();
+      let version = 1;
+      const client = {
+        getServerCapabilities: vi
+          .fn()
+          .mockReturnValue({ resources: capabilities }),
+        listResources: vi
+          .fn()
+          .mockImplementation(async (params?: { cursor?: string }) =>
+            params?.cursor
+              ? { resources: [{ uri: 'db://schema/users', name: 'users' }] }
+              : {
+                  resources: [{ uri: 'docs://api.md', name: 'API' }],
+                  nextCursor: 'page-2',
+                },
+          ),
+        listResourceTemplates: vi.fn().mockResolvedValue({
+          resourceTemplates: [
+            { uriTemplate: 'db://schema/{table}', name: 't' },
+          ],
+        }),
+        readResource: vi.fn().mockImplementation(async ({ uri }) => ({
+          contents: [{ uri, text: `v${version}` }],
+        })),
+        subscribeResource: vi.fn().mockResolvedValue({}),
+        setNotificationHandler: vi.fn(
+          (
+            schema: { shape: { method: { value: string } } },
+            handler: (notification: unknown) => Promise<void> | void,
+          ) => {
+            handlers.set(schema.shape.method.value, () =>
+              handler({
+                method: schema.shape.method.value,
+                params: { uri: 'docs://api.md' },
+              }),
+            );
+          },
+        ),
+      };
+      return {
+        client,
+        notify: (method: string) => handlers.get(method)?.(),
+        bumpVersion: () => version++,
+      };
+    };
+
+    it('registers every page of resources and templates', async () => {
+      const { client } = createResourceClient();
+      const registry = new ResourceRegistry();
+
+      const count = await discoverResources(
+        'docs',
+        client as unknown as ClientLib.Client,
+        registry,
+      );
+
+      expect(count).toBe(3);
+      expect(registry.getAllResources().map(({ uri }) => uri)).toEqual([
+        'db://schema/users',
+        'docs://api.md',
+      ]);
+      await registry.readResource('docs', 'db://schema/orders');
+      expect(client.readResource).toHaveBeenCalledWith({
+        uri: 'db://schema/orders',
+      });
+    });
+
+    it('returns 0 for servers without resources', async () => {
+      const registry = new ResourceRegistry();
+      const client = {
+        getServerCapabilities: vi.fn().mockReturnValue({ tools: {} }),
+      };
+
+      expect(
+        await discoverResources(
+          'tools-only',
+          client as unknown as ClientLib.Client,
+          registry,
+        ),
+      ).toBe(0);
+      expect(registry.getServerNames()).toEqual([]);
+    });
+
+    it('caches subscribed resources until they are updated', async () => {
+      const { client, notify, bumpVersion } = createResourceClient({
+        subscribe: true,
+      });
+      const registry = new ResourceRegistry();
+      await discoverResources(
+        'docs',
+        client as unknown as ClientLib.Client,
+        registry,
+      );
+
+      await registry.readResource('docs', 'docs://api.md');
+      const cached = await registry.readResource('docs', 'docs://api.md');
+      expect(cached.contents[0]).toMatchObject({ text: 'v1' });
+      expect(client.subscribeResource).toHaveBeenCalledOnce();
+      expect(client.readResource).toHaveBeenCalledOnce();
+
+      bumpVersion();
+      await notify('notifications/resources/updated');
+      const updated = await registry.readResource('docs', 'docs://api.md');
+      expect(updated.contents[0]).toMatchObject({ text: 'v2' });
+    });
+
+    it('refreshes the list when the server reports a change', async () => {
+      const { client, notify } = createResourceClient({ listChanged: true });
+      const registry = new ResourceRegistry();
+      await discoverResources(
+        'docs',
+        client as unknown as ClientLib.Client,
+        registry,
+      );
+      client.listResources.mockResolvedValue({
+        resources: [{ uri: 'docs://guide.md', name: 'Guide' }],
+      });
+
+      await notify('notifications/resources/list_changed');
+
+      expect(registry.getAllResources().map(({ uri }) => uri)).toEqual([
+        'docs://guide.md',
+      ]);
+    });
+  });
+
   describe('appendMcpServerCommand', () => {
     it('should do nothing if no MCP servers or command are configured', () => {
       const out = populateMcpServerCommand({}, undefined);
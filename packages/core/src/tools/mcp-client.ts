@@ -21,6 +21,13 @@ import {
   GetPromptResult,
   GetPromptResultSchema,
   ListRootsRequestSchema,
+  PromptListChangedNotificationSchema,
+  ReadResourceResult,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  ResourceTemplate,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { parse } from 'shell-quote';
 import type { Config, MCPServerConfig } from '../config/config.js';
@@ -31,7 +38,9 @@ import { DiscoveredMCPTool } from './mcp-tool.js';
 import { FunctionDeclaration, mcpToTool } from '@google/genai';
 import { ToolRegistry } from './tool-registry.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
+import { registerMcpClientRequestHandlers } from '../mcp/client-requests.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
 import { getErrorMessage } from '../utils/errors.js';
@@ -42,11 +51,30 @@ import { DebugLogger } from '../debug/index.js';
 
 export const MCP_DEFAULT_TIMEOUT_MSEC = 10 * 60 * 1000; // default to 10 minutes
 
+/** Delay before the first attempt to reconnect a dropped server */
+export const MCP_RECONNECT_BASE_DELAY_MSEC = 1000;
+/** Longest delay between attempts to reconnect a dropped server */
+export const MCP_RECONNECT_MAX_DELAY_MSEC = 30 * 1000;
+/** Attempts to reconnect a dropped server before its tools are removed */
+export const MCP_RECONNECT_MAX_ATTEMPTS = 8;
+/** How long a reconnected server must stay up before the attempts reset */
+export const MCP_RECONNECT_STABLE_MSEC = 60 * 1000;
+
 export type DiscoveredMCPPrompt = Prompt & {
   serverName: string;
   invoke: (params: Record<string, unknown>) => Promise<GetPromptResult>;
 };
 
+export type DiscoveredMCPResource = Resource & {
+  serverName: string;
+  read: () => Promise<ReadResourceResult>;
+};
+
+export type DiscoveredMCPResourceTemplate = ResourceTemplate & {
+  serverName: string;
+  read: (uri: string) => Promise<ReadResourceResult>;
+};
+
 /**
  * Enum representing the connection status of an MCP server
  */
@@ -82,12 +110,19 @@ export class McpClient {
   private transport: Transport | undefined;
   private status: MCPServerStatus = MCPServerStatus.DISCONNECTED;
   private isDisconnecting = false;
+  private cliConfig: Config | undefined;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private reconnectAttempts = 0;
+  private reconnectStableTimer: NodeJS.Timeout | undefined;
+  private isReconnecting = false;
+  private readonly logger = new DebugLogger('llxprt:mcp:client');
 
   constructor(
     private readonly serverName: string,
     private readonly serverConfig: MCPServerConfig,
     private readonly toolRegistry: ToolRegistry,
     private readonly promptRegistry: PromptRegistry,
+    private readonly resourceRegistry: ResourceRegistry,
     private readonly workspaceContext: WorkspaceContext,
     private readonly debugMode: boolean,
   ) {
@@ -98,9 +133,10 @@ export class McpClient {
   }
 
   /**
-   * Connects to the MCP server.
+   * Connects to the MCP server. With a config, the client also answers the
+   * server's sampling and elicitation requests.
    */
-  async connect(): Promise<void> {
+  async connect(cliConfig?: Config): Promise<void> {
     this.isDisconnecting = false;
     this.updateStatus(MCPServerStatus.CONNECTING);
     try {
@@ -114,9 +150,18 @@ export class McpClient {
         this.updateStatus(MCPServerStatus.DISCONNECTED);
       };
 
+      this.client.onclose = () => this.handleConnectionLost();
+
       this.client.registerCapabilities({
         roots: {},
       });
+      if (cliConfig) {
+        registerMcpClientRequestHandlers(
+          this.client,
+          this.serverName,
+          cliConfig,
+        );
+      }
 
       this.client.setRequestHandler(ListRootsRequestSchema, async () => {
         const roots = [];
@@ -143,23 +188,26 @@ export class McpClient {
   }
 
   /**
-   * Discovers tools and prompts from the MCP server.
+   * Discovers tools, prompts and resources from the MCP server.
    */
   async discover(cliConfig: Config): Promise<void> {
     if (this.status !== MCPServerStatus.CONNECTED) {
       throw new Error('Client is not connected.');
     }
+    this.cliConfig = cliConfig;
 
     const prompts = await this.discoverPrompts();
+    const resourceCount = await this.discoverResources();
     const tools = await this.discoverTools(cliConfig);
 
-    if (prompts.length === 0 && tools.length === 0) {
-      throw new Error('No prompts or tools found on the server.');
+    if (prompts.length === 0 && resourceCount === 0 && tools.length === 0) {
+      throw new Error('No prompts, tools or resources found on the server.');
     }
 
     for (const tool of tools) {
       this.toolRegistry.registerTool(tool);
     }
+    this.registerListChangedHandlers();
   }
 
   /**
@@ -167,6 +215,11 @@ export class McpClient {
    */
   async disconnect(): Promise<void> {
     this.isDisconnecting = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    clearTimeout(this.reconnectStableTimer);
+    this.reconnectStableTimer = undefined;
+    this.reconnectAttempts = 0;
     if (this.transport) {
       await this.transport.close();
     }
@@ -202,6 +255,157 @@ export class McpClient {
   private async discoverPrompts(): Promise<Prompt[]> {
     return discoverPrompts(this.serverName, this.client, this.promptRegistry);
   }
+
+  private async discoverResources(): Promise<number> {
+    return discoverResources(
+      this.serverName,
+      this.client,
+      this.resourceRegistry,
+    );
+  }
+
+  private registerListChangedHandlers(): void {
+    const capabilities = this.client.getServerCapabilities();
+    if (capabilities?.tools?.listChanged) {
+      this.client.setNotificationHandler(
+        ToolListChangedNotificationSchema,
+        async () => {
+          this.logger.debug(() => `Tools of ${this.serverName} changed`);
+          await this.refreshTools();
+          await this.notifyListChanged();
+        },
+      );
+    }
+    if (capabilities?.prompts?.listChanged) {
+      this.client.setNotificationHandler(
+        PromptListChangedNotificationSchema,
+        async () => {
+          this.logger.debug(() => `Prompts of ${this.serverName} changed`);
+          await this.refreshPrompts();
+          await this.notifyListChanged();
+        },
+      );
+    }
+  }
+
+  private async refreshTools(): Promise<void> {
+    if (!this.cliConfig || this.status !== MCPServerStatus.CONNECTED) {
+      return;
+    }
+    const tools = await this.discoverTools(this.cliConfig);
+    if (this.status === MCPServerStatus.CONNECTED) {
+      await this.toolRegistry.replaceMcpToolsByServer(this.serverName, tools);
+    }
+  }
+
+  private async refreshPrompts(): Promise<void> {
+    this.promptRegistry.removePromptsByServer(this.serverName);
+    if (this.status === MCPServerStatus.CONNECTED) {
+      await this.discoverPrompts();
+    }
+  }
+
+  /**
+   * Tells the active chat and any listeners that the server's tools or
+   * prompts changed.
+   */
+  private async notifyListChanged(): Promise<void> {
+    const geminiClient = this.cliConfig?.getGeminiClient();
+    try {
+      if (geminiClient?.isInitialized()) {
+        await geminiClient.setTools();
+      }
+    } catch (error) {
+      console.error(
+        `Error updating tools from MCP server '${this.serverName}': ${getErrorMessage(error)}`,
+      );
+    }
+    for (const listener of listChangeListeners) {
+      listener(this.serverName);
+    }
+  }
+
+  private handleConnectionLost(): void {
+    if (
+      this.isDisconnecting ||
+      this.isReconnecting ||
+      this.reconnectTimer ||
+      !this.cliConfig
+    ) {
+      return;
+    }
+    clearTimeout(this.reconnectStableTimer);
+    this.reconnectStableTimer = undefined;
+    this.updateStatus(MCPServerStatus.DISCONNECTED);
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Reconnects with exponential backoff. Once every attempt has failed, the
+   * server's tools, prompts and resources are removed. A server that drops
+   * again soon after reconnecting keeps using up its attempts.
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MCP_RECONNECT_MAX_ATTEMPTS) {
+      console.error(
+        `MCP server '${this.serverName}' could not be reconnected after ${MCP_RECONNECT_MAX_ATTEMPTS} attempts. Use /mcp refresh to try again.`,
+      );
+      this.reconnectAttempts = 0;
+      void this.removeDiscoveredItems();
+      return;
+    }
+    const delay = Math.min(
+      MCP_RECONNECT_BASE_DELAY_MSEC * 2 ** this.reconnectAttempts,
+      MCP_RECONNECT_MAX_DELAY_MSEC,
+    );
+    this.reconnectAttempts++;
+    this.logger.debug(
+      () =>
+        `Reconnecting to ${this.serverName} in ${delay}ms (attempt ${this.reconnectAttempts})`,
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.reconnect();
+    }, delay);
+    this.reconnectTimer.unref?.();
+  }
+
+  private async reconnect(): Promise<void> {
+    this.isReconnecting = true;
+    try {
+      await this.connect(this.cliConfig);
+      this.logger.debug(() => `Reconnected to ${this.serverName}`);
+      this.promptRegistry.removePromptsByServer(this.serverName);
+      this.resourceRegistry.removeResourcesByServer(this.serverName);
+      await this.discoverPrompts();
+      await this.discoverResources();
+      await this.refreshTools();
+      this.registerListChangedHandlers();
+      await this.notifyListChanged();
+      this.reconnectStableTimer = setTimeout(() => {
+        this.reconnectStableTimer = undefined;
+        this.reconnectAttempts = 0;
+      }, MCP_RECONNECT_STABLE_MSEC);
+      this.reconnectStableTimer.unref?.();
+    } catch (error) {
+      this.logger.debug(
+        () =>
+          `Reconnecting to ${this.serverName} failed: ${getErrorMessage(error)}`,
+      );
+      if (!this.isDisconnecting) {
+        this.scheduleReconnect();
+      }
+    } finally {
+      this.isReconnecting = false;
+    }
+  }
+
+  private async removeDiscoveredItems(): Promise<void> {
+    this.promptRegistry.removePromptsByServer(this.serverName);
+    this.resourceRegistry.removeResourcesByServer(this.serverName);
+    await this.toolRegistry.replaceMcpToolsByServer(this.serverName, []);
+    await this.notifyListChanged();
+  }
 }
 
 /**
@@ -228,6 +432,32 @@ type StatusChangeListener = (
 ) => void;
 const statusChangeListeners: StatusChangeListener[] = [];
 
+/**
+ * Event listeners for changes to the tools or prompts of a connected MCP
+ * server, after a list_changed notification or a reconnect
+ */
+type ListChangeListener = (serverName: string) => void;
+const listChangeListeners: ListChangeListener[] = [];
+
+/**
+ * Add a listener for changes to the tools or prompts of an MCP server
+ */
+export function addMCPListChangeListener(listener: ListChangeListener): void {
+  listChangeListeners.push(listener);
+}
+
+/**
+ * Remove a listener for changes to the tools or prompts of an MCP server
+ */
+export function removeMCPListChangeListener(
+  listener: ListChangeListener,
+): void {
+  const index = listChangeListeners.indexOf(listener);
+  if (index !== -1) {
+    listChangeListeners.splice(index, 1);
+  }
+}
+
 /**
  * Add a listener for MCP server status changes
  */
@@ -447,6 +677,7 @@ export async function discoverMcpTools(
   mcpServerCommand: string | undefined,
   toolRegistry: ToolRegistry,
   promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
   cliConfig: Config,
@@ -462,6 +693,7 @@ export async function discoverMcpTools(
           mcpServerConfig,
           toolRegistry,
           promptRegistry,
+          resourceRegistry,
           debugMode,
           workspaceContext,
           cliConfig,
@@ -508,6 +740,7 @@ export async function connectAndDiscover(
   mcpServerConfig: MCPServerConfig,
   toolRegistry: ToolRegistry,
   promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
   cliConfig: Config,
@@ -521,6 +754,7 @@ export async function connectAndDiscover(
       mcpServerConfig,
       debugMode,
       workspaceContext,
+      cliConfig,
     );
 
     mcpClient.onerror = (error) => {
@@ -528,12 +762,17 @@ export async function connectAndDiscover(
       updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
     };
 
-    // Attempt to discover both prompts and tools
+    // Attempt to discover prompts, resources and tools
     const prompts = await discoverPrompts(
       mcpServerName,
       mcpClient,
       promptRegistry,
     );
+    const resourceCount = await discoverResources(
+      mcpServerName,
+      mcpClient,
+      resourceRegistry,
+    );
     const tools = await discoverTools(
       mcpServerName,
       mcpServerConfig,
@@ -541,9 +780,9 @@ export async function connectAndDiscover(
       cliConfig,
     );
 
-    // If we have neither prompts nor tools, it's a failed discovery
-    if (prompts.length === 0 && tools.length === 0) {
-      throw new Error('No prompts or tools found on the server.');
+    // If we have no prompts, resources or tools, it's a failed discovery
+    if (prompts.length === 0 && resourceCount === 0 && tools.length === 0) {
+      throw new Error('No prompts, tools or resources found on the server.');
     }
 
     // If we found anything, the server is connected
@@ -696,6 +935,10 @@ export async function discoverTools(
             mcpServerConfig.trust,
             undefined,
             cliConfig,
+            {
+              client: mcpClient,
+              timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+            },
           ),
         );
       } catch (error) {
@@ -815,6 +1058,146 @@ export async function invokeMcpPrompt(
   }
 }
 
+/**
+ * Discovers resources and resource templates from a connected MCP server and
+ * registers them. The list is refreshed when the server reports that it
+ * changed. Resources read from servers that support subscriptions are
+ * subscribed to and cached until the server reports an update.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @returns The number of resources and resource templates found.
+ */
+export async function discoverResources(
+  mcpServerName: string,
+  mcpClient: Client,
+  resourceRegistry: ResourceRegistry,
+): Promise<number> {
+  const debug = new DebugLogger('llxprt:mcp:resources');
+  try {
+    // Only request resources if the server supports them.
+    const capabilities = mcpClient.getServerCapabilities()?.resources;
+    if (capabilities == null) return 0;
+
+    const cache = new Map<string, ReadResourceResult>();
+    const subscribed = new Set<string>();
+    // Bumped on every update so a read that overlaps one is not cached
+    const versions = new Map<string, number>();
+
+    const read = async (uri: string): Promise<ReadResourceResult> => {
+      const cached = cache.get(uri);
+      if (cached) {
+        return cached;
+      }
+      if (capabilities.subscribe && !subscribed.has(uri)) {
+        try {
+          // Subscribe before reading so an update in between is not missed
+          await mcpClient.subscribeResource({ uri });
+          subscribed.add(uri);
+        } catch (error) {
+          debug.warn(
+            () =>
+              `Could not subscribe to ${uri} on ${mcpServerName}: ${getErrorMessage(error)}`,
+          );
+        }
+      }
+      const version = versions.get(uri) ?? 0;
+      const result = await mcpClient.readResource({ uri });
+      if (subscribed.has(uri) && (versions.get(uri) ?? 0) === version) {
+        cache.set(uri, result);
+      }
+      return result;
+    };
+
+    const list = async (): Promise<number> => {
+      const resources: Resource[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await mcpClient.listResources(
+          cursor ? { cursor } : undefined,
+        );
+        resources.push(...page.resources);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      const templates: ResourceTemplate[] = [];
+      try {
+        do {
+          const page = await mcpClient.listResourceTemplates(
+            cursor ? { cursor } : undefined,
+          );
+          templates.push(...page.resourceTemplates);
+          cursor = page.nextCursor;
+        } while (cursor);
+      } catch (error) {
+        // Templates are optional; servers without them may not implement the method.
+        debug.debug(
+          () =>
+            `No resource templates from ${mcpServerName}: ${getErrorMessage(error)}`,
+        );
+      }
+
+      resourceRegistry.setServerResources(
+        mcpServerName,
+        resources.map((resource) => ({
+          ...resource,
+          serverName: mcpServerName,
+          read: () => read(resource.uri),
+        })),
+        templates.map((template) => ({
+          ...template,
+          serverName: mcpServerName,
+          read,
+        })),
+      );
+      debug.log(
+        `Found ${resources.length} resources and ${templates.length} resource templates on ${mcpServerName}`,
+      );
+      return resources.length + templates.length;
+    };
+
+    mcpClient.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      async ({ params }) => {
+        versions.set(params.uri, (versions.get(params.uri) ?? 0) + 1);
+        cache.delete(params.uri);
+        debug.debug(() => `${params.uri} on ${mcpServerName} was updated`);
+      },
+    );
+    if (capabilities.listChanged) {
+      mcpClient.setNotificationHandler(
+        ResourceListChangedNotificationSchema,
+        async () => {
+          try {
+            await list();
+          } catch (error) {
+            console.error(
+              `Error refreshing resources from ${mcpServerName}: ${getErrorMessage(
+                error,
+              )}`,
+            );
+          }
+        },
+      );
+    }
+
+    return await list();
+  } catch (error) {
+    // Don't log an error if the method is not found, which is a common case.
+    if (
+      error instanceof Error &&
+      !error.message?.includes('Method not found')
+    ) {
+      console.error(
+        `Error discovering resources from ${mcpServerName}: ${getErrorMessage(
+          error,
+        )}`,
+      );
+    }
+    return 0;
+  }
+}
+
 /**
  * @visiblefortesting
  * Checks if the MCP server configuration has a network transport URL (SSE or HTTP).
@@ -840,6 +1223,7 @@ export async function connectToMcpServer(
   mcpServerConfig: MCPServerConfig,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  cliConfig?: Config,
 ): Promise<Client> {
   const mcpClient = new Client({
     name: 'gemini-cli-mcp-client',
@@ -851,6 +1235,9 @@ export async function connectToMcpServer(
       listChanged: true,
     },
   });
+  if (cliConfig) {
+    registerMcpClientRequestHandlers(mcpClient, mcpServerName, cliConfig);
+  }
 
   mcpClient.setRequestHandler(ListRootsRequestSchema, async () => {
     const roots = [];
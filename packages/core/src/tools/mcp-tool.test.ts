@@ -22,6 +22,9 @@ import {
 } from './mcp-tool.js'; // Added getStringifiedResultForDisplay
 import { ToolResult, ToolConfirmationOutcome } from './tools.js'; // Added ToolConfirmationOutcome
 import { CallableTool, Part } from '@google/genai';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { ToolErrorType } from './tool-error.js';
 
 // Mock @google/genai mcpToTool and CallableTool
@@ -903,6 +906,7 @@ describe('DiscoveredMCPTool', () => {
   describe('shouldConfirmExecute with folder trust', () => {
     const mockConfig = (isTrusted: boolean | undefined) => ({
       isTrustedFolder: () => isTrusted,
+      getToolApprovals: () => ({ isApproved: () => false }),
     });
 
     it('should return false if trust is true and folder is trusted', async () => {
@@ -970,3 +974,98 @@ describe('DiscoveredMCPTool', () => {
     });
   });
 });
+
+describe('DiscoveredMCPTool called through the MCP client', () => {
+  let client: Client;
+  let toolStarted: () => void;
+  let serverCancelled: () => void;
+
+  beforeEach(async () => {
+    const server = new McpServer({ name: 'builder', version: '0.0.1' });
+    server.tool('build', async (extra) => {
+      const progressToken = extra._meta?.progressToken;
+      for (const [progress, message] of [
+        [1, 'Compiling'],
+        [2, 'Compiling'],
+        [3, 'Testing'],
+      ] as const) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken: progressToken!,
+            progress,
+            total: 3,
+            message,
+          },
+        });
+      }
+      return { content: [{ type: 'text', text: 'Build passed' }] };
+    });
+    server.tool(
+      'watch',
+      (extra) =>
+        new Promise((resolve) => {
+          toolStarted();
+          extra.signal.addEventListener('abort', () => {
+            serverCancelled();
+            resolve({ content: [] });
+          });
+        }),
+    );
+    client = new Client({ name: 'test-client', version: '0.0.1' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const createTool = (name: string) =>
+    new DiscoveredMCPTool(
+      mockCallableToolInstance,
+      'builder',
+      name,
+      '',
+      { type: 'object', properties: {} },
+      undefined,
+      undefined,
+      undefined,
+      { client },
+    );
+
+  it('streams progress notifications as live output', async () => {
+    const tool = createTool('build');
+    const updateOutput = vi.fn();
+
+    const result = await tool
+      .build({})
+      .execute(new AbortController().signal, updateOutput);
+
+    expect(tool.canUpdateOutput).toBe(true);
+    expect(updateOutput).toHaveBeenLastCalledWith(
+      'Compiling (2/3)\nTesting (3/3)',
+    );
+    expect(result.llmContent).toEqual([{ text: 'Build passed' }]);
+    expect(mockCallTool).not.toHaveBeenCalled();
+  });
+
+  it('cancels the call on the server when aborted', async () => {
+    const started = new Promise<void>((resolve) => (toolStarted = resolve));
+    const cancelled = new Promise<void>(
+      (resolve) => (serverCancelled = resolve),
+    );
+    const controller = new AbortController();
+
+    const execution = createTool('watch').build({}).execute(controller.signal);
+    await started;
+    controller.abort();
+
+    await expect(execution).rejects.toThrow('Tool call aborted');
+    await cancelled;
+  });
+});
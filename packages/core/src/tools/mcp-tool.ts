@@ -11,16 +11,30 @@ import {
   Kind,
   ToolCallConfirmationDetails,
   ToolConfirmationOutcome,
+  ToolConfirmationPayload,
   ToolInvocation,
   ToolMcpConfirmationDetails,
   ToolResult,
 } from './tools.js';
 import { CallableTool, FunctionCall, Part } from '@google/genai';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
 import { ToolErrorType } from './tool-error.js';
 import type { Config } from '../config/config.js';
+import type { ToolApproval } from '../policy/toolApprovals.js';
 
 type ToolParams = Record<string, unknown>;
 
+/**
+ * The MCP client of the server that owns a tool. Calling the tool through
+ * it streams progress notifications and cancels the call on the server when
+ * the user aborts.
+ */
+export interface McpToolClient {
+  client: Client;
+  timeout?: number;
+}
+
 // Discriminated union for MCP Content Blocks to ensure type safety.
 type McpTextBlock = {
   type: 'text';
@@ -69,6 +83,7 @@ class DiscoveredMCPToolInvocation extends BaseToolInvocation<
     readonly trust?: boolean,
     params: ToolParams = {},
     private readonly cliConfig?: Config,
+    private readonly mcpToolClient?: McpToolClient,
   ) {
     super(params);
   }
@@ -83,9 +98,15 @@ class DiscoveredMCPToolInvocation extends BaseToolInvocation<
       return false; // server is trusted, no confirmation needed
     }
 
+    const approvals = this.cliConfig?.getToolApprovals();
     if (
       DiscoveredMCPToolInvocation.allowlist.has(serverAllowListKey) ||
-      DiscoveredMCPToolInvocation.allowlist.has(toolAllowListKey)
+      DiscoveredMCPToolInvocation.allowlist.has(toolAllowListKey) ||
+      approvals?.isApproved({
+        type: 'mcpServer',
+        target: serverAllowListKey,
+      }) ||
+      approvals?.isApproved({ type: 'mcpTool', target: toolAllowListKey })
     ) {
       return false; // server and/or tool already allowlisted
     }
@@ -96,11 +117,23 @@ class DiscoveredMCPToolInvocation extends BaseToolInvocation<
       serverName: this.serverName,
       toolName: this.serverToolName, // Display original tool name in confirmation
       toolDisplayName: this.displayName, // Display global registry name exposed to model and user
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlwaysServer) {
-          DiscoveredMCPToolInvocation.allowlist.add(serverAllowListKey);
-        } else if (outcome === ToolConfirmationOutcome.ProceedAlwaysTool) {
-          DiscoveredMCPToolInvocation.allowlist.add(toolAllowListKey);
+      onConfirm: async (
+        outcome: ToolConfirmationOutcome,
+        payload?: ToolConfirmationPayload,
+      ) => {
+        const approval: ToolApproval | undefined =
+          outcome === ToolConfirmationOutcome.ProceedAlwaysServer
+            ? { type: 'mcpServer', target: serverAllowListKey }
+            : outcome === ToolConfirmationOutcome.ProceedAlwaysTool
+              ? { type: 'mcpTool', target: toolAllowListKey }
+              : undefined;
+        if (!approval) {
+          return;
+        }
+        if (approvals && payload?.approvalScope) {
+          approvals.save(approval, payload.approvalScope);
+        } else {
+          DiscoveredMCPToolInvocation.allowlist.add(approval.target);
         }
       },
     };
@@ -129,7 +162,10 @@ class DiscoveredMCPToolInvocation extends BaseToolInvocation<
     return false;
   }
 
-  async execute(signal: AbortSignal): Promise<ToolResult> {
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string) => void,
+  ): Promise<ToolResult> {
     const functionCalls: FunctionCall[] = [
       {
         name: this.serverToolName,
@@ -137,8 +173,95 @@ class DiscoveredMCPToolInvocation extends BaseToolInvocation<
       },
     ];
 
+    const rawResponseParts = this.mcpToolClient
+      ? await this.callThroughClient(
+          this.mcpToolClient,
+          functionCalls[0],
+          signal,
+          updateOutput,
+        )
+      : await this.callThroughCallableTool(functionCalls, signal);
+
+    // Ensure the response is not an error
+    if (this.isMCPToolError(rawResponseParts)) {
+      const errorMessage = `MCP tool '${
+        this.serverToolName
+      }' reported tool error for function call: ${safeJsonStringify(
+        functionCalls[0],
+      )} with response: ${safeJsonStringify(rawResponseParts)}`;
+      return {
+        llmContent: errorMessage,
+        returnDisplay: `Error: MCP tool '${this.serverToolName}' reported an error.`,
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.MCP_TOOL_ERROR,
+        },
+      };
+    }
+
+    const transformedParts = transformMcpContentToParts(rawResponseParts);
+
+    return {
+      llmContent: transformedParts,
+      returnDisplay: getStringifiedResultForDisplay(rawResponseParts),
+    };
+  }
+
+  /**
+   * Calls the tool on the server's client, showing progress notifications as
+   * live output. Aborting sends `notifications/cancelled` to the server.
+   */
+  private async callThroughClient(
+    { client, timeout }: McpToolClient,
+    functionCall: FunctionCall,
+    signal: AbortSignal,
+    updateOutput?: (output: string) => void,
+  ): Promise<Part[]> {
+    const progressLines: string[] = [];
+    let lastMessage: string | undefined;
+    const onprogress = updateOutput
+      ? (progress: Progress) => {
+          const line = formatMcpProgress(progress);
+          if (progressLines.length > 0 && progress.message === lastMessage) {
+            progressLines[progressLines.length - 1] = line;
+          } else {
+            progressLines.push(line);
+          }
+          lastMessage = progress.message;
+          updateOutput(progressLines.join('\n'));
+        }
+      : undefined;
+
+    try {
+      const response = await client.callTool(
+        { name: this.serverToolName, arguments: this.params },
+        undefined,
+        { signal, timeout, onprogress, resetTimeoutOnProgress: true },
+      );
+      return [
+        {
+          functionResponse: {
+            name: functionCall.name,
+            response: response.isError ? { error: response } : response,
+          },
+        },
+      ];
+    } catch (error) {
+      if (signal.aborted) {
+        const abortError = new Error('Tool call aborted');
+        abortError.name = 'AbortError';
+        throw abortError;
+      }
+      throw error;
+    }
+  }
+
+  private async callThroughCallableTool(
+    functionCalls: FunctionCall[],
+    signal: AbortSignal,
+  ): Promise<Part[]> {
     // Race MCP tool call with abort signal to respect cancellation
-    const rawResponseParts = await new Promise<Part[]>((resolve, reject) => {
+    return new Promise<Part[]>((resolve, reject) => {
       if (signal.aborted) {
         const error = new Error('Tool call aborted');
         error.name = 'AbortError';
@@ -167,30 +290,6 @@ class DiscoveredMCPToolInvocation extends BaseToolInvocation<
           reject(err);
         });
     });
-
-    // Ensure the response is not an error
-    if (this.isMCPToolError(rawResponseParts)) {
-      const errorMessage = `MCP tool '${
-        this.serverToolName
-      }' reported tool error for function call: ${safeJsonStringify(
-        functionCalls[0],
-      )} with response: ${safeJsonStringify(rawResponseParts)}`;
-      return {
-        llmContent: errorMessage,
-        returnDisplay: `Error: MCP tool '${this.serverToolName}' reported an error.`,
-        error: {
-          message: errorMessage,
-          type: ToolErrorType.MCP_TOOL_ERROR,
-        },
-      };
-    }
-
-    const transformedParts = transformMcpContentToParts(rawResponseParts);
-
-    return {
-      llmContent: transformedParts,
-      returnDisplay: getStringifiedResultForDisplay(rawResponseParts),
-    };
   }
 
   getDescription(): string {
@@ -211,6 +310,7 @@ export class DiscoveredMCPTool extends BaseDeclarativeTool<
     readonly trust?: boolean,
     nameOverride?: string,
     private readonly cliConfig?: Config,
+    private readonly mcpToolClient?: McpToolClient,
   ) {
     super(
       nameOverride ?? generateMcpToolName(serverName, serverToolName),
@@ -219,7 +319,7 @@ export class DiscoveredMCPTool extends BaseDeclarativeTool<
       Kind.Other,
       parameterSchema,
       true, // isOutputMarkdown
-      false, // canUpdateOutput
+      mcpToolClient !== undefined, // canUpdateOutput
     );
   }
 
@@ -237,6 +337,7 @@ export class DiscoveredMCPTool extends BaseDeclarativeTool<
       this.trust,
       `${this.serverName}__${this.serverToolName}`,
       this.cliConfig,
+      this.mcpToolClient,
     );
   }
 
@@ -251,10 +352,23 @@ export class DiscoveredMCPTool extends BaseDeclarativeTool<
       this.trust,
       params,
       this.cliConfig,
+      this.mcpToolClient,
     );
   }
 }
 
+/**
+ * Formats an MCP progress notification as a line of live tool output.
+ */
+export function formatMcpProgress({
+  progress,
+  total,
+  message,
+}: Progress): string {
+  const amount = total ? `${progress}/${total}` : `${progress}`;
+  return message ? `${message} (${amount})` : `Progress: ${amount}`;
+}
+
 function transformTextBlock(block: McpTextBlock): Part {
   return { text: block.text };
 }
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Config } from '../config/config.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
+import { ReadMcpResourceTool } from './read-mcp-resource.js';
+import { ToolErrorType } from './tool-error.js';
+
+describe('ReadMcpResourceTool', () => {
+  const registry = new ResourceRegistry();
+  registry.setServerResources(
+    'docs',
+    [
+      {
+        uri: 'docs://api.md',
+        name: 'API',
+        serverName: 'docs',
+        read: async () => ({
+          contents: [{ uri: 'docs://api.md', text: '# API' }],
+        }),
+      },
+    ],
+    [],
+  );
+  const tool = new ReadMcpResourceTool({
+    getResourceRegistry: () => registry,
+  } as unknown as Config);
+  const signal = new AbortController().signal;
+
+  it('returns the resource contents', async () => {
+    const result = await tool
+      .build({ server: 'docs', uri: 'docs://api.md' })
+      .execute(signal);
+
+    expect(result.llmContent).toEqual([
+      { text: 'Content of docs://api.md:\n# API' },
+    ]);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('reports resources that cannot be read', async () => {
+    const result = await tool
+      .build({ server: 'docs', uri: 'docs://missing.md' })
+      .execute(signal);
+
+    expect(result.error?.type).toBe(ToolErrorType.MCP_TOOL_ERROR);
+    expect(result.llmContent).toContain("has no resource 'docs://missing.md'");
+  });
+
+  it('rejects an empty server name', () => {
+    expect(() => tool.build({ server: ' ', uri: 'docs://api.md' })).toThrow(
+      "The 'server' parameter must not be empty.",
+    );
+  });
+});
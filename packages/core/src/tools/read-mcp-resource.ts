@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolResult,
+} from './tools.js';
+import type { Config } from '../config/config.js';
+import {
+  resourceContentsToParts,
+  type ResourceRegistry,
+} from '../resources/resource-registry.js';
+import { ToolErrorType } from './tool-error.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+export interface ReadMcpResourceParams {
+  server: string;
+  uri: string;
+}
+
+class ReadMcpResourceToolInvocation extends BaseToolInvocation<
+  ReadMcpResourceParams,
+  ToolResult
+> {
+  constructor(
+    params: ReadMcpResourceParams,
+    private readonly registry: ResourceRegistry,
+  ) {
+    super(params);
+  }
+
+  override getDescription(): string {
+    return `${this.params.server}:${this.params.uri}`;
+  }
+
+  override async execute(): Promise<ToolResult> {
+    try {
+      const result = await this.registry.readResource(
+        this.params.server,
+        this.params.uri,
+      );
+      return {
+        llmContent: resourceContentsToParts(result),
+        returnDisplay: `Read ${this.params.uri} from ${this.params.server}`,
+      };
+    } catch (error) {
+      const message = `Error reading ${this.params.uri} from MCP server '${this.params.server}': ${getErrorMessage(error)}`;
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.MCP_TOOL_ERROR },
+      };
+    }
+  }
+}
+
+/**
+ * Reads a resource exposed by an MCP server.
+ */
+export class ReadMcpResourceTool extends BaseDeclarativeTool<
+  ReadMcpResourceParams,
+  ToolResult
+> {
+  static readonly Name = 'read_mcp_resource';
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadMcpResourceTool.Name,
+      'ReadMcpResource',
+      'Reads a resource exposed by an MCP server, such as a document or a database schema. Use list_mcp_resources to find the URIs of resources.',
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          server: {
+            type: 'string',
+            description: 'The name of the MCP server that has the resource.',
+          },
+          uri: {
+            type: 'string',
+            description:
+              'The URI of the resource, as listed or built from a resource template.',
+          },
+        },
+        required: ['server', 'uri'],
+        additionalProperties: false,
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ReadMcpResourceParams,
+  ): string | null {
+    if (!params.server.trim()) {
+      return "The 'server' parameter must not be empty.";
+    }
+    if (!params.uri.trim()) {
+      return "The 'uri' parameter must not be empty.";
+    }
+    return null;
+  }
+
+  protected override createInvocation(
+    params: ReadMcpResourceParams,
+  ): ReadMcpResourceToolInvocation {
+    return new ReadMcpResourceToolInvocation(
+      params,
+      this.config.getResourceRegistry(),
+    );
+  }
+}
@@ -66,12 +66,17 @@ import * as summarizer from '../utils/summarizer.js';
 describe('ShellTool', () => {
   let shellTool: ShellTool;
   let mockConfig: Config;
+  let approvals: { isApproved: Mock; save: Mock };
   let mockShellOutputCallback: (event: ShellOutputEvent) => void;
   let resolveExecutionPromise: (result: ShellExecutionResult) => void;
 
   beforeEach(() => {
     vi.clearAllMocks();
 
+    approvals = {
+      isApproved: vi.fn().mockReturnValue(false),
+      save: vi.fn(),
+    };
     mockConfig = {
       getCoreTools: vi.fn().mockReturnValue([]),
       getExcludeTools: vi.fn().mockReturnValue([]),
@@ -82,6 +87,7 @@ describe('ShellTool', () => {
       getGeminiClient: vi.fn(),
       getEphemeralSettings: vi.fn().mockReturnValue({}),
       getShouldUseNodePtyShell: vi.fn().mockReturnValue(false),
+      getToolApprovals: vi.fn().mockReturnValue(approvals),
       getContentGeneratorConfig: vi.fn().mockReturnValue({
         providerManager: {
           getServerToolsProvider: vi.fn().mockReturnValue({
@@ -196,6 +202,7 @@ describe('ShellTool', () => {
         false,
         undefined,
         undefined,
+        undefined,
       );
       // Check that it contains background PIDs but not the service PID
       const backgroundLine = result.llmContent
@@ -231,9 +238,40 @@ describe('ShellTool', () => {
         false,
         undefined,
         undefined,
+        undefined,
       );
     });
 
+    it('should run commands the sandbox policy selects in the sandbox', async () => {
+      const sandbox = {
+        shouldSandboxCommand: vi.fn((command: string) =>
+          command.startsWith('npm'),
+        ),
+        getBackend: vi.fn().mockReturnValue('bwrap'),
+      };
+      (mockConfig as unknown as Record<string, unknown>)['getCommandSandbox'] =
+        () => sandbox;
+
+      const promise = shellTool
+        .build({ command: 'npm install' })
+        .execute(mockAbortSignal);
+      resolveShellExecution();
+      const result = await promise;
+
+      expect(sandbox.shouldSandboxCommand).toHaveBeenCalledWith('npm install');
+      expect(mockShellExecutionService.mock.calls[0][7]).toBe(sandbox);
+      expect(result.llmContent).toContain('Sandbox: bwrap');
+
+      const hostPromise = shellTool
+        .build({ command: 'git status' })
+        .execute(mockAbortSignal);
+      resolveShellExecution();
+      const hostResult = await hostPromise;
+
+      expect(mockShellExecutionService.mock.calls[1][7]).toBeUndefined();
+      expect(hostResult.llmContent).not.toContain('Sandbox:');
+    });
+
     it('should format error messages correctly', async () => {
       const error = new Error('original command error');
       const invocation = shellTool.build({ command: 'user-command' });
@@ -461,6 +499,46 @@ describe('ShellTool', () => {
       expect(secondConfirmation).toBe(false);
     });
 
+    it('saves "Always" approvals for the whole command when a scope is chosen', async () => {
+      const saved: Array<{ type: string; target: string }> = [];
+      approvals.save.mockImplementation((approval) => saved.push(approval));
+      approvals.isApproved.mockImplementation(
+        (approval: { type: string; target: string }) =>
+          saved.some(
+            ({ type, target }) =>
+              type === approval.type && target === approval.target,
+          ),
+      );
+      const confirm = (command: string) =>
+        shellTool
+          .build({ command })
+          .shouldConfirmExecute(new AbortController().signal);
+
+      const confirmation = await confirm('npm test && git status');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (confirmation as any).onConfirm(
+        ToolConfirmationOutcome.ProceedAlways,
+        { approvalScope: 'user' },
+      );
+
+      expect(approvals.save).toHaveBeenCalledWith(
+        { type: 'shell', target: 'npm test' },
+        'user',
+      );
+      expect(approvals.save).toHaveBeenCalledWith(
+        { type: 'shell', target: 'git status' },
+        'user',
+      );
+      expect(await confirm('npm test')).toBe(false);
+      expect(await confirm('git status && npm test')).toBe(false);
+      const publish = await confirm('npm publish');
+      expect(publish).not.toBe(false);
+      expect(publish && publish.type === 'exec' && publish.rootCommand).toBe(
+        'npm',
+      );
+      expect(await confirm('npm test && rm -rf build')).not.toBe(false);
+    });
+
     it('should throw an error if validation fails', () => {
       expect(() => shellTool.build({ command: '' })).toThrow();
     });
@@ -18,6 +18,7 @@ import {
   ToolResult,
   ToolExecuteConfirmationDetails,
   ToolConfirmationOutcome,
+  ToolConfirmationPayload,
   ToolCallConfirmationDetails,
   Kind,
 } from './tools.js';
@@ -33,8 +34,10 @@ import {
 } from '../services/shellExecutionService.js';
 import { formatMemoryUsage } from '../utils/formatters.js';
 import {
+  getCommandRoot,
   getCommandRoots,
   isCommandAllowed,
+  splitCommands,
   stripShellWrapper,
 } from '../utils/shell-utils.js';
 
@@ -107,23 +110,54 @@ class ShellToolInvocation extends BaseToolInvocation<
     _abortSignal: AbortSignal,
   ): Promise<ToolCallConfirmationDetails | false> {
     const command = stripShellWrapper(this.params.command);
-    const rootCommands = [...new Set(getCommandRoots(command))];
-    const commandsToConfirm = rootCommands.filter(
-      (command) => !this.allowlist.has(command),
+    const approvals = this.config.getToolApprovals();
+    // The session allowlist holds root commands, while saved approvals hold
+    // whole commands so that approving `npm test` does not approve
+    // `npm publish` in later sessions
+    const commandsToConfirm = [...new Set(splitCommands(command))].filter(
+      (segment) => {
+        const root = getCommandRoot(segment);
+        return (
+          !(root && this.allowlist.has(root)) &&
+          !approvals.isApproved({ type: 'shell', target: segment })
+        );
+      },
     );
 
     if (commandsToConfirm.length === 0) {
       return false; // already approved and allowlisted
     }
+    const rootCommands = [
+      ...new Set(
+        commandsToConfirm
+          .map((segment) => getCommandRoot(segment))
+          .filter((root): root is string => !!root),
+      ),
+    ];
 
     const confirmationDetails: ToolExecuteConfirmationDetails = {
       type: 'exec',
       title: 'Confirm Shell Command',
       command: this.params.command,
-      rootCommand: commandsToConfirm.join(', '),
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
-          commandsToConfirm.forEach((command) => this.allowlist.add(command));
+      rootCommand: rootCommands.join(', '),
+      onConfirm: async (
+        outcome: ToolConfirmationOutcome,
+        payload?: ToolConfirmationPayload,
+      ) => {
+        if (outcome !== ToolConfirmationOutcome.ProceedAlways) {
+          return;
+        }
+        if (payload?.approvalScope) {
+          for (const segment of commandsToConfirm) {
+            approvals.save(
+              { type: 'shell', target: segment },
+              payload.approvalScope,
+            );
+          }
+        } else {
+          for (const root of rootCommands) {
+            this.allowlist.add(root);
+          }
         }
       },
     };
@@ -184,6 +218,11 @@ class ShellToolInvocation extends BaseToolInvocation<
         this.params.directory || '',
       );
 
+      const commandSandbox = this.config.getCommandSandbox?.();
+      const sandbox = commandSandbox?.shouldSandboxCommand(strippedCommand)
+        ? commandSandbox
+        : undefined;
+
       let cumulativeOutput = '';
       let outputChunks: string[] = [cumulativeOutput];
       let lastUpdateTime = Date.now();
@@ -240,6 +279,7 @@ class ShellToolInvocation extends BaseToolInvocation<
         this.config.getShouldUseNodePtyShell(),
         terminalColumns,
         terminalRows,
+        sandbox,
       );
 
       const result = await executionResult.result;
@@ -319,6 +359,9 @@ class ShellToolInvocation extends BaseToolInvocation<
         llmContent = [
           `Command: ${this.params.command}`,
           `Directory: ${this.params.directory || '(root)'}`,
+          ...(sandbox
+            ? [`Sandbox: ${sandbox.getBackend() ?? '(unavailable)'}`]
+            : []),
           `Stdout: ${filteredOutput || '(empty)'}`,
           `Stderr: ${result.stderr || '(empty)'}`,
           `Error: ${finalError}`,
@@ -670,6 +670,13 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
         );
       }
 
+      const diagnostics = await this.config
+        .getLspService?.()
+        ?.getDiagnosticsMessage([this.params.file_path]);
+      if (diagnostics) {
+        llmSuccessMessageParts.push(`\n\n${diagnostics}`);
+      }
+
       return {
         llmContent: llmSuccessMessageParts.join(' '),
         returnDisplay: displayResult,
@@ -15,6 +15,7 @@ export enum ToolErrorType {
   TOOL_NOT_REGISTERED = 'tool_not_registered',
   EXECUTION_FAILED = 'execution_failed',
   TOOL_DISABLED = 'tool_disabled',
+  POLICY_DENIED = 'policy_denied',
 
   // File System Errors
   FILE_NOT_FOUND = 'file_not_found',
@@ -45,6 +46,10 @@ export enum ToolErrorType {
   LS_EXECUTION_ERROR = 'ls_execution_error',
   PATH_IS_NOT_A_DIRECTORY = 'path_is_not_a_directory',
 
+  // Symbol-specific Errors
+  SYMBOL_SEARCH_ERROR = 'symbol_search_error',
+  UNSUPPORTED_LANGUAGE = 'unsupported_language',
+
   // MCP-specific Errors
   MCP_TOOL_ERROR = 'mcp_tool_error',
 
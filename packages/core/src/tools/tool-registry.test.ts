@@ -303,6 +303,34 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('replaceMcpToolsByServer', () => {
+    it('replaces only the tools of the given server', async () => {
+      const mockCallable = {} as CallableTool;
+      toolRegistry.registerTool(
+        new DiscoveredMCPTool(mockCallable, 'dev', 'old-tool', 'd1', {}),
+      );
+      toolRegistry.registerTool(
+        new DiscoveredMCPTool(mockCallable, 'other', 'kept-tool', 'd2', {}),
+      );
+      toolRegistry.registerTool(new MockTool('regular-tool'));
+
+      await toolRegistry.replaceMcpToolsByServer('dev', [
+        new DiscoveredMCPTool(mockCallable, 'dev', 'new-tool', 'd3', {}),
+      ]);
+
+      expect(toolRegistry.getAllToolNames()).toEqual(
+        expect.arrayContaining([
+          generateMcpToolName('dev', 'new-tool'),
+          generateMcpToolName('other', 'kept-tool'),
+          'regular-tool',
+        ]),
+      );
+      expect(toolRegistry.getAllToolNames()).not.toContain(
+        generateMcpToolName('dev', 'old-tool'),
+      );
+    });
+  });
+
   describe('discoverTools', () => {
     it('should will preserve tool parametersJsonSchema during discovery from command', async () => {
       const discoveryCommand = 'my-discovery-command';
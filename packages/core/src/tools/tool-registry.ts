@@ -22,6 +22,7 @@ import { DiscoveredMCPTool } from './mcp-tool.js';
 import { parse } from 'shell-quote';
 import { ToolErrorType } from './tool-error.js';
 import { safeJsonStringify } from '../utils/safeJsonStringify.js';
+import { getErrorMessage } from '../utils/errors.js';
 import { DebugLogger } from '../debug/index.js';
 import type { EventEmitter } from 'node:events';
 
@@ -75,7 +76,25 @@ Signal: Signal number or \`(none)\` if no signal was received.
     _updateOutput?: (output: string) => void,
   ): Promise<ToolResult> {
     const callCommand = this.config.getToolCallCommand()!;
-    const child = spawn(callCommand, [this.name]);
+    let argv = [callCommand, this.name];
+    const sandbox = this.config.getCommandSandbox?.();
+    if (sandbox?.shouldSandboxDiscoveredTools()) {
+      try {
+        argv = sandbox.wrapArgs(argv, this.config.getTargetDir());
+      } catch (error) {
+        const llmContent = `Error: ${getErrorMessage(error)}`;
+        return {
+          llmContent,
+          returnDisplay: llmContent,
+          error: {
+            message: llmContent,
+            type: ToolErrorType.DISCOVERED_TOOL_EXECUTION_ERROR,
+          },
+        };
+      }
+    }
+    const [program, ...args] = argv;
+    const child = spawn(program, args);
     child.stdin.write(JSON.stringify(params));
     child.stdin.end();
 
@@ -187,6 +206,7 @@ export class ToolRegistry {
       this.config.getMcpServerCommand(),
       this,
       this.config.getPromptRegistry(),
+      this.config.getResourceRegistry(),
       this.config.getDebugMode(),
       this.config.getWorkspaceContext(),
       eventEmitter,
@@ -273,6 +293,32 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Replaces the tools of one MCP server, leaving every other tool in place.
+   * Used when a connected server reports that its tool list changed.
+   * @param serverName The name of the server whose tools are replaced.
+   * @param tools The server's current tools.
+   */
+  async replaceMcpToolsByServer(
+    serverName: string,
+    tools: DiscoveredMCPTool[],
+  ): Promise<void> {
+    await this.withDiscoveryLock(async () => {
+      const newTools = new Map<string, AnyDeclarativeTool>();
+      for (const tool of this.tools.values()) {
+        if (
+          !(tool instanceof DiscoveredMCPTool && tool.serverName === serverName)
+        ) {
+          this.registerToolIntoMap(tool, newTools);
+        }
+      }
+      for (const tool of tools) {
+        this.registerToolIntoMap(tool, newTools);
+      }
+      this.tools = newTools;
+    });
+  }
+
   /**
    * Discovers tools from project (if available and configured).
    * Can be called multiple times to update discovered tools.
@@ -284,6 +330,7 @@ export class ToolRegistry {
       const newTools = this.buildCoreToolsMap();
 
       await this.config.getPromptRegistry().clear();
+      this.config.getResourceRegistry().clear();
       await this.discoverAndRegisterToolsFromCommand(newTools);
 
       const previousTools = this.tools;
@@ -317,6 +364,7 @@ export class ToolRegistry {
       }
 
       await this.config.getPromptRegistry().clear();
+      this.config.getResourceRegistry().clear();
 
       const previousTools = this.tools;
       try {
@@ -353,6 +401,7 @@ export class ToolRegistry {
       }
 
       await this.config.getPromptRegistry().removePromptsByServer(serverName);
+      this.config.getResourceRegistry().removeResourcesByServer(serverName);
       const mcpServers = this.config.getMcpServers() ?? {};
       const serverConfig = mcpServers[serverName];
 
@@ -369,6 +418,7 @@ export class ToolRegistry {
             serverConfig,
             tempRegistry,
             this.config.getPromptRegistry(),
+            this.config.getResourceRegistry(),
             this.config.getDebugMode(),
             this.config.getWorkspaceContext(),
             this.config,
@@ -356,6 +356,32 @@ describe('WriteFileTool', () => {
       );
     });
 
+    it('should append language server diagnostics to the result', async () => {
+      const filePath = path.join(rootDir, 'execute_diagnostics.ts');
+      const getDiagnosticsMessage = vi.fn(
+        async () => 'Language server diagnostics:\nNo errors or warnings.',
+      );
+      Object.assign(mockConfigInternal, {
+        getLspService: () => ({ getDiagnosticsMessage }),
+      });
+
+      try {
+        const invocation = tool.build({
+          file_path: filePath,
+          content: 'export const a = 1;',
+        });
+        const result = await invocation.execute(abortSignal);
+
+        expect(getDiagnosticsMessage).toHaveBeenCalledWith([filePath]);
+        expect(result.llmContent).toContain(
+          'Language server diagnostics:\nNo errors or warnings.',
+        );
+      } finally {
+        delete (mockConfigInternal as { getLspService?: unknown })
+          .getLspService;
+      }
+    });
+
     it('should overwrite an existing file and return diff', async () => {
       const filePath = path.join(rootDir, 'execute_existing_file.txt');
       const initialContent = 'Initial content for execute.';
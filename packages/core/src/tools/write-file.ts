@@ -433,6 +433,13 @@ class WriteFileToolInvocation extends BaseToolInvocation<
         );
       }
 
+      const diagnostics = await this.config
+        .getLspService?.()
+        ?.getDiagnosticsMessage([filePath]);
+      if (diagnostics) {
+        llmSuccessMessageParts.push(`\n\n${diagnostics}`);
+      }
+
       const result: ToolResult = {
         llmContent: llmSuccessMessageParts.join(' '),
         returnDisplay: displayResult,
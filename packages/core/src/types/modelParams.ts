@@ -34,6 +34,12 @@ export interface EphemeralSettings {
   'context-limit'?: number;
   /** When to compress history (0-1) */
   'compression-threshold'?: number;
+  /** How history is compressed: 'summarize' (default), 'stub-tool-outputs' or 'todo-hierarchical' */
+  'compression-strategy'?: string;
+  /** Provider used only for compression summaries */
+  'compression-provider'?: string;
+  /** Model used only for compression summaries */
+  'compression-model'?: string;
   /** API authentication key */
   'auth-key'?: string;
   /** Path to key file */
@@ -44,6 +50,14 @@ export interface EphemeralSettings {
   'tool-format'?: string;
   /** API version (for Azure) */
   'api-version'?: string;
+  /** Request auth strategy: 'bearer' (default), 'azure' or 'sigv4' */
+  'auth-mode'?: string;
+  /** Azure OpenAI deployment name (defaults to the model name) */
+  'azure-deployment'?: string;
+  /** AWS region for SigV4 request signing */
+  'sigv4-region'?: string;
+  /** AWS service name for SigV4 request signing (default: 'bedrock') */
+  'sigv4-service'?: string;
   /** Custom HTTP headers */
   'custom-headers'?: Record<string, string>;
   /** Maximum number of items/files/matches returned by tools (default: 50) */
@@ -80,6 +94,12 @@ export interface EphemeralSettings {
   'tools.allowed'?: string[];
   /** Explicit disable-list of tool names */
   'tools.disabled'?: string[];
+  /** Ordered provider failover chain (`provider` or `provider:model` entries) */
+  'provider-failover'?: string[] | string;
+  /** Session cost in USD at which a warning is shown */
+  'budget-soft-limit'?: number;
+  /** Session cost in USD at which further requests are refused */
+  'budget-hard-limit'?: number;
 }
 
 /**
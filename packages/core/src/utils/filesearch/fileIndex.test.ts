@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { createTmpDir, cleanupTmpDir } from '@vybestack/llxprt-code-test-utils';
+import { WorkspaceFileIndex, parseGitStatus } from './fileIndex.js';
+
+describe('WorkspaceFileIndex', () => {
+  let tmpDir: string;
+  let indexDir: string;
+  let indexFile: string;
+
+  const createIndex = (useGitignore = true) =>
+    new WorkspaceFileIndex({
+      projectRoot: tmpDir,
+      indexFile,
+      useGitignore,
+      useGeminiignore: true,
+    });
+
+  beforeEach(async () => {
+    indexDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'file-index-'));
+    indexFile = path.join(indexDir, 'file-index.json');
+  });
+
+  afterEach(async () => {
+    if (tmpDir) {
+      await cleanupTmpDir(tmpDir);
+    }
+    await fs.promises.rm(indexDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('indexes files with their size and language', async () => {
+    tmpDir = await createTmpDir({
+      '.gitignore': 'dist/',
+      src: { 'main.ts': 'export {};', 'style.css': '' },
+      dist: ['bundle.js'],
+      Dockerfile: 'FROM node',
+    });
+
+    const index = createIndex();
+    await index.refresh();
+
+    expect(index.listPaths().sort()).toEqual([
+      '.gitignore',
+      'Dockerfile',
+      'src/',
+      'src/main.ts',
+      'src/style.css',
+    ]);
+    expect(index.getEntry('src/main.ts')).toMatchObject({
+      isDirectory: false,
+      size: 10,
+      language: 'typescript',
+      ignored: false,
+    });
+    expect(index.getEntry('Dockerfile')?.language).toBe('dockerfile');
+    expect(index.getEntry('dist')).toMatchObject({
+      isDirectory: true,
+      ignored: true,
+    });
+    expect(index.listDirectory('dist')).toBeUndefined();
+    expect(
+      index
+        .listDirectory('')
+        ?.map((entry) => entry.path)
+        .sort(),
+    ).toEqual(['.gitignore', 'Dockerfile', 'dist', 'src']);
+    expect(index.listFiles('src')?.map((entry) => entry.path)).toHaveLength(2);
+  });
+
+  it('picks up added and removed files', async () => {
+    tmpDir = await createTmpDir({
+      src: { 'a.ts': '', nested: { 'b.ts': '' } },
+    });
+    const index = createIndex();
+    await index.refresh();
+
+    await fs.promises.writeFile(path.join(tmpDir, 'src', 'nested', 'c.ts'), '');
+    await fs.promises.rm(path.join(tmpDir, 'src', 'a.ts'));
+    await index.refresh();
+
+    expect(index.listPaths().sort()).toEqual([
+      'src/',
+      'src/nested/',
+      'src/nested/b.ts',
+      'src/nested/c.ts',
+    ]);
+
+    await fs.promises.rm(path.join(tmpDir, 'src', 'nested'), {
+      recursive: true,
+    });
+    await index.refresh();
+
+    expect(index.listPaths()).toEqual(['src/']);
+    expect(index.getEntry('src/nested/b.ts')).toBeUndefined();
+  });
+
+  it('reloads the persisted index and only rereads changed directories', async () => {
+    tmpDir = await createTmpDir({
+      src: { 'a.ts': '' },
+      docs: { 'guide.md': '' },
+    });
+    await createIndex().refresh();
+    expect(fs.existsSync(indexFile)).toBe(true);
+
+    await fs.promises.writeFile(path.join(tmpDir, 'docs', 'new.md'), '');
+    const readdir = vi.spyOn(fs.promises, 'readdir');
+
+    const index = createIndex();
+    await index.refresh();
+
+    expect(index.getEntry('docs/new.md')?.language).toBe('markdown');
+    expect(index.getEntry('src/a.ts')).toBeDefined();
+    expect(readdir).toHaveBeenCalledTimes(1);
+    expect(readdir.mock.calls[0][0]).toBe(path.join(tmpDir, 'docs'));
+  });
+
+  it('rebuilds when the ignore rules change', async () => {
+    tmpDir = await createTmpDir({
+      '.gitignore': 'build/',
+      build: ['out.js'],
+    });
+    await createIndex().refresh();
+
+    await fs.promises.writeFile(path.join(tmpDir, '.gitignore'), '');
+    const index = createIndex();
+    await index.refresh();
+
+    expect(index.listPaths()).toContain('build/out.js');
+  });
+
+  it('records the git status of changed files', async () => {
+    tmpDir = await createTmpDir({
+      'tracked.ts': 'a',
+      'untracked.ts': '',
+    });
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: tmpDir, stdio: 'ignore' });
+    git('init', '-q');
+    git('add', 'tracked.ts');
+    await fs.promises.writeFile(path.join(tmpDir, 'tracked.ts'), 'ab');
+
+    const index = createIndex();
+    await index.refresh();
+
+    expect(index.getEntry('untracked.ts')?.gitStatus).toBe('untracked');
+    expect(index.getEntry('tracked.ts')).toMatchObject({
+      gitStatus: 'added',
+      size: 2,
+    });
+    expect(index.listPaths()).not.toContain('.git/');
+  });
+
+  it('matches crawl options only for the same root and ignore rules', async () => {
+    tmpDir = await createTmpDir({});
+    const index = createIndex();
+    const options = {
+      projectRoot: tmpDir,
+      useGitignore: true,
+      useGeminiignore: true,
+      ignoreDirs: [],
+    };
+
+    expect(index.matchesIgnoreOptions(options)).toBe(true);
+    expect(
+      index.matchesIgnoreOptions({ ...options, useGitignore: false }),
+    ).toBe(false);
+    expect(
+      index.matchesIgnoreOptions({ ...options, ignoreDirs: ['build'] }),
+    ).toBe(false);
+    expect(index.toIndexPath(path.join(tmpDir, 'a', 'b.ts'))).toBe('a/b.ts');
+    expect(index.toIndexPath(path.dirname(tmpDir))).toBeUndefined();
+  });
+});
+
+describe('parseGitStatus', () => {
+  it('parses porcelain records', () => {
+    const output = [
+      ' M src/a.ts',
+      'A  src/b.ts',
+      'R  src/new.ts',
+      'src/old.ts',
+      'UU src/conflict.ts',
+      '?? build/',
+      '',
+    ].join('\0');
+
+    expect(Object.fromEntries(parseGitStatus(output))).toEqual({
+      'src/a.ts': 'modified',
+      'src/b.ts': 'added',
+      'src/new.ts': 'renamed',
+      'src/conflict.ts': 'conflicted',
+      'build/': 'untracked',
+    });
+  });
+});
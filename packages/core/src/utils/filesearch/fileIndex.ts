@@ -0,0 +1,564 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { Ignore, LoadIgnoreRulesOptions, loadIgnoreRules } from './ignore.js';
+import { getLanguageId } from './languages.js';
+import { findGitRoot } from '../gitUtils.js';
+import { DebugLogger } from '../../debug/index.js';
+
+const logger = new DebugLogger('llxprt:core:fileIndex');
+const execFileAsync = promisify(execFile);
+
+const INDEX_FORMAT_VERSION = 1;
+
+/** Git status is refreshed at least this often, even if `.git/index` did not change. */
+const GIT_STATUS_INTERVAL_MS = 10_000;
+const GIT_STATUS_MAX_BUFFER = 64 * 1024 * 1024;
+
+export type GitFileStatus =
+  | 'modified'
+  | 'added'
+  | 'renamed'
+  | 'untracked'
+  | 'conflicted';
+
+export interface FileIndexEntry {
+  /** Path relative to the workspace root, using '/' separators. */
+  path: string;
+  isDirectory: boolean;
+  /** Size in bytes, 0 for directories. */
+  size: number;
+  mtimeMs: number;
+  /** Language identifier derived from the file name, if known. */
+  language?: string;
+  /** Git status of a changed file; undefined for unchanged files. */
+  gitStatus?: GitFileStatus;
+  /** Set for directories excluded by ignore rules; their contents are not indexed. */
+  ignored: boolean;
+}
+
+export interface WorkspaceFileIndexOptions {
+  projectRoot: string;
+  /** File the index is persisted to between sessions. */
+  indexFile: string;
+  useGitignore: boolean;
+  useGeminiignore: boolean;
+}
+
+type PersistedEntry = [
+  path: string,
+  isDirectory: 0 | 1,
+  size: number,
+  mtimeMs: number,
+  ignored: 0 | 1,
+];
+
+interface PersistedIndex {
+  version: number;
+  root: string;
+  ignoreFingerprint: string;
+  entries: PersistedEntry[];
+}
+
+function joinPath(parent: string, name: string): string {
+  return parent ? `${parent}/${name}` : name;
+}
+
+function parentPath(relativePath: string): string {
+  const separator = relativePath.lastIndexOf('/');
+  return separator === -1 ? '' : relativePath.slice(0, separator);
+}
+
+function toPosixPath(p: string): string {
+  return p.split(path.sep).join(path.posix.sep);
+}
+
+/**
+ * A persistent index of the paths in a workspace, with their sizes,
+ * languages and git status. The index is loaded from disk and brought up to
+ * date by comparing directory modification times, so only directories whose
+ * entries changed since the last refresh are read again. Directories that
+ * the ignore rules exclude are recorded but not descended into, matching the
+ * file search crawler.
+ *
+ * Editing a file in place does not change its directory, so the size and
+ * time of an edited file are only refreshed when git reports it as changed.
+ * Callers that need exact file metadata should stat the files they use.
+ */
+export class WorkspaceFileIndex {
+  private readonly entries = new Map<string, FileIndexEntry>();
+  private readonly children = new Map<string, Set<string>>();
+  private ignore: Ignore | undefined;
+  private ignoreFingerprint = '';
+  private loaded = false;
+  private changed = false;
+  private refreshing: Promise<void> | undefined;
+  private gitIndexMtimeMs: number | undefined;
+  private lastGitStatusAt = 0;
+
+  constructor(private readonly options: WorkspaceFileIndexOptions) {}
+
+  get projectRoot(): string {
+    return this.options.projectRoot;
+  }
+
+  /**
+   * Whether the index holds exactly the paths a crawl with the given ignore
+   * options would return.
+   */
+  matchesIgnoreOptions(options: LoadIgnoreRulesOptions): boolean {
+    return (
+      path.resolve(options.projectRoot) ===
+        path.resolve(this.options.projectRoot) &&
+      options.useGitignore === this.options.useGitignore &&
+      options.useGeminiignore === this.options.useGeminiignore &&
+      options.ignoreDirs.length === 0
+    );
+  }
+
+  /**
+   * Brings the index up to date with the file system, loading it from disk
+   * first if needed. Concurrent calls share one refresh.
+   */
+  refresh(): Promise<void> {
+    this.refreshing ??= this.update().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * Converts an absolute path to an index path.
+   * @returns the path relative to the workspace root, or undefined if the
+   * path is outside of it
+   */
+  toIndexPath(absolutePath: string): string | undefined {
+    const relative = path.relative(this.options.projectRoot, absolutePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    return toPosixPath(relative);
+  }
+
+  getEntry(indexPath: string): FileIndexEntry | undefined {
+    return this.entries.get(indexPath);
+  }
+
+  /**
+   * Lists the entries of an indexed directory.
+   * @returns the entries, or undefined if the directory is not indexed
+   */
+  listDirectory(indexPath: string): FileIndexEntry[] | undefined {
+    const names = this.children.get(indexPath);
+    if (!names) {
+      return undefined;
+    }
+    return [...names]
+      .map((name) => this.entries.get(joinPath(indexPath, name)))
+      .filter((entry): entry is FileIndexEntry => entry !== undefined);
+  }
+
+  /**
+   * Lists the files below a directory, skipping ignored directories.
+   * @returns the files, or undefined if the directory is not indexed
+   */
+  listFiles(indexPath = ''): FileIndexEntry[] | undefined {
+    if (!this.children.has(indexPath)) {
+      return undefined;
+    }
+    const prefix = indexPath ? `${indexPath}/` : '';
+    const files: FileIndexEntry[] = [];
+    for (const entry of this.entries.values()) {
+      if (!entry.isDirectory && entry.path.startsWith(prefix)) {
+        files.push(entry);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Lists all paths that are not excluded by ignore rules, in the format of
+   * the file search crawler: relative paths with directories ending in '/'.
+   */
+  listPaths(): string[] {
+    const paths: string[] = [];
+    for (const entry of this.entries.values()) {
+      if (entry.path && !entry.ignored) {
+        paths.push(entry.isDirectory ? `${entry.path}/` : entry.path);
+      }
+    }
+    return paths;
+  }
+
+  private async update(): Promise<void> {
+    const ignore = loadIgnoreRules({
+      projectRoot: this.options.projectRoot,
+      useGitignore: this.options.useGitignore,
+      useGeminiignore: this.options.useGeminiignore,
+      ignoreDirs: [],
+    });
+    const fingerprint = ignore.getFingerprint();
+    if (!this.loaded) {
+      await this.load(fingerprint);
+      this.loaded = true;
+    }
+    if (this.ignore && fingerprint !== this.ignoreFingerprint) {
+      this.clear();
+    }
+    this.ignore = ignore;
+    this.ignoreFingerprint = fingerprint;
+
+    await this.syncDirectory('');
+    await this.updateGitStatus();
+
+    if (this.changed) {
+      this.changed = false;
+      await this.save();
+    }
+  }
+
+  private async syncDirectory(indexPath: string): Promise<void> {
+    const absolutePath = path.join(this.options.projectRoot, indexPath);
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.lstat(absolutePath);
+    } catch {
+      this.remove(indexPath);
+      return;
+    }
+    if (!stats.isDirectory()) {
+      this.setEntry(indexPath, stats, false);
+      return;
+    }
+
+    const existing = this.entries.get(indexPath);
+    const known = this.children.get(indexPath);
+    if (known && existing?.isDirectory && existing.mtimeMs === stats.mtimeMs) {
+      // The directory's entries are unchanged; only its subdirectories can
+      // have changed.
+      for (const name of known) {
+        const child = this.entries.get(joinPath(indexPath, name));
+        if (child?.isDirectory && !child.ignored) {
+          await this.syncDirectory(child.path);
+        }
+      }
+      return;
+    }
+
+    let dirents: fs.Dirent[];
+    try {
+      dirents = await fs.promises.readdir(absolutePath, {
+        withFileTypes: true,
+      });
+    } catch {
+      this.remove(indexPath);
+      return;
+    }
+
+    const names = new Set(dirents.map((dirent) => dirent.name));
+    for (const name of known ?? []) {
+      if (!names.has(name)) {
+        this.remove(joinPath(indexPath, name));
+      }
+    }
+    this.children.set(indexPath, names);
+    this.setEntry(indexPath, stats, false);
+
+    const isIgnoredDirectory = this.ignore!.getDirectoryFilter();
+    await Promise.all(
+      dirents
+        .filter(
+          (dirent) =>
+            !dirent.isDirectory() ||
+            isIgnoredDirectory(`${joinPath(indexPath, dirent.name)}/`),
+        )
+        .map(async (dirent) => {
+          const childPath = joinPath(indexPath, dirent.name);
+          try {
+            const childStats = await fs.promises.lstat(
+              path.join(this.options.projectRoot, childPath),
+            );
+            this.setEntry(childPath, childStats, dirent.isDirectory());
+          } catch {
+            this.remove(childPath);
+          }
+        }),
+    );
+
+    for (const dirent of dirents) {
+      const childPath = joinPath(indexPath, dirent.name);
+      if (dirent.isDirectory() && !this.entries.get(childPath)?.ignored) {
+        await this.syncDirectory(childPath);
+      }
+    }
+  }
+
+  private setEntry(indexPath: string, stats: fs.Stats, ignored: boolean) {
+    const isDirectory = stats.isDirectory();
+    const size = isDirectory ? 0 : stats.size;
+    const previous = this.entries.get(indexPath);
+    if (
+      previous &&
+      previous.isDirectory === isDirectory &&
+      previous.ignored === ignored &&
+      previous.size === size &&
+      previous.mtimeMs === stats.mtimeMs
+    ) {
+      return;
+    }
+    if (previous?.isDirectory && (!isDirectory || ignored)) {
+      this.removeDescendants(indexPath);
+    }
+    this.entries.set(indexPath, {
+      path: indexPath,
+      isDirectory,
+      size,
+      mtimeMs: stats.mtimeMs,
+      language: isDirectory ? undefined : getLanguageId(indexPath),
+      gitStatus: previous?.gitStatus,
+      ignored,
+    });
+    this.changed = true;
+  }
+
+  private remove(indexPath: string): void {
+    if (!this.entries.has(indexPath) && !this.children.has(indexPath)) {
+      return;
+    }
+    this.removeDescendants(indexPath);
+    this.entries.delete(indexPath);
+    if (indexPath) {
+      this.children
+        .get(parentPath(indexPath))
+        ?.delete(indexPath.slice(indexPath.lastIndexOf('/') + 1));
+    }
+    this.changed = true;
+  }
+
+  private removeDescendants(indexPath: string): void {
+    const names = this.children.get(indexPath);
+    if (!names) {
+      return;
+    }
+    for (const name of names) {
+      const childPath = joinPath(indexPath, name);
+      this.removeDescendants(childPath);
+      this.entries.delete(childPath);
+    }
+    this.children.delete(indexPath);
+    this.changed = true;
+  }
+
+  private clear(): void {
+    this.entries.clear();
+    this.children.clear();
+    this.changed = true;
+  }
+
+  /**
+   * Updates the git status of the entries. Runs when `.git/index` changed,
+   * when the tree changed, or when the last run is getting old, since files
+   * edited in place are only noticed by git.
+   */
+  private async updateGitStatus(): Promise<void> {
+    const gitRoot = findGitRoot(this.options.projectRoot);
+    if (!gitRoot) {
+      return;
+    }
+    let gitIndexMtimeMs: number | undefined;
+    try {
+      gitIndexMtimeMs = (
+        await fs.promises.stat(path.join(gitRoot, '.git', 'index'))
+      ).mtimeMs;
+    } catch {
+      gitIndexMtimeMs = undefined;
+    }
+    if (
+      !this.changed &&
+      gitIndexMtimeMs !== undefined &&
+      gitIndexMtimeMs === this.gitIndexMtimeMs &&
+      Date.now() - this.lastGitStatusAt < GIT_STATUS_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(
+        'git',
+        ['status', '--porcelain=v1', '-z', '--untracked-files=normal', '.'],
+        { cwd: this.options.projectRoot, maxBuffer: GIT_STATUS_MAX_BUFFER },
+      ));
+    } catch (error) {
+      logger.debug(() => `git status failed: ${error}`);
+      return;
+    }
+    this.gitIndexMtimeMs = gitIndexMtimeMs;
+    this.lastGitStatusAt = Date.now();
+
+    for (const entry of this.entries.values()) {
+      entry.gitStatus = undefined;
+    }
+
+    // Porcelain paths are relative to the repository root.
+    const rootPrefix = toPosixPath(
+      path.relative(gitRoot, this.options.projectRoot),
+    );
+    for (const [repoPath, status] of parseGitStatus(stdout)) {
+      let indexPath = rootPrefix
+        ? path.posix.relative(rootPrefix, repoPath)
+        : repoPath;
+      if (!indexPath || indexPath.startsWith('..')) {
+        continue;
+      }
+      if (indexPath.endsWith('/')) {
+        // An untracked directory: everything below it is untracked.
+        indexPath = indexPath.slice(0, -1);
+        for (const entry of this.entries.values()) {
+          if (
+            entry.path === indexPath ||
+            entry.path.startsWith(`${indexPath}/`)
+          ) {
+            entry.gitStatus = status;
+          }
+        }
+        continue;
+      }
+      if (!this.entries.has(indexPath)) {
+        continue;
+      }
+      // Files edited in place keep their directory's mtime, so refresh
+      // their metadata here.
+      try {
+        this.setEntry(
+          indexPath,
+          await fs.promises.lstat(
+            path.join(this.options.projectRoot, indexPath),
+          ),
+          false,
+        );
+      } catch {
+        this.remove(indexPath);
+        continue;
+      }
+      this.entries.get(indexPath)!.gitStatus = status;
+    }
+  }
+
+  private async load(ignoreFingerprint: string): Promise<void> {
+    let persisted: PersistedIndex;
+    try {
+      persisted = JSON.parse(
+        await fs.promises.readFile(this.options.indexFile, 'utf8'),
+      ) as PersistedIndex;
+    } catch {
+      return;
+    }
+    if (
+      persisted.version !== INDEX_FORMAT_VERSION ||
+      persisted.root !== this.options.projectRoot ||
+      persisted.ignoreFingerprint !== ignoreFingerprint ||
+      !Array.isArray(persisted.entries)
+    ) {
+      return;
+    }
+
+    for (const [
+      entryPath,
+      isDirectory,
+      size,
+      mtimeMs,
+      ignored,
+    ] of persisted.entries) {
+      this.entries.set(entryPath, {
+        path: entryPath,
+        isDirectory: isDirectory === 1,
+        size,
+        mtimeMs,
+        language: isDirectory === 1 ? undefined : getLanguageId(entryPath),
+        ignored: ignored === 1,
+      });
+      if (isDirectory === 1 && ignored !== 1) {
+        this.children.set(entryPath, this.children.get(entryPath) ?? new Set());
+      }
+      if (entryPath) {
+        const parent = parentPath(entryPath);
+        const siblings = this.children.get(parent) ?? new Set<string>();
+        siblings.add(entryPath.slice(entryPath.lastIndexOf('/') + 1));
+        this.children.set(parent, siblings);
+      }
+    }
+    this.ignoreFingerprint = ignoreFingerprint;
+    logger.debug(
+      () =>
+        `Loaded ${this.entries.size} entries from ${this.options.indexFile}`,
+    );
+  }
+
+  private async save(): Promise<void> {
+    const persisted: PersistedIndex = {
+      version: INDEX_FORMAT_VERSION,
+      root: this.options.projectRoot,
+      ignoreFingerprint: this.ignoreFingerprint,
+      entries: [...this.entries.values()].map((entry) => [
+        entry.path,
+        entry.isDirectory ? 1 : 0,
+        entry.size,
+        entry.mtimeMs,
+        entry.ignored ? 1 : 0,
+      ]),
+    };
+    const tempFile = `${this.options.indexFile}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.options.indexFile), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(tempFile, JSON.stringify(persisted));
+      await fs.promises.rename(tempFile, this.options.indexFile);
+    } catch (error) {
+      logger.debug(() => `Failed to save the file index: ${error}`);
+    }
+  }
+}
+
+/**
+ * Parses `git status --porcelain=v1 -z` output into paths and statuses.
+ * Untracked directories keep their trailing '/'.
+ */
+export function parseGitStatus(output: string): Map<string, GitFileStatus> {
+  const statuses = new Map<string, GitFileStatus>();
+  const records = output.split('\0');
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (record.length < 4) {
+      continue;
+    }
+    const code = record.slice(0, 2);
+    const filePath = record.slice(3);
+    let status: GitFileStatus | undefined;
+    if (code === '??') {
+      status = 'untracked';
+    } else if (code.includes('U') || code === 'AA' || code === 'DD') {
+      status = 'conflicted';
+    } else if (code.includes('R') || code.includes('C')) {
+      status = 'renamed';
+      // The original path follows as its own record.
+      i++;
+    } else if (code[0] === 'A') {
+      status = 'added';
+    } else if (code.includes('M') || code.includes('T')) {
+      status = 'modified';
+    }
+    if (status) {
+      statuses.set(filePath, status);
+    }
+  }
+  return statuses;
+}
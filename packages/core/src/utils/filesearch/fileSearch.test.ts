@@ -5,8 +5,11 @@
  */
 
 import { describe, it, expect, afterEach, vi } from 'vitest';
+import path from 'node:path';
 import { FileSearchFactory, AbortError, filter } from './fileSearch.js';
 import { createTmpDir, cleanupTmpDir } from '@vybestack/llxprt-code-test-utils';
+import { WorkspaceFileIndex } from './fileIndex.js';
+import * as crawler from './crawler.js';
 
 describe('FileSearch', () => {
   let tmpDir: string;
@@ -41,6 +44,39 @@ describe('FileSearch', () => {
     expect(results).toEqual(['src/', '.geminiignore', 'src/not-ignored.js']);
   });
 
+  it('should read paths from a matching file index instead of crawling', async () => {
+    tmpDir = await createTmpDir({
+      '.gitignore': 'dist/',
+      dist: ['ignored.js'],
+      src: ['main.ts'],
+    });
+    const fileIndex = new WorkspaceFileIndex({
+      projectRoot: tmpDir,
+      indexFile: path.join(tmpDir, 'dist', 'file-index.json'),
+      useGitignore: true,
+      useGeminiignore: true,
+    });
+    const crawlSpy = vi.spyOn(crawler, 'crawl');
+
+    const fileSearch = FileSearchFactory.create({
+      projectRoot: tmpDir,
+      useGitignore: true,
+      useGeminiignore: true,
+      ignoreDirs: [],
+      cache: false,
+      cacheTtl: 0,
+      enableRecursiveFileSearch: true,
+      disableFuzzySearch: false,
+      fileIndex,
+    });
+
+    await fileSearch.initialize();
+    const results = await fileSearch.search('');
+
+    expect(results).toEqual(['src/', '.gitignore', 'src/main.ts']);
+    expect(crawlSpy).not.toHaveBeenCalled();
+  });
+
   it('should combine .gitignore and .geminiignore rules', async () => {
     tmpDir = await createTmpDir({
       '.gitignore': 'dist/',
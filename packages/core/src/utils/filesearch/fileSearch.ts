@@ -9,6 +9,7 @@ import picomatch from 'picomatch';
 import { Ignore, loadIgnoreRules } from './ignore.js';
 import { ResultCache } from './result-cache.js';
 import { crawl } from './crawler.js';
+import { WorkspaceFileIndex } from './fileIndex.js';
 import { AsyncFzf, FzfResultItem } from 'fzf';
 import { unescapePath } from '../paths.js';
 
@@ -22,6 +23,11 @@ export interface FileSearchOptions {
   enableRecursiveFileSearch: boolean;
   disableFuzzySearch: boolean;
   maxDepth?: number;
+  /**
+   * Persistent index used instead of crawling when it was built with the
+   * same ignore options.
+   */
+  fileIndex?: WorkspaceFileIndex;
 }
 
 export class AbortError extends Error {
@@ -100,6 +106,18 @@ class RecursiveFileSearch implements FileSearch {
   async initialize(): Promise<void> {
     this.ignore = loadIgnoreRules(this.options);
 
+    const { fileIndex } = this.options;
+    if (
+      fileIndex &&
+      this.options.maxDepth === undefined &&
+      fileIndex.matchesIgnoreOptions(this.options)
+    ) {
+      await fileIndex.refresh();
+      this.allFiles = fileIndex.listPaths();
+      this.buildResultCache();
+      return;
+    }
+
     this.allFiles = await crawl({
       crawlDirectory: this.options.projectRoot,
       cwd: this.options.projectRoot,
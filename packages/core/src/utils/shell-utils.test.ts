@@ -11,6 +11,7 @@ import {
   getCommandRoots,
   getShellConfiguration,
   isCommandAllowed,
+  parseShellCommand,
   stripShellWrapper,
 } from './shell-utils.js';
 import { Config } from '../config/config.js';
@@ -30,7 +31,8 @@ vi.mock('os', () => ({
 }));
 
 const mockQuote = vi.hoisted(() => vi.fn());
-vi.mock('shell-quote', () => ({
+vi.mock('shell-quote', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('shell-quote')>()),
   quote: mockQuote,
 }));
 
@@ -284,6 +286,54 @@ describe('getCommandRoots', () => {
     const result = getCommandRoots('echo "hello" && git commit -m "feat"');
     expect(result).toEqual(['echo', 'git']);
   });
+
+  it('should split commands on line breaks outside quotes', () => {
+    expect(getCommandRoots('echo "a\nb"\nls')).toEqual(['echo', 'ls']);
+  });
+});
+
+describe('parseShellCommand', () => {
+  const commandsOf = (command: string) =>
+    parseShellCommand(command).invocations.map(({ words, wrapped }) => [
+      words.join(' '),
+      wrapped,
+    ]);
+
+  it('should follow wrappers past their options', () => {
+    expect(
+      commandsOf('sudo -Eu root env A=1 timeout -s KILL 5 curl x'),
+    ).toEqual([
+      ['sudo -Eu root env A=1 timeout -s KILL 5 curl x', false],
+      ['env A=1 timeout -s KILL 5 curl x', true],
+      ['timeout -s KILL 5 curl x', true],
+      ['curl x', true],
+    ]);
+  });
+
+  it('should follow nested shells, find -exec and substitutions', () => {
+    expect(
+      commandsOf('bash -lc "xargs rm" && find . -exec /bin/cat {} +'),
+    ).toEqual([
+      ['bash -lc xargs rm', false],
+      ['xargs rm', true],
+      ['rm', true],
+      ['find . -exec /bin/cat {} +', false],
+      ['cat {}', true],
+    ]);
+    expect(commandsOf('echo "$(git log | head -1)" 2>/dev/null')).toEqual([
+      ['git log', false],
+      ['head -1', false],
+      ['echo $SUBSTITUTION', false],
+    ]);
+  });
+
+  it('should report commands that cannot be told', () => {
+    expect(parseShellCommand('ls && (cd src; make)').complete).toBe(true);
+    expect(parseShellCommand('$CMD --flag').complete).toBe(false);
+    expect(parseShellCommand('curl -s x | sh').complete).toBe(false);
+    expect(parseShellCommand('env -S "curl x"').complete).toBe(false);
+    expect(parseShellCommand('echo $(unclosed').complete).toBe(false);
+  });
 });
 
 describe('stripShellWrapper', () => {
@@ -7,7 +7,7 @@
 import type { AnyToolInvocation } from '../index.js';
 import type { Config } from '../config/config.js';
 import os from 'node:os';
-import { quote } from 'shell-quote';
+import { parse, quote } from 'shell-quote';
 import { doesToolInvocationMatch } from './tool-utils.js';
 
 const SHELL_TOOL_NAMES = ['run_shell_command', 'ShellTool'];
@@ -108,7 +108,8 @@ export function escapeShellArg(arg: string, shell: ShellType): string {
 
 /**
  * Splits a shell command into a list of individual commands, respecting quotes.
- * This is used to separate chained commands (e.g., using &&, ||, ;).
+ * This is used to separate chained commands (e.g., using &&, ||, ; or line
+ * breaks).
  * @param command The shell command string to parse
  * @returns An array of individual command strings
  */
@@ -143,7 +144,12 @@ export function splitCommands(command: string): string[] {
         commands.push(currentCommand.trim());
         currentCommand = '';
         i++; // Skip the next character
-      } else if (char === ';' || char === '&' || char === '|') {
+      } else if (
+        char === ';' ||
+        char === '&' ||
+        char === '|' ||
+        char === '\n'
+      ) {
         commands.push(currentCommand.trim());
         currentCommand = '';
       } else {
@@ -203,6 +209,441 @@ export function getCommandRoots(command: string): string[] {
     .filter((c): c is string => !!c);
 }
 
+/**
+ * A command that a shell command line runs
+ */
+export interface ShellInvocation {
+  /** The words of the command, with the program reduced to its name */
+  words: string[];
+  /**
+   * Whether the command runs through another program, such as `sudo curl`,
+   * `bash -c "curl"` or `find -exec curl`
+   */
+  wrapped: boolean;
+}
+
+export interface ParsedShellCommand {
+  /** Every command found, wrappers followed by the commands they run */
+  invocations: ShellInvocation[];
+  /**
+   * False when some of the commands that run cannot be told from the text,
+   * such as a program in a variable or a shell reading standard input
+   */
+  complete: boolean;
+}
+
+interface CommandWrapper {
+  /** Short options that take a value */
+  shortWithValue?: string;
+  /** Long options that take the next word as their value */
+  longWithValue?: string[];
+  /** Options that make the command impossible to tell */
+  unparsedOptions?: string[];
+  /** Words between the options and the command, such as a duration */
+  operands?: number;
+  /** Whether `NAME=value` words may come before the command */
+  assignments?: boolean;
+  /** Whether the words of the command are run as a shell command line */
+  shell?: boolean;
+}
+
+/** Programs that run the command given in their arguments */
+const COMMAND_WRAPPERS: Record<string, CommandWrapper> = {
+  sudo: {
+    shortWithValue: 'CDghpRrTtUu',
+    longWithValue: [
+      '--chdir',
+      '--close-from',
+      '--command-timeout',
+      '--group',
+      '--host',
+      '--other-user',
+      '--prompt',
+      '--role',
+      '--type',
+      '--user',
+    ],
+    assignments: true,
+  },
+  doas: { shortWithValue: 'Cu' },
+  env: {
+    shortWithValue: 'Cu',
+    longWithValue: ['--chdir', '--unset'],
+    unparsedOptions: ['-S', '--split-string'],
+    assignments: true,
+  },
+  xargs: {
+    shortWithValue: 'adEILnPs',
+    longWithValue: [
+      '--arg-file',
+      '--delimiter',
+      '--max-args',
+      '--max-chars',
+      '--max-procs',
+      '--process-slot-var',
+    ],
+  },
+  nice: { shortWithValue: 'n', longWithValue: ['--adjustment'] },
+  ionice: {
+    shortWithValue: 'cnpPu',
+    longWithValue: ['--class', '--classdata', '--pgid', '--pid', '--uid'],
+  },
+  timeout: {
+    shortWithValue: 'ks',
+    longWithValue: ['--kill-after', '--signal'],
+    operands: 1,
+  },
+  stdbuf: {
+    shortWithValue: 'eio',
+    longWithValue: ['--error', '--input', '--output'],
+  },
+  time: { shortWithValue: 'fo', longWithValue: ['--format', '--output'] },
+  chroot: { longWithValue: ['--groups', '--userspec'], operands: 1 },
+  watch: { shortWithValue: 'n', longWithValue: ['--interval'], shell: true },
+  exec: { shortWithValue: 'a' },
+  builtin: {},
+  command: {},
+  nohup: {},
+  setsid: {},
+};
+
+/** Shells that run the command line given with `-c` */
+const SHELLS = new Set([
+  'sh',
+  'bash',
+  'zsh',
+  'dash',
+  'ksh',
+  'ash',
+  'fish',
+  'su',
+]);
+
+/** Shell options that take a value */
+const SHELL_OPTIONS_WITH_VALUE = new Set(['-o', '+o', '-O', '+O', '--rcfile']);
+
+/** Words that can come before a command without being one */
+const SHELL_KEYWORDS = new Set([
+  '!',
+  '{',
+  '}',
+  'if',
+  'then',
+  'elif',
+  'else',
+  'fi',
+  'while',
+  'until',
+  'do',
+  'done',
+]);
+
+/** `find` actions that run a command up to `;` or `+` */
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+
+/** Shells within shells are followed this deep */
+const MAX_SHELL_NESTING = 5;
+
+/** Stands in for a command substitution once its command has been read */
+const SUBSTITUTION_PLACEHOLDER = '$SUBSTITUTION';
+
+const isAssignment = (word: string) => /^[A-Za-z_][A-Za-z0-9_]*=/.test(word);
+
+function findClosingParen(command: string, start: number): number {
+  let depth = 1;
+  let quote: string | undefined;
+  for (let i = start; i < command.length; i++) {
+    const char = command[i];
+    if (char === '\\' && quote !== "'") {
+      i++;
+    } else if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function findClosingBacktick(command: string, start: number): number {
+  for (let i = start; i < command.length; i++) {
+    if (command[i] === '\\') {
+      i++;
+    } else if (command[i] === '`') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Takes the commands of `$(...)`, backtick and `<(...)` substitutions out of
+ * a command line, leaving a placeholder. Undefined when one is not closed.
+ */
+function extractSubstitutions(
+  command: string,
+): { text: string; bodies: string[] } | undefined {
+  const bodies: string[] = [];
+  let text = '';
+  let inSingleQuotes = false;
+  let inDoubleQuotes = false;
+  let i = 0;
+  while (i < command.length) {
+    const char = command[i];
+    if (char === '\\' && !inSingleQuotes) {
+      text += command.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (char === "'" && !inDoubleQuotes) {
+      inSingleQuotes = !inSingleQuotes;
+    } else if (char === '"' && !inSingleQuotes) {
+      inDoubleQuotes = !inDoubleQuotes;
+    } else if (!inSingleQuotes) {
+      const isParen =
+        command[i + 1] === '(' &&
+        (char === '$' || (!inDoubleQuotes && (char === '<' || char === '>')));
+      if (isParen || char === '`') {
+        const bodyStart = i + (isParen ? 2 : 1);
+        const end = isParen
+          ? findClosingParen(command, bodyStart)
+          : findClosingBacktick(command, bodyStart);
+        if (end === -1) {
+          return undefined;
+        }
+        bodies.push(command.slice(bodyStart, end));
+        text += SUBSTITUTION_PLACEHOLDER;
+        i = end + 1;
+        continue;
+      }
+    }
+    text += char;
+    i++;
+  }
+  return { text, bodies };
+}
+
+/**
+ * The words of one command without redirections or subshell parentheses.
+ * Undefined for syntax the words cannot be told from.
+ */
+function getCommandWords(segment: string): string[] | undefined {
+  const words: string[] = [];
+  // Variables are kept as written so a program in a variable can be seen
+  const entries = parse(segment, (name) => `$${name}`);
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (typeof entry === 'string') {
+      words.push(entry);
+    } else if ('comment' in entry) {
+      break;
+    } else if (entry.op === 'glob') {
+      words.push(entry.pattern);
+    } else if (['<', '>', '>>', '>&'].includes(entry.op)) {
+      // Drop the file descriptor before the operator and the target after it
+      if (/^\d+$/.test(words[words.length - 1] ?? '')) {
+        words.pop();
+      }
+      i++;
+    } else if (!['(', ')', ';;'].includes(entry.op)) {
+      return undefined;
+    }
+  }
+  return words;
+}
+
+/**
+ * The index of the command in the words of a wrapper, after its options
+ */
+function skipWrapperOptions(
+  words: string[],
+  wrapper: CommandWrapper,
+  parsed: ParsedShellCommand,
+): number {
+  let index = 1;
+  while (index < words.length) {
+    const word = words[index];
+    if (word === '--') {
+      index++;
+      break;
+    }
+    if (wrapper.assignments && isAssignment(word)) {
+      index++;
+      continue;
+    }
+    if (!word.startsWith('-')) {
+      break;
+    }
+    if (wrapper.unparsedOptions?.some((option) => word.startsWith(option))) {
+      parsed.complete = false;
+    }
+    if (word.startsWith('--')) {
+      index +=
+        !word.includes('=') && wrapper.longWithValue?.includes(word) ? 2 : 1;
+    } else {
+      // A short option that takes a value takes the rest of the word, or
+      // the next word when it ends the word: `-uroot`, `-u root`, `-Eu root`
+      const letters = word.slice(1);
+      const valueAt = [...letters].findIndex((letter) =>
+        wrapper.shortWithValue?.includes(letter),
+      );
+      index += valueAt !== -1 && valueAt === letters.length - 1 ? 2 : 1;
+    }
+  }
+  return index + (wrapper.operands ?? 0);
+}
+
+function addShellInvocations(
+  parsed: ParsedShellCommand,
+  command: string,
+  wrapped: boolean,
+  depth: number,
+): void {
+  if (depth > MAX_SHELL_NESTING) {
+    parsed.complete = false;
+    return;
+  }
+  const extracted = extractSubstitutions(command);
+  if (!extracted) {
+    parsed.complete = false;
+  }
+  for (const body of extracted?.bodies ?? []) {
+    addShellInvocations(parsed, body, wrapped, depth + 1);
+  }
+  for (const segment of splitCommands(extracted?.text ?? command)) {
+    const words = getCommandWords(segment);
+    if (words) {
+      addInvocation(parsed, words, wrapped, depth);
+    } else {
+      parsed.complete = false;
+    }
+  }
+}
+
+function addInvocation(
+  parsed: ParsedShellCommand,
+  commandWords: string[],
+  wrapped: boolean,
+  depth: number,
+): void {
+  const start = commandWords.findIndex(
+    (word) => !SHELL_KEYWORDS.has(word) && !isAssignment(word),
+  );
+  if (start === -1) {
+    return;
+  }
+  if (depth > MAX_SHELL_NESTING) {
+    parsed.complete = false;
+    return;
+  }
+  const words = commandWords.slice(start);
+  const [program, ...args] = words;
+  if (program.includes('$')) {
+    parsed.complete = false;
+  }
+  const name = program.split(/[\\/]/).pop() || program;
+  parsed.invocations.push({ words: [name, ...args], wrapped });
+
+  const wrapper = COMMAND_WRAPPERS[name];
+  if (wrapper) {
+    const commandStart = skipWrapperOptions(words, wrapper, parsed);
+    if (commandStart >= words.length) {
+      return;
+    }
+    if (wrapper.shell) {
+      addShellInvocations(
+        parsed,
+        words.slice(commandStart).join(' '),
+        true,
+        depth + 1,
+      );
+    } else {
+      addInvocation(parsed, words.slice(commandStart), true, depth + 1);
+    }
+  } else if (name === 'eval') {
+    addShellInvocations(parsed, args.join(' '), true, depth + 1);
+  } else if (SHELLS.has(name)) {
+    addShellScript(parsed, args, depth);
+  } else if (name === 'find') {
+    args.forEach((word, index) => {
+      if (FIND_EXEC_ACTIONS.has(word)) {
+        const end = args.findIndex(
+          (arg, argIndex) => argIndex > index && (arg === ';' || arg === '+'),
+        );
+        addInvocation(
+          parsed,
+          args.slice(index + 1, end === -1 ? undefined : end),
+          true,
+          depth + 1,
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Follows the command line a shell runs with `-c`. A shell without a
+ * command line or script reads its commands from standard input, which
+ * cannot be told.
+ */
+function addShellScript(
+  parsed: ParsedShellCommand,
+  args: string[],
+  depth: number,
+): void {
+  let runsCommandLine = false;
+  let index = 0;
+  for (; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--' || arg === '-') {
+      index++;
+      break;
+    }
+    if (!arg.startsWith('-') && !arg.startsWith('+')) {
+      break;
+    }
+    if (SHELL_OPTIONS_WITH_VALUE.has(arg)) {
+      index++;
+    } else if (
+      arg === '--command' ||
+      (!arg.startsWith('--') && arg.slice(1).includes('c'))
+    ) {
+      runsCommandLine = true;
+    } else if (arg.startsWith('--command=')) {
+      addShellInvocations(
+        parsed,
+        arg.slice('--command='.length),
+        true,
+        depth + 1,
+      );
+      return;
+    }
+  }
+  if (runsCommandLine && index < args.length) {
+    addShellInvocations(parsed, args[index], true, depth + 1);
+  } else if (runsCommandLine || index >= args.length) {
+    parsed.complete = false;
+  }
+}
+
+/**
+ * Finds the commands a shell command line runs, including those run by
+ * wrappers such as `sudo`, `env`, `xargs` or `timeout`, by nested shells
+ * such as `bash -c "..."`, by `find -exec` and in command substitutions.
+ * @param command The shell command string to parse
+ */
+export function parseShellCommand(command: string): ParsedShellCommand {
+  const parsed: ParsedShellCommand = { invocations: [], complete: true };
+  addShellInvocations(parsed, command, false, 0);
+  return parsed;
+}
+
 export function stripShellWrapper(command: string): string {
   const pattern = /^\s*(?:sh|bash|zsh|cmd.exe)\s+(?:\/c|-c)\s+/;
   const match = command.match(pattern);
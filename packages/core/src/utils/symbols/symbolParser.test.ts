@@ -0,0 +1,289 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CodeSymbol,
+  findIdentifierOccurrences,
+  parseSymbols,
+} from './symbolParser.js';
+
+/** Formats symbols as `kind container.name start-end` for compact asserts. */
+function summarize(symbols: CodeSymbol[]): string[] {
+  return symbols.map(
+    (symbol) =>
+      `${symbol.kind} ${symbol.container ? `${symbol.container}.` : ''}${symbol.name} ${symbol.startLine}-${symbol.endLine}`,
+  );
+}
+
+describe('parseSymbols', () => {
+  it('parses TypeScript declarations and class members', () => {
+    const source = [
+      "import { x } from './x.js';", // 1
+      '', // 2
+      '/** Docs with class Fake {} */', // 3
+      '@decorator()', // 4
+      'export class Greeter extends Base {', // 5
+      '  private readonly name: string;', // 6
+      "  static greeting = 'hi';", // 7
+      '', // 8
+      '  constructor(name: string) {', // 9
+      '    super();', // 10
+      '    this.name = name;', // 11
+      '  }', // 12
+      '', // 13
+      '  async greet(): Promise<string> {', // 14
+      '    const inner = `${this.name} { }`;', // 15
+      '    return inner;', // 16
+      '  }', // 17
+      '}', // 18
+      '', // 19
+      'export interface Options {', // 20
+      '  verbose?: boolean,', // 21
+      '  run(): void', // 22
+      '}', // 23
+      '', // 24
+      'export type Mode =', // 25
+      "  | 'a'", // 26
+      "  | 'b';", // 27
+      '', // 28
+      'export const handler = async (event: Event) => {', // 29
+      '  return event;', // 30
+      '};', // 31
+      '', // 32
+      'const enum Color { Red, Green }', // 33
+      'export default function* generate() {}', // 34
+      'namespace Outer.Inner {', // 35
+      '  export function helper() {}', // 36
+      '}', // 37
+      'let counter = 0', // 38
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'typescript'))).toEqual([
+      'class Greeter 4-18',
+      'property Greeter.name 6-6',
+      'property Greeter.greeting 7-7',
+      'method Greeter.constructor 9-12',
+      'method Greeter.greet 14-17',
+      'interface Options 20-23',
+      'property Options.verbose 21-21',
+      'method Options.run 22-22',
+      'type Mode 25-27',
+      'function handler 29-31',
+      'enum Color 33-33',
+      'function generate 34-34',
+      'namespace Inner 35-37',
+      'function Inner.helper 36-36',
+      'variable counter 38-38',
+    ]);
+  });
+
+  it('keeps type arguments within one declaration', () => {
+    const source = [
+      'class Store extends Base<',
+      '  Key,',
+      '  Value',
+      '> {',
+      '  private cache = new Map<string, number>();',
+      '  get(key: string): Promise<Map<Key, Value>> {',
+      '    return this.load(key);',
+      '  }',
+      '}',
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'typescript'))).toEqual([
+      'class Store 1-9',
+      'property Store.cache 5-5',
+      'method Store.get 6-8',
+    ]);
+  });
+
+  it('finds the body after object types in type arguments', () => {
+    const source = [
+      'class Foo<T extends { a: string }> {', // 1
+      '  m() {}', // 2
+      '}', // 3
+      'class Bar extends Base<{ a: 1 }> implements Baz<{ b: 2 }> {', // 4
+      '  n = 1;', // 5
+      '}', // 6
+      'interface Qux<T = { c: Map<string, { d: 3 }> }> {', // 7
+      '  run(): void', // 8
+      '}', // 9
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'typescript'))).toEqual([
+      'class Foo 1-3',
+      'method Foo.m 2-2',
+      'class Bar 4-6',
+      'property Bar.n 5-5',
+      'interface Qux 7-9',
+      'method Qux.run 8-8',
+    ]);
+  });
+
+  it('parses Python classes, methods and module variables', () => {
+    const source = [
+      'import os', // 1
+      'MAX_SIZE = 10', // 2
+      '', // 3
+      'class Parser(Base):', // 4
+      '    """A class Fake: docstring."""', // 5
+      '    mode: str = "fast"', // 6
+      '', // 7
+      '    @staticmethod', // 8
+      '    def parse(text,', // 9
+      '              strict=False):', // 10
+      '        def local():', // 11
+      '            pass', // 12
+      '        return text', // 13
+      '', // 14
+      '    async def close(self): pass', // 15
+      '', // 16
+      'def main():', // 17
+      '    if True:', // 18
+      '        print("def fake():")', // 19
+      'handler = main', // 20
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'python'))).toEqual([
+      'constant MAX_SIZE 2-2',
+      'class Parser 4-15',
+      'property Parser.mode 6-6',
+      'method Parser.parse 8-13',
+      'method Parser.close 15-15',
+      'function main 17-19',
+      'variable handler 20-20',
+    ]);
+  });
+
+  it('parses Go functions, methods and type declarations', () => {
+    const source = [
+      'package store', // 1
+      '', // 2
+      'import (', // 3
+      '  "fmt"', // 4
+      ')', // 5
+      '', // 6
+      'type Repo[T any] struct {', // 7
+      '  sync.Mutex', // 8
+      '  items map[string]T', // 9
+      '}', // 10
+      '', // 11
+      'type (', // 12
+      '  ID string', // 13
+      '  Reader interface {', // 14
+      '    Read(id ID) error', // 15
+      '  }', // 16
+      ')', // 17
+      '', // 18
+      'const Limit = 10', // 19
+      '', // 20
+      'func (r *Repo[T]) Get(id ID) (T, error) {', // 21
+      '  return r.items[string(id)], nil', // 22
+      '}', // 23
+      '', // 24
+      'func New() *Repo[int] {', // 25
+      '  s := `func Fake() {`', // 26
+      '  return nil', // 27
+      '}', // 28
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'go'))).toEqual([
+      'struct Repo 7-10',
+      'property Repo.items 9-9',
+      'type ID 13-13',
+      'interface Reader 14-16',
+      'method Reader.Read 15-15',
+      'constant Limit 19-19',
+      'method Repo.Get 21-23',
+      'function New 25-28',
+    ]);
+  });
+
+  it('parses Rust items, impl blocks and traits', () => {
+    const source = [
+      'use std::fmt;', // 1
+      '', // 2
+      '#[derive(Debug)]', // 3
+      'pub struct Point<T> {', // 4
+      '    x: T,', // 5
+      '}', // 6
+      '', // 7
+      "impl<'a, T: fmt::Display> fmt::Display for Point<T> {", // 8
+      "    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {", // 9
+      '        write!(f, "fn fake() {{")', // 10
+      '    }', // 11
+      '}', // 12
+      '', // 13
+      'pub(crate) trait Shape {', // 14
+      '    fn area(&self) -> f64;', // 15
+      '}', // 16
+      '', // 17
+      'pub const fn origin() -> u8 { 0 }', // 18
+      'static mut COUNT: u32 = 0;', // 19
+      'mod tests {', // 20
+      '    fn helper() {}', // 21
+      '}', // 22
+      'macro_rules! square {', // 23
+      '    ($x:expr) => { $x * $x };', // 24
+      '}', // 25
+      'const RAW: &str = r#"struct Fake {}"#;', // 26
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'rust'))).toEqual([
+      'struct Point 3-6',
+      'impl Point 8-12',
+      'method Point.fmt 9-11',
+      'trait Shape 14-16',
+      'method Shape.area 15-15',
+      'function origin 18-18',
+      'variable COUNT 19-19',
+      'module tests 20-22',
+      'function tests.helper 21-21',
+      'macro square 23-25',
+      'constant RAW 26-26',
+    ]);
+  });
+
+  it('finds the body of Rust traits and impls with braced generic arguments', () => {
+    const source = [
+      'trait Sized<const N: usize = { 4 }> {', // 1
+      '    fn size(&self) -> usize;', // 2
+      '}', // 3
+      'impl Buffer<{ 8 }> {', // 4
+      '    fn new() -> Self { Buffer }', // 5
+      '}', // 6
+    ].join('\n');
+
+    expect(summarize(parseSymbols(source, 'rust'))).toEqual([
+      'trait Sized 1-3',
+      'method Sized.size 2-2',
+      'impl Buffer 4-6',
+      'method Buffer.new 5-5',
+    ]);
+  });
+
+  it('returns no symbols for unsupported languages', () => {
+    expect(parseSymbols('class A {}', 'java')).toEqual([]);
+  });
+});
+
+describe('findIdentifierOccurrences', () => {
+  it('skips comments and strings', () => {
+    const source = [
+      'const total = 1; // total is not read here',
+      "log('total', `${total}`);",
+      '/* total */ use(total);',
+      'const totals = 2;',
+    ].join('\n');
+
+    expect(findIdentifierOccurrences(source, 'typescript', 'total')).toEqual([
+      { line: 1, column: 7 },
+      { line: 2, column: 17 },
+      { line: 3, column: 17 },
+    ]);
+  });
+});
@@ -0,0 +1,1029 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SourceDialect, Token, tokenize } from './tokenizer.js';
+
+export type SymbolKind =
+  | 'class'
+  | 'interface'
+  | 'enum'
+  | 'type'
+  | 'function'
+  | 'method'
+  | 'property'
+  | 'variable'
+  | 'constant'
+  | 'namespace'
+  | 'module'
+  | 'struct'
+  | 'trait'
+  | 'impl'
+  | 'macro';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  /** Dotted path of the enclosing symbols, e.g. 'Outer.Inner'. */
+  container?: string;
+  /** 1-based line of the symbol's name. */
+  line: number;
+  /** 1-based first line of the declaration, including decorators. */
+  startLine: number;
+  /** 1-based last line of the declaration, including its body. */
+  endLine: number;
+}
+
+export interface IdentifierOccurrence {
+  line: number;
+  column: number;
+}
+
+const DIALECT_BY_LANGUAGE = new Map<string, SourceDialect>([
+  ['typescript', 'typescript'],
+  ['typescriptreact', 'typescript'],
+  ['javascript', 'typescript'],
+  ['javascriptreact', 'typescript'],
+  ['python', 'python'],
+  ['go', 'go'],
+  ['rust', 'rust'],
+]);
+
+/** Language identifiers, as returned by `getLanguageId`, that can be parsed. */
+export const SYMBOL_LANGUAGES = [...DIALECT_BY_LANGUAGE.keys()];
+
+export function isSymbolLanguage(language: string | undefined): boolean {
+  return language !== undefined && DIALECT_BY_LANGUAGE.has(language);
+}
+
+/**
+ * Extracts the declarations of a source file: types, functions, methods
+ * and module-level variables, with the lines they span. Function bodies are
+ * not searched, so local declarations are not reported.
+ */
+export function parseSymbols(content: string, language: string): CodeSymbol[] {
+  const dialect = DIALECT_BY_LANGUAGE.get(language);
+  if (!dialect) {
+    return [];
+  }
+  const tokens = tokenize(content, dialect);
+  const parser = new SymbolParser(tokens, dialect, content);
+  return parser.parse();
+}
+
+/**
+ * Finds where an identifier is used in a source file, skipping comments and
+ * string literals.
+ */
+export function findIdentifierOccurrences(
+  content: string,
+  language: string,
+  name: string,
+): IdentifierOccurrence[] {
+  const dialect = DIALECT_BY_LANGUAGE.get(language);
+  if (!dialect || !content.includes(name)) {
+    return [];
+  }
+  return tokenize(content, dialect)
+    .filter((token) => token.type === 'identifier' && token.value === name)
+    .map((token) => ({ line: token.line, column: token.column }));
+}
+
+const OPENING = new Set(['(', '[', '{']);
+const CLOSING = new Set([')', ']', '}']);
+
+/** Tokens after which a TypeScript statement continues on the next line. */
+const TS_TRAILING_CONTINUATIONS = new Set([
+  '=',
+  '=>',
+  ',',
+  '.',
+  '?.',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '&&',
+  '||',
+  '??',
+  '?',
+  ':',
+  '|',
+  '&',
+  '<',
+  '==',
+  '===',
+  '!=',
+  '!==',
+  'extends',
+  'implements',
+  'new',
+  'typeof',
+  'keyof',
+]);
+
+/** Tokens that continue a TypeScript statement from the previous line. */
+const TS_LEADING_CONTINUATIONS = new Set([
+  '.',
+  '?.',
+  '?',
+  ':',
+  '=>',
+  '{',
+  '=',
+  '&&',
+  '||',
+  '??',
+  '|',
+  '&',
+  '+',
+  '*',
+  '/',
+  ',',
+  'extends',
+  'implements',
+  'as',
+  'satisfies',
+]);
+
+/** Keywords after which Go inserts a semicolon at the end of a line. */
+const GO_SEMICOLON_KEYWORDS = new Set([
+  'break',
+  'continue',
+  'fallthrough',
+  'return',
+]);
+
+const TS_STATEMENT_MODIFIERS = new Set([
+  'export',
+  'default',
+  'declare',
+  'abstract',
+  'async',
+]);
+
+const TS_MEMBER_MODIFIERS = new Set([
+  'public',
+  'private',
+  'protected',
+  'static',
+  'readonly',
+  'async',
+  'abstract',
+  'override',
+  'declare',
+  'accessor',
+  'get',
+  'set',
+]);
+
+const RUST_ITEM_KINDS = new Map<string, SymbolKind>([
+  ['struct', 'struct'],
+  ['enum', 'enum'],
+  ['union', 'struct'],
+  ['trait', 'trait'],
+  ['type', 'type'],
+  ['mod', 'module'],
+  ['const', 'constant'],
+  ['static', 'variable'],
+  ['macro_rules', 'macro'],
+]);
+
+/** Python statements whose first token could be mistaken for an assignment. */
+const PYTHON_BLOCK_KEYWORDS = new Set([
+  'if',
+  'elif',
+  'else',
+  'for',
+  'while',
+  'try',
+  'with',
+  'except',
+  'finally',
+  'match',
+  'case',
+]);
+
+const RUST_ITEM_MODIFIERS = new Set([
+  'pub',
+  'async',
+  'unsafe',
+  'extern',
+  'default',
+]);
+
+class SymbolParser {
+  private readonly symbols: CodeSymbol[] = [];
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly dialect: SourceDialect,
+    private readonly content: string,
+  ) {}
+
+  parse(): CodeSymbol[] {
+    switch (this.dialect) {
+      case 'typescript':
+        this.parseTsStatements(0, this.tokens.length, undefined);
+        break;
+      case 'go':
+        this.parseGoDeclarations();
+        break;
+      case 'rust':
+        this.parseRustItems(0, this.tokens.length, undefined, false);
+        break;
+      case 'python':
+        this.parsePython();
+        break;
+      default:
+        break;
+    }
+    return this.symbols.sort((a, b) => a.startLine - b.startLine);
+  }
+
+  private add(
+    name: Token,
+    kind: SymbolKind,
+    container: string | undefined,
+    start: number,
+    end: number,
+  ): void {
+    this.symbols.push({
+      name: name.value,
+      kind,
+      container,
+      line: name.line,
+      startLine: this.tokens[start].line,
+      endLine: this.tokens[Math.max(end, start)].line,
+    });
+  }
+
+  private value(index: number): string | undefined {
+    return this.tokens[index]?.value;
+  }
+
+  private isIdentifier(index: number): boolean {
+    return this.tokens[index]?.type === 'identifier';
+  }
+
+  private isPunctuation(index: number, value: string): boolean {
+    const token = this.tokens[index];
+    return token?.type === 'punctuation' && token.value === value;
+  }
+
+  /** Returns the index of the bracket closing the one at `open`. */
+  private matchingClose(open: number, limit: number): number {
+    let depth = 0;
+    for (let i = open; i < limit; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'punctuation') {
+        continue;
+      }
+      if (OPENING.has(token.value)) {
+        depth++;
+      } else if (CLOSING.has(token.value)) {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    return limit - 1;
+  }
+
+  /**
+   * Returns the first `{` at bracket depth 0 in [start, end], or -1. Type
+   * arguments in the heading count as brackets, so that object types in
+   * them, as in `class Foo<T extends { a: string }> {`, are not taken as
+   * the body.
+   */
+  private findBody(start: number, end: number): number {
+    let depth = 0;
+    let angleDepth = 0;
+    for (let i = start; i <= end; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'punctuation') {
+        continue;
+      }
+      if (token.value === '{' && depth === 0 && angleDepth === 0) {
+        return i;
+      }
+      if (depth === 0 && token.value === '<') {
+        angleDepth++;
+      } else if (depth === 0 && token.value === '>' && angleDepth > 0) {
+        angleDepth--;
+      } else if (OPENING.has(token.value)) {
+        depth++;
+      } else if (CLOSING.has(token.value)) {
+        depth--;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the index of the last token of the statement starting at
+   * `start`. Statements end at a `;` outside of brackets, at a line break
+   * where the dialect ends statements, or before the bracket that closes
+   * the enclosing block. In TypeScript and Rust, type arguments at the
+   * statement's own level are tracked so that their commas, line breaks and
+   * braced arguments do not end it.
+   */
+  private findStatementEnd(
+    start: number,
+    limit: number,
+    commaTerminates = false,
+  ): number {
+    let depth = 0;
+    let angleDepth = 0;
+    for (let i = start; i < limit; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'punctuation') {
+        if (OPENING.has(token.value)) {
+          depth++;
+        } else if (CLOSING.has(token.value)) {
+          depth--;
+          if (depth < 0) {
+            return Math.max(i - 1, start);
+          }
+          if (
+            depth === 0 &&
+            angleDepth === 0 &&
+            token.value === '}' &&
+            this.dialect === 'rust'
+          ) {
+            return this.isPunctuation(i + 1, ';') ? i + 1 : i;
+          }
+        }
+      }
+      if (depth > 0) {
+        continue;
+      }
+      if (
+        (this.dialect === 'typescript' || this.dialect === 'rust') &&
+        token.type === 'punctuation'
+      ) {
+        if (token.value === '<') {
+          angleDepth++;
+        } else if (token.value === '>' && angleDepth > 0) {
+          angleDepth--;
+        } else if (token.value === ';') {
+          angleDepth = 0;
+        }
+      }
+      if (angleDepth > 0) {
+        continue;
+      }
+      if (
+        token.type === 'punctuation' &&
+        (token.value === ';' || (commaTerminates && token.value === ','))
+      ) {
+        return i;
+      }
+      const next = this.tokens[i + 1];
+      if (next?.newlineBefore && i + 1 < limit && this.endsLine(token, next)) {
+        return i;
+      }
+    }
+    return limit - 1;
+  }
+
+  private endsLine(token: Token, next: Token): boolean {
+    switch (this.dialect) {
+      case 'go':
+        return (
+          token.type !== 'punctuation' ||
+          CLOSING.has(token.value) ||
+          token.value === '++' ||
+          token.value === '--' ||
+          GO_SEMICOLON_KEYWORDS.has(token.value)
+        );
+      case 'typescript':
+        return (
+          !TS_TRAILING_CONTINUATIONS.has(token.value) &&
+          !TS_LEADING_CONTINUATIONS.has(next.value)
+        );
+      default:
+        return false;
+    }
+  }
+
+  // TypeScript and JavaScript
+
+  private skipTsDecorators(start: number, limit: number): number {
+    let i = start;
+    while (this.isPunctuation(i, '@') && i + 1 < limit) {
+      i += 2;
+      while (this.isPunctuation(i, '.') && this.isIdentifier(i + 1)) {
+        i += 2;
+      }
+      if (this.isPunctuation(i, '(')) {
+        i = this.matchingClose(i, limit) + 1;
+      }
+    }
+    return i;
+  }
+
+  private parseTsStatements(
+    start: number,
+    limit: number,
+    container: string | undefined,
+  ): void {
+    let i = start;
+    while (i < limit) {
+      const statementStart = i;
+      i = this.skipTsDecorators(i, limit);
+      while (
+        i < limit &&
+        TS_STATEMENT_MODIFIERS.has(this.value(i)!) &&
+        this.tokens[i].type === 'identifier' &&
+        (this.isIdentifier(i + 1) || this.isPunctuation(i + 1, '{'))
+      ) {
+        i++;
+      }
+      if (i >= limit) {
+        break;
+      }
+      const end = this.findStatementEnd(i, limit);
+      this.parseTsDeclaration(statementStart, i, end, container);
+      i = end + 1;
+    }
+  }
+
+  private parseTsDeclaration(
+    start: number,
+    keyword: number,
+    end: number,
+    container: string | undefined,
+  ): void {
+    let word = this.value(keyword);
+    let i = keyword + 1;
+    if (word === 'const' && this.value(i) === 'enum') {
+      word = 'enum';
+      i++;
+    }
+    if (word === 'function' && this.isPunctuation(i, '*')) {
+      i++;
+    }
+    if (!this.isIdentifier(i)) {
+      return;
+    }
+    const name = this.tokens[i];
+    switch (word) {
+      case 'function':
+        this.add(name, 'function', container, start, end);
+        return;
+      case 'class':
+      case 'interface': {
+        this.add(name, word, container, start, end);
+        const body = this.findBody(i + 1, end);
+        if (body !== -1) {
+          this.parseTsMembers(
+            body + 1,
+            this.matchingClose(body, end + 1),
+            qualify(container, name.value),
+          );
+        }
+        return;
+      }
+      case 'enum':
+        this.add(name, 'enum', container, start, end);
+        return;
+      case 'type':
+        if (this.isPunctuation(i + 1, '=') || this.isPunctuation(i + 1, '<')) {
+          this.add(name, 'type', container, start, end);
+        }
+        return;
+      case 'namespace':
+      case 'module': {
+        let last = i;
+        while (
+          this.isPunctuation(last + 1, '.') &&
+          this.isIdentifier(last + 2)
+        ) {
+          last += 2;
+        }
+        this.add(this.tokens[last], 'namespace', container, start, end);
+        const body = this.findBody(last + 1, end);
+        if (body !== -1) {
+          this.parseTsStatements(
+            body + 1,
+            this.matchingClose(body, end + 1),
+            qualify(container, this.tokens[last].value),
+          );
+        }
+        return;
+      }
+      case 'const':
+      case 'let':
+      case 'var': {
+        let kind: SymbolKind = word === 'const' ? 'constant' : 'variable';
+        let value = i + 1;
+        if (this.isPunctuation(value, ':')) {
+          // Skip the type annotation.
+          while (value <= end && !this.isPunctuation(value, '=')) {
+            value = OPENING.has(this.value(value)!)
+              ? this.matchingClose(value, end + 1) + 1
+              : value + 1;
+          }
+        }
+        if (
+          this.isPunctuation(value, '=') &&
+          this.isTsFunction(value + 1, end)
+        ) {
+          kind = 'function';
+        }
+        this.add(name, kind, container, start, end);
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  /** Whether the expression starting at `start` is a function. */
+  private isTsFunction(start: number, end: number): boolean {
+    let i = start;
+    if (this.value(i) === 'async') {
+      i++;
+    }
+    if (this.value(i) === 'function') {
+      return true;
+    }
+    if (this.isIdentifier(i)) {
+      return this.isPunctuation(i + 1, '=>');
+    }
+    if (this.isPunctuation(i, '<')) {
+      while (i <= end && !this.isPunctuation(i, '(')) {
+        i++;
+      }
+    }
+    if (!this.isPunctuation(i, '(')) {
+      return false;
+    }
+    const close = this.matchingClose(i, end + 1);
+    return (
+      this.isPunctuation(close + 1, '=>') || this.isPunctuation(close + 1, ':')
+    );
+  }
+
+  private parseTsMembers(
+    start: number,
+    limit: number,
+    container: string,
+  ): void {
+    let i = start;
+    while (i < limit) {
+      const memberStart = i;
+      i = this.skipTsDecorators(i, limit);
+      while (
+        i < limit &&
+        TS_MEMBER_MODIFIERS.has(this.value(i)!) &&
+        (this.isIdentifier(i + 1) ||
+          this.isPunctuation(i + 1, '*') ||
+          this.isPunctuation(i + 1, '['))
+      ) {
+        i++;
+      }
+      if (this.isPunctuation(i, '*')) {
+        i++;
+      }
+      if (i >= limit) {
+        break;
+      }
+      const end = this.findStatementEnd(i, limit, true);
+      const name = this.tokens[i];
+      if (name.type === 'identifier' || name.type === 'string') {
+        let next = i + 1;
+        if (this.isPunctuation(next, '?') || this.isPunctuation(next, '!')) {
+          next++;
+        }
+        const isMethod =
+          this.isPunctuation(next, '(') || this.isPunctuation(next, '<');
+        this.add(
+          { ...name, value: name.value.replace(/^['"]|['"]$/g, '') },
+          isMethod ? 'method' : 'property',
+          container,
+          memberStart,
+          end,
+        );
+      }
+      i = end + 1;
+    }
+  }
+
+  // Go
+
+  private parseGoDeclarations(): void {
+    const limit = this.tokens.length;
+    let i = 0;
+    while (i < limit) {
+      const end = this.findStatementEnd(i, limit);
+      switch (this.value(i)) {
+        case 'func':
+          this.parseGoFunction(i, end);
+          break;
+        case 'type':
+        case 'const':
+        case 'var':
+          this.parseGoSpecs(i, end);
+          break;
+        default:
+          break;
+      }
+      i = end + 1;
+    }
+  }
+
+  private parseGoFunction(start: number, end: number): void {
+    let i = start + 1;
+    let receiver: string | undefined;
+    if (this.isPunctuation(i, '(')) {
+      const close = this.matchingClose(i, end + 1);
+      const names = [];
+      for (let j = i + 1; j < close; j++) {
+        if (this.isPunctuation(j, '[')) {
+          j = this.matchingClose(j, close);
+        } else if (this.isIdentifier(j)) {
+          names.push(this.tokens[j].value);
+        }
+      }
+      receiver = names[names.length - 1];
+      i = close + 1;
+    }
+    if (this.isIdentifier(i)) {
+      this.add(
+        this.tokens[i],
+        receiver ? 'method' : 'function',
+        receiver,
+        start,
+        end,
+      );
+    }
+  }
+
+  private parseGoSpecs(start: number, end: number): void {
+    const keyword = this.value(start);
+    if (!this.isPunctuation(start + 1, '(')) {
+      this.parseGoSpec(keyword!, start, start + 1, end);
+      return;
+    }
+    const close = this.matchingClose(start + 1, end + 1);
+    let i = start + 2;
+    while (i < close) {
+      const specEnd = this.findStatementEnd(i, close);
+      this.parseGoSpec(keyword!, i, i, specEnd);
+      i = specEnd + 1;
+    }
+  }
+
+  private parseGoSpec(
+    keyword: string,
+    start: number,
+    nameIndex: number,
+    end: number,
+  ): void {
+    if (!this.isIdentifier(nameIndex)) {
+      return;
+    }
+    const name = this.tokens[nameIndex];
+    if (keyword !== 'type') {
+      this.add(
+        name,
+        keyword === 'const' ? 'constant' : 'variable',
+        undefined,
+        start,
+        end,
+      );
+      return;
+    }
+    let i = nameIndex + 1;
+    if (this.isPunctuation(i, '[')) {
+      i = this.matchingClose(i, end + 1) + 1;
+    }
+    const kind: SymbolKind =
+      this.value(i) === 'struct'
+        ? 'struct'
+        : this.value(i) === 'interface'
+          ? 'interface'
+          : 'type';
+    this.add(name, kind, undefined, start, end);
+    if (kind !== 'type' && this.isPunctuation(i + 1, '{')) {
+      this.parseGoMembers(
+        i + 2,
+        this.matchingClose(i + 1, end + 1),
+        name.value,
+        kind === 'interface',
+      );
+    }
+  }
+
+  /** Adds struct fields and interface methods. */
+  private parseGoMembers(
+    start: number,
+    limit: number,
+    container: string,
+    isInterface: boolean,
+  ): void {
+    let i = start;
+    while (i < limit) {
+      const end = this.findStatementEnd(i, limit);
+      if (this.isIdentifier(i) && i < end) {
+        const isMethod = this.isPunctuation(i + 1, '(');
+        if (isInterface ? isMethod : !this.isPunctuation(i + 1, '.')) {
+          this.add(
+            this.tokens[i],
+            isMethod ? 'method' : 'property',
+            container,
+            i,
+            end,
+          );
+        }
+      }
+      i = end + 1;
+    }
+  }
+
+  // Rust
+
+  private parseRustItems(
+    start: number,
+    limit: number,
+    container: string | undefined,
+    inImpl: boolean,
+  ): void {
+    let i = start;
+    while (i < limit) {
+      const itemStart = i;
+      // Attributes: #[...] and #![...].
+      while (this.isPunctuation(i, '#')) {
+        i++;
+        if (this.isPunctuation(i, '!')) {
+          i++;
+        }
+        if (this.isPunctuation(i, '[')) {
+          i = this.matchingClose(i, limit) + 1;
+        }
+      }
+      while (i < limit) {
+        const word = this.value(i)!;
+        if (RUST_ITEM_MODIFIERS.has(word) && this.isIdentifier(i)) {
+          i++;
+          if (word === 'pub' && this.isPunctuation(i, '(')) {
+            i = this.matchingClose(i, limit) + 1;
+          } else if (word === 'extern' && this.tokens[i]?.type === 'string') {
+            i++;
+          }
+        } else if (
+          word === 'const' &&
+          ['fn', 'unsafe', 'async', 'extern'].includes(this.value(i + 1)!)
+        ) {
+          i++;
+        } else {
+          break;
+        }
+      }
+      if (i >= limit) {
+        break;
+      }
+      const end = this.findStatementEnd(i, limit);
+      this.parseRustItem(itemStart, i, end, container, inImpl);
+      i = end + 1;
+    }
+  }
+
+  private parseRustItem(
+    start: number,
+    keyword: number,
+    end: number,
+    container: string | undefined,
+    inImpl: boolean,
+  ): void {
+    const word = this.value(keyword);
+    let nameIndex = keyword + 1;
+    if (word === 'static' && this.value(nameIndex) === 'mut') {
+      nameIndex++;
+    }
+    if (word === 'macro_rules' && this.isPunctuation(nameIndex, '!')) {
+      nameIndex++;
+    }
+    if (word === 'impl') {
+      this.parseRustImpl(start, keyword, end, container);
+      return;
+    }
+    if (!this.isIdentifier(nameIndex)) {
+      return;
+    }
+    const name = this.tokens[nameIndex];
+    const kind =
+      word === 'fn'
+        ? inImpl
+          ? 'method'
+          : 'function'
+        : RUST_ITEM_KINDS.get(word!);
+    if (!kind) {
+      return;
+    }
+    this.add(name, kind, container, start, end);
+    if (word === 'mod' || word === 'trait') {
+      const body = this.findBody(nameIndex + 1, end);
+      if (body !== -1) {
+        this.parseRustItems(
+          body + 1,
+          this.matchingClose(body, end + 1),
+          word === 'mod' ? qualify(container, name.value) : name.value,
+          word === 'trait',
+        );
+      }
+    }
+  }
+
+  private parseRustImpl(
+    start: number,
+    keyword: number,
+    end: number,
+    container: string | undefined,
+  ): void {
+    let i = keyword + 1;
+    i = this.skipRustGenerics(i, end);
+    let typeName: Token | undefined;
+    while (
+      i <= end &&
+      !this.isPunctuation(i, '{') &&
+      this.value(i) !== 'where'
+    ) {
+      if (this.value(i) === 'for') {
+        typeName = undefined;
+      } else if (this.isIdentifier(i) && this.value(i) !== 'dyn') {
+        typeName = this.tokens[i];
+      } else if (this.isPunctuation(i, '<')) {
+        i = this.skipRustGenerics(i, end) - 1;
+      }
+      i++;
+    }
+    if (!typeName) {
+      return;
+    }
+    this.add(typeName, 'impl', container, start, end);
+    const body = this.findBody(i, end);
+    if (body !== -1) {
+      this.parseRustItems(
+        body + 1,
+        this.matchingClose(body, end + 1),
+        typeName.value,
+        true,
+      );
+    }
+  }
+
+  /** Skips a `<...>` generic parameter list starting at `start`, if any. */
+  private skipRustGenerics(start: number, end: number): number {
+    if (!this.isPunctuation(start, '<')) {
+      return start;
+    }
+    let depth = 0;
+    for (let i = start; i <= end; i++) {
+      if (this.isPunctuation(i, '<')) {
+        depth++;
+      } else if (this.isPunctuation(i, '>')) {
+        depth--;
+        if (depth === 0) {
+          return i + 1;
+        }
+      }
+    }
+    return end + 1;
+  }
+
+  // Python
+
+  private parsePython(): void {
+    const lines = this.pythonLogicalLines();
+    this.parsePythonBlock(lines, 0, lines.length, undefined, false);
+  }
+
+  /** Groups tokens into logical lines, joining lines inside brackets. */
+  private pythonLogicalLines(): PythonLine[] {
+    const sourceLines = this.content.split('\n');
+    const lines: PythonLine[] = [];
+    let depth = 0;
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (i === 0 || (token.newlineBefore && depth === 0)) {
+        const text = sourceLines[token.line - 1] ?? '';
+        lines.push({
+          start: i,
+          end: i,
+          indent: text.length - text.trimStart().length,
+        });
+      }
+      lines[lines.length - 1].end = i;
+      if (token.type === 'punctuation') {
+        if (OPENING.has(token.value)) {
+          depth++;
+        } else if (CLOSING.has(token.value)) {
+          depth = Math.max(0, depth - 1);
+        }
+      }
+    }
+    return lines;
+  }
+
+  private parsePythonBlock(
+    lines: PythonLine[],
+    from: number,
+    to: number,
+    container: string | undefined,
+    inClass: boolean,
+  ): void {
+    let i = from;
+    while (i < to) {
+      const first = lines[i];
+      let current = i;
+      // Decorators belong to the definition that follows them.
+      while (
+        current < to - 1 &&
+        this.isPunctuation(lines[current].start, '@') &&
+        lines[current + 1].indent === first.indent
+      ) {
+        current++;
+      }
+      const line = lines[current];
+      let keyword = line.start;
+      if (this.value(keyword) === 'async') {
+        keyword++;
+      }
+      const word = this.value(keyword);
+
+      let next = current + 1;
+      while (next < to && lines[next].indent > line.indent) {
+        next++;
+      }
+      const end = lines[next - 1].end;
+
+      if (
+        (word === 'def' || word === 'class') &&
+        this.isIdentifier(keyword + 1)
+      ) {
+        const name = this.tokens[keyword + 1];
+        if (word === 'class') {
+          this.add(name, 'class', container, first.start, end);
+          this.parsePythonBlock(
+            lines,
+            current + 1,
+            next,
+            qualify(container, name.value),
+            true,
+          );
+        } else {
+          this.add(
+            name,
+            inClass ? 'method' : 'function',
+            container,
+            first.start,
+            end,
+          );
+        }
+        i = next;
+        continue;
+      }
+
+      if (
+        current === i &&
+        this.isIdentifier(line.start) &&
+        (this.isPunctuation(line.start + 1, '=') ||
+          this.isPunctuation(line.start + 1, ':')) &&
+        !PYTHON_BLOCK_KEYWORDS.has(this.value(line.start)!)
+      ) {
+        const name = this.tokens[line.start];
+        this.add(
+          name,
+          inClass
+            ? 'property'
+            : /^[A-Z][A-Z0-9_]*$/.test(name.value)
+              ? 'constant'
+              : 'variable',
+          container,
+          line.start,
+          line.end,
+        );
+      }
+      i = current === i ? next : current;
+    }
+  }
+}
+
+interface PythonLine {
+  /** Index of the first token. */
+  start: number;
+  /** Index of the last token. */
+  end: number;
+  indent: number;
+}
+
+function qualify(container: string | undefined, name: string): string {
+  return container ? `${container}.${name}` : name;
+}
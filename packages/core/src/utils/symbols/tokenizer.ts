@@ -0,0 +1,329 @@
+/**
+ * @license
+ * Copyright 2025 Vybestack LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type TokenType = 'identifier' | 'string' | 'number' | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  /** 1-based line of the first character. */
+  line: number;
+  /** 1-based column of the first character. */
+  column: number;
+  /** Whether a line break separates this token from the previous one. */
+  newlineBefore: boolean;
+}
+
+export type SourceDialect = 'typescript' | 'python' | 'go' | 'rust';
+
+/** Operators kept as one token because the symbol parsers look for them. */
+const MULTI_CHAR_PUNCTUATION = [
+  '...',
+  '===',
+  '!==',
+  '=>',
+  '->',
+  '::',
+  '?.',
+  '&&',
+  '||',
+  '??',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  ':=',
+  '++',
+  '--',
+];
+
+/** String prefixes that are part of the literal rather than identifiers. */
+const STRING_PREFIXES: Record<SourceDialect, RegExp | undefined> = {
+  typescript: undefined,
+  python: /^(?:[rbfu]|rb|br|fr|rf)$/i,
+  go: undefined,
+  rust: /^(?:b|r|br|c|cr)$/,
+};
+
+function isIdentifierStart(ch: string, dialect: SourceDialect): boolean {
+  const code = ch.charCodeAt(0);
+  if (
+    (code >= 65 && code <= 90) ||
+    (code >= 97 && code <= 122) ||
+    code === 95
+  ) {
+    return true;
+  }
+  if (ch === '$' || ch === '#') {
+    return dialect === 'typescript';
+  }
+  return code > 127 && /\p{L}/u.test(ch);
+}
+
+function isIdentifierPart(ch: string, dialect: SourceDialect): boolean {
+  const code = ch.charCodeAt(0);
+  if (code >= 48 && code <= 57) {
+    return true;
+  }
+  if (ch === '#') {
+    return false;
+  }
+  return isIdentifierStart(ch, dialect) || (code > 127 && /\p{N}/u.test(ch));
+}
+
+/**
+ * Splits source code into identifiers, literals and punctuation, dropping
+ * whitespace and comments. The tokenizer only knows enough of each dialect's
+ * lexical rules to keep comments and string contents from being mistaken
+ * for code; it does not validate the source.
+ */
+export function tokenize(source: string, dialect: SourceDialect): Token[] {
+  const tokens: Token[] = [];
+  // Brace depth inside each open `${` of a template literal.
+  const templateBraces: number[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let newlineBefore = false;
+
+  const push = (type: TokenType, start: number, startLine: number) => {
+    const startColumn =
+      start - (startLine === line ? lineStart : lineStartOf(start)) + 1;
+    tokens.push({
+      type,
+      value: source.slice(start, pos),
+      line: startLine,
+      column: startColumn,
+      newlineBefore,
+    });
+    newlineBefore = false;
+  };
+
+  const lineStartOf = (offset: number) =>
+    source.lastIndexOf('\n', offset - 1) + 1;
+
+  /** Advances past `end`, counting line breaks. */
+  const advanceTo = (end: number) => {
+    for (let i = pos; i < end; i++) {
+      if (source.charCodeAt(i) === 10) {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    pos = end;
+  };
+
+  /** Scans a template literal chunk, stopping after '`' or '${'. */
+  const scanTemplate = (start: number, startLine: number) => {
+    let i = pos;
+    while (i < source.length) {
+      const ch = source[i];
+      if (ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (ch === '`') {
+        advanceTo(i + 1);
+        push('string', start, startLine);
+        return;
+      }
+      if (ch === '$' && source[i + 1] === '{') {
+        advanceTo(i + 2);
+        push('string', start, startLine);
+        templateBraces.push(0);
+        return;
+      }
+      i++;
+    }
+    advanceTo(source.length);
+    push('string', start, startLine);
+  };
+
+  /** Returns the offset after the string literal starting at `from`. */
+  const scanQuoted = (from: number, quote: string, escapes: boolean) => {
+    let i = from + 1;
+    while (i < source.length) {
+      const ch = source[i];
+      if (escapes && ch === '\\') {
+        i += 2;
+        continue;
+      }
+      if (ch === quote) {
+        return i + 1;
+      }
+      if (ch === '\n' && quote !== '`') {
+        // Unterminated string; stop at the end of the line.
+        return i;
+      }
+      i++;
+    }
+    return source.length;
+  };
+
+  /**
+   * Returns the offset after a literal whose prefix ends at `from`, or
+   * undefined when the prefix is not followed by a literal.
+   */
+  const scanPrefixedLiteral = (
+    from: number,
+    prefix: string,
+  ): number | undefined => {
+    if (dialect === 'rust' && prefix.includes('r')) {
+      const hashes = /^#*/.exec(source.slice(from, from + 256))![0];
+      if (source[from + hashes.length] !== '"') {
+        return undefined;
+      }
+      const terminator = `"${hashes}`;
+      const end = source.indexOf(terminator, from + hashes.length + 1);
+      return end === -1 ? source.length : end + terminator.length;
+    }
+    const quote = source[from];
+    if (quote !== '"' && quote !== "'") {
+      return undefined;
+    }
+    if (dialect === 'python' && source.startsWith(quote.repeat(3), from)) {
+      const end = source.indexOf(quote.repeat(3), from + 3);
+      return end === -1 ? source.length : end + 3;
+    }
+    return scanQuoted(from, quote, true);
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    if (ch === '\n') {
+      advanceTo(pos + 1);
+      newlineBefore = true;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f') {
+      pos++;
+      continue;
+    }
+    if (ch === '\\' && (next === '\n' || next === '\r')) {
+      // Line continuation: the next line continues the current one.
+      advanceTo(source.indexOf('\n', pos) + 1 || source.length);
+      continue;
+    }
+
+    // Comments.
+    if (dialect === 'python' ? ch === '#' : ch === '/' && next === '/') {
+      const end = source.indexOf('\n', pos);
+      pos = end === -1 ? source.length : end;
+      continue;
+    }
+    if (dialect !== 'python' && ch === '/' && next === '*') {
+      const end = source.indexOf('*/', pos + 2);
+      advanceTo(end === -1 ? source.length : end + 2);
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+
+    // Strings.
+    if (dialect === 'python' && (ch === '"' || ch === "'")) {
+      const triple = ch.repeat(3);
+      if (source.startsWith(triple, pos)) {
+        let i = pos + 3;
+        while (i < source.length && !source.startsWith(triple, i)) {
+          i += source[i] === '\\' ? 2 : 1;
+        }
+        advanceTo(Math.min(i + 3, source.length));
+      } else {
+        advanceTo(scanQuoted(pos, ch, true));
+      }
+      push('string', start, startLine);
+      continue;
+    }
+    if (ch === '"') {
+      advanceTo(scanQuoted(pos, '"', true));
+      push('string', start, startLine);
+      continue;
+    }
+    if (ch === "'") {
+      if (dialect === 'rust') {
+        // A char literal, or the quote of a lifetime such as 'a.
+        const charEnd =
+          /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'])'/u.exec(
+            source.slice(pos, pos + 16),
+          );
+        if (charEnd) {
+          advanceTo(pos + charEnd[0].length);
+          push('string', start, startLine);
+        } else {
+          pos++;
+          push('punctuation', start, startLine);
+        }
+        continue;
+      }
+      advanceTo(scanQuoted(pos, "'", true));
+      push('string', start, startLine);
+      continue;
+    }
+    if (ch === '`') {
+      if (dialect === 'typescript') {
+        pos++;
+        scanTemplate(start, startLine);
+      } else {
+        advanceTo(scanQuoted(pos, '`', false));
+        push('string', start, startLine);
+      }
+      continue;
+    }
+
+    if (isIdentifierStart(ch, dialect)) {
+      let i = pos + 1;
+      while (i < source.length && isIdentifierPart(source[i], dialect)) {
+        i++;
+      }
+      const word = source.slice(pos, i);
+      if (STRING_PREFIXES[dialect]?.test(word)) {
+        // A prefixed literal such as f"..." or r#"..."#.
+        const literalEnd = scanPrefixedLiteral(i, word);
+        if (literalEnd !== undefined) {
+          advanceTo(literalEnd);
+          push('string', start, startLine);
+          continue;
+        }
+      }
+      pos = i;
+      push('identifier', start, startLine);
+      continue;
+    }
+
+    if (ch >= '0' && ch <= '9') {
+      let i = pos + 1;
+      while (i < source.length && /[\w.]/.test(source[i])) {
+        i++;
+      }
+      pos = i;
+      push('number', start, startLine);
+      continue;
+    }
+
+    if (templateBraces.length > 0 && (ch === '{' || ch === '}')) {
+      const depth = templateBraces.length - 1;
+      if (ch === '}' && templateBraces[depth] === 0) {
+        // End of a template substitution; the literal continues.
+        templateBraces.pop();
+        pos++;
+        scanTemplate(start, startLine);
+        continue;
+      }
+      templateBraces[depth] += ch === '{' ? 1 : -1;
+    }
+
+    const operator = MULTI_CHAR_PUNCTUATION.find((op) =>
+      source.startsWith(op, pos),
+    );
+    pos += operator ? operator.length : 1;
+    push('punctuation', start, startLine);
+  }
+
+  return tokens;
+}